@@ -1,15 +1,17 @@
 
-const CACHE_NAME = 'takeover-basketball-v1';
+const CACHE_NAME = 'takeover-basketball-v2';
+const API_CACHE_NAME = 'takeover-basketball-api-v1';
+const SYNC_TAG = 'offline-queue';
 const urlsToCache = [
   '/',
-  '/dashboard',
-  '/login',
-  '/static/js/bundle.js',
-  '/static/css/main.css',
+  '/index.html',
+  '/manifest.json',
+  '/favicon.ico',
+  '/logo.jpg',
   '/lovable-uploads/f91216d7-29ee-4634-a0ed-312ec0dacc5b.png'
 ];
 
-// Install event - cache resources
+// Install event - cache the app shell
 self.addEventListener('install', (event) => {
   event.waitUntil(
     caches.open(CACHE_NAME)
@@ -17,21 +19,77 @@ self.addEventListener('install', (event) => {
         console.log('Opened cache');
         return cache.addAll(urlsToCache);
       })
+      .then(() => self.skipWaiting())
   );
 });
 
+// Supabase data reads: always try the network, fall back to the last response when offline
+const networkFirst = (request, cacheName) =>
+  fetch(request)
+    .then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(cacheName).then((cache) => cache.put(request, copy));
+      }
+      return response;
+    })
+    .catch(() => caches.match(request, { cacheName }).then((cached) => cached || Promise.reject(new TypeError('Failed to fetch'))));
+
+// Vite build output is content hashed, so a cached copy never goes stale
+const cacheFirst = (request) =>
+  caches.match(request).then((cached) => {
+    if (cached) {
+      return cached;
+    }
+    return fetch(request).then((response) => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+      }
+      return response;
+    });
+  });
+
 // Fetch event - serve from cache when offline
 self.addEventListener('fetch', (event) => {
-  event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        // Return cached version or fetch from network
-        if (response) {
+  const { request } = event;
+  if (request.method !== 'GET') {
+    return;
+  }
+  const url = new URL(request.url);
+
+  if (url.pathname.startsWith('/rest/v1/')) {
+    event.respondWith(networkFirst(request, API_CACHE_NAME));
+    return;
+  }
+
+  if (url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (request.mode === 'navigate') {
+    // Every route is the same single page app, so any cached index.html can render it offline
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          if (response.ok) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then((cache) => cache.put('/index.html', copy));
+          }
           return response;
-        }
-        return fetch(event.request);
-      }
-    )
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  if (url.pathname.startsWith('/assets/')) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  event.respondWith(
+    fetch(request).catch(() => caches.match(request))
   );
 });
 
@@ -41,11 +99,63 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME) {
+          if (cacheName !== CACHE_NAME && cacheName !== API_CACHE_NAME) {
             return caches.delete(cacheName);
           }
         })
       );
+    }).then(() => self.clients.claim())
+  );
+});
+
+// Background sync - ask the open app to replay attendance saved while offline
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(
+      self.clients.matchAll({ type: 'window' }).then((clients) => {
+        clients.forEach((client) => client.postMessage({ type: 'flush-offline-queue' }));
+      })
+    );
+  }
+});
+
+self.addEventListener('message', (event) => {
+  // Cached data belongs to the user who fetched it, so it goes away on logout
+  if (event.data && event.data.type === 'clear-api-cache') {
+    event.waitUntil(caches.delete(API_CACHE_NAME));
+  }
+});
+
+// Push event - show notifications sent by the send-push-notification function
+self.addEventListener('push', (event) => {
+  let data = {};
+  try {
+    data = event.data ? event.data.json() : {};
+  } catch (error) {
+    data = { body: event.data ? event.data.text() : '' };
+  }
+  event.waitUntil(
+    self.registration.showNotification(data.title || 'Takeover Basketball', {
+      body: data.body || '',
+      icon: '/lovable-uploads/f91216d7-29ee-4634-a0ed-312ec0dacc5b.png',
+      badge: '/lovable-uploads/f91216d7-29ee-4634-a0ed-312ec0dacc5b.png',
+      tag: data.tag,
+      data: { url: data.url || '/dashboard' }
+    })
+  );
+});
+
+// Focus an open window of the app, or open one, when a notification is tapped
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/dashboard';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      const client = clients.find((c) => new URL(c.url).origin === self.location.origin);
+      if (client) {
+        return client.focus().then(() => client.navigate(url));
+      }
+      return self.clients.openWindow(url);
     })
   );
 });
@@ -5,15 +5,22 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/context/AuthContext";
 import { PWAInstallBanner } from "@/components/PWAInstallBanner";
+import { initOfflineSync } from "@/utils/offlineSync";
 import Login from "./pages/Login";
 import ForgotPassword from "./pages/ForgotPassword";
 import Index from "./pages/Index";
 import Dashboard from "./pages/Dashboard";
 import Settings from "./pages/Settings";
+import StudentPortalPage from "./pages/StudentPortalPage";
 import NotFound from "./pages/NotFound";
 import { useEffect } from "react";
 
-const queryClient = new QueryClient();
+// Queries still run without a connection so the service worker can answer from its cache
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { networkMode: "offlineFirst" },
+  },
+});
 
 const App = () => {
   useEffect(() => {
@@ -31,6 +38,8 @@ const App = () => {
     }
   }, []);
 
+  useEffect(() => initOfflineSync(queryClient), []);
+
   return (
     <QueryClientProvider client={queryClient}>
       <TooltipProvider>
@@ -44,6 +53,7 @@ const App = () => {
               <Route path="/index" element={<Index />} />
               <Route path="/dashboard/*" element={<Dashboard />} />
               <Route path="/settings" element={<Settings />} />
+              <Route path="/portal" element={<StudentPortalPage />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
             <PWAInstallBanner />
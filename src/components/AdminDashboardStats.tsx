@@ -3,11 +3,12 @@ import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Calendar, Users, CheckCircle, Clock, TrendingUp, Activity, UserCheck, MapPin, GraduationCap } from "lucide-react";
+import { Calendar, Users, CheckCircle, Clock, TrendingUp, Activity, UserCheck, MapPin, GraduationCap, AlertCircle, Timer } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
-import { format, formatDistanceToNow } from "date-fns";
-import { Component, ErrorInfo } from "react";
+import { format, formatDistanceToNow, subDays } from "date-fns";
+import { Component, ErrorInfo, useState } from "react";
 import { toast } from "sonner";
+import { formatMinutes, groupPunctuality, type CoachSessionPunctuality } from "@/utils/punctuality";
 
 type RecentActivity = {
   id: string;
@@ -16,6 +17,17 @@ type RecentActivity = {
   created_at: string;
 };
 
+type OverdueInstallment = {
+  id: string;
+  student_id: string;
+  installment_number: number;
+  amount: number;
+  paid_amount: number;
+  due_date: string;
+  late_fee_charge_id: string | null;
+  students: { name: string } | null;
+};
+
 type TrainingSession = {
   id: string;
   date: string;
@@ -62,6 +74,7 @@ class DashboardErrorBoundary extends Component<{ children: React.ReactNode }, {
 
 export function AdminDashboardStats() {
   const navigate = useNavigate();
+  const [punctualityGroup, setPunctualityGroup] = useState<'coach' | 'branch'>('coach');
 
   const { data: stats, isLoading: statsLoading, error: statsError } = useQuery({
     queryKey: ['admin-dashboard-stats'],
@@ -199,6 +212,57 @@ export function AdminDashboardStats() {
     }
   });
 
+  const { data: overdueInstallments } = useQuery({
+    queryKey: ['overdue-installments'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('student_installments')
+        .select(`
+          id,
+          student_id,
+          installment_number,
+          amount,
+          paid_amount,
+          due_date,
+          late_fee_charge_id,
+          students (name)
+        `)
+        .is('package_history_id', null)
+        .lt('due_date', format(new Date(), 'yyyy-MM-dd'))
+        .order('due_date', { ascending: true });
+
+      if (error) {
+        console.error("Error fetching overdue installments:", error);
+        throw error;
+      }
+
+      // Partially paid installments are still overdue
+      return ((data || []) as OverdueInstallment[]).filter(installment => installment.paid_amount < installment.amount);
+    }
+  });
+
+  const { data: punctualityRows } = useQuery({
+    queryKey: ['coach-punctuality-summary'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('coach_session_punctuality')
+        .select('*')
+        .gte('session_date', format(subDays(new Date(), 30), 'yyyy-MM-dd'))
+        .lte('session_date', format(new Date(), 'yyyy-MM-dd'));
+
+      if (error) {
+        console.error("Error fetching coach punctuality:", error);
+        throw error;
+      }
+
+      return (data || []) as CoachSessionPunctuality[];
+    }
+  });
+
+  const punctualitySummaries = groupPunctuality(punctualityRows || [], punctualityGroup);
+
+  const overdueTotal = (overdueInstallments || []).reduce((sum, installment) => sum + installment.amount - installment.paid_amount, 0);
+
   const statCards = [
     {
       title: "Total Students",
@@ -373,6 +437,138 @@ export function AdminDashboardStats() {
             </CardContent>
           </Card>
 
+          {/* Overdue Installments */}
+          {overdueInstallments && overdueInstallments.length > 0 && (
+            <Card className="border-2 border-[#242833] bg-white shadow-xl">
+              <CardHeader className="border-b border-[#242833] bg-[#242833] p-3 sm:p-4 md:p-6">
+                <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-primary-foreground flex items-center">
+                  <AlertCircle className="h-4 sm:h-5 w-4 sm:w-5 mr-2 sm:mr-3 text-red-400" />
+                  Overdue Installments
+                </CardTitle>
+                <CardDescription className="text-muted mt-1 text-xs sm:text-sm">
+                  {overdueInstallments.length} installment{overdueInstallments.length === 1 ? '' : 's'} past due · ₱{overdueTotal.toFixed(2)} outstanding
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-accent/5 border-b border-accent/10">
+                        <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4">Player</TableHead>
+                        <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4">Due Date</TableHead>
+                        <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Amount Due</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {overdueInstallments.map((installment, index) => (
+                        <TableRow
+                          key={installment.id}
+                          onClick={() => navigate(`/dashboard/students/${installment.student_id}/payments`)}
+                          className={`
+                            cursor-pointer hover:bg-accent/5 transition-colors border-b border-muted/20
+                            ${index % 2 === 0 ? 'bg-background' : 'bg-muted/10'}
+                          `}
+                        >
+                          <TableCell className="py-2 sm:py-4 px-2 sm:px-4">
+                            <div className="font-semibold text-foreground text-xs sm:text-sm">
+                              {installment.students?.name || 'Unknown'}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              Installment #{installment.installment_number}
+                              {installment.late_fee_charge_id && ' · late fee charged'}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-red-600 font-medium text-xs sm:text-sm px-2 sm:px-4">
+                            {format(new Date(installment.due_date + 'T00:00:00'), 'MMM dd, yyyy')}
+                          </TableCell>
+                          <TableCell className="text-foreground font-semibold text-xs sm:text-sm px-2 sm:px-4 text-right">
+                            ₱{(installment.amount - installment.paid_amount).toFixed(2)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Coach Punctuality */}
+          {punctualitySummaries.length > 0 && (
+            <Card className="border-2 border-[#242833] bg-white shadow-xl">
+              <CardHeader className="border-b border-[#242833] bg-[#242833] p-3 sm:p-4 md:p-6">
+                <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+                  <div>
+                    <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-primary-foreground flex items-center">
+                      <Timer className="h-4 sm:h-5 w-4 sm:w-5 mr-2 sm:mr-3 text-accent" style={{ color: '#79e58f' }} />
+                      Coach Punctuality
+                    </CardTitle>
+                    <CardDescription className="text-muted mt-1 text-xs sm:text-sm">
+                      Time in and time out against the schedule, last 30 days
+                    </CardDescription>
+                  </div>
+                  <div className="flex gap-2">
+                    {(['coach', 'branch'] as const).map((group) => (
+                      <Button
+                        key={group}
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setPunctualityGroup(group)}
+                        className={`text-xs sm:text-sm ${punctualityGroup === group ? 'bg-[#79e58f] text-[#242833] border-[#79e58f] hover:bg-[#79e58f]/90' : 'bg-transparent text-white border-[#79e58f] hover:bg-white/10 hover:text-white'}`}
+                      >
+                        By {group === 'coach' ? 'Coach' : 'Branch'}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-accent/5 border-b border-accent/10">
+                        <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4">{punctualityGroup === 'coach' ? 'Coach' : 'Branch'}</TableHead>
+                        <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Sessions</TableHead>
+                        <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">On Time</TableHead>
+                        <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Late</TableHead>
+                        <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right hidden sm:table-cell">Early Leaves</TableHead>
+                        <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right hidden sm:table-cell">Absences</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {punctualitySummaries.map((summary, index) => (
+                        <TableRow
+                          key={summary.key}
+                          onClick={() => punctualityGroup === 'coach' && navigate(`/dashboard/coaches/${summary.key}/view`)}
+                          className={`
+                            ${punctualityGroup === 'coach' ? 'cursor-pointer' : ''} hover:bg-accent/5 transition-colors border-b border-muted/20
+                            ${index % 2 === 0 ? 'bg-background' : 'bg-muted/10'}
+                          `}
+                        >
+                          <TableCell className="py-2 sm:py-4 px-2 sm:px-4 font-semibold text-foreground text-xs sm:text-sm">
+                            {summary.label}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground text-xs sm:text-sm px-2 sm:px-4 text-right">{summary.sessions}</TableCell>
+                          <TableCell className={`text-xs sm:text-sm px-2 sm:px-4 text-right font-semibold ${summary.onTimeRate >= 90 ? 'text-green-600' : summary.onTimeRate >= 75 ? 'text-amber-600' : 'text-red-600'}`}>
+                            {summary.timedIn > 0 ? `${summary.onTimeRate}%` : '—'}
+                          </TableCell>
+                          <TableCell className="text-xs sm:text-sm px-2 sm:px-4 text-right">
+                            {summary.late}
+                            {summary.late > 0 && (
+                              <span className="block text-[10px] sm:text-xs text-muted-foreground">avg {formatMinutes(summary.averageMinutesLate)}</span>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-xs sm:text-sm px-2 sm:px-4 text-right hidden sm:table-cell">{summary.earlyLeaves}</TableCell>
+                          <TableCell className="text-xs sm:text-sm px-2 sm:px-4 text-right hidden sm:table-cell">{summary.absences}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           <div className="grid gap-4 sm:gap-6 md:gap-8 lg:grid-cols-2">
             
             {/* Upcoming Sessions */}
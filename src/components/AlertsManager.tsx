@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Bell, BellRing, CalendarClock, CheckCheck, Check, Eye, Filter, RefreshCw, TicketMinus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format } from "date-fns";
+
+type PackageAlert = {
+  id: string;
+  student_id: string;
+  alert_type: string;
+  package_cycle: number;
+  expiration_date: string | null;
+  remaining_sessions: number | null;
+  message: string;
+  emailed_at: string | null;
+  read_at: string | null;
+  created_at: string;
+  students: { name: string } | null;
+};
+
+export function AlertsManager() {
+  const [filter, setFilter] = useState<"unread" | "all">("unread");
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: alerts, isLoading } = useQuery({
+    queryKey: ["package-alerts", filter],
+    queryFn: async () => {
+      let query = supabase
+        .from("package_alerts")
+        .select("id, student_id, alert_type, package_cycle, expiration_date, remaining_sessions, message, emailed_at, read_at, created_at, students (name)")
+        .order("created_at", { ascending: false })
+        .limit(200);
+      if (filter === "unread") {
+        query = query.is("read_at", null);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as PackageAlert[];
+    },
+  });
+
+  const invalidateAlerts = () => {
+    queryClient.invalidateQueries({ queryKey: ["package-alerts"] });
+    queryClient.invalidateQueries({ queryKey: ["package-alerts-unread-count"] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (ids: string[]) => {
+      const { error } = await supabase
+        .from("package_alerts")
+        .update({ read_at: new Date().toISOString() })
+        .in("id", ids);
+      if (error) {
+        console.error('Mark alerts read error:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, ids) => {
+      invalidateAlerts();
+      if (ids.length > 1) {
+        toast.success(`Marked ${ids.length} alerts as read`);
+      }
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to mark alerts as read: ' + error.message);
+    },
+  });
+
+  const checkNowMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke('send-session-notification', {
+        body: { notificationType: 'package_alerts' },
+      });
+      if (error) {
+        console.error('Package alerts check error:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (data) => {
+      invalidateAlerts();
+      toast.success(data?.message || 'Package alerts checked');
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to check package alerts: ' + error.message);
+    },
+  });
+
+  const unreadIds = alerts?.filter((alert) => !alert.read_at).map((alert) => alert.id) || [];
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-3 sm:p-4 md:p-6">
+        <div className="text-center py-8 sm:py-12 md:py-16">
+          <Bell className="w-12 sm:w-14 md:w-16 h-12 sm:h-14 md:h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg sm:text-xl md:text-2xl font-bold text-black mb-3">Loading alerts...</h3>
+          <p className="text-xs sm:text-sm md:text-lg text-gray-600">Please wait while we fetch the package alerts.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pt-4 p-2 sm:p-3 md:p-6 pb-24 md:pb-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="mb-6">
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#242833] mb-2 tracking-tight">Alerts</h1>
+          <p className="text-xs sm:text-sm md:text-base text-gray-700">Packages expiring soon and players running low on sessions</p>
+        </div>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+              <div>
+                <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                  <BellRing className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                  Package Alerts
+                </CardTitle>
+                <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                  Generated daily and emailed to the player and admins
+                </CardDescription>
+              </div>
+              <div className="flex flex-row gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => markReadMutation.mutate(unreadIds)}
+                  disabled={unreadIds.length === 0 || markReadMutation.isPending}
+                  className="border-2 border-[#79e58f] bg-transparent text-white hover:bg-white/10 hover:text-white min-w-fit text-xs sm:text-sm"
+                >
+                  <CheckCheck className="w-4 h-4 mr-2" />
+                  Mark all read
+                </Button>
+                <Button
+                  onClick={() => checkNowMutation.mutate()}
+                  disabled={checkNowMutation.isPending}
+                  className="bg-accent text-white hover:bg-accent/90 transition-all duration-300 min-w-fit text-xs sm:text-sm"
+                  style={{ backgroundColor: '#79e58f' }}
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${checkNowMutation.isPending ? 'animate-spin' : ''}`} />
+                  {checkNowMutation.isPending ? "Checking..." : "Check now"}
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-2 sm:p-3 md:p-4">
+            <div className="mb-6">
+              <div className="flex items-center mb-4">
+                <Filter className="h-4 sm:h-5 w-4 sm:w-5 text-accent mr-2" style={{ color: '#79e58f' }} />
+                <h3 className="text-base sm:text-lg font-semibold text-gray-900">Filter Alerts</h3>
+              </div>
+              <div className="max-w-xs min-w-0">
+                <Select value={filter} onValueChange={(value: "unread" | "all") => setFilter(value)}>
+                  <SelectTrigger className="border-2 border-accent rounded-lg text-xs sm:text-sm bg-white" style={{ borderColor: '#79e58f' }}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="unread">Unread</SelectItem>
+                    <SelectItem value="all">All alerts</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <p className="text-xs sm:text-sm text-gray-600 mt-3">
+                Showing {alerts?.length || 0} alert{alerts?.length === 1 ? '' : 's'}
+              </p>
+            </div>
+
+            {alerts && alerts.length > 0 ? (
+              <div className="space-y-3">
+                {alerts.map((alert) => (
+                  <div
+                    key={alert.id}
+                    className={`flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 sm:p-4 rounded-lg border-2 ${
+                      alert.read_at ? 'border-gray-200 bg-white' : 'border-amber-300 bg-amber-50'
+                    }`}
+                  >
+                    <div className="flex items-start gap-3 min-w-0">
+                      {alert.alert_type === 'expiring' ? (
+                        <CalendarClock className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                      ) : (
+                        <TicketMinus className="w-5 h-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                      )}
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-semibold text-sm text-gray-900 truncate">{alert.students?.name || 'Unknown player'}</span>
+                          <Badge variant="outline" className="text-xs">
+                            {alert.alert_type === 'expiring' ? 'Expiring' : 'Low sessions'}
+                          </Badge>
+                          <Badge variant="outline" className="text-xs">Package #{alert.package_cycle}</Badge>
+                        </div>
+                        <p className="text-xs sm:text-sm text-gray-700 mt-1">{alert.message}</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {format(new Date(alert.created_at), 'MMM dd, yyyy h:mm a')}
+                          {alert.emailed_at ? ' · emailed' : ' · email pending'}
+                        </p>
+                      </div>
+                    </div>
+                    <div className="flex flex-row gap-2 flex-shrink-0">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate(`/dashboard/students/${alert.student_id}/view`)}
+                        className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs"
+                      >
+                        <Eye className="w-3.5 h-3.5 mr-1" />
+                        View
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => navigate(`/dashboard/students/${alert.student_id}/view?renew=1`)}
+                        className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs"
+                      >
+                        <RefreshCw className="w-3.5 h-3.5 mr-1" />
+                        Renew
+                      </Button>
+                      {!alert.read_at && (
+                        <Button
+                          size="sm"
+                          onClick={() => markReadMutation.mutate([alert.id])}
+                          disabled={markReadMutation.isPending}
+                          className="bg-accent text-white hover:bg-accent/90 text-xs"
+                          style={{ backgroundColor: '#79e58f' }}
+                        >
+                          <Check className="w-3.5 h-3.5 mr-1" />
+                          Read
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-8 sm:py-12">
+                <Bell className="w-12 sm:w-14 h-12 sm:h-14 text-gray-400 mx-auto mb-4" />
+                <h3 className="text-base sm:text-lg font-bold text-black mb-2">
+                  {filter === 'unread' ? 'No unread alerts' : 'No alerts yet'}
+                </h3>
+                <p className="text-xs sm:text-sm text-gray-600">
+                  Alerts appear here when a package is about to expire or a player is running low on sessions.
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
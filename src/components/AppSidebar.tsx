@@ -1,4 +1,4 @@
-import { Calendar, Users, MapPin, UserCheck, BookOpen, ClipboardList, Home, LogOut, Package } from "lucide-react";
+import { Calendar, Users, MapPin, UserCheck, BookOpen, ClipboardList, Home, LogOut, Package, Bell, Wallet, CalendarClock, Mail, TrendingUp, BarChart3, Grid3x3 } from "lucide-react";
 import {
   Sidebar,
   SidebarContent,
@@ -23,6 +23,13 @@ const menuItems = [
   { title: "Coaches", icon: BookOpen, value: "coaches", allowedRoles: ['admin'] },
   { title: "Branches", icon: MapPin, value: "branches", allowedRoles: ['admin'] },
   { title: "Packages", icon: Package, value: "packages", allowedRoles: ['admin'] },
+  { title: "Alerts", icon: Bell, value: "alerts", allowedRoles: ['admin'] },
+  { title: "Payroll", icon: Wallet, value: "payroll", allowedRoles: ['admin'] },
+  { title: "Finance", icon: TrendingUp, value: "finance", allowedRoles: ['admin'] },
+  { title: "Analytics", icon: BarChart3, value: "analytics", allowedRoles: ['admin'] },
+  { title: "Utilization", icon: Grid3x3, value: "utilization", allowedRoles: ['admin'] },
+  { title: "Availability", icon: CalendarClock, value: "availability", allowedRoles: ['admin', 'coach'] },
+  { title: "Notifications", icon: Mail, value: "notifications", allowedRoles: ['admin'] },
 ];
 
 interface AppSidebarProps {
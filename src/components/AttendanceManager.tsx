@@ -6,7 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
-import { CheckCircle, XCircle, Clock, Calendar, MapPin, User, Users, Filter, Search, ChevronLeft, ChevronRight, Eye, Pencil, Activity, AlertCircle, Edit3, GraduationCap, LogIn, LogOut, Package, Save, UserCheck, X, Download } from "lucide-react";
+import { CheckCircle, XCircle, Clock, Calendar, MapPin, User, Users, Filter, Search, ChevronLeft, ChevronRight, Eye, Pencil, Activity, AlertCircle, Edit3, GraduationCap, LogIn, LogOut, Package, Save, UserCheck, X, Download, AlarmClock, ShieldCheck } from "lucide-react";
 import { exportToCSV } from "@/utils/exportUtils";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -16,8 +16,11 @@ import { useAuth } from "@/context/AuthContext";
 import { format, addDays, subDays, parse, parseISO, format as formatDateFns } from "date-fns";
 import { CoachAttendanceManager } from "./CoachAttendanceManager";
 import { Database } from "@/integrations/supabase/types";
+import { isDurationBasedStudent } from "@/utils/packageCatalog";
+import { PunchLocationBadge } from "./PunchLocationBadge";
+import { AttendanceReasonDialog } from "./AttendanceReasonDialog";
 
-type AttendanceStatus = "present" | "absent" | "pending";
+type AttendanceStatus = "present" | "absent" | "pending" | "excused" | "late";
 type SessionStatus = "scheduled" | "completed" | "cancelled";
 
 interface Coach {
@@ -49,6 +52,12 @@ interface CoachSessionTime {
   coach_id: string;
   time_in: string | null;
   time_out: string | null;
+  time_in_distance_meters?: number | null;
+  time_in_location_flag?: string | null;
+  time_out_distance_meters?: number | null;
+  time_out_location_flag?: string | null;
+  location_review_status?: string | null;
+  location_review_note?: string | null;
   coaches: { name: string } | null;
 }
 
@@ -82,9 +91,12 @@ interface AttendanceRecord {
   marked_at: string | null;
   session_duration: number | null;
   package_cycle: number | null;
+  reason: string | null;
+  consumes_session: boolean;
   students: { 
     name: string;
     package_type: string | null;
+    packages: { is_duration_based: boolean } | null;
   };
 }
 
@@ -92,6 +104,7 @@ interface UpdateAttendanceVariables {
   recordId: string;
   status: AttendanceStatus;
   session_duration?: number;
+  reason?: string;
 }
 
 // Utility functions
@@ -156,7 +169,8 @@ export function AttendanceManager() {
   const [coachFilter, setCoachFilter] = useState<string>("All");
   const [sortOrder, setSortOrder] = useState<"Newest to Oldest" | "Oldest to Newest">("Newest to Oldest");
   const [showDurationDialog, setShowDurationDialog] = useState(false);
-  const [pendingAttendanceUpdate, setPendingAttendanceUpdate] = useState<{ recordId: string; status: AttendanceStatus } | null>(null);
+  const [pendingAttendanceUpdate, setPendingAttendanceUpdate] = useState<{ recordId: string; status: AttendanceStatus; reason?: string } | null>(null);
+  const [reasonPrompt, setReasonPrompt] = useState<{ recordId: string; status: "excused" | "late" } | null>(null);
   const [selectedDuration, setSelectedDuration] = useState<number>(0);
   const [showAttendanceModal, setShowAttendanceModal] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
@@ -211,7 +225,12 @@ export function AttendanceManager() {
           branches (name),
           session_coaches (id, coach_id, coaches (name)),
           session_participants (id, student_id, students (name)),
-          coach_session_times (id, session_id, coach_id, time_in, time_out, coaches (name))
+          coach_session_times (
+            id, session_id, coach_id, time_in, time_out,
+            time_in_distance_meters, time_in_location_flag, time_out_distance_meters, time_out_location_flag,
+            location_review_status, location_review_note,
+            coaches!coach_session_times_coach_id_fkey (name)
+          )
         `)
         .gte("date", format(pastDate, "yyyy-MM-dd"))
         .lte("date", format(futureDate, "yyyy-MM-dd"))
@@ -293,7 +312,9 @@ export function AttendanceManager() {
           marked_at,
           session_duration,
           package_cycle,
-          students (name, package_type)
+          reason,
+          consumes_session,
+          students (name, package_type, packages (is_duration_based))
         `)
         .eq("session_id", selectedSession)
         .order("created_at", { ascending: true });
@@ -310,20 +331,20 @@ export function AttendanceManager() {
   });
 
   const updateAttendance = useMutation<void, Error, UpdateAttendanceVariables>({
-    mutationFn: async ({ recordId, status, session_duration }) => {
+    mutationFn: async ({ recordId, status, session_duration, reason }) => {
       const updateData: any = { 
         status, 
-        marked_at: status !== "pending" ? new Date().toISOString() : null 
+        marked_at: status !== "pending" ? new Date().toISOString() : null,
+        reason: status === "excused" || status === "late" ? reason : null,
       };
       // Find record for student_id and existing cycle
       const targetRecord = attendanceRecords?.find((r) => r.id === recordId);
 
       // Check if this is a Personal Training package
-      const packageType = targetRecord?.students?.package_type?.toLowerCase() || '';
-      const isPersonalPackage = packageType.includes('personal');
+      const isPersonalPackage = isDurationBasedStudent(targetRecord?.students);
 
-      // Only set session_duration for Personal Training packages when marking as present
-      if (status === 'present') {
+      // Only set session_duration when the player attended (present or late)
+      if (status === 'present' || status === 'late') {
         if (isPersonalPackage) {
           // For Personal Training packages, require duration to be provided
         if (session_duration !== undefined && session_duration !== null && session_duration > 0) {
@@ -339,7 +360,10 @@ export function AttendanceManager() {
           updateData.session_duration = 1.0;
           console.log('Using default session_duration: 1.0 for non-personal package');
         }
+      }
 
+      // Absences can use a session too depending on the package rules, so any mark belongs to a cycle
+      if (status !== 'pending') {
         // Determine package_cycle if missing
         if (targetRecord?.package_cycle == null && targetRecord?.student_id) {
           const { count: historyCount } = await (supabase as any)
@@ -391,7 +415,7 @@ export function AttendanceManager() {
           { session_id: sessionId, coach_id: coachId, time_in: new Date().toISOString() },
           { onConflict: "session_id,coach_id" }
         )
-        .select("id, session_id, coach_id, time_in, time_out, coaches(name)")
+        .select("id, session_id, coach_id, time_in, time_out, coaches!coach_session_times_coach_id_fkey(name)")
         .single();
 
       if (error || !data) {
@@ -440,7 +464,7 @@ export function AttendanceManager() {
         .update({ time_out: new Date().toISOString(), updated_at: new Date().toISOString() })
         .eq("session_id", sessionId)
         .eq("coach_id", coachId)
-        .select("id, session_id, coach_id, time_in, time_out, coaches(name)")
+        .select("id, session_id, coach_id, time_in, time_out, coaches!coach_session_times_coach_id_fkey(name)")
         .single();
 
       if (error || !data) {
@@ -511,6 +535,32 @@ export function AttendanceManager() {
     },
   });
 
+  const reviewPunchLocationMutation = useMutation<
+    void,
+    Error,
+    { sessionTimeId: string; approved: boolean }
+  >({
+    mutationFn: async ({ sessionTimeId, approved }) => {
+      const { error } = await supabase.rpc("review_coach_punch_location", {
+        p_session_time_id: sessionTimeId,
+        p_approved: approved,
+      });
+
+      if (error) {
+        console.error("Review punch location error:", error);
+        throw error;
+      }
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["sessions"] });
+      toast.success(variables.approved ? "Punch approved" : "Punch rejected");
+    },
+    onError: (error) => {
+      console.error("Review punch location error:", error);
+      toast.error(`Failed to review punch: ${error.message}`);
+    },
+  });
+
   const markCoachAbsentMutation = useMutation<
     void,
     Error,
@@ -630,21 +680,35 @@ export function AttendanceManager() {
   const presentCount = filteredAttendanceRecords.filter((r) => r.status === "present").length;
   const absentCount = filteredAttendanceRecords.filter((r) => r.status === "absent").length;
   const pendingCount = filteredAttendanceRecords.filter((r) => r.status === "pending").length;
+  const excusedCount = filteredAttendanceRecords.filter((r) => r.status === "excused").length;
+  const lateCount = filteredAttendanceRecords.filter((r) => r.status === "late").length;
 
-  const handleAttendanceChange = (recordId: string, status: AttendanceStatus) => {
+  const handleAttendanceChange = (recordId: string, status: AttendanceStatus, reason?: string) => {
     const record = attendanceRecords?.find(r => r.id === recordId);
-    const packageType = record?.students?.package_type?.toLowerCase() || '';
-    const isPersonalPackage = packageType.includes('personal');
+    const isPersonalPackage = isDurationBasedStudent(record?.students);
+
+    // Excused and late need a reason before anything is saved
+    if ((status === 'excused' || status === 'late') && reason === undefined) {
+      setReasonPrompt({ recordId, status });
+      return;
+    }
     
-    // If marking as present and package is personal, show duration dialog
-    if (status === 'present' && isPersonalPackage) {
-      setPendingAttendanceUpdate({ recordId, status });
+    // If the player attended and package is personal, show duration dialog
+    if ((status === 'present' || status === 'late') && isPersonalPackage) {
+      setPendingAttendanceUpdate({ recordId, status, reason });
       setSelectedDuration(record?.session_duration || 0);
       setShowDurationDialog(true);
     } else {
-      // For non-personal packages or non-present status, update directly
+      // For non-personal packages or absences, update directly
       setUpdatingRecordId(recordId);
-      updateAttendance.mutate({ recordId, status });
+      updateAttendance.mutate({ recordId, status, reason });
+    }
+  };
+
+  const handleReasonConfirm = (reason: string) => {
+    if (reasonPrompt) {
+      handleAttendanceChange(reasonPrompt.recordId, reasonPrompt.status, reason);
+      setReasonPrompt(null);
     }
   };
 
@@ -660,7 +724,8 @@ export function AttendanceManager() {
       updateAttendance.mutate({ 
         recordId: pendingAttendanceUpdate.recordId, 
         status: pendingAttendanceUpdate.status,
-        session_duration: selectedDuration
+        session_duration: selectedDuration,
+        reason: pendingAttendanceUpdate.reason,
       });
       setShowDurationDialog(false);
       setPendingAttendanceUpdate(null);
@@ -696,6 +761,10 @@ export function AttendanceManager() {
         return <XCircle className="w-4 h-4 text-red-600" />;
       case "pending":
         return <Clock className="w-4 h-4 text-amber-600" />;
+      case "excused":
+        return <ShieldCheck className="w-4 h-4 text-blue-600" />;
+      case "late":
+        return <AlarmClock className="w-4 h-4 text-orange-600" />;
       default:
         return <Clock className="w-4 h-4 text-gray-400" />;
     }
@@ -709,6 +778,10 @@ export function AttendanceManager() {
         return "bg-red-50 text-red-700 border-red-200";
       case "pending":
         return "bg-gray-50 text-amber-700 border-amber-200";
+      case "excused":
+        return "bg-blue-50 text-blue-700 border-blue-200";
+      case "late":
+        return "bg-orange-50 text-orange-700 border-orange-200";
       default:
         return "bg-gray-50 text-gray-700 border-gray-200";
     }
@@ -940,7 +1013,8 @@ export function AttendanceManager() {
                           session.status || '',
                           session.session_coaches?.map(sc => sc.coaches?.name).filter(Boolean).join('; ') || '',
                           String(session.session_participants?.length || 0)
-                        ]
+                        ],
+                        'Attendance Sessions Report'
                       );
                       toast.success('Attendance sessions report exported to Excel successfully');
                     }}
@@ -1197,7 +1271,9 @@ export function AttendanceManager() {
                           </div>
                           <div className="flex flex-col space-y-1">
                             <span className="text-xs sm:text-sm text-gray-600">Time In: {formatDateTime(coachTime?.time_in)}</span>
+                            <PunchLocationBadge flag={coachTime?.time_in_location_flag} distance={coachTime?.time_in_distance_meters} reviewStatus={coachTime?.location_review_status} />
                             <span className="text-xs sm:text-sm text-gray-600">Time Out: {formatDateTime(coachTime?.time_out)}</span>
+                            <PunchLocationBadge flag={coachTime?.time_out_location_flag} distance={coachTime?.time_out_distance_meters} reviewStatus={coachTime?.location_review_status} />
                           </div>
                         </div>
                       );
@@ -1388,12 +1464,48 @@ export function AttendanceManager() {
                                   <div>
                                     <span className="text-xs sm:text-sm text-gray-600 block mb-1">Time In:</span>
                                     <span className="text-xs sm:text-sm font-medium">{formatDateTime(coachTime?.time_in) || "Not recorded"}</span>
+                                    <div className="mt-1">
+                                      <PunchLocationBadge flag={coachTime?.time_in_location_flag} distance={coachTime?.time_in_distance_meters} />
+                                    </div>
                                   </div>
                                   <div>
                                     <span className="text-xs sm:text-sm text-gray-600 block mb-1">Time Out:</span>
                                     <span className="text-xs sm:text-sm font-medium">{formatDateTime(coachTime?.time_out) || "Not recorded"}</span>
+                                    <div className="mt-1">
+                                      <PunchLocationBadge flag={coachTime?.time_out_location_flag} distance={coachTime?.time_out_distance_meters} />
+                                    </div>
                                   </div>
                                 </div>
+                                {coachTime?.location_review_status && (
+                                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-3 p-3 rounded-lg border border-orange-200 bg-orange-50">
+                                    <span className="text-xs sm:text-sm text-orange-800">
+                                      {coachTime.location_review_status === 'pending'
+                                        ? 'Punched away from the branch. Approve to count it for payroll.'
+                                        : `Location ${coachTime.location_review_status}${coachTime.location_review_note ? ` - ${coachTime.location_review_note}` : ''}`}
+                                    </span>
+                                    {coachTime.location_review_status === 'pending' && (
+                                      <div className="flex gap-2">
+                                        <Button
+                                          size="sm"
+                                          onClick={() => reviewPunchLocationMutation.mutate({ sessionTimeId: coachTime.id, approved: true })}
+                                          disabled={reviewPunchLocationMutation.isPending}
+                                          className="bg-green-600 text-white hover:bg-green-700 px-3 py-2 text-xs sm:text-sm"
+                                        >
+                                          Approve
+                                        </Button>
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          onClick={() => reviewPunchLocationMutation.mutate({ sessionTimeId: coachTime.id, approved: false })}
+                                          disabled={reviewPunchLocationMutation.isPending}
+                                          className="border-red-300 text-red-700 hover:bg-red-50 px-3 py-2 text-xs sm:text-sm"
+                                        >
+                                          Reject
+                                        </Button>
+                                      </div>
+                                    )}
+                                  </div>
+                                )}
                                 <div className="border-t pt-3">
                                   <Label className="text-xs sm:text-sm font-medium text-gray-700 mb-2 block">Edit Time</Label>
                                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
@@ -1472,6 +1584,14 @@ export function AttendanceManager() {
                         <Clock className="w-4 h-4 text-amber-600" />
                         <span className="text-xs sm:text-sm font-medium text-gray-700">Pending: {pendingCount}</span>
                       </div>
+                      <div className="flex items-center space-x-2">
+                        <AlarmClock className="w-4 h-4 text-orange-600" />
+                        <span className="text-xs sm:text-sm font-medium text-gray-700">Late: {lateCount}</span>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <ShieldCheck className="w-4 h-4 text-blue-600" />
+                        <span className="text-xs sm:text-sm font-medium text-gray-700">Excused: {excusedCount}</span>
+                      </div>
                     </div>
                     <div className="border-2 rounded-lg p-3 sm:p-4 max-h-64 sm:max-h-80 overflow-y-auto bg-white shadow-sm" style={{ borderColor: "#242833" }}>
                       {attendanceLoading ? (
@@ -1487,7 +1607,7 @@ export function AttendanceManager() {
                           <div className="flex justify-end mb-2">
                             <Button
                               onClick={() => {
-                                const headers = ['Student Name', 'Package Type', 'Status', 'Session Duration', 'Marked At'];
+                                const headers = ['Student Name', 'Package Type', 'Status', 'Reason', 'Session Duration', 'Marked At'];
                                 exportToCSV(
                                   filteredAttendanceRecords,
                                   'attendance_records_report',
@@ -1496,9 +1616,11 @@ export function AttendanceManager() {
                                     record.students?.name || '',
                                     record.students?.package_type || '',
                                     record.status || '',
+                                    record.reason || '',
                                     record.session_duration ? String(record.session_duration) : '',
                                     record.marked_at ? format(parseISO(record.marked_at), 'yyyy-MM-dd HH:mm') : ''
-                                  ]
+                                  ],
+                                  'Attendance Records Report'
                                 );
                                 toast.success('Attendance records report exported to Excel successfully');
                               }}
@@ -1518,6 +1640,11 @@ export function AttendanceManager() {
                                   <div>
                                     <span className="text-sm sm:text-base font-semibold text-gray-800 block">{record.students.name}</span>
                                     <span className="text-xs text-gray-500">{record.students.package_type || 'No package'}</span>
+                                    {record.reason && (record.status === 'excused' || record.status === 'late') && (
+                                      <span className="text-xs text-gray-500 block">
+                                        Reason: {record.reason}{record.consumes_session ? '' : ' • no session used'}
+                                      </span>
+                                    )}
                                   </div>
                                 </div>
                                 <Badge className={`font-medium ${getAttendanceBadgeColor(record.status)} text-xs hidden sm:flex`}>
@@ -1560,6 +1687,40 @@ export function AttendanceManager() {
                                   )}
                                   Absent
                                 </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleAttendanceChange(record.id, 'late')}
+                                  disabled={updatingRecordId === record.id}
+                                  className={`flex-1 sm:flex-none h-9 sm:h-10 px-3 sm:px-4 text-xs sm:text-sm font-medium rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    record.status === 'late'
+                                      ? 'bg-orange-500 text-white shadow-md ring-2 ring-orange-300'
+                                      : 'bg-orange-50 text-orange-700 hover:bg-orange-100 border border-orange-200'
+                                  }`}
+                                >
+                                  {updatingRecordId === record.id ? (
+                                    <div className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                                  ) : (
+                                    <AlarmClock className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5" />
+                                  )}
+                                  Late
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleAttendanceChange(record.id, 'excused')}
+                                  disabled={updatingRecordId === record.id}
+                                  className={`flex-1 sm:flex-none h-9 sm:h-10 px-3 sm:px-4 text-xs sm:text-sm font-medium rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    record.status === 'excused'
+                                      ? 'bg-blue-600 text-white shadow-md ring-2 ring-blue-300'
+                                      : 'bg-blue-50 text-blue-700 hover:bg-blue-100 border border-blue-200'
+                                  }`}
+                                >
+                                  {updatingRecordId === record.id ? (
+                                    <div className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                                  ) : (
+                                    <ShieldCheck className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5" />
+                                  )}
+                                  Excused
+                                </Button>
                                 <Button
                                   size="sm"
                                   onClick={() => handleAttendanceChange(record.id, 'pending')}
@@ -1621,6 +1782,14 @@ export function AttendanceManager() {
           </DialogContent>
         </Dialog>
 
+        <AttendanceReasonDialog
+          status={reasonPrompt?.status ?? null}
+          studentName={attendanceRecords?.find((r) => r.id === reasonPrompt?.recordId)?.students.name}
+          initialReason={attendanceRecords?.find((r) => r.id === reasonPrompt?.recordId)?.reason}
+          onCancel={() => setReasonPrompt(null)}
+          onConfirm={handleReasonConfirm}
+        />
+
         <Dialog open={showDurationDialog} onOpenChange={setShowDurationDialog}>
           <DialogContent className="w-[90vw] max-w-[90vw] sm:max-w-sm md:max-w-md border-0 shadow-2xl p-0 max-h-[85vh] sm:max-h-[90vh] flex flex-col rounded-xl sm:rounded-2xl overflow-hidden" style={{ backgroundColor: '#f8f9fa' }}>
             <DialogHeader className="px-3 sm:px-4 md:px-6 py-3 sm:py-4 md:py-5 flex-shrink-0" style={{ background: '#242833' }}>
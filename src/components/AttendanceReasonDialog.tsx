@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { AlarmClock, ShieldCheck } from "lucide-react";
+
+interface AttendanceReasonDialogProps {
+  status: "excused" | "late" | null;
+  studentName?: string;
+  initialReason?: string | null;
+  onCancel: () => void;
+  onConfirm: (reason: string) => void;
+}
+
+/**
+ * Asks for the reason a player was excused or late, both statuses require one
+ */
+export function AttendanceReasonDialog({ status, studentName, initialReason, onCancel, onConfirm }: AttendanceReasonDialogProps) {
+  const [reason, setReason] = useState("");
+
+  useEffect(() => {
+    if (status) setReason(initialReason || "");
+  }, [status, initialReason]);
+
+  const Icon = status === "late" ? AlarmClock : ShieldCheck;
+  const title = status === "late" ? "Mark as Late" : "Mark as Excused";
+
+  return (
+    <Dialog open={!!status} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="w-[90vw] max-w-[90vw] sm:max-w-sm md:max-w-md border-0 shadow-2xl p-0 max-h-[85vh] sm:max-h-[90vh] flex flex-col rounded-xl sm:rounded-2xl overflow-hidden" style={{ backgroundColor: '#f8f9fa' }}>
+        <DialogHeader className="px-3 sm:px-4 md:px-6 py-3 sm:py-4 md:py-5 flex-shrink-0" style={{ background: '#242833' }}>
+          <DialogTitle className="text-sm sm:text-base md:text-lg font-bold text-white flex items-center gap-2 sm:gap-3">
+            <div className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10 rounded-lg sm:rounded-xl flex items-center justify-center flex-shrink-0" style={{ backgroundColor: 'rgba(121, 229, 143, 0.2)' }}>
+              <Icon className="w-3.5 h-3.5 sm:w-4 sm:h-4 md:w-5 md:h-5" style={{ color: '#79e58f' }} />
+            </div>
+            <span className="truncate">{title}</span>
+          </DialogTitle>
+          <DialogDescription className="text-gray-300 text-[10px] sm:text-xs md:text-sm mt-1 ml-9 sm:ml-11 md:ml-13">
+            {studentName ? `Why is ${studentName} ${status}?` : `Enter why the player is ${status}.`} Whether this uses a session depends on the player's package.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="p-3 sm:p-4 md:p-6 overflow-y-auto flex-1 custom-scrollbar">
+          <div className="flex flex-col space-y-2">
+            <Label htmlFor="attendance-reason" className="text-gray-700 font-medium text-xs sm:text-sm">
+              Reason
+            </Label>
+            <Textarea
+              id="attendance-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={status === "late" ? "e.g. Traffic, came from school" : "e.g. Sick, family emergency"}
+              className="border-2 border-gray-200 rounded-lg focus:border-accent focus:ring-accent/20 w-full text-xs sm:text-sm"
+              style={{ borderColor: '#79e58f' }}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end space-x-3 pt-4 flex-wrap gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 transition-all duration-300 w-full sm:w-auto min-w-fit text-xs sm:text-sm"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={() => onConfirm(reason.trim())}
+              disabled={!reason.trim()}
+              className="bg-green-600 hover:bg-green-700 text-white transition-all duration-300 w-full sm:w-auto min-w-fit text-xs sm:text-sm disabled:bg-gray-300 disabled:cursor-not-allowed"
+            >
+              Confirm
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
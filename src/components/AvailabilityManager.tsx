@@ -0,0 +1,588 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarClock, CalendarOff, Check, Clock, Plus, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Constants, type Database } from "@/integrations/supabase/types";
+import { useAuth } from "@/context/AuthContext";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+
+type DayOfWeek = Database['public']['Enums']['day_of_week'];
+
+type AvailabilityRow = {
+  id: string;
+  coach_id: string;
+  day_of_week: DayOfWeek;
+  start_time: string;
+  end_time: string;
+};
+
+type DayWindow = {
+  enabled: boolean;
+  start_time: string;
+  end_time: string;
+};
+
+type TimeOff = {
+  id: string;
+  coach_id: string;
+  start_date: string;
+  end_date: string;
+  reason: string | null;
+  status: string;
+  review_note: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+  coaches: { name: string } | null;
+};
+
+const DEFAULT_WINDOW: DayWindow = { enabled: false, start_time: "08:00", end_time: "20:00" };
+
+const statusBadgeClass: Record<string, string> = {
+  pending: "bg-amber-100 text-amber-800 hover:bg-amber-100",
+  approved: "bg-green-100 text-green-700 hover:bg-green-100",
+  rejected: "bg-red-100 text-red-700 hover:bg-red-100",
+};
+
+const formatTime12Hour = (timeString: string) => {
+  const [hours, minutes] = timeString.split(":").map(Number);
+  const period = hours >= 12 ? "PM" : "AM";
+  const displayHours = hours % 12 || 12;
+  return `${displayHours}:${minutes.toString().padStart(2, "0")} ${period}`;
+};
+
+const formatDateRange = (startDate: string, endDate: string) =>
+  startDate === endDate
+    ? format(parseISO(startDate), "MMM dd, yyyy")
+    : `${format(parseISO(startDate), "MMM dd")} - ${format(parseISO(endDate), "MMM dd, yyyy")}`;
+
+const toWeek = (rows: AvailabilityRow[]) =>
+  Object.fromEntries(
+    Constants.public.Enums.day_of_week.map((day) => {
+      const row = rows.find((r) => r.day_of_week === day);
+      return [day, row
+        ? { enabled: true, start_time: row.start_time.slice(0, 5), end_time: row.end_time.slice(0, 5) }
+        : DEFAULT_WINDOW];
+    })
+  ) as Record<DayOfWeek, DayWindow>;
+
+export function AvailabilityManager() {
+  const { role, user } = useAuth();
+  const isAdmin = role === 'admin';
+  const queryClient = useQueryClient();
+  const [selectedCoachId, setSelectedCoachId] = useState<string>("");
+  const [week, setWeek] = useState<Record<DayOfWeek, DayWindow>>(toWeek([]));
+  const [timeOffForm, setTimeOffForm] = useState({ start_date: "", end_date: "", reason: "" });
+  const [timeOffFilter, setTimeOffFilter] = useState<"pending" | "all">("pending");
+
+  const { data: myCoachId } = useQuery({
+    queryKey: ["coach-id", user?.id],
+    queryFn: async () => {
+      if (!user?.id) return null;
+      const { data, error } = await supabase
+        .from("coaches")
+        .select("id")
+        .eq("auth_id", user.id)
+        .single();
+      if (error) throw error;
+      return data?.id ?? null;
+    },
+    enabled: !!user?.id,
+  });
+
+  const { data: coaches } = useQuery({
+    queryKey: ["coaches-select"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("coaches")
+        .select("id, name")
+        .order("name");
+      if (error) throw error;
+      return data as { id: string; name: string }[];
+    },
+    enabled: isAdmin,
+  });
+
+  // Coaches edit their own week, admins pick whose week to edit
+  const editingCoachId = isAdmin ? selectedCoachId : myCoachId;
+
+  const { data: availability } = useQuery({
+    queryKey: ["coach-availability"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("coach_availability")
+        .select("id, coach_id, day_of_week, start_time, end_time");
+      if (error) throw error;
+      return data as AvailabilityRow[];
+    },
+  });
+
+  useEffect(() => {
+    if (!editingCoachId || !availability) return;
+    setWeek(toWeek(availability.filter((row) => row.coach_id === editingCoachId)));
+  }, [editingCoachId, availability]);
+
+  const { data: timeOff, isLoading: timeOffLoading } = useQuery({
+    queryKey: ["coach-time-off", isAdmin ? "all" : myCoachId, timeOffFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("coach_time_off")
+        .select("id, coach_id, start_date, end_date, reason, status, review_note, reviewed_at, created_at, coaches!coach_time_off_coach_id_fkey (name)")
+        .order("start_date", { ascending: false });
+      if (!isAdmin) {
+        query = query.eq("coach_id", myCoachId!);
+      } else if (timeOffFilter === "pending") {
+        query = query.eq("status", "pending");
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as TimeOff[];
+    },
+    enabled: isAdmin || !!myCoachId,
+  });
+
+  // Sessions already booked inside pending time off, so admins see what approving would clash with
+  const pendingTimeOff = (timeOff || []).filter((entry) => entry.status === "pending");
+  const { data: clashingSessions } = useQuery({
+    queryKey: ["time-off-clashes", pendingTimeOff.map((entry) => entry.id).join(",")],
+    queryFn: async () => {
+      const from = pendingTimeOff.reduce((min, entry) => (entry.start_date < min ? entry.start_date : min), pendingTimeOff[0].start_date);
+      const to = pendingTimeOff.reduce((max, entry) => (entry.end_date > max ? entry.end_date : max), pendingTimeOff[0].end_date);
+      const { data, error } = await supabase
+        .from("session_coaches")
+        .select("coach_id, training_sessions!inner (date, status)")
+        .in("coach_id", [...new Set(pendingTimeOff.map((entry) => entry.coach_id))])
+        .gte("training_sessions.date", from)
+        .lte("training_sessions.date", to)
+        .neq("training_sessions.status", "cancelled");
+      if (error) throw error;
+      return data as { coach_id: string; training_sessions: { date: string; status: string } }[];
+    },
+    enabled: isAdmin && pendingTimeOff.length > 0,
+  });
+
+  const countClashes = (entry: TimeOff) =>
+    (clashingSessions || []).filter((row) =>
+      row.coach_id === entry.coach_id &&
+      row.training_sessions.date >= entry.start_date &&
+      row.training_sessions.date <= entry.end_date
+    ).length;
+
+  const saveAvailabilityMutation = useMutation({
+    mutationFn: async ({ coachId, days }: { coachId: string; days: Record<DayOfWeek, DayWindow> }) => {
+      const enabledDays = Constants.public.Enums.day_of_week.filter((day) => days[day].enabled);
+      const invalidDay = enabledDays.find((day) => days[day].end_time <= days[day].start_time);
+      if (invalidDay) {
+        throw new Error(`End time must be after start time on ${invalidDay}`);
+      }
+
+      const disabledDays = Constants.public.Enums.day_of_week.filter((day) => !days[day].enabled);
+      if (disabledDays.length > 0) {
+        const { error } = await supabase
+          .from("coach_availability")
+          .delete()
+          .eq("coach_id", coachId)
+          .in("day_of_week", disabledDays);
+        if (error) {
+          console.error('Clear availability error:', error);
+          throw error;
+        }
+      }
+
+      if (enabledDays.length > 0) {
+        const { error } = await supabase
+          .from("coach_availability")
+          .upsert(
+            enabledDays.map((day) => ({
+              coach_id: coachId,
+              day_of_week: day,
+              start_time: days[day].start_time,
+              end_time: days[day].end_time,
+            })),
+            { onConflict: "coach_id,day_of_week" }
+          );
+        if (error) {
+          console.error('Save availability error:', error);
+          throw error;
+        }
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["coach-availability"] });
+      toast.success("Availability saved");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save availability: ' + error.message);
+    },
+  });
+
+  const requestTimeOffMutation = useMutation({
+    mutationFn: async (form: typeof timeOffForm) => {
+      if (!myCoachId) throw new Error("Coach profile not found");
+      if (form.end_date < form.start_date) throw new Error("End date must be on or after the start date");
+      const { error } = await supabase
+        .from("coach_time_off")
+        .insert({
+          coach_id: myCoachId,
+          start_date: form.start_date,
+          end_date: form.end_date,
+          reason: form.reason.trim() || null,
+        });
+      if (error) {
+        console.error('Request time off error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["coach-time-off"] });
+      setTimeOffForm({ start_date: "", end_date: "", reason: "" });
+      toast.success("Time off requested, an admin will review it");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to request time off: ' + error.message);
+    },
+  });
+
+  const withdrawTimeOffMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("coach_time_off")
+        .delete()
+        .eq("id", id);
+      if (error) {
+        console.error('Withdraw time off error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["coach-time-off"] });
+      toast.success("Time off request withdrawn");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to withdraw time off: ' + error.message);
+    },
+  });
+
+  const reviewTimeOffMutation = useMutation({
+    mutationFn: async ({ id, approved }: { id: string; approved: boolean }) => {
+      const { error } = await supabase.rpc("review_coach_time_off", {
+        p_time_off_id: id,
+        p_approved: approved,
+      });
+      if (error) {
+        console.error('Review time off error:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { approved }) => {
+      queryClient.invalidateQueries({ queryKey: ["coach-time-off"] });
+      toast.success(approved ? "Time off approved" : "Time off rejected");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to review time off: ' + error.message);
+    },
+  });
+
+  const updateDay = (day: DayOfWeek, changes: Partial<DayWindow>) =>
+    setWeek((prev) => ({ ...prev, [day]: { ...prev[day], ...changes } }));
+
+  const hasAnyDay = Constants.public.Enums.day_of_week.some((day) => week[day].enabled);
+
+  return (
+    <div className="min-h-screen bg-background pt-4 p-2 sm:p-3 md:p-6 pb-24 md:pb-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="mb-6">
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#242833] mb-2 tracking-tight">Availability</h1>
+          <p className="text-xs sm:text-sm md:text-base text-gray-700">
+            {isAdmin
+              ? "Coach weekly availability and time off requests. Sessions can't be booked outside either."
+              : "Set when you can coach each week and request time off"}
+          </p>
+        </div>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+              <div>
+                <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                  <CalendarClock className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                  Weekly Availability
+                </CardTitle>
+                <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                  Coaches without any days set can be scheduled at any time
+                </CardDescription>
+              </div>
+              {isAdmin && (
+                <Select value={selectedCoachId} onValueChange={setSelectedCoachId}>
+                  <SelectTrigger className="w-full lg:w-64 border-2 border-[#79e58f] bg-white text-xs sm:text-sm">
+                    <SelectValue placeholder="Select a coach" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {coaches?.map((coach) => (
+                      <SelectItem key={coach.id} value={coach.id} className="text-xs sm:text-sm">{coach.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="p-3 sm:p-4 md:p-6">
+            {!editingCoachId ? (
+              <p className="text-xs sm:text-sm text-gray-600 text-center py-6">
+                {isAdmin ? "Select a coach to view or edit their weekly availability." : "Loading your availability..."}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {Constants.public.Enums.day_of_week.map((day) => (
+                  <div key={day} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4 border-b border-gray-100 pb-3">
+                    <div className="flex items-center gap-2 sm:w-40">
+                      <input
+                        type="checkbox"
+                        id={`day-${day}`}
+                        checked={week[day].enabled}
+                        onChange={(e) => updateDay(day, { enabled: e.target.checked })}
+                        className="w-4 h-4 rounded border-2 flex-shrink-0"
+                        style={{ borderColor: '#79e58f', accentColor: '#79e58f' }}
+                      />
+                      <Label htmlFor={`day-${day}`} className="capitalize text-xs sm:text-sm font-medium cursor-pointer">{day}</Label>
+                    </div>
+                    {week[day].enabled ? (
+                      <div className="flex items-center gap-2">
+                        <Input
+                          type="time"
+                          value={week[day].start_time}
+                          onChange={(e) => updateDay(day, { start_time: e.target.value })}
+                          className="w-32 text-xs sm:text-sm"
+                        />
+                        <span className="text-xs text-gray-500">to</span>
+                        <Input
+                          type="time"
+                          value={week[day].end_time}
+                          onChange={(e) => updateDay(day, { end_time: e.target.value })}
+                          className="w-32 text-xs sm:text-sm"
+                        />
+                      </div>
+                    ) : (
+                      <span className="text-xs sm:text-sm text-gray-500">{hasAnyDay ? "Not available" : "Any time"}</span>
+                    )}
+                  </div>
+                ))}
+                <div className="flex justify-end pt-2">
+                  <Button
+                    onClick={() => saveAvailabilityMutation.mutate({ coachId: editingCoachId, days: week })}
+                    disabled={saveAvailabilityMutation.isPending}
+                    className="bg-accent hover:bg-accent/90 text-white text-xs sm:text-sm"
+                    style={{ backgroundColor: '#79e58f' }}
+                  >
+                    {saveAvailabilityMutation.isPending ? "Saving..." : "Save Availability"}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {isAdmin && (
+          <Card className="border-2 border-[#242833] bg-white shadow-xl">
+            <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+              <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                <Clock className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                All Coaches
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-0 overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs sm:text-sm">Coach</TableHead>
+                    {Constants.public.Enums.day_of_week.map((day) => (
+                      <TableHead key={day} className="text-xs sm:text-sm capitalize">{day.slice(0, 3)}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {coaches?.map((coach) => {
+                    const rows = (availability || []).filter((row) => row.coach_id === coach.id);
+                    return (
+                      <TableRow key={coach.id} className="cursor-pointer" onClick={() => setSelectedCoachId(coach.id)}>
+                        <TableCell className="text-xs sm:text-sm font-medium whitespace-nowrap">{coach.name}</TableCell>
+                        {rows.length === 0 ? (
+                          <TableCell colSpan={7} className="text-xs text-gray-500">Any time</TableCell>
+                        ) : (
+                          Constants.public.Enums.day_of_week.map((day) => {
+                            const row = rows.find((r) => r.day_of_week === day);
+                            return (
+                              <TableCell key={day} className="text-xs whitespace-nowrap">
+                                {row ? `${formatTime12Hour(row.start_time)} - ${formatTime12Hour(row.end_time)}` : <span className="text-gray-400">—</span>}
+                              </TableCell>
+                            );
+                          })
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+              <div>
+                <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                  <CalendarOff className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                  Time Off
+                </CardTitle>
+                <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                  {isAdmin ? "Approved time off blocks the coach from being scheduled" : "Requests need an admin's approval"}
+                </CardDescription>
+              </div>
+              {isAdmin && (
+                <Select value={timeOffFilter} onValueChange={(value: "pending" | "all") => setTimeOffFilter(value)}>
+                  <SelectTrigger className="w-full lg:w-48 border-2 border-[#79e58f] bg-white text-xs sm:text-sm">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pending" className="text-xs sm:text-sm">Pending review</SelectItem>
+                    <SelectItem value="all" className="text-xs sm:text-sm">All requests</SelectItem>
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="p-3 sm:p-4 md:p-6 space-y-4">
+            {!isAdmin && (
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  requestTimeOffMutation.mutate(timeOffForm);
+                }}
+                className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-[1fr_1fr_2fr_auto] gap-3 items-end border-b border-gray-100 pb-4"
+              >
+                <div className="space-y-1">
+                  <Label htmlFor="time-off-start" className="text-xs sm:text-sm">From</Label>
+                  <Input
+                    id="time-off-start"
+                    type="date"
+                    value={timeOffForm.start_date}
+                    onChange={(e) => setTimeOffForm((prev) => ({ ...prev, start_date: e.target.value, end_date: prev.end_date || e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="time-off-end" className="text-xs sm:text-sm">To</Label>
+                  <Input
+                    id="time-off-end"
+                    type="date"
+                    value={timeOffForm.end_date}
+                    min={timeOffForm.start_date || undefined}
+                    onChange={(e) => setTimeOffForm((prev) => ({ ...prev, end_date: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="time-off-reason" className="text-xs sm:text-sm">Reason</Label>
+                  <Textarea
+                    id="time-off-reason"
+                    value={timeOffForm.reason}
+                    onChange={(e) => setTimeOffForm((prev) => ({ ...prev, reason: e.target.value }))}
+                    placeholder="Optional"
+                    className="min-h-[40px] h-10 text-sm"
+                  />
+                </div>
+                <Button
+                  type="submit"
+                  disabled={requestTimeOffMutation.isPending}
+                  className="bg-accent hover:bg-accent/90 text-white text-xs sm:text-sm"
+                  style={{ backgroundColor: '#79e58f' }}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Request
+                </Button>
+              </form>
+            )}
+
+            {timeOffLoading ? (
+              <p className="text-xs sm:text-sm text-gray-600 text-center py-6">Loading time off...</p>
+            ) : !timeOff || timeOff.length === 0 ? (
+              <p className="text-xs sm:text-sm text-gray-600 text-center py-6">
+                {isAdmin && timeOffFilter === "pending" ? "No time off waiting for review." : "No time off requests yet."}
+              </p>
+            ) : (
+              <div className="space-y-3">
+                {timeOff.map((entry) => {
+                  const clashes = isAdmin && entry.status === "pending" ? countClashes(entry) : 0;
+                  return (
+                    <div key={entry.id} className="border border-gray-200 rounded-lg p-3 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                      <div className="space-y-1 min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          {isAdmin && <span className="font-semibold text-sm text-black">{entry.coaches?.name || "Unknown"}</span>}
+                          <span className="text-sm text-gray-800">{formatDateRange(entry.start_date, entry.end_date)}</span>
+                          <Badge className={`capitalize border-0 ${statusBadgeClass[entry.status] || ""}`}>{entry.status}</Badge>
+                        </div>
+                        {entry.reason && <p className="text-xs text-gray-600">{entry.reason}</p>}
+                        {entry.review_note && <p className="text-xs text-gray-500">Admin note: {entry.review_note}</p>}
+                        {clashes > 0 && (
+                          <p className="text-xs text-orange-700">
+                            Already assigned to {clashes} session{clashes !== 1 ? "s" : ""} in this period. Reassign them after approving.
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex gap-2 flex-shrink-0">
+                        {isAdmin && entry.status === "pending" && (
+                          <>
+                            <Button
+                              size="sm"
+                              onClick={() => reviewTimeOffMutation.mutate({ id: entry.id, approved: true })}
+                              disabled={reviewTimeOffMutation.isPending}
+                              className="bg-green-600 hover:bg-green-700 text-white text-xs"
+                            >
+                              <Check className="w-3 h-3 mr-1" />
+                              Approve
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => reviewTimeOffMutation.mutate({ id: entry.id, approved: false })}
+                              disabled={reviewTimeOffMutation.isPending}
+                              className="border-red-300 text-red-600 hover:bg-red-50 text-xs"
+                            >
+                              <X className="w-3 h-3 mr-1" />
+                              Reject
+                            </Button>
+                          </>
+                        )}
+                        {!isAdmin && entry.status === "pending" && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => withdrawTimeOffMutation.mutate(entry.id)}
+                            disabled={withdrawTimeOffMutation.isPending}
+                            className="text-xs"
+                          >
+                            <Trash2 className="w-3 h-3 mr-1" />
+                            Withdraw
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, CheckCircle, Download, RefreshCw, Scale } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { exportToCSV } from "@/utils/exportUtils";
+import { toast } from "sonner";
+
+type BalanceDiscrepancy = Tables<'student_balance_discrepancies'>;
+
+export function BalanceReconciliationReport() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+
+  const { data: discrepancies, isLoading, refetch, isFetching } = useQuery({
+    queryKey: ["student-balance-discrepancies"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("student_balance_discrepancies")
+        .select("*")
+        .order("student_name", { ascending: true })
+        .order("package_cycle", { ascending: false });
+      if (error) throw error;
+      return data as BalanceDiscrepancy[];
+    },
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("sync_student_balances");
+      if (error) {
+        console.error('Sync balances error:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["student-balance-discrepancies"] });
+      queryClient.invalidateQueries({ queryKey: ["student-balance-ledger"] });
+      queryClient.invalidateQueries({ queryKey: ["students"] });
+      toast.success(`Updated stored balances of ${count} player${count === 1 ? '' : 's'}`);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to reconcile balances: ' + error.message);
+    },
+  });
+
+  const handleExport = () => {
+    if (!discrepancies) return;
+    const headers = ['Player', 'Package', 'Cycle', 'Stored Balance', 'Ledger Balance', 'Difference'];
+    exportToCSV(
+      discrepancies,
+      'balance_reconciliation',
+      headers,
+      (row) => [
+        row.student_name || '',
+        row.package_type || '',
+        `${row.package_cycle ?? ''}${row.is_current ? ' (current)' : ''}`,
+        `₱${Number(row.stored_remaining_balance || 0).toFixed(2)}`,
+        `₱${Number(row.ledger_remaining_balance || 0).toFixed(2)}`,
+        `₱${Number(row.difference || 0).toFixed(2)}`,
+      ],
+      'Balance Reconciliation Report'
+    );
+    toast.success('Reconciliation report exported to Excel successfully');
+  };
+
+  return (
+    <div className="min-h-screen bg-background pt-4 p-2 sm:p-3 md:p-6 pb-24 md:pb-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="mb-6">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/dashboard/students")}
+            className="mb-4 border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs sm:text-sm"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Players
+          </Button>
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#242833] mb-2 tracking-tight">Balance Reconciliation</h1>
+          <p className="text-xs sm:text-sm md:text-base text-gray-700">
+            Players whose stored remaining balance disagrees with their payments and charges
+          </p>
+        </div>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+              <div>
+                <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                  <Scale className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                  Discrepancies
+                </CardTitle>
+                <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                  Ledger balance = training fee - downpayment - balance payments + unpaid charges
+                </CardDescription>
+              </div>
+              <div className="flex flex-row flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => refetch()}
+                  disabled={isFetching}
+                  className="border-2 border-[#79e58f] bg-transparent text-white hover:bg-white/10 hover:text-white min-w-fit text-xs sm:text-sm"
+                >
+                  <RefreshCw className={`w-4 h-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+                {discrepancies && discrepancies.length > 0 && (
+                  <>
+                    <Button
+                      onClick={handleExport}
+                      className="bg-green-600 hover:bg-green-700 text-white text-xs sm:text-sm"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Export Excel
+                    </Button>
+                    <Button
+                      onClick={() => syncMutation.mutate()}
+                      disabled={syncMutation.isPending}
+                      className="bg-accent text-white hover:bg-accent/90 min-w-fit text-xs sm:text-sm"
+                      style={{ backgroundColor: '#79e58f' }}
+                    >
+                      {syncMutation.isPending ? "Fixing..." : "Fix All"}
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {isLoading ? (
+              <div className="text-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent mx-auto mb-4" style={{ borderColor: '#79e58f' }}></div>
+                <p className="text-gray-600 text-xs sm:text-sm">Comparing balances...</p>
+              </div>
+            ) : discrepancies && discrepancies.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow className="bg-accent/5 border-b border-accent/10">
+                      <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4">Player</TableHead>
+                      <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4">Package</TableHead>
+                      <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Stored</TableHead>
+                      <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Ledger</TableHead>
+                      <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Difference</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {discrepancies.map((row, index) => (
+                      <TableRow
+                        key={`${row.student_id}-${row.package_history_id ?? 'current'}`}
+                        onClick={() => navigate(`/dashboard/students/${row.student_id}/payments`)}
+                        className={`cursor-pointer hover:bg-accent/5 transition-colors border-b border-muted/20 ${index % 2 === 0 ? 'bg-background' : 'bg-muted/10'}`}
+                      >
+                        <TableCell className="py-2 sm:py-4 px-2 sm:px-4 font-semibold text-foreground text-xs sm:text-sm">
+                          {row.student_name}
+                        </TableCell>
+                        <TableCell className="px-2 sm:px-4 text-muted-foreground text-xs sm:text-sm">
+                          {row.package_type || 'Package'} {row.package_cycle}
+                          {row.is_current && (
+                            <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold bg-green-100 text-green-700">Current</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right">
+                          ₱{Number(row.stored_remaining_balance || 0).toFixed(2)}
+                        </TableCell>
+                        <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right font-semibold">
+                          ₱{Number(row.ledger_remaining_balance || 0).toFixed(2)}
+                        </TableCell>
+                        <TableCell className={`px-2 sm:px-4 text-xs sm:text-sm text-right font-semibold ${(row.difference || 0) > 0 ? 'text-red-600' : 'text-amber-600'}`}>
+                          {(row.difference || 0) > 0 ? '+' : ''}₱{Number(row.difference || 0).toFixed(2)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <CheckCircle className="w-12 h-12 text-green-600 mx-auto mb-4" />
+                <h3 className="text-base sm:text-lg font-bold text-black mb-2">All balances match</h3>
+                <p className="text-xs sm:text-sm text-gray-600">Every stored remaining balance agrees with the ledger.</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
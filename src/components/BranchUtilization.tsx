@@ -0,0 +1,343 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Download, FileSpreadsheet, Filter, Grid3x3 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format, parseISO, subWeeks } from "date-fns";
+import { exportRowsToCSV, exportUtilizationToExcel } from "@/utils/exportUtils";
+import {
+  buildBranchHeatmap,
+  countWeeks,
+  findDoubleBookings,
+  formatHour,
+  minutesToTime,
+  timeToMinutes,
+  WEEKDAYS,
+  type BranchHeatmap,
+  type HeatmapCell,
+  type UtilizationSession,
+} from "@/utils/utilization";
+
+type Metric = "sessions" | "headcount";
+
+const sessionTimes = (session: UtilizationSession) =>
+  `${minutesToTime(timeToMinutes(session.start_time))} - ${minutesToTime(timeToMinutes(session.end_time))}`;
+
+const cellValue = (cell: HeatmapCell, metric: Metric) => (metric === "sessions" ? cell.sessions : cell.headcount);
+
+const cellIntensity = (cell: HeatmapCell, metric: Metric, heatmap: BranchHeatmap) => {
+  const max = metric === "sessions" ? heatmap.maxSessions : heatmap.maxHeadcount;
+  return max > 0 ? cellValue(cell, metric) / max : 0;
+};
+
+/**
+ * Weekday by hour heatmap of sessions and players per branch, with double-booked court time
+ * highlighted, to see which slots have room before adding new batches
+ */
+export function BranchUtilization() {
+  const [fromDate, setFromDate] = useState(format(subWeeks(new Date(), 8), "yyyy-MM-dd"));
+  const [toDate, setToDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [branchFilter, setBranchFilter] = useState("all");
+  const [metric, setMetric] = useState<Metric>("headcount");
+
+  const validRange = !!fromDate && !!toDate && fromDate <= toDate;
+
+  const { data: branches } = useQuery({
+    queryKey: ["branches-select"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("branches").select("id, name").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: sessions, isLoading } = useQuery({
+    queryKey: ["utilization-sessions", fromDate, toDate, branchFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("training_sessions")
+        .select("id, date, start_time, end_time, branch_id, max_participants, session_participants (count)")
+        .neq("status", "cancelled")
+        .gte("date", fromDate)
+        .lte("date", toDate)
+        .order("date");
+      if (branchFilter !== "all") {
+        query = query.eq("branch_id", branchFilter);
+      }
+      const { data, error } = await query;
+      if (error) {
+        console.error("Error fetching utilization:", error);
+        throw error;
+      }
+      return (data || []) as UtilizationSession[];
+    },
+    enabled: validRange,
+  });
+
+  const branchNames = useMemo(() => new Map((branches || []).map((branch) => [branch.id, branch.name])), [branches]);
+  const doubleBookings = useMemo(() => findDoubleBookings(sessions || []), [sessions]);
+  const heatmaps = useMemo(() => {
+    const branchIds = Array.from(new Set((sessions || []).map((session) => session.branch_id)));
+    return branchIds
+      .map((branchId) => buildBranchHeatmap(branchId, sessions || [], doubleBookings))
+      .sort((a, b) => (branchNames.get(a.branchId) || "").localeCompare(branchNames.get(b.branchId) || ""));
+  }, [sessions, doubleBookings, branchNames]);
+
+  const weeks = validRange ? countWeeks(fromDate, toDate) : 1;
+  const periodLabel = validRange
+    ? `${format(parseISO(fromDate), "MMM dd, yyyy")} to ${format(parseISO(toDate), "MMM dd, yyyy")}`
+    : "";
+
+  const conflictHeaders = ["Branch", "Date", "Overlap", "First Session", "Second Session"];
+  const conflictRows = () => doubleBookings.map((booking) => [
+    branchNames.get(booking.branchId) || "Unknown",
+    format(parseISO(booking.date), "EEE, MMM dd, yyyy"),
+    `${minutesToTime(booking.overlapStart)} - ${minutesToTime(booking.overlapEnd)}`,
+    sessionTimes(booking.first),
+    sessionTimes(booking.second),
+  ]);
+
+  const handleExportExcel = () => {
+    if (heatmaps.length === 0) {
+      toast.error("No sessions to export");
+      return;
+    }
+    exportUtilizationToExcel(
+      heatmaps.map((heatmap) => ({
+        name: branchNames.get(heatmap.branchId) || "Unknown",
+        columns: ["Hour", ...WEEKDAYS],
+        rows: heatmap.rows.map((row, index) => ({
+          label: formatHour(heatmap.hours[index]),
+          cells: row.map((cell) => ({
+            value: cell.sessions > 0 ? `${cell.sessions} sessions / ${cell.headcount} players` : "",
+            intensity: cellIntensity(cell, metric, heatmap),
+            flagged: cell.doubleBooked > 0,
+          })),
+        })),
+      })),
+      periodLabel,
+      conflictHeaders,
+      conflictRows(),
+      "court_utilization"
+    );
+    toast.success("Utilization exported");
+  };
+
+  const handleExportCSV = () => {
+    if (heatmaps.length === 0) {
+      toast.error("No sessions to export");
+      return;
+    }
+    const rows = heatmaps.flatMap((heatmap) =>
+      heatmap.rows.flatMap((row) =>
+        row.map((cell) => [
+          branchNames.get(heatmap.branchId) || "Unknown",
+          WEEKDAYS[cell.day],
+          formatHour(cell.hour),
+          String(cell.sessions),
+          String(cell.headcount),
+          String(cell.capacity),
+          cell.doubleBooked > 0 ? "Yes" : "No",
+        ])
+      )
+    );
+    exportRowsToCSV(["Branch", "Day", "Hour", "Sessions", "Players", "Capacity", "Double-booked"], rows, "court_utilization");
+    toast.success("Utilization exported");
+  };
+
+  return (
+    <div className="min-h-screen bg-background pt-4 p-2 sm:p-3 md:p-6 pb-24 md:pb-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3 mb-6">
+          <div>
+            <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#242833] mb-2 tracking-tight">Court Utilization</h1>
+            <p className="text-xs sm:text-sm md:text-base text-gray-700">Busy and quiet slots per branch, totalled over the selected weeks</p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleExportExcel}
+              disabled={heatmaps.length === 0}
+              className="bg-accent text-white hover:bg-accent/90 text-xs sm:text-sm"
+              style={{ backgroundColor: '#79e58f' }}
+            >
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Excel
+            </Button>
+            <Button
+              variant="outline"
+              onClick={handleExportCSV}
+              disabled={heatmaps.length === 0}
+              className="border-2 border-[#242833] text-[#242833] text-xs sm:text-sm"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardContent className="p-3 sm:p-4">
+            <div className="flex items-center mb-3">
+              <Filter className="h-4 sm:h-5 w-4 sm:w-5 text-accent mr-2" style={{ color: '#79e58f' }} />
+              <h3 className="text-base sm:text-lg font-semibold text-gray-900">Filters</h3>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="utilization-from" className="text-xs sm:text-sm">From</Label>
+                <Input id="utilization-from" type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="utilization-to" className="text-xs sm:text-sm">To</Label>
+                <Input id="utilization-to" type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs sm:text-sm">Branch</Label>
+                <Select value={branchFilter} onValueChange={setBranchFilter}>
+                  <SelectTrigger className="border-2 border-accent rounded-lg text-xs sm:text-sm bg-white" style={{ borderColor: '#79e58f' }}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All branches</SelectItem>
+                    {branches?.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs sm:text-sm">Shade by</Label>
+                <Select value={metric} onValueChange={(value: Metric) => setMetric(value)}>
+                  <SelectTrigger className="border-2 border-accent rounded-lg text-xs sm:text-sm bg-white" style={{ borderColor: '#79e58f' }}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="headcount">Players</SelectItem>
+                    <SelectItem value="sessions">Sessions</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {!validRange && (
+              <p className="text-xs text-red-600 mt-2">Pick a start date on or before the end date.</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              {weeks} week{weeks === 1 ? "" : "s"}. A session counts in every hour it runs through. Red outlines mark double-booked court time.
+            </p>
+          </CardContent>
+        </Card>
+
+        {isLoading ? (
+          <div className="text-center py-12">
+            <Grid3x3 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-sm text-gray-600">Loading sessions...</p>
+          </div>
+        ) : heatmaps.length === 0 ? (
+          <div className="text-center py-12">
+            <Grid3x3 className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-bold text-black mb-2">No sessions in this range</h3>
+            <p className="text-sm text-gray-600">Try a wider date range or another branch.</p>
+          </div>
+        ) : (
+          heatmaps.map((heatmap) => (
+            <Card key={heatmap.branchId} className="border-2 border-[#242833] bg-white shadow-xl">
+              <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+                <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                  <div>
+                    <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                      <Grid3x3 className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                      {branchNames.get(heatmap.branchId) || "Unknown branch"}
+                    </CardTitle>
+                    <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                      {heatmap.totalSessions} sessions, {heatmap.totalHeadcount} players, about {Math.round((heatmap.totalSessions / weeks) * 10) / 10} sessions a week
+                    </CardDescription>
+                  </div>
+                  {heatmap.doubleBookings.length > 0 && (
+                    <Badge className="bg-red-50 text-red-700 border border-red-200 text-xs w-fit">
+                      <AlertTriangle className="w-3.5 h-3.5 mr-1" />
+                      {heatmap.doubleBookings.length} double booking{heatmap.doubleBookings.length === 1 ? "" : "s"}
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="p-2 sm:p-3 md:p-4">
+                <div className="overflow-x-auto">
+                  <table className="w-full border-separate" style={{ borderSpacing: 3 }}>
+                    <thead>
+                      <tr>
+                        <th className="text-xs font-medium text-gray-500 text-left w-16"></th>
+                        {WEEKDAYS.map((day) => (
+                          <th key={day} className="text-xs font-semibold text-gray-700 text-center min-w-[56px]">{day}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {heatmap.rows.map((row, rowIndex) => (
+                        <tr key={heatmap.hours[rowIndex]}>
+                          <td className="text-xs text-gray-500 whitespace-nowrap pr-2">{formatHour(heatmap.hours[rowIndex])}</td>
+                          {row.map((cell) => {
+                            const intensity = cellIntensity(cell, metric, heatmap);
+                            return (
+                              <td
+                                key={cell.day}
+                                title={`${WEEKDAYS[cell.day]} ${formatHour(cell.hour)}: ${cell.sessions} session${cell.sessions === 1 ? "" : "s"}, ${cell.headcount} player${cell.headcount === 1 ? "" : "s"}${cell.capacity ? ` of ${cell.capacity} spots` : ""}${cell.doubleBooked ? `, ${cell.doubleBooked} double-booked` : ""}`}
+                                className={`h-9 rounded text-center text-xs font-semibold ${cell.doubleBooked ? "ring-2 ring-red-500" : ""}`}
+                                style={{
+                                  backgroundColor: cell.sessions > 0 ? `rgba(121, 229, 143, ${0.15 + intensity * 0.85})` : "#f3f4f6",
+                                  color: intensity > 0.6 ? "#242833" : "#4b5563",
+                                }}
+                              >
+                                {cell.sessions > 0 ? cellValue(cell, metric) : ""}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {heatmap.doubleBookings.length > 0 && (
+                  <div className="mt-4">
+                    <h4 className="text-sm font-semibold text-red-700 flex items-center mb-2">
+                      <AlertTriangle className="w-4 h-4 mr-1" />
+                      Double-booked court time
+                    </h4>
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead className="text-xs sm:text-sm">Date</TableHead>
+                            <TableHead className="text-xs sm:text-sm">Overlap</TableHead>
+                            <TableHead className="text-xs sm:text-sm">Sessions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {heatmap.doubleBookings.map((booking) => (
+                            <TableRow key={booking.key}>
+                              <TableCell className="text-xs sm:text-sm">{format(parseISO(booking.date), "EEE, MMM dd, yyyy")}</TableCell>
+                              <TableCell className="text-xs sm:text-sm">{minutesToTime(booking.overlapStart)} - {minutesToTime(booking.overlapEnd)}</TableCell>
+                              <TableCell className="text-xs sm:text-sm">
+                                {sessionTimes(booking.first)} and {sessionTimes(booking.second)}
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -6,9 +6,10 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Plus, Edit, Trash2, Filter, Search, Users, ChevronLeft, ChevronRight, MapPin, Phone } from "lucide-react";
+import { Plus, Edit, Trash2, Filter, Search, Users, ChevronLeft, ChevronRight, MapPin, Phone, LocateFixed } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { getDeviceLocation } from "@/utils/geolocation";
 
 type Branch = {
   id: string;
@@ -16,21 +17,57 @@ type Branch = {
   address: string;
   city: string;
   contact_info: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  geofence_radius_meters: number;
+  late_grace_minutes: number;
+  early_leave_grace_minutes: number;
   created_at: string;
 };
 
+// Coordinates are typed as text in the form, empty means the branch has no geofence
+type BranchFormData = {
+  name: string;
+  address: string;
+  city: string;
+  contact_info: string;
+  latitude: string;
+  longitude: string;
+  geofence_radius_meters: string;
+  late_grace_minutes: string;
+  early_leave_grace_minutes: string;
+};
+
+const toBranchValues = (branch: BranchFormData) => ({
+  name: branch.name,
+  address: branch.address,
+  city: branch.city,
+  contact_info: branch.contact_info || null,
+  latitude: branch.latitude.trim() ? parseFloat(branch.latitude) : null,
+  longitude: branch.longitude.trim() ? parseFloat(branch.longitude) : null,
+  geofence_radius_meters: parseInt(branch.geofence_radius_meters) || 200,
+  late_grace_minutes: Math.max(0, parseInt(branch.late_grace_minutes) || 0),
+  early_leave_grace_minutes: Math.max(0, parseInt(branch.early_leave_grace_minutes) || 0),
+});
+
 export function BranchesManager() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 6;
-  const [formData, setFormData] = useState({
+  const [formData, setFormData] = useState<BranchFormData>({
     name: "",
     address: "",
     city: "",
     contact_info: "",
+    latitude: "",
+    longitude: "",
+    geofence_radius_meters: "200",
+    late_grace_minutes: "5",
+    early_leave_grace_minutes: "5",
   });
+  const [isLocating, setIsLocating] = useState(false);
 
   const queryClient = useQueryClient();
 
@@ -64,10 +101,7 @@ export function BranchesManager() {
     mutationFn: async (branch: typeof formData) => {
       const { data, error } = await supabase
         .from("branches")
-        .insert([{
-          ...branch,
-          contact_info: branch.contact_info || null,
-        }])
+        .insert([toBranchValues(branch)])
         .select()
         .single();
       if (error) throw error;
@@ -88,10 +122,7 @@ export function BranchesManager() {
     mutationFn: async ({ id, ...branch }: typeof formData & { id: string }) => {
       const { data, error } = await supabase
         .from("branches")
-        .update({
-          ...branch,
-          contact_info: branch.contact_info || null,
-        })
+        .update(toBranchValues(branch))
         .eq("id", id)
         .select()
         .single();
@@ -148,13 +179,32 @@ export function BranchesManager() {
   });
 
   const resetForm = () => {
-    setFormData({ name: "", address: "", city: "", contact_info: "" });
+    setFormData({ name: "", address: "", city: "", contact_info: "", latitude: "", longitude: "", geofence_radius_meters: "200", late_grace_minutes: "5", early_leave_grace_minutes: "5" });
     setEditingBranch(null);
     setIsDialogOpen(false);
   };
 
+  const handleUseCurrentLocation = async () => {
+    setIsLocating(true);
+    const location = await getDeviceLocation();
+    setIsLocating(false);
+    if (!location) {
+      toast.error("Could not get your location. Check the browser's location permission.");
+      return;
+    }
+    setFormData((prev) => ({
+      ...prev,
+      latitude: location.latitude.toFixed(6),
+      longitude: location.longitude.toFixed(6),
+    }));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!formData.latitude.trim() !== !formData.longitude.trim()) {
+      toast.error("Enter both latitude and longitude, or leave both empty");
+      return;
+    }
     if (editingBranch) {
       updateMutation.mutate({ ...formData, id: editingBranch.id });
     } else {
@@ -169,6 +219,11 @@ export function BranchesManager() {
       address: branch.address,
       city: branch.city,
       contact_info: branch.contact_info || "",
+      latitude: branch.latitude?.toString() ?? "",
+      longitude: branch.longitude?.toString() ?? "",
+      geofence_radius_meters: String(branch.geofence_radius_meters ?? 200),
+      late_grace_minutes: String(branch.late_grace_minutes ?? 5),
+      early_leave_grace_minutes: String(branch.early_leave_grace_minutes ?? 5),
     });
     setIsDialogOpen(true);
   };
@@ -274,6 +329,87 @@ export function BranchesManager() {
                         style={{ borderColor: '#79e58f' }}
                       />
                     </div>
+                    <div className="min-w-0 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <Label className="text-gray-700 font-medium text-xs sm:text-sm">Time In Geofence</Label>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={handleUseCurrentLocation}
+                          disabled={isLocating}
+                          className="h-7 px-2 text-xs"
+                        >
+                          <LocateFixed className="w-3 h-3 mr-1" />
+                          {isLocating ? "Locating..." : "Use my location"}
+                        </Button>
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <Input
+                          id="latitude"
+                          type="number"
+                          step="any"
+                          min="-90"
+                          max="90"
+                          value={formData.latitude}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, latitude: e.target.value }))}
+                          placeholder="Latitude"
+                          className="mt-1 pl-4 pr-4 py-1.5 sm:py-2 border-2 border-accent rounded-lg text-xs sm:text-sm focus:border-accent focus:ring-accent/20 bg-white"
+                          style={{ borderColor: '#79e58f' }}
+                        />
+                        <Input
+                          id="longitude"
+                          type="number"
+                          step="any"
+                          min="-180"
+                          max="180"
+                          value={formData.longitude}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, longitude: e.target.value }))}
+                          placeholder="Longitude"
+                          className="mt-1 pl-4 pr-4 py-1.5 sm:py-2 border-2 border-accent rounded-lg text-xs sm:text-sm focus:border-accent focus:ring-accent/20 bg-white"
+                          style={{ borderColor: '#79e58f' }}
+                        />
+                        <Input
+                          id="geofence_radius_meters"
+                          type="number"
+                          min="1"
+                          value={formData.geofence_radius_meters}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, geofence_radius_meters: e.target.value }))}
+                          placeholder="Radius (m)"
+                          className="mt-1 pl-4 pr-4 py-1.5 sm:py-2 border-2 border-accent rounded-lg text-xs sm:text-sm focus:border-accent focus:ring-accent/20 bg-white"
+                          style={{ borderColor: '#79e58f' }}
+                        />
+                      </div>
+                      <p className="text-[11px] sm:text-xs text-gray-500">
+                        Coaches timing in or out further than the radius (meters) are flagged for review. Leave the coordinates empty to skip the check.
+                      </p>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="min-w-0">
+                        <Label htmlFor="late_grace_minutes" className="text-gray-700 font-medium text-xs sm:text-sm">Late After (min)</Label>
+                        <Input
+                          id="late_grace_minutes"
+                          type="number"
+                          min="0"
+                          value={formData.late_grace_minutes}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, late_grace_minutes: e.target.value }))}
+                          className="mt-1 pl-4 pr-4 py-1.5 sm:py-2 border-2 border-accent rounded-lg text-xs sm:text-sm focus:border-accent focus:ring-accent/20 bg-white"
+                          style={{ borderColor: '#79e58f' }}
+                        />
+                      </div>
+                      <div className="min-w-0">
+                        <Label htmlFor="early_leave_grace_minutes" className="text-gray-700 font-medium text-xs sm:text-sm">Early Leave Before (min)</Label>
+                        <Input
+                          id="early_leave_grace_minutes"
+                          type="number"
+                          min="0"
+                          value={formData.early_leave_grace_minutes}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, early_leave_grace_minutes: e.target.value }))}
+                          className="mt-1 pl-4 pr-4 py-1.5 sm:py-2 border-2 border-accent rounded-lg text-xs sm:text-sm focus:border-accent focus:ring-accent/20 bg-white"
+                          style={{ borderColor: '#79e58f' }}
+                        />
+                      </div>
+                    </div>
                     <div className="flex flex-row justify-end gap-2 pt-4 border-t border-gray-200">
                       <Button
                         type="button"
@@ -348,6 +484,13 @@ export function BranchesManager() {
                       <Phone className="w-4 h-4 text-gray-500 flex-shrink-0" />
                       <span className="text-xs sm:text-sm line-clamp-2"><span className="font-medium">Contact:</span> {branch.contact_info || "N/A"}</span>
                     </div>
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <LocateFixed className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      <span className="text-xs sm:text-sm truncate">
+                        <span className="font-medium">Geofence:</span>{" "}
+                        {branch.latitude !== null && branch.longitude !== null ? `${branch.geofence_radius_meters} m radius` : "Not set"}
+                      </span>
+                    </div>
                     <div className="flex items-center justify-end pt-2">
                       <div className="flex space-x-2 flex-wrap">
                         <Button
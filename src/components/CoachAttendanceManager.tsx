@@ -6,17 +6,23 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { CheckCircle, XCircle, Clock, Calendar, MapPin, Users, Filter, Search, Timer, Eye } from "lucide-react";
+import { CheckCircle, XCircle, Clock, Calendar, MapPin, Users, Filter, Search, Timer, Eye, AlarmClock, ShieldCheck, ScanLine, CloudOff } from "lucide-react";
 import { Label } from "@/components/ui/label";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useAuth } from "@/context/AuthContext";
 import { format, parseISO, addDays, subDays, parse } from "date-fns";
-
-type AttendanceStatus = "present" | "absent" | "pending";
+import { isDurationBasedStudent } from "@/utils/packageCatalog";
+import { describePunchLocationFlag, getDeviceLocation } from "@/utils/geolocation";
+import { PunchLocationBadge } from "./PunchLocationBadge";
+import { AttendanceReasonDialog } from "./AttendanceReasonDialog";
+import { QrCheckInScanner } from "./QrCheckInScanner";
+import { applyQueuedAttendance, applyQueuedCoachPunches, isNetworkError, queueAttendanceChange, queueCoachPunch } from "@/utils/offlineSync";
+
+type AttendanceStatus = "present" | "absent" | "pending" | "excused" | "late";
 type SessionStatus = "scheduled" | "completed" | "cancelled" | "all";
 
-const attendanceStatuses = ["present", "absent", "pending"] as const;
+const attendanceStatuses = ["present", "absent", "pending", "excused", "late"] as const;
 type AttendanceStatusLiteral = typeof attendanceStatuses[number];
 
 type CoachSessionTime = {
@@ -25,8 +31,16 @@ type CoachSessionTime = {
   coach_id: string;
   time_in: string | null;
   time_out: string | null;
+  time_in_distance_meters: number | null;
+  time_in_location_flag: string | null;
+  time_out_distance_meters: number | null;
+  time_out_location_flag: string | null;
+  location_review_status: string | null;
+  pending_sync?: boolean;
 };
 
+const COACH_SESSION_TIME_COLUMNS = "id, session_id, coach_id, time_in, time_out, time_in_distance_meters, time_in_location_flag, time_out_distance_meters, time_out_location_flag, location_review_status";
+
 type Package = {
   id: string;
   name: string;
@@ -104,7 +118,9 @@ export function CoachAttendanceManager() {
   const [packageFilter, setPackageFilter] = useState<string | "All">("All");
   const [activeTab, setActiveTab] = useState<"coaches" | "players">("coaches");
   const [showDurationDialog, setShowDurationDialog] = useState(false);
-  const [pendingAttendanceUpdate, setPendingAttendanceUpdate] = useState<{ recordId: string; status: AttendanceStatus } | null>(null);
+  const [pendingAttendanceUpdate, setPendingAttendanceUpdate] = useState<{ recordId: string; status: AttendanceStatus; reason?: string } | null>(null);
+  const [reasonPrompt, setReasonPrompt] = useState<{ recordId: string; status: "excused" | "late" } | null>(null);
+  const [showScanner, setShowScanner] = useState(false);
   const [selectedDuration, setSelectedDuration] = useState<number>(0);
   const [showViewModal, setShowViewModal] = useState(false);
   const [updatingRecordId, setUpdatingRecordId] = useState<string | null>(null);
@@ -270,7 +286,7 @@ const { data: sessions } = useQuery<TrainingSession[]>({
       console.log("Fetching coach session times for session:", selectedSession);
       const { data, error } = await supabase
         .from("coach_session_times")
-        .select("id, session_id, coach_id, time_in, time_out")
+        .select(COACH_SESSION_TIME_COLUMNS)
         .eq("session_id", selectedSession);
       
       if (error) {
@@ -299,7 +315,9 @@ const { data: sessions } = useQuery<TrainingSession[]>({
           marked_at,
           session_duration,
           package_cycle,
-          students (name, package_type)
+          reason,
+          consumes_session,
+          students (name, package_type, packages (is_duration_based))
         `)
         .eq("session_id", selectedSession)
         .order("created_at", { ascending: true });
@@ -310,7 +328,8 @@ const { data: sessions } = useQuery<TrainingSession[]>({
       }
       
       console.log("Fetched attendance records:", data);
-      return data || [];
+      // Marks saved on this device but not synced yet stay visible over the server copy
+      return applyQueuedAttendance(selectedSession, data || []);
     },
     enabled: !!selectedSession,
   });
@@ -322,27 +341,54 @@ const { data: sessions } = useQuery<TrainingSession[]>({
       console.log(`Fetching coach attendance for session: ${selectedSession}, coach: ${coachId}`);
       const { data, error } = await supabase
         .from("coach_session_times")
-        .select("id, session_id, coach_id, time_in, time_out")
+        .select(COACH_SESSION_TIME_COLUMNS)
         .eq("session_id", selectedSession)
         .eq("coach_id", coachId)
         .single();
 
       if (error) {
         console.error("Error fetching coach attendance:", error);
-        return null;
+        return applyQueuedCoachPunches<CoachSessionTime>(selectedSession, coachId, null);
       }
       console.log("Coach attendance:", data);
-      return data as CoachSessionTime | null;
+      return applyQueuedCoachPunches(selectedSession, coachId, data as CoachSessionTime | null);
     },
     enabled: !!selectedSession && !!coachId,
   });
 
   const updateCoachAttendance = useMutation({
-    mutationFn: async ({ sessionId, field }: { sessionId: string; field: 'time_in' | 'time_out' }) => {
+    // Runs without a connection too so the punch can be queued on the device
+    networkMode: 'always',
+    mutationFn: async ({ sessionId, field }: { sessionId: string; field: 'time_in' | 'time_out' }): Promise<CoachSessionTime> => {
       if (!coachId) throw new Error("Coach ID not found");
       console.log(`Updating ${field} for session: ${sessionId}, coach: ${coachId}, user: ${user?.id}`);
 
       const currentTime = new Date().toISOString();
+      // Distance to the branch is checked by the database, a missing location gets flagged there
+      const location = await getDeviceLocation();
+      const punchLocation = {
+        [`${field}_latitude`]: location?.latitude ?? null,
+        [`${field}_longitude`]: location?.longitude ?? null,
+        [`${field}_accuracy_meters`]: location?.accuracy ?? null,
+      };
+
+      const queuePunch = async () => {
+        const session = sessions?.find((s) => s.id === sessionId);
+        await queueCoachPunch({
+          sessionId,
+          coachId,
+          field,
+          label: `${field === 'time_in' ? 'Time In' : 'Time Out'} • ${session ? format(parseISO(session.date), 'MMM d') : 'session'}`,
+          values: { [field]: currentTime, ...punchLocation },
+        });
+        return {
+          ...(coachAttendance ?? { session_id: sessionId, coach_id: coachId, time_in: null, time_out: null }),
+          [field]: currentTime,
+          pending_sync: true,
+        } as CoachSessionTime;
+      };
+
+      if (!navigator.onLine) return queuePunch();
 
       // Validate coach_id matches authenticated user
       const { data: coach, error: coachError } = await supabase
@@ -351,6 +397,7 @@ const { data: sessions } = useQuery<TrainingSession[]>({
         .eq("auth_id", user?.id)
         .single();
 
+      if (coachError && isNetworkError(coachError)) return queuePunch();
       if (coachError || !coach || (coach.id !== coachId && coach.role !== 'admin')) {
         console.error(`Coach ID validation failed:`, coachError, { expected: coachId, found: coach?.id, role: coach?.role });
         throw new Error(`Invalid coach ID: ${coachError?.message || 'Coach ID does not match authenticated user or user is not admin'}`);
@@ -363,7 +410,7 @@ const { data: sessions } = useQuery<TrainingSession[]>({
       // Check for existing record
       const { data: existingRecords, error: fetchError } = await supabase
         .from("coach_session_times")
-        .select("id, session_id, coach_id, time_in, time_out")
+        .select(COACH_SESSION_TIME_COLUMNS)
         .eq("session_id", sessionId)
         .eq("coach_id", coachId);
 
@@ -379,10 +426,10 @@ const { data: sessions } = useQuery<TrainingSession[]>({
         // Update existing record
         const { data: updatedData, error: updateError } = await supabase
           .from("coach_session_times")
-          .update({ [field]: currentTime })
+          .update({ [field]: currentTime, ...punchLocation })
           .eq("session_id", sessionId)
           .eq("coach_id", coachId)
-          .select("id, session_id, coach_id, time_in, time_out")
+          .select(COACH_SESSION_TIME_COLUMNS)
           .single();
 
         if (updateError) {
@@ -401,8 +448,9 @@ const { data: sessions } = useQuery<TrainingSession[]>({
             session_id: sessionId,
             coach_id: coachId,
             time_in: currentTime,
+            ...punchLocation,
           })
-          .select("id, session_id, coach_id, time_in, time_out")
+          .select(COACH_SESSION_TIME_COLUMNS)
           .single();
 
         if (insertError) {
@@ -432,7 +480,17 @@ const { data: sessions } = useQuery<TrainingSession[]>({
       return data;
     },
     onSuccess: (data, variables) => {
-      toast.success(`${variables.field === 'time_in' ? 'Time In' : 'Time Out'} recorded successfully`);
+      if (data.pending_sync) {
+        toast.success(`${variables.field === 'time_in' ? 'Time In' : 'Time Out'} saved offline, it will sync when you are back online`);
+        queryClient.setQueryData(["coach-attendance", variables.sessionId, coachId], data);
+        return;
+      }
+      const locationFlag = describePunchLocationFlag(data[`${variables.field}_location_flag`], data[`${variables.field}_distance_meters`]);
+      if (locationFlag) {
+        toast.warning(`${variables.field === 'time_in' ? 'Time In' : 'Time Out'} recorded but flagged for admin review: ${locationFlag}`);
+      } else {
+        toast.success(`${variables.field === 'time_in' ? 'Time In' : 'Time Out'} recorded successfully`);
+      }
       queryClient.setQueryData(["coach-attendance", variables.sessionId, coachId], data);
       queryClient.invalidateQueries({ queryKey: ["coach-attendance", variables.sessionId, coachId] });
       queryClient.invalidateQueries({ queryKey: ["coach-session-times", variables.sessionId] });
@@ -445,22 +503,23 @@ const { data: sessions } = useQuery<TrainingSession[]>({
   });
 
   const updateAttendance = useMutation({
-    mutationFn: async ({ recordId, status, session_duration }: { recordId: string; status: AttendanceStatus; session_duration?: number }) => {
+    networkMode: 'always',
+    mutationFn: async ({ recordId, status, session_duration, reason }: { recordId: string; status: AttendanceStatus; session_duration?: number; reason?: string }): Promise<{ queued: boolean; values?: Record<string, unknown> }> => {
       console.log("Updating attendance:", recordId, status, session_duration);
       const updateData: any = { 
         status, 
-        marked_at: status !== "pending" ? new Date().toISOString() : null 
+        marked_at: status !== "pending" ? new Date().toISOString() : null,
+        reason: status === "excused" || status === "late" ? reason : null,
       };
       
       // Find record for student_id and existing cycle
       const targetRecord = attendanceRecords?.find((r) => r.id === recordId);
       
       // Check if this is a Personal Training package
-      const packageType = targetRecord?.students?.package_type?.toLowerCase() || '';
-      const isPersonalPackage = packageType.includes('personal');
+      const isPersonalPackage = isDurationBasedStudent(targetRecord?.students);
 
-      // Only set session_duration for Personal Training packages when marking as present
-      if (status === 'present') {
+      // Only set session_duration when the player attended (present or late)
+      if (status === 'present' || status === 'late') {
         if (isPersonalPackage) {
           // For Personal Training packages, require duration to be provided
           if (session_duration !== undefined && session_duration !== null && session_duration > 0) {
@@ -476,7 +535,28 @@ const { data: sessions } = useQuery<TrainingSession[]>({
           updateData.session_duration = 1.0;
           console.log('Using default session_duration: 1.0 for non-personal package');
         }
+      }
 
+      const needsPackageCycle = status !== 'pending' && targetRecord?.package_cycle == null;
+      const queueChange = async () => {
+        const values = { ...updateData };
+        delete values.package_cycle;
+        await queueAttendanceChange({
+          sessionId: targetRecord?.session_id ?? selectedSession,
+          recordId,
+          studentId: targetRecord?.student_id,
+          label: `${targetRecord?.students?.name ?? 'Player'} marked ${status}`,
+          base: { status: targetRecord?.status, marked_at: targetRecord?.marked_at ?? null },
+          needsPackageCycle,
+          values,
+        });
+        return { queued: true, values };
+      };
+
+      if (!navigator.onLine) return queueChange();
+
+      // Absences can use a session too depending on the package rules, so any mark belongs to a cycle
+      if (status !== 'pending') {
         // Determine package_cycle if missing
         if (targetRecord?.package_cycle == null && targetRecord?.student_id) {
           const { count: historyCount } = await (supabase as any)
@@ -495,10 +575,22 @@ const { data: sessions } = useQuery<TrainingSession[]>({
         .eq("id", recordId);
       if (error) {
         console.error("Error updating attendance:", error);
+        if (isNetworkError(error)) return queueChange();
         throw error;
       }
+      return { queued: false };
     },
-    onSuccess: () => {
+    onSuccess: (result, variables) => {
+      if (result.queued) {
+        toast.success("Saved offline, attendance will sync when you are back online");
+        queryClient.setQueryData<Array<{ id: string }>>(["attendance", selectedSession], (records) =>
+          records?.map((record) =>
+            record.id === variables.recordId ? { ...record, ...result.values, pending_sync: true } : record
+          )
+        );
+        setUpdatingRecordId(null);
+        return;
+      }
       toast.success("Attendance updated");
       queryClient.invalidateQueries({ queryKey: ["attendance", selectedSession] });
       queryClient.invalidateQueries({ queryKey: ["students"] });
@@ -530,21 +622,35 @@ const { data: sessions } = useQuery<TrainingSession[]>({
   const presentCount = filteredAttendanceRecords.filter((r) => r.status === "present").length;
   const absentCount = filteredAttendanceRecords.filter((r) => r.status === "absent").length;
   const pendingCount = filteredAttendanceRecords.filter((r) => r.status === "pending").length;
+  const excusedCount = filteredAttendanceRecords.filter((r) => r.status === "excused").length;
+  const lateCount = filteredAttendanceRecords.filter((r) => r.status === "late").length;
 
-  const handleAttendanceChange = (recordId: string, status: AttendanceStatusLiteral) => {
+  const handleAttendanceChange = (recordId: string, status: AttendanceStatusLiteral, reason?: string) => {
     const record = attendanceRecords?.find(r => r.id === recordId);
-    const packageType = record?.students?.package_type?.toLowerCase() || '';
-    const isPersonalPackage = packageType.includes('personal');
+    const isPersonalPackage = isDurationBasedStudent(record?.students);
+
+    // Excused and late need a reason before anything is saved
+    if ((status === 'excused' || status === 'late') && reason === undefined) {
+      setReasonPrompt({ recordId, status });
+      return;
+    }
     
-    // If marking as present and package is personal, show duration dialog
-    if (status === 'present' && isPersonalPackage) {
-      setPendingAttendanceUpdate({ recordId, status });
+    // If the player attended and package is personal, show duration dialog
+    if ((status === 'present' || status === 'late') && isPersonalPackage) {
+      setPendingAttendanceUpdate({ recordId, status, reason });
       setSelectedDuration(record?.session_duration || 0);
       setShowDurationDialog(true);
     } else {
-      // For non-personal packages or non-present status, update directly
+      // For non-personal packages or absences, update directly
       setUpdatingRecordId(recordId);
-      updateAttendance.mutate({ recordId, status });
+      updateAttendance.mutate({ recordId, status, reason });
+    }
+  };
+
+  const handleReasonConfirm = (reason: string) => {
+    if (reasonPrompt) {
+      handleAttendanceChange(reasonPrompt.recordId, reasonPrompt.status, reason);
+      setReasonPrompt(null);
     }
   };
 
@@ -560,7 +666,8 @@ const { data: sessions } = useQuery<TrainingSession[]>({
       updateAttendance.mutate({ 
         recordId: pendingAttendanceUpdate.recordId, 
         status: pendingAttendanceUpdate.status,
-        session_duration: selectedDuration
+        session_duration: selectedDuration,
+        reason: pendingAttendanceUpdate.reason,
       });
       setShowDurationDialog(false);
       setPendingAttendanceUpdate(null);
@@ -573,6 +680,8 @@ const { data: sessions } = useQuery<TrainingSession[]>({
       case "present": return <CheckCircle className="w-4 h-4 text-green-600" />;
       case "absent": return <XCircle className="w-4 h-4 text-red-600" />;
       case "pending": return <Clock className="w-4 h-4 text-amber-600" />;
+      case "excused": return <ShieldCheck className="w-4 h-4 text-blue-600" />;
+      case "late": return <AlarmClock className="w-4 h-4 text-orange-600" />;
       default: return <Clock className="w-4 h-4 text-gray-400" />;
     }
   };
@@ -582,6 +691,8 @@ const { data: sessions } = useQuery<TrainingSession[]>({
       case "present": return "bg-green-50 text-green-700 border-green-200";
       case "absent": return "bg-red-50 text-red-700 border-red-200";
       case "pending": return "bg-gray-50 text-amber-700 border-amber-200";
+      case "excused": return "bg-blue-50 text-blue-700 border-blue-200";
+      case "late": return "bg-orange-50 text-orange-700 border-orange-200";
       default: return "bg-gray-50 text-gray-700 border-gray-200";
     }
   };
@@ -1030,6 +1141,14 @@ const { data: sessions } = useQuery<TrainingSession[]>({
                         <Clock className="w-4 h-4 text-amber-600" />
                         <span className="text-xs sm:text-sm font-medium text-gray-700">Pending: {pendingCount}</span>
                       </div>
+                      <div className="flex items-center space-x-2">
+                        <AlarmClock className="w-4 h-4 text-orange-600" />
+                        <span className="text-xs sm:text-sm font-medium text-gray-700">Late: {lateCount}</span>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <ShieldCheck className="w-4 h-4 text-blue-600" />
+                        <span className="text-xs sm:text-sm font-medium text-gray-700">Excused: {excusedCount}</span>
+                      </div>
                     </div>
                     <div className="border-2 rounded-lg p-3 max-h-48 overflow-y-auto bg-white shadow-sm hide-scrollbar" style={{ borderColor: "#242833" }}>
                       {filteredAttendanceRecords.length === 0 ? (
@@ -1193,12 +1312,28 @@ const { data: sessions } = useQuery<TrainingSession[]>({
                                   <span className="text-xs sm:text-sm font-medium">
                                     {sc.coach_id === coachId ? formatDateTime(coachAttendance?.time_in) : 'Restricted: Only you can view your own time records'}
                                   </span>
+                                  {sc.coach_id === coachId && (
+                                    <div className="mt-1">
+                                      <PunchLocationBadge flag={coachAttendance?.time_in_location_flag} distance={coachAttendance?.time_in_distance_meters} reviewStatus={coachAttendance?.location_review_status} />
+                                    </div>
+                                  )}
                                 </div>
                                 <div>
                                   <span className="text-xs sm:text-sm text-gray-600 block mb-1">Time Out:</span>
                                   <span className="text-xs sm:text-sm font-medium">
                                     {sc.coach_id === coachId ? formatDateTime(coachAttendance?.time_out) : 'Restricted: Only you can view your own time records'}
                                   </span>
+                                  {sc.coach_id === coachId && coachAttendance?.pending_sync && (
+                                    <span className="text-xs text-amber-600 flex items-center gap-1 mt-1">
+                                      <CloudOff className="w-3 h-3" />
+                                      Waiting to sync
+                                    </span>
+                                  )}
+                                  {sc.coach_id === coachId && (
+                                    <div className="mt-1">
+                                      <PunchLocationBadge flag={coachAttendance?.time_out_location_flag} distance={coachAttendance?.time_out_distance_meters} reviewStatus={coachAttendance?.location_review_status} />
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                             </div>
@@ -1210,9 +1345,21 @@ const { data: sessions } = useQuery<TrainingSession[]>({
                 ) : (
                   <div className="space-y-4">
                     <div className="space-y-2">
-                      <div className="flex items-center">
-                        <Search className="h-3 w-3 sm:h-4 sm:w-4 text-accent mr-2" style={{ color: '#79e58f' }} />
-                        <h3 className="text-sm sm:text-base font-semibold text-[#242833]">Search Players</h3>
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center">
+                          <Search className="h-3 w-3 sm:h-4 sm:w-4 text-accent mr-2" style={{ color: '#79e58f' }} />
+                          <h3 className="text-sm sm:text-base font-semibold text-[#242833]">Search Players</h3>
+                        </div>
+                        {selectedSessionDetails?.status !== 'cancelled' && (
+                          <Button
+                            size="sm"
+                            onClick={() => setShowScanner(true)}
+                            className="bg-[#242833] hover:bg-[#1a1e26] text-white text-xs sm:text-sm"
+                          >
+                            <ScanLine className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5" style={{ color: '#79e58f' }} />
+                            Scan QR
+                          </Button>
+                        )}
                       </div>
                       <div className="relative max-w-sm">
                         <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-3 h-3 sm:w-4 sm:h-4 text-gray-400" />
@@ -1239,6 +1386,14 @@ const { data: sessions } = useQuery<TrainingSession[]>({
                         <Clock className="w-3 h-3 sm:w-4 sm:h-4 text-amber-600" />
                         <span className="text-xs sm:text-sm font-medium text-gray-700">Pending: {pendingCount}</span>
                       </div>
+                      <div className="flex items-center gap-2">
+                        <AlarmClock className="w-3 h-3 sm:w-4 sm:h-4 text-orange-600" />
+                        <span className="text-xs sm:text-sm font-medium text-gray-700">Late: {lateCount}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <ShieldCheck className="w-3 h-3 sm:w-4 sm:h-4 text-blue-600" />
+                        <span className="text-xs sm:text-sm font-medium text-gray-700">Excused: {excusedCount}</span>
+                      </div>
                     </div>
                     <div className="border-2 rounded-lg p-3 sm:p-4 max-h-64 sm:max-h-80 overflow-y-auto bg-white shadow-sm hide-scrollbar" style={{ borderColor: "#242833" }}>
                       {filteredAttendanceRecords.length === 0 ? (
@@ -1257,6 +1412,17 @@ const { data: sessions } = useQuery<TrainingSession[]>({
                                   <div>
                                     <span className="text-sm sm:text-base font-semibold text-gray-800 block">{record.students.name}</span>
                                     <span className="text-xs text-gray-500">{record.students.package_type || 'No package'}</span>
+                                    {record.reason && (record.status === 'excused' || record.status === 'late') && (
+                                      <span className="text-xs text-gray-500 block">
+                                        Reason: {record.reason}{record.consumes_session ? '' : ' • no session used'}
+                                      </span>
+                                    )}
+                                    {record.pending_sync && (
+                                      <span className="text-xs text-amber-600 flex items-center gap-1">
+                                        <CloudOff className="w-3 h-3" />
+                                        Waiting to sync
+                                      </span>
+                                    )}
                                   </div>
                                 </div>
                                 <Badge className={`font-medium ${getAttendanceBadgeColor(record.status)} text-xs hidden sm:flex`}>
@@ -1299,6 +1465,40 @@ const { data: sessions } = useQuery<TrainingSession[]>({
                                   )}
                                   Absent
                                 </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleAttendanceChange(record.id, 'late')}
+                                  disabled={updatingRecordId === record.id}
+                                  className={`flex-1 sm:flex-none h-9 sm:h-10 px-3 sm:px-4 text-xs sm:text-sm font-medium rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    record.status === 'late'
+                                      ? 'bg-orange-500 text-white shadow-md ring-2 ring-orange-300'
+                                      : 'bg-orange-50 text-orange-700 hover:bg-orange-100 border border-orange-200'
+                                  }`}
+                                >
+                                  {updatingRecordId === record.id ? (
+                                    <div className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                                  ) : (
+                                    <AlarmClock className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5" />
+                                  )}
+                                  Late
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleAttendanceChange(record.id, 'excused')}
+                                  disabled={updatingRecordId === record.id}
+                                  className={`flex-1 sm:flex-none h-9 sm:h-10 px-3 sm:px-4 text-xs sm:text-sm font-medium rounded-lg transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+                                    record.status === 'excused'
+                                      ? 'bg-blue-600 text-white shadow-md ring-2 ring-blue-300'
+                                      : 'bg-blue-50 text-blue-700 hover:bg-blue-100 border border-blue-200'
+                                  }`}
+                                >
+                                  {updatingRecordId === record.id ? (
+                                    <div className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5 border-2 border-current border-t-transparent rounded-full animate-spin" />
+                                  ) : (
+                                    <ShieldCheck className="w-3.5 h-3.5 sm:w-4 sm:h-4 mr-1.5" />
+                                  )}
+                                  Excused
+                                </Button>
                                 <Button
                                   size="sm"
                                   onClick={() => handleAttendanceChange(record.id, 'pending')}
@@ -1361,6 +1561,33 @@ const { data: sessions } = useQuery<TrainingSession[]>({
           </DialogContent>
         </Dialog>
 
+        <Dialog open={showScanner} onOpenChange={setShowScanner}>
+          <DialogContent className="w-[95vw] max-w-[95vw] sm:max-w-md md:max-w-lg border-0 shadow-2xl p-0 max-h-[85vh] sm:max-h-[90vh] flex flex-col rounded-xl sm:rounded-2xl overflow-hidden" style={{ backgroundColor: '#f8f9fa' }}>
+            <DialogHeader className="px-3 sm:px-4 md:px-6 py-3 sm:py-4 md:py-5 flex-shrink-0" style={{ background: '#242833' }}>
+              <DialogTitle className="text-sm sm:text-base md:text-lg font-bold text-white flex items-center gap-2 sm:gap-3">
+                <div className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10 rounded-lg sm:rounded-xl flex items-center justify-center flex-shrink-0" style={{ backgroundColor: 'rgba(121, 229, 143, 0.2)' }}>
+                  <ScanLine className="w-3.5 h-3.5 sm:w-4 sm:h-4 md:w-5 md:h-5" style={{ color: '#79e58f' }} />
+                </div>
+                <span className="truncate">Scan Check-in Codes</span>
+              </DialogTitle>
+              <DialogDescription className="text-gray-300 text-[10px] sm:text-xs md:text-sm mt-1 ml-9 sm:ml-11 md:ml-13">
+                Players scanned here are marked present for this session
+              </DialogDescription>
+            </DialogHeader>
+            <div className="p-3 sm:p-4 md:p-6 overflow-y-auto flex-1 custom-scrollbar">
+              {showScanner && selectedSession && <QrCheckInScanner sessionId={selectedSession} />}
+            </div>
+          </DialogContent>
+        </Dialog>
+
+        <AttendanceReasonDialog
+          status={reasonPrompt?.status ?? null}
+          studentName={attendanceRecords?.find((r) => r.id === reasonPrompt?.recordId)?.students.name}
+          initialReason={attendanceRecords?.find((r) => r.id === reasonPrompt?.recordId)?.reason}
+          onCancel={() => setReasonPrompt(null)}
+          onConfirm={handleReasonConfirm}
+        />
+
         {/* Session Duration Dialog */}
         <Dialog open={showDurationDialog} onOpenChange={setShowDurationDialog}>
           <DialogContent className="w-[90vw] max-w-[90vw] sm:max-w-sm md:max-w-md border-0 shadow-2xl p-0 max-h-[85vh] sm:max-h-[90vh] flex flex-col rounded-xl sm:rounded-2xl overflow-hidden" style={{ backgroundColor: '#f8f9fa' }}>
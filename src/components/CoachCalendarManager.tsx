@@ -1,12 +1,13 @@
 import { useState, Component, ErrorInfo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useNavigate } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { Calendar as CalendarIcon, Users, Clock, MapPin, ChevronLeft, ChevronRight, Filter, Eye } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Calendar as CalendarIcon, Users, Clock, MapPin, ChevronLeft, ChevronRight, Filter, Eye, ArrowLeftRight } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isBefore, addMonths, subMonths, isAfter, parseISO, getDay } from "date-fns";
 import { toZonedTime } from "date-fns-tz";
@@ -44,6 +45,45 @@ type TrainingSession = {
   }>;
 };
 
+type SubstituteRequest = {
+  id: string;
+  session_id: string;
+  status: string;
+  reason: string;
+};
+
+type SubstituteOffer = {
+  id: string;
+  substitute_requests: {
+    id: string;
+    status: string;
+    reason: string;
+    requester: { name: string } | null;
+    training_sessions: {
+      id: string;
+      date: string;
+      start_time: string;
+      end_time: string;
+      package_type: string | null;
+      branches: { name: string } | null;
+    } | null;
+  } | null;
+};
+
+// Email the coaches and admins affected by a substitute request without failing the request itself
+const notifySubstitute = async (notificationType: 'substitute_request' | 'substitute_filled', substituteRequestId: string) => {
+  try {
+    const { error } = await supabase.functions.invoke('send-session-notification', {
+      body: { notificationType, substituteRequestId },
+    });
+    if (error) {
+      console.error('Error sending substitute notifications:', error);
+    }
+  } catch (notifyError) {
+    console.error('Error in substitute notification process:', notifyError);
+  }
+};
+
 // Error Boundary Component
 class CalendarErrorBoundary extends Component<{ children: React.ReactNode }, { hasError: boolean; error: string | null }> {
   state = { hasError: false, error: null };
@@ -95,7 +135,10 @@ export function CoachCalendarManager() {
   const [currentMonth, setCurrentMonth] = useState<Date>(toZonedTime(new Date(), 'Asia/Manila'));
   const [showUpcomingSessions, setShowUpcomingSessions] = useState(false);
   const [showPastSessions, setShowPastSessions] = useState(false);
+  const [substituteSession, setSubstituteSession] = useState<TrainingSession | null>(null);
+  const [substituteReason, setSubstituteReason] = useState("");
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
 
   const timeZone = 'Asia/Manila';
 
@@ -217,6 +260,121 @@ export function CoachCalendarManager() {
     enabled: !!coachId
   });
 
+  const { data: substituteRequests } = useQuery({
+    queryKey: ['my-substitute-requests', coachId],
+    queryFn: async () => {
+      if (!coachId) return [];
+      const { data, error } = await supabase
+        .from('substitute_requests')
+        .select('id, session_id, status, reason')
+        .eq('coach_id', coachId)
+        .eq('status', 'open');
+      if (error) {
+        console.error("Error fetching substitute requests:", error);
+        throw error;
+      }
+      return (data || []) as SubstituteRequest[];
+    },
+    enabled: !!coachId
+  });
+
+  const { data: substituteOffers } = useQuery({
+    queryKey: ['substitute-offers', coachId],
+    queryFn: async () => {
+      if (!coachId) return [];
+      const { data, error } = await supabase
+        .from('substitute_offers')
+        .select(`
+          id,
+          substitute_requests (
+            id,
+            status,
+            reason,
+            requester:coaches!substitute_requests_coach_id_fkey (name),
+            training_sessions (
+              id,
+              date,
+              start_time,
+              end_time,
+              package_type,
+              branches (name)
+            )
+          )
+        `)
+        .eq('coach_id', coachId);
+      if (error) {
+        console.error("Error fetching substitute offers:", error);
+        throw error;
+      }
+      const todayString = format(toZonedTime(new Date(), 'Asia/Manila'), 'yyyy-MM-dd');
+      return ((data || []) as SubstituteOffer[])
+        .filter(offer => offer.substitute_requests?.status === 'open' && (offer.substitute_requests.training_sessions?.date || '') >= todayString)
+        .sort((a, b) => (a.substitute_requests?.training_sessions?.date || '').localeCompare(b.substitute_requests?.training_sessions?.date || ''));
+    },
+    enabled: !!coachId
+  });
+
+  const requestSubstituteMutation = useMutation({
+    mutationFn: async ({ sessionId, reason }: { sessionId: string; reason: string }) => {
+      const { data, error } = await supabase.rpc('request_substitute', {
+        p_session_id: sessionId,
+        p_reason: reason,
+      });
+      if (error) {
+        console.error('Request substitute error:', error);
+        throw error;
+      }
+      await notifySubstitute('substitute_request', data);
+      return data;
+    },
+    onSuccess: () => {
+      toast.success('Substitute requested. Coaches free at that time have been notified.');
+      queryClient.invalidateQueries({ queryKey: ['my-substitute-requests'] });
+      setSubstituteSession(null);
+      setSubstituteReason("");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to request substitute: ' + error.message);
+    },
+  });
+
+  const cancelSubstituteMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      const { error } = await supabase.rpc('cancel_substitute_request', { p_request_id: requestId });
+      if (error) {
+        console.error('Cancel substitute request error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success('Substitute request cancelled');
+      queryClient.invalidateQueries({ queryKey: ['my-substitute-requests'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to cancel substitute request: ' + error.message);
+    },
+  });
+
+  const acceptSubstituteMutation = useMutation({
+    mutationFn: async (requestId: string) => {
+      const { error } = await supabase.rpc('accept_substitute_request', { p_request_id: requestId });
+      if (error) {
+        console.error('Accept substitute request error:', error);
+        throw error;
+      }
+      await notifySubstitute('substitute_filled', requestId);
+    },
+    onSuccess: () => {
+      toast.success('You have been added to the session');
+      queryClient.invalidateQueries({ queryKey: ['substitute-offers'] });
+      queryClient.invalidateQueries({ queryKey: ['coach-training-sessions'] });
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to take the session: ' + error.message);
+      queryClient.invalidateQueries({ queryKey: ['substitute-offers'] });
+    },
+  });
+
   const filteredSessions = sessions
     ?.filter((session) => {
       try {
@@ -293,6 +451,57 @@ export function CoachCalendarManager() {
     navigate(`/dashboard/sessions?sessionId=${sessionId}`);
   };
 
+  const getOpenSubstituteRequest = (sessionId: string) =>
+    substituteRequests?.find(request => request.session_id === sessionId);
+
+  const canRequestSubstitute = (session: TrainingSession) => {
+    try {
+      return session.status === 'scheduled' && !isBefore(parseISO(session.date), todayDateOnly);
+    } catch (error) {
+      console.error("Error checking substitute eligibility:", session, error);
+      return false;
+    }
+  };
+
+  const renderSubstituteAction = (session: TrainingSession) => {
+    if (!canRequestSubstitute(session)) return null;
+    const openRequest = getOpenSubstituteRequest(session.id);
+
+    if (openRequest) {
+      return (
+        <>
+          <Badge className="font-medium px-2 py-1 text-xs w-fit bg-amber-100 text-amber-800 hover:bg-amber-100 border-0">
+            Substitute requested
+          </Badge>
+          <Button
+            onClick={() => cancelSubstituteMutation.mutate(openRequest.id)}
+            disabled={cancelSubstituteMutation.isPending}
+            variant="outline"
+            size="sm"
+            className="text-xs sm:text-sm min-w-fit w-full sm:w-auto"
+          >
+            Cancel Request
+          </Button>
+        </>
+      );
+    }
+
+    return (
+      <Button
+        onClick={() => {
+          setSubstituteReason("");
+          setSubstituteSession(session);
+        }}
+        variant="outline"
+        size="sm"
+        className="border-[#242833] text-[#242833] hover:bg-[#242833] hover:text-white text-xs sm:text-sm min-w-fit w-full sm:w-auto"
+      >
+        <ArrowLeftRight className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2" />
+        Request Substitute
+      </Button>
+    );
+  };
+
   if (sessionsError || coachIdError || branchesError || packagesError) {
     return (
       <div className="min-h-screen bg-background p-3 sm:p-4 md:p-6">
@@ -331,6 +540,59 @@ export function CoachCalendarManager() {
               View and manage your basketball training sessions
             </p>
           </div>
+          {substituteOffers && substituteOffers.length > 0 && (
+            <Card className="border-2 border-[#242833] bg-white shadow-xl">
+              <CardHeader className="border-b border-[#242833] bg-[#242833] p-4 sm:p-6">
+                <CardTitle className="text-lg sm:text-xl lg:text-2xl font-bold text-[#efeff1] flex items-center">
+                  <ArrowLeftRight className="h-5 w-5 sm:h-6 sm:w-6 mr-2 sm:mr-3 flex-shrink-0" style={{ color: '#79e58f' }} />
+                  <span className="truncate">Substitute Requests ({substituteOffers.length})</span>
+                </CardTitle>
+                <CardDescription className="text-gray-400 text-xs sm:text-sm lg:text-base">
+                  Sessions other coaches need covered. The first coach to accept takes the session.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-3 sm:p-4 lg:p-6 space-y-3">
+                {substituteOffers.map(offer => {
+                  const request = offer.substitute_requests;
+                  const offeredSession = request?.training_sessions;
+                  if (!request || !offeredSession) return null;
+                  return (
+                    <div key={offer.id} className="border border-[#242833] rounded-lg p-3 space-y-3 sm:space-y-0 sm:grid sm:grid-cols-2 lg:grid-cols-[repeat(4,1fr)_auto] gap-2 sm:gap-3 sm:items-center">
+                      <div className="min-w-0">
+                        <p className="text-xs sm:text-sm font-medium text-gray-600">Date</p>
+                        <p className="font-semibold text-black text-xs sm:text-sm truncate">
+                          {format(parseISO(offeredSession.date), 'MMM dd, yyyy')} · {formatTime12Hour(offeredSession.start_time)} - {formatTime12Hour(offeredSession.end_time)}
+                        </p>
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-xs sm:text-sm font-medium text-gray-600">Branch</p>
+                        <p className="font-semibold text-black text-xs sm:text-sm truncate">
+                          {offeredSession.branches?.name || 'N/A'} · {offeredSession.package_type || 'N/A'}
+                        </p>
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-xs sm:text-sm font-medium text-gray-600">Requested By</p>
+                        <p className="font-semibold text-black text-xs sm:text-sm truncate">{request.requester?.name || 'Unknown'}</p>
+                      </div>
+                      <div className="min-w-0">
+                        <p className="text-xs sm:text-sm font-medium text-gray-600">Reason</p>
+                        <p className="text-black text-xs sm:text-sm line-clamp-2">{request.reason}</p>
+                      </div>
+                      <Button
+                        onClick={() => acceptSubstituteMutation.mutate(request.id)}
+                        disabled={acceptSubstituteMutation.isPending}
+                        size="sm"
+                        className="bg-accent hover:bg-accent/90 text-white font-medium text-xs sm:text-sm min-w-fit w-full sm:w-auto"
+                        style={{ backgroundColor: '#79e58f' }}
+                      >
+                        Take Session
+                      </Button>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
           <Card className="border-2 border-[#242833] bg-white shadow-xl">
             <CardHeader className="border-b border-[#242833] bg-[#242833] p-4 sm:p-6">
               <CardTitle className="text-lg sm:text-xl lg:text-2xl font-bold text-[#efeff1] flex items-center">
@@ -584,6 +846,7 @@ export function CoachCalendarManager() {
                               >
                                 {isPrePlannedSession(session) ? 'Manage Session' : 'Attendance'}
                               </Button>
+                              {renderSubstituteAction(session)}
                             </div>
                           </div>
                         </CardContent>
@@ -646,7 +909,8 @@ export function CoachCalendarManager() {
                                   : 'No coaches assigned'}
                               </p>
                             </div>
-                            <div className="flex justify-end">
+                            <div className="flex flex-col sm:flex-row sm:items-center justify-end gap-2">
+                              {renderSubstituteAction(session)}
                               <Button
                                 onClick={() => {
                                   setShowUpcomingSessions(false);
@@ -746,6 +1010,46 @@ export function CoachCalendarManager() {
               </div>
             </DialogContent>
           </Dialog>
+          <Dialog open={!!substituteSession} onOpenChange={(open) => !open && setSubstituteSession(null)}>
+            <DialogContent className="w-[95vw] max-w-lg border-2 border-[#242833] bg-white shadow-lg p-4 sm:p-6">
+              <DialogHeader className="space-y-2">
+                <DialogTitle className="text-lg sm:text-xl font-bold text-gray-900 flex items-center">
+                  <ArrowLeftRight className="h-4 w-4 sm:h-5 sm:w-5 mr-2 sm:mr-3 flex-shrink-0" style={{ color: '#79e58f' }} />
+                  Request a Substitute
+                </DialogTitle>
+                <DialogDescription className="text-gray-600 text-xs sm:text-sm">
+                  {substituteSession
+                    ? `${format(parseISO(substituteSession.date), 'EEEE, MMM dd, yyyy')} · ${formatTime12Hour(substituteSession.start_time)} - ${formatTime12Hour(substituteSession.end_time)} · ${substituteSession.branches?.name || 'N/A'}`
+                    : ''}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-2">
+                <label className="text-xs sm:text-sm font-medium text-gray-700">Reason</label>
+                <Textarea
+                  value={substituteReason}
+                  onChange={(e) => setSubstituteReason(e.target.value)}
+                  placeholder="Why can't you make this session?"
+                  className="min-h-[100px] text-sm"
+                />
+                <p className="text-xs text-gray-500">
+                  Every coach free at this time is offered the session. You stay assigned until one of them accepts, then you are marked excused.
+                </p>
+              </div>
+              <div className="flex flex-col-reverse sm:flex-row justify-end gap-2 pt-2">
+                <Button variant="outline" onClick={() => setSubstituteSession(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => substituteSession && requestSubstituteMutation.mutate({ sessionId: substituteSession.id, reason: substituteReason.trim() })}
+                  disabled={!substituteReason.trim() || requestSubstituteMutation.isPending}
+                  className="bg-accent hover:bg-accent/90 text-white"
+                  style={{ backgroundColor: '#79e58f' }}
+                >
+                  {requestSubstituteMutation.isPending ? 'Requesting...' : 'Request Substitute'}
+                </Button>
+              </div>
+            </DialogContent>
+          </Dialog>
         </div>
       </div>
     </CalendarErrorBoundary>
@@ -515,7 +515,8 @@ export function CoachesManager() {
                             coach.email || '',
                             coach.phone || '',
                             coach.created_at ? format(new Date(coach.created_at), 'yyyy-MM-dd') : ''
-                          ]
+                          ],
+                          'Coaches Report'
                         );
                         toast.success('Coaches report exported to Excel successfully');
                       }}
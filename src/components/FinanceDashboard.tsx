@@ -0,0 +1,390 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { AlertCircle, Filter, Hourglass, Receipt, TrendingDown, TrendingUp, Wallet } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { endOfDay, format, parseISO, startOfDay, startOfMonth, subMonths } from "date-fns";
+import {
+  buildReceivables,
+  formatPeso,
+  groupRevenue,
+  groupRevenueByMonth,
+  summarizeAging,
+  type ReceivableBalance,
+  type ReceivableStudent,
+  type RevenuePayment,
+  type UnpaidCharge,
+} from "@/utils/finance";
+
+const revenueChartConfig = {
+  net: { label: "Net collected", color: "#79e58f" },
+  refunded: { label: "Refunded", color: "#f87171" },
+} satisfies ChartConfig;
+
+const agingChartConfig = {
+  balances: { label: "Package balances", color: "#242833" },
+  charges: { label: "Unpaid charges", color: "#fbbf24" },
+} satisfies ChartConfig;
+
+const formatAxisPeso = (value: number) =>
+  value >= 1000 ? `₱${Math.round(value / 1000)}k` : `₱${value}`;
+
+const getBucketBadgeColor = (bucket: string) => {
+  switch (bucket) {
+    case "60+": return "bg-red-50 text-red-700 border-red-200";
+    case "31-60": return "bg-amber-50 text-amber-700 border-amber-200";
+    default: return "bg-green-50 text-green-700 border-green-200";
+  }
+};
+
+/**
+ * Collections by month, branch and package type for a date range, plus what is still owed
+ * and how long it has been outstanding
+ */
+export function FinanceDashboard() {
+  const navigate = useNavigate();
+  const [fromDate, setFromDate] = useState(format(startOfMonth(subMonths(new Date(), 5)), "yyyy-MM-dd"));
+  const [toDate, setToDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [branchFilter, setBranchFilter] = useState("all");
+  const [revenueGroup, setRevenueGroup] = useState<"branch" | "package">("branch");
+
+  const validRange = !!fromDate && !!toDate && fromDate <= toDate;
+
+  const { data: branches } = useQuery({
+    queryKey: ["branches-select"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("branches").select("id, name").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: payments, isLoading: paymentsLoading } = useQuery({
+    queryKey: ["finance-payments", fromDate, toDate],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("student_payments")
+        .select("id, payment_amount, payment_date, transaction_type, voided_at, students (branch_id, package_type), student_package_history (package_type)")
+        .gte("payment_date", startOfDay(parseISO(fromDate)).toISOString())
+        .lte("payment_date", endOfDay(parseISO(toDate)).toISOString())
+        .order("payment_date");
+      if (error) {
+        console.error("Error fetching payments:", error);
+        throw error;
+      }
+      return (data || []) as RevenuePayment[];
+    },
+    enabled: validRange,
+  });
+
+  const { data: receivableSources, isLoading: receivablesLoading } = useQuery({
+    queryKey: ["finance-receivables"],
+    queryFn: async () => {
+      // Archived packages' charges were carried forward or written off when the package was renewed
+      const [studentsRes, balancesRes, chargesRes] = await Promise.all([
+        supabase
+          .from("students")
+          .select("id, name, branch_id, enrollment_date, created_at")
+          .gt("remaining_balance", 0),
+        supabase
+          .from("student_balance_ledger")
+          .select("student_id, total_training_fee, downpayment, balance_payments")
+          .eq("is_current", true)
+          .gt("remaining_balance", 0),
+        supabase
+          .from("student_charges")
+          .select("id, student_id, amount, paid_amount, charge_date, charge_type, description, students (name, branch_id)")
+          .eq("is_paid", false)
+          .is("package_history_id", null),
+      ]);
+      if (studentsRes.error || balancesRes.error || chargesRes.error) {
+        const error = studentsRes.error || balancesRes.error || chargesRes.error;
+        console.error("Error fetching receivables:", error);
+        throw error;
+      }
+      return {
+        students: (studentsRes.data || []) as ReceivableStudent[],
+        balances: (balancesRes.data || []) as ReceivableBalance[],
+        charges: (chargesRes.data || []) as UnpaidCharge[],
+      };
+    },
+  });
+
+  const branchNames = useMemo(
+    () => new Map((branches || []).map((branch) => [branch.id, branch.name])),
+    [branches]
+  );
+
+  const filteredPayments = useMemo(
+    () => (payments || []).filter((payment) =>
+      branchFilter === "all" || (payment.students?.branch_id || "unassigned") === branchFilter
+    ),
+    [payments, branchFilter]
+  );
+
+  const monthlyRevenue = useMemo(
+    () => (validRange ? groupRevenueByMonth(filteredPayments, fromDate, toDate) : []),
+    [filteredPayments, fromDate, toDate, validRange]
+  );
+
+  const groupedRevenue = useMemo(
+    () => groupRevenue(filteredPayments, revenueGroup, branchNames),
+    [filteredPayments, revenueGroup, branchNames]
+  );
+
+  const receivables = useMemo(() => {
+    if (!receivableSources) return [];
+    return buildReceivables(receivableSources.students, receivableSources.balances, receivableSources.charges)
+      .filter((receivable) => branchFilter === "all" || (receivable.branchId || "unassigned") === branchFilter);
+  }, [receivableSources, branchFilter]);
+
+  const aging = useMemo(() => summarizeAging(receivables), [receivables]);
+
+  const totals = useMemo(() => {
+    const collected = monthlyRevenue.reduce((sum, month) => sum + month.collected, 0);
+    const refunded = monthlyRevenue.reduce((sum, month) => sum + month.refunded, 0);
+    const outstanding = receivables.reduce((sum, receivable) => sum + receivable.amount, 0);
+    const overdue = receivables.filter((receivable) => receivable.bucket === "60+").reduce((sum, receivable) => sum + receivable.amount, 0);
+    return { collected, refunded, net: collected - refunded, outstanding, overdue };
+  }, [monthlyRevenue, receivables]);
+
+  const summaryCards = [
+    { title: "Collected", value: totals.collected, icon: TrendingUp, note: `${filteredPayments.filter((payment) => !payment.voided_at && payment.transaction_type !== "refund").length} payments` },
+    { title: "Refunded", value: totals.refunded, icon: TrendingDown, note: "Within the date range" },
+    { title: "Net Revenue", value: totals.net, icon: Wallet, note: "Collected less refunds" },
+    { title: "Outstanding", value: totals.outstanding, icon: Receipt, note: `${receivables.length} open item${receivables.length === 1 ? "" : "s"}` },
+    { title: "Over 60 Days", value: totals.overdue, icon: Hourglass, note: "Oldest receivables" },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background pt-4 p-2 sm:p-3 md:p-6 pb-24 md:pb-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="mb-6">
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#242833] mb-2 tracking-tight">Finance</h1>
+          <p className="text-xs sm:text-sm md:text-base text-gray-700">Collections, refunds and outstanding balances</p>
+        </div>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardContent className="p-3 sm:p-4">
+            <div className="flex items-center mb-3">
+              <Filter className="h-4 sm:h-5 w-4 sm:w-5 text-accent mr-2" style={{ color: '#79e58f' }} />
+              <h3 className="text-base sm:text-lg font-semibold text-gray-900">Filters</h3>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="finance-from" className="text-xs sm:text-sm">From</Label>
+                <Input id="finance-from" type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="finance-to" className="text-xs sm:text-sm">To</Label>
+                <Input id="finance-to" type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs sm:text-sm">Branch</Label>
+                <Select value={branchFilter} onValueChange={setBranchFilter}>
+                  <SelectTrigger className="border-2 border-accent rounded-lg text-xs sm:text-sm bg-white" style={{ borderColor: '#79e58f' }}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All branches</SelectItem>
+                    {branches?.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                    ))}
+                    <SelectItem value="unassigned">No branch</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {!validRange && (
+              <p className="text-xs text-red-600 mt-2">Pick a start date on or before the end date.</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">Outstanding balances are as of today and only follow the branch filter.</p>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4">
+          {summaryCards.map((card) => (
+            <Card key={card.title} className="border-2 border-[#242833] bg-white shadow-lg">
+              <CardContent className="p-3 sm:p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-xs sm:text-sm font-medium text-gray-600">{card.title}</p>
+                  <card.icon className="w-4 h-4" style={{ color: '#79e58f' }} />
+                </div>
+                <p className="text-base sm:text-xl font-bold text-[#242833]">
+                  {paymentsLoading || receivablesLoading ? "..." : formatPeso(card.value)}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">{card.note}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+            <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+              <TrendingUp className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+              Revenue by Month
+            </CardTitle>
+            <CardDescription className="text-gray-400 text-xs sm:text-sm">
+              Voided payments are left out, refunds count in the month they were made
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-2 sm:p-3 md:p-4">
+            <ChartContainer config={revenueChartConfig} className="h-[280px] w-full aspect-auto">
+              <BarChart data={monthlyRevenue}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={formatAxisPeso} />
+                <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${revenueChartConfig[name as keyof typeof revenueChartConfig]?.label ?? name}: ${formatPeso(Number(value))}`} />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="net" fill="var(--color-net)" radius={4} />
+                <Bar dataKey="refunded" fill="var(--color-refunded)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="border-2 border-[#242833] bg-white shadow-xl">
+            <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                  <Wallet className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                  Revenue by {revenueGroup === "branch" ? "Branch" : "Package"}
+                </CardTitle>
+                <Select value={revenueGroup} onValueChange={(value: "branch" | "package") => setRevenueGroup(value)}>
+                  <SelectTrigger className="w-32 h-8 text-xs bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="branch">By branch</SelectItem>
+                    <SelectItem value="package">By package</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="p-2 sm:p-3 md:p-4">
+              {groupedRevenue.length > 0 ? (
+                <ChartContainer config={revenueChartConfig} className="w-full aspect-auto" style={{ height: Math.max(160, groupedRevenue.length * 44) }}>
+                  <BarChart data={groupedRevenue} layout="vertical" margin={{ left: 8 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} tickFormatter={formatAxisPeso} />
+                    <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+                    <ChartTooltip content={<ChartTooltipContent formatter={(value) => formatPeso(Number(value))} />} />
+                    <Bar dataKey="net" fill="var(--color-net)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-center text-sm text-gray-500 py-12">No payments in this range.</p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-2 border-[#242833] bg-white shadow-xl">
+            <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+              <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                <Hourglass className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                Receivables Aging
+              </CardTitle>
+              <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                Balances age from enrollment, charges from the charge date
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-2 sm:p-3 md:p-4">
+              <ChartContainer config={agingChartConfig} className="h-[220px] w-full aspect-auto">
+                <BarChart data={aging}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                  <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={formatAxisPeso} />
+                  <ChartTooltip content={<ChartTooltipContent formatter={(value, name) => `${agingChartConfig[name as keyof typeof agingChartConfig]?.label ?? name}: ${formatPeso(Number(value))}`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="balances" stackId="aging" fill="var(--color-balances)" />
+                  <Bar dataKey="charges" stackId="aging" fill="var(--color-charges)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+              <div className="grid grid-cols-3 gap-2 mt-3">
+                {aging.map((bucket) => (
+                  <div key={bucket.bucket} className="text-center p-2 rounded-lg border border-gray-200">
+                    <p className="text-xs text-gray-500">{bucket.label}</p>
+                    <p className="text-sm font-bold text-[#242833]">{formatPeso(bucket.balances + bucket.charges)}</p>
+                    <p className="text-xs text-gray-500">{bucket.count} item{bucket.count === 1 ? "" : "s"}</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+            <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+              <AlertCircle className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+              Outstanding Receivables
+            </CardTitle>
+            <CardDescription className="text-gray-400 text-xs sm:text-sm">
+              Oldest first
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-2 sm:p-3 md:p-4">
+            {receivables.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="text-xs sm:text-sm">Student</TableHead>
+                      <TableHead className="text-xs sm:text-sm">Branch</TableHead>
+                      <TableHead className="text-xs sm:text-sm">Item</TableHead>
+                      <TableHead className="text-xs sm:text-sm">Since</TableHead>
+                      <TableHead className="text-xs sm:text-sm">Age</TableHead>
+                      <TableHead className="text-xs sm:text-sm text-right">Amount</TableHead>
+                      <TableHead className="text-xs sm:text-sm"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {receivables.map((receivable) => (
+                      <TableRow key={receivable.key}>
+                        <TableCell className="text-xs sm:text-sm font-medium">{receivable.studentName}</TableCell>
+                        <TableCell className="text-xs sm:text-sm">{branchNames.get(receivable.branchId || "") || "No branch"}</TableCell>
+                        <TableCell className="text-xs sm:text-sm">{receivable.description}</TableCell>
+                        <TableCell className="text-xs sm:text-sm">{format(new Date(receivable.since), "MMM dd, yyyy")}</TableCell>
+                        <TableCell>
+                          <Badge className={`text-xs border ${getBucketBadgeColor(receivable.bucket)}`}>
+                            {receivable.days} day{receivable.days === 1 ? "" : "s"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-xs sm:text-sm text-right font-semibold">{formatPeso(receivable.amount)}</TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => navigate(`/dashboard/students/${receivable.studentId}/payments`)}
+                            className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs"
+                          >
+                            Payments
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <p className="text-center text-sm text-gray-500 py-12">
+                {receivablesLoading ? "Loading receivables..." : "Nothing outstanding."}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
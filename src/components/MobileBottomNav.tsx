@@ -1,7 +1,8 @@
 import { useState } from "react";
-import { Calendar, Users, MapPin, UserCheck, BookOpen, ClipboardList, Home, LogOut, Package, MoreHorizontal, X } from "lucide-react";
+import { Calendar, Users, MapPin, UserCheck, BookOpen, ClipboardList, Home, LogOut, Package, Bell, Wallet, CalendarClock, Mail, TrendingUp, BarChart3, Grid3x3, MoreHorizontal, X } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
 
 const menuItems = [
   { title: "Dashboard", icon: Home, value: "overview", allowedRoles: ['admin', 'coach'], priority: 1 },
@@ -12,6 +13,13 @@ const menuItems = [
   { title: "Coaches", icon: BookOpen, value: "coaches", allowedRoles: ['admin'], priority: 6 },
   { title: "Branches", icon: MapPin, value: "branches", allowedRoles: ['admin'], priority: 7 },
   { title: "Packages", icon: Package, value: "packages", allowedRoles: ['admin'], priority: 8 },
+  { title: "Alerts", icon: Bell, value: "alerts", allowedRoles: ['admin'], priority: 9 },
+  { title: "Payroll", icon: Wallet, value: "payroll", allowedRoles: ['admin'], priority: 10 },
+  { title: "Availability", icon: CalendarClock, value: "availability", allowedRoles: ['admin', 'coach'], priority: 11 },
+  { title: "Notifications", icon: Mail, value: "notifications", allowedRoles: ['admin'], priority: 12 },
+  { title: "Finance", icon: TrendingUp, value: "finance", allowedRoles: ['admin'], priority: 13 },
+  { title: "Analytics", icon: BarChart3, value: "analytics", allowedRoles: ['admin'], priority: 14 },
+  { title: "Utilization", icon: Grid3x3, value: "utilization", allowedRoles: ['admin'], priority: 15 },
 ];
 
 interface MobileBottomNavProps {
@@ -51,6 +59,12 @@ export function MobileBottomNav({ activeTab, onTabChange }: MobileBottomNavProps
     <>
       {/* Bottom Navigation Bar - Mobile Only */}
       <nav className="md:hidden fixed bottom-0 left-0 right-0 z-50 bg-[#242833] border-t border-[#3a4152]">
+        {/* Offline sync status floats just above the bar */}
+        <div className="absolute -top-9 left-0 right-0 flex justify-center pointer-events-none">
+          <div className="pointer-events-auto">
+            <SyncStatusIndicator />
+          </div>
+        </div>
         <div className="flex items-center justify-around h-16 px-1 safe-area-pb">
           {mainNavItems.map((item) => {
             const isActive = activeTab === item.value;
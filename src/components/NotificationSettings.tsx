@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bell, BellOff, Send } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import {
+  getCurrentPushSubscription,
+  isPushSupported,
+  sendTestPush,
+  subscribeToPush,
+  unsubscribeFromPush,
+} from "@/utils/pushNotifications";
+
+type PreferenceKey = "session_assigned" | "session_changed" | "time_in_reminder" | "absence_warning";
+
+const preferenceOptions: Array<{ key: PreferenceKey; label: string; description: string; coachOnly: boolean }> = [
+  { key: "session_assigned", label: "New sessions", description: "When you are assigned to a session", coachOnly: true },
+  { key: "session_changed", label: "Session changes", description: "When a session is moved or cancelled", coachOnly: false },
+  { key: "time_in_reminder", label: "Time-in reminders", description: "15 minutes before a session starts", coachOnly: true },
+  { key: "absence_warning", label: "Absence warnings", description: "Before you are marked absent for not timing in", coachOnly: true },
+];
+
+/**
+ * Turns push notifications on or off for this device and picks which ones the user gets
+ */
+export function NotificationSettings() {
+  const { user, role } = useAuth();
+  const queryClient = useQueryClient();
+  const [isSubscribed, setIsSubscribed] = useState(false);
+  const supported = isPushSupported();
+
+  useEffect(() => {
+    getCurrentPushSubscription()
+      .then((subscription) => setIsSubscribed(!!subscription))
+      .catch((error) => console.error("Push subscription error:", error));
+  }, []);
+
+  const { data: preferences } = useQuery({
+    queryKey: ["notification-preferences", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("notification_preferences")
+        .select("*")
+        .eq("user_id", user!.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!user?.id,
+  });
+
+  const toggleDevice = useMutation({
+    mutationFn: async (enable: boolean) => {
+      if (enable) {
+        await subscribeToPush(user!.id);
+      } else {
+        await unsubscribeFromPush();
+      }
+      return enable;
+    },
+    onSuccess: (enabled) => {
+      setIsSubscribed(enabled);
+      toast.success(enabled ? "Notifications turned on for this device" : "Notifications turned off for this device");
+    },
+    onError: (error) => {
+      console.error("Push subscription error:", error);
+      toast.error("Failed to update notifications: " + error.message);
+    },
+  });
+
+  const updatePreference = useMutation({
+    mutationFn: async ({ key, value }: { key: PreferenceKey; value: boolean }) => {
+      const { error } = await supabase
+        .from("notification_preferences")
+        .upsert({ user_id: user!.id, [key]: value }, { onConflict: "user_id" });
+      if (error) {
+        console.error("Notification preferences error:", error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notification-preferences", user?.id] });
+    },
+    onError: (error) => {
+      toast.error("Failed to save preference: " + error.message);
+    },
+  });
+
+  const testPush = useMutation({
+    mutationFn: sendTestPush,
+    onSuccess: (result) => {
+      if (result.sent > 0) {
+        toast.success("Test notification sent");
+      } else {
+        toast.warning("No devices received the notification");
+      }
+    },
+    onError: (error) => {
+      console.error("Test notification error:", error);
+      toast.error("Failed to send test notification: " + error.message);
+    },
+  });
+
+  const visibleOptions = preferenceOptions.filter((option) => role !== "student" || !option.coachOnly);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <p className="text-slate-900 font-semibold">Push notifications on this device</p>
+          <p className="text-slate-600 text-sm">
+            {supported
+              ? "Get session updates even when the app is closed. Works best when the app is installed."
+              : "This browser does not support push notifications."}
+          </p>
+        </div>
+        <Switch
+          checked={isSubscribed}
+          disabled={!supported || toggleDevice.isPending}
+          onCheckedChange={(checked) => toggleDevice.mutate(checked)}
+        />
+      </div>
+
+      <div className="space-y-3">
+        {visibleOptions.map((option) => (
+          <div key={option.key} className="flex items-center justify-between gap-4 p-4 bg-white border border-slate-200 rounded-lg">
+            <div>
+              <Label htmlFor={`notify-${option.key}`} className="text-slate-900 font-medium">{option.label}</Label>
+              <p className="text-slate-500 text-sm">{option.description}</p>
+            </div>
+            <Switch
+              id={`notify-${option.key}`}
+              checked={preferences?.[option.key] ?? true}
+              disabled={updatePreference.isPending}
+              onCheckedChange={(checked) => updatePreference.mutate({ key: option.key, value: checked })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <Button
+        variant="outline"
+        onClick={() => testPush.mutate()}
+        disabled={!isSubscribed || testPush.isPending}
+        className="w-full sm:w-auto"
+      >
+        {isSubscribed ? <Send className="h-4 w-4 mr-2" /> : <BellOff className="h-4 w-4 mr-2" />}
+        Send Test Notification
+      </Button>
+      <p className="text-slate-500 text-xs flex items-center gap-1">
+        <Bell className="h-3 w-3" />
+        Preferences apply to all your devices.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,525 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { AlertCircle, CalendarClock, CheckCircle, Clock, Eye, FileText, Filter, Mail, MessageSquare, Pencil, RefreshCw, Send } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import { ReportSubscriptionsPanel } from "@/components/ReportSubscriptionsPanel";
+
+type DeliveryStatus = "pending" | "sent" | "failed";
+
+type NotificationDelivery = {
+  id: string;
+  event_type: string;
+  channel: string;
+  provider: string;
+  recipient: string;
+  recipient_name: string | null;
+  subject: string | null;
+  body: string;
+  status: DeliveryStatus;
+  attempts: number;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+};
+
+type NotificationTemplate = {
+  id: string;
+  event_type: string;
+  channel: string;
+  description: string | null;
+  subject: string;
+  heading: string | null;
+  body: string;
+  variables: string[];
+  is_active: boolean;
+  updated_at: string;
+};
+
+const formatEventType = (eventType: string) =>
+  eventType.split("_").map((word) => word.charAt(0).toUpperCase() + word.slice(1)).join(" ");
+
+const getStatusBadgeColor = (status: DeliveryStatus) => {
+  switch (status) {
+    case "sent": return "bg-green-50 text-green-700 border-green-200";
+    case "failed": return "bg-red-50 text-red-700 border-red-200";
+    default: return "bg-amber-50 text-amber-700 border-amber-200";
+  }
+};
+
+const getStatusIcon = (status: DeliveryStatus) => {
+  switch (status) {
+    case "sent": return <CheckCircle className="w-3.5 h-3.5 mr-1" />;
+    case "failed": return <AlertCircle className="w-3.5 h-3.5 mr-1" />;
+    default: return <Clock className="w-3.5 h-3.5 mr-1" />;
+  }
+};
+
+/**
+ * Delivery log of emails and SMS sent by the notification function, with resend for failures,
+ * the editor for the message templates and the weekly report subscriptions
+ */
+export function NotificationsManager() {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<DeliveryStatus | "all">("failed");
+  const [channelFilter, setChannelFilter] = useState<"all" | "email" | "sms">("all");
+  const [viewingDelivery, setViewingDelivery] = useState<NotificationDelivery | null>(null);
+  const [editingTemplate, setEditingTemplate] = useState<NotificationTemplate | null>(null);
+
+  const { data: deliveries, isLoading } = useQuery({
+    queryKey: ["notification-deliveries", statusFilter, channelFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("notification_deliveries")
+        .select("id, event_type, channel, provider, recipient, recipient_name, subject, body, status, attempts, last_error, sent_at, created_at")
+        .order("created_at", { ascending: false })
+        .limit(200);
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      }
+      if (channelFilter !== "all") {
+        query = query.eq("channel", channelFilter);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return data as NotificationDelivery[];
+    },
+  });
+
+  const { data: templates } = useQuery({
+    queryKey: ["notification-templates"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("notification_templates")
+        .select("id, event_type, channel, description, subject, heading, body, variables, is_active, updated_at")
+        .order("event_type")
+        .order("channel");
+      if (error) throw error;
+      return data as NotificationTemplate[];
+    },
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (deliveryIds: string[]) => {
+      const { data, error } = await supabase.functions.invoke("send-session-notification", {
+        body: { notificationType: "resend_deliveries", deliveryIds },
+      });
+      if (error) {
+        console.error("Resend notifications error:", error);
+        throw error;
+      }
+      if (!data?.success) throw new Error(data?.error || "Resend failed");
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["notification-deliveries"] });
+      toast.success(data?.message || "Notifications resent");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to resend notifications: " + error.message);
+    },
+  });
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (template: NotificationTemplate) => {
+      const { error } = await supabase
+        .from("notification_templates")
+        .update({
+          subject: template.subject,
+          heading: template.heading,
+          body: template.body,
+          is_active: template.is_active,
+        })
+        .eq("id", template.id);
+      if (error) {
+        console.error("Save template error:", error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notification-templates"] });
+      setEditingTemplate(null);
+      toast.success("Template saved");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to save template: " + error.message);
+    },
+  });
+
+  const toggleTemplateMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      const { error } = await supabase
+        .from("notification_templates")
+        .update({ is_active: isActive })
+        .eq("id", id);
+      if (error) {
+        console.error("Toggle template error:", error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["notification-templates"] });
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to update template: " + error.message);
+    },
+  });
+
+  const failedIds = deliveries?.filter((delivery) => delivery.status === "failed").map((delivery) => delivery.id) || [];
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-3 sm:p-4 md:p-6">
+        <div className="text-center py-8 sm:py-12 md:py-16">
+          <Mail className="w-12 sm:w-14 md:w-16 h-12 sm:h-14 md:h-16 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg sm:text-xl md:text-2xl font-bold text-black mb-3">Loading notifications...</h3>
+          <p className="text-xs sm:text-sm md:text-lg text-gray-600">Please wait while we fetch the delivery log.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background pt-4 p-2 sm:p-3 md:p-6 pb-24 md:pb-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="mb-6">
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#242833] mb-2 tracking-tight">Notifications</h1>
+          <p className="text-xs sm:text-sm md:text-base text-gray-700">Emails and text messages sent to coaches, players and admins</p>
+        </div>
+
+        <Tabs defaultValue="deliveries">
+          <TabsList className="mb-4">
+            <TabsTrigger value="deliveries" className="text-xs sm:text-sm">
+              <Send className="w-4 h-4 mr-1" />
+              Deliveries
+            </TabsTrigger>
+            <TabsTrigger value="templates" className="text-xs sm:text-sm">
+              <FileText className="w-4 h-4 mr-1" />
+              Templates
+            </TabsTrigger>
+            <TabsTrigger value="reports" className="text-xs sm:text-sm">
+              <CalendarClock className="w-4 h-4 mr-1" />
+              Weekly Reports
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="deliveries">
+            <Card className="border-2 border-[#242833] bg-white shadow-xl">
+              <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+                <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+                  <div>
+                    <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                      <Send className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                      Delivery Log
+                    </CardTitle>
+                    <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                      Each message is tried 3 times before it is marked failed
+                    </CardDescription>
+                  </div>
+                  <Button
+                    onClick={() => resendMutation.mutate(failedIds)}
+                    disabled={failedIds.length === 0 || resendMutation.isPending}
+                    className="bg-accent text-white hover:bg-accent/90 transition-all duration-300 min-w-fit text-xs sm:text-sm"
+                    style={{ backgroundColor: '#79e58f' }}
+                  >
+                    <RefreshCw className={`w-4 h-4 mr-2 ${resendMutation.isPending ? 'animate-spin' : ''}`} />
+                    Resend all failed ({failedIds.length})
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="p-2 sm:p-3 md:p-4">
+                <div className="mb-6">
+                  <div className="flex items-center mb-4">
+                    <Filter className="h-4 sm:h-5 w-4 sm:w-5 text-accent mr-2" style={{ color: '#79e58f' }} />
+                    <h3 className="text-base sm:text-lg font-semibold text-gray-900">Filter Deliveries</h3>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 max-w-lg">
+                    <Select value={statusFilter} onValueChange={(value: DeliveryStatus | "all") => setStatusFilter(value)}>
+                      <SelectTrigger className="border-2 border-accent rounded-lg text-xs sm:text-sm bg-white" style={{ borderColor: '#79e58f' }}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="failed">Failed</SelectItem>
+                        <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="sent">Sent</SelectItem>
+                        <SelectItem value="all">All statuses</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select value={channelFilter} onValueChange={(value: "all" | "email" | "sms") => setChannelFilter(value)}>
+                      <SelectTrigger className="border-2 border-accent rounded-lg text-xs sm:text-sm bg-white" style={{ borderColor: '#79e58f' }}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All channels</SelectItem>
+                        <SelectItem value="email">Email</SelectItem>
+                        <SelectItem value="sms">SMS</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <p className="text-xs sm:text-sm text-gray-600 mt-3">
+                    Showing {deliveries?.length || 0} deliver{deliveries?.length === 1 ? 'y' : 'ies'}
+                  </p>
+                </div>
+
+                {deliveries && deliveries.length > 0 ? (
+                  <div className="space-y-3">
+                    {deliveries.map((delivery) => (
+                      <div
+                        key={delivery.id}
+                        className={`flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 sm:p-4 rounded-lg border-2 ${
+                          delivery.status === 'failed' ? 'border-red-200 bg-red-50/40' : 'border-gray-200 bg-white'
+                        }`}
+                      >
+                        <div className="flex items-start gap-3 min-w-0">
+                          {delivery.channel === 'sms' ? (
+                            <MessageSquare className="w-5 h-5 text-gray-500 flex-shrink-0 mt-0.5" />
+                          ) : (
+                            <Mail className="w-5 h-5 text-gray-500 flex-shrink-0 mt-0.5" />
+                          )}
+                          <div className="min-w-0">
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span className="font-semibold text-sm text-gray-900 truncate">
+                                {delivery.recipient_name || delivery.recipient}
+                              </span>
+                              <Badge className={`text-xs border ${getStatusBadgeColor(delivery.status)}`}>
+                                {getStatusIcon(delivery.status)}
+                                <span className="capitalize">{delivery.status}</span>
+                              </Badge>
+                              <Badge variant="outline" className="text-xs">{formatEventType(delivery.event_type)}</Badge>
+                            </div>
+                            <p className="text-xs sm:text-sm text-gray-700 mt-1 truncate">
+                              {delivery.subject || delivery.body}
+                            </p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {delivery.recipient} · {delivery.provider} · {delivery.attempts} attempt{delivery.attempts === 1 ? '' : 's'} · {format(new Date(delivery.created_at), 'MMM dd, yyyy h:mm a')}
+                            </p>
+                            {delivery.last_error && (
+                              <p className="text-xs text-red-600 mt-1 break-words">{delivery.last_error}</p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex flex-row gap-2 flex-shrink-0">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setViewingDelivery(delivery)}
+                            className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs"
+                          >
+                            <Eye className="w-3.5 h-3.5 mr-1" />
+                            View
+                          </Button>
+                          {delivery.status !== 'sent' && (
+                            <Button
+                              size="sm"
+                              onClick={() => resendMutation.mutate([delivery.id])}
+                              disabled={resendMutation.isPending}
+                              className="bg-accent text-white hover:bg-accent/90 text-xs"
+                              style={{ backgroundColor: '#79e58f' }}
+                            >
+                              <RefreshCw className="w-3.5 h-3.5 mr-1" />
+                              Resend
+                            </Button>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-8 sm:py-12">
+                    <Send className="w-12 sm:w-14 h-12 sm:h-14 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-base sm:text-lg font-bold text-black mb-2">
+                      {statusFilter === 'failed' ? 'No failed deliveries' : 'No deliveries yet'}
+                    </h3>
+                    <p className="text-xs sm:text-sm text-gray-600">
+                      Notifications appear here as soon as they are sent.
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="templates">
+            <Card className="border-2 border-[#242833] bg-white shadow-xl">
+              <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+                <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                  <FileText className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                  Message Templates
+                </CardTitle>
+                <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                  Use {"{{variable}}"} placeholders. Switched off templates are not sent.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="p-2 sm:p-3 md:p-4">
+                <div className="space-y-3">
+                  {templates?.map((template) => (
+                    <div key={template.id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 p-3 sm:p-4 rounded-lg border-2 border-gray-200 bg-white">
+                      <div className="flex items-start gap-3 min-w-0">
+                        {template.channel === 'sms' ? (
+                          <MessageSquare className="w-5 h-5 text-gray-500 flex-shrink-0 mt-0.5" />
+                        ) : (
+                          <Mail className="w-5 h-5 text-gray-500 flex-shrink-0 mt-0.5" />
+                        )}
+                        <div className="min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-semibold text-sm text-gray-900">{formatEventType(template.event_type)}</span>
+                            <Badge variant="outline" className="text-xs uppercase">{template.channel}</Badge>
+                          </div>
+                          {template.description && <p className="text-xs sm:text-sm text-gray-700 mt-1">{template.description}</p>}
+                          <p className="text-xs text-gray-500 mt-1 truncate">{template.subject || template.body}</p>
+                        </div>
+                      </div>
+                      <div className="flex flex-row items-center gap-3 flex-shrink-0">
+                        <Switch
+                          checked={template.is_active}
+                          disabled={toggleTemplateMutation.isPending}
+                          onCheckedChange={(checked) => toggleTemplateMutation.mutate({ id: template.id, isActive: checked })}
+                        />
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setEditingTemplate(template)}
+                          className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs"
+                        >
+                          <Pencil className="w-3.5 h-3.5 mr-1" />
+                          Edit
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="reports">
+            <ReportSubscriptionsPanel />
+          </TabsContent>
+        </Tabs>
+      </div>
+
+      <Dialog open={!!viewingDelivery} onOpenChange={(open) => !open && setViewingDelivery(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{viewingDelivery?.subject || formatEventType(viewingDelivery?.event_type || '')}</DialogTitle>
+            <DialogDescription>
+              To {viewingDelivery?.recipient_name ? `${viewingDelivery.recipient_name} (${viewingDelivery.recipient})` : viewingDelivery?.recipient}
+              {viewingDelivery?.sent_at ? ` · sent ${format(new Date(viewingDelivery.sent_at), 'MMM dd, yyyy h:mm a')}` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {viewingDelivery?.channel === 'email' ? (
+            <iframe
+              title="Email preview"
+              srcDoc={viewingDelivery.body}
+              sandbox=""
+              className="w-full h-[60vh] border border-gray-200 rounded-lg bg-white"
+            />
+          ) : (
+            <p className="text-sm text-gray-800 whitespace-pre-wrap p-3 bg-gray-50 border border-gray-200 rounded-lg">
+              {viewingDelivery?.body}
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingTemplate} onOpenChange={(open) => !open && setEditingTemplate(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Edit {editingTemplate ? formatEventType(editingTemplate.event_type) : ''} ({editingTemplate?.channel.toUpperCase()})
+            </DialogTitle>
+            <DialogDescription>{editingTemplate?.description}</DialogDescription>
+          </DialogHeader>
+          {editingTemplate && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                saveTemplateMutation.mutate(editingTemplate);
+              }}
+              className="space-y-4"
+            >
+              {editingTemplate.channel === 'email' && (
+                <>
+                  <div className="space-y-1">
+                    <Label htmlFor="template-subject" className="text-xs sm:text-sm">Subject</Label>
+                    <Input
+                      id="template-subject"
+                      value={editingTemplate.subject}
+                      onChange={(e) => setEditingTemplate({ ...editingTemplate, subject: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="template-heading" className="text-xs sm:text-sm">Heading</Label>
+                    <Input
+                      id="template-heading"
+                      value={editingTemplate.heading || ''}
+                      onChange={(e) => setEditingTemplate({ ...editingTemplate, heading: e.target.value || null })}
+                      placeholder="Defaults to the subject"
+                    />
+                  </div>
+                </>
+              )}
+              <div className="space-y-1">
+                <Label htmlFor="template-body" className="text-xs sm:text-sm">
+                  {editingTemplate.channel === 'email' ? 'Body (HTML)' : 'Message'}
+                </Label>
+                <Textarea
+                  id="template-body"
+                  value={editingTemplate.body}
+                  onChange={(e) => setEditingTemplate({ ...editingTemplate, body: e.target.value })}
+                  rows={editingTemplate.channel === 'email' ? 12 : 4}
+                  className="font-mono text-xs"
+                  required
+                />
+                {editingTemplate.channel === 'sms' && (
+                  <p className="text-xs text-gray-500">Keep it short, long messages are split into several texts.</p>
+                )}
+              </div>
+              <div className="space-y-1">
+                <p className="text-xs sm:text-sm font-medium text-gray-700">Available variables</p>
+                <div className="flex flex-wrap gap-1.5">
+                  {editingTemplate.variables.map((variable) => (
+                    <Badge key={variable} variant="outline" className="font-mono text-xs">{`{{${variable}}}`}</Badge>
+                  ))}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="template-active"
+                  checked={editingTemplate.is_active}
+                  onCheckedChange={(checked) => setEditingTemplate({ ...editingTemplate, is_active: checked })}
+                />
+                <Label htmlFor="template-active" className="text-xs sm:text-sm">Send this template</Label>
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditingTemplate(null)} className="text-xs sm:text-sm">
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={saveTemplateMutation.isPending}
+                  className="bg-accent text-white hover:bg-accent/90 text-xs sm:text-sm"
+                  style={{ backgroundColor: '#79e58f' }}
+                >
+                  {saveTemplateMutation.isPending ? 'Saving...' : 'Save Template'}
+                </Button>
+              </div>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Package, Plus, Edit, Trash2, Filter, Search, ChevronLeft, ChevronRight } from "lucide-react";
+import { Package, Plus, Edit, Trash2, Filter, Search, ChevronLeft, ChevronRight, Users, DollarSign, Clock, MapPin } from "lucide-react";
 import {
   Card,
   CardHeader,
@@ -29,9 +29,39 @@ interface Package {
   name: string;
   description: string | null;
   is_active: boolean;
+  default_max_participants: number | null;
+  price: number | null;
+  sessions: number | null;
+  validity_days: number | null;
+  allowed_branch_ids: string[];
+  is_duration_based: boolean;
+  absent_consumes_session: boolean;
+  excused_consumes_session: boolean;
+  late_consumes_session: boolean;
+  version: number;
   created_at: string;
 }
 
+interface Branch {
+  id: string;
+  name: string;
+}
+
+// Form values are kept as strings so the number inputs can be cleared
+const toCatalogValues = (packageData: {
+  description: string;
+  default_max_participants: string;
+  price: string;
+  sessions: string;
+  validity_days: string;
+}) => ({
+  description: packageData.description || null,
+  default_max_participants: packageData.default_max_participants ? Number(packageData.default_max_participants) : null,
+  price: packageData.price ? Number(packageData.price) : null,
+  sessions: packageData.sessions ? Number(packageData.sessions) : null,
+  validity_days: packageData.validity_days ? Number(packageData.validity_days) : null,
+});
+
 export function PackagesManager() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingPackage, setEditingPackage] = useState<Package | null>(null);
@@ -42,6 +72,15 @@ export function PackagesManager() {
     name: "",
     description: "",
     is_active: true,
+    default_max_participants: "",
+    price: "",
+    sessions: "",
+    validity_days: "",
+    allowed_branch_ids: [] as string[],
+    is_duration_based: false,
+    absent_consumes_session: false,
+    excused_consumes_session: false,
+    late_consumes_session: true,
   });
 
   const queryClient = useQueryClient();
@@ -63,6 +102,16 @@ export function PackagesManager() {
         name: item.name,
         description: item.description || null,
         is_active: item.is_active ?? true,
+        default_max_participants: item.default_max_participants ?? null,
+        price: item.price ?? null,
+        sessions: item.sessions ?? null,
+        validity_days: item.validity_days ?? null,
+        allowed_branch_ids: item.allowed_branch_ids ?? [],
+        is_duration_based: item.is_duration_based ?? false,
+        absent_consumes_session: item.absent_consumes_session ?? false,
+        excused_consumes_session: item.excused_consumes_session ?? false,
+        late_consumes_session: item.late_consumes_session ?? true,
+        version: item.version ?? 1,
         created_at: item.created_at || new Date().toISOString(),
       })) as Package[];
     },
@@ -70,6 +119,18 @@ export function PackagesManager() {
     gcTime: 0,
   });
 
+  const { data: branches } = useQuery({
+    queryKey: ["branches"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("branches")
+        .select("*")
+        .order("name");
+      if (error) throw error;
+      return data as Branch[];
+    },
+  });
+
   const filteredPackages = packages?.filter((pkg) =>
     pkg.name.toLowerCase().includes(searchTerm.toLowerCase())
   ) || [];
@@ -89,7 +150,7 @@ export function PackagesManager() {
         .from("packages")
         .insert([{
           ...packageData,
-          description: packageData.description || null,
+          ...toCatalogValues(packageData),
         }])
         .select()
         .single();
@@ -101,6 +162,8 @@ export function PackagesManager() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["packages"] });
+      queryClient.invalidateQueries({ queryKey: ["packages-select"] });
+      queryClient.invalidateQueries({ queryKey: ["packages-catalog"] });
       toast.success("Package created successfully");
       resetForm();
     },
@@ -115,7 +178,7 @@ export function PackagesManager() {
         .from("packages")
         .update({
           ...packageData,
-          description: packageData.description || null,
+          ...toCatalogValues(packageData),
         })
         .eq("id", id)
         .select()
@@ -128,6 +191,8 @@ export function PackagesManager() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["packages"] });
+      queryClient.invalidateQueries({ queryKey: ["packages-select"] });
+      queryClient.invalidateQueries({ queryKey: ["packages-catalog"] });
       toast.success("Package updated successfully");
       resetForm();
     },
@@ -157,7 +222,20 @@ export function PackagesManager() {
   });
 
   const resetForm = () => {
-    setFormData({ name: "", description: "", is_active: true });
+    setFormData({
+      name: "",
+      description: "",
+      is_active: true,
+      default_max_participants: "",
+      price: "",
+      sessions: "",
+      validity_days: "",
+      allowed_branch_ids: [],
+      is_duration_based: false,
+      absent_consumes_session: false,
+      excused_consumes_session: false,
+      late_consumes_session: true,
+    });
     setEditingPackage(null);
     setIsDialogOpen(false);
   };
@@ -168,6 +246,22 @@ export function PackagesManager() {
       toast.error("Package name is required");
       return;
     }
+    if (formData.default_max_participants && Number(formData.default_max_participants) < 1) {
+      toast.error("Max players per session must be at least 1");
+      return;
+    }
+    if (formData.price && Number(formData.price) < 0) {
+      toast.error("Price cannot be negative");
+      return;
+    }
+    if (formData.sessions && Number(formData.sessions) <= 0) {
+      toast.error("Session count must be greater than 0");
+      return;
+    }
+    if (formData.validity_days && Number(formData.validity_days) < 1) {
+      toast.error("Validity must be at least 1 day");
+      return;
+    }
     if (editingPackage) {
       updateMutation.mutate({ ...formData, id: editingPackage.id });
     } else {
@@ -181,6 +275,15 @@ export function PackagesManager() {
       name: pkg.name,
       description: pkg.description || "",
       is_active: pkg.is_active,
+      default_max_participants: pkg.default_max_participants?.toString() || "",
+      price: pkg.price?.toString() || "",
+      sessions: pkg.sessions?.toString() || "",
+      validity_days: pkg.validity_days?.toString() || "",
+      allowed_branch_ids: pkg.allowed_branch_ids,
+      is_duration_based: pkg.is_duration_based,
+      absent_consumes_session: pkg.absent_consumes_session,
+      excused_consumes_session: pkg.excused_consumes_session,
+      late_consumes_session: pkg.late_consumes_session,
     });
     setIsDialogOpen(true);
   };
@@ -300,6 +403,135 @@ export function PackagesManager() {
                         style={{ borderColor: "#79e58f" }}
                       />
                     </div>
+                    <div className="min-w-0">
+                      <Label htmlFor="default_max_participants" className="text-gray-700 font-medium text-xs sm:text-sm">
+                        Max Players per Session
+                      </Label>
+                      <Input
+                        id="default_max_participants"
+                        type="number"
+                        min={1}
+                        value={formData.default_max_participants}
+                        onChange={(e) => setFormData((prev) => ({ ...prev, default_max_participants: e.target.value }))}
+                        placeholder="No limit"
+                        className="mt-1 pl-4 pr-4 py-1.5 sm:py-2 border-2 border-accent rounded-lg text-xs sm:text-sm focus:border-accent focus:ring-accent/20 bg-white"
+                        style={{ borderColor: "#79e58f" }}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">Default capacity for new sessions of this package</p>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                      <div className="min-w-0">
+                        <Label htmlFor="price" className="text-gray-700 font-medium text-xs sm:text-sm">
+                          Price
+                        </Label>
+                        <Input
+                          id="price"
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          value={formData.price}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, price: e.target.value }))}
+                          placeholder="0.00"
+                          className="mt-1 pl-4 pr-4 py-1.5 sm:py-2 border-2 border-accent rounded-lg text-xs sm:text-sm focus:border-accent focus:ring-accent/20 bg-white"
+                          style={{ borderColor: "#79e58f" }}
+                        />
+                      </div>
+                      <div className="min-w-0">
+                        <Label htmlFor="sessions" className="text-gray-700 font-medium text-xs sm:text-sm">
+                          Sessions
+                        </Label>
+                        <Input
+                          id="sessions"
+                          type="number"
+                          min={1}
+                          value={formData.sessions}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, sessions: e.target.value }))}
+                          placeholder="8"
+                          className="mt-1 pl-4 pr-4 py-1.5 sm:py-2 border-2 border-accent rounded-lg text-xs sm:text-sm focus:border-accent focus:ring-accent/20 bg-white"
+                          style={{ borderColor: "#79e58f" }}
+                        />
+                      </div>
+                      <div className="min-w-0">
+                        <Label htmlFor="validity_days" className="text-gray-700 font-medium text-xs sm:text-sm">
+                          Valid for (days)
+                        </Label>
+                        <Input
+                          id="validity_days"
+                          type="number"
+                          min={1}
+                          value={formData.validity_days}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, validity_days: e.target.value }))}
+                          placeholder="30"
+                          className="mt-1 pl-4 pr-4 py-1.5 sm:py-2 border-2 border-accent rounded-lg text-xs sm:text-sm focus:border-accent focus:ring-accent/20 bg-white"
+                          style={{ borderColor: "#79e58f" }}
+                        />
+                      </div>
+                    </div>
+                    <div className="min-w-0">
+                      <Label className="text-gray-700 font-medium text-xs sm:text-sm">
+                        Available at Branches
+                      </Label>
+                      <div className="mt-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {branches?.map((branch) => (
+                          <label key={branch.id} className="flex items-center gap-2 text-xs sm:text-sm cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={formData.allowed_branch_ids.includes(branch.id)}
+                              onChange={(e) =>
+                                setFormData((prev) => ({
+                                  ...prev,
+                                  allowed_branch_ids: e.target.checked
+                                    ? [...prev.allowed_branch_ids, branch.id]
+                                    : prev.allowed_branch_ids.filter((id) => id !== branch.id),
+                                }))
+                              }
+                              className="h-4 w-4 text-accent focus:ring-accent border-gray-300 rounded"
+                              style={{ accentColor: "#79e58f" }}
+                            />
+                            {branch.name}
+                          </label>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Leave all unchecked to offer the package at every branch</p>
+                    </div>
+                    <div className="min-w-0">
+                      <label className="flex items-center gap-2 text-gray-700 font-medium text-xs sm:text-sm cursor-pointer">
+                        <input
+                          type="checkbox"
+                          id="is_duration_based"
+                          checked={formData.is_duration_based}
+                          onChange={(e) => setFormData((prev) => ({ ...prev, is_duration_based: e.target.checked }))}
+                          className="h-4 w-4 text-accent focus:ring-accent border-gray-300 rounded"
+                          style={{ accentColor: "#79e58f" }}
+                        />
+                        Bill by session duration
+                      </label>
+                      <p className="text-xs text-gray-500 mt-1">Each hour of attendance counts as one session (Personal Training)</p>
+                    </div>
+                    <div className="min-w-0">
+                      <Label className="text-gray-700 font-medium text-xs sm:text-sm">
+                        Uses a Session When Marked
+                      </Label>
+                      <div className="mt-1 flex flex-wrap gap-x-4 gap-y-2">
+                        {([
+                          ["late_consumes_session", "Late"],
+                          ["absent_consumes_session", "Absent"],
+                          ["excused_consumes_session", "Excused"],
+                        ] as const).map(([field, label]) => (
+                          <label key={field} className="flex items-center gap-2 text-xs sm:text-sm text-gray-700 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={formData[field]}
+                              onChange={(e) => setFormData((prev) => ({ ...prev, [field]: e.target.checked }))}
+                              className="h-4 w-4 text-accent focus:ring-accent border-gray-300 rounded"
+                              style={{ accentColor: "#79e58f" }}
+                            />
+                            {label}
+                          </label>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">Present always uses a session. Unchecked statuses leave the player's remaining sessions untouched</p>
+                    </div>
                     <div className="min-w-0">
                       <Label htmlFor="is_active" className="text-gray-700 font-medium text-xs sm:text-sm">
                         Active
@@ -391,6 +623,49 @@ export function PackagesManager() {
                         <span className="font-medium">Status:</span> {pkg.is_active ? "Active" : "Inactive"}
                       </span>
                     </div>
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <Users className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      <span className="text-xs sm:text-sm truncate">
+                        <span className="font-medium">Max Players:</span> {pkg.default_max_participants ?? "No limit"}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <DollarSign className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      <span className="text-xs sm:text-sm truncate">
+                        <span className="font-medium">Price:</span> {pkg.price != null ? `₱${pkg.price.toLocaleString()}` : "N/A"}
+                        {" • "}
+                        <span className="font-medium">Sessions:</span> {pkg.sessions ?? "N/A"}
+                        {pkg.is_duration_based && " (hourly)"}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <Clock className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      <span className="text-xs sm:text-sm truncate">
+                        <span className="font-medium">Validity:</span> {pkg.validity_days ? `${pkg.validity_days} days` : "N/A"}
+                        {" • "}
+                        <span className="font-medium">Version:</span> {pkg.version}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <Package className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      <span className="text-xs sm:text-sm truncate">
+                        <span className="font-medium">Charged When:</span>{" "}
+                        {["Present",
+                          pkg.late_consumes_session && "Late",
+                          pkg.absent_consumes_session && "Absent",
+                          pkg.excused_consumes_session && "Excused",
+                        ].filter(Boolean).join(", ")}
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <MapPin className="w-4 h-4 text-gray-500 flex-shrink-0" />
+                      <span className="text-xs sm:text-sm truncate">
+                        <span className="font-medium">Branches:</span>{" "}
+                        {pkg.allowed_branch_ids.length === 0
+                          ? "All"
+                          : pkg.allowed_branch_ids.map((id) => branches?.find((b) => b.id === id)?.name).filter(Boolean).join(", ")}
+                      </span>
+                    </div>
                     <div className="flex items-center space-x-2 min-w-0">
                       <Package className="w-4 h-4 text-gray-500 flex-shrink-0" />
                       <span className="text-xs sm:text-sm truncate">
@@ -3,7 +3,9 @@ import { Printer, X, Download, FileText, Image as ImageIcon } from "lucide-react
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { useState, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { toast } from "sonner";
+import { fetchStudentBalanceLedger, getLedgerEntry } from "@/utils/balanceLedger";
 
 interface Student {
   id: string;
@@ -22,8 +24,15 @@ interface Payment {
   payment_date: string;
   notes: string | null;
   isDownpayment?: boolean;
+  isRefund?: boolean;
+  reason?: string | null;
+  voided_at?: string | null;
+  void_reason?: string | null;
 }
 
+const formatAmount = (amount: number) =>
+  amount < 0 ? `-₱${Math.abs(amount).toFixed(2)}` : `₱${amount.toFixed(2)}`;
+
 interface PaymentReceiptProps {
   student: Student;
   payment: Payment | null;
@@ -36,6 +45,13 @@ export function PaymentReceipt({ student, payment, allPayments: providedPayments
   const receiptRef = useRef<HTMLDivElement>(null);
   const [isExporting, setIsExporting] = useState(false);
 
+  const { data: balanceLedger } = useQuery({
+    queryKey: ["student-balance-ledger", student.id],
+    queryFn: () => fetchStudentBalanceLedger(student.id),
+    enabled: isOpen,
+  });
+  const currentLedgerEntry = getLedgerEntry(balanceLedger, 'current');
+
   const handlePrint = () => {
     window.print();
   };
@@ -157,12 +173,14 @@ export function PaymentReceipt({ student, payment, allPayments: providedPayments
     allPayments.push(payment);
   }
 
-  // Calculate totals
-  const totalPaid = isFullHistory 
-    ? allPayments.reduce((sum, p) => sum + p.payment_amount, 0)
-    : allPayments.reduce((sum, p) => sum + p.payment_amount, 0);
-  const totalFee = student.total_training_fee || 0;
-  const remainingBalance = student.remaining_balance || 0;
+  // Calculate totals, voided entries stay on the receipt but no longer count
+  const totalPaid = allPayments
+    .filter(p => !p.voided_at)
+    .reduce((sum, p) => sum + p.payment_amount, 0);
+  // Fall back to the stored figures until the ledger has loaded
+  const totalFee = currentLedgerEntry?.total_training_fee ?? student.total_training_fee ?? 0;
+  const remainingBalance = currentLedgerEntry?.remaining_balance ?? student.remaining_balance ?? 0;
+  const unpaidCharges = currentLedgerEntry?.charges_owed ?? 0;
 
   return (
     <>
@@ -208,6 +226,7 @@ export function PaymentReceipt({ student, payment, allPayments: providedPayments
               totalPaid={totalPaid}
               totalFee={totalFee}
               remainingBalance={remainingBalance}
+              unpaidCharges={unpaidCharges}
               isFullHistory={isFullHistory}
             />
           </div>
@@ -222,6 +241,7 @@ export function PaymentReceipt({ student, payment, allPayments: providedPayments
           totalPaid={totalPaid}
           totalFee={totalFee}
           remainingBalance={remainingBalance}
+          unpaidCharges={unpaidCharges}
           isFullHistory={isFullHistory}
         />
       </div>
@@ -235,6 +255,7 @@ function ReceiptContent({
   totalPaid,
   totalFee,
   remainingBalance,
+  unpaidCharges,
   isFullHistory,
 }: {
   student: Student;
@@ -242,6 +263,7 @@ function ReceiptContent({
   totalPaid: number;
   totalFee: number;
   remainingBalance: number;
+  unpaidCharges: number;
   isFullHistory: boolean;
 }) {
   const currentDate = format(new Date(), "MMMM dd, yyyy 'at' hh:mm a");
@@ -347,20 +369,29 @@ function ReceiptContent({
                   key={payment.id}
                   className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}
                 >
-                  <td className="py-3 px-4 text-sm">
+                  <td className={`py-3 px-4 text-sm ${payment.voided_at ? 'line-through text-gray-400' : ''}`}>
                     {format(new Date(payment.payment_date), "MMM dd, yyyy")}
                   </td>
                   <td className="py-3 px-4 text-sm">
-                    {payment.isDownpayment ? (
-                      <span className="font-medium" style={{ color: '#79e58f' }}>
-                        Initial Downpayment
+                    <span className={payment.voided_at ? 'line-through text-gray-400' : ''}>
+                      {payment.isDownpayment ? (
+                        <span className="font-medium" style={{ color: '#79e58f' }}>
+                          Initial Downpayment
+                        </span>
+                      ) : payment.isRefund ? (
+                        `Refund${payment.reason ? ` - ${payment.reason}` : ''}`
+                      ) : (
+                        payment.notes || "Payment"
+                      )}
+                    </span>
+                    {payment.voided_at && (
+                      <span className="block text-xs font-semibold text-red-600">
+                        VOIDED {format(new Date(payment.voided_at), "MMM dd, yyyy")}{payment.void_reason ? ` - ${payment.void_reason}` : ''}
                       </span>
-                    ) : (
-                      payment.notes || "Payment"
                     )}
                   </td>
-                  <td className="py-3 px-4 text-sm text-right font-semibold">
-                    ₱{payment.payment_amount.toFixed(2)}
+                  <td className={`py-3 px-4 text-sm text-right font-semibold ${payment.voided_at ? 'line-through text-gray-400' : ''}`}>
+                    {formatAmount(payment.payment_amount)}
                   </td>
                 </tr>
               ))}
@@ -389,12 +420,12 @@ function ReceiptContent({
                 </span>
               </div>
               {payments.filter(p => !p.isDownpayment).map((payment, index) => (
-                <div key={payment.id} className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">
-                    Less: Payment {index + 1} ({format(new Date(payment.payment_date), "MMM dd, yyyy")})
+                <div key={payment.id} className={`flex justify-between items-center ${payment.voided_at ? 'line-through text-gray-400' : ''}`}>
+                  <span className={`text-sm ${payment.voided_at ? '' : 'text-gray-600'}`}>
+                    {payment.isRefund ? 'Add: Refund' : `Less: Payment ${index + 1}`} ({format(new Date(payment.payment_date), "MMM dd, yyyy")}){payment.voided_at && ' (voided)'}
                   </span>
-                  <span className="text-sm font-medium" style={{ color: '#79e58f' }}>
-                    - ₱{payment.payment_amount.toFixed(2)}
+                  <span className="text-sm font-medium" style={payment.voided_at ? undefined : { color: payment.isRefund ? '#dc2626' : '#79e58f' }}>
+                    {payment.isRefund ? '+' : '-'} ₱{Math.abs(payment.payment_amount).toFixed(2)}
                   </span>
                 </div>
               ))}
@@ -407,6 +438,13 @@ function ReceiptContent({
               </span>
             </div>
             
+            {unpaidCharges > 0 && (
+              <div className="flex justify-between items-center py-2">
+                <span className="text-sm text-gray-600">Add: Unpaid Extra Charges</span>
+                <span className="text-sm font-medium">+ ₱{unpaidCharges.toFixed(2)}</span>
+              </div>
+            )}
+            
             <div className="flex justify-between items-center py-3 border-t-2 mt-2" style={{ borderColor: '#242833' }}>
               <span className="font-bold text-xl">Remaining Balance:</span>
               <span className="font-bold text-xl" style={{ color: '#242833' }}>
@@ -415,7 +453,7 @@ function ReceiptContent({
             </div>
             
             <div className="mt-3 pt-3 border-t text-xs text-gray-500 italic">
-              Calculation: ₱{totalFee.toFixed(2)} (Total Fee) - ₱{totalPaid.toFixed(2)} (Total Paid) = ₱{remainingBalance.toFixed(2)} (Remaining)
+              Calculation: ₱{totalFee.toFixed(2)} (Total Fee) - ₱{totalPaid.toFixed(2)} (Total Paid){unpaidCharges > 0 && ` + ₱${unpaidCharges.toFixed(2)} (Unpaid Charges)`} = ₱{remainingBalance.toFixed(2)} (Remaining)
             </div>
           </div>
         </div>
@@ -431,11 +469,22 @@ function ReceiptContent({
               <span className="font-bold text-base">₱{totalFee.toFixed(2)}</span>
             </div>
             <div className="flex justify-between items-center py-2 border-t" style={{ borderColor: '#79e58f' }}>
-              <span className="font-semibold text-base">This Payment:</span>
-              <span className="font-bold text-base" style={{ color: '#79e58f' }}>
-                ₱{totalPaid.toFixed(2)}
-              </span>
+              <span className="font-semibold text-base">{payments[0]?.isRefund ? 'This Refund:' : 'This Payment:'}</span>
+              {payments[0]?.voided_at ? (
+                <span className="font-bold text-base line-through text-gray-400">
+                  {formatAmount(payments[0].payment_amount)}
+                </span>
+              ) : (
+                <span className="font-bold text-base" style={{ color: '#79e58f' }}>
+                  {formatAmount(totalPaid)}
+                </span>
+              )}
             </div>
+            {payments[0]?.voided_at && (
+              <div className="py-2 text-sm font-semibold text-red-600">
+                Voided on {format(new Date(payments[0].voided_at), "MMM dd, yyyy")}{payments[0].void_reason ? ` - ${payments[0].void_reason}` : ''}
+              </div>
+            )}
             <div className="flex justify-between items-center py-3 border-t-2 mt-2" style={{ borderColor: '#242833' }}>
               <span className="font-bold text-lg">Remaining Balance:</span>
               <span className="font-bold text-lg" style={{ color: '#242833' }}>
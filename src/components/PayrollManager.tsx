@@ -0,0 +1,945 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, endOfMonth, startOfMonth } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Banknote, Calculator, Edit, Lock, Plus, Trash2, AlertCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { ReportDefinition } from "@/utils/exportUtils";
+import { ReportExportMenu } from "@/components/ReportExportMenu";
+import {
+  formatCoachRate,
+  summarizePayroll,
+  type CoachPayrollSummary,
+  type CoachRate,
+  type CoachRateType,
+  type PayrollAdjustment,
+  type PayrollAdjustmentKind,
+  type PayrollLine,
+  type PayrollPeriod,
+} from "@/utils/payroll";
+import { toast } from "sonner";
+
+interface Coach {
+  id: string;
+  name: string;
+  auth_id: string | null;
+  role: string;
+}
+
+interface Package {
+  id: string;
+  name: string;
+  is_active: boolean | null;
+}
+
+const ALL_PACKAGES = "__all__";
+
+const formatPeriod = (period: Pick<PayrollPeriod, 'start_date' | 'end_date'>) =>
+  `${format(new Date(period.start_date + 'T00:00:00'), "MMM d")} - ${format(new Date(period.end_date + 'T00:00:00'), "MMM d, yyyy")}`;
+
+// Default new period: first or second half of the current month
+const getDefaultPeriodDates = () => {
+  const today = new Date();
+  const half = new Date(today.getFullYear(), today.getMonth(), 15);
+  return today <= half
+    ? { start_date: format(startOfMonth(today), 'yyyy-MM-dd'), end_date: format(half, 'yyyy-MM-dd') }
+    : { start_date: format(new Date(today.getFullYear(), today.getMonth(), 16), 'yyyy-MM-dd'), end_date: format(endOfMonth(today), 'yyyy-MM-dd') };
+};
+
+export function PayrollManager() {
+  const queryClient = useQueryClient();
+
+  const [selectedPeriodId, setSelectedPeriodId] = useState<string>("");
+  const [isPeriodDialogOpen, setIsPeriodDialogOpen] = useState(false);
+  const [periodFormData, setPeriodFormData] = useState(getDefaultPeriodDates);
+  const [isApproveOpen, setIsApproveOpen] = useState(false);
+  const [adjustmentCoachId, setAdjustmentCoachId] = useState<string | null>(null);
+  const [adjustmentFormData, setAdjustmentFormData] = useState({
+    kind: "adjustment" as PayrollAdjustmentKind,
+    amount: 0,
+    description: "",
+  });
+  const [isRateDialogOpen, setIsRateDialogOpen] = useState(false);
+  const [editingRate, setEditingRate] = useState<CoachRate | null>(null);
+  const [rateFormData, setRateFormData] = useState({
+    coach_id: "",
+    package_type: ALL_PACKAGES,
+    rate_type: "per_session" as CoachRateType,
+    amount: 0,
+    absence_deduction: 0,
+  });
+
+  const { data: coaches } = useQuery({
+    queryKey: ["coaches-select"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("coaches")
+        .select("id, name, auth_id, role")
+        .order("name");
+      if (error) throw error;
+      return (data || []) as Coach[];
+    },
+  });
+
+  const { data: packages } = useQuery({
+    queryKey: ["packages-select"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("packages")
+        .select("id, name, is_active")
+        .eq("is_active", true)
+        .order("name");
+      if (error) throw error;
+      return (data || []) as Package[];
+    },
+  });
+
+  const { data: periods, isLoading: periodsLoading } = useQuery({
+    queryKey: ["payroll-periods"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payroll_periods")
+        .select("*")
+        .order("start_date", { ascending: false });
+      if (error) throw error;
+      return data as PayrollPeriod[];
+    },
+  });
+
+  const { data: rates, isLoading: ratesLoading } = useQuery({
+    queryKey: ["coach-rates"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("coach_rates")
+        .select("*")
+        .order("package_type", { ascending: true, nullsFirst: true });
+      if (error) throw error;
+      return data as CoachRate[];
+    },
+  });
+
+  const { data: lines } = useQuery({
+    queryKey: ["payroll-lines", selectedPeriodId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payroll_lines")
+        .select("*")
+        .eq("period_id", selectedPeriodId)
+        .order("session_date", { ascending: true });
+      if (error) throw error;
+      return data as PayrollLine[];
+    },
+    enabled: !!selectedPeriodId,
+  });
+
+  const { data: adjustments } = useQuery({
+    queryKey: ["payroll-adjustments", selectedPeriodId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("payroll_adjustments")
+        .select("*")
+        .eq("period_id", selectedPeriodId)
+        .order("created_at", { ascending: true });
+      if (error) throw error;
+      return data as PayrollAdjustment[];
+    },
+    enabled: !!selectedPeriodId,
+  });
+
+  // Open the latest period by default
+  useEffect(() => {
+    if (!selectedPeriodId && periods && periods.length > 0) {
+      setSelectedPeriodId(periods[0].id);
+    }
+  }, [periods, selectedPeriodId]);
+
+  const selectedPeriod = periods?.find((period) => period.id === selectedPeriodId);
+  const isLocked = selectedPeriod?.status === 'approved';
+  const summaries = summarizePayroll(lines || [], adjustments || []);
+  const periodTotal = summaries.reduce((sum, summary) => sum + summary.net, 0);
+  const pendingCount = summaries.reduce((sum, summary) => sum + summary.pending, 0);
+  const getCoachName = (coachId: string) => coaches?.find((coach) => coach.id === coachId)?.name || 'Unknown coach';
+
+  const invalidatePeriod = () => {
+    queryClient.invalidateQueries({ queryKey: ["payroll-periods"] });
+    queryClient.invalidateQueries({ queryKey: ["payroll-lines", selectedPeriodId] });
+    queryClient.invalidateQueries({ queryKey: ["payroll-adjustments", selectedPeriodId] });
+  };
+
+  const createPeriodMutation = useMutation({
+    mutationFn: async (period: typeof periodFormData) => {
+      const { data, error } = await supabase
+        .from("payroll_periods")
+        .insert([{ start_date: period.start_date, end_date: period.end_date }])
+        .select()
+        .single();
+      if (error) {
+        console.error('Create payroll period error:', error);
+        throw error;
+      }
+      return data as PayrollPeriod;
+    },
+    onSuccess: (period) => {
+      queryClient.invalidateQueries({ queryKey: ["payroll-periods"] });
+      setSelectedPeriodId(period.id);
+      setIsPeriodDialogOpen(false);
+      toast.success("Payroll period created");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to create payroll period: ' + error.message);
+    },
+  });
+
+  const calculateMutation = useMutation({
+    mutationFn: async (periodId: string) => {
+      const { data, error } = await supabase.rpc("calculate_payroll_period", { p_period_id: periodId });
+      if (error) {
+        console.error('Calculate payroll error:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (count) => {
+      invalidatePeriod();
+      toast.success(`Payroll calculated from ${count} coach session${count === 1 ? '' : 's'}`);
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to calculate payroll: ' + error.message);
+    },
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (periodId: string) => {
+      const { error } = await supabase.rpc("approve_payroll_period", { p_period_id: periodId });
+      if (error) {
+        console.error('Approve payroll error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      invalidatePeriod();
+      setIsApproveOpen(false);
+      toast.success("Payroll approved and locked");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to approve payroll: ' + error.message);
+    },
+  });
+
+  const addAdjustmentMutation = useMutation({
+    mutationFn: async (adjustment: typeof adjustmentFormData & { coach_id: string }) => {
+      const { error } = await supabase
+        .from("payroll_adjustments")
+        .insert([{
+          period_id: selectedPeriodId,
+          coach_id: adjustment.coach_id,
+          kind: adjustment.kind,
+          amount: adjustment.amount,
+          description: adjustment.description.trim(),
+        }]);
+      if (error) {
+        console.error('Add payroll adjustment error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payroll-adjustments", selectedPeriodId] });
+      setAdjustmentCoachId(null);
+      toast.success("Adjustment added");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to add adjustment: ' + error.message);
+    },
+  });
+
+  const deleteAdjustmentMutation = useMutation({
+    mutationFn: async (adjustmentId: string) => {
+      const { error } = await supabase
+        .from("payroll_adjustments")
+        .delete()
+        .eq("id", adjustmentId);
+      if (error) {
+        console.error('Delete payroll adjustment error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["payroll-adjustments", selectedPeriodId] });
+      toast.success("Adjustment removed");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to remove adjustment: ' + error.message);
+    },
+  });
+
+  const saveRateMutation = useMutation({
+    mutationFn: async (rate: typeof rateFormData & { id?: string }) => {
+      const values = {
+        coach_id: rate.coach_id,
+        package_type: rate.package_type === ALL_PACKAGES ? null : rate.package_type,
+        rate_type: rate.rate_type,
+        amount: rate.amount,
+        absence_deduction: rate.absence_deduction,
+      };
+      const { error } = rate.id
+        ? await supabase.from("coach_rates").update(values).eq("id", rate.id)
+        : await supabase.from("coach_rates").insert([values]);
+      if (error) {
+        console.error('Save coach rate error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["coach-rates"] });
+      setIsRateDialogOpen(false);
+      toast.success("Rate saved");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to save rate: ' + error.message);
+    },
+  });
+
+  const deleteRateMutation = useMutation({
+    mutationFn: async (rateId: string) => {
+      const { error } = await supabase
+        .from("coach_rates")
+        .delete()
+        .eq("id", rateId);
+      if (error) {
+        console.error('Delete coach rate error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["coach-rates"] });
+      toast.success("Rate removed");
+    },
+    onError: (error: Error) => {
+      toast.error('Failed to remove rate: ' + error.message);
+    },
+  });
+
+  const openRateDialog = (rate: CoachRate | null) => {
+    setEditingRate(rate);
+    setRateFormData(rate ? {
+      coach_id: rate.coach_id,
+      package_type: rate.package_type ?? ALL_PACKAGES,
+      rate_type: rate.rate_type as CoachRateType,
+      amount: Number(rate.amount),
+      absence_deduction: Number(rate.absence_deduction),
+    } : {
+      coach_id: "",
+      package_type: ALL_PACKAGES,
+      rate_type: "per_session",
+      amount: 0,
+      absence_deduction: 0,
+    });
+    setIsRateDialogOpen(true);
+  };
+
+  const buildPayslipReport = (summary: CoachPayrollSummary): ReportDefinition<PayrollLine> => {
+    if (!selectedPeriod) throw new Error('Select a pay period first');
+    const coachName = getCoachName(summary.coach_id);
+    const coachAdjustments = (adjustments || []).filter((adjustment) => adjustment.coach_id === summary.coach_id);
+    const totals: Array<[string, string]> = [
+      [`Sessions paid: ${summary.sessions} (${summary.hours.toFixed(2)} hrs)`, `₱${summary.gross.toFixed(2)}`],
+      [`Absences: ${summary.absences}`, `-₱${summary.absence_deductions.toFixed(2)}`],
+      ...coachAdjustments.map((adjustment): [string, string] => [
+        `${adjustment.kind === 'deduction' ? 'Deduction' : 'Adjustment'}: ${adjustment.description}`,
+        `${adjustment.kind === 'deduction' ? '-' : '+'}₱${Number(adjustment.amount).toFixed(2)}`,
+      ]),
+      ['Net Pay', `₱${summary.net.toFixed(2)}`],
+    ];
+
+    return {
+      title: 'Coach Payslip',
+      subtitle: `${coachName} - ${formatPeriod(selectedPeriod)}${isLocked ? '' : ' (DRAFT)'}`,
+      filename: `payslip_${coachName.replace(/\s+/g, '_').toLowerCase()}_${selectedPeriod.start_date}`,
+      sheetName: 'Payslip',
+      headerStyle: 'dark',
+      rows: (lines || []).filter((line) => line.coach_id === summary.coach_id),
+      rowHighlight: (line) => line.status === 'absent' ? 'danger' : null,
+      columns: [
+        { header: 'Date', value: (line) => line.session_date, type: 'date' },
+        { header: 'Package', value: (line) => line.package_type || '—' },
+        { header: 'Status', value: (line) => line.status.charAt(0).toUpperCase() + line.status.slice(1) },
+        { header: 'Time In', value: (line) => line.time_in ? format(new Date(line.time_in), "h:mm a") : '—' },
+        { header: 'Time Out', value: (line) => line.time_out ? format(new Date(line.time_out), "h:mm a") : '—' },
+        { header: 'Hours', value: (line) => Number(line.hours), type: 'number', total: 'sum' },
+        { header: 'Rate', value: (line) => line.rate_type ? formatCoachRate({ rate_type: line.rate_type, amount: line.rate }) : 'No rate' },
+        {
+          header: 'Amount',
+          value: (line) => Number(line.amount),
+          type: 'currency',
+          bold: true,
+          total: 'sum',
+          highlight: (line) => Number(line.amount) < 0 ? 'danger' : null,
+        },
+      ],
+      grandTotal: true,
+      summary: totals,
+    };
+  };
+
+  return (
+    <div className="min-h-screen bg-background pt-4 p-2 sm:p-3 md:p-6 pb-24 md:pb-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="mb-6">
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#242833] mb-2 tracking-tight">Payroll</h1>
+          <p className="text-xs sm:text-sm md:text-base text-gray-700">Coach pay from logged session times, attendance and rate cards</p>
+        </div>
+
+        <Tabs defaultValue="periods" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="periods">Pay Periods</TabsTrigger>
+            <TabsTrigger value="rates">Rate Cards</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="periods" className="space-y-4">
+            <Card className="border-2 border-[#242833] bg-white shadow-xl">
+              <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+                <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+                  <div>
+                    <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                      <Banknote className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                      Pay Period
+                    </CardTitle>
+                    <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                      {selectedPeriod
+                        ? `${selectedPeriod.status === 'approved' ? 'Approved' : 'Draft'}${selectedPeriod.calculated_at ? ` · calculated ${format(new Date(selectedPeriod.calculated_at), "MMM d, h:mm a")}` : ' · not calculated yet'}`
+                        : 'Create a pay period to start'}
+                    </CardDescription>
+                  </div>
+                  <div className="flex flex-row flex-wrap gap-2">
+                    <Select value={selectedPeriodId} onValueChange={setSelectedPeriodId}>
+                      <SelectTrigger className="w-[220px] bg-white text-xs sm:text-sm">
+                        <SelectValue placeholder="Select period" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {periods?.map((period) => (
+                          <SelectItem key={period.id} value={period.id}>
+                            {formatPeriod(period)}{period.status === 'approved' ? ' (approved)' : ''}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="outline"
+                      onClick={() => {
+                        setPeriodFormData(getDefaultPeriodDates());
+                        setIsPeriodDialogOpen(true);
+                      }}
+                      className="border-2 border-[#79e58f] bg-transparent text-white hover:bg-white/10 hover:text-white min-w-fit text-xs sm:text-sm"
+                    >
+                      <Plus className="w-4 h-4 mr-2" />
+                      New Period
+                    </Button>
+                    {selectedPeriod && !isLocked && (
+                      <>
+                        <Button
+                          variant="outline"
+                          onClick={() => calculateMutation.mutate(selectedPeriod.id)}
+                          disabled={calculateMutation.isPending}
+                          className="border-2 border-[#79e58f] bg-transparent text-white hover:bg-white/10 hover:text-white min-w-fit text-xs sm:text-sm"
+                        >
+                          <Calculator className="w-4 h-4 mr-2" />
+                          {calculateMutation.isPending ? "Calculating..." : "Calculate"}
+                        </Button>
+                        <Button
+                          onClick={() => setIsApproveOpen(true)}
+                          disabled={!selectedPeriod.calculated_at}
+                          className="bg-accent text-white hover:bg-accent/90 min-w-fit text-xs sm:text-sm"
+                          style={{ backgroundColor: '#79e58f' }}
+                        >
+                          <Lock className="w-4 h-4 mr-2" />
+                          Approve
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                {periodsLoading ? (
+                  <div className="text-center py-12">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent mx-auto mb-4" style={{ borderColor: '#79e58f' }}></div>
+                    <p className="text-gray-600 text-xs sm:text-sm">Loading payroll...</p>
+                  </div>
+                ) : !selectedPeriod ? (
+                  <div className="text-center py-12">
+                    <Banknote className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-base sm:text-lg font-bold text-black mb-2">No pay periods yet</h3>
+                    <p className="text-xs sm:text-sm text-gray-600">Create a pay period, then calculate it from the coaches' session times.</p>
+                  </div>
+                ) : summaries.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Calculator className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-base sm:text-lg font-bold text-black mb-2">Nothing calculated</h3>
+                    <p className="text-xs sm:text-sm text-gray-600">
+                      {isLocked ? 'This period was approved without coach sessions.' : 'Calculate the period to pull in coach sessions for these dates.'}
+                    </p>
+                  </div>
+                ) : (
+                  <>
+                    {pendingCount > 0 && !isLocked && (
+                      <div className="flex items-center gap-2 m-3 p-3 rounded-md bg-amber-50 border border-amber-200 text-amber-800 text-xs sm:text-sm">
+                        <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                        {pendingCount} session{pendingCount === 1 ? '' : 's'} are missing a time in or time out, or have a punch location awaiting review, and are not paid yet. Recalculate once they are settled.
+                      </div>
+                    )}
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow className="bg-accent/5 border-b border-accent/10">
+                            <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4">Coach</TableHead>
+                            <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Sessions</TableHead>
+                            <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Hours</TableHead>
+                            <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Absences</TableHead>
+                            <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Gross</TableHead>
+                            <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Adjustments</TableHead>
+                            <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Deductions</TableHead>
+                            <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Net Pay</TableHead>
+                            <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Actions</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {summaries.map((summary, index) => (
+                            <TableRow key={summary.coach_id} className={`border-b border-muted/20 ${index % 2 === 0 ? 'bg-background' : 'bg-muted/10'}`}>
+                              <TableCell className="py-2 sm:py-4 px-2 sm:px-4 font-semibold text-foreground text-xs sm:text-sm">
+                                {getCoachName(summary.coach_id)}
+                                {summary.pending > 0 && (
+                                  <span className="ml-2 px-1.5 py-0.5 rounded text-[10px] font-bold bg-amber-100 text-amber-700">{summary.pending} pending</span>
+                                )}
+                              </TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right">{summary.sessions}</TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right">{summary.hours.toFixed(2)}</TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right">{summary.absences}</TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right">₱{summary.gross.toFixed(2)}</TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right text-green-700">+₱{summary.adjustments.toFixed(2)}</TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right text-red-600">
+                                -₱{(summary.deductions + summary.absence_deductions).toFixed(2)}
+                              </TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right font-bold">₱{summary.net.toFixed(2)}</TableCell>
+                              <TableCell className="px-2 sm:px-4 text-right whitespace-nowrap">
+                                <div className="flex justify-end gap-1">
+                                  {!isLocked && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      onClick={() => {
+                                        setAdjustmentFormData({ kind: "adjustment", amount: 0, description: "" });
+                                        setAdjustmentCoachId(summary.coach_id);
+                                      }}
+                                      className="h-8 text-xs"
+                                    >
+                                      <Plus className="w-3 h-3 mr-1" />
+                                      Adjust
+                                    </Button>
+                                  )}
+                                  <ReportExportMenu
+                                    size="sm"
+                                    label="Payslip"
+                                    getReport={() => buildPayslipReport(summary)}
+                                    className="h-8 text-xs bg-green-600 hover:bg-green-700 text-white"
+                                  />
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                          <TableRow className="bg-[#242833]/5 font-bold">
+                            <TableCell className="py-3 px-2 sm:px-4 text-xs sm:text-sm" colSpan={7}>Total</TableCell>
+                            <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right">₱{periodTotal.toFixed(2)}</TableCell>
+                            <TableCell />
+                          </TableRow>
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            {adjustments && adjustments.length > 0 && (
+              <Card className="border-2 border-[#242833] bg-white shadow-xl">
+                <CardHeader className="p-3 sm:p-4">
+                  <CardTitle className="text-sm sm:text-base font-bold text-[#242833]">Adjustments & Deductions</CardTitle>
+                </CardHeader>
+                <CardContent className="p-3 sm:p-4 pt-0 space-y-2">
+                  {adjustments.map((adjustment) => (
+                    <div key={adjustment.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-200">
+                      <div>
+                        <p className="text-sm font-semibold text-gray-900">{getCoachName(adjustment.coach_id)}</p>
+                        <p className="text-xs text-gray-500">{adjustment.description}</p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span className={`text-sm font-semibold ${adjustment.kind === 'deduction' ? 'text-red-600' : 'text-green-700'}`}>
+                          {adjustment.kind === 'deduction' ? '-' : '+'}₱{Number(adjustment.amount).toFixed(2)}
+                        </span>
+                        {!isLocked && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => deleteAdjustmentMutation.mutate(adjustment.id)}
+                            disabled={deleteAdjustmentMutation.isPending}
+                            className="h-8 w-8 p-0 text-red-600 hover:bg-red-50"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="rates">
+            <Card className="border-2 border-[#242833] bg-white shadow-xl">
+              <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+                <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+                  <div>
+                    <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                      <Banknote className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                      Rate Cards
+                    </CardTitle>
+                    <CardDescription className="text-gray-400 text-xs sm:text-sm">
+                      A package type rate overrides the coach's default rate for those sessions
+                    </CardDescription>
+                  </div>
+                  <Button
+                    onClick={() => openRateDialog(null)}
+                    className="bg-accent text-white hover:bg-accent/90 min-w-fit text-xs sm:text-sm"
+                    style={{ backgroundColor: '#79e58f' }}
+                  >
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Rate
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="p-0">
+                {ratesLoading ? (
+                  <div className="text-center py-12">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-accent mx-auto mb-4" style={{ borderColor: '#79e58f' }}></div>
+                    <p className="text-gray-600 text-xs sm:text-sm">Loading rates...</p>
+                  </div>
+                ) : rates && rates.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-accent/5 border-b border-accent/10">
+                          <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4">Coach</TableHead>
+                          <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4">Applies To</TableHead>
+                          <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Rate</TableHead>
+                          <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Absence Deduction</TableHead>
+                          <TableHead className="font-semibold text-foreground text-xs sm:text-sm p-2 sm:p-4 text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {[...rates]
+                          .sort((a, b) => getCoachName(a.coach_id).localeCompare(getCoachName(b.coach_id)))
+                          .map((rate, index) => (
+                            <TableRow key={rate.id} className={`border-b border-muted/20 ${index % 2 === 0 ? 'bg-background' : 'bg-muted/10'}`}>
+                              <TableCell className="py-2 sm:py-4 px-2 sm:px-4 font-semibold text-foreground text-xs sm:text-sm">
+                                {getCoachName(rate.coach_id)}
+                              </TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm">
+                                {rate.package_type ? (
+                                  <Badge variant="outline">{rate.package_type}</Badge>
+                                ) : (
+                                  <span className="text-muted-foreground">All packages</span>
+                                )}
+                              </TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right font-semibold">{formatCoachRate(rate)}</TableCell>
+                              <TableCell className="px-2 sm:px-4 text-xs sm:text-sm text-right">₱{Number(rate.absence_deduction).toFixed(2)}</TableCell>
+                              <TableCell className="px-2 sm:px-4 text-right whitespace-nowrap">
+                                <Button size="sm" variant="ghost" onClick={() => openRateDialog(rate)} className="h-8 w-8 p-0">
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  variant="ghost"
+                                  onClick={() => deleteRateMutation.mutate(rate.id)}
+                                  disabled={deleteRateMutation.isPending}
+                                  className="h-8 w-8 p-0 text-red-600 hover:bg-red-50"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ) : (
+                  <div className="text-center py-12">
+                    <Banknote className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+                    <h3 className="text-base sm:text-lg font-bold text-black mb-2">No rates yet</h3>
+                    <p className="text-xs sm:text-sm text-gray-600">Coaches without a rate are listed in payroll with nothing to pay.</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        {/* New Period */}
+        <Dialog open={isPeriodDialogOpen} onOpenChange={setIsPeriodDialogOpen}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>New Pay Period</DialogTitle>
+              <DialogDescription>Sessions dated within the period are paid in it.</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={(e) => {
+              e.preventDefault();
+              if (periodFormData.end_date < periodFormData.start_date) {
+                toast.error("The period must end on or after its start date");
+                return;
+              }
+              createPeriodMutation.mutate(periodFormData);
+            }} className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="period_start">Start</Label>
+                  <Input
+                    id="period_start"
+                    type="date"
+                    value={periodFormData.start_date}
+                    onChange={(e) => setPeriodFormData(prev => ({ ...prev, start_date: e.target.value }))}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="period_end">End</Label>
+                  <Input
+                    id="period_end"
+                    type="date"
+                    value={periodFormData.end_date}
+                    onChange={(e) => setPeriodFormData(prev => ({ ...prev, end_date: e.target.value }))}
+                    required
+                  />
+                </div>
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsPeriodDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={createPeriodMutation.isPending} className="bg-[#242833] hover:bg-[#242833]/90 text-white">
+                  {createPeriodMutation.isPending ? "Creating..." : "Create Period"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Adjustment */}
+        <Dialog open={!!adjustmentCoachId} onOpenChange={(open) => { if (!open) setAdjustmentCoachId(null); }}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>Adjust Pay</DialogTitle>
+              <DialogDescription>
+                {adjustmentCoachId && `${getCoachName(adjustmentCoachId)} · ${selectedPeriod ? formatPeriod(selectedPeriod) : ''}`}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={(e) => {
+              e.preventDefault();
+              if (!adjustmentCoachId || adjustmentFormData.amount <= 0 || !adjustmentFormData.description.trim()) return;
+              addAdjustmentMutation.mutate({ ...adjustmentFormData, coach_id: adjustmentCoachId });
+            }} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={adjustmentFormData.kind}
+                  onValueChange={(value) => setAdjustmentFormData(prev => ({ ...prev, kind: value as PayrollAdjustmentKind }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="adjustment">Addition (bonus, correction)</SelectItem>
+                    <SelectItem value="deduction">Deduction</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustment_amount">Amount</Label>
+                <Input
+                  id="adjustment_amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={adjustmentFormData.amount}
+                  onChange={(e) => setAdjustmentFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="adjustment_description">Description</Label>
+                <Input
+                  id="adjustment_description"
+                  value={adjustmentFormData.description}
+                  onChange={(e) => setAdjustmentFormData(prev => ({ ...prev, description: e.target.value }))}
+                  required
+                  placeholder="e.g. Tournament bonus"
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setAdjustmentCoachId(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={addAdjustmentMutation.isPending || adjustmentFormData.amount <= 0 || !adjustmentFormData.description.trim()}
+                  className="bg-[#242833] hover:bg-[#242833]/90 text-white"
+                >
+                  {addAdjustmentMutation.isPending ? "Saving..." : "Save"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Rate */}
+        <Dialog open={isRateDialogOpen} onOpenChange={setIsRateDialogOpen}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>{editingRate ? "Edit Rate" : "Add Rate"}</DialogTitle>
+              <DialogDescription>Rates are applied when a pay period is calculated.</DialogDescription>
+            </DialogHeader>
+            <form onSubmit={(e) => {
+              e.preventDefault();
+              if (!rateFormData.coach_id) {
+                toast.error("Select a coach");
+                return;
+              }
+              saveRateMutation.mutate({ ...rateFormData, id: editingRate?.id });
+            }} className="space-y-4">
+              <div className="space-y-2">
+                <Label>Coach</Label>
+                <Select
+                  value={rateFormData.coach_id}
+                  onValueChange={(value) => setRateFormData(prev => ({ ...prev, coach_id: value }))}
+                  disabled={!!editingRate}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select coach" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {coaches?.map((coach) => (
+                      <SelectItem key={coach.id} value={coach.id}>{coach.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <Select
+                  value={rateFormData.package_type}
+                  onValueChange={(value) => setRateFormData(prev => ({ ...prev, package_type: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_PACKAGES}>All packages (default)</SelectItem>
+                    {packages?.map((pkg) => (
+                      <SelectItem key={pkg.id} value={pkg.name}>{pkg.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>Paid</Label>
+                  <Select
+                    value={rateFormData.rate_type}
+                    onValueChange={(value) => setRateFormData(prev => ({ ...prev, rate_type: value as CoachRateType }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="per_session">Per session</SelectItem>
+                      <SelectItem value="hourly">Per hour</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="rate_amount">Rate</Label>
+                  <Input
+                    id="rate_amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={rateFormData.amount}
+                    onChange={(e) => setRateFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                    required
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate_absence_deduction">Deduction per absence</Label>
+                <Input
+                  id="rate_absence_deduction"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={rateFormData.absence_deduction}
+                  onChange={(e) => setRateFormData(prev => ({ ...prev, absence_deduction: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsRateDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveRateMutation.isPending} className="bg-[#242833] hover:bg-[#242833]/90 text-white">
+                  {saveRateMutation.isPending ? "Saving..." : "Save Rate"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        {/* Approve */}
+        <AlertDialog open={isApproveOpen} onOpenChange={setIsApproveOpen}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Approve Payroll</AlertDialogTitle>
+              <AlertDialogDescription>
+                {selectedPeriod && `Approving ${formatPeriod(selectedPeriod)} locks its ₱${periodTotal.toFixed(2)} payroll. Sessions, rates and adjustments can no longer change it.`}
+                {pendingCount > 0 && ` ${pendingCount} pending session${pendingCount === 1 ? ' is' : 's are'} left unpaid.`}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => selectedPeriod && approveMutation.mutate(selectedPeriod.id)}
+                className="bg-[#242833] text-white hover:bg-[#242833]/90"
+              >
+                {approveMutation.isPending ? "Approving..." : "Approve & Lock"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { MapPin } from "lucide-react";
+import { describePunchLocationFlag } from "@/utils/geolocation";
+
+interface PunchLocationBadgeProps {
+  flag: string | null | undefined;
+  distance?: number | null;
+  reviewStatus?: string | null;
+}
+
+const reviewLabels: Record<string, { label: string; className: string }> = {
+  pending: { label: "Awaiting review", className: "bg-amber-100 text-amber-800" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-700" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-700" },
+};
+
+/**
+ * Small flag shown next to a time in or time out that was punched outside the branch geofence
+ */
+export function PunchLocationBadge({ flag, distance, reviewStatus }: PunchLocationBadgeProps) {
+  const description = describePunchLocationFlag(flag, distance);
+  if (!description) return null;
+  const review = reviewStatus ? reviewLabels[reviewStatus] : null;
+
+  return (
+    <span className="inline-flex flex-wrap items-center gap-1">
+      <span className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold bg-orange-100 text-orange-700">
+        <MapPin className="w-3 h-3" />
+        {description}
+      </span>
+      {review && (
+        <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold ${review.className}`}>{review.label}</span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import jsQR from "jsqr";
+import { useQueryClient } from "@tanstack/react-query";
+import { CameraOff, CheckCircle, XCircle } from "lucide-react";
+import { toast } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { parseCheckInPayload } from "@/utils/checkIn";
+
+interface QrCheckInScannerProps {
+  sessionId: string;
+}
+
+interface ScanResult {
+  id: number;
+  ok: boolean;
+  message: string;
+}
+
+// The same card held in front of the camera is only sent once every few seconds
+const RESCAN_DELAY_MS = 4000;
+
+/**
+ * Camera scanner that marks players present for a session from their check-in QR code
+ */
+export function QrCheckInScanner({ sessionId }: QrCheckInScannerProps) {
+  const queryClient = useQueryClient();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const busyRef = useRef(false);
+  const lastScanRef = useRef<{ token: string; at: number } | null>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [results, setResults] = useState<ScanResult[]>([]);
+
+  const addResult = (ok: boolean, message: string) => {
+    setResults((prev) => [{ id: Date.now(), ok, message }, ...prev].slice(0, 8));
+  };
+
+  const checkIn = useCallback(async (token: string) => {
+    busyRef.current = true;
+    try {
+      const { data, error } = await supabase.rpc("check_in_student", {
+        p_session_id: sessionId,
+        p_token: token,
+      });
+      if (error) throw error;
+      const row = data?.[0];
+      if (row?.already_checked_in) {
+        addResult(true, `${row.student_name} is already checked in`);
+      } else if (row) {
+        addResult(true, `${row.student_name} checked in • ${row.remaining_sessions ?? 0} sessions left`);
+        toast.success(`${row.student_name} checked in`);
+      }
+      queryClient.invalidateQueries({ queryKey: ["attendance", sessionId] });
+      queryClient.invalidateQueries({ queryKey: ["students"] });
+    } catch (error) {
+      console.error("QR check-in error:", error);
+      addResult(false, (error as Error).message);
+      toast.error("Check-in failed: " + (error as Error).message);
+    } finally {
+      busyRef.current = false;
+    }
+  }, [queryClient, sessionId]);
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frame = 0;
+    let stopped = false;
+
+    const scan = () => {
+      if (stopped) return;
+      const video = videoRef.current;
+      const canvas = canvasRef.current;
+      if (video && canvas && video.readyState === video.HAVE_ENOUGH_DATA && !busyRef.current) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext("2d", { willReadFrequently: true });
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const image = context.getImageData(0, 0, canvas.width, canvas.height);
+          const code = jsQR(image.data, image.width, image.height, { inversionAttempts: "dontInvert" });
+          if (code) {
+            const token = parseCheckInPayload(code.data);
+            const last = lastScanRef.current;
+            const now = Date.now();
+            if (!token) {
+              if (!last || last.token !== code.data || now - last.at > RESCAN_DELAY_MS) {
+                lastScanRef.current = { token: code.data, at: now };
+                addResult(false, "Not a Takeover check-in code");
+              }
+            } else if (!last || last.token !== token || now - last.at > RESCAN_DELAY_MS) {
+              lastScanRef.current = { token, at: now };
+              checkIn(token);
+            }
+          }
+        }
+      }
+      frame = requestAnimationFrame(scan);
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setCameraError("This device or browser does not support camera access");
+        return;
+      }
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" }, audio: false });
+        if (stopped) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        frame = requestAnimationFrame(scan);
+      } catch (error) {
+        console.error("Camera error:", error);
+        setCameraError("Camera access was denied or is unavailable: " + (error as Error).message);
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      cancelAnimationFrame(frame);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [checkIn]);
+
+  return (
+    <div className="space-y-3">
+      {cameraError ? (
+        <div className="flex flex-col items-center justify-center gap-2 p-6 bg-gray-50 border border-gray-200 rounded-lg text-center">
+          <CameraOff className="w-8 h-8 text-gray-400" />
+          <p className="text-xs sm:text-sm text-gray-600">{cameraError}</p>
+        </div>
+      ) : (
+        <div className="relative w-full overflow-hidden rounded-lg bg-black aspect-square sm:aspect-video">
+          <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+            <div className="w-2/3 max-w-[240px] aspect-square border-4 rounded-xl" style={{ borderColor: "#79e58f" }} />
+          </div>
+        </div>
+      )}
+      <canvas ref={canvasRef} className="hidden" />
+      <p className="text-xs text-gray-500 text-center">Hold the player's check-in code inside the frame</p>
+      {results.length > 0 && (
+        <div className="space-y-1.5">
+          {results.map((result) => (
+            <div
+              key={result.id}
+              className={`flex items-center gap-2 px-3 py-2 rounded-lg border text-xs sm:text-sm ${
+                result.ok ? "bg-green-50 border-green-200 text-green-800" : "bg-red-50 border-red-200 text-red-800"
+              }`}
+            >
+              {result.ok ? <CheckCircle className="w-4 h-4 flex-shrink-0" /> : <XCircle className="w-4 h-4 flex-shrink-0" />}
+              <span className="min-w-0 break-words">{result.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
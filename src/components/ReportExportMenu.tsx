@@ -0,0 +1,65 @@
+import { Download, FileSpreadsheet, FileText, Printer } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { exportReport, type ReportDefinition, type ReportFormat } from "@/utils/exportUtils";
+
+interface ReportExportMenuProps<T> {
+  /** Builds the report when a format is picked, so it reflects the data at that moment */
+  getReport: () => ReportDefinition<T>;
+  label?: string;
+  className?: string;
+  size?: "default" | "sm";
+}
+
+const formatLabels: Record<ReportFormat, string> = {
+  xlsx: "Excel",
+  csv: "CSV",
+  pdf: "PDF",
+};
+
+/**
+ * Export button that renders a report definition as Excel, CSV or a printable PDF
+ */
+export function ReportExportMenu<T>({ getReport, label = "Export", className, size = "default" }: ReportExportMenuProps<T>) {
+  const handleExport = (format: ReportFormat) => {
+    try {
+      const report = getReport();
+      exportReport(report, format);
+      toast.success(format === "pdf" ? `${report.title} opened for printing` : `${report.title} exported to ${formatLabels[format]} successfully`);
+    } catch (error) {
+      console.error("Report export error:", error);
+      toast.error("Failed to export report: " + (error as Error).message);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size={size} className={className}>
+          <Download className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+          {label}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport("xlsx")}>
+          <FileSpreadsheet className="w-4 h-4 mr-2" />
+          Excel (.xlsx)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("csv")}>
+          <FileText className="w-4 h-4 mr-2" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport("pdf")}>
+          <Printer className="w-4 h-4 mr-2" />
+          Print / PDF
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,358 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, CalendarClock, CheckCircle, Download, History, Save, Send } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/context/AuthContext";
+import { toast } from "sonner";
+import { format, parseISO } from "date-fns";
+
+type ReportKey = "sessions" | "attendance" | "enrollments" | "collections" | "overdue_balances" | "expiring_packages";
+
+const REPORT_OPTIONS: Array<{ key: ReportKey; label: string; description: string }> = [
+  { key: "sessions", label: "Sessions held", description: "Sessions of the week and how many were held or cancelled" },
+  { key: "attendance", label: "Attendance rate", description: "Attendance per session and for the week" },
+  { key: "enrollments", label: "New enrollments", description: "Players enrolled during the week" },
+  { key: "collections", label: "Collections", description: "Payments and refunds received during the week" },
+  { key: "overdue_balances", label: "Overdue balances", description: "Overdue installments and balances unpaid for over 30 days" },
+  { key: "expiring_packages", label: "Expiring packages", description: "Packages expiring in 14 days or with 2 sessions or fewer left" },
+];
+
+const ALL_BRANCHES = "all";
+
+type ReportSubscription = {
+  id: string;
+  coach_id: string;
+  reports: ReportKey[];
+  branch_id: string | null;
+  is_active: boolean;
+};
+
+type SentReport = {
+  id: string;
+  recipient: string;
+  period_start: string;
+  period_end: string;
+  summary: Record<string, string>;
+  file_path: string | null;
+  trigger: "schedule" | "manual";
+  status: "sent" | "failed";
+  error: string | null;
+  created_at: string;
+};
+
+/**
+ * The signed in admin's weekly report subscription and the history of reports sent to admins
+ */
+export function ReportSubscriptionsPanel() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [isActive, setIsActive] = useState(true);
+  const [reports, setReports] = useState<ReportKey[]>(REPORT_OPTIONS.map((option) => option.key));
+  const [branchId, setBranchId] = useState(ALL_BRANCHES);
+
+  const { data: myCoachId } = useQuery({
+    queryKey: ["coach-id", user?.id],
+    queryFn: async () => {
+      if (!user?.id) return null;
+      const { data, error } = await supabase
+        .from("coaches")
+        .select("id")
+        .eq("auth_id", user.id)
+        .single();
+      if (error) throw error;
+      return data?.id ?? null;
+    },
+    enabled: !!user?.id,
+  });
+
+  const { data: branches } = useQuery({
+    queryKey: ["branches-select"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("branches").select("id, name").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: subscription, isLoading: subscriptionLoading } = useQuery({
+    queryKey: ["report-subscription", myCoachId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("report_subscriptions")
+        .select("id, coach_id, reports, branch_id, is_active")
+        .eq("coach_id", myCoachId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data as ReportSubscription | null;
+    },
+    enabled: !!myCoachId,
+  });
+
+  const { data: sentReports } = useQuery({
+    queryKey: ["sent-reports"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("sent_reports")
+        .select("id, recipient, period_start, period_end, summary, file_path, trigger, status, error, created_at")
+        .order("created_at", { ascending: false })
+        .limit(100);
+      if (error) throw error;
+      return data as SentReport[];
+    },
+  });
+
+  useEffect(() => {
+    if (!subscription) return;
+    setIsActive(subscription.is_active);
+    setReports(subscription.reports);
+    setBranchId(subscription.branch_id ?? ALL_BRANCHES);
+  }, [subscription]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      if (!myCoachId) throw new Error("Your coach profile could not be found");
+      const { error } = await supabase
+        .from("report_subscriptions")
+        .upsert({
+          coach_id: myCoachId,
+          reports,
+          branch_id: branchId === ALL_BRANCHES ? null : branchId,
+          is_active: isActive,
+        }, { onConflict: "coach_id" });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["report-subscription"] });
+      toast.success(isActive ? "You will get the weekly report on Monday mornings" : "Weekly report switched off");
+    },
+    onError: (error) => {
+      toast.error("Failed to save subscription: " + (error as Error).message);
+    },
+  });
+
+  const sendNowMutation = useMutation({
+    mutationFn: async (subscriptionId: string) => {
+      const { data, error } = await supabase.functions.invoke("send-admin-reports", {
+        body: { type: "send_now", subscriptionId },
+      });
+      if (error) {
+        console.error("Send report error:", error);
+        throw error;
+      }
+      if (!data?.success) throw new Error(data?.error || "Failed to send report");
+      if (data.results?.[0] && !data.results[0].success) throw new Error(data.results[0].error);
+      return data;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["sent-reports"] });
+      queryClient.invalidateQueries({ queryKey: ["notification-deliveries"] });
+      toast.success(data.message || "Report sent");
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ["sent-reports"] });
+      toast.error("Failed to send report: " + (error as Error).message);
+    },
+  });
+
+  const handleDownload = async (report: SentReport) => {
+    if (!report.file_path) return;
+    const { data, error } = await supabase.storage.from("reports").createSignedUrl(report.file_path, 60, {
+      download: `takeover_weekly_report_${report.period_start}_to_${report.period_end}.xlsx`,
+    });
+    if (error) {
+      toast.error("Failed to download report: " + error.message);
+      return;
+    }
+    window.open(data.signedUrl, "_blank");
+  };
+
+  const toggleReport = (key: ReportKey, checked: boolean) => {
+    setReports((current) => checked ? [...current, key] : current.filter((report) => report !== key));
+  };
+
+  const isSaved = !!subscription
+    && subscription.is_active === isActive
+    && (subscription.branch_id ?? ALL_BRANCHES) === branchId
+    && subscription.reports.length === reports.length
+    && subscription.reports.every((report) => reports.includes(report));
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-2 border-[#242833] bg-white shadow-xl">
+        <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+          <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+            <CalendarClock className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+            My Weekly Report
+          </CardTitle>
+          <CardDescription className="text-gray-400 text-xs sm:text-sm">
+            Emailed Monday mornings with last week's figures and an Excel workbook of the reports you pick
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-3 sm:p-4 md:p-5 space-y-5">
+          {subscriptionLoading && myCoachId ? (
+            <p className="text-xs sm:text-sm text-gray-600">Loading subscription...</p>
+          ) : (
+            <>
+              <div className="flex items-center justify-between gap-3 p-3 rounded-lg border-2 border-gray-200">
+                <div>
+                  <Label htmlFor="weekly-report-active" className="text-sm font-semibold text-gray-900">Send me the weekly report</Label>
+                  <p className="text-xs text-gray-600">Goes to your coach account email</p>
+                </div>
+                <Switch id="weekly-report-active" checked={isActive} onCheckedChange={setIsActive} />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {REPORT_OPTIONS.map((option) => (
+                  <label
+                    key={option.key}
+                    className="flex items-start gap-3 p-3 rounded-lg border-2 border-gray-200 bg-white cursor-pointer hover:border-[#79e58f]"
+                  >
+                    <Checkbox
+                      checked={reports.includes(option.key)}
+                      disabled={!isActive}
+                      onCheckedChange={(checked) => toggleReport(option.key, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <div>
+                      <p className="text-sm font-semibold text-gray-900">{option.label}</p>
+                      <p className="text-xs text-gray-600">{option.description}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                <div className="space-y-1.5">
+                  <Label className="text-xs sm:text-sm text-gray-700">Branch</Label>
+                  <Select value={branchId} onValueChange={setBranchId} disabled={!isActive}>
+                    <SelectTrigger className="w-full sm:w-[220px] border-2 border-gray-300 text-xs sm:text-sm">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_BRANCHES}>All branches</SelectItem>
+                      {branches?.map((branch) => (
+                        <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex flex-wrap gap-2 sm:ml-auto">
+                  <Button
+                    variant="outline"
+                    onClick={() => subscription && sendNowMutation.mutate(subscription.id)}
+                    disabled={!isSaved || !subscription?.is_active || sendNowMutation.isPending}
+                    title={!isSaved ? "Save your changes first" : undefined}
+                    className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs sm:text-sm"
+                  >
+                    <Send className="w-4 h-4 mr-1" />
+                    {sendNowMutation.isPending ? "Sending..." : "Send last week's report now"}
+                  </Button>
+                  <Button
+                    onClick={() => saveMutation.mutate()}
+                    disabled={saveMutation.isPending || (isActive && reports.length === 0) || isSaved}
+                    className="text-[#242833] text-xs sm:text-sm font-semibold"
+                    style={{ backgroundColor: '#79e58f' }}
+                  >
+                    <Save className="w-4 h-4 mr-1" />
+                    {saveMutation.isPending ? "Saving..." : "Save"}
+                  </Button>
+                </div>
+              </div>
+              {isActive && reports.length === 0 && (
+                <p className="text-xs text-red-600">Pick at least one report</p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-2 border-[#242833] bg-white shadow-xl">
+        <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+          <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+            <History className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+            Sent Reports
+          </CardTitle>
+          <CardDescription className="text-gray-400 text-xs sm:text-sm">
+            Weekly reports sent to every subscribed admin
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-2 sm:p-3 md:p-4">
+          {!sentReports || sentReports.length === 0 ? (
+            <p className="text-center text-xs sm:text-sm text-gray-600 py-8">No reports have been sent yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs sm:text-sm">Sent</TableHead>
+                    <TableHead className="text-xs sm:text-sm">Recipient</TableHead>
+                    <TableHead className="text-xs sm:text-sm">Period</TableHead>
+                    <TableHead className="text-xs sm:text-sm">Figures</TableHead>
+                    <TableHead className="text-xs sm:text-sm">Status</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Workbook</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sentReports.map((report) => (
+                    <TableRow key={report.id}>
+                      <TableCell className="text-xs sm:text-sm whitespace-nowrap">
+                        {format(new Date(report.created_at), "MMM d, yyyy h:mm a")}
+                        {report.trigger === "manual" && <span className="block text-xs text-gray-500">Sent manually</span>}
+                      </TableCell>
+                      <TableCell className="text-xs sm:text-sm">{report.recipient}</TableCell>
+                      <TableCell className="text-xs sm:text-sm whitespace-nowrap">
+                        {format(parseISO(report.period_start), "MMM d")} - {format(parseISO(report.period_end), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-700 min-w-[220px]">
+                        {Object.entries(report.summary || {}).map(([label, value]) => (
+                          <div key={label}><span className="font-semibold">{label}:</span> {value}</div>
+                        ))}
+                      </TableCell>
+                      <TableCell className="text-xs sm:text-sm">
+                        {report.status === "sent" ? (
+                          <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200">
+                            <CheckCircle className="w-3.5 h-3.5 mr-1" />
+                            Sent
+                          </Badge>
+                        ) : (
+                          <div className="space-y-1">
+                            <Badge variant="outline" className="bg-red-50 text-red-700 border-red-200">
+                              <AlertCircle className="w-3.5 h-3.5 mr-1" />
+                              Failed
+                            </Badge>
+                            {report.error && <p className="text-xs text-red-600 max-w-[220px]">{report.error}</p>}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {report.file_path && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDownload(report)}
+                            className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs"
+                          >
+                            <Download className="w-3.5 h-3.5 mr-1" />
+                            Excel
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,551 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useNavigate } from "react-router-dom";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Activity, Filter, Package, Repeat, UserMinus, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { format, parseISO, subMonths } from "date-fns";
+import {
+  attendanceTrend,
+  buildAttendanceFacts,
+  buildPackageCycles,
+  CHURN_GRACE_DAYS,
+  groupAttendance,
+  groupRetention,
+  summarizeAttendance,
+  type AnalyticsSession,
+  type AnalyticsStudent,
+  type AttendanceDimension,
+  type AttendanceFact,
+  type AttendanceGroup,
+  type PackageCycle,
+  type PackageHistoryCycle,
+  type RetentionGroup,
+} from "@/utils/retention";
+
+const attendanceChartConfig = {
+  attendanceRate: { label: "Attendance %", color: "#79e58f" },
+  noShowRate: { label: "No-show %", color: "#f87171" },
+} satisfies ChartConfig;
+
+const retentionChartConfig = {
+  renewed: { label: "Renewed", color: "#79e58f" },
+  churned: { label: "Churned", color: "#f87171" },
+  pending: { label: "Awaiting renewal", color: "#fbbf24" },
+} satisfies ChartConfig;
+
+const consumptionChartConfig = {
+  averageConsumed: { label: "Avg. sessions used", color: "#242833" },
+  averageSessions: { label: "Avg. sessions in package", color: "#79e58f" },
+} satisfies ChartConfig;
+
+type Drilldown =
+  | { kind: "attendance"; title: string; description: string; facts: AttendanceFact[] }
+  | { kind: "cycles"; title: string; description: string; cycles: PackageCycle[] };
+
+type ChartClickState = { activePayload?: Array<{ payload: unknown }> } | null;
+
+const clickedPayload = <T,>(state: ChartClickState) => state?.activePayload?.[0]?.payload as T | undefined;
+
+const getOutcomeBadgeColor = (outcome: string) => {
+  switch (outcome) {
+    case "renewed": return "bg-green-50 text-green-700 border-green-200";
+    case "churned": return "bg-red-50 text-red-700 border-red-200";
+    default: return "bg-amber-50 text-amber-700 border-amber-200";
+  }
+};
+
+/**
+ * Attendance and no-show rates per branch, coach and package, package renewal and churn,
+ * and how much of a package gets used. Clicking a chart opens the students behind it.
+ */
+export function RetentionAnalytics() {
+  const navigate = useNavigate();
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [fromDate, setFromDate] = useState(format(subMonths(new Date(), 3), "yyyy-MM-dd"));
+  const [toDate, setToDate] = useState(today);
+  const [branchFilter, setBranchFilter] = useState("all");
+  const [trendInterval, setTrendInterval] = useState<"week" | "month">("week");
+  const [attendanceDimension, setAttendanceDimension] = useState<AttendanceDimension>("branch");
+  const [retentionDimension, setRetentionDimension] = useState<"branch" | "package">("branch");
+  const [drilldown, setDrilldown] = useState<Drilldown | null>(null);
+
+  const validRange = !!fromDate && !!toDate && fromDate <= toDate;
+
+  const { data: branches } = useQuery({
+    queryKey: ["branches-select"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("branches").select("id, name").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: coaches } = useQuery({
+    queryKey: ["coaches-select"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("coaches").select("id, name").order("name");
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: sessions, isLoading: sessionsLoading } = useQuery({
+    queryKey: ["analytics-sessions", fromDate, toDate, branchFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from("training_sessions")
+        .select("id, date, branch_id, package_type, session_coaches (coach_id), session_participants (student_id), attendance_records (student_id, status)")
+        .neq("status", "cancelled")
+        .gte("date", fromDate)
+        // Only sessions that have taken place can have attendance
+        .lte("date", toDate < today ? toDate : today)
+        .order("date");
+      if (branchFilter !== "all") {
+        query = query.eq("branch_id", branchFilter);
+      }
+      const { data, error } = await query;
+      if (error) {
+        console.error("Error fetching attendance analytics:", error);
+        throw error;
+      }
+      return (data || []) as AnalyticsSession[];
+    },
+    enabled: validRange,
+  });
+
+  const { data: retentionSources, isLoading: retentionLoading } = useQuery({
+    queryKey: ["analytics-package-cycles"],
+    queryFn: async () => {
+      const [studentsRes, historyRes] = await Promise.all([
+        supabase
+          .from("students")
+          .select("id, name, branch_id, package_type, sessions, remaining_sessions, enrollment_date, expiration_date"),
+        supabase
+          .from("student_package_history")
+          .select("id, student_id, package_type, sessions, remaining_sessions, enrollment_date, expiration_date, captured_at"),
+      ]);
+      if (studentsRes.error || historyRes.error) {
+        const error = studentsRes.error || historyRes.error;
+        console.error("Error fetching package history:", error);
+        throw error;
+      }
+      const students = (studentsRes.data || []) as AnalyticsStudent[];
+
+      // A package that ran out of sessions ended on the last session that used one up
+      const usedUp = students.filter((student) => (student.sessions || 0) > 0 && student.remaining_sessions <= 0);
+      const lastSessionDates = new Map<string, string>();
+      if (usedUp.length > 0) {
+        const { data: consumed, error: consumedError } = await supabase
+          .from("attendance_records")
+          .select("student_id, training_sessions!inner (date)")
+          .eq("consumes_session", true)
+          .in("student_id", usedUp.map((student) => student.id));
+        if (consumedError) {
+          console.error("Error fetching last sessions:", consumedError);
+          throw consumedError;
+        }
+        const enrollmentDates = new Map(usedUp.map((student) => [student.id, student.enrollment_date || ""]));
+        (consumed || []).forEach((record) => {
+          const date = record.training_sessions.date;
+          if (date < (enrollmentDates.get(record.student_id) || "")) return;
+          if (date > (lastSessionDates.get(record.student_id) || "")) lastSessionDates.set(record.student_id, date);
+        });
+      }
+
+      return {
+        students,
+        history: (historyRes.data || []) as PackageHistoryCycle[],
+        lastSessionDates,
+      };
+    },
+  });
+
+  const branchNames = useMemo(() => new Map((branches || []).map((branch) => [branch.id, branch.name])), [branches]);
+  const coachNames = useMemo(() => new Map((coaches || []).map((coach) => [coach.id, coach.name])), [coaches]);
+  const studentNames = useMemo(
+    () => new Map((retentionSources?.students || []).map((student) => [student.id, student.name])),
+    [retentionSources]
+  );
+
+  const facts = useMemo(() => buildAttendanceFacts(sessions || []), [sessions]);
+  const overall = useMemo(() => summarizeAttendance(facts), [facts]);
+  const trend = useMemo(() => attendanceTrend(facts, trendInterval), [facts, trendInterval]);
+  const attendanceGroups = useMemo(
+    () => groupAttendance(facts, attendanceDimension, attendanceDimension === "coach" ? coachNames : branchNames),
+    [facts, attendanceDimension, coachNames, branchNames]
+  );
+
+  const cycles = useMemo(() => {
+    if (!retentionSources || !validRange) return [];
+    return buildPackageCycles(retentionSources.history, retentionSources.students, retentionSources.lastSessionDates)
+      .filter((cycle) => cycle.endDate >= fromDate && cycle.endDate <= toDate)
+      .filter((cycle) => branchFilter === "all" || (cycle.branchId || "unassigned") === branchFilter);
+  }, [retentionSources, fromDate, toDate, branchFilter, validRange]);
+
+  const retentionGroups = useMemo(
+    () => groupRetention(cycles, retentionDimension, branchNames),
+    [cycles, retentionDimension, branchNames]
+  );
+  const packageConsumption = useMemo(() => groupRetention(cycles, "package", branchNames), [cycles, branchNames]);
+  const retentionTotals = useMemo(() => groupRetention(cycles.map((cycle) => ({ ...cycle, packageType: "all" })), "package", branchNames)[0], [cycles, branchNames]);
+
+  const openAttendanceDrilldown = (group: AttendanceGroup | undefined, context: string) => {
+    if (!group) return;
+    setDrilldown({
+      kind: "attendance",
+      title: `${group.label} — ${context}`,
+      description: `${group.attendanceRate}% attendance, ${group.noShowRate}% no-show across ${group.marked} marked attendance${group.marked === 1 ? "" : "s"}`,
+      facts: group.facts,
+    });
+  };
+
+  const openCycleDrilldown = (group: RetentionGroup | undefined, context: string) => {
+    if (!group) return;
+    setDrilldown({
+      kind: "cycles",
+      title: `${group.label} — ${context}`,
+      description: `${group.renewed} renewed, ${group.churned} churned, ${group.pending} awaiting renewal`,
+      cycles: group.cycles,
+    });
+  };
+
+  // One row per student for the attendance drilldown, lowest attendance first
+  const drilldownStudents = useMemo(() => {
+    if (drilldown?.kind !== "attendance") return [];
+    const byStudent = new Map<string, AttendanceFact[]>();
+    drilldown.facts.forEach((fact) => {
+      if (!byStudent.has(fact.studentId)) byStudent.set(fact.studentId, []);
+      byStudent.get(fact.studentId)!.push(fact);
+    });
+    return Array.from(byStudent.entries())
+      .map(([studentId, studentFacts]) => ({ studentId, name: studentNames.get(studentId) || "Unknown", ...summarizeAttendance(studentFacts) }))
+      .sort((a, b) => a.attendanceRate - b.attendanceRate || b.absent - a.absent);
+  }, [drilldown, studentNames]);
+
+  const summaryCards = [
+    { title: "Attendance Rate", value: `${overall.attendanceRate}%`, icon: Activity, note: `${overall.attended} of ${overall.marked} marked` },
+    { title: "No-show Rate", value: `${overall.noShowRate}%`, icon: UserMinus, note: `${overall.absent} absences` },
+    { title: "Renewal Rate", value: `${retentionTotals?.renewalRate ?? 0}%`, icon: Repeat, note: `${retentionTotals?.renewed ?? 0} renewed` },
+    { title: "Churned", value: `${retentionTotals?.churned ?? 0}`, icon: Users, note: `${retentionTotals?.pending ?? 0} awaiting renewal` },
+    { title: "Sessions Used", value: `${retentionTotals?.averageConsumed ?? 0}`, icon: Package, note: `of ${retentionTotals?.averageSessions ?? 0} per package on average` },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background pt-4 p-2 sm:p-3 md:p-6 pb-24 md:pb-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="mb-6">
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold text-[#242833] mb-2 tracking-tight">Analytics</h1>
+          <p className="text-xs sm:text-sm md:text-base text-gray-700">Attendance, no-shows and package renewals. Click a chart to see the students behind it.</p>
+        </div>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardContent className="p-3 sm:p-4">
+            <div className="flex items-center mb-3">
+              <Filter className="h-4 sm:h-5 w-4 sm:w-5 text-accent mr-2" style={{ color: '#79e58f' }} />
+              <h3 className="text-base sm:text-lg font-semibold text-gray-900">Filters</h3>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="analytics-from" className="text-xs sm:text-sm">From</Label>
+                <Input id="analytics-from" type="date" value={fromDate} max={toDate || undefined} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="analytics-to" className="text-xs sm:text-sm">To</Label>
+                <Input id="analytics-to" type="date" value={toDate} min={fromDate || undefined} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs sm:text-sm">Branch</Label>
+                <Select value={branchFilter} onValueChange={setBranchFilter}>
+                  <SelectTrigger className="border-2 border-accent rounded-lg text-xs sm:text-sm bg-white" style={{ borderColor: '#79e58f' }}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All branches</SelectItem>
+                    {branches?.map((branch) => (
+                      <SelectItem key={branch.id} value={branch.id}>{branch.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {!validRange && (
+              <p className="text-xs text-red-600 mt-2">Pick a start date on or before the end date.</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              Renewals cover package cycles that ended in the range. A student counts as churned {CHURN_GRACE_DAYS} days after their package expired or their last session was used, without renewing.
+            </p>
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-2 lg:grid-cols-5 gap-3 sm:gap-4">
+          {summaryCards.map((card) => (
+            <Card key={card.title} className="border-2 border-[#242833] bg-white shadow-lg">
+              <CardContent className="p-3 sm:p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <p className="text-xs sm:text-sm font-medium text-gray-600">{card.title}</p>
+                  <card.icon className="w-4 h-4" style={{ color: '#79e58f' }} />
+                </div>
+                <p className="text-base sm:text-xl font-bold text-[#242833]">
+                  {sessionsLoading || retentionLoading ? "..." : card.value}
+                </p>
+                <p className="text-xs text-gray-500 mt-1">{card.note}</p>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+            <div className="flex items-center justify-between gap-2">
+              <div>
+                <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                  <Activity className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                  Attendance Trend
+                </CardTitle>
+                <CardDescription className="text-gray-400 text-xs sm:text-sm">Late arrivals count as attended</CardDescription>
+              </div>
+              <Select value={trendInterval} onValueChange={(value: "week" | "month") => setTrendInterval(value)}>
+                <SelectTrigger className="w-28 h-8 text-xs bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="week">Weekly</SelectItem>
+                  <SelectItem value="month">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="p-2 sm:p-3 md:p-4">
+            {trend.length > 0 ? (
+              <ChartContainer config={attendanceChartConfig} className="h-[260px] w-full aspect-auto">
+                <LineChart
+                  data={trend}
+                  onClick={(state: ChartClickState) => openAttendanceDrilldown(clickedPayload<AttendanceGroup>(state), trendInterval === "week" ? "week" : "month")}
+                  className="cursor-pointer"
+                >
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                  <YAxis tickLine={false} axisLine={false} width={40} domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Line type="monotone" dataKey="attendanceRate" stroke="var(--color-attendanceRate)" strokeWidth={2} dot={{ r: 3 }} />
+                  <Line type="monotone" dataKey="noShowRate" stroke="var(--color-noShowRate)" strokeWidth={2} dot={{ r: 3 }} />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-center text-sm text-gray-500 py-12">
+                {sessionsLoading ? "Loading attendance..." : "No sessions in this range."}
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="border-2 border-[#242833] bg-white shadow-xl">
+          <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                <UserMinus className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                Attendance by {attendanceDimension === "branch" ? "Branch" : attendanceDimension === "coach" ? "Coach" : "Package"}
+              </CardTitle>
+              <Select value={attendanceDimension} onValueChange={(value: AttendanceDimension) => setAttendanceDimension(value)}>
+                <SelectTrigger className="w-32 h-8 text-xs bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="branch">By branch</SelectItem>
+                  <SelectItem value="coach">By coach</SelectItem>
+                  <SelectItem value="package">By package</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="p-2 sm:p-3 md:p-4">
+            {attendanceGroups.length > 0 ? (
+              <ChartContainer config={attendanceChartConfig} className="w-full aspect-auto" style={{ height: Math.max(180, attendanceGroups.length * 48) }}>
+                <BarChart
+                  data={attendanceGroups}
+                  layout="vertical"
+                  margin={{ left: 8 }}
+                  onClick={(state: ChartClickState) => openAttendanceDrilldown(clickedPayload<AttendanceGroup>(state), "attendance")}
+                  className="cursor-pointer"
+                >
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+                  <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="attendanceRate" fill="var(--color-attendanceRate)" radius={4} />
+                  <Bar dataKey="noShowRate" fill="var(--color-noShowRate)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-center text-sm text-gray-500 py-12">No attendance in this range.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <Card className="border-2 border-[#242833] bg-white shadow-xl">
+            <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                  <Repeat className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                  Renewals and Churn
+                </CardTitle>
+                <Select value={retentionDimension} onValueChange={(value: "branch" | "package") => setRetentionDimension(value)}>
+                  <SelectTrigger className="w-32 h-8 text-xs bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="branch">By branch</SelectItem>
+                    <SelectItem value="package">By package</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent className="p-2 sm:p-3 md:p-4">
+              {retentionGroups.length > 0 ? (
+                <ChartContainer config={retentionChartConfig} className="w-full aspect-auto" style={{ height: Math.max(180, retentionGroups.length * 44) }}>
+                  <BarChart
+                    data={retentionGroups}
+                    layout="vertical"
+                    margin={{ left: 8 }}
+                    onClick={(state: ChartClickState) => openCycleDrilldown(clickedPayload<RetentionGroup>(state), "package cycles")}
+                    className="cursor-pointer"
+                  >
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} allowDecimals={false} />
+                    <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="renewed" stackId="cycles" fill="var(--color-renewed)" />
+                    <Bar dataKey="churned" stackId="cycles" fill="var(--color-churned)" />
+                    <Bar dataKey="pending" stackId="cycles" fill="var(--color-pending)" radius={[0, 4, 4, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-center text-sm text-gray-500 py-12">
+                  {retentionLoading ? "Loading package history..." : "No package cycles ended in this range."}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="border-2 border-[#242833] bg-white shadow-xl">
+            <CardHeader className="border-b border-[#242833] bg-[#242833] p-2 sm:p-3 md:p-4">
+              <CardTitle className="text-base sm:text-lg md:text-xl font-bold text-[#efeff1] flex items-center">
+                <Package className="h-4 sm:h-5 w-4 sm:w-5 mr-2 text-accent" style={{ color: '#79e58f' }} />
+                Sessions Used Before Expiration
+              </CardTitle>
+              <CardDescription className="text-gray-400 text-xs sm:text-sm">Per package, for cycles that ended in the range</CardDescription>
+            </CardHeader>
+            <CardContent className="p-2 sm:p-3 md:p-4">
+              {packageConsumption.length > 0 ? (
+                <ChartContainer config={consumptionChartConfig} className="w-full aspect-auto" style={{ height: Math.max(180, packageConsumption.length * 48) }}>
+                  <BarChart
+                    data={packageConsumption}
+                    layout="vertical"
+                    margin={{ left: 8 }}
+                    onClick={(state: ChartClickState) => openCycleDrilldown(clickedPayload<RetentionGroup>(state), "sessions used")}
+                    className="cursor-pointer"
+                  >
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} />
+                    <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={110} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="averageConsumed" fill="var(--color-averageConsumed)" radius={4} />
+                    <Bar dataKey="averageSessions" fill="var(--color-averageSessions)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              ) : (
+                <p className="text-center text-sm text-gray-500 py-12">No package cycles ended in this range.</p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Dialog open={!!drilldown} onOpenChange={(open) => !open && setDrilldown(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{drilldown?.title}</DialogTitle>
+            <DialogDescription>{drilldown?.description}</DialogDescription>
+          </DialogHeader>
+          <div className="overflow-x-auto">
+            {drilldown?.kind === "attendance" ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs sm:text-sm">Student</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Attended</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Absent</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Excused</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Attendance</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drilldownStudents.map((student) => (
+                    <TableRow
+                      key={student.studentId}
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => navigate(`/dashboard/students/${student.studentId}/view`)}
+                    >
+                      <TableCell className="text-xs sm:text-sm font-medium">{student.name}</TableCell>
+                      <TableCell className="text-xs sm:text-sm text-right">{student.attended}</TableCell>
+                      <TableCell className="text-xs sm:text-sm text-right">{student.absent}</TableCell>
+                      <TableCell className="text-xs sm:text-sm text-right">{student.excused}</TableCell>
+                      <TableCell className="text-xs sm:text-sm text-right font-semibold">
+                        {student.marked > 0 ? `${student.attendanceRate}%` : "Not marked"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : drilldown?.kind === "cycles" ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-xs sm:text-sm">Student</TableHead>
+                    <TableHead className="text-xs sm:text-sm">Package</TableHead>
+                    <TableHead className="text-xs sm:text-sm">Ended</TableHead>
+                    <TableHead className="text-xs sm:text-sm text-right">Sessions Used</TableHead>
+                    <TableHead className="text-xs sm:text-sm">Outcome</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...drilldown.cycles].sort((a, b) => b.endDate.localeCompare(a.endDate)).map((cycle) => (
+                    <TableRow
+                      key={cycle.key}
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => navigate(`/dashboard/students/${cycle.studentId}/view`)}
+                    >
+                      <TableCell className="text-xs sm:text-sm font-medium">{studentNames.get(cycle.studentId) || "Unknown"}</TableCell>
+                      <TableCell className="text-xs sm:text-sm">{cycle.packageType === "none" ? "No package" : cycle.packageType}</TableCell>
+                      <TableCell className="text-xs sm:text-sm">{format(parseISO(cycle.endDate), "MMM dd, yyyy")}</TableCell>
+                      <TableCell className="text-xs sm:text-sm text-right">{cycle.sessions > 0 ? `${cycle.consumed} / ${cycle.sessions}` : "—"}</TableCell>
+                      <TableCell>
+                        <Badge className={`text-xs border ${getOutcomeBadgeColor(cycle.outcome)}`}>
+                          {cycle.outcome === "pending" ? "Awaiting renewal" : cycle.outcome === "renewed" ? "Renewed" : "Churned"}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : null}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -10,17 +10,30 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { format, parseISO } from "date-fns";
-import type { Database } from "@/integrations/supabase/types";
-import { Calendar, Clock, Eye, MapPin, Plus, Trash2, User, Users, Filter, Search, ChevronLeft, ChevronRight, Pencil, Download, Package } from "lucide-react";
+import { addDays, differenceInCalendarDays, format, parseISO } from "date-fns";
+import { Constants, type Database } from "@/integrations/supabase/types";
+import { Calendar, Clock, Eye, MapPin, Plus, Trash2, User, Users, Filter, Search, ChevronLeft, ChevronRight, Pencil, Download, Package, Repeat, X } from "lucide-react";
 import { useAuth } from "@/context/AuthContext";
 import { exportToCSV } from "@/utils/exportUtils";
 
 type SessionStatus = Database['public']['Enums']['session_status'];
+type DayOfWeek = Database['public']['Enums']['day_of_week'];
+
+type SchedulingConflict = {
+  conflict_type: string;
+  conflict_details: string;
+};
+
+type SeriesOccurrence = {
+  date: string;
+  conflicts: SchedulingConflict[];
+  include: boolean;
+};
 
 type Package = {
   id: string;
   name: string;
+  default_max_participants: number | null;
 };
 
 type Student = {
@@ -35,6 +48,7 @@ type Student = {
     session_duration: number | null;
     package_cycle: number | null;
     status: string;
+    consumes_session: boolean;
     training_sessions?: {
       package_cycle: number | null;
     } | null;
@@ -65,6 +79,8 @@ type TrainingSession = {
   notes: string | null;
   status: SessionStatus;
   package_type: string | null;
+  series_id: string | null;
+  max_participants: number | null;
   branches: { name: string };
   session_coaches: Array<{
     id: string;
@@ -112,6 +128,21 @@ const formatDateTime = (dateTime: string | null): string => {
   }
 };
 
+// Expand a weekly rule into the concrete session dates (yyyy-MM-dd) between start and end
+const getSeriesDates = (startDate: string, endDate: string, days: DayOfWeek[], skipDates: string[]) => {
+  if (!startDate || !endDate || days.length === 0) return [];
+  const dates: string[] = [];
+  const end = parseISO(endDate);
+  for (let current = parseISO(startDate); current <= end; current = addDays(current, 1)) {
+    const dayName = format(current, 'EEEE').toLowerCase() as DayOfWeek;
+    const dateString = format(current, 'yyyy-MM-dd');
+    if (days.includes(dayName) && !skipDates.includes(dateString)) {
+      dates.push(dateString);
+    }
+  }
+  return dates;
+};
+
 const getTodayDate = () => {
   const today = new Date();
   const year = today.getFullYear();
@@ -130,6 +161,42 @@ const getStatusStyles = (status: string) => {
   }
 };
 
+// Players owed a class from a cancelled session take the given sessions as make-ups, oldest
+// credit first and one per session, in the order the sessions are listed
+const redeemMakeupCredits = async (sessionIds: string[], studentIds: string[]) => {
+  if (studentIds.length === 0) return;
+
+  for (const sessionId of sessionIds) {
+    const { data: redeemed, error } = await supabase.rpc('redeem_makeup_credits', {
+      p_session_id: sessionId,
+      p_student_ids: studentIds,
+    });
+
+    if (error) {
+      console.error('Make-up credit redeem error:', error);
+      throw error;
+    }
+
+    // Nobody has a credit left for the sessions after this one
+    if (!redeemed) return;
+  }
+};
+
+// Throw when a coach is outside their weekly availability or on approved time off
+const assertCoachesAvailable = async (coachIds: string[], date: string, startTime: string, endTime: string) => {
+  if (coachIds.length === 0) return;
+  const { data, error } = await supabase.rpc('get_coach_availability_conflicts', {
+    p_coach_ids: coachIds,
+    p_date: date,
+    p_start_time: startTime,
+    p_end_time: endTime,
+  });
+  if (error) throw error;
+  if (data && data.length > 0) {
+    throw new Error(data.map(conflict => conflict.conflict_details).join('. '));
+  }
+};
+
 export function SessionsManager() {
   const [searchParams, setSearchParams] = useSearchParams();
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -147,6 +214,16 @@ export function SessionsManager() {
   const [sortOrder, setSortOrder] = useState<"Newest to Oldest" | "Oldest to Newest">("Newest to Oldest");
   const [currentPage, setCurrentPage] = useState(1);
   const [isPrePlan, setIsPrePlan] = useState(false);
+  const [isRecurring, setIsRecurring] = useState(false);
+  const [recurrence, setRecurrence] = useState({
+    days_of_week: [] as DayOfWeek[],
+    end_date: "",
+    skip_dates: [] as string[],
+  });
+  const [skipDateInput, setSkipDateInput] = useState("");
+  const [seriesOccurrences, setSeriesOccurrences] = useState<SeriesOccurrence[] | null>(null);
+  const [isCheckingSeries, setIsCheckingSeries] = useState(false);
+  const [seriesScope, setSeriesScope] = useState<"single" | "future">("single");
   const itemsPerPage = 6;
 
   const [formData, setFormData] = useState({
@@ -157,6 +234,7 @@ export function SessionsManager() {
     notes: "",
     status: "scheduled" as SessionStatus,
     package_type: "",
+    max_participants: null as number | null,
   });
 
   const queryClient = useQueryClient();
@@ -178,6 +256,8 @@ export function SessionsManager() {
           notes,
           status,
           package_type,
+          series_id,
+          max_participants,
           branches (name),
           session_coaches (
             id,
@@ -195,7 +275,7 @@ export function SessionsManager() {
             coach_id,
             time_in,
             time_out,
-            coaches (name)
+            coaches!coach_session_times_coach_id_fkey (name)
           )
         `)
         .order('date', { ascending: false });
@@ -253,12 +333,28 @@ export function SessionsManager() {
     },
   });
 
+  // Coaches outside their weekly availability or on approved time off at the form's date and time
+  const { data: coachAvailabilityConflicts } = useQuery({
+    queryKey: ['coach-availability-conflicts', formData.date, formData.start_time, formData.end_time, coaches?.length],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_coach_availability_conflicts', {
+        p_coach_ids: coaches!.map(coach => coach.id),
+        p_date: formData.date,
+        p_start_time: formData.start_time,
+        p_end_time: formData.end_time,
+      });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: isDialogOpen && !!formData.date && !!formData.start_time && !!formData.end_time && !!coaches?.length,
+  });
+
   const { data: packages, isLoading: packagesLoading, error: packagesError } = useQuery({
     queryKey: ['packages-select'],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('packages')
-        .select('id, name')
+        .select('id, name, default_max_participants')
         .order('name');
       
       if (error) throw error;
@@ -287,6 +383,7 @@ export function SessionsManager() {
             session_duration,
             package_cycle,
             status,
+            consumes_session,
             training_sessions (
               package_cycle
             )
@@ -315,7 +412,7 @@ export function SessionsManager() {
           // Count sessions used in current cycle
           const currentCycleSessionsUsed = ((s.attendance_records as any) || [])
             .filter((record: any) =>
-              record.status === 'present' &&
+              record.consumes_session &&
               ((record.package_cycle === currentCycle) ||
                (record.training_sessions?.package_cycle === currentCycle))
             )
@@ -352,6 +449,38 @@ export function SessionsManager() {
     refetchOnMount: true,
   });
 
+  // Outstanding make-up credits from cancelled sessions, offered first when building a new session
+  const { data: makeupCredits } = useQuery({
+    queryKey: ['makeup-credits'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('makeup_credits')
+        .select('id, student_id, package_cycle, created_at')
+        .is('redeemed_session_id', null)
+        .order('created_at');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: isDialogOpen && !editingSession,
+  });
+
+  // Only credits of the student's current package cycle can be redeemed
+  const getOutstandingMakeupCredits = (student: { id: string; student_package_history?: unknown[] }) => {
+    if (editingSession) return 0;
+    const currentCycle = (student.student_package_history?.length || 0) + 1;
+    return (makeupCredits || []).filter(c => c.student_id === student.id && c.package_cycle === currentCycle).length;
+  };
+
+  const getCreditedStudentIds = (studentIds: string[]) => studentIds.filter(studentId => {
+    const student = students?.find(s => s.id === studentId);
+    return student && getOutstandingMakeupCredits(student) > 0;
+  });
+
+  const orderedStudents = students
+    ? [...students].sort((a, b) => Number(getOutstandingMakeupCredits(b) > 0) - Number(getOutstandingMakeupCredits(a) > 0))
+    : students;
+
   // Open edit dialog when navigating from calendar with ?sessionId=xxx
   useEffect(() => {
     const sessionIdFromUrl = searchParams.get('sessionId');
@@ -367,6 +496,7 @@ export function SessionsManager() {
         notes: session.notes || "",
         status: session.status,
         package_type: session.package_type || "",
+        max_participants: session.max_participants ?? null,
       });
       setSelectedStudents(session.session_participants?.map(p => p.student_id) || []);
       setSelectedCoaches(session.session_coaches?.map(sc => sc.coach_id) || []);
@@ -393,6 +523,201 @@ export function SessionsManager() {
     }
   }, [isDialogOpen, formData.branch_id, formData.package_type, queryClient]);
 
+  // Any change to the series inputs invalidates the last conflict report
+  useEffect(() => {
+    setSeriesOccurrences(null);
+  }, [isRecurring, recurrence, formData.date, formData.start_time, formData.end_time, formData.branch_id, selectedCoaches, selectedStudents]);
+
+  const checkSeriesConflicts = async () => {
+    const dates = getSeriesDates(formData.date, recurrence.end_date, recurrence.days_of_week, recurrence.skip_dates);
+    if (dates.length === 0) {
+      toast.error('No sessions fall on the selected days within this date range');
+      return;
+    }
+
+    setIsCheckingSeries(true);
+    try {
+      const occurrences = await Promise.all(
+        dates.map(async (date): Promise<SeriesOccurrence> => {
+          // Nothing to collide with for an empty pre-planned slot
+          if (selectedCoaches.length === 0 && selectedStudents.length === 0) {
+            return { date, conflicts: [], include: true };
+          }
+
+          const { data, error } = await supabase.rpc('check_scheduling_conflicts', {
+            p_date: date,
+            p_start_time: formData.start_time,
+            p_end_time: formData.end_time,
+            p_coach_ids: selectedCoaches,
+            p_student_ids: selectedStudents,
+          });
+
+          if (error) throw error;
+          const conflicts = (data || []) as SchedulingConflict[];
+          return { date, conflicts, include: conflicts.length === 0 };
+        })
+      );
+      setSeriesOccurrences(occurrences);
+
+      const conflictCount = occurrences.filter(o => o.conflicts.length > 0).length;
+      if (conflictCount > 0) {
+        toast.warning(`${conflictCount} date${conflictCount === 1 ? ' has' : 's have'} scheduling conflicts and will be skipped unless you include them`);
+      }
+    } catch (error) {
+      console.error('Error checking series conflicts:', error);
+      toast.error('Failed to check scheduling conflicts: ' + ((error as Error).message || 'Unknown error'));
+    } finally {
+      setIsCheckingSeries(false);
+    }
+  };
+
+  const { data: sessionWaitlist } = useQuery({
+    queryKey: ['session-waitlist', selectedSession?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('session_waitlist')
+        .select('id, student_id, created_at, students (name)')
+        .eq('session_id', selectedSession!.id)
+        .eq('status', 'waiting')
+        .order('created_at');
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: isParticipantsDialogOpen && !!selectedSession,
+  });
+
+  const addToWaitlistMutation = useMutation({
+    mutationFn: async ({ sessionId, studentId }: { sessionId: string; studentId: string }) => {
+      // Re-joining after an earlier promotion puts the student back at the end of the line
+      const { error } = await supabase
+        .from('session_waitlist')
+        .upsert(
+          {
+            session_id: sessionId,
+            student_id: studentId,
+            status: 'waiting',
+            promoted_at: null,
+            created_at: new Date().toISOString(),
+          },
+          { onConflict: 'session_id,student_id' }
+        );
+
+      if (error) {
+        console.error('Waitlist insert error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['session-waitlist'] });
+      toast.success('Player added to the waitlist');
+    },
+    onError: (error) => {
+      toast.error('Failed to add player to the waitlist: ' + error.message);
+    }
+  });
+
+  const removeFromWaitlistMutation = useMutation({
+    mutationFn: async (waitlistId: string) => {
+      const { error } = await supabase
+        .from('session_waitlist')
+        .delete()
+        .eq('id', waitlistId);
+
+      if (error) {
+        console.error('Waitlist delete error:', error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['session-waitlist'] });
+      toast.success('Player removed from the waitlist');
+    },
+    onError: (error) => {
+      toast.error('Failed to remove player from the waitlist: ' + error.message);
+    }
+  });
+
+  const createSeriesMutation = useMutation({
+    mutationFn: async (session: typeof formData) => {
+      const occurrences = seriesOccurrences || [];
+      const dates = occurrences.filter(o => o.include).map(o => o.date);
+      if (dates.length === 0) throw new Error('No dates selected for this series');
+
+      // Dates left out of the report are recorded as skipped so the rule stays truthful
+      const excludedDates = occurrences.filter(o => !o.include).map(o => o.date);
+
+      // One call, so a failure leaves no half-created series. Conflicting dates kept in the report
+      // are accepted, every other date is checked again and package validity is checked for all.
+      const { data: count, error } = await supabase.rpc('create_session_series', {
+        p_branch_id: session.branch_id,
+        p_package_type: session.package_type || null,
+        p_days_of_week: recurrence.days_of_week,
+        p_start_time: session.start_time,
+        p_end_time: session.end_time,
+        p_start_date: session.date,
+        p_end_date: recurrence.end_date,
+        p_skip_dates: [...recurrence.skip_dates, ...excludedDates],
+        p_notes: session.notes || null,
+        p_max_participants: session.max_participants,
+        p_dates: dates,
+        p_accepted_conflict_dates: occurrences.filter(o => o.include && o.conflicts.length > 0).map(o => o.date),
+        p_coach_ids: selectedCoaches,
+        p_student_ids: selectedStudents,
+      });
+
+      if (error) {
+        console.error('Session series creation error:', error);
+        throw error;
+      }
+
+      return count;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['training-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['makeup-credits'] });
+      toast.success(`Created ${count} session${count === 1 ? '' : 's'} in the weekly series`);
+      resetForm();
+    },
+    onError: (error) => {
+      console.error('Create series mutation error:', error);
+      toast.error('Failed to create session series: ' + error.message);
+    }
+  });
+
+  const cancelFutureMutation = useMutation({
+    mutationFn: async (session: TrainingSession) => {
+      if (!session.series_id) throw new Error('This session is not part of a series');
+
+      const { data, error } = await supabase
+        .from('training_sessions')
+        .update({ status: 'cancelled' as SessionStatus })
+        .eq('series_id', session.series_id)
+        .gte('date', session.date)
+        .eq('status', 'scheduled')
+        .select('id');
+
+      if (error) {
+        console.error('Cancel future occurrences error:', error);
+        throw error;
+      }
+
+      return data?.length || 0;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['training-sessions'] });
+      queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['makeup-credits'] });
+      toast.success(`Cancelled ${count} session${count === 1 ? '' : 's'} in this series`);
+      resetForm();
+    },
+    onError: (error) => {
+      console.error('Cancel future mutation error:', error);
+      toast.error('Failed to cancel future sessions: ' + error.message);
+    }
+  });
+
   const createMutation = useMutation({
     mutationFn: async (session: typeof formData) => {
       if (!isPrePlan) {
@@ -432,6 +757,8 @@ export function SessionsManager() {
         }
       }
 
+      await assertCoachesAvailable(selectedCoaches, session.date, session.start_time, session.end_time);
+
       // Package cycle will be determined when attendance is taken
       const sessionPackageCycle = null;
 
@@ -448,6 +775,8 @@ export function SessionsManager() {
           notes,
           status,
           package_type,
+          series_id,
+          max_participants,
           branches (name),
           session_coaches (
             id,
@@ -465,7 +794,7 @@ export function SessionsManager() {
             coach_id,
             time_in,
             time_out,
-            coaches (name)
+            coaches!coach_session_times_coach_id_fkey (name)
           )
         `)
         .single();
@@ -525,6 +854,8 @@ export function SessionsManager() {
           console.error('Attendance records insert error:', attendanceError);
           throw attendanceError;
         }
+
+        await redeemMakeupCredits([createdSession.id], getCreditedStudentIds(selectedStudents));
       }
 
       // Send email notifications to coaches and students
@@ -614,6 +945,7 @@ export function SessionsManager() {
       console.log('Created session:', data);
       queryClient.invalidateQueries({ queryKey: ['training-sessions'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
+      queryClient.invalidateQueries({ queryKey: ['makeup-credits'] });
       
       const emailCount = data.emailNotificationSent || 0;
       if (emailCount > 0) {
@@ -678,6 +1010,7 @@ export function SessionsManager() {
               session_duration,
               package_cycle,
               status,
+              consumes_session,
               training_sessions (
                 package_cycle
               )
@@ -704,7 +1037,7 @@ export function SessionsManager() {
           // Count sessions used in current cycle
           const currentCycleSessionsUsed = ((s.attendance_records as any) || [])
             .filter((record: any) =>
-              record.status === 'present' &&
+              record.consumes_session &&
               ((record.package_cycle === currentCycle) ||
                (record.training_sessions?.package_cycle === currentCycle))
             )
@@ -752,6 +1085,41 @@ export function SessionsManager() {
         }
       }
 
+      // Coaches kept on a session at an unchanged time stay even if their availability changed since
+      const timeChanged = !editingSession ||
+        editingSession.date !== session.date ||
+        editingSession.start_time !== session.start_time ||
+        editingSession.end_time !== session.end_time;
+      const existingCoachIds = editingSession?.session_coaches.map(sc => sc.coach_id) || [];
+      await assertCoachesAvailable(
+        timeChanged ? selectedCoaches : selectedCoaches.filter(coachId => !existingCoachIds.includes(coachId)),
+        session.date,
+        session.start_time,
+        session.end_time
+      );
+
+      // Carry the edit over to the later occurrences of this series first. The database checks every
+      // one of them for clashes and package validity and writes nothing if any fails, so a rejected
+      // edit leaves this session untouched too.
+      if (seriesScope === 'future' && editingSession?.series_id) {
+        const { error: futureError } = await supabase.rpc('apply_session_to_series', {
+          p_session_id: id,
+          p_start_time: session.start_time,
+          p_end_time: session.end_time,
+          p_notes: session.notes,
+          p_package_type: session.package_type,
+          p_max_participants: session.max_participants,
+          p_coach_ids: selectedCoaches,
+          p_add_student_ids: newStudentsToValidate,
+          p_remove_student_ids: existingStudentIdsForValidation.filter(studentId => !selectedStudents.includes(studentId)),
+        });
+
+        if (futureError) {
+          console.error('Error updating future series sessions:', futureError);
+          throw futureError;
+        }
+      }
+
       const { data, error } = await supabase
         .from('training_sessions')
         .update({ ...session })
@@ -765,6 +1133,8 @@ export function SessionsManager() {
           notes,
           status,
           package_type,
+          series_id,
+          max_participants,
           branches (name),
           session_coaches (
             id,
@@ -782,7 +1152,7 @@ export function SessionsManager() {
             coach_id,
             time_in,
             time_out,
-            coaches (name)
+            coaches!coach_session_times_coach_id_fkey (name)
           )
         `)
         .single();
@@ -792,140 +1162,60 @@ export function SessionsManager() {
         throw error;
       }
 
-      // Update session_coaches
-      await supabase
+      // Update session_coaches, only touching the coaches that changed since every new row
+      // pushes an assignment notification to its coach
+      const { data: currentCoaches, error: fetchCoachesError } = await supabase
         .from('session_coaches')
-        .delete()
-        .eq('session_id', id);
-
-      if (selectedCoaches.length > 0) {
-        const { error: coachesError } = await supabase
-          .from('session_coaches')
-          .insert(
-            selectedCoaches.map(coachId => ({
-              session_id: id,
-              coach_id: coachId
-            }))
-          );
-
-        if (coachesError) {
-          console.error('Session coaches update error:', coachesError);
-          throw coachesError;
-        }
-      }
-
-      // Get existing participants and attendance records before updating
-      const { data: existingParticipants, error: fetchParticipantsError } = await supabase
-        .from('session_participants')
-        .select('student_id')
+        .select('coach_id')
         .eq('session_id', id);
 
-      if (fetchParticipantsError) {
-        console.error('Error fetching existing participants:', fetchParticipantsError);
-        throw fetchParticipantsError;
+      if (fetchCoachesError) {
+        console.error('Error fetching session coaches:', fetchCoachesError);
+        throw fetchCoachesError;
       }
 
-      const { data: existingAttendance, error: fetchAttendanceError } = await supabase
-        .from('attendance_records')
-        .select('student_id, status, session_duration, package_cycle')
-        .eq('session_id', id);
-
-      if (fetchAttendanceError) {
-        console.error('Error fetching existing attendance:', fetchAttendanceError);
-        throw fetchAttendanceError;
-      }
-
-      const existingStudentIds = (existingParticipants as { student_id: string }[] | null)?.map(p => p.student_id) || [];
-      const existingAttendanceData = Array.isArray(existingAttendance) 
-        ? (existingAttendance as unknown as Array<{ student_id: string; status: string; session_duration: number | null; package_cycle: number | null }>)
-        : [];
-      const existingAttendanceMap = new Map(
-        existingAttendanceData.map(ar => [ar.student_id, { status: ar.status, session_duration: ar.session_duration, package_cycle: ar.package_cycle }])
-      );
-
-      // Determine which students to add and remove
-      const studentsToAdd = selectedStudents.filter(id => !existingStudentIds.includes(id));
-      const studentsToRemove = existingStudentIds.filter(id => !selectedStudents.includes(id));
-
-      // Remove participants and their attendance records
-      if (studentsToRemove.length > 0) {
-        const { error: removeParticipantsError } = await supabase
-          .from('session_participants')
-          .delete()
-          .eq('session_id', id)
-          .in('student_id', studentsToRemove);
-
-        if (removeParticipantsError) {
-          console.error('Error removing participants:', removeParticipantsError);
-          throw removeParticipantsError;
-        }
+      const currentCoachIds = (currentCoaches || []).map(sc => sc.coach_id);
+      const coachesToRemove = currentCoachIds.filter(coachId => !selectedCoaches.includes(coachId));
+      const coachesToAdd = selectedCoaches.filter(coachId => !currentCoachIds.includes(coachId));
 
-        const { error: removeAttendanceError } = await supabase
-          .from('attendance_records')
+      if (coachesToRemove.length > 0) {
+        const { error: removeCoachesError } = await supabase
+          .from('session_coaches')
           .delete()
           .eq('session_id', id)
-          .in('student_id', studentsToRemove);
+          .in('coach_id', coachesToRemove);
 
-        if (removeAttendanceError) {
-          console.error('Error removing attendance records:', removeAttendanceError);
-          throw removeAttendanceError;
+        if (removeCoachesError) {
+          console.error('Session coaches remove error:', removeCoachesError);
+          throw removeCoachesError;
         }
       }
 
-      // Add new participants and create attendance records for them
-      if (studentsToAdd.length > 0) {
-        const { error: addParticipantsError } = await supabase
-          .from('session_participants')
-          .insert(
-            studentsToAdd.map(studentId => ({
-              session_id: id,
-              student_id: studentId
-            }))
-          );
-
-        if (addParticipantsError) {
-          console.error('Error adding participants:', addParticipantsError);
-          throw addParticipantsError;
-        }
-
-        // Create attendance records for new participants only
-        const { error: addAttendanceError } = await supabase
-          .from('attendance_records')
+      if (coachesToAdd.length > 0) {
+        const { error: coachesError } = await supabase
+          .from('session_coaches')
           .insert(
-            studentsToAdd.map(studentId => ({
+            coachesToAdd.map(coachId => ({
               session_id: id,
-              student_id: studentId,
-              status: 'pending' as const
+              coach_id: coachId
             }))
           );
 
-        if (addAttendanceError) {
-          console.error('Error adding attendance records:', addAttendanceError);
-          throw addAttendanceError;
+        if (coachesError) {
+          console.error('Session coaches update error:', coachesError);
+          throw coachesError;
         }
       }
 
-      // If no students selected, remove all participants and attendance records
-      if (selectedStudents.length === 0 && existingStudentIds.length > 0) {
-        const { error: removeAllParticipantsError } = await supabase
-          .from('session_participants')
-          .delete()
-          .eq('session_id', id);
-
-        if (removeAllParticipantsError) {
-          console.error('Error removing all participants:', removeAllParticipantsError);
-          throw removeAllParticipantsError;
-        }
-
-        const { error: removeAllAttendanceError } = await supabase
-          .from('attendance_records')
-          .delete()
-          .eq('session_id', id);
+      // Removes, adds and fills freed spots from the waitlist in one go, the database emails the promotions
+      const { error: participantsError } = await supabase.rpc('set_session_participants', {
+        p_session_id: id,
+        p_student_ids: selectedStudents,
+      });
 
-        if (removeAllAttendanceError) {
-          console.error('Error removing all attendance records:', removeAllAttendanceError);
-          throw removeAllAttendanceError;
-        }
+      if (participantsError) {
+        console.error('Error updating participants:', participantsError);
+        throw participantsError;
       }
 
       return data as TrainingSession;
@@ -935,7 +1225,11 @@ export function SessionsManager() {
       queryClient.invalidateQueries({ queryKey: ['training-sessions'] });
       queryClient.invalidateQueries({ queryKey: ['attendance-records'] });
       queryClient.invalidateQueries({ queryKey: ['dashboard-stats'] });
-      toast.success('Training session updated successfully');
+      queryClient.invalidateQueries({ queryKey: ['makeup-credits'] });
+      queryClient.invalidateQueries({ queryKey: ['session-waitlist'] });
+      toast.success(seriesScope === 'future' && editingSession?.series_id
+        ? 'This and all future sessions in the series were updated'
+        : 'Training session updated successfully');
       resetForm();
     },
     onError: (error) => {
@@ -1012,11 +1306,17 @@ export function SessionsManager() {
       notes: "",
       status: "scheduled" as SessionStatus,
       package_type: "",
+      max_participants: null,
     });
     setSelectedStudents([]);
     setSelectedCoaches([]);
     setEditingSession(null);
     setIsPrePlan(false);
+    setIsRecurring(false);
+    setRecurrence({ days_of_week: [], end_date: "", skip_dates: [] });
+    setSkipDateInput("");
+    setSeriesOccurrences(null);
+    setSeriesScope("single");
     setIsDialogOpen(false);
     setIsParticipantsDialogOpen(false);
     setIsViewDialogOpen(false);
@@ -1050,6 +1350,30 @@ export function SessionsManager() {
       return;
     }
 
+    if (formData.max_participants != null && selectedStudents.length > formData.max_participants) {
+      toast.error(`This session allows ${formData.max_participants} players but ${selectedStudents.length} are selected`);
+      return;
+    }
+
+    const isCreatingSeries = isRecurring && !editingSession;
+
+    if (isCreatingSeries) {
+      if (recurrence.days_of_week.length === 0) {
+        toast.error('Please select at least one day to repeat on');
+        return;
+      }
+
+      if (!recurrence.end_date || recurrence.end_date < formData.date) {
+        toast.error('The repeat-until date must be on or after the first session date');
+        return;
+      }
+
+      if (differenceInCalendarDays(parseISO(recurrence.end_date), parseISO(formData.date)) > 366) {
+        toast.error('A weekly series can span at most one year');
+        return;
+      }
+    }
+
     // Determine which students need validation (only NEW students when editing)
     let studentsToValidate = selectedStudents;
     
@@ -1076,6 +1400,7 @@ export function SessionsManager() {
               session_duration,
               package_cycle,
               status,
+              consumes_session,
               training_sessions (
                 package_cycle
               )
@@ -1103,7 +1428,7 @@ export function SessionsManager() {
           // Count sessions used in current cycle
           const currentCycleSessionsUsed = ((s.attendance_records as any) || [])
             .filter((record: any) =>
-              record.status === 'present' &&
+              record.consumes_session &&
               ((record.package_cycle === currentCycle) ||
                (record.training_sessions?.package_cycle === currentCycle))
             )
@@ -1140,6 +1465,16 @@ export function SessionsManager() {
       }
     }
 
+    // Series run check_scheduling_conflicts per date and let the admin review the report first
+    if (isCreatingSeries) {
+      if (!seriesOccurrences) {
+        await checkSeriesConflicts();
+        return;
+      }
+      createSeriesMutation.mutate(formData);
+      return;
+    }
+
     // Check for conflicts
     const hasConflict = sessions?.some(session =>
       session.date === formData.date &&
@@ -1173,9 +1508,11 @@ export function SessionsManager() {
       notes: session.notes || "",
       status: session.status,
       package_type: session.package_type || "",
+      max_participants: session.max_participants ?? null,
     });
     setSelectedStudents(session.session_participants?.map(p => p.student_id) || []);
     setSelectedCoaches(session.session_coaches?.map(sc => sc.coach_id) || []);
+    setSeriesScope("single");
     setIsDialogOpen(true);
   };
 
@@ -1190,11 +1527,16 @@ export function SessionsManager() {
       ...prev,
       branch_id: session.branch_id,
       package_type: session.package_type || "",
+      max_participants: session.max_participants ?? null,
     }));
     setSelectedStudents(session.session_participants?.map(p => p.student_id) || []);
     setIsParticipantsDialogOpen(true);
   };
 
+  const participantsCapacity = selectedSession?.max_participants ?? null;
+  const isParticipantsFull = participantsCapacity != null && selectedStudents.length >= participantsCapacity;
+  const waitlistedStudentIds = sessionWaitlist?.map(entry => entry.student_id) || [];
+
   const handleCoachToggle = (coachId: string) => {
     setSelectedCoaches(prev => {
       if (prev.includes(coachId)) {
@@ -1339,7 +1681,13 @@ export function SessionsManager() {
                             <Select
                               value={formData.package_type}
                               onValueChange={(value) => {
-                                setFormData(prev => ({ ...prev, package_type: value }));
+                                // New sessions start from the package's default capacity
+                                const defaultCapacity = packages?.find(pkg => pkg.name === value)?.default_max_participants ?? null;
+                                setFormData(prev => ({
+                                  ...prev,
+                                  package_type: value,
+                                  max_participants: editingSession ? prev.max_participants : defaultCapacity,
+                                }));
                                 setSelectedStudents([]);
                                 setSelectedCoaches([]);
                               }}
@@ -1376,22 +1724,31 @@ export function SessionsManager() {
                                 <p className="text-xs sm:text-sm text-gray-600">No coaches available.</p>
                               ) : (
                                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                                  {coaches?.map(coach => (
-                                    <div key={coach.id} className="flex items-center space-x-2 p-2 rounded-md hover:bg-white transition-colors min-w-0">
-                                      <input
-                                        type="checkbox"
-                                        id={`coach-${coach.id}`}
-                                        checked={selectedCoaches.includes(coach.id)}
-                                        onChange={() => handleCoachToggle(coach.id)}
-                                        className="w-4 h-4 rounded border-2 border-accent text-accent focus:ring-accent flex-shrink-0"
-                                        style={{ borderColor: '#79e58f', accentColor: '#79e58f' }}
-                                        disabled={formData.package_type === "Personal Training" && selectedCoaches.length === 1 && !selectedCoaches.includes(coach.id)}
-                                      />
-                                      <Label htmlFor={`coach-${coach.id}`} className="flex-1 text-xs sm:text-sm cursor-pointer truncate">
-                                        {coach.name}
-                                      </Label>
-                                    </div>
-                                  ))}
+                                  {coaches?.map(coach => {
+                                    const unavailable = coachAvailabilityConflicts?.find(conflict => conflict.coach_id === coach.id);
+                                    return (
+                                      <div key={coach.id} className="flex items-center space-x-2 p-2 rounded-md hover:bg-white transition-colors min-w-0">
+                                        <input
+                                          type="checkbox"
+                                          id={`coach-${coach.id}`}
+                                          checked={selectedCoaches.includes(coach.id)}
+                                          onChange={() => handleCoachToggle(coach.id)}
+                                          className="w-4 h-4 rounded border-2 border-accent text-accent focus:ring-accent flex-shrink-0"
+                                          style={{ borderColor: '#79e58f', accentColor: '#79e58f' }}
+                                          disabled={
+                                            (formData.package_type === "Personal Training" && selectedCoaches.length === 1 && !selectedCoaches.includes(coach.id)) ||
+                                            (!!unavailable && !selectedCoaches.includes(coach.id))
+                                          }
+                                        />
+                                        <Label htmlFor={`coach-${coach.id}`} className={`flex-1 text-xs sm:text-sm cursor-pointer min-w-0 ${unavailable ? 'text-gray-400' : ''}`}>
+                                          <span className="block truncate">{coach.name}</span>
+                                          {unavailable && (
+                                            <span className="block text-[10px] text-orange-600 whitespace-normal">{unavailable.conflict_details.replace(`Coach ${coach.name} is `, '')}</span>
+                                          )}
+                                        </Label>
+                                      </div>
+                                    );
+                                  })}
                                 </div>
                               )}
                               <p className="text-xs text-gray-600 mt-2">
@@ -1475,11 +1832,31 @@ export function SessionsManager() {
                             />
                           </div>
                         </div>
+                        <div className="flex flex-col space-y-2 min-w-0">
+                          <Label htmlFor="max_participants" className="flex items-center text-xs sm:text-sm font-medium text-gray-700 truncate">
+                            <Users className="w-4 h-4 mr-2 text-accent flex-shrink-0" style={{ color: '#79e58f' }} />
+                            Max Players (Optional)
+                          </Label>
+                          <Input
+                            id="max_participants"
+                            type="number"
+                            min={1}
+                            value={formData.max_participants ?? ""}
+                            onChange={(e) => setFormData(prev => ({
+                              ...prev,
+                              max_participants: e.target.value ? Math.max(1, parseInt(e.target.value)) : null,
+                            }))}
+                            placeholder="No limit"
+                            className="border-2 border-gray-200 rounded-lg focus:border-accent focus:ring-accent/20 w-full text-xs sm:text-sm"
+                            disabled={!formData.branch_id}
+                            style={{ borderColor: '#79e58f' }}
+                          />
+                        </div>
                         {!isPrePlan && (
                           <div className="flex flex-col space-y-2 min-w-0">
                             <Label className="flex items-center text-xs sm:text-sm font-medium text-gray-700 truncate">
                               <Users className="w-4 h-4 mr-2 text-accent flex-shrink-0" style={{ color: '#79e58f' }} />
-                              Select Players ({selectedStudents.length} selected)
+                              Select Players ({selectedStudents.length}{formData.max_participants != null ? ` of ${formData.max_participants}` : ''} selected)
                             </Label>
                             <div className="border-2 rounded-lg p-3 max-h-48 overflow-y-auto bg-white shadow-sm" style={{ borderColor: '#242833' }}>
                               {formData.branch_id && formData.package_type ? (
@@ -1510,7 +1887,7 @@ export function SessionsManager() {
                                       </Label>
                                     </div>
                                     <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
-                                      {students.map(student => (
+                                      {orderedStudents.map(student => (
                                         <div key={student.id} className="flex items-center space-x-2 p-2 rounded-md hover:bg-white transition-colors min-w-0">
                                           <input
                                             type="checkbox"
@@ -1524,6 +1901,10 @@ export function SessionsManager() {
                                                 );
                                                 return;
                                               }
+                                              if (e.target.checked && formData.max_participants != null && selectedStudents.length >= formData.max_participants) {
+                                                toast.error(`This session is full (${formData.max_participants} players). Raise the max players or use the waitlist.`);
+                                                return;
+                                              }
                                               if (e.target.checked) {
                                                 setSelectedStudents(prev => [...prev, student.id]);
                                               } else {
@@ -1542,6 +1923,11 @@ export function SessionsManager() {
                                           >
                                             {student.name} ({student.current_remaining_sessions ?? student.remaining_sessions ?? 0} sessions left)
                                           </Label>
+                                          {getOutstandingMakeupCredits(student) > 0 && (
+                                            <span className="text-xs font-medium text-amber-600 whitespace-nowrap flex-shrink-0">
+                                              Make-up owed ({getOutstandingMakeupCredits(student)})
+                                            </span>
+                                          )}
                                         </div>
                                       ))}
                                     </div>
@@ -1568,6 +1954,176 @@ export function SessionsManager() {
                             style={{ borderColor: '#79e58f' }}
                           />
                         </div>
+                        {!editingSession && (
+                          <div className="flex flex-col space-y-3 min-w-0 border-2 rounded-lg p-3 bg-white shadow-sm" style={{ borderColor: '#242833' }}>
+                            <div className="flex items-center space-x-2">
+                              <input
+                                type="checkbox"
+                                id="repeat-weekly"
+                                checked={isRecurring}
+                                onChange={(e) => setIsRecurring(e.target.checked)}
+                                className="w-4 h-4 rounded border-2 border-accent text-accent focus:ring-accent flex-shrink-0"
+                                style={{ borderColor: '#79e58f', accentColor: '#79e58f' }}
+                                disabled={!formData.branch_id}
+                              />
+                              <Label htmlFor="repeat-weekly" className="flex items-center text-xs sm:text-sm font-medium text-gray-700 cursor-pointer">
+                                <Repeat className="w-4 h-4 mr-2 text-accent flex-shrink-0" style={{ color: '#79e58f' }} />
+                                Repeat weekly
+                              </Label>
+                            </div>
+                            {isRecurring && (
+                              <>
+                                <div className="flex flex-col space-y-2 min-w-0">
+                                  <Label className="text-xs sm:text-sm font-medium text-gray-700">Repeat on</Label>
+                                  <div className="flex flex-wrap gap-2">
+                                    {Constants.public.Enums.day_of_week.map(day => {
+                                      const isSelected = recurrence.days_of_week.includes(day);
+                                      return (
+                                        <Button
+                                          key={day}
+                                          type="button"
+                                          variant="outline"
+                                          size="sm"
+                                          onClick={() => setRecurrence(prev => ({
+                                            ...prev,
+                                            days_of_week: isSelected
+                                              ? prev.days_of_week.filter(d => d !== day)
+                                              : [...prev.days_of_week, day],
+                                          }))}
+                                          className={`h-8 px-3 text-xs capitalize border-2 ${isSelected ? 'text-white' : 'text-gray-700'}`}
+                                          style={{ borderColor: '#79e58f', backgroundColor: isSelected ? '#79e58f' : 'transparent' }}
+                                        >
+                                          {day.slice(0, 3)}
+                                        </Button>
+                                      );
+                                    })}
+                                  </div>
+                                </div>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                                  <div className="flex flex-col space-y-2 min-w-0">
+                                    <Label htmlFor="series_end_date" className="flex items-center text-xs sm:text-sm font-medium text-gray-700 truncate">
+                                      <Calendar className="w-4 h-4 mr-2 text-accent flex-shrink-0" style={{ color: '#79e58f' }} />
+                                      Repeat Until
+                                    </Label>
+                                    <Input
+                                      id="series_end_date"
+                                      type="date"
+                                      value={recurrence.end_date}
+                                      min={formData.date || undefined}
+                                      onChange={(e) => setRecurrence(prev => ({ ...prev, end_date: e.target.value }))}
+                                      className="border-2 border-gray-200 rounded-lg focus:border-accent focus:ring-accent/20 w-full text-xs sm:text-sm"
+                                      style={{ borderColor: '#79e58f' }}
+                                    />
+                                  </div>
+                                  <div className="flex flex-col space-y-2 min-w-0">
+                                    <Label htmlFor="series_skip_date" className="flex items-center text-xs sm:text-sm font-medium text-gray-700 truncate">
+                                      <X className="w-4 h-4 mr-2 text-accent flex-shrink-0" style={{ color: '#79e58f' }} />
+                                      Skip Dates (Optional)
+                                    </Label>
+                                    <div className="flex gap-2">
+                                      <Input
+                                        id="series_skip_date"
+                                        type="date"
+                                        value={skipDateInput}
+                                        min={formData.date || undefined}
+                                        max={recurrence.end_date || undefined}
+                                        onChange={(e) => setSkipDateInput(e.target.value)}
+                                        className="border-2 border-gray-200 rounded-lg focus:border-accent focus:ring-accent/20 w-full text-xs sm:text-sm"
+                                        style={{ borderColor: '#79e58f' }}
+                                      />
+                                      <Button
+                                        type="button"
+                                        variant="outline"
+                                        onClick={() => {
+                                          if (!skipDateInput || recurrence.skip_dates.includes(skipDateInput)) return;
+                                          setRecurrence(prev => ({ ...prev, skip_dates: [...prev.skip_dates, skipDateInput].sort() }));
+                                          setSkipDateInput("");
+                                        }}
+                                        disabled={!skipDateInput}
+                                        className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs sm:text-sm"
+                                      >
+                                        Add
+                                      </Button>
+                                    </div>
+                                  </div>
+                                </div>
+                                {recurrence.skip_dates.length > 0 && (
+                                  <div className="flex flex-wrap gap-2">
+                                    {recurrence.skip_dates.map(date => (
+                                      <span key={date} className="inline-flex items-center gap-1 px-2 py-0.5 bg-amber-50 text-amber-700 border border-amber-200 rounded text-xs">
+                                        {formatDisplayDate(date)}
+                                        <button
+                                          type="button"
+                                          onClick={() => setRecurrence(prev => ({ ...prev, skip_dates: prev.skip_dates.filter(d => d !== date) }))}
+                                          className="hover:text-amber-900"
+                                        >
+                                          <X className="w-3 h-3" />
+                                        </button>
+                                      </span>
+                                    ))}
+                                  </div>
+                                )}
+                                {seriesOccurrences && (
+                                  <div className="flex flex-col space-y-2 min-w-0">
+                                    <Label className="text-xs sm:text-sm font-medium text-gray-700">
+                                      Conflict Report ({seriesOccurrences.filter(o => o.include).length} of {seriesOccurrences.length} dates will be created)
+                                    </Label>
+                                    <div className="border rounded-lg max-h-56 overflow-y-auto divide-y divide-gray-100 bg-gray-50">
+                                      {seriesOccurrences.map(occurrence => (
+                                        <div key={occurrence.date} className="flex items-start gap-2 p-2">
+                                          <input
+                                            type="checkbox"
+                                            id={`occurrence-${occurrence.date}`}
+                                            checked={occurrence.include}
+                                            onChange={(e) => setSeriesOccurrences(prev => prev?.map(o =>
+                                              o.date === occurrence.date ? { ...o, include: e.target.checked } : o
+                                            ) || null)}
+                                            className="w-4 h-4 mt-0.5 rounded border-2 border-accent text-accent focus:ring-accent flex-shrink-0"
+                                            style={{ borderColor: '#79e58f', accentColor: '#79e58f' }}
+                                          />
+                                          <div className="min-w-0 flex-1">
+                                            <Label htmlFor={`occurrence-${occurrence.date}`} className="text-xs sm:text-sm font-medium text-gray-700 cursor-pointer">
+                                              {format(parseISO(occurrence.date), 'EEE, MMM dd, yyyy')}
+                                            </Label>
+                                            {occurrence.conflicts.length === 0 ? (
+                                              <p className="text-xs text-green-700">No conflicts</p>
+                                            ) : (
+                                              occurrence.conflicts.map((conflict, index) => (
+                                                <p key={index} className="text-xs text-red-600">
+                                                  <span className="capitalize">{conflict.conflict_type}</span>: {conflict.conflict_details}
+                                                </p>
+                                              ))
+                                            )}
+                                          </div>
+                                        </div>
+                                      ))}
+                                    </div>
+                                  </div>
+                                )}
+                              </>
+                            )}
+                          </div>
+                        )}
+                        {editingSession?.series_id && (
+                          <div className="flex flex-col space-y-2 min-w-0">
+                            <Label className="flex items-center text-xs sm:text-sm font-medium text-gray-700 truncate">
+                              <Repeat className="w-4 h-4 mr-2 text-accent flex-shrink-0" style={{ color: '#79e58f' }} />
+                              Apply Changes To
+                            </Label>
+                            <Select value={seriesScope} onValueChange={(value: "single" | "future") => setSeriesScope(value)}>
+                              <SelectTrigger className="border-2 border-gray-200 rounded-lg focus:border-accent focus:ring-accent/20 w-full text-xs sm:text-sm" style={{ borderColor: '#79e58f' }}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="single" className="text-xs sm:text-sm">This session only</SelectItem>
+                                <SelectItem value="future" className="text-xs sm:text-sm">This and all future sessions in the series</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            {seriesScope === 'future' && (
+                              <p className="text-xs text-gray-600">Time, status, notes, coaches and player changes are copied to later sessions. The date only changes for this session.</p>
+                            )}
+                          </div>
+                        )}
                         <div className="flex flex-row justify-end gap-2 pt-4 border-t border-gray-200">
                           {editingSession && (
                             <Button 
@@ -1585,6 +2141,21 @@ export function SessionsManager() {
                               Delete
                             </Button>
                           )}
+                          {editingSession?.series_id && (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={() => {
+                                if (window.confirm("Cancel this session and all future scheduled sessions in the series?")) {
+                                  cancelFutureMutation.mutate(editingSession);
+                                }
+                              }}
+                              disabled={cancelFutureMutation.isPending}
+                              className="border-2 border-red-300 text-red-600 hover:bg-red-50 min-w-fit w-auto px-2 sm:px-3 text-xs sm:text-sm"
+                            >
+                              Cancel This & Future
+                            </Button>
+                          )}
                           <Button 
                             type="button" 
                             variant="outline" 
@@ -1598,6 +2169,9 @@ export function SessionsManager() {
                             disabled={
                               createMutation.isPending || 
                               updateMutation.isPending || 
+                              createSeriesMutation.isPending ||
+                              isCheckingSeries ||
+                              (isRecurring && !editingSession && seriesOccurrences?.every(o => !o.include)) ||
                               !formData.branch_id || 
                               (!isPrePlan && !formData.package_type) || 
                               (!isPrePlan && selectedCoaches.length === 0) ||
@@ -1608,7 +2182,15 @@ export function SessionsManager() {
                             className="bg-accent hover:bg-[#5bc46d] text-white min-w-fit w-auto px-2 sm:px-3 text-xs sm:text-sm"
                             style={{ backgroundColor: '#79e58f' }}
                           >
-                            {editingSession ? 'Update' : 'Create'}
+                            {editingSession
+                              ? 'Update'
+                              : isRecurring
+                                ? isCheckingSeries
+                                  ? 'Checking...'
+                                  : seriesOccurrences
+                                    ? `Create ${seriesOccurrences.filter(o => o.include).length} Sessions`
+                                    : 'Check Conflicts'
+                                : 'Create'}
                           </Button>
                         </div>
                       </form>
@@ -1774,7 +2356,8 @@ export function SessionsManager() {
                           session.session_coaches?.map(sc => sc.coaches?.name).filter(Boolean).join('; ') || '',
                           session.session_participants?.map(sp => sp.students?.name).filter(Boolean).join('; ') || '',
                           session.notes || ''
-                        ]
+                        ],
+                        'Sessions Report'
                       );
                       toast.success('Sessions report exported to Excel successfully');
                     }}
@@ -1844,6 +2427,12 @@ export function SessionsManager() {
                                 Pre-planned
                               </span>
                             )}
+                            {session.series_id && (
+                              <span className="px-2 py-0.5 rounded text-[10px] font-semibold bg-indigo-500 text-white inline-flex items-center gap-1">
+                                <Repeat className="w-3 h-3" />
+                                Weekly
+                              </span>
+                            )}
                           </div>
                         </div>
                         
@@ -2139,7 +2728,8 @@ export function SessionsManager() {
                     <span className="font-medium">Coaches:</span> {selectedSession?.session_coaches.length > 0 ? selectedSession.session_coaches.map(sc => sc.coaches.name).join(', ') : 'No coaches assigned'}
                   </p>
                   <p className="text-xs sm:text-sm text-gray-600">
-                    Currently selected: {selectedStudents.length} players
+                    Currently selected: {selectedStudents.length}{participantsCapacity != null ? ` of ${participantsCapacity}` : ''} players
+                    {isParticipantsFull && <span className="ml-2 font-medium text-amber-600">Session full</span>}
                   </p>
                 </div>
               </div>
@@ -2170,6 +2760,10 @@ export function SessionsManager() {
                                 );
                                 return;
                               }
+                              if (e.target.checked && isParticipantsFull) {
+                                toast.error(`This session is full (${participantsCapacity} players). Add ${student.name} to the waitlist instead.`);
+                                return;
+                              }
                               if (e.target.checked) {
                                 setSelectedStudents(prev => [...prev, student.id]);
                               } else {
@@ -2188,12 +2782,57 @@ export function SessionsManager() {
                           >
                             {student.name} ({student.current_remaining_sessions ?? student.remaining_sessions ?? 0} sessions left)
                           </Label>
+                          {waitlistedStudentIds.includes(student.id) ? (
+                            <span className="text-xs text-amber-600 flex-shrink-0">
+                              #{waitlistedStudentIds.indexOf(student.id) + 1} on waitlist
+                            </span>
+                          ) : isParticipantsFull && !selectedStudents.includes(student.id) && (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => selectedSession && addToWaitlistMutation.mutate({ sessionId: selectedSession.id, studentId: student.id })}
+                              disabled={addToWaitlistMutation.isPending}
+                              className="h-6 px-2 text-xs flex-shrink-0"
+                            >
+                              Waitlist
+                            </Button>
+                          )}
                         </div>
                       ))}
                     </div>
                   )}
                 </div>
               </div>
+              {sessionWaitlist && sessionWaitlist.length > 0 && (
+                <div className="space-y-2">
+                  <Label className="text-xs sm:text-sm font-medium text-gray-700">
+                    Waitlist ({sessionWaitlist.length})
+                  </Label>
+                  <div className="border-2 rounded-lg p-3 bg-gray-50 space-y-1" style={{ borderColor: '#242833' }}>
+                    {sessionWaitlist.map((entry, index) => (
+                      <div key={entry.id} className="flex items-center justify-between gap-2 p-2 rounded-md bg-white min-w-0">
+                        <span className="text-xs sm:text-sm text-gray-700 truncate">
+                          {index + 1}. {entry.students?.name || 'Unknown player'}
+                        </span>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeFromWaitlistMutation.mutate(entry.id)}
+                          disabled={removeFromWaitlistMutation.isPending}
+                          className="h-6 w-6 p-0 text-gray-500 hover:text-red-600 flex-shrink-0"
+                        >
+                          <X className="w-3.5 h-3.5" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    The first player in line is moved into the session automatically when a spot opens.
+                  </p>
+                </div>
+              )}
               <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200 flex-wrap gap-2">
                 <Button 
                   variant="outline" 
@@ -2206,6 +2845,11 @@ export function SessionsManager() {
                   onClick={async () => {
                     if (!selectedSession) return;
 
+                    if (participantsCapacity != null && selectedStudents.length > participantsCapacity) {
+                      toast.error(`This session allows ${participantsCapacity} players but ${selectedStudents.length} are selected`);
+                      return;
+                    }
+
                     // Get existing participants to determine which students are NEW
                     const { data: existingParticipantsData, error: existingParticipantsError } = await supabase
                       .from('session_participants')
@@ -2240,6 +2884,7 @@ export function SessionsManager() {
                             session_duration,
                             package_cycle,
                             status,
+                            consumes_session,
                             training_sessions (
                               package_cycle
                             )
@@ -2267,7 +2912,7 @@ export function SessionsManager() {
                         // Count sessions used in current cycle
                         const currentCycleSessionsUsed = ((s.attendance_records as any) || [])
                           .filter((record: any) =>
-                            record.status === 'present' &&
+                            record.consumes_session &&
                             ((record.package_cycle === currentCycle) ||
                              (record.training_sessions?.package_cycle === currentCycle))
                           )
@@ -2301,133 +2946,28 @@ export function SessionsManager() {
                     }
 
                     try {
-                      // Get existing participants and attendance records before updating
-                      const { data: existingParticipants, error: fetchParticipantsError } = await supabase
-                        .from('session_participants')
-                        .select('student_id')
-                        .eq('session_id', selectedSession.id);
-
-                      if (fetchParticipantsError) {
-                        console.error('Error fetching existing participants:', fetchParticipantsError);
-                        toast.error('Failed to fetch existing participants: ' + fetchParticipantsError.message);
-                        return;
-                      }
-
-                      const { data: existingAttendance, error: fetchAttendanceError } = await supabase
-                        .from('attendance_records')
-                        .select('student_id, status, session_duration, package_cycle')
-                        .eq('session_id', selectedSession.id);
+                      // Removes, adds and fills freed spots from the waitlist in one go, the database emails the promotions
+                      const { data: promoted, error: participantsError } = await supabase.rpc('set_session_participants', {
+                        p_session_id: selectedSession.id,
+                        p_student_ids: selectedStudents,
+                      });
 
-                      if (fetchAttendanceError) {
-                        console.error('Error fetching existing attendance:', fetchAttendanceError);
-                        toast.error('Failed to fetch existing attendance: ' + fetchAttendanceError.message);
+                      if (participantsError) {
+                        console.error('Error updating participants:', participantsError);
+                        toast.error('Failed to update participants: ' + participantsError.message);
                         return;
                       }
 
-                      const existingStudentIds = Array.isArray(existingParticipants)
-                        ? (existingParticipants as { student_id: string }[]).map(p => p.student_id)
-                        : [];
-                      const existingAttendanceData = Array.isArray(existingAttendance) 
-                        ? (existingAttendance as unknown as Array<{ student_id: string; status: string; session_duration: number | null; package_cycle: number | null }>)
-                        : [];
-                      const existingAttendanceMap = new Map(
-                        existingAttendanceData.map(ar => [ar.student_id, { status: ar.status, session_duration: ar.session_duration, package_cycle: ar.package_cycle }])
-                      );
-
-                      // Determine which students to add and remove
-                      const studentsToAdd = selectedStudents.filter(id => !existingStudentIds.includes(id));
-                      const studentsToRemove = existingStudentIds.filter(id => !selectedStudents.includes(id));
-
-                      // Remove participants and their attendance records
-                      if (studentsToRemove.length > 0) {
-                        const { error: removeParticipantsError } = await supabase
-                          .from('session_participants')
-                          .delete()
-                          .eq('session_id', selectedSession.id)
-                          .in('student_id', studentsToRemove);
-
-                        if (removeParticipantsError) {
-                          console.error('Error removing participants:', removeParticipantsError);
-                          toast.error('Failed to remove participants: ' + removeParticipantsError.message);
-                          return;
-                        }
-
-                        const { error: removeAttendanceError } = await supabase
-                          .from('attendance_records')
-                          .delete()
-                          .eq('session_id', selectedSession.id)
-                          .in('student_id', studentsToRemove);
-
-                        if (removeAttendanceError) {
-                          console.error('Error removing attendance records:', removeAttendanceError);
-                          toast.error('Failed to remove attendance records: ' + removeAttendanceError.message);
-                          return;
-                        }
-                      }
-
-                      // Add new participants and create attendance records for them
-                      if (studentsToAdd.length > 0) {
-                        const { error: addParticipantsError } = await supabase
-                          .from('session_participants')
-                          .insert(
-                            studentsToAdd.map(studentId => ({
-                              session_id: selectedSession.id,
-                              student_id: studentId
-                            }))
-                          );
-
-                        if (addParticipantsError) {
-                          console.error('Error adding participants:', addParticipantsError);
-                          toast.error('Failed to add participants: ' + addParticipantsError.message);
-                          return;
-                        }
-
-                        // Create attendance records for new participants only
-                        const { error: addAttendanceError } = await supabase
-                          .from('attendance_records')
-                          .insert(
-                            studentsToAdd.map(studentId => ({
-                              session_id: selectedSession.id,
-                              student_id: studentId,
-                              status: 'pending' as const
-                            }))
-                          );
-
-                        if (addAttendanceError) {
-                          console.error('Error adding attendance records:', addAttendanceError);
-                          toast.error('Failed to add attendance records: ' + addAttendanceError.message);
-                          return;
-                        }
-                      }
-
-                      // If no students selected, remove all participants and attendance records
-                      if (selectedStudents.length === 0 && existingStudentIds.length > 0) {
-                        const { error: removeAllParticipantsError } = await supabase
-                          .from('session_participants')
-                          .delete()
-                          .eq('session_id', selectedSession.id);
-
-                        if (removeAllParticipantsError) {
-                          console.error('Error removing all participants:', removeAllParticipantsError);
-                          toast.error('Failed to remove all participants: ' + removeAllParticipantsError.message);
-                          return;
-                        }
-
-                        const { error: removeAllAttendanceError } = await supabase
-                          .from('attendance_records')
-                          .delete()
-                          .eq('session_id', selectedSession.id);
-
-                        if (removeAllAttendanceError) {
-                          console.error('Error removing all attendance records:', removeAllAttendanceError);
-                          toast.error('Failed to remove all attendance records: ' + removeAllAttendanceError.message);
-                          return;
-                        }
-                      }
+                      const promotedIds = (promoted || []).map(p => p.student_id);
 
                       queryClient.invalidateQueries({ queryKey: ['training-sessions'] });
                       queryClient.invalidateQueries({ queryKey: ['attendance-records'] });
-                      toast.success('Participants updated successfully');
+                      queryClient.invalidateQueries({ queryKey: ['session-waitlist'] });
+                      toast.success(
+                        promotedIds.length > 0
+                          ? `Participants updated. ${promotedIds.length} waitlisted player${promotedIds.length === 1 ? ' was' : 's were'} moved into the session.`
+                          : 'Participants updated successfully'
+                      );
                       setIsParticipantsDialogOpen(false);
                     } catch (error: any) {
                       console.error('Error updating participants:', error);
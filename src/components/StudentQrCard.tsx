@@ -0,0 +1,128 @@
+import { useEffect, useRef, useState } from "react";
+import { Download, Printer, QrCode, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { generateCheckInQrDataUrl } from "@/utils/checkIn";
+
+interface StudentQrCardProps {
+  name: string;
+  token: string;
+  packageType?: string | null;
+  branchName?: string | null;
+  onRegenerate?: () => void;
+  isRegenerating?: boolean;
+}
+
+/**
+ * Player card with the personal check-in QR code, printable or downloadable as an image
+ */
+export function StudentQrCard({ name, token, packageType, branchName, onRegenerate, isRegenerating }: StudentQrCardProps) {
+  const cardRef = useRef<HTMLDivElement>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    generateCheckInQrDataUrl(token)
+      .then((url) => {
+        if (!cancelled) setQrDataUrl(url);
+      })
+      .catch((error) => {
+        console.error("QR code error:", error);
+        toast.error("Failed to generate QR code: " + (error as Error).message);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handlePrint = () => {
+    if (!cardRef.current) return;
+    const printWindow = window.open("", "_blank");
+    if (!printWindow) {
+      toast.error("Please allow popups to print the card");
+      return;
+    }
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Check-in Card - ${name}</title>
+          <style>
+            body {
+              font-family: Arial, sans-serif;
+              margin: 0;
+              padding: 20px;
+              -webkit-print-color-adjust: exact;
+              print-color-adjust: exact;
+            }
+          </style>
+        </head>
+        <body>
+          ${cardRef.current.innerHTML}
+          <script>
+            window.onload = function() {
+              window.print();
+            };
+          </script>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+  };
+
+  const handleDownload = () => {
+    if (!qrDataUrl) return;
+    const link = document.createElement("a");
+    link.download = `check-in-${name.replace(/\s+/g, "-").toLowerCase()}.png`;
+    link.href = qrDataUrl;
+    link.click();
+  };
+
+  return (
+    <div className="space-y-3">
+      <div ref={cardRef}>
+        <div style={{ width: 260, margin: "0 auto", border: "2px solid #242833", borderRadius: 12, overflow: "hidden", background: "#ffffff", textAlign: "center" }}>
+          <div style={{ background: "#242833", color: "#efeff1", padding: "8px 12px", fontWeight: 700, fontSize: 14 }}>
+            TAKEOVER BASKETBALL
+          </div>
+          <div style={{ padding: 12 }}>
+            {qrDataUrl ? (
+              <img src={qrDataUrl} alt={`Check-in QR code for ${name}`} style={{ width: 200, height: 200, display: "block", margin: "0 auto" }} />
+            ) : (
+              <div style={{ width: 200, height: 200, margin: "0 auto" }} />
+            )}
+            <div style={{ marginTop: 8, fontWeight: 700, fontSize: 16, color: "#242833" }}>{name}</div>
+            {(packageType || branchName) && (
+              <div style={{ marginTop: 2, fontSize: 12, color: "#6b7280" }}>
+                {[packageType, branchName].filter(Boolean).join(" • ")}
+              </div>
+            )}
+            <div style={{ marginTop: 6, fontSize: 11, color: "#6b7280" }}>Show this code to your coach to check in</div>
+          </div>
+        </div>
+      </div>
+      <div className="flex flex-wrap justify-center gap-2">
+        <Button variant="outline" size="sm" onClick={handlePrint} disabled={!qrDataUrl} className="text-xs sm:text-sm">
+          <Printer className="w-4 h-4 mr-1" />
+          Print
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleDownload} disabled={!qrDataUrl} className="text-xs sm:text-sm">
+          <Download className="w-4 h-4 mr-1" />
+          Download
+        </Button>
+        {onRegenerate && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onRegenerate}
+            disabled={isRegenerating}
+            className="text-xs sm:text-sm border-red-200 text-red-700 hover:bg-red-50"
+          >
+            {isRegenerating ? <RefreshCw className="w-4 h-4 mr-1 animate-spin" /> : <QrCode className="w-4 h-4 mr-1" />}
+            Replace Code
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
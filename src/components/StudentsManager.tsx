@@ -12,12 +12,19 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
-import { Plus, Edit, Trash2, Filter, Search, Users, Calendar, Clock, MapPin, User, ChevronLeft, ChevronRight, Eye, CalendarIcon, DollarSign, CreditCard, Download } from "lucide-react";
-import { exportToCSV } from "@/utils/exportUtils";
+import { Plus, Edit, Trash2, Filter, Search, Users, Calendar, Clock, MapPin, User, ChevronLeft, ChevronRight, Eye, CalendarIcon, DollarSign, CreditCard, RefreshCw, Scale } from "lucide-react";
+import { ReportExportMenu } from "@/components/ReportExportMenu";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { format, addMonths } from "date-fns";
 import { cn } from "@/lib/utils";
+import {
+  CATALOG_PACKAGE_COLUMNS,
+  buildPackageSnapshot,
+  getPackageExpirationDate,
+  isPackageAvailableAtBranch,
+  type CatalogPackage,
+} from "@/utils/packageCatalog";
 
 interface Student {
   id: string;
@@ -28,6 +35,7 @@ interface Student {
   remaining_sessions: number | null;
   branch_id: string | null;
   package_type: string | null;
+  package_id: string | null;
   created_at: string;
   enrollment_date: string | null;
   expiration_date: string | null;
@@ -43,12 +51,6 @@ interface Branch {
   name: string;
 }
 
-interface Package {
-  id: string;
-  name: string;
-  is_active: boolean;
-}
-
 const getPackageStatus = (totalSessions: number, remainingSessions: number, expirationDate: Date | null) => {
   const usedSessions = totalSessions - remainingSessions;
   const currentDate = new Date();
@@ -166,13 +168,13 @@ export function StudentsManager() {
     },
   });
 
-  const { data: packages, isLoading: packagesLoading, error: packagesError } = useQuery<Package[], Error>({
-    queryKey: ["packages-select"],
+  const { data: packages, isLoading: packagesLoading, error: packagesError } = useQuery<CatalogPackage[], Error>({
+    queryKey: ["packages-catalog"],
     queryFn: async () => {
       console.log("Fetching packages...");
       const { data, error } = await (supabase as any)
         .from("packages")
-        .select("id, name, is_active")
+        .select(CATALOG_PACKAGE_COLUMNS)
         .eq("is_active", true)
         .order("name");
       if (error) {
@@ -181,7 +183,7 @@ export function StudentsManager() {
         throw error;
       }
       console.log("Fetched packages:", data);
-      return (data || []) as Package[];
+      return (data || []) as CatalogPackage[];
     },
   });
 
@@ -198,7 +200,7 @@ export function StudentsManager() {
           package_cycle,
           training_sessions (date)
         `)
-        .eq("status", "present");
+        .eq("consumes_session", true);
       if (error) throw error;
       return data || [];
     },
@@ -298,7 +300,11 @@ export function StudentsManager() {
   const createMutation = useMutation({
     mutationFn: async (student: typeof formData) => {
       const defaultSessions = 8;
-      const totalSessions = role === 'admin' ? student.sessions : defaultSessions;
+      const catalogPackage = packages?.find((pkg) => pkg.name === student.package_type);
+      // The form starts from the catalog count, admins may change it for this player
+      const totalSessions = role === 'admin' && student.sessions != null
+        ? student.sessions
+        : catalogPackage?.sessions ?? defaultSessions;
       const { data, error } = await supabase
         .from("students")
         .insert([{
@@ -309,6 +315,10 @@ export function StudentsManager() {
           remaining_sessions: totalSessions, // For new players, remaining = total
           branch_id: student.branch_id,
           package_type: student.package_type,
+          package_id: catalogPackage?.id ?? null,
+          package_snapshot: catalogPackage ? buildPackageSnapshot(catalogPackage) : null,
+          total_training_fee: catalogPackage?.price ?? null,
+          remaining_balance: catalogPackage?.price ?? null,
           enrollment_date: student.enrollment_date ? format(student.enrollment_date, 'yyyy-MM-dd') : null,
           expiration_date: student.expiration_date ? format(student.expiration_date, 'yyyy-MM-dd') : null,
           notes: student.notes || null,
@@ -331,6 +341,9 @@ export function StudentsManager() {
 
   const updateMutation = useMutation({
     mutationFn: async ({ id, ...student }: typeof formData & { id: string }) => {
+      const catalogPackage = packages?.find((pkg) => pkg.name === student.package_type);
+      // Keep the terms the player enrolled under unless they were moved to another package
+      const packageChanged = catalogPackage && catalogPackage.id !== editingStudent?.package_id;
       const { data, error } = await supabase
         .from("students")
         .update({
@@ -339,6 +352,10 @@ export function StudentsManager() {
           phone: student.phone || null,
           branch_id: student.branch_id,
           package_type: student.package_type,
+          ...(packageChanged && {
+            package_id: catalogPackage.id,
+            package_snapshot: buildPackageSnapshot(catalogPackage),
+          }),
           enrollment_date: student.enrollment_date ? format(student.enrollment_date, 'yyyy-MM-dd') : null,
           notes: student.notes || null,
         })
@@ -454,6 +471,10 @@ const deleteMutation = useMutation({
     navigate(`/dashboard/students/${student.id}/view`);
   };
 
+  const handleRenew = (student: Student) => {
+    navigate(`/dashboard/students/${student.id}/view?renew=1`);
+  };
+
   const [formData, setFormData] = useState({
     name: "",
     email: "",
@@ -610,19 +631,43 @@ const deleteMutation = useMutation({
                           <Label htmlFor="package_type" className="text-gray-700 font-medium text-xs sm:text-sm truncate">Package Type</Label>
                           <Select
                             value={formData.package_type ?? undefined}
-                            onValueChange={(value) => setFormData((prev) => ({ ...prev, package_type: value }))}
+                            onValueChange={(value) => {
+                              const catalogPackage = packages?.find((pkg) => pkg.name === value);
+                              setFormData((prev) => ({
+                                ...prev,
+                                package_type: value,
+                                ...(!editingStudent && catalogPackage && {
+                                  sessions: catalogPackage.sessions ?? prev.sessions,
+                                  remaining_sessions: catalogPackage.sessions ?? prev.remaining_sessions,
+                                  expiration_date: getPackageExpirationDate(catalogPackage, prev.enrollment_date || new Date()),
+                                }),
+                              }));
+                            }}
                           >
                             <SelectTrigger className="border-2 border-gray-200 rounded-lg focus:border-accent focus:ring-accent/20 w-full text-xs sm:text-sm" style={{ borderColor: '#79e58f' }}>
                               <SelectValue placeholder="Select Package Type" />
                             </SelectTrigger>
                             <SelectContent>
-                              {packages?.map((pkg) => (
-                                <SelectItem key={pkg.id} value={pkg.name} className="text-xs sm:text-sm">
-                                  {pkg.name}
-                                </SelectItem>
-                              ))}
+                              {packages
+                                ?.filter((pkg) => isPackageAvailableAtBranch(pkg, formData.branch_id) || pkg.name === formData.package_type)
+                                .map((pkg) => (
+                                  <SelectItem key={pkg.id} value={pkg.name} className="text-xs sm:text-sm">
+                                    {pkg.name}
+                                  </SelectItem>
+                                ))}
                             </SelectContent>
                           </Select>
+                          {!editingStudent && (() => {
+                            const catalogPackage = packages?.find((pkg) => pkg.name === formData.package_type);
+                            if (!catalogPackage) return null;
+                            return (
+                              <p className="text-xs text-gray-500 mt-1">
+                                {catalogPackage.sessions ?? 8} sessions
+                                {catalogPackage.price != null && ` • ₱${catalogPackage.price.toLocaleString()}`}
+                                {catalogPackage.validity_days && ` • valid ${catalogPackage.validity_days} days`}
+                              </p>
+                            );
+                          })()}
                         </div>
                         <div className="flex flex-col space-y-2 min-w-0">
                           <Label className="text-gray-700 font-medium text-xs sm:text-sm truncate">Player Enrollment Date</Label>
@@ -644,7 +689,16 @@ const deleteMutation = useMutation({
                               <CalendarComponent
                                 mode="single"
                                 selected={formData.enrollment_date || undefined}
-                                onSelect={(date) => setFormData((prev) => ({ ...prev, enrollment_date: date || null }))}
+                                onSelect={(date) => setFormData((prev) => {
+                                  const catalogPackage = packages?.find((pkg) => pkg.name === prev.package_type);
+                                  return {
+                                    ...prev,
+                                    enrollment_date: date || null,
+                                    ...(!editingStudent && date && catalogPackage?.validity_days && {
+                                      expiration_date: getPackageExpirationDate(catalogPackage, date),
+                                    }),
+                                  };
+                                })}
                                 initialFocus
                                 className={cn("p-3 pointer-events-auto")}
                               />
@@ -810,34 +864,60 @@ const deleteMutation = useMutation({
                   <p className="text-xs sm:text-sm text-gray-600">
                     Showing {filteredStudents.length} player{filteredStudents.length === 1 ? '' : 's'}
                   </p>
-                  {filteredStudents.length > 0 && (
-                    <Button
-                      onClick={() => {
-                        const headers = ['Name', 'Remaining Sessions', 'Total Sessions', 'Remaining Balance', 'Email', 'Phone', 'Branch', 'Package Type', 'Enrollment Date'];
-                        exportToCSV(
-                          filteredStudents,
-                          'players_report',
-                          headers,
-                          (student) => [
-                            student.name || '',
-                            String(student.remaining_sessions || 0),
-                            String(student.sessions || 0),
-                            `₱${Number(student.remaining_balance || 0).toLocaleString()}`,
-                            student.email || '',
-                            student.phone || '',
-                            branches?.find(b => b.id === student.branch_id)?.name || '',
-                            student.package_type || '',
-                            student.enrollment_date ? format(new Date(student.enrollment_date), 'yyyy-MM-dd') : ''
-                          ]
-                        );
-                        toast.success('Players report exported to Excel successfully');
-                      }}
-                      className="bg-green-600 hover:bg-green-700 text-white text-xs sm:text-sm transition-all duration-300"
-                    >
-                      <Download className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
-                      Export Excel
-                    </Button>
-                  )}
+                  <div className="flex items-center gap-2">
+                    {role === 'admin' && (
+                      <Button
+                        variant="outline"
+                        onClick={() => navigate('/dashboard/students/reconciliation')}
+                        className="border-2 border-gray-300 text-gray-700 hover:bg-gray-100 text-xs sm:text-sm"
+                      >
+                        <Scale className="w-3 h-3 sm:w-4 sm:h-4 mr-1" />
+                        Reconcile Balances
+                      </Button>
+                    )}
+                    {filteredStudents.length > 0 && (
+                      <ReportExportMenu
+                        label="Export"
+                        getReport={() => ({
+                          title: 'Players Report',
+                          subtitle: [
+                            branchFilter !== 'All' ? branches?.find(b => b.id === branchFilter)?.name : null,
+                            packageTypeFilter !== 'All' ? packageTypeFilter : null,
+                            statusFilter !== 'All' ? statusFilter : null,
+                          ].filter(Boolean).join(' · ') || undefined,
+                          filename: 'players_report',
+                          sheetName: 'Players Report',
+                          rows: filteredStudents,
+                          columns: [
+                            { header: 'Name', value: (student) => student.name, bold: true },
+                            {
+                              header: 'Remaining Sessions',
+                              value: (student) => student.remaining_sessions || 0,
+                              type: 'number',
+                              highlight: (student) => (student.remaining_sessions || 0) <= 0 ? 'danger' : null,
+                            },
+                            { header: 'Total Sessions', value: (student) => student.sessions || 0, type: 'number' },
+                            {
+                              header: 'Remaining Balance',
+                              value: (student) => Number(student.remaining_balance || 0),
+                              type: 'currency',
+                              bold: true,
+                              total: 'sum',
+                              highlight: (student) => Number(student.remaining_balance || 0) > 0 ? 'warning' : null,
+                            },
+                            { header: 'Email', value: (student) => student.email },
+                            { header: 'Phone', value: (student) => student.phone },
+                            { header: 'Branch', value: (student) => branches?.find(b => b.id === student.branch_id)?.name },
+                            { header: 'Package Type', value: (student) => student.package_type },
+                            { header: 'Enrollment Date', value: (student) => student.enrollment_date, type: 'date' },
+                          ],
+                          grandTotal: true,
+                          summary: [['Total Players', String(filteredStudents.length)]],
+                        })}
+                        className="bg-green-600 hover:bg-green-700 text-white text-xs sm:text-sm transition-all duration-300"
+                      />
+                    )}
+                  </div>
                 </div>
               </div>
               {filteredStudents.length === 0 ? (
@@ -977,6 +1057,17 @@ const deleteMutation = useMutation({
                                 View
                               </Button>
                               <div className="flex gap-1">
+                                {packageStatus.status !== 'ongoing' && (
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => handleRenew(student)}
+                                    className="h-8 w-8 p-0 text-amber-600 hover:bg-amber-50"
+                                    title="Renew Package"
+                                  >
+                                    <RefreshCw className="w-4 h-4" />
+                                  </Button>
+                                )}
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -0,0 +1,94 @@
+import { AlertTriangle, CloudOff, RefreshCw, UploadCloud } from "lucide-react";
+import { format } from "date-fns";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useOfflineSync } from "@/hooks/useOfflineSync";
+import { clearSyncConflicts, flushOfflineQueue } from "@/utils/offlineSync";
+
+/**
+ * Small status pill for offline attendance: shows when the device is offline, how many
+ * changes are waiting to sync, and what happened to changes that clashed with the server
+ */
+export function SyncStatusIndicator() {
+  const { online, pending, syncing, lastSyncedAt, lastError, conflicts } = useOfflineSync();
+
+  if (online && pending === 0 && !syncing && conflicts.length === 0) return null;
+
+  let label = `${pending} to sync`;
+  let Icon = UploadCloud;
+  let tone = "bg-amber-500/90 text-white";
+  if (!online) {
+    label = pending > 0 ? `Offline • ${pending} saved` : "Offline";
+    Icon = CloudOff;
+    tone = "bg-gray-600/95 text-white";
+  } else if (syncing) {
+    label = "Syncing…";
+    Icon = RefreshCw;
+    tone = "bg-[#79e58f] text-[#242833]";
+  } else if (pending === 0) {
+    label = `${conflicts.length} sync ${conflicts.length === 1 ? "note" : "notes"}`;
+    Icon = AlertTriangle;
+    tone = "bg-orange-500/90 text-white";
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-full shadow-lg text-[11px] font-medium ${tone}`}
+        >
+          <Icon className={`w-3.5 h-3.5 ${syncing ? "animate-spin" : ""}`} />
+          {label}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent side="top" className="w-72 p-3 space-y-3">
+        <div>
+          <p className="text-sm font-semibold text-[#242833]">
+            {online ? "Online" : "Offline"}
+          </p>
+          <p className="text-xs text-gray-500">
+            {pending > 0
+              ? `${pending} attendance ${pending === 1 ? "change is" : "changes are"} saved on this device and will sync automatically.`
+              : "All changes are synced."}
+          </p>
+          {lastSyncedAt && (
+            <p className="text-xs text-gray-400 mt-1">Last synced {format(new Date(lastSyncedAt), "h:mm a")}</p>
+          )}
+          {lastError && <p className="text-xs text-red-600 mt-1">{lastError}</p>}
+        </div>
+
+        {conflicts.length > 0 && (
+          <div className="space-y-1.5">
+            <p className="text-xs font-semibold text-gray-700">Resolved while syncing</p>
+            <div className="max-h-40 overflow-y-auto space-y-1.5">
+              {conflicts.map((conflict, index) => (
+                <div key={`${conflict.at}-${index}`} className="p-2 rounded-md bg-orange-50 border border-orange-200">
+                  <p className="text-xs font-medium text-gray-800">{conflict.label}</p>
+                  <p className="text-[11px] text-gray-600">{conflict.resolution}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => flushOfflineQueue()}
+            disabled={!online || syncing || pending === 0}
+            className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium bg-[#79e58f] text-white disabled:opacity-50"
+          >
+            <RefreshCw className={`w-3.5 h-3.5 ${syncing ? "animate-spin" : ""}`} />
+            Sync now
+          </button>
+          {conflicts.length > 0 && (
+            <button
+              onClick={clearSyncConflicts}
+              className="px-3 py-1.5 rounded-md text-xs font-medium border border-gray-200 text-gray-700 hover:bg-gray-50"
+            >
+              Dismiss
+            </button>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,13 +1,16 @@
 
 import { createContext, useContext, useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import { User } from "@supabase/supabase-js";
 import { toast } from "sonner";
+import { clearOfflineApiCache } from "@/utils/offlineSync";
 
 type AuthContextType = {
   user: User | null;
-  role: 'admin' | 'coach' | null;
+  role: 'admin' | 'coach' | 'student' | null;
   coachData: any | null;
+  studentData: Tables<'students'> | null;
   loading: boolean;
   logout: () => Promise<void>;
 };
@@ -16,6 +19,7 @@ const AuthContext = createContext<AuthContextType>({
   user: null, 
   role: null, 
   coachData: null,
+  studentData: null,
   loading: true,
   logout: async () => {},
 });
@@ -43,8 +47,9 @@ const cleanupAuthState = () => {
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
-  const [role, setRole] = useState<'admin' | 'coach' | null>(null);
+  const [role, setRole] = useState<'admin' | 'coach' | 'student' | null>(null);
   const [coachData, setCoachData] = useState<any | null>(null);
+  const [studentData, setStudentData] = useState<Tables<'students'> | null>(null);
   const [loading, setLoading] = useState(true);
 
   const logout = async () => {
@@ -53,11 +58,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       
       // Clean up auth state first
       cleanupAuthState();
+      clearOfflineApiCache();
       
       // Clear local state
       setUser(null);
       setRole(null);
       setCoachData(null);
+      setStudentData(null);
       
       // Attempt global sign out with error handling
       try {
@@ -80,6 +87,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       setUser(null);
       setRole(null);
       setCoachData(null);
+      setStudentData(null);
       toast.success("Logged out");
       window.location.href = "/";
     }
@@ -104,6 +112,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         toast.error("Failed to fetch user profile: " + coachError.message);
         setRole(null);
         setCoachData(null);
+        setStudentData(null);
         return;
       }
 
@@ -111,13 +120,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         console.log("Found coach record:", coachRecord);
         console.log("Coach role from DB:", coachRecord.role);
         
-        // Update auth_id if it's missing
+        // Link the profile to this login if it's missing
         if (!coachRecord.auth_id) {
           console.log("Updating auth_id for coach...");
-          const { error: updateError } = await supabase
-            .from("coaches")
-            .update({ auth_id: currentUser.id })
-            .eq("id", coachRecord.id);
+          const { error: updateError } = await supabase.rpc('claim_coach_account');
           
           if (updateError) {
             console.error("Error updating auth_id:", updateError);
@@ -191,6 +197,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             toast.error("Failed to create admin profile: " + createError.message);
             setRole(null);
             setCoachData(null);
+            setStudentData(null);
           } else {
             console.log("Successfully created admin coach record:", newCoachRecord);
             setRole('admin');
@@ -198,9 +205,35 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             toast.success("Admin profile created successfully!");
           }
         } else {
-          toast.error("No coach profile found. Please contact administrator.");
-          setRole(null);
-          setCoachData(null);
+          // Not staff: link the login to the student row with the same email (player/parent portal)
+          const { data: studentId, error: claimError } = await supabase.rpc('claim_student_account');
+
+          if (claimError) {
+            console.error("Error claiming student account:", claimError);
+          }
+
+          const { data: studentRecord, error: studentError } = studentId
+            ? await supabase
+                .from("students")
+                .select("*")
+                .eq("id", studentId)
+                .maybeSingle()
+            : { data: null, error: null };
+
+          if (studentError) {
+            console.error("Error fetching student record:", studentError);
+          }
+
+          if (studentRecord) {
+            setRole('student');
+            setCoachData(null);
+            setStudentData(studentRecord);
+          } else {
+            toast.error("No coach or player profile found for this email. Please contact administrator.");
+            setRole(null);
+            setCoachData(null);
+            setStudentData(null);
+          }
         }
       }
     } catch (error) {
@@ -208,6 +241,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       toast.error("An error occurred while loading user profile");
       setRole(null);
       setCoachData(null);
+      setStudentData(null);
     }
   };
 
@@ -226,6 +260,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             setUser(null);
             setRole(null);
             setCoachData(null);
+            setStudentData(null);
             setLoading(false);
           }
           return;
@@ -241,6 +276,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             setUser(null);
             setRole(null);
             setCoachData(null);
+            setStudentData(null);
           }
         }
 
@@ -253,6 +289,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           setUser(null);
           setRole(null);
           setCoachData(null);
+          setStudentData(null);
           setLoading(false);
         }
       }
@@ -278,6 +315,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setUser(null);
         setRole(null);
         setCoachData(null);
+        setStudentData(null);
       }
       
       if (mounted) {
@@ -292,7 +330,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   }, []);
 
   return (
-    <AuthContext.Provider value={{ user, role, coachData, loading, logout }}>
+    <AuthContext.Provider value={{ user, role, coachData, studentData, loading, logout }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { getOfflineSyncState, subscribeOfflineSync } from '@/utils/offlineSync';
+
+/**
+ * Connectivity and offline queue status for the sync indicator
+ */
+export const useOfflineSync = () => useSyncExternalStore(subscribeOfflineSync, getOfflineSyncState);
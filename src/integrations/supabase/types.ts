@@ -54,30 +54,36 @@ export type Database = {
       }
       attendance_records: {
         Row: {
+          consumes_session: boolean
           created_at: string
           id: string
           marked_at: string | null
           package_cycle: number | null
+          reason: string | null
           session_duration: number | null
           session_id: string
           status: Database["public"]["Enums"]["attendance_status"]
           student_id: string
         }
         Insert: {
+          consumes_session?: boolean
           created_at?: string
           id?: string
           marked_at?: string | null
           package_cycle?: number | null
+          reason?: string | null
           session_duration?: number | null
           session_id: string
           status?: Database["public"]["Enums"]["attendance_status"]
           student_id: string
         }
         Update: {
+          consumes_session?: boolean
           created_at?: string
           id?: string
           marked_at?: string | null
           package_cycle?: number | null
+          reason?: string | null
           session_duration?: number | null
           session_id?: string
           status?: Database["public"]["Enums"]["attendance_status"]
@@ -106,7 +112,12 @@ export type Database = {
           city: string
           contact_info: string | null
           created_at: string
+          early_leave_grace_minutes: number
+          geofence_radius_meters: number
           id: string
+          late_grace_minutes: number
+          latitude: number | null
+          longitude: number | null
           name: string
           updated_at: string
         }
@@ -115,7 +126,12 @@ export type Database = {
           city: string
           contact_info?: string | null
           created_at?: string
+          early_leave_grace_minutes?: number
+          geofence_radius_meters?: number
           id?: string
+          late_grace_minutes?: number
+          latitude?: number | null
+          longitude?: number | null
           name: string
           updated_at?: string
         }
@@ -124,7 +140,12 @@ export type Database = {
           city?: string
           contact_info?: string | null
           created_at?: string
+          early_leave_grace_minutes?: number
+          geofence_radius_meters?: number
           id?: string
+          late_grace_minutes?: number
+          latitude?: number | null
+          longitude?: number | null
           name?: string
           updated_at?: string
         }
@@ -175,32 +196,153 @@ export type Database = {
           },
         ]
       }
+      coach_availability: {
+        Row: {
+          coach_id: string
+          created_at: string
+          day_of_week: Database["public"]["Enums"]["day_of_week"]
+          end_time: string
+          id: string
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          coach_id: string
+          created_at?: string
+          day_of_week: Database["public"]["Enums"]["day_of_week"]
+          end_time?: string
+          id?: string
+          start_time?: string
+          updated_at?: string
+        }
+        Update: {
+          coach_id?: string
+          created_at?: string
+          day_of_week?: Database["public"]["Enums"]["day_of_week"]
+          end_time?: string
+          id?: string
+          start_time?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coach_availability_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coach_rates: {
+        Row: {
+          absence_deduction: number
+          amount: number
+          coach_id: string
+          created_at: string
+          id: string
+          package_type: string | null
+          rate_type: string
+          updated_at: string
+        }
+        Insert: {
+          absence_deduction?: number
+          amount: number
+          coach_id: string
+          created_at?: string
+          id?: string
+          package_type?: string | null
+          rate_type?: string
+          updated_at?: string
+        }
+        Update: {
+          absence_deduction?: number
+          amount?: number
+          coach_id?: string
+          created_at?: string
+          id?: string
+          package_type?: string | null
+          rate_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coach_rates_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coach_session_times: {
         Row: {
           coach_id: string
           created_at: string
           id: string
+          location_review_note: string | null
+          location_review_status: string | null
+          location_reviewed_at: string | null
+          location_reviewed_by: string | null
           session_id: string
           time_in: string | null
+          time_in_accuracy_meters: number | null
+          time_in_distance_meters: number | null
+          time_in_latitude: number | null
+          time_in_location_flag: string | null
+          time_in_longitude: number | null
           time_out: string | null
+          time_out_accuracy_meters: number | null
+          time_out_distance_meters: number | null
+          time_out_latitude: number | null
+          time_out_location_flag: string | null
+          time_out_longitude: number | null
           updated_at: string
         }
         Insert: {
           coach_id: string
           created_at?: string
           id?: string
+          location_review_note?: string | null
+          location_review_status?: string | null
+          location_reviewed_at?: string | null
+          location_reviewed_by?: string | null
           session_id: string
           time_in?: string | null
+          time_in_accuracy_meters?: number | null
+          time_in_distance_meters?: number | null
+          time_in_latitude?: number | null
+          time_in_location_flag?: string | null
+          time_in_longitude?: number | null
           time_out?: string | null
+          time_out_accuracy_meters?: number | null
+          time_out_distance_meters?: number | null
+          time_out_latitude?: number | null
+          time_out_location_flag?: string | null
+          time_out_longitude?: number | null
           updated_at?: string
         }
         Update: {
           coach_id?: string
           created_at?: string
           id?: string
+          location_review_note?: string | null
+          location_review_status?: string | null
+          location_reviewed_at?: string | null
+          location_reviewed_by?: string | null
           session_id?: string
           time_in?: string | null
+          time_in_accuracy_meters?: number | null
+          time_in_distance_meters?: number | null
+          time_in_latitude?: number | null
+          time_in_location_flag?: string | null
+          time_in_longitude?: number | null
           time_out?: string | null
+          time_out_accuracy_meters?: number | null
+          time_out_distance_meters?: number | null
+          time_out_latitude?: number | null
+          time_out_location_flag?: string | null
+          time_out_longitude?: number | null
           updated_at?: string
         }
         Relationships: [
@@ -211,6 +353,13 @@ export type Database = {
             referencedRelation: "coaches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "coach_session_times_location_reviewed_by_fkey"
+            columns: ["location_reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "coach_session_times_session_id_fkey"
             columns: ["session_id"]
@@ -220,6 +369,63 @@ export type Database = {
           },
         ]
       }
+      coach_time_off: {
+        Row: {
+          coach_id: string
+          created_at: string
+          end_date: string
+          id: string
+          reason: string | null
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          start_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          coach_id: string
+          created_at?: string
+          end_date: string
+          id?: string
+          reason?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          coach_id?: string
+          created_at?: string
+          end_date?: string
+          id?: string
+          reason?: string | null
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          start_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coach_time_off_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coach_time_off_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       coaches: {
         Row: {
           auth_id: string | null
@@ -253,92 +459,893 @@ export type Database = {
         }
         Relationships: []
       }
-      packages: {
+      makeup_credits: {
         Row: {
-          created_at: string | null
-          description: string | null
+          created_at: string
           id: string
-          is_active: boolean | null
-          name: string
+          notes: string | null
+          package_cycle: number
+          redeemed_session_id: string | null
+          source_session_id: string | null
+          student_id: string
+          updated_at: string
         }
         Insert: {
-          created_at?: string | null
-          description?: string | null
+          created_at?: string
           id?: string
-          is_active?: boolean | null
-          name: string
+          notes?: string | null
+          package_cycle: number
+          redeemed_session_id?: string | null
+          source_session_id?: string | null
+          student_id: string
+          updated_at?: string
         }
         Update: {
-          created_at?: string | null
-          description?: string | null
+          created_at?: string
           id?: string
-          is_active?: boolean | null
-          name?: string
+          notes?: string | null
+          package_cycle?: number
+          redeemed_session_id?: string | null
+          source_session_id?: string | null
+          student_id?: string
+          updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "makeup_credits_redeemed_session_id_fkey"
+            columns: ["redeemed_session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "makeup_credits_source_session_id_fkey"
+            columns: ["source_session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "makeup_credits_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      session_coaches: {
+      notification_deliveries: {
         Row: {
-          coach_id: string
+          attachments: Json
+          attempts: number
+          body: string
+          channel: string
           created_at: string
+          event_type: string
           id: string
-          session_id: string
+          last_error: string | null
+          provider: string
+          recipient: string
+          recipient_name: string | null
+          sent_at: string | null
+          session_id: string | null
+          status: string
+          subject: string | null
+          template_id: string | null
+          updated_at: string
+          variables: Json
         }
         Insert: {
-          coach_id: string
+          attachments?: Json
+          attempts?: number
+          body: string
+          channel: string
           created_at?: string
+          event_type: string
           id?: string
-          session_id: string
+          last_error?: string | null
+          provider: string
+          recipient: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          session_id?: string | null
+          status?: string
+          subject?: string | null
+          template_id?: string | null
+          updated_at?: string
+          variables?: Json
         }
         Update: {
-          coach_id?: string
+          attachments?: Json
+          attempts?: number
+          body?: string
+          channel?: string
           created_at?: string
+          event_type?: string
           id?: string
-          session_id?: string
+          last_error?: string | null
+          provider?: string
+          recipient?: string
+          recipient_name?: string | null
+          sent_at?: string | null
+          session_id?: string | null
+          status?: string
+          subject?: string | null
+          template_id?: string | null
+          updated_at?: string
+          variables?: Json
         }
         Relationships: [
           {
-            foreignKeyName: "session_coaches_coach_id_fkey"
-            columns: ["coach_id"]
+            foreignKeyName: "notification_deliveries_session_id_fkey"
+            columns: ["session_id"]
             isOneToOne: false
-            referencedRelation: "coaches"
+            referencedRelation: "training_sessions"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "session_coaches_session_id_fkey"
-            columns: ["session_id"]
+            foreignKeyName: "notification_deliveries_template_id_fkey"
+            columns: ["template_id"]
             isOneToOne: false
-            referencedRelation: "training_sessions"
+            referencedRelation: "notification_templates"
             referencedColumns: ["id"]
           },
         ]
       }
-      session_participants: {
+      notification_preferences: {
+        Row: {
+          absence_warning: boolean
+          session_assigned: boolean
+          session_changed: boolean
+          time_in_reminder: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          absence_warning?: boolean
+          session_assigned?: boolean
+          session_changed?: boolean
+          time_in_reminder?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          absence_warning?: boolean
+          session_assigned?: boolean
+          session_changed?: boolean
+          time_in_reminder?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_templates: {
         Row: {
+          body: string
+          channel: string
+          created_at: string
+          description: string | null
+          event_type: string
+          heading: string | null
           id: string
-          session_id: string
+          is_active: boolean
+          subject: string
+          updated_at: string
+          variables: string[]
+        }
+        Insert: {
+          body: string
+          channel: string
+          created_at?: string
+          description?: string | null
+          event_type: string
+          heading?: string | null
+          id?: string
+          is_active?: boolean
+          subject?: string
+          updated_at?: string
+          variables?: string[]
+        }
+        Update: {
+          body?: string
+          channel?: string
+          created_at?: string
+          description?: string | null
+          event_type?: string
+          heading?: string | null
+          id?: string
+          is_active?: boolean
+          subject?: string
+          updated_at?: string
+          variables?: string[]
+        }
+        Relationships: []
+      }
+      package_alerts: {
+        Row: {
+          alert_type: string
+          created_at: string
+          emailed_at: string | null
+          expiration_date: string | null
+          id: string
+          message: string
+          package_cycle: number
+          read_at: string | null
+          remaining_sessions: number | null
           student_id: string
+          updated_at: string
         }
         Insert: {
+          alert_type: string
+          created_at?: string
+          emailed_at?: string | null
+          expiration_date?: string | null
           id?: string
-          session_id: string
+          message: string
+          package_cycle: number
+          read_at?: string | null
+          remaining_sessions?: number | null
           student_id: string
+          updated_at?: string
         }
         Update: {
+          alert_type?: string
+          created_at?: string
+          emailed_at?: string | null
+          expiration_date?: string | null
           id?: string
-          session_id?: string
+          message?: string
+          package_cycle?: number
+          read_at?: string | null
+          remaining_sessions?: number | null
           student_id?: string
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "session_participants_session_id_fkey"
-            columns: ["session_id"]
+            foreignKeyName: "package_alerts_student_id_fkey"
+            columns: ["student_id"]
             isOneToOne: false
-            referencedRelation: "training_sessions"
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      packages: {
+        Row: {
+          absent_consumes_session: boolean
+          allowed_branch_ids: string[]
+          created_at: string | null
+          default_max_participants: number | null
+          description: string | null
+          excused_consumes_session: boolean
+          id: string
+          is_active: boolean | null
+          is_duration_based: boolean
+          late_consumes_session: boolean
+          name: string
+          price: number | null
+          sessions: number | null
+          validity_days: number | null
+          version: number
+        }
+        Insert: {
+          absent_consumes_session?: boolean
+          allowed_branch_ids?: string[]
+          created_at?: string | null
+          default_max_participants?: number | null
+          description?: string | null
+          excused_consumes_session?: boolean
+          id?: string
+          is_active?: boolean | null
+          is_duration_based?: boolean
+          late_consumes_session?: boolean
+          name: string
+          price?: number | null
+          sessions?: number | null
+          validity_days?: number | null
+          version?: number
+        }
+        Update: {
+          absent_consumes_session?: boolean
+          allowed_branch_ids?: string[]
+          created_at?: string | null
+          default_max_participants?: number | null
+          description?: string | null
+          excused_consumes_session?: boolean
+          id?: string
+          is_active?: boolean | null
+          is_duration_based?: boolean
+          late_consumes_session?: boolean
+          name?: string
+          price?: number | null
+          sessions?: number | null
+          validity_days?: number | null
+          version?: number
+        }
+        Relationships: []
+      }
+      payroll_adjustments: {
+        Row: {
+          amount: number
+          coach_id: string
+          created_at: string
+          created_by: string | null
+          description: string
+          id: string
+          kind: string
+          period_id: string
+        }
+        Insert: {
+          amount: number
+          coach_id: string
+          created_at?: string
+          created_by?: string | null
+          description: string
+          id?: string
+          kind: string
+          period_id: string
+        }
+        Update: {
+          amount?: number
+          coach_id?: string
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          kind?: string
+          period_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_adjustments_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_adjustments_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_adjustments_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_periods"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_lines: {
+        Row: {
+          amount: number
+          coach_id: string
+          created_at: string
+          hours: number
+          id: string
+          package_type: string | null
+          period_id: string
+          rate: number
+          rate_type: string | null
+          session_date: string
+          session_id: string | null
+          status: string
+          time_in: string | null
+          time_out: string | null
+        }
+        Insert: {
+          amount?: number
+          coach_id: string
+          created_at?: string
+          hours?: number
+          id?: string
+          package_type?: string | null
+          period_id: string
+          rate?: number
+          rate_type?: string | null
+          session_date: string
+          session_id?: string | null
+          status: string
+          time_in?: string | null
+          time_out?: string | null
+        }
+        Update: {
+          amount?: number
+          coach_id?: string
+          created_at?: string
+          hours?: number
+          id?: string
+          package_type?: string | null
+          period_id?: string
+          rate?: number
+          rate_type?: string | null
+          session_date?: string
+          session_id?: string | null
+          status?: string
+          time_in?: string | null
+          time_out?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_lines_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_lines_period_id_fkey"
+            columns: ["period_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_periods"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_lines_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_periods: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          calculated_at: string | null
+          created_at: string
+          end_date: string
+          id: string
+          notes: string | null
+          start_date: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          calculated_at?: string | null
+          created_at?: string
+          end_date: string
+          id?: string
+          notes?: string | null
+          start_date: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          calculated_at?: string | null
+          created_at?: string
+          end_date?: string
+          id?: string
+          notes?: string | null
+          start_date?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_periods_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_notification_log: {
+        Row: {
+          id: string
+          kind: string
+          sent_at: string
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          id?: string
+          kind: string
+          sent_at?: string
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          id?: string
+          kind?: string
+          sent_at?: string
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_notification_log_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      report_subscriptions: {
+        Row: {
+          branch_id: string | null
+          coach_id: string
+          created_at: string
+          id: string
+          is_active: boolean
+          reports: string[]
+          updated_at: string
+        }
+        Insert: {
+          branch_id?: string | null
+          coach_id: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          reports?: string[]
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string | null
+          coach_id?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          reports?: string[]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_subscriptions_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "report_subscriptions_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sent_reports: {
+        Row: {
+          coach_id: string | null
+          created_at: string
+          delivery_id: string | null
+          error: string | null
+          file_path: string | null
+          id: string
+          period_end: string
+          period_start: string
+          recipient: string
+          reports: string[]
+          status: string
+          subscription_id: string | null
+          summary: Json
+          trigger: string
+        }
+        Insert: {
+          coach_id?: string | null
+          created_at?: string
+          delivery_id?: string | null
+          error?: string | null
+          file_path?: string | null
+          id?: string
+          period_end: string
+          period_start: string
+          recipient: string
+          reports: string[]
+          status: string
+          subscription_id?: string | null
+          summary?: Json
+          trigger?: string
+        }
+        Update: {
+          coach_id?: string | null
+          created_at?: string
+          delivery_id?: string | null
+          error?: string | null
+          file_path?: string | null
+          id?: string
+          period_end?: string
+          period_start?: string
+          recipient?: string
+          reports?: string[]
+          status?: string
+          subscription_id?: string | null
+          summary?: Json
+          trigger?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sent_reports_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sent_reports_delivery_id_fkey"
+            columns: ["delivery_id"]
+            isOneToOne: false
+            referencedRelation: "notification_deliveries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sent_reports_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "report_subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_coaches: {
+        Row: {
+          coach_id: string
+          created_at: string
+          id: string
+          session_id: string
+        }
+        Insert: {
+          coach_id: string
+          created_at?: string
+          id?: string
+          session_id: string
+        }
+        Update: {
+          coach_id?: string
+          created_at?: string
+          id?: string
+          session_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_coaches_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_coaches_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_participants: {
+        Row: {
+          id: string
+          session_id: string
+          student_id: string
+        }
+        Insert: {
+          id?: string
+          session_id: string
+          student_id: string
+        }
+        Update: {
+          id?: string
+          session_id?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_participants_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_participants_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_series: {
+        Row: {
+          branch_id: string
+          created_at: string
+          days_of_week: Database["public"]["Enums"]["day_of_week"][]
+          end_date: string
+          end_time: string
+          id: string
+          notes: string | null
+          package_type: string | null
+          skip_dates: string[]
+          start_date: string
+          start_time: string
+          updated_at: string
+        }
+        Insert: {
+          branch_id: string
+          created_at?: string
+          days_of_week: Database["public"]["Enums"]["day_of_week"][]
+          end_date: string
+          end_time: string
+          id?: string
+          notes?: string | null
+          package_type?: string | null
+          skip_dates?: string[]
+          start_date: string
+          start_time: string
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string
+          created_at?: string
+          days_of_week?: Database["public"]["Enums"]["day_of_week"][]
+          end_date?: string
+          end_time?: string
+          id?: string
+          notes?: string | null
+          package_type?: string | null
+          skip_dates?: string[]
+          start_date?: string
+          start_time?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_series_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_waitlist: {
+        Row: {
+          created_at: string
+          id: string
+          promoted_at: string | null
+          session_id: string
+          status: string
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          promoted_at?: string | null
+          session_id: string
+          status?: string
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          promoted_at?: string | null
+          session_id?: string
+          status?: string
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_waitlist_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_waitlist_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "students"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_charges: {
+        Row: {
+          amount: number
+          charge_date: string
+          charge_type: string
+          created_at: string
+          description: string | null
+          id: string
+          is_paid: boolean | null
+          notes: string | null
+          package_history_id: string | null
+          paid_amount: number | null
+          paid_at: string | null
+          student_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          charge_date?: string
+          charge_type?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_paid?: boolean | null
+          notes?: string | null
+          package_history_id?: string | null
+          paid_amount?: number | null
+          paid_at?: string | null
+          student_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          charge_date?: string
+          charge_type?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_paid?: boolean | null
+          notes?: string | null
+          package_history_id?: string | null
+          paid_amount?: number | null
+          paid_at?: string | null
+          student_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "student_charges_package_history_id_fkey"
+            columns: ["package_history_id"]
+            isOneToOne: false
+            referencedRelation: "student_package_history"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "session_participants_student_id_fkey"
+            foreignKeyName: "student_charges_student_id_fkey"
             columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "students"
@@ -346,62 +1353,66 @@ export type Database = {
           },
         ]
       }
-      student_charges: {
+      student_installments: {
         Row: {
           amount: number
-          charge_date: string
-          charge_type: string
           created_at: string
-          description: string | null
+          due_date: string
           id: string
-          is_paid: boolean | null
+          installment_number: number
+          late_fee_charge_id: string | null
           notes: string | null
           package_history_id: string | null
-          paid_amount: number | null
+          paid_amount: number
           paid_at: string | null
           student_id: string
           updated_at: string
         }
         Insert: {
           amount: number
-          charge_date?: string
-          charge_type?: string
           created_at?: string
-          description?: string | null
+          due_date: string
           id?: string
-          is_paid?: boolean | null
+          installment_number: number
+          late_fee_charge_id?: string | null
           notes?: string | null
           package_history_id?: string | null
-          paid_amount?: number | null
+          paid_amount?: number
           paid_at?: string | null
           student_id: string
           updated_at?: string
         }
         Update: {
           amount?: number
-          charge_date?: string
-          charge_type?: string
           created_at?: string
-          description?: string | null
+          due_date?: string
           id?: string
-          is_paid?: boolean | null
+          installment_number?: number
+          late_fee_charge_id?: string | null
           notes?: string | null
           package_history_id?: string | null
-          paid_amount?: number | null
+          paid_amount?: number
           paid_at?: string | null
           student_id?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "student_charges_package_history_id_fkey"
+            foreignKeyName: "student_installments_late_fee_charge_id_fkey"
+            columns: ["late_fee_charge_id"]
+            isOneToOne: false
+            referencedRelation: "student_charges"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_installments_package_history_id_fkey"
             columns: ["package_history_id"]
             isOneToOne: false
             referencedRelation: "student_package_history"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "student_charges_student_id_fkey"
+            foreignKeyName: "student_installments_student_id_fkey"
             columns: ["student_id"]
             isOneToOne: false
             referencedRelation: "students"
@@ -411,11 +1422,14 @@ export type Database = {
       }
       student_package_history: {
         Row: {
+          balance_resolution: string | null
           captured_at: string
           downpayment: number | null
           enrollment_date: string | null
           expiration_date: string | null
           id: string
+          package_id: string | null
+          package_snapshot: Json | null
           package_type: string | null
           reason: string | null
           remaining_balance: number | null
@@ -425,11 +1439,14 @@ export type Database = {
           total_training_fee: number | null
         }
         Insert: {
+          balance_resolution?: string | null
           captured_at?: string
           downpayment?: number | null
           enrollment_date?: string | null
           expiration_date?: string | null
           id?: string
+          package_id?: string | null
+          package_snapshot?: Json | null
           package_type?: string | null
           reason?: string | null
           remaining_balance?: number | null
@@ -439,11 +1456,14 @@ export type Database = {
           total_training_fee?: number | null
         }
         Update: {
+          balance_resolution?: string | null
           captured_at?: string
           downpayment?: number | null
           enrollment_date?: string | null
           expiration_date?: string | null
           id?: string
+          package_id?: string | null
+          package_snapshot?: Json | null
           package_type?: string | null
           reason?: string | null
           remaining_balance?: number | null
@@ -453,6 +1473,13 @@ export type Database = {
           total_training_fee?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "student_package_history_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "packages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "student_package_history_student_id_fkey"
             columns: ["student_id"]
@@ -474,8 +1501,15 @@ export type Database = {
           payment_amount: number
           payment_date: string
           payment_for: string | null
+          reason: string | null
+          recorded_by: string | null
+          refunded_payment_id: string | null
           student_id: string
+          transaction_type: string
           updated_at: string
+          void_reason: string | null
+          voided_at: string | null
+          voided_by: string | null
         }
         Insert: {
           charge_description?: string | null
@@ -488,8 +1522,15 @@ export type Database = {
           payment_amount: number
           payment_date?: string
           payment_for?: string | null
+          reason?: string | null
+          recorded_by?: string | null
+          refunded_payment_id?: string | null
           student_id: string
+          transaction_type?: string
           updated_at?: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Update: {
           charge_description?: string | null
@@ -502,8 +1543,15 @@ export type Database = {
           payment_amount?: number
           payment_date?: string
           payment_for?: string | null
+          reason?: string | null
+          recorded_by?: string | null
+          refunded_payment_id?: string | null
           student_id?: string
+          transaction_type?: string
           updated_at?: string
+          void_reason?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
         }
         Relationships: [
           {
@@ -520,6 +1568,20 @@ export type Database = {
             referencedRelation: "student_package_history"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "student_payments_recorded_by_fkey"
+            columns: ["recorded_by"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "student_payments_refunded_payment_id_fkey"
+            columns: ["refunded_payment_id"]
+            isOneToOne: false
+            referencedRelation: "student_payments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "student_payments_student_id_fkey"
             columns: ["student_id"]
@@ -527,11 +1589,20 @@ export type Database = {
             referencedRelation: "students"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "student_payments_voided_by_fkey"
+            columns: ["voided_by"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
         ]
       }
       students: {
         Row: {
+          auth_id: string | null
           branch_id: string | null
+          check_in_token: string
           created_at: string
           downpayment: number | null
           email: string
@@ -540,6 +1611,8 @@ export type Database = {
           id: string
           name: string
           notes: string | null
+          package_id: string | null
+          package_snapshot: Json | null
           package_type: string | null
           phone: string | null
           remaining_balance: number | null
@@ -549,7 +1622,9 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          auth_id?: string | null
           branch_id?: string | null
+          check_in_token?: string
           created_at?: string
           downpayment?: number | null
           email: string
@@ -558,6 +1633,8 @@ export type Database = {
           id?: string
           name: string
           notes?: string | null
+          package_id?: string | null
+          package_snapshot?: Json | null
           package_type?: string | null
           phone?: string | null
           remaining_balance?: number | null
@@ -567,7 +1644,9 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          auth_id?: string | null
           branch_id?: string | null
+          check_in_token?: string
           created_at?: string
           downpayment?: number | null
           email?: string
@@ -576,6 +1655,8 @@ export type Database = {
           id?: string
           name?: string
           notes?: string | null
+          package_id?: string | null
+          package_snapshot?: Json | null
           package_type?: string | null
           phone?: string | null
           remaining_balance?: number | null
@@ -592,6 +1673,110 @@ export type Database = {
             referencedRelation: "branches"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "students_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "packages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      substitute_offers: {
+        Row: {
+          coach_id: string
+          created_at: string
+          id: string
+          request_id: string
+        }
+        Insert: {
+          coach_id: string
+          created_at?: string
+          id?: string
+          request_id: string
+        }
+        Update: {
+          coach_id?: string
+          created_at?: string
+          id?: string
+          request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "substitute_offers_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "substitute_offers_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "substitute_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      substitute_requests: {
+        Row: {
+          accepted_by: string | null
+          cancelled_at: string | null
+          coach_id: string
+          created_at: string
+          filled_at: string | null
+          id: string
+          reason: string
+          session_id: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          accepted_by?: string | null
+          cancelled_at?: string | null
+          coach_id: string
+          created_at?: string
+          filled_at?: string | null
+          id?: string
+          reason: string
+          session_id: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          accepted_by?: string | null
+          cancelled_at?: string | null
+          coach_id?: string
+          created_at?: string
+          filled_at?: string | null
+          id?: string
+          reason?: string
+          session_id?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "substitute_requests_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "substitute_requests_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "substitute_requests_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       training_sessions: {
@@ -601,10 +1786,12 @@ export type Database = {
           date: string
           end_time: string
           id: string
+          max_participants: number | null
           notes: string | null
           package_cycle: number | null
           package_id: string | null
           package_type: string | null
+          series_id: string | null
           start_time: string
           status: Database["public"]["Enums"]["session_status"]
           updated_at: string
@@ -615,10 +1802,12 @@ export type Database = {
           date: string
           end_time: string
           id?: string
+          max_participants?: number | null
           notes?: string | null
           package_cycle?: number | null
           package_id?: string | null
           package_type?: string | null
+          series_id?: string | null
           start_time: string
           status?: Database["public"]["Enums"]["session_status"]
           updated_at?: string
@@ -629,10 +1818,12 @@ export type Database = {
           date?: string
           end_time?: string
           id?: string
+          max_participants?: number | null
           notes?: string | null
           package_cycle?: number | null
           package_id?: string | null
           package_type?: string | null
+          series_id?: string | null
           start_time?: string
           status?: Database["public"]["Enums"]["session_status"]
           updated_at?: string
@@ -652,13 +1843,128 @@ export type Database = {
             referencedRelation: "packages"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "training_sessions_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "session_series"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
     Views: {
-      [_ in never]: never
+      coach_session_punctuality: {
+        Row: {
+          arrival_status: string | null
+          attendance_status: string | null
+          branch_id: string | null
+          branch_name: string | null
+          coach_id: string | null
+          coach_name: string | null
+          departure_status: string | null
+          early_leave_grace_minutes: number | null
+          end_time: string | null
+          late_grace_minutes: number | null
+          minutes_early_leave: number | null
+          minutes_late: number | null
+          session_date: string | null
+          session_id: string | null
+          start_time: string | null
+          time_in: string | null
+          time_out: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_coaches_coach_id_fkey"
+            columns: ["coach_id"]
+            isOneToOne: false
+            referencedRelation: "coaches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_coaches_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "training_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "training_sessions_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      student_balance_discrepancies: {
+        Row: {
+          difference: number | null
+          is_current: boolean | null
+          ledger_remaining_balance: number | null
+          package_cycle: number | null
+          package_history_id: string | null
+          package_type: string | null
+          stored_remaining_balance: number | null
+          student_id: string | null
+          student_name: string | null
+        }
+        Relationships: []
+      }
+      student_balance_ledger: {
+        Row: {
+          balance_payments: number | null
+          balance_resolution: string | null
+          charges_owed: number | null
+          charges_paid: number | null
+          charges_total: number | null
+          downpayment: number | null
+          enrollment_date: string | null
+          expiration_date: string | null
+          is_current: boolean | null
+          package_cycle: number | null
+          package_history_id: string | null
+          package_type: string | null
+          remaining_balance: number | null
+          stored_remaining_balance: number | null
+          student_id: string | null
+          total_training_fee: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      accept_substitute_request: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
+      adjust_student_charge_paid_amount: {
+        Args: { p_charge_id: string; p_delta: number }
+        Returns: undefined
+      }
+      allocate_student_installments: {
+        Args: { p_student_id: string }
+        Returns: undefined
+      }
+      apply_session_to_series: {
+        Args: {
+          p_add_student_ids: string[]
+          p_coach_ids: string[]
+          p_end_time: string
+          p_max_participants: number
+          p_notes: string
+          p_package_type: string
+          p_remove_student_ids: string[]
+          p_session_id: string
+          p_start_time: string
+        }
+        Returns: number
+      }
+      approve_payroll_period: {
+        Args: { p_period_id: string }
+        Returns: undefined
+      }
       auto_mark_coach_absent_after_grace_period: {
         Args: never
         Returns: {
@@ -666,7 +1972,57 @@ export type Database = {
           sessions_checked: number
         }[]
       }
+      calculate_payroll_period: {
+        Args: { p_period_id: string }
+        Returns: number
+      }
+      cancel_substitute_request: {
+        Args: { p_request_id: string }
+        Returns: undefined
+      }
       check_coach_attendance_grace_period: { Args: never; Returns: undefined }
+      check_in_student: {
+        Args: { p_session_id: string; p_token: string }
+        Returns: {
+          already_checked_in: boolean
+          attendance_id: string
+          remaining_sessions: number
+          student_id: string
+          student_name: string
+        }[]
+      }
+      claim_due_push_reminders: {
+        Args: never
+        Returns: {
+          branch_name: string
+          kind: string
+          session_date: string
+          session_id: string
+          start_time: string
+          user_id: string
+        }[]
+      }
+      claim_coach_account: { Args: never; Returns: string }
+      claim_student_account: { Args: never; Returns: string }
+      create_session_series: {
+        Args: {
+          p_accepted_conflict_dates: string[]
+          p_branch_id: string
+          p_coach_ids: string[]
+          p_dates: string[]
+          p_days_of_week: Database["public"]["Enums"]["day_of_week"][]
+          p_end_date: string
+          p_end_time: string
+          p_max_participants: number
+          p_notes: string
+          p_package_type: string
+          p_skip_dates: string[]
+          p_start_date: string
+          p_start_time: string
+          p_student_ids: string[]
+        }
+        Returns: number
+      }
       check_scheduling_conflicts:
         | {
             Args: {
@@ -696,8 +2052,44 @@ export type Database = {
               conflict_type: string
             }[]
           }
+      distance_meters: {
+        Args: {
+          p_latitude1: number
+          p_latitude2: number
+          p_longitude1: number
+          p_longitude2: number
+        }
+        Returns: number
+      }
+      generate_package_alerts: {
+        Args: { p_days_ahead?: number; p_low_sessions?: number }
+        Returns: {
+          expiring_count: number
+          low_sessions_count: number
+        }[]
+      }
+      get_coach_availability_conflicts: {
+        Args: {
+          p_coach_ids: string[]
+          p_date: string
+          p_end_time: string
+          p_start_time: string
+        }
+        Returns: {
+          coach_id: string
+          conflict_details: string
+        }[]
+      }
       get_current_coach_id: { Args: never; Returns: string }
+      get_current_student_id: { Args: never; Returns: string }
       get_current_user_role: { Args: never; Returns: string }
+      get_student_package_conflicts: {
+        Args: { p_date: string; p_student_ids: string[] }
+        Returns: {
+          conflict_details: string
+          student_id: string
+        }[]
+      }
       is_user_admin: { Args: never; Returns: boolean }
       is_user_coach_or_admin: { Args: never; Returns: boolean }
       mark_coach_attendance: {
@@ -722,9 +2114,85 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      promote_waitlisted_students: {
+        Args: { p_session_id: string }
+        Returns: {
+          student_id: string
+        }[]
+      }
+      refresh_student_balances: {
+        Args: { p_student_id: string }
+        Returns: undefined
+      }
+      redeem_makeup_credits: {
+        Args: { p_session_id: string; p_student_ids: string[] }
+        Returns: number
+      }
+      refund_student_payment: {
+        Args: { p_amount: number; p_payment_id: string; p_reason: string }
+        Returns: string
+      }
+      regenerate_student_check_in_token: {
+        Args: { p_student_id: string }
+        Returns: string
+      }
+      renew_student_package: {
+        Args: {
+          p_balance_action: string | null
+          p_downpayment: number
+          p_enrollment_date: string
+          p_expiration_date: string | null
+          p_package_id: string | null
+          p_package_type: string | null
+          p_sessions: number
+          p_student_id: string
+          p_total_training_fee: number
+        }
+        Returns: number
+      }
+      request_substitute: {
+        Args: {
+          p_reason: string
+          p_session_id: string
+        }
+        Returns: string
+      }
+      review_coach_punch_location: {
+        Args: {
+          p_approved: boolean
+          p_note?: string
+          p_session_time_id: string
+        }
+        Returns: undefined
+      }
+      review_coach_time_off: {
+        Args: {
+          p_approved: boolean
+          p_note?: string
+          p_time_off_id: string
+        }
+        Returns: undefined
+      }
+      send_push_notification: { Args: { p_body: Json }; Returns: undefined }
+      send_session_notification: { Args: { p_body: Json }; Returns: undefined }
+      set_session_participants: {
+        Args: { p_session_id: string; p_student_ids: string[] }
+        Returns: {
+          student_id: string
+        }[]
+      }
+      set_student_installment_plan: {
+        Args: { p_amounts: number[]; p_due_dates: string[]; p_student_id: string }
+        Returns: number
+      }
+      sync_student_balances: { Args: never; Returns: number }
+      void_student_payment: {
+        Args: { p_payment_id: string; p_reason: string }
+        Returns: undefined
+      }
     }
     Enums: {
-      attendance_status: "present" | "absent" | "pending"
+      attendance_status: "present" | "absent" | "pending" | "excused" | "late"
       day_of_week:
         | "monday"
         | "tuesday"
@@ -861,7 +2329,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      attendance_status: ["present", "absent", "pending"],
+      attendance_status: ["present", "absent", "pending", "excused", "late"],
       day_of_week: [
         "monday",
         "tuesday",
@@ -6,12 +6,16 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { ArrowLeft, Calendar, Clock, MapPin, Users, LogIn, LogOut, CheckCircle, XCircle, AlertCircle, User, Download, Mail, Phone, CalendarDays, TrendingUp, Eye } from "lucide-react";
+import { ArrowLeft, Calendar, Clock, MapPin, Users, LogIn, LogOut, CheckCircle, XCircle, AlertCircle, User, Mail, Phone, CalendarDays, TrendingUp, Eye } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
-import { exportCoachSessionsToExcel } from "@/utils/exportUtils";
+import type { ReportDefinition } from "@/utils/exportUtils";
+import { ReportExportMenu } from "@/components/ReportExportMenu";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { format } from "date-fns";
+import { PunchLocationBadge } from "@/components/PunchLocationBadge";
+import { describePunchLocationFlag } from "@/utils/geolocation";
+import { formatMinutes, groupPunctuality, summarizePunctuality, type CoachSessionPunctuality } from "@/utils/punctuality";
 
 interface Coach {
   id: string;
@@ -40,7 +44,7 @@ interface StudentAttendanceRecord {
   id: string;
   session_id: string;
   student_id: string;
-  status: 'present' | 'absent' | 'pending';
+  status: 'present' | 'absent' | 'pending' | 'excused' | 'late';
   marked_at: string | null;
 }
 
@@ -50,6 +54,11 @@ interface CoachSessionTime {
   session_id: string;
   time_in: string | null;
   time_out: string | null;
+  time_in_distance_meters: number | null;
+  time_in_location_flag: string | null;
+  time_out_distance_meters: number | null;
+  time_out_location_flag: string | null;
+  location_review_status: string | null;
 }
 
 interface CoachAttendanceRecord {
@@ -60,6 +69,17 @@ interface CoachAttendanceRecord {
   marked_at: string | null;
 }
 
+interface SessionExportRow {
+  record: SessionRecord;
+  timeData: CoachSessionTime | null;
+  punctuality: CoachSessionPunctuality | undefined;
+  status: 'present' | 'pending' | 'absent';
+  students: string[];
+  studentsPresent: number;
+  studentsAbsent: number;
+  studentsPending: number;
+}
+
 const formatTime12Hour = (timeString: string) => {
   const [hours, minutes] = timeString.split(":").map(Number);
   const period = hours >= 12 ? "PM" : "AM";
@@ -159,7 +179,7 @@ export default function CoachViewPage() {
       if (!coachId) return [];
       const { data, error } = await supabase
         .from("coach_session_times")
-        .select("id, coach_id, session_id, time_in, time_out")
+        .select("id, coach_id, session_id, time_in, time_out, time_in_distance_meters, time_in_location_flag, time_out_distance_meters, time_out_location_flag, location_review_status")
         .eq("coach_id", coachId);
       if (error) throw error;
       return data as CoachSessionTime[];
@@ -182,6 +202,21 @@ export default function CoachViewPage() {
     enabled: !!coachId,
   });
 
+  // Fetch time in / time out classified against the schedule
+  const { data: punctualityRows } = useQuery({
+    queryKey: ["coach_session_punctuality", coachId],
+    queryFn: async () => {
+      if (!coachId) return [];
+      const { data, error } = await supabase
+        .from("coach_session_punctuality")
+        .select("*")
+        .eq("coach_id", coachId);
+      if (error) throw error;
+      return data as CoachSessionPunctuality[];
+    },
+    enabled: !!coachId,
+  });
+
   // Fetch student attendance records for all sessions
   const { data: studentAttendanceRecords } = useQuery({
     queryKey: ["student_attendance_records", sessionRecords],
@@ -210,6 +245,10 @@ export default function CoachViewPage() {
     return coachAttendanceRecords?.find(a => a.session_id === sessionId);
   };
 
+  const getPunctuality = (sessionId: string | undefined) => {
+    return sessionId ? punctualityRows?.find(p => p.session_id === sessionId) : undefined;
+  };
+
   /** Status: absent overrides; else Present if both time_in & time_out, else Pending */
   const getDisplayStatus = (
     sessionId: string | undefined,
@@ -221,28 +260,8 @@ export default function CoachViewPage() {
     return 'pending';
   };
 
-  /** Check if coach is late (time_in is after scheduled start_time) */
-  const isLate = (
-    sessionDate: string | undefined,
-    startTime: string | undefined,
-    timeIn: string | null
-  ): boolean => {
-    if (!sessionDate || !startTime || !timeIn) return false;
-    
-    try {
-      // Combine session date and start_time to create scheduled start datetime
-      const scheduledStart = new Date(`${sessionDate}T${startTime}`);
-      const actualTimeIn = new Date(timeIn);
-      
-      // Coach is late if time_in is after scheduled start
-      return actualTimeIn > scheduledStart;
-    } catch {
-      return false;
-    }
-  };
-
   /** Get student attendance status for a session */
-  const getStudentAttendanceStatus = (sessionId: string | undefined, studentId: string): 'present' | 'absent' | 'pending' => {
+  const getStudentAttendanceStatus = (sessionId: string | undefined, studentId: string): StudentAttendanceRecord['status'] => {
     if (!sessionId) return 'pending';
     const attendance = studentAttendanceRecords?.find(
       a => a.session_id === sessionId && a.student_id === studentId
@@ -294,6 +313,8 @@ export default function CoachViewPage() {
     return getDisplayStatus(sid, td, ad) === 'present';
   }).length;
   const attendanceRate = totalSessions > 0 ? Math.round((presentSessions / totalSessions) * 100) : 0;
+  const punctualitySummary = summarizePunctuality(coachId || '', 'All branches', punctualityRows || []);
+  const branchPunctuality = groupPunctuality(punctualityRows || [], 'branch');
 
   const getPaginationRange = (current: number, total: number) => {
     const delta = 2;
@@ -381,6 +402,76 @@ export default function CoachViewPage() {
     return name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2);
   };
 
+  /** Session history export: absent sessions in red, completed ones in green */
+  const buildSessionReport = (): ReportDefinition<SessionExportRow> => {
+    const rows = filteredSessionRecords.map((record): SessionExportRow => {
+      const sessionId = record.training_sessions?.id;
+      const timeData = (sessionId && getCoachTimeData(sessionId)) || null;
+      const attendanceData = (sessionId && getCoachAttendance(sessionId)) || null;
+      const participants = record.training_sessions?.session_participants ?? [];
+      const studentStatuses = participants.map((p) => getStudentAttendanceStatus(sessionId, p.student_id));
+      return {
+        record,
+        timeData,
+        punctuality: getPunctuality(sessionId),
+        status: getDisplayStatus(sessionId, timeData, attendanceData),
+        students: participants.map((p) => p.students.name),
+        studentsPresent: studentStatuses.filter((status) => status === 'present' || status === 'late').length,
+        studentsAbsent: studentStatuses.filter((status) => status === 'absent' || status === 'excused').length,
+        studentsPending: studentStatuses.filter((status) => status !== 'present' && status !== 'late' && status !== 'absent' && status !== 'excused').length,
+      };
+    });
+
+    return {
+      title: 'Coach Session Report',
+      subtitle: coach?.name,
+      filename: `${(coach?.name || 'coach').replace(/\s+/g, '_')}_sessions`,
+      sheetName: 'Coach Sessions',
+      headerStyle: 'dark',
+      rows,
+      rowHighlight: (row) => row.status === 'absent' ? 'danger' : row.status === 'present' ? 'success' : null,
+      columns: [
+        { header: 'Date', value: (row) => row.record.training_sessions?.date, type: 'date', bold: true },
+        {
+          header: 'Session Time',
+          value: (row) => row.record.training_sessions
+            ? `${formatTime12Hour(row.record.training_sessions.start_time)} - ${formatTime12Hour(row.record.training_sessions.end_time)}`
+            : '',
+        },
+        { header: 'Branch', value: (row) => row.record.training_sessions?.branches?.name },
+        { header: 'Package Type', value: (row) => row.record.training_sessions?.package_type },
+        { header: 'Time In', value: (row) => row.timeData?.time_in, type: 'datetime' },
+        { header: 'Time Out', value: (row) => row.timeData?.time_out, type: 'datetime' },
+        {
+          header: 'Location',
+          value: (row) => [
+            describePunchLocationFlag(row.timeData?.time_in_location_flag, row.timeData?.time_in_distance_meters) && `In: ${describePunchLocationFlag(row.timeData?.time_in_location_flag, row.timeData?.time_in_distance_meters)}`,
+            describePunchLocationFlag(row.timeData?.time_out_location_flag, row.timeData?.time_out_distance_meters) && `Out: ${describePunchLocationFlag(row.timeData?.time_out_location_flag, row.timeData?.time_out_distance_meters)}`,
+            row.timeData?.location_review_status,
+          ].filter(Boolean).join(' / '),
+        },
+        {
+          header: 'Punctuality',
+          value: (row) => [
+            row.punctuality?.arrival_status === 'late' ? `Late ${formatMinutes(row.punctuality.minutes_late || 0)}` : row.punctuality?.arrival_status === 'on_time' ? 'On time' : '',
+            row.punctuality?.departure_status === 'early_leave' ? `Left ${formatMinutes(row.punctuality.minutes_early_leave || 0)} early` : '',
+          ].filter(Boolean).join(' / '),
+        },
+        { header: 'Status', value: (row) => row.status, format: (value) => String(value).charAt(0).toUpperCase() + String(value).slice(1) },
+        { header: 'Students', value: (row) => row.students.join(', '), width: 40 },
+        { header: 'Total Students', value: (row) => row.students.length, type: 'number', total: 'sum' },
+        { header: 'Students Present', value: (row) => row.studentsPresent, type: 'number', total: 'sum' },
+        { header: 'Students Absent', value: (row) => row.studentsAbsent, type: 'number', total: 'sum' },
+        { header: 'Students Pending', value: (row) => row.studentsPending, type: 'number', total: 'sum' },
+      ],
+      grandTotal: true,
+      summary: [
+        ['Total Session Present', String(rows.filter((row) => row.status === 'present').length)],
+        ['Total Session Absent', String(rows.filter((row) => row.status === 'absent').length)],
+      ],
+    };
+  };
+
   if (coachLoading) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 p-3 sm:p-4 md:p-6">
@@ -494,6 +585,73 @@ export default function CoachViewPage() {
           </div>
         </Card>
 
+        {/* Punctuality Breakdown */}
+        {punctualitySummary.timedIn > 0 && (
+          <Card className="border-0 bg-white shadow-xl rounded-2xl overflow-hidden">
+            <CardHeader className="bg-gradient-to-r from-[#242833] to-[#3a3f4d] p-4 sm:p-6">
+              <CardTitle className="text-lg sm:text-xl font-bold text-white flex items-center gap-2">
+                <Clock className="w-5 h-5 text-[#79e58f]" />
+                Punctuality
+              </CardTitle>
+              <p className="text-gray-400 text-xs sm:text-sm mt-1">
+                Time in and time out against each session's schedule, after the branch grace period
+              </p>
+            </CardHeader>
+            <CardContent className="p-0">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-px bg-gray-200">
+                <div className="bg-white p-4 text-center">
+                  <p className="text-2xl font-bold text-gray-800">{punctualitySummary.onTimeRate}%</p>
+                  <p className="text-xs sm:text-sm text-gray-500">On Time ({punctualitySummary.onTime}/{punctualitySummary.timedIn})</p>
+                </div>
+                <div className="bg-white p-4 text-center">
+                  <p className="text-2xl font-bold text-orange-600">{punctualitySummary.late}</p>
+                  <p className="text-xs sm:text-sm text-gray-500">
+                    Late{punctualitySummary.late > 0 && ` · avg ${formatMinutes(punctualitySummary.averageMinutesLate)}`}
+                  </p>
+                </div>
+                <div className="bg-white p-4 text-center">
+                  <p className="text-2xl font-bold text-orange-600">{punctualitySummary.earlyLeaves}</p>
+                  <p className="text-xs sm:text-sm text-gray-500">
+                    Early Leaves{punctualitySummary.earlyLeaves > 0 && ` · ${formatMinutes(punctualitySummary.earlyLeaveMinutes)}`}
+                  </p>
+                </div>
+                <div className="bg-white p-4 text-center">
+                  <p className="text-2xl font-bold text-red-600">{punctualitySummary.absences}</p>
+                  <p className="text-xs sm:text-sm text-gray-500">Absences</p>
+                </div>
+              </div>
+              {branchPunctuality.length > 1 && (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="bg-gray-50 text-gray-600">
+                        <th className="py-2 px-3 text-left font-medium">Branch</th>
+                        <th className="py-2 px-3 text-center font-medium">Sessions</th>
+                        <th className="py-2 px-3 text-center font-medium">On Time</th>
+                        <th className="py-2 px-3 text-center font-medium">Late</th>
+                        <th className="py-2 px-3 text-center font-medium">Early Leaves</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {branchPunctuality.map((branch) => (
+                        <tr key={branch.key} className="border-t border-gray-100">
+                          <td className="py-2 px-3 text-gray-800 font-medium">{branch.label}</td>
+                          <td className="py-2 px-3 text-center text-gray-700">{branch.sessions}</td>
+                          <td className="py-2 px-3 text-center text-gray-700">{branch.timedIn > 0 ? `${branch.onTimeRate}%` : '—'}</td>
+                          <td className="py-2 px-3 text-center text-gray-700">
+                            {branch.late}{branch.late > 0 && ` (avg ${formatMinutes(branch.averageMinutesLate)})`}
+                          </td>
+                          <td className="py-2 px-3 text-center text-gray-700">{branch.earlyLeaves}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Session Records Card */}
         <Card className="border-0 bg-white shadow-xl rounded-2xl overflow-hidden">
           <CardHeader className="bg-gradient-to-r from-[#242833] to-[#3a3f4d] p-4 sm:p-6">
@@ -508,65 +666,10 @@ export default function CoachViewPage() {
                 </p>
               </div>
               {filteredSessionRecords.length > 0 && (
-                <Button
-                  onClick={() => {
-                    const headers = ['Date', 'Session Time', 'Branch', 'Package Type', 'Time In', 'Time Out', 'Status', 'Students', 'Total Students', 'Students Present', 'Students Absent', 'Students Pending'];
-                    exportCoachSessionsToExcel(
-                      filteredSessionRecords,
-                      `${(coach.name || 'coach').replace(/\s+/g, '_')}_sessions`,
-                      headers,
-                      (record) => {
-                        const sessionId = record.training_sessions?.id;
-                        const timeData = sessionId ? getCoachTimeData(sessionId) : null;
-                        const attendanceData = sessionId ? getCoachAttendance(sessionId) : null;
-                        const status = getDisplayStatus(sessionId, timeData, attendanceData);
-                        const participants = record.training_sessions?.session_participants ?? [];
-                        const students = participants.map((p) => p.students.name);
-                        const totalStudents = students.length;
-                        
-                        // Calculate student attendance counts
-                        let studentsPresent = 0;
-                        let studentsAbsent = 0;
-                        let studentsPending = 0;
-                        
-                        if (sessionId) {
-                          participants.forEach((p) => {
-                            const studentStatus = getStudentAttendanceStatus(sessionId, p.student_id);
-                            if (studentStatus === 'present') studentsPresent++;
-                            else if (studentStatus === 'absent') studentsAbsent++;
-                            else studentsPending++;
-                          });
-                        }
-                        
-                        return [
-                          record.training_sessions?.date ? format(new Date(record.training_sessions.date), 'yyyy-MM-dd') : '',
-                          record.training_sessions ? `${formatTime12Hour(record.training_sessions.start_time)} - ${formatTime12Hour(record.training_sessions.end_time)}` : '',
-                          record.training_sessions?.branches?.name ?? '',
-                          record.training_sessions?.package_type ?? '',
-                          timeData?.time_in ? format(new Date(timeData.time_in), 'MM/dd/yyyy hh:mm a') : '',
-                          timeData?.time_out ? format(new Date(timeData.time_out), 'MM/dd/yyyy hh:mm a') : '',
-                          status,
-                          students.join(", ") || '',
-                          String(totalStudents),
-                          String(studentsPresent),
-                          String(studentsAbsent),
-                          String(studentsPending)
-                        ];
-                      },
-                      (record) => {
-                        const sessionId = record.training_sessions?.id;
-                        const timeData = sessionId ? getCoachTimeData(sessionId) : null;
-                        const attendanceData = sessionId ? getCoachAttendance(sessionId) : null;
-                        return getDisplayStatus(sessionId, timeData, attendanceData);
-                      }
-                    );
-                    toast.success('Session records exported successfully');
-                  }}
+                <ReportExportMenu
+                  getReport={buildSessionReport}
                   className="bg-[#79e58f] hover:bg-[#5bc96f] text-white text-xs sm:text-sm shadow-lg transition-all duration-300"
-                >
-                  <Download className="w-4 h-4 mr-2" />
-                  Export Excel
-                </Button>
+                />
               )}
             </div>
           </CardHeader>
@@ -682,6 +785,7 @@ export default function CoachViewPage() {
                   {paginatedSessionRecords.map((record) => {
                     const sessionId = record.training_sessions?.id;
                     const timeData = sessionId ? getCoachTimeData(sessionId) : null;
+                    const punctuality = getPunctuality(sessionId);
                     const attendanceData = sessionId ? getCoachAttendance(sessionId) : null;
                     const status = getDisplayStatus(sessionId, timeData, attendanceData);
                     const students = record.training_sessions?.session_participants || [];
@@ -740,25 +844,30 @@ export default function CoachViewPage() {
                                 <p className="text-sm font-semibold text-green-800">
                                   {timeData?.time_in ? format(new Date(timeData.time_in), 'hh:mm a') : '—'}
                                 </p>
-                                {timeData?.time_in && isLate(
-                                  record.training_sessions?.date,
-                                  record.training_sessions?.start_time,
-                                  timeData.time_in
-                                ) && (
+                                {punctuality?.arrival_status === 'late' && (
                                   <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-orange-100 text-orange-700 border border-orange-300">
-                                    Late
+                                    Late {formatMinutes(punctuality.minutes_late || 0)}
                                   </span>
                                 )}
                               </div>
+                              <PunchLocationBadge flag={timeData?.time_in_location_flag} distance={timeData?.time_in_distance_meters} reviewStatus={timeData?.location_review_status} />
                             </div>
                             <div className="bg-red-50 rounded-lg p-3">
                               <div className="flex items-center gap-2 mb-1">
                                 <LogOut className="w-4 h-4 text-red-600" />
                                 <span className="text-xs font-medium text-red-700">Time Out</span>
                               </div>
-                              <p className="text-sm font-semibold text-red-800">
-                                {timeData?.time_out ? format(new Date(timeData.time_out), 'hh:mm a') : '—'}
-                              </p>
+                              <div className="flex items-center gap-2">
+                                <p className="text-sm font-semibold text-red-800">
+                                  {timeData?.time_out ? format(new Date(timeData.time_out), 'hh:mm a') : '—'}
+                                </p>
+                                {punctuality?.departure_status === 'early_leave' && (
+                                  <span className="px-1.5 py-0.5 rounded text-[10px] font-bold bg-orange-100 text-orange-700 border border-orange-300">
+                                    Left {formatMinutes(punctuality.minutes_early_leave || 0)} early
+                                  </span>
+                                )}
+                              </div>
+                              <PunchLocationBadge flag={timeData?.time_out_location_flag} distance={timeData?.time_out_distance_meters} reviewStatus={timeData?.location_review_status} />
                             </div>
                           </div>
 
@@ -832,7 +941,7 @@ export default function CoachViewPage() {
                         <th className="py-3 px-3 text-center font-medium text-sm w-[12%]">Branch</th>
                         <th className="py-3 px-3 text-center font-medium text-sm w-[11%]">Package</th>
                         <th className="py-3 px-3 text-center font-medium text-sm w-[12%]">In / Out</th>
-                        <th className="py-3 px-3 text-center font-medium text-sm w-[8%]">Late</th>
+                        <th className="py-3 px-3 text-center font-medium text-sm w-[8%]">Punctuality</th>
                         <th className="py-3 px-3 text-center font-medium text-sm w-[9%]">Status</th>
                         <th className="py-3 px-3 text-center font-medium text-sm w-[7%]">Students</th>
                         <th className="py-3 px-3 text-center font-medium text-sm w-[20%]">Actions</th>
@@ -842,6 +951,7 @@ export default function CoachViewPage() {
                       {paginatedSessionRecords.map((record, index) => {
                         const sessionId = record.training_sessions?.id;
                         const timeData = sessionId ? getCoachTimeData(sessionId) : null;
+                        const punctuality = getPunctuality(sessionId);
                         const attendanceData = sessionId ? getCoachAttendance(sessionId) : null;
                         const status = getDisplayStatus(sessionId, timeData, attendanceData);
                         const students = record.training_sessions?.session_participants || [];
@@ -880,17 +990,26 @@ export default function CoachViewPage() {
                                     {timeData?.time_out ? format(new Date(timeData.time_out), 'h:mm a') : '—'}
                                   </span>
                                 </div>
+                                <PunchLocationBadge flag={timeData?.time_in_location_flag} distance={timeData?.time_in_distance_meters} />
+                                <PunchLocationBadge flag={timeData?.time_out_location_flag} distance={timeData?.time_out_distance_meters} reviewStatus={timeData?.location_review_status} />
                               </div>
                             </td>
                             <td className="py-3 px-3 text-center align-middle">
-                              {timeData?.time_in && isLate(
-                                record.training_sessions?.date,
-                                record.training_sessions?.start_time,
-                                timeData.time_in
-                              ) ? (
-                                <span className="px-2 py-1 rounded text-xs font-bold bg-orange-100 text-orange-700 border border-orange-300">
-                                  Late
-                                </span>
+                              {punctuality?.arrival_status === 'late' || punctuality?.departure_status === 'early_leave' ? (
+                                <div className="flex flex-col items-center gap-1">
+                                  {punctuality.arrival_status === 'late' && (
+                                    <span className="px-2 py-1 rounded text-xs font-bold bg-orange-100 text-orange-700 border border-orange-300">
+                                      Late {formatMinutes(punctuality.minutes_late || 0)}
+                                    </span>
+                                  )}
+                                  {punctuality.departure_status === 'early_leave' && (
+                                    <span className="px-2 py-1 rounded text-xs font-bold bg-orange-100 text-orange-700 border border-orange-300">
+                                      Left {formatMinutes(punctuality.minutes_early_leave || 0)} early
+                                    </span>
+                                  )}
+                                </div>
+                              ) : punctuality?.arrival_status === 'on_time' ? (
+                                <span className="text-green-700 text-xs font-medium">On time</span>
                               ) : (
                                 <span className="text-gray-400 text-xs">—</span>
                               )}
@@ -1052,12 +1171,20 @@ export default function CoachViewPage() {
                                   <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${
                                     studentStatus === 'present' 
                                       ? 'bg-green-100 text-green-700' 
-                                      : studentStatus === 'absent' 
-                                        ? 'bg-red-100 text-red-700' 
-                                        : 'bg-amber-100 text-amber-700'
+                                      : studentStatus === 'late'
+                                        ? 'bg-orange-100 text-orange-700'
+                                        : studentStatus === 'excused'
+                                          ? 'bg-blue-100 text-blue-700'
+                                          : studentStatus === 'absent' 
+                                            ? 'bg-red-100 text-red-700' 
+                                            : 'bg-amber-100 text-amber-700'
                                   }`}>
                                     {studentStatus === 'present' ? (
                                       <><CheckCircle className="w-3 h-3 shrink-0" />Present</>
+                                    ) : studentStatus === 'late' ? (
+                                      <><CheckCircle className="w-3 h-3 shrink-0" />Late</>
+                                    ) : studentStatus === 'excused' ? (
+                                      <><XCircle className="w-3 h-3 shrink-0" />Excused</>
                                     ) : studentStatus === 'absent' ? (
                                       <><XCircle className="w-3 h-3 shrink-0" />Absent</>
                                     ) : (
@@ -12,12 +12,22 @@ import { StudentsManager } from "@/components/StudentsManager";
 import { CoachesManager } from "@/components/CoachesManager";
 import { BranchesManager } from "@/components/BranchesManager";
 import { PackagesManager } from "@/components/PackagesManager";
+import { AlertsManager } from "@/components/AlertsManager";
+import { PayrollManager } from "@/components/PayrollManager";
+import { AvailabilityManager } from "@/components/AvailabilityManager";
+import { NotificationsManager } from "@/components/NotificationsManager";
+import { FinanceDashboard } from "@/components/FinanceDashboard";
+import { RetentionAnalytics } from "@/components/RetentionAnalytics";
+import { BranchUtilization } from "@/components/BranchUtilization";
+import { BalanceReconciliationReport } from "@/components/BalanceReconciliationReport";
 import StudentPaymentPage from "./StudentPaymentPage";
 import StudentViewPage from "./StudentViewPage";
 import CoachViewPage from "./CoachViewPage";
 import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/context/AuthContext";
-import { Settings } from "lucide-react";
+import { Settings, Bell } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
 export default function Dashboard() {
@@ -31,6 +41,19 @@ export default function Dashboard() {
     window.scrollTo(0, 0);
   }, [location.pathname]);
 
+  const { data: unreadAlertsCount = 0 } = useQuery({
+    queryKey: ["package-alerts-unread-count"],
+    queryFn: async () => {
+      const { count, error } = await supabase
+        .from("package_alerts")
+        .select("id", { count: "exact", head: true })
+        .is("read_at", null);
+      if (error) throw error;
+      return count || 0;
+    },
+    enabled: role === 'admin',
+  });
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background px-4">
@@ -70,6 +93,11 @@ export default function Dashboard() {
     );
   }
 
+  // Players/parents only get the read-only portal
+  if (role === 'student') {
+    return <Navigate to="/portal" replace />;
+  }
+
   const path = location.pathname;
   const activeTab = 
     path.includes("/dashboard/calendar") ? "calendar" :
@@ -79,6 +107,13 @@ export default function Dashboard() {
     path.includes("/dashboard/coaches") ? "coaches" :
     path.includes("/dashboard/branches") ? "branches" :
     path.includes("/dashboard/packages") ? "packages" :
+    path.includes("/dashboard/alerts") ? "alerts" :
+    path.includes("/dashboard/payroll") ? "payroll" :
+    path.includes("/dashboard/availability") ? "availability" :
+    path.includes("/dashboard/notifications") ? "notifications" :
+    path.includes("/dashboard/finance") ? "finance" :
+    path.includes("/dashboard/analytics") ? "analytics" :
+    path.includes("/dashboard/utilization") ? "utilization" :
     "overview";
 
   const handleTabChange = (tab: string) => {
@@ -111,6 +146,22 @@ export default function Dashboard() {
             
             <div className="flex-1" />
             
+            {role === 'admin' && (
+              <Button 
+                variant="ghost" 
+                size="icon" 
+                onClick={() => navigate("/dashboard/alerts")} 
+                className="relative text-white hover:text-[#79e58f] hover:bg-white/10"
+              >
+                <Bell className="h-5 w-5" />
+                {unreadAlertsCount > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+                    {unreadAlertsCount > 99 ? '99+' : unreadAlertsCount}
+                  </span>
+                )}
+              </Button>
+            )}
+            
             <Button 
               variant="ghost" 
               size="icon" 
@@ -144,6 +195,10 @@ export default function Dashboard() {
                 path="sessions" 
                 element={<SessionsManager />}
               />
+              <Route 
+                path="availability" 
+                element={<AvailabilityManager />}
+              />
               <Route 
                 path="students" 
                 element={<StudentsManager />}
@@ -163,6 +218,13 @@ export default function Dashboard() {
                   <Route path="coaches/:coachId/view" element={<CoachViewPage />} />
                   <Route path="branches" element={<BranchesManager />} />
                   <Route path="packages" element={<PackagesManager />} />
+                  <Route path="alerts" element={<AlertsManager />} />
+                  <Route path="payroll" element={<PayrollManager />} />
+                  <Route path="notifications" element={<NotificationsManager />} />
+                  <Route path="finance" element={<FinanceDashboard />} />
+                  <Route path="analytics" element={<RetentionAnalytics />} />
+                  <Route path="utilization" element={<BranchUtilization />} />
+                  <Route path="students/reconciliation" element={<BalanceReconciliationReport />} />
                 </>
               )}
               
@@ -171,6 +233,13 @@ export default function Dashboard() {
                   <Route path="coaches" element={<Navigate to="/dashboard" replace />} />
                   <Route path="branches" element={<Navigate to="/dashboard" replace />} />
                   <Route path="packages" element={<Navigate to="/dashboard" replace />} />
+                  <Route path="alerts" element={<Navigate to="/dashboard" replace />} />
+                  <Route path="payroll" element={<Navigate to="/dashboard" replace />} />
+                  <Route path="notifications" element={<Navigate to="/dashboard" replace />} />
+                  <Route path="finance" element={<Navigate to="/dashboard" replace />} />
+                  <Route path="analytics" element={<Navigate to="/dashboard" replace />} />
+                  <Route path="utilization" element={<Navigate to="/dashboard" replace />} />
+                  <Route path="students/reconciliation" element={<Navigate to="/dashboard" replace />} />
                 </>
               )}
             </Routes>
@@ -16,6 +16,7 @@ export default function Login() {
   const [phone, setPhone] = useState("");
   const [loading, setLoading] = useState(false);
   const [isSignUp, setIsSignUp] = useState(false);
+  const [accountType, setAccountType] = useState<'coach' | 'student'>('coach');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -29,9 +30,14 @@ export default function Login() {
 
     try {
       if (isSignUp) {
-        const { data: signUpData, error: signUpError } = await supabase.auth.signUp({
+        const { error: signUpError } = await supabase.auth.signUp({
           email,
           password,
+          // Player/parent logins are linked to their students row on first sign in, not to a coach profile.
+          // Coach profiles are created from this metadata by the handle_new_user trigger.
+          options: accountType === 'student'
+            ? { data: { account_type: 'student', name } }
+            : { data: { name, phone } },
         });
 
         if (signUpError) {
@@ -40,26 +46,19 @@ export default function Login() {
           return;
         }
 
-        const userId = signUpData.user?.id;
-        if (userId) {
-          const { error: insertError } = await supabase.from("coaches").insert({
-            id: userId,
-            name,
-            email,
-            phone,
-            role: 'coach',
-            auth_id: userId,
-          });
-
-          if (insertError) {
-            toast.error("Account created but failed to save profile: " + insertError.message);
-          } else {
-            toast.success("Account created successfully! Please log in.");
-            setIsSignUp(false);
-            setName("");
-            setPhone("");
-          }
+        if (accountType === 'student') {
+          toast.success("Account created! Confirm your email, then sign in with the email registered with the academy.");
+          setIsSignUp(false);
+          setName("");
+          setPhone("");
+          setLoading(false);
+          return;
         }
+
+        toast.success("Account created successfully! Please log in.");
+        setIsSignUp(false);
+        setName("");
+        setPhone("");
       } else {
         const { data, error } = await supabase.auth.signInWithPassword({ email, password });
 
@@ -67,6 +66,7 @@ export default function Login() {
           toast.error("Login failed: " + error.message);
         } else if (data.user) {
           toast.success("Logged in successfully!");
+          // Dashboard sends student logins on to the portal once their role is resolved
           navigate("/dashboard");
         }
       }
@@ -105,6 +105,24 @@ export default function Login() {
             <form onSubmit={handleSubmit} className="space-y-4 sm:space-y-5 md:space-y-6">
               {isSignUp && (
                 <>
+                  <div>
+                    <Label className="font-medium" style={{ color: 'white' }}>I am a</Label>
+                    <div className="mt-1 grid grid-cols-2 gap-2">
+                      {([['coach', 'Coach'], ['student', 'Player / Parent']] as const).map(([value, label]) => (
+                        <button
+                          key={value}
+                          type="button"
+                          onClick={() => setAccountType(value)}
+                          className="border rounded-md py-2 text-sm font-medium transition-colors"
+                          style={accountType === value
+                            ? { backgroundColor: '#c2ab75', borderColor: '#c2ab75', color: '#181a18' }
+                            : { backgroundColor: '#181a18', borderColor: '#c2ab75', color: 'white' }}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <div>
                     <Label className="font-medium" style={{ color: 'white' }}>Name</Label>
                     <Input
@@ -115,15 +133,17 @@ export default function Login() {
                       className="mt-1 border w-full" style={{ backgroundColor: '#181a18', borderColor: '#c2ab75', color: 'white' }}
                     />
                   </div>
-                  <div>
-                    <Label className="font-medium" style={{ color: 'white' }}>Phone</Label>
-                    <Input
-                      type="text"
-                      value={phone}
-                      onChange={(e) => setPhone(e.target.value)}
-                      className="mt-1 border w-full" style={{ backgroundColor: '#181a18', borderColor: '#c2ab75', color: 'white' }}
-                    />
-                  </div>
+                  {accountType === 'coach' && (
+                    <div>
+                      <Label className="font-medium" style={{ color: 'white' }}>Phone</Label>
+                      <Input
+                        type="text"
+                        value={phone}
+                        onChange={(e) => setPhone(e.target.value)}
+                        className="mt-1 border w-full" style={{ backgroundColor: '#181a18', borderColor: '#c2ab75', color: 'white' }}
+                      />
+                    </div>
+                  )}
                 </>
               )}
               <div>
@@ -1,9 +1,10 @@
 
 import { ChangePassword } from "@/components/ChangePassword";
+import { NotificationSettings } from "@/components/NotificationSettings";
 import { useAuth } from "@/context/AuthContext";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { ArrowLeft, User, Shield, LogOut, Mail, Hash, Settings as SettingsIcon, ChevronRight } from "lucide-react";
+import { ArrowLeft, User, Shield, LogOut, Mail, Hash, Settings as SettingsIcon, ChevronRight, Bell } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { SidebarProvider, SidebarInset, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
@@ -126,6 +127,23 @@ export default function Settings() {
                       </div>
                     </CardContent>
                   </Card>
+
+                  {/* Notifications Section */}
+                  <Card className="bg-white border-slate-200 shadow-sm">
+                    <CardHeader className="pb-6">
+                      <CardTitle className="flex items-center gap-3 text-2xl font-bold text-slate-900">
+                        <div className="p-2 bg-blue-100 rounded-lg">
+                          <Bell className="h-6 w-6 text-blue-600" />
+                        </div>
+                        Notifications
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="p-6 bg-slate-50 border border-slate-200 rounded-xl">
+                        <NotificationSettings />
+                      </div>
+                    </CardContent>
+                  </Card>
                 </div>
 
                 {/* Sidebar */}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useParams, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
@@ -9,13 +9,18 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, DollarSign, CreditCard, CalendarIcon, Edit, Printer, Plus, Eye, Receipt, AlertCircle, Trash2, Wallet, FileText } from "lucide-react";
+import { ArrowLeft, DollarSign, CreditCard, CalendarIcon, Edit, Printer, Plus, Eye, Receipt, AlertCircle, Trash2, Wallet, FileText, CalendarClock, Ban, Undo2 } from "lucide-react";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/context/AuthContext";
 import { PaymentReceipt } from "@/components/PaymentReceipt";
+import { ReportExportMenu } from "@/components/ReportExportMenu";
+import type { ReportDefinition } from "@/utils/exportUtils";
+import { fetchStudentBalanceLedger, getLedgerEntry } from "@/utils/balanceLedger";
+import { buildInstallmentSchedule, getInstallmentStatus, type InstallmentFrequency, type PlannedInstallment, type StudentInstallment } from "@/utils/installments";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -56,8 +61,15 @@ interface StudentPayment {
   payment_for: string;
   charge_id: string | null;
   package_history_id: string | null;
+  transaction_type?: string;
+  refunded_payment_id?: string | null;
+  reason?: string | null;
+  voided_at?: string | null;
+  void_reason?: string | null;
 }
 
+type PaymentCorrectionAction = "void" | "refund";
+
 interface PackageHistory {
   id: string;
   student_id: string | null;
@@ -89,10 +101,30 @@ interface StudentCharge {
   package_history_id: string | null;
 }
 
+/** A row in the payment history: a recorded payment or a package downpayment */
+interface PaymentHistoryEntry {
+  id: string;
+  payment_amount: number;
+  payment_date: string;
+  created_at: string;
+  notes: string | null;
+  payment_for: string;
+  charge_id: string | null;
+  package_history_id: string | null;
+  package_history?: PackageHistory | null;
+  isDownpayment: boolean;
+  transaction_type?: string;
+  reason?: string | null;
+  voided_at?: string | null;
+  void_reason?: string | null;
+}
+
 export default function StudentPaymentPage() {
   const { studentId } = useParams<{ studentId: string }>();
   const navigate = useNavigate();
   const queryClient = useQueryClient();
+  const { role } = useAuth();
+  const isAdmin = role === 'admin';
 
   const [activeTab, setActiveTab] = useState("payments");
   const [paymentFormData, setPaymentFormData] = useState({
@@ -112,8 +144,6 @@ export default function StudentPaymentPage() {
   });
 
   const [selectedPackageForPaymentInfo, setSelectedPackageForPaymentInfo] = useState<string>("");
-  const latestSelectedPackageRef = useRef<string>(selectedPackageForPaymentInfo);
-  latestSelectedPackageRef.current = selectedPackageForPaymentInfo;
   const [paymentInfoFormData, setPaymentInfoFormData] = useState({
     total_training_fee: 0,
     downpayment: 0,
@@ -133,6 +163,17 @@ export default function StudentPaymentPage() {
   const [chargeToDelete, setChargeToDelete] = useState<StudentCharge | null>(null);
   const [paymentHistoryFilter, setPaymentHistoryFilter] = useState<string>("all");
   const [isFullHistoryReceiptOpen, setIsFullHistoryReceiptOpen] = useState(false);
+  const [isPlanDialogOpen, setIsPlanDialogOpen] = useState(false);
+  const [planFormData, setPlanFormData] = useState({
+    count: 3,
+    first_due_date: format(new Date(), 'yyyy-MM-dd'),
+    frequency: "monthly" as InstallmentFrequency,
+  });
+  const [plannedInstallments, setPlannedInstallments] = useState<PlannedInstallment[]>([]);
+  const [lateFeeInstallment, setLateFeeInstallment] = useState<StudentInstallment | null>(null);
+  const [lateFeeAmount, setLateFeeAmount] = useState(0);
+  const [paymentToCorrect, setPaymentToCorrect] = useState<{ payment: StudentPayment; action: PaymentCorrectionAction } | null>(null);
+  const [correctionFormData, setCorrectionFormData] = useState({ amount: 0, reason: "" });
 
   const { data: student, isLoading: studentLoading } = useQuery({
     queryKey: ["student", studentId],
@@ -190,6 +231,31 @@ export default function StudentPaymentPage() {
     enabled: !!studentId,
   });
 
+  // Balances per package are derived server-side, stored remaining_balance is only a cache
+  const { data: balanceLedger } = useQuery({
+    queryKey: ["student-balance-ledger", studentId],
+    queryFn: () => fetchStudentBalanceLedger(studentId!),
+    enabled: !!studentId,
+  });
+
+  // Installment plan of the current package
+  const { data: installments, isLoading: installmentsLoading } = useQuery({
+    queryKey: ["student-installments", studentId],
+    queryFn: async () => {
+      if (!studentId) return [];
+      const { data, error } = await supabase
+        .from("student_installments")
+        .select("*")
+        .eq("student_id", studentId)
+        .is("package_history_id", null)
+        .order("due_date", { ascending: true })
+        .order("installment_number", { ascending: true });
+      if (error) throw error;
+      return data as StudentInstallment[];
+    },
+    enabled: !!studentId,
+  });
+
   // Determine if student has a current package (always show if package_type exists)
   const hasCurrentPackage = student && student.package_type !== null && student.package_type !== '';
   
@@ -274,89 +340,17 @@ export default function StudentPaymentPage() {
     }
   }, [currentPackageFromStudent, packageHistory]);
 
-  // Calculate remaining balance for selected package
-  // Current package: use student only (0 after new package; set via create-new-package).
-  // Old/expired packages: use packageHistory only — never student, never zero out; keep stored values for tracking.
+  // Show the ledger figures of the selected package
   useEffect(() => {
-    if (!student || !selectedPackageForPaymentInfo) return;
-    const selectedId = selectedPackageForPaymentInfo;
-
-    const calculateRemainingBalance = async () => {
-      let totalFee = 0;
-      let downpayment = 0;
-      let remainingBalance = 0;
-
-      if (selectedId === 'current') {
-        // Use the database's remaining_balance directly (which is updated when payments are made)
-        totalFee = student.total_training_fee ?? 0;
-        downpayment = student.downpayment ?? 0;
-        remainingBalance = student.remaining_balance ?? 0;
-      } else {
-        const historyPkg = packageHistory?.find(p => p.id === selectedId);
-        if (historyPkg) {
-          // Use the database's remaining_balance directly (which is updated when payments are made)
-          totalFee = historyPkg.total_training_fee ?? 0;
-          downpayment = historyPkg.downpayment ?? 0;
-          remainingBalance = historyPkg.remaining_balance ?? 0;
-        } else {
-          // Fallback: calculate from payments and charges if package not found
-          let paymentsQuery = supabase
-            .from("student_payments")
-            .select("payment_amount, payment_for, charge_id, package_history_id")
-            .eq("student_id", student.id);
-          if (selectedId === 'current') {
-            paymentsQuery = paymentsQuery.or('package_history_id.is.null,package_history_id.eq.null');
-          } else {
-            paymentsQuery = paymentsQuery.eq("package_history_id", selectedId);
-          }
-          const { data: existingPayments } = await paymentsQuery;
-
-          let chargesQuery = supabase
-            .from("student_charges")
-            .select("amount, paid_amount, package_history_id")
-            .eq("student_id", student.id);
-          if (selectedId === 'current') {
-            chargesQuery = chargesQuery.is("package_history_id", null);
-            // Only include charges created on or after the current package's enrollment date
-            // This prevents old charges from expired packages from being included
-            if (student.enrollment_date) {
-              chargesQuery = chargesQuery.gte("created_at", student.enrollment_date);
-            }
-          } else {
-            chargesQuery = chargesQuery.eq("package_history_id", selectedId);
-          }
-          const { data: existingCharges } = await chargesQuery;
-
-          const balancePayments = existingPayments?.filter(p =>
-            p.payment_for === 'balance' &&
-            (p.package_history_id === selectedId || (selectedId === 'current' && !p.package_history_id))
-          ).reduce((sum, p) => sum + (p.payment_amount || 0), 0) || 0;
-
-          // Calculate unpaid charges (charges that haven't been fully paid)
-          // Only unpaid portion of charges should increase remaining balance
-          const unpaidCharges = existingCharges?.filter(c =>
-            c.package_history_id === selectedId || (selectedId === 'current' && !c.package_history_id)
-          ).reduce((sum, c) => {
-            const chargeAmount = c.amount || 0;
-            const paidAmount = c.paid_amount || 0;
-            const unpaidPortion = Math.max(0, chargeAmount - paidAmount);
-            return sum + unpaidPortion;
-          }, 0) || 0;
-
-          remainingBalance = Math.max(0, totalFee - downpayment - balancePayments + unpaidCharges);
-        }
-      }
-
-      if (latestSelectedPackageRef.current !== selectedId) return;
-      setPaymentInfoFormData({
-        total_training_fee: totalFee,
-        downpayment: downpayment,
-        remaining_balance: remainingBalance,
-      });
-    };
-
-    calculateRemainingBalance();
-  }, [student, studentCharges, selectedPackageForPaymentInfo, packageHistory]);
+    if (!selectedPackageForPaymentInfo) return;
+    const entry = getLedgerEntry(balanceLedger, selectedPackageForPaymentInfo);
+    if (!entry) return;
+    setPaymentInfoFormData({
+      total_training_fee: entry.total_training_fee ?? 0,
+      downpayment: entry.downpayment ?? 0,
+      remaining_balance: entry.remaining_balance ?? 0,
+    });
+  }, [balanceLedger, selectedPackageForPaymentInfo]);
 
   // Initialize package selection when package history loads
   useEffect(() => {
@@ -404,12 +398,18 @@ export default function StudentPaymentPage() {
             enrollment_date,
             expiration_date,
             captured_at
-          )
+          ),
+          recorded_by_coach:coaches!student_payments_recorded_by_fkey ( name ),
+          voided_by_coach:coaches!student_payments_voided_by_fkey ( name )
         `)
         .eq("student_id", studentId)
         .order("payment_date", { ascending: false });
       if (error) throw error;
-      return data as (StudentPayment & { package_history?: PackageHistory | null })[];
+      return data as unknown as (StudentPayment & {
+        package_history?: PackageHistory | null;
+        recorded_by_coach?: { name: string } | null;
+        voided_by_coach?: { name: string } | null;
+      })[];
     },
     enabled: !!studentId,
   });
@@ -461,126 +461,7 @@ export default function StudentPaymentPage() {
         }
       }
       
-      // Update remaining_balance for the correct package (student for current, package_history for old)
-      if (payment.payment_type === "balance") {
-        const targetPackageId = packageHistoryId; // null for current, UUID for old package
-        
-        if (targetPackageId) {
-          // Update package_history record
-          const { data: pkgHistory } = await supabase
-            .from("student_package_history")
-            .select("total_training_fee, downpayment, remaining_balance")
-            .eq("id", targetPackageId)
-            .single();
-          
-          if (pkgHistory) {
-            // Get balance payments for this package (including the one we just inserted)
-            const { data: pkgPayments } = await supabase
-              .from("student_payments")
-              .select("payment_amount, payment_for")
-              .eq("student_id", payment.student_id)
-              .eq("package_history_id", targetPackageId)
-              .eq("payment_for", "balance");
-            
-            const balancePayments = pkgPayments?.reduce((sum, p) => sum + (p.payment_amount || 0), 0) || 0;
-            
-            // Get charges for this package (need amount and paid_amount to calculate unpaid portion)
-            const { data: pkgCharges } = await supabase
-              .from("student_charges")
-              .select("amount, paid_amount")
-              .eq("student_id", payment.student_id)
-              .eq("package_history_id", targetPackageId);
-            
-            // Calculate unpaid charges (charges that haven't been fully paid)
-            // Only unpaid portion of charges should increase remaining balance
-            const unpaidCharges = pkgCharges?.reduce((sum, c) => {
-              const chargeAmount = c.amount || 0;
-              const paidAmount = c.paid_amount || 0;
-              const unpaidPortion = Math.max(0, chargeAmount - paidAmount);
-              return sum + unpaidPortion;
-            }, 0) || 0;
-            
-            const remainingBalance = Math.max(0, 
-              (pkgHistory.total_training_fee || 0) - 
-              (pkgHistory.downpayment || 0) - 
-              balancePayments + 
-              unpaidCharges
-            );
-            
-            const { error: updateError } = await supabase
-              .from("student_package_history")
-              .update({ remaining_balance: remainingBalance } as Record<string, any>)
-              .eq("id", targetPackageId);
-            
-            if (updateError) {
-              console.error("Failed to update package history remaining balance:", updateError);
-              throw new Error("Payment recorded but failed to update remaining balance: " + updateError.message);
-            }
-          }
-        } else {
-          // Update student record (current package)
-          const { data: currentStudent } = await supabase
-            .from("students")
-            .select("total_training_fee, downpayment, remaining_balance, enrollment_date")
-            .eq("id", payment.student_id)
-            .single();
-          
-          if (currentStudent) {
-            // Get balance payments for current package (package_history_id is null, including the one we just inserted)
-            const { data: currentPayments } = await supabase
-              .from("student_payments")
-              .select("payment_amount, payment_for")
-              .eq("student_id", payment.student_id)
-              .is("package_history_id", null)
-              .eq("payment_for", "balance");
-            
-            const balancePayments = currentPayments?.reduce((sum, p) => sum + (p.payment_amount || 0), 0) || 0;
-            
-            // Get charges for current package (package_history_id is null, need amount and paid_amount)
-            // Filter by enrollment_date to exclude old charges from expired packages
-            let currentChargesQuery = supabase
-              .from("student_charges")
-              .select("amount, paid_amount")
-              .eq("student_id", payment.student_id)
-              .is("package_history_id", null);
-            
-            // Only include charges created on or after the current package's enrollment date
-            // This prevents old charges from expired packages from being included
-            if (currentStudent.enrollment_date) {
-              currentChargesQuery = currentChargesQuery.gte("created_at", currentStudent.enrollment_date);
-            }
-            
-            const { data: currentCharges } = await currentChargesQuery;
-            
-            // Calculate unpaid charges (charges that haven't been fully paid)
-            // Only unpaid portion of charges should increase remaining balance
-            const unpaidCharges = currentCharges?.reduce((sum, c) => {
-              const chargeAmount = c.amount || 0;
-              const paidAmount = c.paid_amount || 0;
-              const unpaidPortion = Math.max(0, chargeAmount - paidAmount);
-              return sum + unpaidPortion;
-            }, 0) || 0;
-            
-            const remainingBalance = Math.max(0,
-              (currentStudent.total_training_fee || 0) -
-              (currentStudent.downpayment || 0) -
-              balancePayments +
-              unpaidCharges
-            );
-            
-            const { error: updateError } = await supabase
-              .from("students")
-              .update({ remaining_balance: remainingBalance })
-              .eq("id", payment.student_id);
-            
-            if (updateError) {
-              console.error("Failed to update student remaining balance:", updateError);
-              throw new Error("Payment recorded but failed to update remaining balance: " + updateError.message);
-            }
-          }
-        }
-      }
-      
+      // remaining_balance of the package is refreshed from the ledger by the payment triggers
       return data;
     },
     onSuccess: async (data) => {
@@ -591,6 +472,9 @@ export default function StudentPaymentPage() {
         queryClient.invalidateQueries({ queryKey: ["student-charges", studentId] }),
         queryClient.invalidateQueries({ queryKey: ["student", studentId] }),
         queryClient.invalidateQueries({ queryKey: ["student-package-history", studentId] }),
+        queryClient.invalidateQueries({ queryKey: ["student-balance-ledger", studentId] }),
+        queryClient.invalidateQueries({ queryKey: ["student-installments", studentId] }),
+        queryClient.invalidateQueries({ queryKey: ["overdue-installments"] }),
       ]);
       
       // Explicitly refetch to ensure fresh data
@@ -653,6 +537,7 @@ export default function StudentPaymentPage() {
       queryClient.invalidateQueries({ queryKey: ["students"] });
       queryClient.invalidateQueries({ queryKey: ["student-charges", studentId] });
       queryClient.invalidateQueries({ queryKey: ["student", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-balance-ledger", studentId] });
       toast.success("Charge added successfully - Balance updated");
       setIsAddChargeOpen(false);
       setChargeFormData({
@@ -679,6 +564,7 @@ export default function StudentPaymentPage() {
       queryClient.invalidateQueries({ queryKey: ["students"] });
       queryClient.invalidateQueries({ queryKey: ["student-charges", studentId] });
       queryClient.invalidateQueries({ queryKey: ["student", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-balance-ledger", studentId] });
       toast.success("Charge deleted - Balance updated");
       setIsDeleteChargeOpen(false);
       setChargeToDelete(null);
@@ -688,68 +574,159 @@ export default function StudentPaymentPage() {
     },
   });
 
+  const setInstallmentPlanMutation = useMutation({
+    mutationFn: async (plan: PlannedInstallment[]) => {
+      const { data, error } = await supabase.rpc("set_student_installment_plan", {
+        p_student_id: studentId!,
+        p_amounts: plan.map((installment) => installment.amount),
+        p_due_dates: plan.map((installment) => installment.due_date),
+      });
+      if (error) {
+        console.error('Set installment plan error:', error);
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["student-installments", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["overdue-installments"] });
+      toast.success(`Installment plan saved with ${count} installment${count === 1 ? '' : 's'}`);
+      setIsPlanDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to save installment plan: " + error.message);
+    },
+  });
+
+  const addLateFeeMutation = useMutation({
+    mutationFn: async ({ installment, amount }: { installment: StudentInstallment; amount: number }) => {
+      const { data: charge, error } = await supabase
+        .from("student_charges")
+        .insert([{
+          student_id: installment.student_id,
+          amount,
+          charge_type: "late_fee",
+          description: `Late fee - installment #${installment.installment_number} due ${format(new Date(installment.due_date), "MMM d, yyyy")}`,
+          charge_date: format(new Date(), 'yyyy-MM-dd\'T\'HH:mm:ss'),
+          package_history_id: null,
+        }])
+        .select()
+        .single();
+      if (error) {
+        console.error('Add late fee error:', error);
+        throw error;
+      }
+
+      const { error: linkError } = await supabase
+        .from("student_installments")
+        .update({ late_fee_charge_id: charge.id })
+        .eq("id", installment.id);
+      if (linkError) {
+        console.error('Link late fee error:', linkError);
+        throw linkError;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["students"] });
+      queryClient.invalidateQueries({ queryKey: ["student-charges", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-balance-ledger", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-installments", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["overdue-installments"] });
+      toast.success("Late fee added - Balance updated");
+      setLateFeeInstallment(null);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to add late fee: " + error.message);
+    },
+  });
+
+  // Corrections never edit or delete the payment, the server keeps it and records who changed what
+  const correctPaymentMutation = useMutation({
+    mutationFn: async ({ paymentId, action, amount, reason }: { paymentId: string; action: PaymentCorrectionAction; amount: number; reason: string }) => {
+      const { error } = action === "void"
+        ? await supabase.rpc("void_student_payment", { p_payment_id: paymentId, p_reason: reason })
+        : await supabase.rpc("refund_student_payment", { p_payment_id: paymentId, p_amount: amount, p_reason: reason });
+      if (error) {
+        console.error('Payment correction error:', error);
+        throw error;
+      }
+    },
+    onSuccess: (_, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ["students"] });
+      queryClient.invalidateQueries({ queryKey: ["student-payments", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-charges", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-package-history", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-balance-ledger", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-installments", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["overdue-installments"] });
+      toast.success(action === "void" ? "Payment voided - Balance updated" : "Refund recorded - Balance updated");
+      setPaymentToCorrect(null);
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to correct payment: " + error.message);
+    },
+  });
+
+  // What is left of a payment after its refunds that haven't been voided
+  const getRefundableAmount = (payment: StudentPayment) => {
+    const refunded = (studentPayments || [])
+      .filter((p) => p.refunded_payment_id === payment.id && !p.voided_at)
+      .reduce((sum, p) => sum + Math.abs(p.payment_amount), 0);
+    return Math.max(0, payment.payment_amount - refunded);
+  };
+
+  const openPaymentCorrection = (paymentId: string, action: PaymentCorrectionAction) => {
+    const payment = studentPayments?.find((p) => p.id === paymentId);
+    if (!payment) return;
+    setCorrectionFormData({ amount: action === "refund" ? getRefundableAmount(payment) : 0, reason: "" });
+    setPaymentToCorrect({ payment, action });
+  };
+
+  const installmentBalance = Math.max(0, (student?.total_training_fee || 0) - (student?.downpayment || 0));
+  const lockedInstallments = installments?.filter((installment) => installment.paid_amount > 0) || [];
+  const lockedInstallmentsTotal = lockedInstallments.reduce((sum, installment) => sum + installment.amount, 0);
+  const plannedInstallmentsTotal = plannedInstallments.reduce((sum, installment) => sum + installment.amount, 0);
+
+  // Only installments without payments are replaced, so the new plan covers what's left after those
+  const openPlanDialog = () => {
+    const unpaidInstallments = installments?.filter((installment) => installment.paid_amount === 0) || [];
+    setPlannedInstallments(unpaidInstallments.map((installment) => ({
+      amount: installment.amount,
+      due_date: installment.due_date,
+    })));
+    setIsPlanDialogOpen(true);
+  };
+
+  const generatePlannedInstallments = () => {
+    setPlannedInstallments(buildInstallmentSchedule(
+      Math.max(0, installmentBalance - lockedInstallmentsTotal),
+      planFormData.count,
+      new Date(planFormData.first_due_date + 'T00:00:00'),
+      planFormData.frequency
+    ));
+  };
+
+  const handlePlanSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (plannedInstallments.some((installment) => installment.amount <= 0 || !installment.due_date)) {
+      toast.error("Each installment needs an amount and a due date");
+      return;
+    }
+    if (Math.round((lockedInstallmentsTotal + plannedInstallmentsTotal) * 100) > Math.round(installmentBalance * 100)) {
+      toast.error(`Installments can't exceed the training fee balance of ₱${installmentBalance.toFixed(2)}`);
+      return;
+    }
+    setInstallmentPlanMutation.mutate(plannedInstallments);
+  };
+
   const updatePaymentInfoMutation = useMutation({
     mutationFn: async (paymentInfo: typeof paymentInfoFormData & { student_id: string; package_id: string }) => {
       const totalFee = paymentInfo.total_training_fee || 0;
       const downpayment = paymentInfo.downpayment || 0;
-      
-      // Get payments for this specific package
-      let paymentsQuery = supabase
-        .from("student_payments")
-        .select("payment_amount, payment_for, package_history_id")
-        .eq("student_id", paymentInfo.student_id);
-      
-      if (paymentInfo.package_id === 'current') {
-        paymentsQuery = paymentsQuery.is("package_history_id", null);
-      } else {
-        paymentsQuery = paymentsQuery.eq("package_history_id", paymentInfo.package_id);
-      }
-      
-      const { data: existingPayments } = await paymentsQuery;
-      
-      // Get charges for this specific package (need amount and paid_amount)
-      // Get student enrollment_date for date filtering
-      const { data: studentData } = await supabase
-        .from("students")
-        .select("enrollment_date")
-        .eq("id", paymentInfo.student_id)
-        .single();
-      
-      let chargesQuery = supabase
-        .from("student_charges")
-        .select("amount, paid_amount, package_history_id")
-        .eq("student_id", paymentInfo.student_id);
-      
-      if (paymentInfo.package_id === 'current') {
-        chargesQuery = chargesQuery.is("package_history_id", null);
-        // Only include charges created on or after the current package's enrollment date
-        // This prevents old charges from expired packages from being included
-        if (studentData?.enrollment_date) {
-          chargesQuery = chargesQuery.gte("created_at", studentData.enrollment_date);
-        }
-      } else {
-        chargesQuery = chargesQuery.eq("package_history_id", paymentInfo.package_id);
-      }
-      
-      const { data: existingCharges } = await chargesQuery;
-      
-      // Calculate balance payments for this package (only balance payments, not extra charges)
-      const balancePayments = existingPayments?.filter(p => 
-        p.payment_for === 'balance'
-      ).reduce((sum, p) => sum + (p.payment_amount || 0), 0) || 0;
-      
-      // Calculate unpaid charges (charges that haven't been fully paid)
-      // Only unpaid portion of charges should increase remaining balance
-      const unpaidCharges = existingCharges?.reduce((sum, c) => {
-        const chargeAmount = c.amount || 0;
-        const paidAmount = c.paid_amount || 0;
-        const unpaidPortion = Math.max(0, chargeAmount - paidAmount);
-        return sum + unpaidPortion;
-      }, 0) || 0;
-      
-      const remainingBalance = Math.max(0, totalFee - downpayment - balancePayments + unpaidCharges);
-      
-      // Update the appropriate record based on package_id
+
+      // The balance triggers recompute remaining_balance from the ledger once the fee changes
       if (paymentInfo.package_id === 'current') {
         // Update student record for current package
         const { data, error } = await supabase
@@ -757,7 +734,6 @@ export default function StudentPaymentPage() {
           .update({
             total_training_fee: totalFee,
             downpayment: downpayment,
-            remaining_balance: remainingBalance,
           })
           .eq("id", paymentInfo.student_id)
           .select()
@@ -771,7 +747,6 @@ export default function StudentPaymentPage() {
           .update({
             total_training_fee: totalFee,
             downpayment: downpayment,
-            remaining_balance: remainingBalance,
           })
           .eq("id", paymentInfo.package_id)
           .select()
@@ -785,6 +760,7 @@ export default function StudentPaymentPage() {
       queryClient.invalidateQueries({ queryKey: ["student", studentId] });
       queryClient.invalidateQueries({ queryKey: ["student-package-history", studentId] });
       queryClient.invalidateQueries({ queryKey: ["student-payments", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-balance-ledger", studentId] });
       setIsEditingPaymentInfo(false);
       toast.success("Payment information updated successfully");
     },
@@ -793,29 +769,10 @@ export default function StudentPaymentPage() {
     },
   });
 
-  // Calculate unpaid charges for selected package (only unpaid portion should affect balance)
-  const unpaidChargesForSelectedPackage = selectedPackageForPaymentInfo 
-    ? (studentCharges?.filter(c => {
-        if (selectedPackageForPaymentInfo === 'current') {
-          // For current package, only include charges with null package_history_id
-          // AND created on or after the current package's enrollment date
-          // This prevents old charges from expired packages from being included
-          if (c.package_history_id) return false;
-          if (student?.enrollment_date && c.created_at) {
-            const chargeDate = new Date(c.created_at);
-            const enrollmentDate = new Date(student.enrollment_date);
-            return chargeDate >= enrollmentDate;
-          }
-          return true; // If no enrollment date, include all null charges (fallback)
-        }
-        return c.package_history_id === selectedPackageForPaymentInfo;
-      }).reduce((sum, c) => {
-        const chargeAmount = c.amount || 0;
-        const paidAmount = c.paid_amount || 0;
-        const unpaidPortion = Math.max(0, chargeAmount - paidAmount);
-        return sum + unpaidPortion;
-      }, 0) || 0)
-    : 0;
+  // Unpaid charges of the selected package (only the unpaid portion adds to the balance)
+  const selectedLedgerEntry = selectedPackageForPaymentInfo ? getLedgerEntry(balanceLedger, selectedPackageForPaymentInfo) : undefined;
+  const unpaidChargesForSelectedPackage = selectedLedgerEntry?.charges_owed ?? 0;
+  const balancePaymentsForSelectedPackage = selectedLedgerEntry?.balance_payments ?? 0;
 
   if (studentLoading) {
     return (
@@ -841,6 +798,132 @@ export default function StudentPaymentPage() {
     );
   }
 
+  // Renewals record their downpayment as a payment, earlier cycles only have it on the package
+  const hasRecordedDownpayment = (packageHistoryId: string | null) =>
+    (studentPayments || []).some((payment) =>
+      payment.payment_for === 'downpayment' && (payment.package_history_id ?? null) === packageHistoryId
+    );
+
+  // Payments and downpayments across every package cycle, newest first
+  const getPaymentHistory = () => {
+    const allPayments: PaymentHistoryEntry[] = [];
+
+    // Add downpayment from current package (student record)
+    if (student.downpayment && student.downpayment > 0 && !hasRecordedDownpayment(null)) {
+      const dpDate = student.enrollment_date || student.created_at || new Date().toISOString();
+      allPayments.push({
+        id: 'downpayment-current',
+        payment_amount: student.downpayment,
+        payment_date: dpDate,
+        created_at: dpDate,
+        notes: null,
+        payment_for: 'downpayment',
+        charge_id: null,
+        package_history_id: 'current',
+        package_history: currentPackageFromStudent,
+        isDownpayment: true,
+      });
+    }
+
+    // Add downpayments from historical packages
+    if (packageHistory && packageHistory.length > 0) {
+      packageHistory.forEach((pkg) => {
+        if (pkg.downpayment && pkg.downpayment > 0 && !hasRecordedDownpayment(pkg.id)) {
+          const dpDate = pkg.enrollment_date || pkg.captured_at || new Date().toISOString();
+          allPayments.push({
+            id: `downpayment-${pkg.id}`,
+            payment_amount: pkg.downpayment,
+            payment_date: dpDate,
+            created_at: dpDate,
+            notes: null,
+            payment_for: 'downpayment',
+            charge_id: null,
+            package_history_id: pkg.id,
+            package_history: pkg,
+            isDownpayment: true,
+          });
+        }
+      });
+    }
+
+    if (studentPayments && studentPayments.length > 0) {
+      studentPayments.forEach(payment => {
+        allPayments.push({
+          id: payment.id,
+          payment_amount: payment.payment_amount,
+          payment_date: payment.payment_date,
+          created_at: payment.created_at,
+          notes: payment.notes,
+          payment_for: payment.payment_for || 'balance',
+          charge_id: payment.charge_id,
+          package_history_id: payment.package_history_id || null,
+          package_history: (payment as any).package_history || null,
+          isDownpayment: payment.payment_for === 'downpayment',
+          transaction_type: payment.transaction_type,
+          reason: payment.reason,
+          voided_at: payment.voided_at,
+          void_reason: payment.void_reason,
+        });
+      });
+    }
+
+    allPayments.sort((a, b) => {
+      const dateA = new Date(a.payment_date).getTime();
+      const dateB = new Date(b.payment_date).getTime();
+      return dateB - dateA;
+    });
+    return allPayments;
+  };
+
+  const getPaymentPackageLabel = (payment: PaymentHistoryEntry) => {
+    if (payment.payment_for === 'extra_charge' && payment.charge_id) {
+      const charge = studentCharges?.find(c => c.id === payment.charge_id);
+      if (charge) return getPackageDisplay(null, charge.package_history_id, charge.charge_date) || 'Unassigned';
+    }
+    return getPackageDisplay(payment.package_history, payment.package_history_id, payment.payment_date) || 'Unassigned';
+  };
+
+  /** Payment history grouped by package cycle; voided payments are listed but left out of the totals */
+  const buildPaymentHistoryReport = (): ReportDefinition<PaymentHistoryEntry> => {
+    const payments = getPaymentHistory();
+    const activeTotal = payments.filter((payment) => !payment.voided_at).reduce((sum, payment) => sum + payment.payment_amount, 0);
+    return {
+      title: 'Payment History',
+      subtitle: student.name,
+      filename: `${student.name.replace(/\s+/g, '_').toLowerCase()}_payment_history`,
+      sheetName: 'Payments',
+      rows: payments,
+      groupBy: getPaymentPackageLabel,
+      subtotals: true,
+      grandTotal: true,
+      excludeFromTotals: (payment) => !!payment.voided_at,
+      rowHighlight: (payment) => payment.voided_at ? 'muted' : payment.payment_amount < 0 ? 'danger' : null,
+      columns: [
+        { header: 'Date', value: (payment) => payment.payment_date, type: 'date' },
+        {
+          header: 'Receipt No.',
+          value: (payment) => payment.isDownpayment
+            ? `REC-${student.id.slice(0, 8).toUpperCase()}-DP`
+            : `REC-${student.id.slice(0, 8).toUpperCase()}-${payment.id.slice(0, 8).toUpperCase()}`,
+        },
+        {
+          header: 'Type',
+          value: (payment) => payment.voided_at ? 'Voided'
+            : payment.transaction_type === 'refund' ? 'Refund'
+            : payment.isDownpayment ? 'Downpayment'
+            : payment.payment_for === 'extra_charge' ? (studentCharges?.find(c => c.id === payment.charge_id)?.description || 'Extra Charge')
+            : 'Training Balance',
+        },
+        { header: 'Amount', value: (payment) => payment.payment_amount, type: 'currency', bold: true, total: 'sum' },
+        { header: 'Notes', value: (payment) => [payment.notes, payment.reason, payment.void_reason].filter(Boolean).join(' / '), width: 36 },
+      ],
+      summary: [
+        ['Total Paid', `₱${activeTotal.toFixed(2)}`],
+        ['Remaining Balance', `₱${Number(student.remaining_balance || 0).toFixed(2)}`],
+      ],
+    };
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted/20 pt-4 p-3 sm:p-4 md:p-6 pb-24 md:pb-6">
       <div className="max-w-7xl mx-auto space-y-6">
@@ -967,7 +1050,7 @@ export default function StudentPaymentPage() {
                       setPaymentInfoFormData((prev) => ({
                         ...prev,
                         total_training_fee: value,
-                        remaining_balance: Math.max(0, value - downpayment + unpaidChargesForSelectedPackage),
+                        remaining_balance: Math.max(0, value - downpayment - balancePaymentsForSelectedPackage + unpaidChargesForSelectedPackage),
                       }));
                     }}
                     disabled={!isEditingPaymentInfo}
@@ -990,7 +1073,7 @@ export default function StudentPaymentPage() {
                       setPaymentInfoFormData((prev) => ({
                         ...prev,
                         downpayment: value,
-                        remaining_balance: Math.max(0, totalFee - value + unpaidChargesForSelectedPackage),
+                        remaining_balance: Math.max(0, totalFee - value - balancePaymentsForSelectedPackage + unpaidChargesForSelectedPackage),
                       }));
                     }}
                     disabled={!isEditingPaymentInfo}
@@ -1035,31 +1118,12 @@ export default function StudentPaymentPage() {
                       variant="outline"
                       onClick={() => {
                         setIsEditingPaymentInfo(false);
-                        if (student) {
-                          const calculateRemainingBalance = async () => {
-                            const { data: existingPayments } = await supabase
-                              .from("student_payments")
-                              .select("payment_amount")
-                              .eq("student_id", student.id);
-                            
-                            const { data: existingCharges } = await supabase
-                              .from("student_charges")
-                              .select("amount")
-                              .eq("student_id", student.id);
-                            
-                            const totalPayments = existingPayments?.reduce((sum, p) => sum + (p.payment_amount || 0), 0) || 0;
-                            const totalChargesAmount = existingCharges?.reduce((sum, c) => sum + (c.amount || 0), 0) || 0;
-                            const totalFee = student.total_training_fee || 0;
-                            const downpayment = student.downpayment || 0;
-                            const remainingBalance = Math.max(0, totalFee - downpayment - totalPayments + totalChargesAmount);
-                            
-                            setPaymentInfoFormData({
-                              total_training_fee: totalFee,
-                              downpayment: downpayment,
-                              remaining_balance: remainingBalance,
-                            });
-                          };
-                          calculateRemainingBalance();
+                        if (selectedLedgerEntry) {
+                          setPaymentInfoFormData({
+                            total_training_fee: selectedLedgerEntry.total_training_fee ?? 0,
+                            downpayment: selectedLedgerEntry.downpayment ?? 0,
+                            remaining_balance: selectedLedgerEntry.remaining_balance ?? 0,
+                          });
                         }
                       }}
                       className="flex-1 text-xs sm:text-sm"
@@ -1100,6 +1164,9 @@ export default function StudentPaymentPage() {
                     <TabsTrigger value="charges" className="data-[state=active]:bg-accent data-[state=active]:text-accent-foreground">
                       Extra Charges
                     </TabsTrigger>
+                    <TabsTrigger value="installments" className="data-[state=active]:bg-accent data-[state=active]:text-accent-foreground">
+                      Installments
+                    </TabsTrigger>
                   </TabsList>
                 </div>
             </CardHeader>
@@ -1397,18 +1464,7 @@ export default function StudentPaymentPage() {
                       {paymentFormData.payment_type === "balance" && (() => {
                         // Calculate remaining balance for the selected package in payment form
                         const selectedPackageId = paymentFormData.selected_package_history_id;
-                        let previewRemainingBalance = 0;
-                        
-                        if (selectedPackageId === 'current' || !selectedPackageId) {
-                          // Use current package's remaining balance
-                          previewRemainingBalance = student?.remaining_balance ?? 0;
-                        } else {
-                          // Find the package in history
-                          const selectedPkg = packageHistory?.find(p => p.id === selectedPackageId);
-                          if (selectedPkg) {
-                            previewRemainingBalance = selectedPkg.remaining_balance ?? 0;
-                          }
-                        }
+                        const previewRemainingBalance = getLedgerEntry(balanceLedger, selectedPackageId)?.remaining_balance ?? 0;
                         
                         return (
                           <div className="space-y-2 text-sm">
@@ -1783,6 +1839,107 @@ export default function StudentPaymentPage() {
                     <p className="text-muted-foreground text-xs sm:text-sm text-center py-8">No extra charges found.</p>
                   )}
                 </TabsContent>
+
+                <TabsContent value="installments" className="mt-0">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+                    <div className="text-xs sm:text-sm text-muted-foreground">
+                      Training fee balance <span className="font-semibold text-foreground">₱{installmentBalance.toFixed(2)}</span>
+                      {" "}· scheduled <span className="font-semibold text-foreground">₱{(installments || []).reduce((sum, installment) => sum + installment.amount, 0).toFixed(2)}</span>
+                    </div>
+                    <Button
+                      onClick={openPlanDialog}
+                      disabled={!hasCurrentPackage || installmentBalance <= 0}
+                      className="bg-blue-600 hover:bg-blue-700 text-white text-xs sm:text-sm"
+                    >
+                      <CalendarClock className="w-4 h-4 mr-1" />
+                      {installments && installments.length > 0 ? "Edit Plan" : "Set Up Plan"}
+                    </Button>
+                  </div>
+
+                  {installmentsLoading ? (
+                    <div className="text-center py-12">
+                      <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-500 border-t-transparent mx-auto" />
+                      <p className="text-muted-foreground mt-3 text-sm">Loading installments…</p>
+                    </div>
+                  ) : installments && installments.length > 0 ? (
+                    <div className="space-y-3">
+                      {installments.map((installment) => {
+                        const status = getInstallmentStatus(installment);
+                        const remainingAmount = installment.amount - installment.paid_amount;
+                        return (
+                          <div
+                            key={installment.id}
+                            className={cn(
+                              "border-2 rounded-lg p-3 sm:p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3",
+                              status === 'overdue' ? "border-red-200 bg-red-50/50 dark:border-red-900/50 dark:bg-red-950/20" : "border-border bg-card"
+                            )}
+                          >
+                            <div className="min-w-0">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-semibold text-sm text-foreground">Installment #{installment.installment_number}</span>
+                                {status === 'paid' && (
+                                  <span className="inline-flex items-center px-2.5 py-1 rounded-md text-xs font-semibold bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300">Paid</span>
+                                )}
+                                {status === 'partial' && (
+                                  <span className="inline-flex items-center px-2.5 py-1 rounded-md text-xs font-semibold bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300">₱{remainingAmount.toFixed(2)} due</span>
+                                )}
+                                {status === 'overdue' && (
+                                  <span className="inline-flex items-center px-2.5 py-1 rounded-md text-xs font-semibold bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300">Overdue · ₱{remainingAmount.toFixed(2)}</span>
+                                )}
+                                {status === 'upcoming' && (
+                                  <span className="inline-flex items-center px-2.5 py-1 rounded-md text-xs font-semibold bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300">Upcoming</span>
+                                )}
+                                {installment.late_fee_charge_id && (
+                                  <span className="inline-flex items-center px-2.5 py-1 rounded-md text-xs font-semibold bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300">Late fee charged</span>
+                                )}
+                              </div>
+                              <p className="text-xs sm:text-sm text-muted-foreground mt-1">
+                                Due {format(new Date(installment.due_date + 'T00:00:00'), "MMM d, yyyy")} · ₱{installment.amount.toFixed(2)}
+                                {installment.paid_amount > 0 && ` · ₱${installment.paid_amount.toFixed(2)} paid`}
+                                {installment.paid_at && ` on ${format(new Date(installment.paid_at), "MMM d, yyyy")}`}
+                              </p>
+                            </div>
+                            {status !== 'paid' && (
+                              <div className="flex items-center gap-2 flex-shrink-0">
+                                {status === 'overdue' && !installment.late_fee_charge_id && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    className="h-8 px-3 border-red-300 text-red-700 hover:bg-red-50 text-xs font-semibold"
+                                    onClick={() => { setLateFeeInstallment(installment); setLateFeeAmount(0); }}
+                                  >
+                                    Late Fee
+                                  </Button>
+                                )}
+                                <Button
+                                  size="sm"
+                                  className="h-8 px-3 bg-green-600 hover:bg-green-700 text-white text-xs font-semibold shadow-sm hover:shadow"
+                                  onClick={() => {
+                                    setActiveTab("payments");
+                                    setPaymentFormData({
+                                      payment_amount: remainingAmount,
+                                      payment_type: "balance",
+                                      selected_charge_id: "",
+                                      selected_package_history_id: "current",
+                                      payment_date: new Date(),
+                                      notes: `Installment #${installment.installment_number}`,
+                                    });
+                                  }}
+                                >
+                                  Pay
+                                </Button>
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <p className="text-muted-foreground text-xs sm:text-sm text-center py-8">
+                      No installment plan. Balance payments can be made at any time.
+                    </p>
+                  )}
+                </TabsContent>
               </CardContent>
             </Tabs>
           </Card>
@@ -1830,6 +1987,11 @@ export default function StudentPaymentPage() {
                   <Printer className="w-4 h-4 mr-1.5" />
                   Print All
                 </Button>
+                <ReportExportMenu
+                  size="sm"
+                  getReport={buildPaymentHistoryReport}
+                  className="bg-green-600 hover:bg-green-700 text-white h-9 text-xs sm:text-sm"
+                />
               </div>
             </div>
           </CardHeader>
@@ -1840,79 +2002,7 @@ export default function StudentPaymentPage() {
                 <p className="text-muted-foreground mt-2 text-xs sm:text-sm">Loading payments...</p>
               </div>
             ) : (() => {
-              const allPayments: Array<{
-                id: string;
-                payment_amount: number;
-                payment_date: string;
-                created_at: string;
-                notes: string | null;
-                payment_for: string;
-                charge_id: string | null;
-                package_history_id: string | null;
-                package_history?: PackageHistory | null;
-                isDownpayment: boolean;
-              }> = [];
-
-              // Add downpayment from current package (student record)
-              if (student.downpayment && student.downpayment > 0) {
-                const dpDate = student.enrollment_date || student.created_at || new Date().toISOString();
-                allPayments.push({
-                  id: 'downpayment-current',
-                  payment_amount: student.downpayment,
-                  payment_date: dpDate,
-                  created_at: dpDate,
-                  notes: null,
-                  payment_for: 'downpayment',
-                  charge_id: null,
-                  package_history_id: 'current',
-                  package_history: currentPackageFromStudent,
-                  isDownpayment: true,
-                });
-              }
-
-              // Add downpayments from historical packages
-              if (packageHistory && packageHistory.length > 0) {
-                packageHistory.forEach((pkg) => {
-                  if (pkg.downpayment && pkg.downpayment > 0) {
-                    const dpDate = pkg.enrollment_date || pkg.captured_at || new Date().toISOString();
-                    allPayments.push({
-                      id: `downpayment-${pkg.id}`,
-                      payment_amount: pkg.downpayment,
-                      payment_date: dpDate,
-                      created_at: dpDate,
-                      notes: null,
-                      payment_for: 'downpayment',
-                      charge_id: null,
-                      package_history_id: pkg.id,
-                      package_history: pkg,
-                      isDownpayment: true,
-                    });
-                  }
-                });
-              }
-
-              if (studentPayments && studentPayments.length > 0) {
-                studentPayments.forEach(payment => {
-                  allPayments.push({
-                    id: payment.id,
-                    payment_amount: payment.payment_amount,
-                    payment_date: payment.payment_date,
-                    created_at: payment.created_at,
-                    notes: payment.notes,
-                    payment_for: payment.payment_for || 'balance',
-                    charge_id: payment.charge_id,
-                    package_history_id: payment.package_history_id || null,
-                    package_history: (payment as any).package_history || null,
-                    isDownpayment: false,
-                  });
-                });
-              }
-
-              allPayments.sort((a, b) => {
-                const dateA = new Date(a.payment_date).getTime();
-                const dateB = new Date(b.payment_date).getTime();
-                return dateB - dateA;
-              });
+              const allPayments = getPaymentHistory();
 
               // Apply package filter
               const filteredPayments = paymentHistoryFilter === 'all' 
@@ -1968,11 +2058,15 @@ export default function StudentPaymentPage() {
                         key={payment.id}
                             className={cn(
                               "border-b border-border/40 transition-all duration-200",
-                              payment.isDownpayment 
+                              payment.voided_at
+                                ? "bg-muted/40 opacity-70"
+                                : payment.isDownpayment 
                                 ? "bg-gradient-to-r from-blue-50/80 to-blue-100/40 dark:from-blue-950/30 dark:to-blue-900/10 hover:from-blue-100 hover:to-blue-150 dark:hover:from-blue-950/40 dark:hover:to-blue-900/20" 
                                 : payment.payment_for === 'extra_charge'
                                   ? "bg-gradient-to-r from-amber-50/60 to-amber-100/30 dark:from-amber-950/15 dark:to-amber-900/5 hover:from-amber-100/80 hover:to-amber-150/50 dark:hover:from-amber-950/25 dark:hover:to-amber-900/15"
-                                  : index % 2 === 0 ? "bg-card hover:bg-muted/40" : "bg-muted/30 hover:bg-muted/60"
+                                  : payment.transaction_type === 'refund'
+                                    ? "bg-red-50/60 dark:bg-red-950/15 hover:bg-red-100/60 dark:hover:bg-red-950/25"
+                                    : index % 2 === 0 ? "bg-card hover:bg-muted/40" : "bg-muted/30 hover:bg-muted/60"
                             )}
                           >
                             <td className="py-4 px-4 text-foreground text-sm font-semibold whitespace-nowrap">
@@ -1984,11 +2078,24 @@ export default function StudentPaymentPage() {
                             : `REC-${student.id.slice(0, 8).toUpperCase()}-${payment.id.slice(0, 8).toUpperCase()}`
                           }
                         </td>
-                            <td className="py-4 px-4 text-foreground text-sm font-bold text-green-600 dark:text-green-500">
-                          ₱{payment.payment_amount.toFixed(2)}
+                            <td className={cn(
+                              "py-4 px-4 text-sm font-bold",
+                              payment.voided_at ? "line-through text-muted-foreground" : payment.payment_amount < 0 ? "text-red-600 dark:text-red-500" : "text-green-600 dark:text-green-500"
+                            )}>
+                          {payment.payment_amount < 0 ? `-₱${Math.abs(payment.payment_amount).toFixed(2)}` : `₱${payment.payment_amount.toFixed(2)}`}
                         </td>
                             <td className="py-4 px-4 whitespace-nowrap">
-                            {payment.isDownpayment ? (
+                            {payment.voided_at ? (
+                              <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300 border border-gray-300 dark:border-gray-600">
+                                <Ban className="w-3.5 h-3.5" />
+                                Voided
+                              </span>
+                            ) : payment.transaction_type === 'refund' ? (
+                              <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-gradient-to-r from-red-100 to-red-50 text-red-700 dark:from-red-900/50 dark:to-red-800/30 dark:text-red-300 border border-red-200 dark:border-red-700/50">
+                                <Undo2 className="w-3.5 h-3.5" />
+                                Refund
+                              </span>
+                            ) : payment.isDownpayment ? (
                               <span className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-bold bg-gradient-to-r from-blue-100 to-blue-50 text-blue-700 dark:from-blue-900/50 dark:to-blue-800/30 dark:text-blue-300 border border-blue-200 dark:border-blue-700/50">
                                 <DollarSign className="w-3.5 h-3.5" />
                                 Downpayment
@@ -2107,8 +2214,13 @@ export default function StudentPaymentPage() {
                             </td>
                             <td className="py-4 px-4 text-muted-foreground text-sm max-w-[200px]">
                               <span className="truncate block font-medium" title={payment.notes ?? ''}>
-                                {payment.notes || '—'}
+                                {payment.notes || payment.reason || '—'}
                               </span>
+                              {payment.voided_at && (
+                                <span className="truncate block text-xs text-red-600" title={payment.void_reason ?? ''}>
+                                  Voided {format(new Date(payment.voided_at), "MMM dd, yyyy")}: {payment.void_reason}
+                                </span>
+                              )}
                             </td>
                         <td className="py-4 px-4 whitespace-nowrap">
                               <div className="flex gap-2">
@@ -2173,6 +2285,30 @@ export default function StudentPaymentPage() {
                           >
                                   <Printer className="w-4 h-4" />
                           </Button>
+                                {isAdmin && !payment.isDownpayment && !payment.voided_at && (
+                                  <>
+                                    {payment.transaction_type !== 'refund' && (
+                                      <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        title="Refund"
+                                        onClick={() => openPaymentCorrection(payment.id, "refund")}
+                                        className="h-9 w-9 p-0 text-muted-foreground hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                                      >
+                                        <Undo2 className="w-4 h-4" />
+                                      </Button>
+                                    )}
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      title="Void"
+                                      onClick={() => openPaymentCorrection(payment.id, "void")}
+                                      className="h-9 w-9 p-0 text-muted-foreground hover:text-red-600 hover:bg-red-50 rounded-lg transition-all"
+                                    >
+                                      <Ban className="w-4 h-4" />
+                                    </Button>
+                                  </>
+                                )}
                               </div>
                         </td>
                       </tr>
@@ -2188,7 +2324,11 @@ export default function StudentPaymentPage() {
                         key={payment.id}
                         className={cn(
                           "border rounded-lg p-4 space-y-3",
-                          payment.isDownpayment 
+                          payment.voided_at
+                            ? "bg-muted/40 border-border opacity-70"
+                            : payment.transaction_type === 'refund'
+                              ? "bg-red-50/50 border-red-200 dark:bg-red-950/10 dark:border-red-800"
+                              : payment.isDownpayment 
                             ? "bg-blue-50 border-blue-200 dark:bg-blue-950/20 dark:border-blue-800" 
                             : payment.payment_for === 'extra_charge'
                               ? "bg-amber-50/50 border-amber-200 dark:bg-amber-950/10 dark:border-amber-800"
@@ -2200,11 +2340,22 @@ export default function StudentPaymentPage() {
                             <p className="text-xs text-muted-foreground">
                               {format(new Date(payment.created_at), "MMM dd, yyyy h:mm a")}
                             </p>
-                            <p className="font-bold text-lg text-green-600">
-                              ₱{payment.payment_amount.toFixed(2)}
+                            <p className={cn(
+                              "font-bold text-lg",
+                              payment.voided_at ? "line-through text-muted-foreground" : payment.payment_amount < 0 ? "text-red-600" : "text-green-600"
+                            )}>
+                              {payment.payment_amount < 0 ? `-₱${Math.abs(payment.payment_amount).toFixed(2)}` : `₱${payment.payment_amount.toFixed(2)}`}
                             </p>
                           </div>
-                          {payment.isDownpayment ? (
+                          {payment.voided_at ? (
+                            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-200 text-gray-700">
+                              Voided
+                            </span>
+                          ) : payment.transaction_type === 'refund' ? (
+                            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-red-100 text-red-700">
+                              Refund
+                            </span>
+                          ) : payment.isDownpayment ? (
                             <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-700">
                               Downpayment
                             </span>
@@ -2342,7 +2493,12 @@ export default function StudentPaymentPage() {
                         
                         <div>
                           <p className="text-xs text-muted-foreground">Notes</p>
-                          <p className="text-sm">{payment.notes || "—"}</p>
+                          <p className="text-sm">{payment.notes || payment.reason || "—"}</p>
+                          {payment.voided_at && (
+                            <p className="text-xs text-red-600 mt-1">
+                              Voided {format(new Date(payment.voided_at), "MMM dd, yyyy")}: {payment.void_reason}
+                            </p>
+                          )}
                         </div>
                         
                         <div className="flex gap-2 pt-2 border-t border-border">
@@ -2409,6 +2565,28 @@ export default function StudentPaymentPage() {
                             <Printer className="w-3 h-3 mr-1" />
                             Receipt
                           </Button>
+                          {isAdmin && !payment.isDownpayment && !payment.voided_at && (
+                            <>
+                              {payment.transaction_type !== 'refund' && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => openPaymentCorrection(payment.id, "refund")}
+                                  className="text-xs text-red-600 border-red-200"
+                                >
+                                  <Undo2 className="w-3 h-3" />
+                                </Button>
+                              )}
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => openPaymentCorrection(payment.id, "void")}
+                                className="text-xs text-red-600 border-red-200"
+                              >
+                                <Ban className="w-3 h-3" />
+                              </Button>
+                            </>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -2421,7 +2599,7 @@ export default function StudentPaymentPage() {
                         Total Payments{paymentHistoryFilter !== 'all' ? ' (Filtered)' : ''}:
                       </span>
                       <span className="text-green-700 dark:text-green-400 font-bold text-lg">
-                        ₱{filteredPayments.reduce((sum, p) => sum + p.payment_amount, 0).toFixed(2)}
+                        ₱{filteredPayments.filter(p => !p.voided_at).reduce((sum, p) => sum + p.payment_amount, 0).toFixed(2)}
                       </span>
                     </div>
                   </div>
@@ -2432,6 +2610,158 @@ export default function StudentPaymentPage() {
         </Card>
 
         {/* Add Charge Modal */}
+        <Dialog open={isPlanDialogOpen} onOpenChange={setIsPlanDialogOpen}>
+          <DialogContent className="sm:max-w-[520px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <CalendarClock className="w-5 h-5 text-blue-600" />
+                Installment Plan
+              </DialogTitle>
+              <DialogDescription>
+                Split the ₱{installmentBalance.toFixed(2)} training fee balance into installments. Payments are applied to the earliest due installment first.
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={handlePlanSubmit} className="space-y-4">
+              {lockedInstallments.length > 0 && (
+                <p className="text-xs text-muted-foreground rounded-md bg-muted/50 p-2">
+                  {lockedInstallments.length} installment{lockedInstallments.length === 1 ? '' : 's'} (₱{lockedInstallmentsTotal.toFixed(2)}) already received payments and will be kept.
+                </p>
+              )}
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-2">
+                  <Label htmlFor="plan_count">Installments</Label>
+                  <Input
+                    id="plan_count"
+                    type="number"
+                    min="1"
+                    max="24"
+                    value={planFormData.count}
+                    onChange={(e) => setPlanFormData(prev => ({ ...prev, count: parseInt(e.target.value) || 1 }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="plan_first_due_date">First due</Label>
+                  <Input
+                    id="plan_first_due_date"
+                    type="date"
+                    value={planFormData.first_due_date}
+                    onChange={(e) => setPlanFormData(prev => ({ ...prev, first_due_date: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Every</Label>
+                  <Select
+                    value={planFormData.frequency}
+                    onValueChange={(value: InstallmentFrequency) => setPlanFormData(prev => ({ ...prev, frequency: value }))}
+                  >
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="weekly">Week</SelectItem>
+                      <SelectItem value="biweekly">2 weeks</SelectItem>
+                      <SelectItem value="monthly">Month</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <Button type="button" variant="outline" className="w-full" onClick={generatePlannedInstallments}>
+                Generate Schedule
+              </Button>
+
+              {plannedInstallments.length > 0 && (
+                <div className="space-y-2">
+                  {plannedInstallments.map((installment, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground w-6">#{lockedInstallments.length + index + 1}</span>
+                      <Input
+                        type="date"
+                        value={installment.due_date}
+                        onChange={(e) => setPlannedInstallments(prev => prev.map((item, i) => i === index ? { ...item, due_date: e.target.value } : item))}
+                        className="flex-1"
+                      />
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={installment.amount}
+                        onChange={(e) => setPlannedInstallments(prev => prev.map((item, i) => i === index ? { ...item, amount: parseFloat(e.target.value) || 0 } : item))}
+                        className="w-28"
+                      />
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0 text-destructive hover:bg-destructive/10 hover:text-destructive"
+                        onClick={() => setPlannedInstallments(prev => prev.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <p className={cn(
+                    "text-xs text-right",
+                    Math.round((lockedInstallmentsTotal + plannedInstallmentsTotal) * 100) > Math.round(installmentBalance * 100) ? "text-red-600" : "text-muted-foreground"
+                  )}>
+                    Total ₱{(lockedInstallmentsTotal + plannedInstallmentsTotal).toFixed(2)} of ₱{installmentBalance.toFixed(2)}
+                  </p>
+                </div>
+              )}
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setIsPlanDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={setInstallmentPlanMutation.isPending} className="bg-blue-600 hover:bg-blue-700 text-white">
+                  {setInstallmentPlanMutation.isPending ? "Saving..." : "Save Plan"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
+        <Dialog open={!!lateFeeInstallment} onOpenChange={(open) => { if (!open) setLateFeeInstallment(null); }}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <AlertCircle className="w-5 h-5 text-red-600" />
+                Add Late Fee
+              </DialogTitle>
+              <DialogDescription>
+                {lateFeeInstallment && `Installment #${lateFeeInstallment.installment_number} was due ${format(new Date(lateFeeInstallment.due_date + 'T00:00:00'), "MMM d, yyyy")}. The late fee is added as an extra charge.`}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={(e) => {
+              e.preventDefault();
+              if (lateFeeInstallment && lateFeeAmount > 0) {
+                addLateFeeMutation.mutate({ installment: lateFeeInstallment, amount: lateFeeAmount });
+              }
+            }} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="late_fee_amount">Amount</Label>
+                <Input
+                  id="late_fee_amount"
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={lateFeeAmount}
+                  onChange={(e) => setLateFeeAmount(parseFloat(e.target.value) || 0)}
+                  required
+                  placeholder="0.00"
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setLateFeeInstallment(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={addLateFeeMutation.isPending || lateFeeAmount <= 0} className="bg-red-600 hover:bg-red-700 text-white">
+                  {addLateFeeMutation.isPending ? "Adding..." : "Add Late Fee"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
         <Dialog open={isAddChargeOpen} onOpenChange={setIsAddChargeOpen}>
           <DialogContent className="sm:max-w-[425px]">
             <DialogHeader>
@@ -2568,6 +2898,81 @@ export default function StudentPaymentPage() {
           </DialogContent>
         </Dialog>
 
+        {/* Void / Refund Payment */}
+        <Dialog open={!!paymentToCorrect} onOpenChange={(open) => { if (!open) setPaymentToCorrect(null); }}>
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                {paymentToCorrect?.action === "void" ? (
+                  <Ban className="w-5 h-5 text-red-600" />
+                ) : (
+                  <Undo2 className="w-5 h-5 text-red-600" />
+                )}
+                {paymentToCorrect?.action === "void" ? "Void Payment" : "Refund Payment"}
+              </DialogTitle>
+              <DialogDescription>
+                {paymentToCorrect && (paymentToCorrect.action === "void"
+                  ? `The ₱${paymentToCorrect.payment.payment_amount.toFixed(2)} entry of ${format(new Date(paymentToCorrect.payment.payment_date), "MMM d, yyyy")} stays in the history struck through and no longer counts towards the balance.`
+                  : `Returns money from the ₱${paymentToCorrect.payment.payment_amount.toFixed(2)} payment of ${format(new Date(paymentToCorrect.payment.payment_date), "MMM d, yyyy")}. Up to ₱${getRefundableAmount(paymentToCorrect.payment).toFixed(2)} can still be refunded.`)}
+              </DialogDescription>
+            </DialogHeader>
+            <form onSubmit={(e) => {
+              e.preventDefault();
+              if (!paymentToCorrect || !correctionFormData.reason.trim()) return;
+              if (paymentToCorrect.action === "refund" && (correctionFormData.amount <= 0 || correctionFormData.amount > getRefundableAmount(paymentToCorrect.payment))) {
+                toast.error(`Refund must be between ₱0.01 and ₱${getRefundableAmount(paymentToCorrect.payment).toFixed(2)}`);
+                return;
+              }
+              correctPaymentMutation.mutate({
+                paymentId: paymentToCorrect.payment.id,
+                action: paymentToCorrect.action,
+                amount: correctionFormData.amount,
+                reason: correctionFormData.reason.trim(),
+              });
+            }} className="space-y-4">
+              {paymentToCorrect?.action === "refund" && (
+                <div className="space-y-2">
+                  <Label htmlFor="refund_amount">Refund Amount</Label>
+                  <Input
+                    id="refund_amount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    max={getRefundableAmount(paymentToCorrect.payment)}
+                    value={correctionFormData.amount}
+                    onChange={(e) => setCorrectionFormData(prev => ({ ...prev, amount: parseFloat(e.target.value) || 0 }))}
+                    required
+                  />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="correction_reason">Reason</Label>
+                <Input
+                  id="correction_reason"
+                  value={correctionFormData.reason}
+                  onChange={(e) => setCorrectionFormData(prev => ({ ...prev, reason: e.target.value }))}
+                  required
+                  placeholder={paymentToCorrect?.action === "void" ? "e.g. Entered twice" : "e.g. Package cancelled"}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setPaymentToCorrect(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  disabled={correctPaymentMutation.isPending || !correctionFormData.reason.trim()}
+                  className="bg-red-600 hover:bg-red-700 text-white"
+                >
+                  {correctPaymentMutation.isPending
+                    ? "Saving..."
+                    : paymentToCorrect?.action === "void" ? "Void Payment" : "Record Refund"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
+
         {/* View Payment Modal */}
         <Dialog open={isViewPaymentOpen} onOpenChange={setIsViewPaymentOpen}>
           <DialogContent className="sm:max-w-[425px]">
@@ -2586,7 +2991,12 @@ export default function StudentPaymentPage() {
                   </div>
                   <div>
                     <p className="text-xs text-muted-foreground">Amount</p>
-                    <p className="font-medium text-green-600">₱{selectedPaymentForView.payment_amount.toFixed(2)}</p>
+                    <p className={cn(
+                      "font-medium",
+                      selectedPaymentForView.voided_at ? "line-through text-muted-foreground" : selectedPaymentForView.payment_amount < 0 ? "text-red-600" : "text-green-600"
+                    )}>
+                      {selectedPaymentForView.payment_amount < 0 ? `-₱${Math.abs(selectedPaymentForView.payment_amount).toFixed(2)}` : `₱${selectedPaymentForView.payment_amount.toFixed(2)}`}
+                    </p>
                   </div>
                 </div>
                 <div>
@@ -2622,6 +3032,37 @@ export default function StudentPaymentPage() {
                     <p className="text-sm">{selectedPaymentForView.notes}</p>
                   </div>
                 )}
+                {selectedPaymentForView.transaction_type === 'refund' && (() => {
+                  const refundEntry = studentPayments?.find(p => p.id === selectedPaymentForView.id);
+                  const original = studentPayments?.find(p => p.id === selectedPaymentForView.refunded_payment_id);
+                  return (
+                    <div className="rounded-md border border-red-200 bg-red-50 p-3 space-y-1">
+                      <p className="text-xs font-semibold text-red-700">Refund</p>
+                      {original && (
+                        <p className="text-xs text-muted-foreground">
+                          Of ₱{original.payment_amount.toFixed(2)} paid {format(new Date(original.payment_date), "MMM dd, yyyy")} (REC-{student.id.slice(0, 8).toUpperCase()}-{original.id.slice(0, 8).toUpperCase()})
+                        </p>
+                      )}
+                      <p className="text-sm">{selectedPaymentForView.reason}</p>
+                      {refundEntry?.recorded_by_coach && (
+                        <p className="text-xs text-muted-foreground">Recorded by {refundEntry.recorded_by_coach.name}</p>
+                      )}
+                    </div>
+                  );
+                })()}
+                {selectedPaymentForView.voided_at && (
+                  <div className="rounded-md border border-gray-300 bg-muted/50 p-3 space-y-1">
+                    <p className="text-xs font-semibold text-red-700">
+                      Voided {format(new Date(selectedPaymentForView.voided_at), "MMM dd, yyyy HH:mm")}
+                    </p>
+                    <p className="text-sm">{selectedPaymentForView.void_reason}</p>
+                    {studentPayments?.find(p => p.id === selectedPaymentForView.id)?.voided_by_coach && (
+                      <p className="text-xs text-muted-foreground">
+                        By {studentPayments.find(p => p.id === selectedPaymentForView.id)?.voided_by_coach?.name}
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div>
                   <p className="text-xs text-muted-foreground">Created At</p>
                   <p className="text-sm">{format(new Date(selectedPaymentForView.created_at), "MMM dd, yyyy HH:mm")}</p>
@@ -2746,12 +3187,20 @@ export default function StudentPaymentPage() {
               payment_date: selectedPaymentForReceipt.payment_date,
               notes: selectedPaymentForReceipt.notes,
               isDownpayment: selectedPaymentForReceipt.payment_for === 'downpayment' || selectedPaymentForReceipt.id.startsWith('downpayment'),
+              isRefund: selectedPaymentForReceipt.transaction_type === 'refund',
+              reason: selectedPaymentForReceipt.reason,
+              voided_at: selectedPaymentForReceipt.voided_at,
+              void_reason: selectedPaymentForReceipt.void_reason,
             } : null}
             allPayments={selectedPaymentForReceipt === null && isReceiptOpen ? studentPayments.map(p => ({
               id: p.id,
               payment_amount: p.payment_amount,
               payment_date: p.payment_date,
               notes: p.notes,
+              isRefund: p.transaction_type === 'refund',
+              reason: p.reason,
+              voided_at: p.voided_at,
+              void_reason: p.void_reason,
             })) : undefined}
             isOpen={isReceiptOpen}
             onClose={() => {
@@ -2774,11 +3223,15 @@ export default function StudentPaymentPage() {
                 payment_date: string;
                 notes: string | null;
                 isDownpayment?: boolean;
+                isRefund?: boolean;
+                reason?: string | null;
+                voided_at?: string | null;
+                void_reason?: string | null;
                 package_history_id?: string | null;
               }> = [];
 
               // Add downpayment from current package
-              if (student.downpayment && student.downpayment > 0) {
+              if (student.downpayment && student.downpayment > 0 && !hasRecordedDownpayment(null)) {
                 const dpDate = student.enrollment_date || student.created_at || new Date().toISOString();
                 allPaymentsForPrint.push({
                   id: 'downpayment-current',
@@ -2793,7 +3246,7 @@ export default function StudentPaymentPage() {
               // Add downpayments from historical packages
               if (packageHistory && packageHistory.length > 0) {
                 packageHistory.forEach((pkg) => {
-                  if (pkg.downpayment && pkg.downpayment > 0) {
+                  if (pkg.downpayment && pkg.downpayment > 0 && !hasRecordedDownpayment(pkg.id)) {
                     const dpDate = pkg.enrollment_date || pkg.captured_at || new Date().toISOString();
                     allPaymentsForPrint.push({
                       id: `downpayment-${pkg.id}`,
@@ -2814,7 +3267,11 @@ export default function StudentPaymentPage() {
                   payment_amount: p.payment_amount,
                   payment_date: p.payment_date,
                   notes: p.notes,
-                  isDownpayment: false,
+                  isDownpayment: p.payment_for === 'downpayment',
+                  isRefund: p.transaction_type === 'refund',
+                  reason: p.reason,
+                  voided_at: p.voided_at,
+                  void_reason: p.void_reason,
                   package_history_id: p.package_history_id,
                 });
               });
@@ -0,0 +1,455 @@
+import { useQuery } from "@tanstack/react-query";
+import { Navigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Calendar, Clock, MapPin, LogOut, CreditCard, CheckCircle, XCircle, User, QrCode } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { format } from "date-fns";
+import { useAuth } from "@/context/AuthContext";
+import { StudentQrCard } from "@/components/StudentQrCard";
+
+interface PortalStudent {
+  id: string;
+  name: string;
+  email: string;
+  package_type: string | null;
+  sessions: number | null;
+  enrollment_date: string | null;
+  expiration_date: string | null;
+  remaining_balance: number | null;
+  check_in_token: string;
+  branches: { name: string } | null;
+}
+
+interface PortalAttendanceRecord {
+  session_id: string;
+  package_cycle: number | null;
+  status: "present" | "absent" | "pending" | "excused" | "late";
+  session_duration: number | null;
+  consumes_session: boolean;
+  reason: string | null;
+  training_sessions: {
+    date: string;
+    start_time: string;
+    end_time: string;
+    package_type: string | null;
+    status: "scheduled" | "completed" | "cancelled";
+    branches: { name: string } | null;
+  } | null;
+}
+
+interface LedgerEntry {
+  id: string;
+  date: string;
+  kind: "payment" | "refund" | "charge";
+  description: string;
+  amount: number;
+  is_paid?: boolean;
+}
+
+const formatTime = (time: string) => format(new Date(`1970-01-01T${time}`), "h:mm a");
+
+const formatSessions = (value: number) => (value % 1 === 0 ? value.toString() : value.toFixed(1));
+
+export default function StudentPortalPage() {
+  const { user, role, studentData, loading, logout } = useAuth();
+  const studentId: string | undefined = studentData?.id;
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  // All queries below are also scoped by RLS to the logged-in student's own rows
+  const { data: student, isLoading: studentLoading } = useQuery({
+    queryKey: ["portal-student", studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("students")
+        .select("id, name, email, package_type, sessions, enrollment_date, expiration_date, remaining_balance, check_in_token, branches (name)")
+        .eq("id", studentId)
+        .single();
+      if (error) throw error;
+      return data as PortalStudent;
+    },
+    enabled: !!studentId,
+  });
+
+  const { data: attendanceRecords } = useQuery({
+    queryKey: ["portal-attendance", studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("attendance_records")
+        .select(`
+          session_id,
+          package_cycle,
+          status,
+          session_duration,
+          consumes_session,
+          reason,
+          training_sessions (
+            date,
+            start_time,
+            end_time,
+            package_type,
+            status,
+            branches (name)
+          )
+        `)
+        .eq("student_id", studentId)
+        .order("date", { ascending: false, referencedTable: "training_sessions" });
+      if (error) throw error;
+      return (data || []) as PortalAttendanceRecord[];
+    },
+    enabled: !!studentId,
+  });
+
+  const { data: upcomingSessions } = useQuery({
+    queryKey: ["portal-upcoming-sessions", studentId, today],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("session_participants")
+        .select(`
+          id,
+          training_sessions!inner (
+            id,
+            date,
+            start_time,
+            end_time,
+            package_type,
+            status,
+            branches (name)
+          )
+        `)
+        .eq("student_id", studentId)
+        .gte("training_sessions.date", today)
+        .eq("training_sessions.status", "scheduled");
+      if (error) throw error;
+      return (data || [])
+        .map((participant) => participant.training_sessions)
+        .sort((a, b) => (a.date + a.start_time).localeCompare(b.date + b.start_time));
+    },
+    enabled: !!studentId,
+  });
+
+  const { data: packageHistory } = useQuery({
+    queryKey: ["portal-package-history", studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("student_package_history")
+        .select("id, captured_at")
+        .eq("student_id", studentId)
+        .order("captured_at", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!studentId,
+  });
+
+  const { data: ledger } = useQuery({
+    queryKey: ["portal-ledger", studentId],
+    queryFn: async () => {
+      const [paymentsResult, chargesResult] = await Promise.all([
+        supabase
+          .from("student_payments")
+          .select("id, payment_amount, payment_date, payment_for, notes, transaction_type")
+          .eq("student_id", studentId)
+          .is("voided_at", null),
+        supabase
+          .from("student_charges")
+          .select("id, amount, charge_date, description, is_paid")
+          .eq("student_id", studentId),
+      ]);
+      if (paymentsResult.error) throw paymentsResult.error;
+      if (chargesResult.error) throw chargesResult.error;
+
+      const entries: LedgerEntry[] = [
+        ...(paymentsResult.data || []).map((payment) => ({
+          id: payment.id,
+          date: payment.payment_date,
+          kind: payment.transaction_type === "refund" ? "refund" as const : "payment" as const,
+          description: payment.transaction_type === "refund"
+            ? "Refund"
+            : payment.payment_for === "extra_charge" ? "Payment for extra charge"
+            : payment.payment_for === "downpayment" ? "Downpayment" : "Payment",
+          amount: Math.abs(Number(payment.payment_amount) || 0),
+        })),
+        ...(chargesResult.data || []).map((charge) => ({
+          id: charge.id,
+          date: charge.charge_date,
+          kind: "charge" as const,
+          description: charge.description || "Extra charge",
+          amount: Number(charge.amount) || 0,
+          is_paid: charge.is_paid,
+        })),
+      ];
+      return entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    },
+    enabled: !!studentId,
+  });
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#FAFAF9] flex items-center justify-center p-4">
+        <div className="w-10 h-10 rounded-full border-2 border-gray-200 border-t-[#79e58f] animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (role && role !== 'student') {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  if (!studentId || studentLoading || !student) {
+    return (
+      <div className="min-h-screen bg-[#FAFAF9] flex items-center justify-center p-4">
+        <div className="text-center max-w-md">
+          <div className="w-20 h-20 mx-auto mb-6 bg-gray-100 rounded-full flex items-center justify-center">
+            <User className="w-10 h-10 text-gray-400" />
+          </div>
+          <p className="text-sm text-gray-500 mb-6">
+            {studentLoading ? "Loading your profile..." : "No player profile is linked to this account."}
+          </p>
+          <Button onClick={logout} variant="outline">
+            <LogOut className="w-4 h-4 mr-2" />
+            Log out
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Same current-cycle math as StudentViewPage: attendance tagged with the cycle, else the package date window
+  const currentCycle = (packageHistory?.length || 0) + 1;
+  const packageStart = packageHistory && packageHistory.length > 0
+    ? new Date(packageHistory[0].captured_at)
+    : student.enrollment_date
+      ? new Date(student.enrollment_date)
+      : null;
+  const packageEnd = student.expiration_date ? new Date(student.expiration_date) : null;
+
+  const attendanceInCurrentPackage = (attendanceRecords || []).filter((record) => {
+    if (record.package_cycle != null) return record.package_cycle === currentCycle;
+    const sessionDate = record.training_sessions?.date ? new Date(record.training_sessions.date) : null;
+    if (!sessionDate) return false;
+    if (packageStart && sessionDate < packageStart) return false;
+    if (packageEnd && sessionDate > packageEnd) return false;
+    return true;
+  });
+
+  const total = Number(student.sessions) || 0;
+  const usedSessions = attendanceInCurrentPackage
+    .filter((record) => record.consumes_session)
+    .reduce((sum, record) => sum + (record.session_duration ?? 1), 0);
+  const remaining = Math.max(0, total - usedSessions);
+  const progressPercentage = total > 0 ? Math.min(100, (usedSessions / total) * 100) : 0;
+  const isExpired = !!packageEnd && new Date() > packageEnd;
+
+  const pastAttendance = (attendanceRecords || []).filter(
+    (record) => record.training_sessions && record.training_sessions.date <= today && record.status !== "pending"
+  );
+
+  return (
+    <div className="min-h-screen bg-[#FAFAF9] pb-10">
+      <header className="sticky top-0 z-40 bg-[#242833] flex h-14 sm:h-16 items-center gap-2 px-3 sm:px-4 border-b border-[#3a4152]">
+        <img
+          src="/lovable-uploads/dcb5b3e4-1037-41ed-bf85-c78cee85066e.png"
+          alt="Logo"
+          className="w-8 h-8 object-contain"
+        />
+        <span className="text-white font-bold text-sm">Takeover</span>
+        <div className="flex-1" />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={logout}
+          className="text-white hover:text-[#79e58f] hover:bg-white/10"
+        >
+          <LogOut className="h-4 w-4 mr-2" />
+          Log out
+        </Button>
+      </header>
+
+      <div className="max-w-4xl mx-auto p-3 sm:p-4 md:p-6 space-y-5">
+        {/* Package summary */}
+        <div className="bg-white rounded-xl border border-gray-200 shadow-sm overflow-hidden">
+          <div className="bg-[#242833] px-5 py-5 sm:px-6">
+            <div className="flex items-center gap-4">
+              <div className="w-14 h-14 bg-[#79e58f] rounded-full flex items-center justify-center flex-shrink-0">
+                <span className="text-xl font-bold text-white">{student.name.charAt(0).toUpperCase()}</span>
+              </div>
+              <div className="min-w-0">
+                <h1 className="text-lg sm:text-xl font-bold text-white truncate">{student.name}</h1>
+                <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-400">
+                  {student.branches?.name && (
+                    <span className="flex items-center gap-1.5">
+                      <MapPin className="w-3.5 h-3.5 text-gray-500" />
+                      {student.branches.name}
+                    </span>
+                  )}
+                  {student.package_type && <span>{student.package_type}</span>}
+                </div>
+              </div>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 divide-x divide-gray-100">
+            <div className="px-4 py-3.5 text-center">
+              <p className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider mb-0.5">Sessions Left</p>
+              <p className="text-sm font-semibold text-gray-900">
+                <span className="text-[#79e58f]">{formatSessions(remaining)}</span> / {total}
+              </p>
+            </div>
+            <div className="px-4 py-3.5 text-center">
+              <p className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider mb-0.5">Expires</p>
+              <p className={`text-sm font-semibold ${isExpired ? 'text-red-600' : 'text-gray-900'}`}>
+                {student.expiration_date ? format(new Date(student.expiration_date), 'MMM dd, yyyy') : '—'}
+              </p>
+            </div>
+            <div className="px-4 py-3.5 text-center">
+              <p className="text-[10px] sm:text-xs text-gray-400 uppercase tracking-wider mb-0.5">Balance</p>
+              <p className="text-sm font-semibold text-gray-900">₱{(Number(student.remaining_balance) || 0).toFixed(2)}</p>
+            </div>
+          </div>
+          <div className="px-5 py-3 border-t border-gray-100">
+            <Progress value={progressPercentage} className="h-2" />
+            <p className="text-xs text-gray-500 mt-1.5">
+              {formatSessions(usedSessions)} of {total} sessions used in your current package
+            </p>
+          </div>
+        </div>
+
+        {/* Check-in code */}
+        <Card className="border border-gray-200 shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-bold text-gray-900 flex items-center gap-2">
+              <QrCode className="w-4 h-4 text-[#79e58f]" />
+              Check-in Code
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <StudentQrCard
+              name={student.name}
+              token={student.check_in_token}
+              packageType={student.package_type}
+              branchName={student.branches?.name}
+            />
+          </CardContent>
+        </Card>
+
+        {/* Upcoming sessions */}
+        <Card className="border border-gray-200 shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-bold text-gray-900 flex items-center gap-2">
+              <Calendar className="w-4 h-4 text-[#79e58f]" />
+              Upcoming Sessions
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {upcomingSessions && upcomingSessions.length > 0 ? (
+              upcomingSessions.map((session) => (
+                <div key={session.id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900">{format(new Date(session.date), 'EEEE, MMM dd')}</p>
+                    <p className="text-xs text-gray-500 flex items-center gap-1.5">
+                      <Clock className="w-3 h-3" />
+                      {formatTime(session.start_time)} - {formatTime(session.end_time)}
+                      {session.branches?.name && ` • ${session.branches.name}`}
+                    </p>
+                  </div>
+                  {session.package_type && (
+                    <Badge variant="outline" className="text-xs">{session.package_type}</Badge>
+                  )}
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-gray-500">No upcoming sessions scheduled.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Attendance history */}
+        <Card className="border border-gray-200 shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-bold text-gray-900 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4 text-[#79e58f]" />
+              Attendance History
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {pastAttendance.length > 0 ? (
+              pastAttendance.map((record) => (
+                <div key={record.session_id} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900">
+                      {format(new Date(record.training_sessions!.date), 'MMM dd, yyyy')}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {formatTime(record.training_sessions!.start_time)} - {formatTime(record.training_sessions!.end_time)}
+                      {record.training_sessions!.branches?.name && ` • ${record.training_sessions!.branches.name}`}
+                    </p>
+                  </div>
+                  {record.status === "present" ? (
+                    <Badge className="bg-green-50 text-green-700 border-green-200 hover:bg-green-50">
+                      Present{record.session_duration != null && record.session_duration !== 1 ? ` (${formatSessions(record.session_duration)})` : ''}
+                    </Badge>
+                  ) : record.status === "late" ? (
+                    <Badge className="bg-orange-50 text-orange-700 border-orange-200 hover:bg-orange-50" title={record.reason || undefined}>
+                      Late{record.session_duration != null && record.session_duration !== 1 ? ` (${formatSessions(record.session_duration)})` : ''}
+                    </Badge>
+                  ) : record.status === "excused" ? (
+                    <Badge className="bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-50" title={record.reason || undefined}>
+                      Excused{record.consumes_session ? '' : ' • no session used'}
+                    </Badge>
+                  ) : (
+                    <Badge className="bg-red-50 text-red-700 border-red-200 hover:bg-red-50">
+                      <XCircle className="w-3 h-3 mr-1" />
+                      Absent
+                    </Badge>
+                  )}
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-gray-500">No attendance recorded yet.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Payments and charges */}
+        <Card className="border border-gray-200 shadow-sm">
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base font-bold text-gray-900 flex items-center gap-2">
+              <CreditCard className="w-4 h-4 text-[#79e58f]" />
+              Payments & Charges
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {ledger && ledger.length > 0 ? (
+              ledger.map((entry) => (
+                <div key={`${entry.kind}-${entry.id}`} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg border border-gray-200">
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900">{entry.description}</p>
+                    <p className="text-xs text-gray-500">{format(new Date(entry.date), 'MMM dd, yyyy')}</p>
+                  </div>
+                  <div className="text-right">
+                    <p className={`text-sm font-semibold ${entry.kind === "payment" ? 'text-green-700' : entry.kind === "refund" ? 'text-red-600' : 'text-gray-900'}`}>
+                      {entry.kind === "payment" ? '-' : '+'}₱{entry.amount.toFixed(2)}
+                    </p>
+                    {entry.kind === "charge" && (
+                      <p className={`text-xs ${entry.is_paid ? 'text-green-600' : 'text-amber-600'}`}>
+                        {entry.is_paid ? 'Paid' : 'Unpaid'}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-gray-500">No payments or charges yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useParams, useNavigate } from "react-router-dom";
+import { useParams, useNavigate, useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -11,12 +11,21 @@ import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Calendar as CalendarComponent } from "@/components/ui/calendar";
-import { ArrowLeft, Filter, MapPin, Users, Calendar, Clock, User, ChevronLeft, ChevronRight, DollarSign, CreditCard, Edit, Plus, CalendarIcon, Mail, Phone, Building2, Package, Target, TrendingUp, Trash2, RefreshCw, Eye, FileText } from "lucide-react";
+import { ArrowLeft, Filter, MapPin, Users, Calendar, Clock, User, ChevronLeft, ChevronRight, DollarSign, CreditCard, Edit, Plus, CalendarIcon, Mail, Phone, Building2, Package, Target, TrendingUp, Trash2, RefreshCw, Eye, FileText, QrCode } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { format, addMonths, addDays } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/context/AuthContext";
+import { StudentQrCard } from "@/components/StudentQrCard";
+import type { Json } from "@/integrations/supabase/types";
+import {
+  CATALOG_PACKAGE_COLUMNS,
+  buildPackageSnapshot,
+  getPackageExpirationDate,
+  isPackageAvailableAtBranch,
+  type CatalogPackage,
+} from "@/utils/packageCatalog";
 
 interface Student {
   id: string;
@@ -27,6 +36,7 @@ interface Student {
   remaining_sessions: number | null;
   branch_id: string | null;
   package_type: string | null;
+  package_id: string | null;
   created_at: string;
   enrollment_date: string | null;
   expiration_date: string | null;
@@ -34,6 +44,7 @@ interface Student {
   downpayment: number | null;
   remaining_balance: number | null;
   notes: string | null;
+  check_in_token: string;
 }
 
 interface Branch {
@@ -41,18 +52,14 @@ interface Branch {
   name: string;
 }
 
-interface Package {
-  id: string;
-  name: string;
-  is_active: boolean;
-}
-
 interface AttendanceRecord {
   session_id: string;
   student_id: string;
   package_cycle?: number | null;
-  status: "present" | "absent" | "pending";
+  status: "present" | "absent" | "pending" | "excused" | "late";
   session_duration?: number | null;
+  consumes_session: boolean;
+  reason?: string | null;
   training_sessions: {
     date: string;
     start_time: string;
@@ -88,11 +95,14 @@ interface PackageHistory {
   expiration_date: string | null;
   captured_at: string;
   reason: string | null;
+  package_snapshot: Json | null;
+  balance_resolution: string | null;
 }
 
 export default function StudentViewPage() {
   const { studentId } = useParams<{ studentId: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const queryClient = useQueryClient();
   const { role } = useAuth();
   const [recordsBranchFilter, setRecordsBranchFilter] = useState<string>("All");
@@ -103,6 +113,7 @@ export default function StudentViewPage() {
   const [isEditPackageDialogOpen, setIsEditPackageDialogOpen] = useState(false);
   const [isRetrieveDialogOpen, setIsRetrieveDialogOpen] = useState(false);
   const [isSessionHistoryModalOpen, setIsSessionHistoryModalOpen] = useState(false);
+  const [isQrCardOpen, setIsQrCardOpen] = useState(false);
   const [isPackageHistoryModalOpen, setIsPackageHistoryModalOpen] = useState(false);
   const [packageSessionsModal, setPackageSessionsModal] = useState<{
     open: boolean;
@@ -207,13 +218,18 @@ export default function StudentViewPage() {
   });
 
   const [newPackageFormData, setNewPackageFormData] = useState({
+    package_id: null as string | null,
     package_type: null as string | null,
     sessions: 8,
     enrollment_date: new Date(),
     expiration_date: null as Date | null,
+    total_training_fee: 0,
+    downpayment: 0,
+    balance_action: null as "carry_forward" | "write_off" | null,
   });
 
   const [editPackageFormData, setEditPackageFormData] = useState({
+    package_id: null as string | null,
     package_type: null as string | null,
     sessions: 8,
     enrollment_date: new Date(),
@@ -240,6 +256,23 @@ export default function StudentViewPage() {
     enabled: !!studentId,
   });
 
+  const regenerateCheckInMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc("regenerate_student_check_in_token", { p_student_id: id });
+      if (error) {
+        console.error("Regenerate check-in code error:", error);
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["student", studentId] });
+      toast.success("Check-in code replaced, the old card no longer works");
+    },
+    onError: (error: Error) => {
+      toast.error("Failed to replace check-in code: " + error.message);
+    },
+  });
+
   const { data: branches } = useQuery({
     queryKey: ["branches"],
     queryFn: async () => {
@@ -252,16 +285,16 @@ export default function StudentViewPage() {
     },
   });
 
-  const { data: packages } = useQuery<Package[], Error>({
-    queryKey: ["packages-select"],
+  const { data: packages } = useQuery<CatalogPackage[], Error>({
+    queryKey: ["packages-catalog"],
     queryFn: async () => {
       const { data, error } = await (supabase as any)
         .from("packages")
-        .select("id, name, is_active")
+        .select(CATALOG_PACKAGE_COLUMNS)
         .eq("is_active", true)
         .order("name");
       if (error) throw error;
-      return (data || []) as Package[];
+      return (data || []) as CatalogPackage[];
     },
   });
 
@@ -277,6 +310,8 @@ export default function StudentViewPage() {
           package_cycle,
           session_duration,
           status,
+          consumes_session,
+          reason,
           training_sessions (
             date,
             start_time,
@@ -332,6 +367,28 @@ export default function StudentViewPage() {
     enabled: !!studentId,
   });
 
+  const { data: makeupCredits } = useQuery({
+    queryKey: ["makeup-credits", studentId],
+    queryFn: async () => {
+      if (!studentId) return [];
+      const { data, error } = await supabase
+        .from("makeup_credits")
+        .select(`
+          id,
+          package_cycle,
+          redeemed_session_id,
+          created_at,
+          source_session:training_sessions!makeup_credits_source_session_id_fkey (date, start_time),
+          redeemed_session:training_sessions!makeup_credits_redeemed_session_id_fkey (date, start_time)
+        `)
+        .eq("student_id", studentId)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!studentId,
+  });
+
   useEffect(() => {
     if (student) {
       setEditFormData({
@@ -353,7 +410,7 @@ export default function StudentViewPage() {
         .from("attendance_records")
         .select("session_duration")
         .eq("student_id", id)
-        .eq("status", "present");
+        .eq("consumes_session", true);
       
       const usedSessions = attendanceData?.reduce((sum, record) => sum + (record.session_duration || 0), 0) || 0;
       
@@ -466,158 +523,25 @@ export default function StudentViewPage() {
 
   const createNewPackageMutation = useMutation({
     mutationFn: async (packageData: typeof newPackageFormData & { student_id: string }) => {
-      const { data: currentStudent, error: currentStudentError } = await supabase
-        .from("students")
-        .select("package_type, sessions, remaining_sessions, enrollment_date, expiration_date, total_training_fee, downpayment, remaining_balance")
-        .eq("id", packageData.student_id)
-        .single();
-
-      if (currentStudentError) {
-        console.error("Failed to fetch current student before renewal:", currentStudentError);
-      }
-
-      const shouldArchivePackage =
-        currentStudent &&
-        (currentStudent.package_type ||
-          currentStudent.sessions !== null ||
-          currentStudent.remaining_sessions !== null ||
-          currentStudent.enrollment_date ||
-          currentStudent.expiration_date);
-
-      if (shouldArchivePackage) {
-        const totalSessions = Number(currentStudent?.sessions || 0);
-        const remainingSessions = Number(currentStudent?.remaining_sessions || 0);
-        const usedSessions = totalSessions - remainingSessions;
-        const expirationDate = currentStudent?.expiration_date ? new Date(currentStudent.expiration_date) : null;
-        const now = new Date();
-
-        let endReason = "renewal";
-        // Check expired FIRST - if expiration date has passed, it's expired (even if remaining is 0)
-        if (expirationDate && now > expirationDate) {
-          endReason = "renewal - expired";
-        } else if (remainingSessions <= 0 || usedSessions >= totalSessions) {
-          // Only mark as completed if not expired and all sessions are used
-          endReason = "renewal - completed";
-        } else {
-          endReason = "renewal - early";
-        }
-
-        const { data: archivedPackage, error: historyError } = await supabase
-          .from("student_package_history")
-          .insert([
-            {
-              student_id: packageData.student_id,
-              package_type: currentStudent?.package_type ?? null,
-              sessions: currentStudent?.sessions ?? null,
-              remaining_sessions: currentStudent?.remaining_sessions ?? null,
-              enrollment_date: currentStudent?.enrollment_date ?? null,
-              expiration_date: currentStudent?.expiration_date ?? null,
-              reason: endReason,
-              total_training_fee: currentStudent?.total_training_fee ?? 0,
-              downpayment: currentStudent?.downpayment ?? 0,
-              remaining_balance: currentStudent?.remaining_balance ?? 0,
-            },
-          ])
-          .select()
-          .single();
-
-        if (historyError) {
-          const historyStatus = (historyError as any)?.status || (historyError as any)?.statusCode;
-          const historyMessage =
-            historyError.message ||
-            historyError.hint ||
-            historyError.details ||
-            historyError.code ||
-            "Unknown error archiving previous package";
-
-          const missingHistoryTable =
-            historyStatus === 404 ||
-            historyError.code === "PGRST301" ||
-            (historyMessage && historyMessage.toLowerCase().includes("student_package_history"));
-
-          console.error("Failed to archive previous package:", historyError);
-
-          if (missingHistoryTable) {
-            throw new Error(
-              "Package history table not found. Run migration 20251211000000_add_student_package_history.sql in Supabase and retry."
-            );
-          }
-
-          throw new Error(historyMessage);
-        }
-
-        // After archiving, update all payments with package_history_id = null to point to the archived package
-        // This ensures old payments stay linked to their original package even after it expires
-        if (archivedPackage && archivedPackage.id) {
-          const enrollmentDate = currentStudent?.enrollment_date ? new Date(currentStudent.enrollment_date) : null;
-          const expirationDate = currentStudent?.expiration_date ? new Date(currentStudent.expiration_date) : null;
-          
-          // Update payments that have null package_history_id and were made during this package's active period
-          // We use created_at to determine when payment was made (more reliable than payment_date for matching)
-          // Note: Using type assertion because package_history_id may not be in generated types yet
-          let paymentsUpdateQuery = supabase
-            .from("student_payments")
-            .update({ package_history_id: archivedPackage.id } as Record<string, any>)
-            .eq("student_id", packageData.student_id)
-            .is("package_history_id", null);
-          
-          // Only update payments made during the archived package's active period
-          if (enrollmentDate) {
-            paymentsUpdateQuery = paymentsUpdateQuery.gte("created_at", enrollmentDate.toISOString());
-          }
-          if (expirationDate) {
-            // Include payments up to expiration date (or slightly after to catch edge cases)
-            const expirationPlusOneDay = new Date(expirationDate);
-            expirationPlusOneDay.setDate(expirationPlusOneDay.getDate() + 1);
-            paymentsUpdateQuery = paymentsUpdateQuery.lte("created_at", expirationPlusOneDay.toISOString());
-          } else if (enrollmentDate) {
-            // If no expiration date, only update payments made after enrollment
-            // This prevents updating payments from before this package started
-            paymentsUpdateQuery = paymentsUpdateQuery.gte("created_at", enrollmentDate.toISOString());
-          }
-          
-          const { error: paymentsUpdateError } = await paymentsUpdateQuery;
-          if (paymentsUpdateError) {
-            console.error("Failed to update payments with archived package ID:", paymentsUpdateError);
-            // Don't throw - archiving succeeded, payment update is best effort
-          }
-          
-          // Also update all charges with package_history_id = null to point to the archived package
-          // This ensures old charges stay linked to their original package even after it expires
-          // Note: Not using date-based filtering as requested by user
-          const { error: chargesUpdateError } = await supabase
-            .from("student_charges")
-            .update({ package_history_id: archivedPackage.id } as Record<string, any>)
-            .eq("student_id", packageData.student_id)
-            .is("package_history_id", null);
-          
-          if (chargesUpdateError) {
-            console.error("Failed to update charges with archived package ID:", chargesUpdateError);
-            // Don't throw - archiving succeeded, charge update is best effort
-          }
-        }
+      // Archiving the current cycle, resolving its balance and starting the new one happen in one transaction
+      const { data, error } = await supabase.rpc("renew_student_package", {
+        p_student_id: packageData.student_id,
+        p_package_id: packageData.package_id,
+        p_package_type: packageData.package_type,
+        p_sessions: packageData.sessions,
+        p_enrollment_date: format(packageData.enrollment_date || new Date(), 'yyyy-MM-dd'),
+        p_expiration_date: packageData.expiration_date ? format(packageData.expiration_date, 'yyyy-MM-dd') : null,
+        p_total_training_fee: packageData.total_training_fee,
+        p_downpayment: packageData.downpayment,
+        p_balance_action: packageData.balance_action,
+      });
+      if (error) {
+        console.error("Package renewal error:", error);
+        throw error;
       }
-
-      // When creating a new package: remaining_sessions = total_sessions, financials start at 0
-      const { data, error } = await supabase
-        .from("students")
-        .update({
-          package_type: packageData.package_type,
-          sessions: packageData.sessions,
-          remaining_sessions: packageData.sessions, // New package: all sessions are remaining
-          enrollment_date: packageData.enrollment_date ? format(packageData.enrollment_date, 'yyyy-MM-dd') : null,
-          expiration_date: packageData.expiration_date ? format(packageData.expiration_date, 'yyyy-MM-dd') : null,
-          total_training_fee: 0,
-          downpayment: 0,
-          remaining_balance: 0,
-        })
-        .eq("id", packageData.student_id)
-        .select()
-        .single();
-      if (error) throw error;
       return data;
     },
-    onSuccess: () => {
+    onSuccess: (newCycle) => {
       queryClient.invalidateQueries({ queryKey: ["students"] });
       queryClient.invalidateQueries({ queryKey: ["student", studentId] });
       queryClient.invalidateQueries({ queryKey: ["student-package-history", studentId] });
@@ -625,14 +549,10 @@ export default function StudentViewPage() {
         predicate: (query) =>
           Array.isArray(query.queryKey) && query.queryKey[0] === "students-select",
       });
-      toast.success("New package session created successfully");
+      queryClient.invalidateQueries({ queryKey: ["attendance_records", studentId] });
+      queryClient.invalidateQueries({ queryKey: ["student-payments", studentId] });
+      toast.success(newCycle ? `Package renewed, cycle #${newCycle} started` : "Package renewed successfully");
       setIsNewPackageDialogOpen(false);
-      setNewPackageFormData({
-        package_type: null,
-        sessions: 8,
-        enrollment_date: new Date(),
-        expiration_date: null,
-      });
     },
     onError: (error: any) => {
       const message =
@@ -640,16 +560,49 @@ export default function StudentViewPage() {
         error?.hint ||
         error?.details ||
         error?.code ||
-        "Unknown error while creating package session. Ensure package history migration is applied.";
-      toast.error("Failed to create new package session: " + message);
+        "Unknown error while renewing the package.";
+      toast.error("Failed to renew package: " + message);
     },
   });
 
+  // Pre-fill the renewal with the student's current package and its catalog terms
+  const openRenewDialog = useCallback(() => {
+    if (!student) return;
+    const catalogPackage = packages?.find((pkg) => pkg.id === student.package_id);
+    const enrollmentDate = new Date();
+    setNewPackageFormData({
+      package_id: catalogPackage?.id ?? null,
+      package_type: catalogPackage?.name ?? student.package_type,
+      sessions: catalogPackage?.sessions ?? student.sessions ?? 8,
+      enrollment_date: enrollmentDate,
+      expiration_date: getPackageExpirationDate(catalogPackage, enrollmentDate),
+      total_training_fee: catalogPackage?.price ?? student.total_training_fee ?? 0,
+      downpayment: 0,
+      balance_action: null,
+    });
+    setIsNewPackageDialogOpen(true);
+  }, [student, packages]);
+
+  // StudentsManager links here with ?renew=1
+  useEffect(() => {
+    if (searchParams.get("renew") !== "1" || !student || !packages) return;
+    openRenewDialog();
+    searchParams.delete("renew");
+    setSearchParams(searchParams, { replace: true });
+  }, [searchParams, setSearchParams, student, packages, openRenewDialog]);
+
   const handleNewPackageSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (student) {
-      createNewPackageMutation.mutate({ ...newPackageFormData, student_id: student.id });
+    if (!student) return;
+    if ((student.remaining_balance ?? 0) > 0 && !newPackageFormData.balance_action) {
+      toast.error("Choose whether to carry forward or write off the unpaid balance");
+      return;
     }
+    if (newPackageFormData.downpayment > newPackageFormData.total_training_fee) {
+      toast.error("Downpayment cannot exceed the training fee");
+      return;
+    }
+    createNewPackageMutation.mutate({ ...newPackageFormData, student_id: student.id });
   };
 
   const editPackageMutation = useMutation({
@@ -659,7 +612,7 @@ export default function StudentViewPage() {
         .from("attendance_records")
         .select("session_duration")
         .eq("student_id", packageData.student_id)
-        .eq("status", "present");
+        .eq("consumes_session", true);
 
       const usedSessions = attendanceData?.reduce((sum, record) => sum + (record.session_duration || 0), 0) || 0;
 
@@ -670,6 +623,7 @@ export default function StudentViewPage() {
         .from("students")
         .update({
           package_type: packageData.package_type,
+          package_id: packageData.package_id,
           sessions: packageData.sessions,
           remaining_sessions: newRemaining,
           enrollment_date: packageData.enrollment_date ? format(packageData.enrollment_date, 'yyyy-MM-dd') : null,
@@ -770,7 +724,7 @@ export default function StudentViewPage() {
   const total = Number(student.sessions) || 0;
   const usedSessions =
     attendanceInCurrentPackage
-      ?.filter((record) => record.status === "present")
+      ?.filter((record) => record.consumes_session)
       ?.reduce((sum, record) => sum + (record.session_duration ?? 1), 0) || 0;
   const remaining = Math.max(0, total - usedSessions);
   const progressPercentage = total > 0 ? (usedSessions / total) * 100 : 0;
@@ -839,6 +793,16 @@ export default function StudentViewPage() {
                   )}
                 </div>
               </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsQrCardOpen(true)}
+                className="bg-transparent border-gray-600 text-gray-200 hover:bg-white/10 hover:text-white flex-shrink-0"
+              >
+                <QrCode className="w-4 h-4 mr-1.5" />
+                Check-in Card
+              </Button>
             </div>
           </div>
           
@@ -876,6 +840,37 @@ export default function StudentViewPage() {
           )}
         </div>
 
+        {/* Check-in Card Modal */}
+        <Dialog open={isQrCardOpen} onOpenChange={setIsQrCardOpen}>
+          <DialogContent className="w-[95vw] max-w-md border-0 shadow-2xl p-0 max-h-[85vh] sm:max-h-[90vh] flex flex-col rounded-xl sm:rounded-2xl overflow-hidden" style={{ backgroundColor: '#f8f9fa' }}>
+            <DialogHeader className="px-3 sm:px-4 md:px-6 py-3 sm:py-4 md:py-5 flex-shrink-0" style={{ background: '#242833' }}>
+              <DialogTitle className="text-sm sm:text-base md:text-lg font-bold text-white flex items-center gap-2 sm:gap-3">
+                <div className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10 rounded-lg sm:rounded-xl flex items-center justify-center flex-shrink-0" style={{ backgroundColor: 'rgba(121, 229, 143, 0.2)' }}>
+                  <QrCode className="w-3.5 h-3.5 sm:w-4 sm:h-4 md:w-5 md:h-5" style={{ color: '#79e58f' }} />
+                </div>
+                <span className="truncate">Check-in Card</span>
+              </DialogTitle>
+              <DialogDescription className="text-gray-300 text-xs sm:text-sm mt-1 ml-9 sm:ml-11 md:ml-13">
+                Coaches scan this code to mark {student.name} present
+              </DialogDescription>
+            </DialogHeader>
+            <div className="p-3 sm:p-4 md:p-6 overflow-y-auto flex-1 custom-scrollbar">
+              <StudentQrCard
+                name={student.name}
+                token={student.check_in_token}
+                packageType={student.package_type}
+                branchName={branches?.find(b => b.id === student.branch_id)?.name}
+                onRegenerate={role === "admin" ? () => {
+                  if (window.confirm(`Replace ${student.name}'s check-in code? Printed cards with the old code will stop working.`)) {
+                    regenerateCheckInMutation.mutate(student.id);
+                  }
+                } : undefined}
+                isRegenerating={regenerateCheckInMutation.isPending}
+              />
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Package History Modal */}
         <Dialog open={isPackageHistoryModalOpen} onOpenChange={setIsPackageHistoryModalOpen}>
           <DialogContent className="w-[95vw] max-w-4xl border-0 shadow-2xl p-0 max-h-[85vh] sm:max-h-[90vh] flex flex-col rounded-xl sm:rounded-2xl overflow-hidden" style={{ backgroundColor: '#f8f9fa' }}>
@@ -958,7 +953,7 @@ export default function StudentViewPage() {
                             })) || [];
 
                       const attendedSessionsTotal = sessionsInPackage
-                        .filter((record) => record.status === "present")
+                        .filter((record) => record.consumes_session)
                         .reduce((sum, record) => sum + (record.session_duration ?? 1), 0);
 
                       return (
@@ -1044,7 +1039,7 @@ export default function StudentViewPage() {
               const totalSessions = Number(student.sessions) || 0;
               const usedSessionsCalc =
                 attendanceInCurrentPackage
-                  ?.filter((record) => record.status === "present")
+                  ?.filter((record) => record.consumes_session)
                   ?.reduce((sum, record) => sum + (record.session_duration ?? 1), 0) || 0;
               const remainingSessions = Math.max(0, totalSessions - usedSessionsCalc);
               const expirationDate = student.expiration_date ? new Date(student.expiration_date) : null;
@@ -1145,6 +1140,7 @@ export default function StudentViewPage() {
                         onClick={() => {
                           if (student) {
                             setEditPackageFormData({
+                              package_id: student.package_id,
                               package_type: student.package_type,
                               sessions: student.sessions || 8,
                               enrollment_date: student.enrollment_date ? new Date(student.enrollment_date) : new Date(),
@@ -1244,22 +1240,20 @@ export default function StudentViewPage() {
                       )}
                       {pkgStatus.status !== 'ongoing' && (
                         <Dialog open={isNewPackageDialogOpen} onOpenChange={setIsNewPackageDialogOpen}>
-                          <DialogTrigger asChild>
-                            <Button size="sm" className="text-xs bg-emerald-500 text-white hover:bg-emerald-600">
-                              <Plus className="w-3.5 h-3.5 mr-1.5" />
-                              New Package
-                            </Button>
-                          </DialogTrigger>
+                          <Button size="sm" className="text-xs bg-emerald-500 text-white hover:bg-emerald-600" onClick={openRenewDialog}>
+                            <RefreshCw className="w-3.5 h-3.5 mr-1.5" />
+                            Renew Package
+                          </Button>
                           <DialogContent className="w-[95vw] max-w-md border-0 shadow-2xl p-0 max-h-[85vh] sm:max-h-[90vh] flex flex-col rounded-xl sm:rounded-2xl overflow-hidden" style={{ backgroundColor: '#f8f9fa' }}>
                             <DialogHeader className="px-3 sm:px-4 md:px-6 py-3 sm:py-4 md:py-5 flex-shrink-0" style={{ background: '#242833' }}>
                               <DialogTitle className="text-sm sm:text-base md:text-lg font-bold text-white flex items-center gap-2 sm:gap-3">
                                 <div className="w-7 h-7 sm:w-8 sm:h-8 md:w-10 md:h-10 rounded-lg sm:rounded-xl flex items-center justify-center flex-shrink-0" style={{ backgroundColor: 'rgba(121, 229, 143, 0.2)' }}>
-                                  <Plus className="w-3.5 h-3.5 sm:w-4 sm:h-4 md:w-5 md:h-5" style={{ color: '#79e58f' }} />
+                                  <RefreshCw className="w-3.5 h-3.5 sm:w-4 sm:h-4 md:w-5 md:h-5" style={{ color: '#79e58f' }} />
                                 </div>
-                                <span className="truncate">Create New Package</span>
+                                <span className="truncate">Renew Package</span>
                               </DialogTitle>
                               <DialogDescription className="text-gray-300 text-xs sm:text-sm mt-1 ml-9 sm:ml-11 md:ml-13 hidden sm:block">
-                                Start a new package session (renewal)
+                                Archive the current cycle and start the next one
                               </DialogDescription>
                             </DialogHeader>
                             <div className="p-3 sm:p-4 md:p-5 overflow-y-auto flex-1 custom-scrollbar">
@@ -1267,15 +1261,27 @@ export default function StudentViewPage() {
                               <div className="space-y-2">
                                 <Label className="text-gray-700 text-sm">Package Type</Label>
                                 <Select
-                                  value={newPackageFormData.package_type ?? undefined}
-                                  onValueChange={(value) => setNewPackageFormData((prev) => ({ ...prev, package_type: value }))}
+                                  value={newPackageFormData.package_id ?? undefined}
+                                  onValueChange={(value) => {
+                                    const catalogPackage = packages?.find((pkg) => pkg.id === value);
+                                    setNewPackageFormData((prev) => ({
+                                      ...prev,
+                                      package_id: value,
+                                      package_type: catalogPackage?.name ?? prev.package_type,
+                                      ...(catalogPackage && {
+                                        sessions: catalogPackage.sessions ?? prev.sessions,
+                                        expiration_date: getPackageExpirationDate(catalogPackage, prev.enrollment_date || new Date()),
+                                        total_training_fee: catalogPackage.price ?? prev.total_training_fee,
+                                      }),
+                                    }));
+                                  }}
                                 >
                                   <SelectTrigger className="border-gray-200">
                                     <SelectValue placeholder="Select package" />
                                   </SelectTrigger>
                                   <SelectContent>
-                                    {packages?.map((pkg) => (
-                                      <SelectItem key={pkg.id} value={pkg.name}>{pkg.name}</SelectItem>
+                                    {packages?.filter((pkg) => isPackageAvailableAtBranch(pkg, student.branch_id)).map((pkg) => (
+                                      <SelectItem key={pkg.id} value={pkg.id}>{pkg.name}</SelectItem>
                                     ))}
                                   </SelectContent>
                                 </Select>
@@ -1302,7 +1308,15 @@ export default function StudentViewPage() {
                                       </Button>
                                     </PopoverTrigger>
                                     <PopoverContent className="w-auto p-0" align="start">
-                                      <CalendarComponent mode="single" selected={newPackageFormData.enrollment_date || undefined} onSelect={(date) => setNewPackageFormData((prev) => ({ ...prev, enrollment_date: date || new Date() }))} initialFocus />
+                                      <CalendarComponent mode="single" selected={newPackageFormData.enrollment_date || undefined} onSelect={(date) => setNewPackageFormData((prev) => {
+                                        const catalogPackage = packages?.find((pkg) => pkg.id === prev.package_id);
+                                        const enrollmentDate = date || new Date();
+                                        return {
+                                          ...prev,
+                                          enrollment_date: enrollmentDate,
+                                          ...(catalogPackage?.validity_days && { expiration_date: getPackageExpirationDate(catalogPackage, enrollmentDate) }),
+                                        };
+                                      })} initialFocus />
                                     </PopoverContent>
                                   </Popover>
                                 </div>
@@ -1321,10 +1335,61 @@ export default function StudentViewPage() {
                                   </Popover>
                                 </div>
                               </div>
+                              <div className="grid grid-cols-2 gap-3">
+                                <div className="space-y-2">
+                                  <Label className="text-gray-700 text-sm">Training Fee</Label>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={newPackageFormData.total_training_fee}
+                                    onChange={(e) => setNewPackageFormData((prev) => ({ ...prev, total_training_fee: parseFloat(e.target.value) || 0 }))}
+                                    className="border-gray-200"
+                                  />
+                                </div>
+                                <div className="space-y-2">
+                                  <Label className="text-gray-700 text-sm">Downpayment</Label>
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    step="0.01"
+                                    value={newPackageFormData.downpayment}
+                                    onChange={(e) => setNewPackageFormData((prev) => ({ ...prev, downpayment: parseFloat(e.target.value) || 0 }))}
+                                    className="border-gray-200"
+                                  />
+                                </div>
+                              </div>
+                              {(student.remaining_balance ?? 0) > 0 && (
+                                <div className="space-y-2 p-3 rounded-lg border border-amber-200 bg-amber-50">
+                                  <p className="text-sm font-medium text-amber-800">
+                                    Unpaid balance on the current package: ₱{(student.remaining_balance ?? 0).toLocaleString()}
+                                  </p>
+                                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                    <input
+                                      type="radio"
+                                      name="balance_action"
+                                      checked={newPackageFormData.balance_action === "carry_forward"}
+                                      onChange={() => setNewPackageFormData((prev) => ({ ...prev, balance_action: "carry_forward" }))}
+                                      style={{ accentColor: '#79e58f' }}
+                                    />
+                                    Carry forward as a charge on the new package
+                                  </label>
+                                  <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+                                    <input
+                                      type="radio"
+                                      name="balance_action"
+                                      checked={newPackageFormData.balance_action === "write_off"}
+                                      onChange={() => setNewPackageFormData((prev) => ({ ...prev, balance_action: "write_off" }))}
+                                      style={{ accentColor: '#79e58f' }}
+                                    />
+                                    Write it off
+                                  </label>
+                                </div>
+                              )}
                               <div className="flex gap-3 pt-2">
                                 <Button type="button" variant="outline" onClick={() => setIsNewPackageDialogOpen(false)} className="flex-1">Cancel</Button>
                                 <Button type="submit" disabled={createNewPackageMutation.isPending} className="flex-1 bg-emerald-500 hover:bg-emerald-600 text-white">
-                                  {createNewPackageMutation.isPending ? "..." : "Create"}
+                                  {createNewPackageMutation.isPending ? "..." : "Renew"}
                                 </Button>
                               </div>
                             </form>
@@ -1354,10 +1419,17 @@ export default function StudentViewPage() {
                 <form onSubmit={handleEditPackageSubmit} className="space-y-4">
                   <div className="space-y-2">
                     <Label className="text-gray-700 text-sm">Package Type</Label>
-                    <Select value={editPackageFormData.package_type ?? undefined} onValueChange={(value) => setEditPackageFormData((prev) => ({ ...prev, package_type: value }))}>
+                    <Select
+                      value={editPackageFormData.package_id ?? undefined}
+                      onValueChange={(value) => setEditPackageFormData((prev) => ({
+                        ...prev,
+                        package_id: value,
+                        package_type: packages?.find((pkg) => pkg.id === value)?.name ?? prev.package_type,
+                      }))}
+                    >
                       <SelectTrigger className="border-gray-200"><SelectValue placeholder="Select package" /></SelectTrigger>
                       <SelectContent>
-                        {packages?.map((pkg) => (<SelectItem key={pkg.id} value={pkg.name}>{pkg.name}</SelectItem>))}
+                        {packages?.map((pkg) => (<SelectItem key={pkg.id} value={pkg.id}>{pkg.name}</SelectItem>))}
                       </SelectContent>
                     </Select>
                   </div>
@@ -1452,7 +1524,7 @@ export default function StudentViewPage() {
                             if (end && d >= end) return false;
                             return true;
                           })) || [];
-                          const attended = sessionsInPackage.filter((r) => r.status === "present").reduce((s, r) => s + (r.session_duration ?? 1), 0);
+                          const attended = sessionsInPackage.filter((r) => r.consumes_session).reduce((s, r) => s + (r.session_duration ?? 1), 0);
                           
                           // Determine package status - check expired FIRST
                           const totalSess = pkg.sessions ?? 0;
@@ -1473,7 +1545,12 @@ export default function StudentViewPage() {
                                   <span className="inline-flex items-center justify-center w-6 h-6 rounded-full bg-[#79e58f] text-white text-xs font-bold">{sequenceNumber}</span>
                                   <div>
                                     <p className="text-sm font-semibold text-gray-900">{pkg.package_type || 'Package'}</p>
-                                    <p className="text-xs text-gray-400">{pkg.reason || 'Archived'}</p>
+                                    <p className="text-xs text-gray-400">
+                                      {pkg.reason || 'Archived'}
+                                      {pkg.package_snapshot && typeof pkg.package_snapshot === 'object' && !Array.isArray(pkg.package_snapshot) && pkg.package_snapshot.version != null && ` • catalog v${pkg.package_snapshot.version}`}
+                                      {pkg.balance_resolution === 'carried_forward' && ' • balance carried forward'}
+                                      {pkg.balance_resolution === 'written_off' && ' • balance written off'}
+                                    </p>
                                   </div>
                                 </div>
                                 <span className={`px-2 py-0.5 rounded text-xs font-semibold ${statusColor}`}>
@@ -1535,6 +1612,53 @@ export default function StudentViewPage() {
               </CardContent>
             </Card>
 
+            {/* Make-up Credits Card */}
+            <Card className="border border-gray-200 bg-white rounded-xl shadow-sm overflow-hidden">
+              <CardHeader className="pb-3 pt-4 px-5 bg-amber-50/50 border-b border-amber-100/50">
+                <CardTitle className="text-base font-semibold text-gray-900 flex items-center justify-between gap-2">
+                  <span className="flex items-center gap-2">
+                    <RefreshCw className="w-4 h-4 text-amber-500" />
+                    Make-up Credits
+                  </span>
+                  {makeupCredits && makeupCredits.length > 0 && (
+                    <span className="text-xs font-medium text-amber-600">
+                      {makeupCredits.filter((c) => !c.redeemed_session_id).length} outstanding
+                    </span>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="p-5">
+                {makeupCredits && makeupCredits.length > 0 ? (
+                  <div className="space-y-2">
+                    {makeupCredits.map((credit) => (
+                      <div key={credit.id} className="flex items-start justify-between gap-2 p-3 bg-white rounded-lg border border-gray-200">
+                        <div className="min-w-0">
+                          <p className="text-sm font-medium text-gray-900">
+                            Cancelled {credit.source_session?.date ? format(new Date(credit.source_session.date), "MMM dd, yyyy") : "session"}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            Package #{credit.package_cycle}
+                            {credit.redeemed_session?.date && (
+                              <> • Made up {format(new Date(credit.redeemed_session.date), "MMM dd, yyyy")}
+                              {credit.redeemed_session.start_time ? ` at ${credit.redeemed_session.start_time.slice(0, 5)}` : ""}</>
+                            )}
+                          </p>
+                        </div>
+                        <span className={`px-2 py-0.5 rounded text-xs font-semibold flex-shrink-0 ${credit.redeemed_session_id ? "bg-emerald-500 text-white" : "bg-amber-500 text-white"}`}>
+                          {credit.redeemed_session_id ? "Redeemed" : "Outstanding"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-6 bg-gray-50 rounded-xl border-2 border-dashed border-gray-200">
+                    <p className="text-sm text-gray-500">No make-up credits</p>
+                    <p className="text-xs text-gray-400 mt-1">Credits are added when a session this player was in is cancelled</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
           </div>
         </div>
 
@@ -1550,7 +1674,7 @@ export default function StudentViewPage() {
               </DialogTitle>
               <DialogDescription className="text-gray-300 text-xs sm:text-sm mt-1 ml-9 sm:ml-11 md:ml-13 hidden sm:block">
                 {packageSessionsModal.sessions.length} sessions • Total: {(() => {
-                  const total = packageSessionsModal.sessions.filter(s => s.status === 'present').reduce((sum, s) => sum + (s.session_duration ?? 1), 0);
+                  const total = packageSessionsModal.sessions.filter(s => s.consumes_session).reduce((sum, s) => sum + (s.session_duration ?? 1), 0);
                   return total % 1 === 0 ? total : total.toFixed(1);
                 })()} attended
               </DialogDescription>
@@ -1560,7 +1684,7 @@ export default function StudentViewPage() {
                 <div className="space-y-2">
                   {packageSessionsModal.sessions.map((session) => (
                     <div key={session.session_id} className={`flex items-center justify-between p-3 rounded-lg transition-colors border ${
-                      session.status === "present" ? "bg-emerald-50/50 border-emerald-100 hover:bg-emerald-100/50" : session.status === "absent" ? "bg-red-50/50 border-red-100 hover:bg-red-100/50" : "bg-gray-50/50 border-gray-100 hover:bg-gray-100/50"
+                      session.status === "present" ? "bg-emerald-50/50 border-emerald-100 hover:bg-emerald-100/50" : session.status === "late" ? "bg-orange-50/50 border-orange-100 hover:bg-orange-100/50" : session.status === "excused" ? "bg-blue-50/50 border-blue-100 hover:bg-blue-100/50" : session.status === "absent" ? "bg-red-50/50 border-red-100 hover:bg-red-100/50" : "bg-gray-50/50 border-gray-100 hover:bg-gray-100/50"
                     }`}>
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 flex-wrap">
@@ -1582,8 +1706,8 @@ export default function StudentViewPage() {
                       <div className="flex items-center gap-3 flex-shrink-0">
                         <span className="text-xs font-medium text-[#79e58f]">{session.session_duration ?? 1} hr</span>
                         <span className={`px-2 py-0.5 rounded text-xs font-semibold ${
-                          session.status === "present" ? "bg-emerald-500 text-white" : session.status === "absent" ? "bg-red-500 text-white" : "bg-amber-500 text-white"
-                        }`}>{session.status}</span>
+                          session.status === "present" ? "bg-emerald-500 text-white" : session.status === "late" ? "bg-orange-500 text-white" : session.status === "excused" ? "bg-blue-500 text-white" : session.status === "absent" ? "bg-red-500 text-white" : "bg-amber-500 text-white"
+                        }`} title={session.reason || undefined}>{session.status}</span>
                       </div>
                     </div>
                   ))}
@@ -1614,7 +1738,7 @@ export default function StudentViewPage() {
                 <div className="space-y-2">
                   {paginatedRecords.map((record, idx) => (
                     <div key={record.session_id} className={`flex items-center justify-between p-3 rounded-lg transition-colors border ${
-                      record.status === "present" ? "bg-emerald-50/50 border-emerald-100 hover:bg-emerald-100/50" : record.status === "absent" ? "bg-red-50/50 border-red-100 hover:bg-red-100/50" : "bg-gray-50/50 border-gray-100 hover:bg-gray-100/50"
+                      record.status === "present" ? "bg-emerald-50/50 border-emerald-100 hover:bg-emerald-100/50" : record.status === "late" ? "bg-orange-50/50 border-orange-100 hover:bg-orange-100/50" : record.status === "excused" ? "bg-blue-50/50 border-blue-100 hover:bg-blue-100/50" : record.status === "absent" ? "bg-red-50/50 border-red-100 hover:bg-red-100/50" : "bg-gray-50/50 border-gray-100 hover:bg-gray-100/50"
                     }`}>
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2 flex-wrap">
@@ -1634,8 +1758,8 @@ export default function StudentViewPage() {
                       <div className="flex items-center gap-3 flex-shrink-0">
                         <span className="text-xs font-medium text-[#79e58f]">{record.session_duration ?? 1} hr</span>
                         <span className={`px-2 py-0.5 rounded text-xs font-semibold ${
-                          record.status === "present" ? "bg-emerald-500 text-white" : record.status === "absent" ? "bg-red-500 text-white" : "bg-amber-500 text-white"
-                        }`}>{record.status}</span>
+                          record.status === "present" ? "bg-emerald-500 text-white" : record.status === "late" ? "bg-orange-500 text-white" : record.status === "excused" ? "bg-blue-500 text-white" : record.status === "absent" ? "bg-red-500 text-white" : "bg-amber-500 text-white"
+                        }`} title={record.reason || undefined}>{record.status}</span>
                       </div>
                     </div>
                   ))}
@@ -0,0 +1,25 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type BalanceLedgerEntry = Tables<'student_balance_ledger'>;
+
+export async function fetchStudentBalanceLedger(studentId: string) {
+  const { data, error } = await supabase
+    .from('student_balance_ledger')
+    .select('*')
+    .eq('student_id', studentId)
+    .order('package_cycle', { ascending: false });
+  if (error) throw error;
+  return data as BalanceLedgerEntry[];
+}
+
+/**
+ * Ledger row of a package, where "current" (or no id) is the student's active package
+ */
+export function getLedgerEntry(ledger: BalanceLedgerEntry[] | undefined, packageHistoryId: string | null | undefined) {
+  if (!ledger) return undefined;
+  if (!packageHistoryId || packageHistoryId === 'current') {
+    return ledger.find((entry) => entry.is_current);
+  }
+  return ledger.find((entry) => entry.package_history_id === packageHistoryId);
+}
@@ -0,0 +1,31 @@
+import QRCode from 'qrcode';
+
+const CHECK_IN_PREFIX = 'takeover-checkin:';
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Text encoded in a student's QR code. The prefix keeps other QR codes from being
+ * sent to the check-in RPC.
+ */
+export function buildCheckInPayload(token: string) {
+  return `${CHECK_IN_PREFIX}${token}`;
+}
+
+/**
+ * Check-in token from scanned QR text, or null when it isn't one of our codes
+ */
+export function parseCheckInPayload(text: string | null | undefined) {
+  const value = text?.trim() ?? '';
+  if (!value.startsWith(CHECK_IN_PREFIX)) return null;
+  const token = value.slice(CHECK_IN_PREFIX.length);
+  return UUID_PATTERN.test(token) ? token : null;
+}
+
+export function generateCheckInQrDataUrl(token: string, size = 320) {
+  return QRCode.toDataURL(buildCheckInPayload(token), {
+    width: size,
+    margin: 2,
+    errorCorrectionLevel: 'M',
+    color: { dark: '#242833', light: '#ffffff' },
+  });
+}
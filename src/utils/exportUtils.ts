@@ -1,329 +1,266 @@
 import XLSX from 'xlsx-js-style';
+import {
+  buildReportLines,
+  buildReportWorksheet as buildSheet,
+  HIGHLIGHT_COLORS,
+  isNumericCell,
+  type RenderedCell,
+  type ReportSheet,
+} from '../../supabase/functions/_shared/reportWorksheet';
+
+export {
+  formatReportValue,
+  type ReportColumn,
+  type ReportColumnType,
+  type ReportHighlight,
+  type ReportValue,
+} from '../../supabase/functions/_shared/reportWorksheet';
+
+export type ReportFormat = 'xlsx' | 'csv' | 'pdf';
+
+export interface ReportDefinition<T> extends ReportSheet<T> {
+  filename: string;
+}
 
 /**
- * Export data to Excel file (.xlsx) with professional styling
+ * Worksheet for a report, built by the same module as the emailed reports so both look alike
  */
-export function exportToExcel(
-  data: any[],
-  filename: string,
-  headers: string[],
-  getRowData: (item: any) => string[]
-) {
-  if (!data || data.length === 0) {
-    return;
-  }
-
-  // Create worksheet data with styling
-  const worksheetData: any[][] = [];
-
-  // Add title row
-  const titleRow = [{ 
-    v: 'TAKEOVER BASKETBALL - PLAYERS REPORT', 
-    t: 's',
-    s: {
-      font: { bold: true, sz: 16, color: { rgb: 'FFFFFF' } },
-      fill: { fgColor: { rgb: '242833' } },
-      alignment: { horizontal: 'center', vertical: 'center' }
-    }
-  }];
-  worksheetData.push(titleRow);
+export function buildReportWorksheet<T>(report: ReportDefinition<T>) {
+  return buildSheet(report, formatDate(new Date(), 'MM/dd/yyyy HH:mm'), XLSX.utils);
+}
 
-  // Add date row
-  const dateRow = [{
-    v: `Generated: ${formatDate(new Date(), 'MM/dd/yyyy HH:mm')}`,
-    t: 's',
-    s: {
-      font: { italic: true, sz: 10, color: { rgb: '666666' } },
-      alignment: { horizontal: 'center' }
-    }
-  }];
-  worksheetData.push(dateRow);
+/**
+ * Export several reports to one styled Excel file (.xlsx), one sheet per report.
+ * Sheet names are made valid and unique.
+ */
+export function exportReportsToExcel(reports: ReportDefinition<unknown>[], filename: string) {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+  reports.forEach((report) => {
+    const base = (report.sheetName || report.title).replace(/[\\/?*[\]:]/g, ' ').slice(0, 28) || 'Sheet';
+    let sheetName = base;
+    for (let index = 2; usedNames.has(sheetName); index++) sheetName = `${base} ${index}`;
+    usedNames.add(sheetName);
+    XLSX.utils.book_append_sheet(workbook, buildReportWorksheet(report), sheetName);
+  });
+  const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  downloadFile(
+    new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+    `${filename}_${formatDate(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.xlsx`
+  );
+}
 
-  // Add empty row for spacing
-  worksheetData.push([]);
+/**
+ * Export a report to a styled Excel file (.xlsx)
+ */
+export function exportReportToExcel<T>(report: ReportDefinition<T>) {
+  exportReportsToExcel([report], report.filename);
+}
 
-  // Add header row with styling
-  const headerRow = headers.map(header => ({
-    v: header,
-    t: 's',
-    s: {
-      font: { bold: true, sz: 11, color: { rgb: 'FFFFFF' } },
-      fill: { fgColor: { rgb: '79E58F' } },
-      alignment: { horizontal: 'center', vertical: 'center', wrapText: true },
-      border: {
-        top: { style: 'thin', color: { rgb: '242833' } },
-        bottom: { style: 'thin', color: { rgb: '242833' } },
-        left: { style: 'thin', color: { rgb: '242833' } },
-        right: { style: 'thin', color: { rgb: '242833' } }
-      }
+/**
+ * Export a report to CSV. Numbers are written unformatted so spreadsheets can total them.
+ */
+export function exportReportToCSV<T>(report: ReportDefinition<T>) {
+  const rows: string[][] = [];
+  buildReportLines(report).forEach((line) => {
+    if (line.kind === 'group') {
+      rows.push([line.label ?? '']);
+      return;
     }
-  }));
-  worksheetData.push(headerRow);
-
-  // Add data rows with alternating colors
-  data.forEach((item, rowIndex) => {
-    const rowData = getRowData(item);
-    const isEvenRow = rowIndex % 2 === 0;
-    
-    const styledRow = rowData.map((cellValue, colIndex) => {
-      // Special styling for Name column (index 0) and Remaining Balance column (index 3)
-      const isNameColumn = colIndex === 0;
-      const isBalanceColumn = colIndex === 3;
-      
-      return {
-        v: cellValue,
-        t: 's',
-        s: {
-          font: { 
-            sz: 10, 
-            color: { rgb: '333333' },
-            bold: isNameColumn || isBalanceColumn
-          },
-          fill: { fgColor: { rgb: isEvenRow ? 'F8F9FA' : 'FFFFFF' } },
-          alignment: { 
-            horizontal: 'center', 
-            vertical: 'center' 
-          },
-          border: {
-            top: { style: 'thin', color: { rgb: 'E0E0E0' } },
-            bottom: { style: 'thin', color: { rgb: 'E0E0E0' } },
-            left: { style: 'thin', color: { rgb: 'E0E0E0' } },
-            right: { style: 'thin', color: { rgb: 'E0E0E0' } }
-          }
-        }
-      };
-    });
-    worksheetData.push(styledRow);
+    rows.push(line.cells.map((cell) => (isNumericCell(cell) ? String(cell.value) : cell.text)));
   });
+  if (report.summary?.length) {
+    rows.push([]);
+    report.summary.forEach(([label, value]) => rows.push([label, value]));
+  }
+  exportRowsToCSV(report.columns.map((column) => column.header), rows, report.filename);
+}
 
-  // Add summary footer
-  worksheetData.push([]); // Empty row
-  const totalPlayers = [{
-    v: `Total Players: ${data.length}`,
-    t: 's',
-    s: {
-      font: { bold: true, sz: 11, color: { rgb: '242833' } },
-      fill: { fgColor: { rgb: 'E8E8E8' } },
-      alignment: { horizontal: 'left' },
-      border: {
-        top: { style: 'medium', color: { rgb: '242833' } },
-        bottom: { style: 'medium', color: { rgb: '242833' } },
-        left: { style: 'medium', color: { rgb: '242833' } },
-        right: { style: 'medium', color: { rgb: '242833' } }
-      }
-    }
-  }];
-  worksheetData.push(totalPlayers);
-
-  // Create worksheet
-  const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
 
-  // Set column widths
-  const columnWidths = headers.map((header, colIndex) => {
-    const maxLength = Math.max(
-      header.length,
-      ...data.map(item => {
-        const cellValue = getRowData(item)[colIndex];
-        return cellValue ? String(cellValue).length : 0;
-      })
-    );
-    return { wch: Math.min(Math.max(maxLength + 4, 14), 45) };
-  });
-  worksheet['!cols'] = columnWidths;
-
-  // Merge title and date cells across all columns
-  worksheet['!merges'] = [
-    { s: { r: 0, c: 0 }, e: { r: 0, c: headers.length - 1 } }, // Title row merge
-    { s: { r: 1, c: 0 }, e: { r: 1, c: headers.length - 1 } }, // Date row merge
-    { s: { r: worksheetData.length - 1, c: 0 }, e: { r: worksheetData.length - 1, c: 2 } } // Footer merge
-  ];
+/**
+ * Open a report as a printable page, the browser's print dialog saves it as PDF.
+ * Throws when the browser blocks the popup.
+ */
+export function printReport<T>(report: ReportDefinition<T>) {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Please allow popups to save as PDF');
+  }
 
-  // Set row heights
-  worksheet['!rows'] = [
-    { hpt: 30 }, // Title row
-    { hpt: 18 }, // Date row
-    { hpt: 10 }, // Spacer row
-    { hpt: 25 }, // Header row
-    ...Array(data.length).fill({ hpt: 22 }), // Data rows
-    { hpt: 10 }, // Spacer
-    { hpt: 22 }  // Footer
-  ];
+  const headerFill = report.headerStyle === 'dark' ? '#242833' : '#79e58f';
+  const cellStyle = (cell: RenderedCell) => {
+    const colors = cell.highlight ? HIGHLIGHT_COLORS[cell.highlight] : null;
+    return [
+      `text-align: ${cell.align}`,
+      cell.bold ? 'font-weight: bold' : '',
+      colors ? `background: #${colors.fill}; color: #${colors.font}` : cell.shade ? `background: #${cell.shade}` : '',
+    ].filter(Boolean).join('; ');
+  };
 
-  // Create workbook
-  const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, 'Players Report');
+  const body = buildReportLines(report).map((line) => {
+    if (line.kind === 'group') {
+      return `<tr class="group"><td colspan="${report.columns.length}">${escapeHtml(line.label ?? '')}</td></tr>`;
+    }
+    const cells = line.cells.map((cell) => `<td style="${cellStyle(cell)}">${escapeHtml(cell.text)}</td>`).join('');
+    return `<tr class="${line.kind}">${cells}</tr>`;
+  }).join('') || (report.emptyMessage
+    ? `<tr class="empty"><td colspan="${report.columns.length}">${escapeHtml(report.emptyMessage)}</td></tr>`
+    : '');
+
+  const summary = report.summary?.length
+    ? `<table class="summary">${report.summary.map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`
+    : '';
+
+  printWindow.document.write(`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>${escapeHtml(report.title)}</title>
+        <style>
+          @page { size: A4 ${report.columns.length > 6 ? 'landscape' : 'portrait'}; margin: 1cm; }
+          body { font-family: Arial, sans-serif; margin: 0; color: #333; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+          h1 { background: #242833; color: #fff; font-size: 18px; text-align: center; padding: 12px; margin: 0; }
+          .subtitle { text-align: center; font-weight: bold; color: #242833; margin: 8px 0 0; }
+          .generated { text-align: center; font-style: italic; font-size: 10px; color: #666; margin: 4px 0 12px; }
+          table { width: 100%; border-collapse: collapse; font-size: 10px; }
+          th { background: ${headerFill}; color: #fff; padding: 6px; border: 1px solid #242833; }
+          td { padding: 5px 6px; border: 1px solid #e0e0e0; }
+          tr.row:nth-child(even) td { background-color: #f8f9fa; }
+          tr.group td { background: #e8e8e8; font-weight: bold; color: #242833; border-color: #242833; }
+          tr.subtotal td { background: #e8e8e8; font-weight: bold; }
+          tr.total td { background: #d1fae5; font-weight: bold; }
+          tr.empty td { text-align: center; font-style: italic; color: #666; }
+          thead { display: table-header-group; }
+          tr { page-break-inside: avoid; }
+          .summary { width: auto; min-width: 50%; margin: 16px 0 0 auto; font-size: 11px; }
+          .summary td { font-weight: bold; background: #e8e8e8; border-color: #242833; }
+          .summary td:last-child { text-align: right; }
+          .summary tr:last-child td { background: #d1fae5; }
+        </style>
+      </head>
+      <body>
+        <h1>TAKEOVER BASKETBALL - ${escapeHtml(report.title.toUpperCase())}</h1>
+        ${report.subtitle ? `<p class="subtitle">${escapeHtml(report.subtitle)}</p>` : ''}
+        <p class="generated">Generated: ${formatDate(new Date(), 'MM/dd/yyyy HH:mm')}</p>
+        <table>
+          <thead><tr>${report.columns.map((column) => `<th>${escapeHtml(column.header)}</th>`).join('')}</tr></thead>
+          <tbody>${body}</tbody>
+        </table>
+        ${summary}
+        <script>
+          window.onload = function() {
+            window.print();
+          };
+        </script>
+      </body>
+    </html>
+  `);
+  printWindow.document.close();
+}
 
-  // Generate Excel file and download
-  const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
-  const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
-  const link = document.createElement('a');
-  const url = URL.createObjectURL(blob);
-  link.setAttribute('href', url);
-  link.setAttribute('download', `${filename}_${formatDate(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.xlsx`);
-  link.style.visibility = 'hidden';
-  document.body.appendChild(link);
-  link.click();
-  document.body.removeChild(link);
-  URL.revokeObjectURL(url);
+/**
+ * Export a report in any of the supported formats
+ */
+export function exportReport<T>(report: ReportDefinition<T>, format: ReportFormat) {
+  if (format === 'csv') exportReportToCSV(report);
+  else if (format === 'pdf') printReport(report);
+  else exportReportToExcel(report);
 }
 
 /**
- * Export coach session records to Excel with present/absent summary and red highlighting for absent rows.
+ * Export rows to a styled Excel file (.xlsx), one text column per header
  */
-export function exportCoachSessionsToExcel(
-  data: any[],
+export function exportToExcel<T>(
+  data: T[],
   filename: string,
   headers: string[],
-  getRowData: (item: any) => string[],
-  getStatus: (item: any) => 'present' | 'pending' | 'absent'
+  getRowData: (item: T) => string[],
+  title = 'Report'
 ) {
-  if (!data || data.length === 0) return;
-
-  const worksheetData: any[][] = [];
-  const presentCount = data.filter((i) => getStatus(i) === 'present').length;
-  const absentCount = data.filter((i) => getStatus(i) === 'absent').length;
-
-  // Title
-  worksheetData.push([{
-    v: 'TAKEOVER BASKETBALL - COACH SESSION REPORT',
-    t: 's',
-    s: {
-      font: { bold: true, sz: 16, color: { rgb: 'FFFFFF' } },
-      fill: { fgColor: { rgb: '242833' } },
-      alignment: { horizontal: 'center', vertical: 'center' }
-    }
-  }]);
+  if (!data || data.length === 0) {
+    return;
+  }
 
-  // Date
-  worksheetData.push([{
-    v: `Generated: ${formatDate(new Date(), 'MM/dd/yyyy HH:mm')}`,
-    t: 's',
-    s: {
-      font: { italic: true, sz: 10, color: { rgb: '666666' } },
-      alignment: { horizontal: 'center' }
-    }
-  }]);
+  exportReportToExcel<string[]>({
+    title,
+    filename,
+    columns: headers.map((header, index) => ({ header, value: (row) => row[index], bold: index === 0 })),
+    rows: data.map(getRowData),
+    summary: [['Total Records', String(data.length)]],
+  });
+}
 
-  worksheetData.push([]);
+export interface UtilizationSheet {
+  name: string;
+  columns: string[];
+  rows: Array<{ label: string; cells: Array<{ value: string; intensity: number; flagged: boolean }> }>;
+}
 
-  // Header: dark (black) to match title, white text
-  const headerRow = headers.map((h) => ({
-    v: h,
-    t: 's',
-    s: {
-      font: { bold: true, sz: 11, color: { rgb: 'FFFFFF' } },
-      fill: { fgColor: { rgb: '242833' } },
-      alignment: { horizontal: 'center', vertical: 'center', wrapText: true },
-      border: {
-        top: { style: 'thin', color: { rgb: '242833' } },
-        bottom: { style: 'thin', color: { rgb: '242833' } },
-        left: { style: 'thin', color: { rgb: '242833' } },
-        right: { style: 'thin', color: { rgb: '242833' } }
-      }
-    }
+/**
+ * Export court utilization: one weekday by hour grid per branch, shaded by how busy each slot is
+ * and red where court time was double-booked, plus a sheet listing the double bookings.
+ */
+export function exportUtilizationToExcel(
+  sheets: UtilizationSheet[],
+  periodLabel: string,
+  conflictHeaders: string[],
+  conflicts: string[][],
+  filename: string
+) {
+  if (sheets.length === 0) return;
+
+  const grids = sheets.map((sheet): ReportDefinition<UtilizationSheet['rows'][number]> => ({
+    title: 'Court Utilization',
+    subtitle: `${sheet.name} - ${periodLabel}`,
+    filename,
+    sheetName: sheet.name,
+    headerStyle: 'dark',
+    columns: sheet.columns.map((header, index) => index === 0
+      ? { header, value: (row) => row.label, bold: true, width: 12 }
+      : {
+          header,
+          value: (row) => row.cells[index - 1].value,
+          width: 16,
+          highlight: (row) => (row.cells[index - 1].flagged ? 'danger' : null),
+          shade: (row) => row.cells[index - 1].intensity,
+        }),
+    rows: sheet.rows,
   }));
-  worksheetData.push(headerRow);
-
-  // Data rows: red for absent, green for present, gray/white for pending; bold text
-  data.forEach((item, rowIndex) => {
-    const rowData = getRowData(item);
-    const status = getStatus(item);
-    const isAbsent = status === 'absent';
-    const isPresent = status === 'present';
-    const fillRgb = isAbsent
-      ? 'FFCCCB'
-      : isPresent
-        ? 'D1FAE5'
-        : (rowIndex % 2 === 0 ? 'F8F9FA' : 'FFFFFF');
-    const fontColor = isAbsent ? '991B1B' : isPresent ? '166534' : '333333';
 
-    const styledRow = rowData.map((cellValue) => ({
-      v: cellValue,
-      t: 's',
-      s: {
-        font: { sz: 10, color: { rgb: fontColor }, bold: true },
-        fill: { fgColor: { rgb: fillRgb } },
-        alignment: { horizontal: 'center', vertical: 'center' },
-        border: {
-          top: { style: 'thin', color: { rgb: 'E0E0E0' } },
-          bottom: { style: 'thin', color: { rgb: 'E0E0E0' } },
-          left: { style: 'thin', color: { rgb: 'E0E0E0' } },
-          right: { style: 'thin', color: { rgb: 'E0E0E0' } }
-        }
-      }
-    }));
-    worksheetData.push(styledRow);
-  });
-
-  worksheetData.push([]);
-
-  // Footer: Total Session Present, Total Session Absent
-  const footerStyle = {
-    font: { bold: true, sz: 11, color: { rgb: '242833' } },
-    fill: { fgColor: { rgb: 'E8E8E8' } },
-    alignment: { horizontal: 'left' as const },
-    border: {
-      top: { style: 'medium' as const, color: { rgb: '242833' } },
-      bottom: { style: 'medium' as const, color: { rgb: '242833' } },
-      left: { style: 'medium' as const, color: { rgb: '242833' } },
-      right: { style: 'medium' as const, color: { rgb: '242833' } }
-    }
+  const doubleBookings: ReportDefinition<string[]> = {
+    title: 'Double-Booked Court Time',
+    subtitle: periodLabel,
+    filename,
+    sheetName: 'Double Bookings',
+    headerStyle: 'dark',
+    columns: conflictHeaders.map((header, index) => ({ header, value: (row) => row[index], width: 24 })),
+    rows: conflicts,
+    rowHighlight: () => 'danger',
+    emptyMessage: 'No double-booked court time in this period',
   };
-  worksheetData.push([{
-    v: `Total Session Present: ${presentCount}`,
-    t: 's',
-    s: footerStyle
-  }]);
-  worksheetData.push([{
-    v: `Total Session Absent: ${absentCount}`,
-    t: 's',
-    s: footerStyle
-  }]);
-
-  const worksheet = XLSX.utils.aoa_to_sheet(worksheetData);
 
-  const columnWidths = headers.map((_, colIndex) => {
-    const maxLen = Math.max(
-      headers[colIndex].length,
-      ...data.map((item) => {
-        const v = getRowData(item)[colIndex];
-        return v ? String(v).length : 0;
-      })
-    );
-    return { wch: Math.min(Math.max(maxLen + 4, 14), 45) };
-  });
-  worksheet['!cols'] = columnWidths;
-
-  const lastDataRow = 3 + data.length;
-  const presentRow = lastDataRow + 2; // after data + empty
-  const absentRow = lastDataRow + 3;
-  worksheet['!merges'] = [
-    { s: { r: 0, c: 0 }, e: { r: 0, c: headers.length - 1 } },
-    { s: { r: 1, c: 0 }, e: { r: 1, c: headers.length - 1 } },
-    { s: { r: presentRow, c: 0 }, e: { r: presentRow, c: headers.length - 1 } },
-    { s: { r: absentRow, c: 0 }, e: { r: absentRow, c: headers.length - 1 } }
-  ];
-
-  worksheet['!rows'] = [
-    { hpt: 30 },
-    { hpt: 18 },
-    { hpt: 10 },
-    { hpt: 25 },
-    ...Array(data.length).fill({ hpt: 22 }),
-    { hpt: 10 },
-    { hpt: 22 },
-    { hpt: 22 }
-  ];
+  exportReportsToExcel([...grids, doubleBookings], filename);
+}
 
-  const workbook = XLSX.utils.book_new();
-  XLSX.utils.book_append_sheet(workbook, worksheet, 'Coach Sessions');
+/**
+ * Export plain rows to a .csv file, quoting values that need it
+ */
+export function exportRowsToCSV(headers: string[], rows: string[][], filename: string) {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const csv = [headers, ...rows].map((row) => row.map((value) => escape(String(value ?? ''))).join(',')).join('\n');
+  downloadFile(
+    new Blob([`\uFEFF${csv}`], { type: 'text/csv;charset=utf-8' }),
+    `${filename}_${formatDate(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.csv`
+  );
+}
 
-  const excelBuffer = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
-  const blob = new Blob([excelBuffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+function downloadFile(blob: Blob, filename: string) {
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
   link.setAttribute('href', url);
-  link.setAttribute('download', `${filename}_${formatDate(new Date(), 'yyyy-MM-dd_HH-mm-ss')}.xlsx`);
+  link.setAttribute('download', filename);
   link.style.visibility = 'hidden';
   document.body.appendChild(link);
   link.click();
@@ -333,16 +270,17 @@ export function exportCoachSessionsToExcel(
 
 /**
  * Legacy CSV export (kept for backward compatibility)
- * @deprecated Use exportToExcel instead
+ * @deprecated Use exportToExcel or exportReport instead
  */
-export function exportToCSV(
-  data: any[],
+export function exportToCSV<T>(
+  data: T[],
   filename: string,
   headers: string[],
-  getRowData: (item: any) => string[]
+  getRowData: (item: T) => string[],
+  title?: string
 ) {
   // Redirect to Excel export
-  exportToExcel(data, filename, headers, getRowData);
+  exportToExcel(data, filename, headers, getRowData, title);
 }
 
 /**
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { buildReceivables, summarizeAging, type ReceivableBalance, type ReceivableStudent, type UnpaidCharge } from './finance';
+
+const asOf = new Date('2026-10-19T00:00:00');
+
+const student: ReceivableStudent = {
+  id: 'student-1',
+  name: 'Juan Dela Cruz',
+  branch_id: 'branch-1',
+  enrollment_date: '2026-09-01',
+  created_at: '2026-09-01T00:00:00Z',
+};
+
+const charge: UnpaidCharge = {
+  id: 'charge-1',
+  student_id: 'student-1',
+  amount: 500,
+  paid_amount: 0,
+  charge_date: '2026-10-01T00:00:00',
+  charge_type: 'jersey',
+  description: 'Jersey',
+  students: { name: 'Juan Dela Cruz', branch_id: 'branch-1' },
+};
+
+describe('buildReceivables', () => {
+  it('counts an unpaid charge once when the package itself is paid off', () => {
+    // students.remaining_balance is 500 here, the charge the ledger already adds to it
+    const balances: ReceivableBalance[] = [
+      { student_id: 'student-1', total_training_fee: 5000, downpayment: 2000, balance_payments: 3000 },
+    ];
+
+    const receivables = buildReceivables([student], balances, [charge], asOf);
+
+    expect(receivables).toHaveLength(1);
+    expect(receivables[0]).toMatchObject({ source: 'charge', amount: 500, days: 18, bucket: '0-30' });
+    expect(summarizeAging(receivables).reduce((sum, bucket) => sum + bucket.balances + bucket.charges, 0)).toBe(500);
+  });
+
+  it('lists the unpaid package fee and the charge separately', () => {
+    const balances: ReceivableBalance[] = [
+      { student_id: 'student-1', total_training_fee: 5000, downpayment: 2000, balance_payments: 1000 },
+    ];
+
+    const receivables = buildReceivables([student], balances, [charge], asOf);
+
+    expect(receivables.map((receivable) => [receivable.source, receivable.amount, receivable.bucket])).toEqual([
+      ['balance', 2000, '31-60'],
+      ['charge', 500, '0-30'],
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+import { differenceInCalendarDays, eachMonthOfInterval, format, parseISO } from 'date-fns';
+
+export interface RevenuePayment {
+  id: string;
+  payment_amount: number;
+  payment_date: string;
+  transaction_type: string;
+  voided_at: string | null;
+  students: { branch_id: string | null; package_type: string | null } | null;
+  student_package_history: { package_type: string | null } | null;
+}
+
+export interface ReceivableStudent {
+  id: string;
+  name: string;
+  branch_id: string | null;
+  enrollment_date: string | null;
+  created_at: string;
+}
+
+/** Current package row of student_balance_ledger */
+export interface ReceivableBalance {
+  student_id: string;
+  total_training_fee: number | null;
+  downpayment: number | null;
+  balance_payments: number | null;
+}
+
+export interface UnpaidCharge {
+  id: string;
+  student_id: string;
+  amount: number;
+  paid_amount: number | null;
+  charge_date: string;
+  charge_type: string;
+  description: string | null;
+  students: { name: string; branch_id: string | null } | null;
+}
+
+export type AgingBucket = '0-30' | '31-60' | '60+';
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '60+'];
+
+export interface Receivable {
+  key: string;
+  source: 'balance' | 'charge';
+  studentId: string;
+  studentName: string;
+  branchId: string | null;
+  description: string;
+  amount: number;
+  since: string;
+  days: number;
+  bucket: AgingBucket;
+}
+
+export interface RevenueGroup {
+  key: string;
+  label: string;
+  collected: number;
+  refunded: number;
+  net: number;
+  payments: number;
+}
+
+export function formatPeso(amount: number) {
+  return `₱${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function getAgingBucket(days: number): AgingBucket {
+  if (days <= 30) return '0-30';
+  if (days <= 60) return '31-60';
+  return '60+';
+}
+
+// Voided payments never count, refunds are stored as negative amounts and reduce the group they fall in
+function addPayment(group: RevenueGroup, payment: RevenuePayment) {
+  const amount = Number(payment.payment_amount) || 0;
+  if (payment.transaction_type === 'refund') {
+    group.refunded += -amount;
+  } else {
+    group.collected += amount;
+    group.payments++;
+  }
+  group.net += amount;
+}
+
+const emptyGroup = (key: string, label: string): RevenueGroup => ({ key, label, collected: 0, refunded: 0, net: 0, payments: 0 });
+
+/**
+ * Collections per calendar month of the range, months without payments included
+ */
+export function groupRevenueByMonth(payments: RevenuePayment[], from: string, to: string) {
+  const months = new Map<string, RevenueGroup>();
+  eachMonthOfInterval({ start: parseISO(from), end: parseISO(to) }).forEach((month) => {
+    const key = format(month, 'yyyy-MM');
+    months.set(key, emptyGroup(key, format(month, 'MMM yyyy')));
+  });
+
+  payments.filter((payment) => !payment.voided_at).forEach((payment) => {
+    const key = format(new Date(payment.payment_date), 'yyyy-MM');
+    const group = months.get(key);
+    if (group) addPayment(group, payment);
+  });
+
+  return Array.from(months.values());
+}
+
+/**
+ * Collections per branch or per package type, largest first. Payments use the package
+ * of the cycle they were made for, falling back to the student's current package.
+ */
+export function groupRevenue(payments: RevenuePayment[], by: 'branch' | 'package', branchNames: Map<string, string>) {
+  const groups = new Map<string, RevenueGroup>();
+
+  payments.filter((payment) => !payment.voided_at).forEach((payment) => {
+    let key: string;
+    let label: string;
+    if (by === 'branch') {
+      key = payment.students?.branch_id || 'unassigned';
+      label = branchNames.get(key) || 'No branch';
+    } else {
+      key = payment.student_package_history?.package_type || payment.students?.package_type || 'none';
+      label = key === 'none' ? 'No package' : key;
+    }
+    if (!groups.has(key)) groups.set(key, emptyGroup(key, label));
+    addPayment(groups.get(key)!, payment);
+  });
+
+  return Array.from(groups.values()).sort((a, b) => b.net - a.net);
+}
+
+/**
+ * Everything still owed as of a date: package balances aged from enrollment
+ * and unpaid extra charges aged from the charge date, oldest first.
+ * The package balance is the fee left after the downpayment and balance payments,
+ * charges are left out of it since each one is listed on its own.
+ */
+export function buildReceivables(
+  students: ReceivableStudent[],
+  balances: ReceivableBalance[],
+  charges: UnpaidCharge[],
+  asOf: Date = new Date()
+) {
+  const receivables: Receivable[] = [];
+  const packageBalances = new Map(balances.map((balance) => [
+    balance.student_id,
+    (Number(balance.total_training_fee) || 0) - (Number(balance.downpayment) || 0) - (Number(balance.balance_payments) || 0),
+  ]));
+
+  students.forEach((student) => {
+    const amount = Math.round((packageBalances.get(student.id) ?? 0) * 100) / 100;
+    if (amount <= 0) return;
+    const since = student.enrollment_date || student.created_at;
+    const days = Math.max(0, differenceInCalendarDays(asOf, new Date(since)));
+    receivables.push({
+      key: `balance-${student.id}`,
+      source: 'balance',
+      studentId: student.id,
+      studentName: student.name,
+      branchId: student.branch_id,
+      description: 'Package balance',
+      amount,
+      since,
+      days,
+      bucket: getAgingBucket(days),
+    });
+  });
+
+  charges.forEach((charge) => {
+    const amount = (Number(charge.amount) || 0) - (Number(charge.paid_amount) || 0);
+    if (amount <= 0) return;
+    const days = Math.max(0, differenceInCalendarDays(asOf, new Date(charge.charge_date)));
+    receivables.push({
+      key: `charge-${charge.id}`,
+      source: 'charge',
+      studentId: charge.student_id,
+      studentName: charge.students?.name || 'Unknown',
+      branchId: charge.students?.branch_id || null,
+      description: charge.description || charge.charge_type,
+      amount,
+      since: charge.charge_date,
+      days,
+      bucket: getAgingBucket(days),
+    });
+  });
+
+  return receivables.sort((a, b) => b.days - a.days);
+}
+
+export function summarizeAging(receivables: Receivable[]) {
+  return AGING_BUCKETS.map((bucket) => {
+    const rows = receivables.filter((receivable) => receivable.bucket === bucket);
+    return {
+      bucket,
+      label: `${bucket} days`,
+      balances: rows.filter((row) => row.source === 'balance').reduce((sum, row) => sum + row.amount, 0),
+      charges: rows.filter((row) => row.source === 'charge').reduce((sum, row) => sum + row.amount, 0),
+      count: rows.length,
+    };
+  });
+}
@@ -0,0 +1,44 @@
+export interface DeviceLocation {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+}
+
+export type PunchLocationFlag = 'out_of_range' | 'no_location';
+export type LocationReviewStatus = 'pending' | 'approved' | 'rejected';
+
+/**
+ * Current position of the device, or null when location is unsupported, denied or times out.
+ * A punch without a location is still recorded and flagged for review.
+ */
+export function getDeviceLocation(timeoutMs = 10000): Promise<DeviceLocation | null> {
+  if (typeof navigator === 'undefined' || !navigator.geolocation) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      }),
+      (error) => {
+        console.error('Geolocation error:', error.message);
+        resolve(null);
+      },
+      { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 0 }
+    );
+  });
+}
+
+export function formatDistance(meters: number | null | undefined) {
+  if (meters === null || meters === undefined) return 'Unknown distance';
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters)} m`;
+}
+
+export function describePunchLocationFlag(flag: string | null | undefined, distance?: number | null) {
+  if (flag === 'no_location') return 'No location shared';
+  if (flag === 'out_of_range') return `${formatDistance(distance)} from branch`;
+  return null;
+}
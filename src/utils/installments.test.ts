@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { buildInstallmentSchedule, getInstallmentStatus } from './installments';
+
+describe('buildInstallmentSchedule', () => {
+  it('puts the rounding remainder on the last installment', () => {
+    const schedule = buildInstallmentSchedule(1000, 3, new Date('2026-10-19T00:00:00'), 'monthly');
+
+    expect(schedule.map((installment) => installment.amount)).toEqual([333.33, 333.33, 333.34]);
+    expect(schedule.reduce((sum, installment) => sum + installment.amount, 0)).toBeCloseTo(1000, 2);
+  });
+
+  it('spaces due dates by the frequency', () => {
+    const firstDueDate = new Date('2026-01-31T00:00:00');
+
+    expect(buildInstallmentSchedule(300, 3, firstDueDate, 'weekly').map((i) => i.due_date))
+      .toEqual(['2026-01-31', '2026-02-07', '2026-02-14']);
+    expect(buildInstallmentSchedule(300, 3, firstDueDate, 'biweekly').map((i) => i.due_date))
+      .toEqual(['2026-01-31', '2026-02-14', '2026-02-28']);
+    // A month without the 31st falls back to its last day
+    expect(buildInstallmentSchedule(300, 3, firstDueDate, 'monthly').map((i) => i.due_date))
+      .toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('plans nothing without a balance or a count', () => {
+    expect(buildInstallmentSchedule(0, 3, new Date(), 'monthly')).toEqual([]);
+    expect(buildInstallmentSchedule(500, 0, new Date(), 'monthly')).toEqual([]);
+  });
+});
+
+describe('getInstallmentStatus', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T12:00:00'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('treats a fully paid installment as paid even after its due date', () => {
+    expect(getInstallmentStatus({ amount: 500, paid_amount: 500, due_date: '2026-10-01' })).toBe('paid');
+  });
+
+  it('marks an unpaid or partly paid installment past its due date as overdue', () => {
+    expect(getInstallmentStatus({ amount: 500, paid_amount: 0, due_date: '2026-10-18' })).toBe('overdue');
+    expect(getInstallmentStatus({ amount: 500, paid_amount: 200, due_date: '2026-10-18' })).toBe('overdue');
+  });
+
+  it('tells partial and upcoming installments apart until they are due', () => {
+    expect(getInstallmentStatus({ amount: 500, paid_amount: 200, due_date: '2026-10-19' })).toBe('partial');
+    expect(getInstallmentStatus({ amount: 500, paid_amount: 0, due_date: '2026-11-01' })).toBe('upcoming');
+  });
+});
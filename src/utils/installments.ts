@@ -0,0 +1,47 @@
+import { addMonths, addWeeks, format } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type StudentInstallment = Tables<'student_installments'>;
+
+export type InstallmentFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+export type InstallmentStatus = 'paid' | 'partial' | 'overdue' | 'upcoming';
+
+export interface PlannedInstallment {
+  amount: number;
+  due_date: string;
+}
+
+/**
+ * Split `balance` into `count` installments, putting the rounding remainder on the last one
+ */
+export function buildInstallmentSchedule(
+  balance: number,
+  count: number,
+  firstDueDate: Date,
+  frequency: InstallmentFrequency
+): PlannedInstallment[] {
+  if (balance <= 0 || count <= 0) return [];
+
+  const baseCents = Math.floor(Math.round(balance * 100) / count);
+  const remainderCents = Math.round(balance * 100) - baseCents * count;
+
+  return Array.from({ length: count }, (_, index) => {
+    const dueDate =
+      frequency === 'monthly' ? addMonths(firstDueDate, index) :
+      frequency === 'biweekly' ? addWeeks(firstDueDate, index * 2) :
+      addWeeks(firstDueDate, index);
+    const cents = baseCents + (index === count - 1 ? remainderCents : 0);
+    return {
+      amount: cents / 100,
+      due_date: format(dueDate, 'yyyy-MM-dd'),
+    };
+  });
+}
+
+export function getInstallmentStatus(installment: Pick<StudentInstallment, 'amount' | 'paid_amount' | 'due_date'>): InstallmentStatus {
+  if (installment.paid_amount >= installment.amount) return 'paid';
+  if (installment.due_date < format(new Date(), 'yyyy-MM-dd')) return 'overdue';
+  if (installment.paid_amount > 0) return 'partial';
+  return 'upcoming';
+}
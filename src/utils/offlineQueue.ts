@@ -0,0 +1,114 @@
+const DB_NAME = 'takeover-offline';
+const DB_VERSION = 1;
+const STORE = 'changes';
+
+interface QueuedChangeBase {
+  id?: number;
+  userId: string;
+  sessionId: string;
+  label: string;
+  queuedAt: string;
+  values: Record<string, unknown>;
+}
+
+/**
+ * A student's attendance marked while offline. `base` is the row as the coach last saw it,
+ * so the replay can tell whether somebody else changed it in the meantime.
+ */
+export interface QueuedAttendanceChange extends QueuedChangeBase {
+  kind: 'attendance';
+  recordId: string;
+  studentId: string;
+  base: { status: string; marked_at: string | null };
+  needsPackageCycle: boolean;
+}
+
+/**
+ * A coach's time in or time out punched while offline
+ */
+export interface QueuedCoachPunch extends QueuedChangeBase {
+  kind: 'coach_punch';
+  coachId: string;
+  field: 'time_in' | 'time_out';
+}
+
+export type QueuedChange = QueuedAttendanceChange | QueuedCoachPunch;
+
+type NewQueuedChange =
+  | Omit<QueuedAttendanceChange, 'id' | 'queuedAt'>
+  | Omit<QueuedCoachPunch, 'id' | 'queuedAt'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Offline storage is not supported on this device'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>) {
+  return openDb().then((db) => new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  }));
+}
+
+/**
+ * Changes in the order they were made
+ */
+export async function listQueuedChanges() {
+  const changes = await run<QueuedChange[]>('readonly', (store) => store.getAll());
+  return changes.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+/**
+ * Queues a change, replacing an older queued change to the same attendance record or punch
+ * since only the latest one needs to reach the server
+ */
+export async function addQueuedChange(change: NewQueuedChange) {
+  const existing = (await listQueuedChanges()).find((queued) =>
+    queued.kind === change.kind &&
+    (change.kind === 'attendance'
+      ? (queued as QueuedAttendanceChange).recordId === change.recordId
+      : (queued as QueuedCoachPunch).sessionId === change.sessionId &&
+        (queued as QueuedCoachPunch).coachId === change.coachId &&
+        (queued as QueuedCoachPunch).field === change.field)
+  );
+
+  const entry = {
+    ...change,
+    // Keep what the coach originally saw so conflicts are still detected against the server
+    ...(existing?.kind === 'attendance' && change.kind === 'attendance' ? { base: existing.base } : {}),
+    queuedAt: new Date().toISOString(),
+  } as QueuedChange;
+
+  if (existing?.id !== undefined) {
+    entry.id = existing.id;
+  }
+  await run('readwrite', (store) => store.put(entry));
+}
+
+export function removeQueuedChange(id: number) {
+  return run('readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { QueuedAttendanceChange, QueuedChange, QueuedCoachPunch } from './offlineQueue';
+
+// What the fake Supabase returns and records. Tables map to the row a lookup finds,
+// or to an error the lookup throws.
+const server = vi.hoisted(() => ({
+  queue: [] as QueuedChange[],
+  rows: {} as Record<string, unknown>,
+  lookupError: null as unknown,
+  packageHistoryCount: 0,
+  writes: [] as Array<{ table: string; values: Record<string, unknown> }>,
+}));
+
+vi.mock('./offlineQueue', () => ({
+  addQueuedChange: vi.fn(),
+  listQueuedChanges: vi.fn(async () => [...server.queue]),
+  removeQueuedChange: vi.fn(async (id: number) => {
+    server.queue = server.queue.filter((change) => change.id !== id);
+  }),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    auth: {
+      getSession: async () => ({ data: { session: { user: { id: 'user-1' } } } }),
+    },
+    from: (table: string) => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: async () => {
+          if (server.lookupError) throw server.lookupError;
+          return { data: server.rows[table] ?? null, error: null };
+        },
+        // Head-only count of student_package_history
+        then: (resolve: (result: { count: number; error: null }) => void) =>
+          resolve({ count: server.packageHistoryCount, error: null }),
+        update: (values: Record<string, unknown>) => ({
+          eq: async () => {
+            server.writes.push({ table, values });
+            return { error: null };
+          },
+        }),
+        upsert: async (values: Record<string, unknown>) => {
+          server.writes.push({ table, values });
+          return { error: null };
+        },
+      };
+      return query;
+    },
+  },
+}));
+
+import { clearSyncConflicts, flushOfflineQueue, getOfflineSyncState } from './offlineSync';
+
+const attendanceChange = (overrides: Partial<QueuedAttendanceChange>): QueuedAttendanceChange => ({
+  id: 1,
+  kind: 'attendance',
+  userId: 'user-1',
+  sessionId: 'session-1',
+  label: 'Juan Dela Cruz, Oct 19',
+  queuedAt: '2026-10-19T10:30:00Z',
+  recordId: 'record-1',
+  studentId: 'student-1',
+  base: { status: 'pending', marked_at: null },
+  needsPackageCycle: false,
+  values: { status: 'present', marked_at: '2026-10-19T10:30:00Z' },
+  ...overrides,
+});
+
+const punch = (overrides: Partial<QueuedCoachPunch>): QueuedCoachPunch => ({
+  id: 1,
+  kind: 'coach_punch',
+  userId: 'user-1',
+  sessionId: 'session-1',
+  label: 'Time in, Oct 19',
+  queuedAt: '2026-10-19T09:00:00Z',
+  coachId: 'coach-1',
+  field: 'time_in',
+  values: { time_in: '2026-10-19T09:00:00Z' },
+  ...overrides,
+});
+
+const resolutions = () => getOfflineSyncState().conflicts.map((conflict) => conflict.resolution);
+
+beforeEach(() => {
+  server.queue = [];
+  server.rows = {};
+  server.lookupError = null;
+  server.packageHistoryCount = 0;
+  server.writes = [];
+  clearSyncConflicts();
+});
+
+describe('flushOfflineQueue attendance', () => {
+  it('saves the mark when nobody changed the record meanwhile', async () => {
+    server.queue = [attendanceChange({ needsPackageCycle: true })];
+    server.rows.attendance_records = { id: 'record-1', status: 'pending', marked_at: null, package_cycle: null };
+    server.packageHistoryCount = 2;
+
+    await flushOfflineQueue();
+
+    expect(server.writes).toEqual([{
+      table: 'attendance_records',
+      values: { status: 'present', marked_at: '2026-10-19T10:30:00Z', package_cycle: 3 },
+    }]);
+    expect(resolutions()).toEqual([]);
+    expect(server.queue).toEqual([]);
+  });
+
+  it('keeps a newer mark somebody else saved', async () => {
+    server.queue = [attendanceChange({})];
+    server.rows.attendance_records = { id: 'record-1', status: 'absent', marked_at: '2026-10-19T11:00:00Z', package_cycle: 1 };
+
+    await flushOfflineQueue();
+
+    expect(server.writes).toEqual([]);
+    expect(resolutions()).toEqual(['Kept the newer absent mark saved by someone else']);
+    expect(server.queue).toEqual([]);
+  });
+
+  it('replaces an older mark somebody else saved', async () => {
+    server.queue = [attendanceChange({})];
+    server.rows.attendance_records = { id: 'record-1', status: 'absent', marked_at: '2026-10-19T10:15:00Z', package_cycle: 1 };
+
+    await flushOfflineQueue();
+
+    expect(server.writes).toHaveLength(1);
+    expect(resolutions()).toEqual(['Replaced an older absent mark with your present mark']);
+  });
+
+  it('discards the mark of a player removed from the session', async () => {
+    server.queue = [attendanceChange({})];
+
+    await flushOfflineQueue();
+
+    expect(server.writes).toEqual([]);
+    expect(resolutions()).toEqual(['Discarded, the player was removed from the session']);
+  });
+});
+
+describe('flushOfflineQueue coach punches', () => {
+  it('keeps a punch already recorded on the server', async () => {
+    server.queue = [punch({})];
+    server.rows.coach_session_times = { id: 'times-1', time_in: '2026-10-19T08:55:00Z', time_out: null };
+
+    await flushOfflineQueue();
+
+    expect(server.writes).toEqual([]);
+    expect(resolutions()).toEqual(['Kept the time in already recorded on the server']);
+  });
+
+  it('completes the session with an offline time out', async () => {
+    server.queue = [punch({ field: 'time_out', values: { time_out: '2026-10-19T11:00:00Z' } })];
+    server.rows.coach_session_times = { id: 'times-1', time_in: '2026-10-19T09:00:00Z', time_out: null };
+
+    await flushOfflineQueue();
+
+    expect(server.writes).toEqual([
+      { table: 'coach_session_times', values: { session_id: 'session-1', coach_id: 'coach-1', time_out: '2026-10-19T11:00:00Z' } },
+      { table: 'training_sessions', values: { status: 'completed' } },
+    ]);
+  });
+});
+
+describe('flushOfflineQueue failures', () => {
+  let consoleError: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleError.mockRestore();
+  });
+
+  it('keeps the queue while the network is down', async () => {
+    server.queue = [attendanceChange({ id: 1 }), attendanceChange({ id: 2 })];
+    server.lookupError = new TypeError('Failed to fetch');
+
+    await flushOfflineQueue();
+
+    expect(server.queue.map((change) => change.id)).toEqual([1, 2]);
+    expect(getOfflineSyncState().lastError).toBe('Waiting for a connection');
+    expect(resolutions()).toEqual([]);
+  });
+
+  it('drops a change the server rejects and reports why', async () => {
+    server.queue = [attendanceChange({})];
+    server.lookupError = { message: 'permission denied for table attendance_records' };
+
+    await flushOfflineQueue();
+
+    expect(server.queue).toEqual([]);
+    expect(resolutions()).toEqual(['Not saved: permission denied for table attendance_records']);
+  });
+
+  it('leaves changes queued by another user alone', async () => {
+    server.queue = [attendanceChange({ userId: 'user-2' })];
+
+    await flushOfflineQueue();
+
+    expect(server.queue).toHaveLength(1);
+    expect(server.writes).toEqual([]);
+  });
+});
@@ -0,0 +1,338 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  addQueuedChange,
+  listQueuedChanges,
+  removeQueuedChange,
+  type QueuedAttendanceChange,
+  type QueuedCoachPunch,
+} from './offlineQueue';
+
+export interface SyncConflict {
+  label: string;
+  resolution: string;
+  at: string;
+}
+
+export interface OfflineSyncState {
+  online: boolean;
+  pending: number;
+  syncing: boolean;
+  lastSyncedAt: string | null;
+  lastError: string | null;
+  conflicts: SyncConflict[];
+}
+
+const SYNC_TAG = 'offline-queue';
+const RETRY_INTERVAL_MS = 60000;
+
+let state: OfflineSyncState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  pending: 0,
+  syncing: false,
+  lastSyncedAt: null,
+  lastError: null,
+  conflicts: [],
+};
+const listeners = new Set<() => void>();
+let flushPromise: Promise<void> | null = null;
+let activeQueryClient: QueryClient | null = null;
+
+function setState(patch: Partial<OfflineSyncState>) {
+  state = { ...state, ...patch };
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeOfflineSync(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getOfflineSyncState() {
+  return state;
+}
+
+export function clearSyncConflicts() {
+  setState({ conflicts: [] });
+}
+
+/**
+ * True for failures where the request never reached Supabase, as opposed to errors it returned
+ */
+export function isNetworkError(error: unknown) {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = (error as Error)?.message || '';
+  return error instanceof TypeError || /failed to fetch|network ?error|load failed|networkerror/i.test(message);
+}
+
+async function refreshPending() {
+  try {
+    const changes = await listQueuedChanges();
+    setState({ pending: changes.length });
+  } catch (error) {
+    console.error('Offline queue error:', error);
+  }
+}
+
+interface SyncManagerRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+// Lets the service worker wake the app up to sync once the device is back online
+function requestBackgroundSync() {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.ready
+    .then((registration) => (registration as SyncManagerRegistration).sync?.register(SYNC_TAG))
+    .catch((error) => console.log('Background sync unavailable:', error));
+}
+
+async function currentUserId() {
+  const { data } = await supabase.auth.getSession();
+  return data.session?.user.id ?? null;
+}
+
+export async function queueAttendanceChange(change: Omit<QueuedAttendanceChange, 'kind' | 'userId' | 'id' | 'queuedAt'>) {
+  const userId = await currentUserId();
+  if (!userId) throw new Error('You need to be logged in to save attendance offline');
+  await addQueuedChange({ ...change, kind: 'attendance', userId });
+  await refreshPending();
+  requestBackgroundSync();
+}
+
+export async function queueCoachPunch(change: Omit<QueuedCoachPunch, 'kind' | 'userId' | 'id' | 'queuedAt'>) {
+  const userId = await currentUserId();
+  if (!userId) throw new Error('You need to be logged in to save punches offline');
+  await addQueuedChange({ ...change, kind: 'coach_punch', userId });
+  await refreshPending();
+  requestBackgroundSync();
+}
+
+/**
+ * Attendance rows of a session with the queued offline changes applied on top, so the
+ * roster keeps showing what the coach marked even when it comes from the cache
+ */
+export async function applyQueuedAttendance<T extends { id: string }>(sessionId: string, rows: T[]) {
+  try {
+    const changes = (await listQueuedChanges()).filter(
+      (change): change is QueuedAttendanceChange => change.kind === 'attendance' && change.sessionId === sessionId
+    );
+    if (changes.length === 0) return rows;
+    return rows.map((row) => {
+      const change = changes.find((queued) => queued.recordId === row.id);
+      return change ? { ...row, ...change.values, pending_sync: true } : row;
+    });
+  } catch (error) {
+    console.error('Offline queue error:', error);
+    return rows;
+  }
+}
+
+/**
+ * A coach's punch row for a session with queued offline punches applied
+ */
+export async function applyQueuedCoachPunches<T extends Record<string, unknown>>(sessionId: string, coachId: string, row: T | null) {
+  try {
+    const changes = (await listQueuedChanges()).filter(
+      (change): change is QueuedCoachPunch =>
+        change.kind === 'coach_punch' && change.sessionId === sessionId && change.coachId === coachId
+    );
+    if (changes.length === 0) return row;
+    return changes.reduce<Record<string, unknown>>(
+      (merged, change) => ({ ...merged, ...change.values, pending_sync: true }),
+      { session_id: sessionId, coach_id: coachId, time_in: null, time_out: null, ...(row || {}) }
+    ) as unknown as T;
+  } catch (error) {
+    console.error('Offline queue error:', error);
+    return row;
+  }
+}
+
+type ReplayOutcome = { conflict?: string };
+
+/**
+ * Latest mark wins: if somebody else marked the record after the coach did, their change is kept
+ */
+async function replayAttendance(change: QueuedAttendanceChange): Promise<ReplayOutcome> {
+  const { data: current, error } = await supabase
+    .from('attendance_records')
+    .select('id, status, marked_at, package_cycle')
+    .eq('id', change.recordId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!current) {
+    return { conflict: 'Discarded, the player was removed from the session' };
+  }
+
+  const changedMeanwhile = current.status !== change.base.status || current.marked_at !== change.base.marked_at;
+  const ourMarkedAt = (change.values.marked_at as string | null) ?? change.queuedAt;
+  if (changedMeanwhile && current.status !== change.values.status) {
+    if (current.marked_at && new Date(current.marked_at) > new Date(ourMarkedAt)) {
+      return { conflict: `Kept the newer ${current.status} mark saved by someone else` };
+    }
+  }
+
+  const values: Record<string, unknown> = { ...change.values };
+  if (change.needsPackageCycle && current.package_cycle == null) {
+    const { count } = await supabase
+      .from('student_package_history')
+      .select('id', { count: 'exact', head: true })
+      .eq('student_id', change.studentId);
+    values.package_cycle = (count || 0) + 1;
+  }
+
+  const { error: updateError } = await supabase
+    .from('attendance_records')
+    .update(values)
+    .eq('id', change.recordId);
+  if (updateError) throw updateError;
+
+  return changedMeanwhile && current.status !== change.values.status
+    ? { conflict: `Replaced an older ${current.status} mark with your ${change.values.status} mark` }
+    : {};
+}
+
+/**
+ * A punch an admin already entered for the same session is kept over the offline one
+ */
+async function replayCoachPunch(change: QueuedCoachPunch): Promise<ReplayOutcome> {
+  const { data: current, error } = await supabase
+    .from('coach_session_times')
+    .select('id, time_in, time_out')
+    .eq('session_id', change.sessionId)
+    .eq('coach_id', change.coachId)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (current?.[change.field]) {
+    return { conflict: `Kept the ${change.field === 'time_in' ? 'time in' : 'time out'} already recorded on the server` };
+  }
+
+  const { error: upsertError } = await supabase
+    .from('coach_session_times')
+    .upsert(
+      { session_id: change.sessionId, coach_id: change.coachId, ...change.values },
+      { onConflict: 'session_id,coach_id' }
+    );
+  if (upsertError) throw upsertError;
+
+  if (change.field === 'time_out') {
+    const { error: sessionError } = await supabase
+      .from('training_sessions')
+      .update({ status: 'completed' })
+      .eq('id', change.sessionId);
+    if (sessionError) throw sessionError;
+  }
+  return {};
+}
+
+async function runFlush() {
+  const userId = await currentUserId();
+  const changes = (await listQueuedChanges()).filter((change) => change.userId === userId);
+  if (changes.length === 0) {
+    await refreshPending();
+    return;
+  }
+
+  setState({ syncing: true, lastError: null });
+  const conflicts: SyncConflict[] = [];
+  let applied = 0;
+
+  for (const change of changes) {
+    try {
+      const outcome = change.kind === 'attendance'
+        ? await replayAttendance(change)
+        : await replayCoachPunch(change);
+      if (outcome.conflict) {
+        conflicts.push({ label: change.label, resolution: outcome.conflict, at: new Date().toISOString() });
+      }
+      await removeQueuedChange(change.id as number);
+      applied++;
+    } catch (error) {
+      console.error('Offline sync error:', error);
+      if (isNetworkError(error)) {
+        // Still offline, keep the rest of the queue for the next attempt
+        setState({ lastError: 'Waiting for a connection' });
+        break;
+      }
+      // The server rejected the change, drop it and report why instead of retrying forever
+      await removeQueuedChange(change.id as number);
+      conflicts.push({ label: change.label, resolution: `Not saved: ${(error as Error).message}`, at: new Date().toISOString() });
+    }
+  }
+
+  setState({
+    syncing: false,
+    lastSyncedAt: applied > 0 ? new Date().toISOString() : state.lastSyncedAt,
+    conflicts: [...conflicts, ...state.conflicts].slice(0, 20),
+  });
+  await refreshPending();
+
+  if (applied > 0 && activeQueryClient) {
+    activeQueryClient.invalidateQueries({ queryKey: ['attendance'] });
+    activeQueryClient.invalidateQueries({ queryKey: ['coach-attendance'] });
+    activeQueryClient.invalidateQueries({ queryKey: ['coach-session-times'] });
+    activeQueryClient.invalidateQueries({ queryKey: ['coach-sessions'] });
+    activeQueryClient.invalidateQueries({ queryKey: ['students'] });
+  }
+}
+
+/**
+ * Replays queued changes once. Concurrent calls share the same run.
+ */
+export function flushOfflineQueue() {
+  if (!state.online) return Promise.resolve();
+  if (!flushPromise) {
+    flushPromise = runFlush()
+      .catch((error) => {
+        console.error('Offline sync error:', error);
+        setState({ syncing: false, lastError: (error as Error).message });
+      })
+      .finally(() => {
+        flushPromise = null;
+      });
+  }
+  return flushPromise;
+}
+
+/**
+ * Tells the service worker to forget cached API responses, e.g. when the user logs out
+ */
+export function clearOfflineApiCache() {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.controller?.postMessage({ type: 'clear-api-cache' });
+}
+
+/**
+ * Starts watching connectivity and replaying the queue. Returns a cleanup function.
+ */
+export function initOfflineSync(queryClient: QueryClient) {
+  activeQueryClient = queryClient;
+
+  const handleOnline = () => {
+    setState({ online: true });
+    flushOfflineQueue();
+  };
+  const handleOffline = () => setState({ online: false });
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'flush-offline-queue') flushOfflineQueue();
+  };
+
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  navigator.serviceWorker?.addEventListener('message', handleMessage);
+  const interval = window.setInterval(() => {
+    if (state.pending > 0) flushOfflineQueue();
+  }, RETRY_INTERVAL_MS);
+
+  refreshPending().then(() => flushOfflineQueue());
+
+  return () => {
+    window.removeEventListener('online', handleOnline);
+    window.removeEventListener('offline', handleOffline);
+    navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    window.clearInterval(interval);
+    activeQueryClient = null;
+  };
+}
@@ -0,0 +1,53 @@
+import { addDays, addMonths } from 'date-fns';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type CatalogPackage = Pick<
+  Tables<'packages'>,
+  'id' | 'name' | 'is_active' | 'price' | 'sessions' | 'validity_days' | 'allowed_branch_ids' | 'is_duration_based' | 'version'
+>;
+
+export const CATALOG_PACKAGE_COLUMNS =
+  'id, name, is_active, price, sessions, validity_days, allowed_branch_ids, is_duration_based, version';
+
+/**
+ * A package with no branch restriction can be sold everywhere
+ */
+export function isPackageAvailableAtBranch(pkg: CatalogPackage, branchId: string | null) {
+  if (!pkg.allowed_branch_ids || pkg.allowed_branch_ids.length === 0) return true;
+  return !!branchId && pkg.allowed_branch_ids.includes(branchId);
+}
+
+/**
+ * Expiration date for an enrollment starting on `start`, falling back to one month
+ * when the package has no validity configured
+ */
+export function getPackageExpirationDate(pkg: CatalogPackage | undefined, start: Date) {
+  return pkg?.validity_days ? addDays(start, pkg.validity_days) : addMonths(start, 1);
+}
+
+/**
+ * Catalog terms stored with an enrollment so later catalog edits don't change what was sold
+ */
+export function buildPackageSnapshot(pkg: CatalogPackage): Json {
+  return {
+    package_id: pkg.id,
+    version: pkg.version,
+    name: pkg.name,
+    price: pkg.price,
+    sessions: pkg.sessions,
+    validity_days: pkg.validity_days,
+    allowed_branch_ids: pkg.allowed_branch_ids,
+    is_duration_based: pkg.is_duration_based,
+  };
+}
+
+/**
+ * Whether attendance of a student is billed by duration, falling back to the
+ * "Personal Training" name check for students not linked to a catalog package
+ */
+export function isDurationBasedStudent(
+  student: { package_type: string | null; packages?: { is_duration_based: boolean } | null } | null | undefined
+) {
+  if (student?.packages) return student.packages.is_duration_based;
+  return (student?.package_type?.toLowerCase() || '').includes('personal');
+}
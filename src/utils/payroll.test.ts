@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { formatCoachRate, summarizeCoachPayroll, summarizePayroll, type PayrollAdjustment, type PayrollLine } from './payroll';
+
+const line = (overrides: Partial<PayrollLine>): PayrollLine => ({
+  id: 'line',
+  period_id: 'period-1',
+  coach_id: 'coach-1',
+  session_id: 'session',
+  session_date: '2026-10-01',
+  package_type: 'Group',
+  status: 'present',
+  time_in: null,
+  time_out: null,
+  hours: 0,
+  rate_type: 'per_session',
+  rate: 500,
+  amount: 500,
+  created_at: '2026-10-19T00:00:00Z',
+  ...overrides,
+});
+
+const adjustment = (overrides: Partial<PayrollAdjustment>): PayrollAdjustment => ({
+  id: 'adjustment',
+  period_id: 'period-1',
+  coach_id: 'coach-1',
+  kind: 'adjustment',
+  amount: 0,
+  description: 'Adjustment',
+  created_by: null,
+  created_at: '2026-10-19T00:00:00Z',
+  ...overrides,
+});
+
+describe('summarizeCoachPayroll', () => {
+  it('pays present sessions, subtracts absences and applies adjustments', () => {
+    const lines = [
+      line({ id: 'line-1', hours: 1.5, amount: 500 }),
+      line({ id: 'line-2', hours: 2, amount: 500 }),
+      // Absence lines carry the deduction as a negative amount
+      line({ id: 'line-3', status: 'absent', amount: -200 }),
+      line({ id: 'line-4', status: 'pending', amount: 0 }),
+      line({ id: 'line-5', coach_id: 'coach-2', amount: 800 }),
+    ];
+    const adjustments = [
+      adjustment({ id: 'adjustment-1', kind: 'adjustment', amount: 300 }),
+      adjustment({ id: 'adjustment-2', kind: 'deduction', amount: 100 }),
+      adjustment({ id: 'adjustment-3', coach_id: 'coach-2', kind: 'deduction', amount: 50 }),
+    ];
+
+    expect(summarizeCoachPayroll('coach-1', lines, adjustments)).toEqual({
+      coach_id: 'coach-1',
+      sessions: 2,
+      hours: 3.5,
+      absences: 1,
+      pending: 1,
+      gross: 1000,
+      absence_deductions: 200,
+      adjustments: 300,
+      deductions: 100,
+      net: 1000,
+    });
+  });
+
+  it('reads numeric columns that arrive as strings', () => {
+    const lines = [line({ amount: '750.50' as unknown as number, hours: '1.25' as unknown as number })];
+
+    expect(summarizeCoachPayroll('coach-1', lines, [])).toMatchObject({ gross: 750.5, hours: 1.25, net: 750.5 });
+  });
+});
+
+describe('summarizePayroll', () => {
+  it('includes coaches who only have adjustments', () => {
+    const summaries = summarizePayroll(
+      [line({ coach_id: 'coach-1' })],
+      [adjustment({ coach_id: 'coach-2', kind: 'adjustment', amount: 250 })]
+    );
+
+    expect(summaries.map((summary) => [summary.coach_id, summary.net])).toEqual([
+      ['coach-1', 500],
+      ['coach-2', 250],
+    ]);
+  });
+});
+
+describe('formatCoachRate', () => {
+  it('shows the amount with its unit', () => {
+    expect(formatCoachRate({ rate_type: 'hourly', amount: 350 })).toBe('₱350.00 / hour');
+    expect(formatCoachRate({ rate_type: 'per_session', amount: 500 })).toBe('₱500.00 / session');
+  });
+});
@@ -0,0 +1,75 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CoachRate = Tables<'coach_rates'>;
+export type PayrollPeriod = Tables<'payroll_periods'>;
+export type PayrollLine = Tables<'payroll_lines'>;
+export type PayrollAdjustment = Tables<'payroll_adjustments'>;
+
+export type CoachRateType = 'per_session' | 'hourly';
+export type PayrollAdjustmentKind = 'adjustment' | 'deduction';
+
+export interface CoachPayrollSummary {
+  coach_id: string;
+  sessions: number;
+  hours: number;
+  absences: number;
+  pending: number;
+  gross: number;
+  absence_deductions: number;
+  adjustments: number;
+  deductions: number;
+  net: number;
+}
+
+export function formatCoachRate(rate: Pick<CoachRate, 'rate_type' | 'amount'>) {
+  return `₱${Number(rate.amount).toFixed(2)} / ${rate.rate_type === 'hourly' ? 'hour' : 'session'}`;
+}
+
+/**
+ * Totals of one coach: paid sessions and hours, absence deductions from the lines,
+ * then manual adjustments and deductions on top
+ */
+export function summarizeCoachPayroll(
+  coachId: string,
+  lines: PayrollLine[],
+  adjustments: PayrollAdjustment[]
+): CoachPayrollSummary {
+  const coachLines = lines.filter((line) => line.coach_id === coachId);
+  const coachAdjustments = adjustments.filter((adjustment) => adjustment.coach_id === coachId);
+  const presentLines = coachLines.filter((line) => line.status === 'present');
+
+  const gross = presentLines.reduce((sum, line) => sum + Number(line.amount), 0);
+  const absenceDeductions = coachLines
+    .filter((line) => line.status === 'absent')
+    .reduce((sum, line) => sum - Number(line.amount), 0);
+  const added = coachAdjustments
+    .filter((adjustment) => adjustment.kind === 'adjustment')
+    .reduce((sum, adjustment) => sum + Number(adjustment.amount), 0);
+  const deducted = coachAdjustments
+    .filter((adjustment) => adjustment.kind === 'deduction')
+    .reduce((sum, adjustment) => sum + Number(adjustment.amount), 0);
+
+  return {
+    coach_id: coachId,
+    sessions: presentLines.length,
+    hours: presentLines.reduce((sum, line) => sum + Number(line.hours), 0),
+    absences: coachLines.filter((line) => line.status === 'absent').length,
+    pending: coachLines.filter((line) => line.status === 'pending').length,
+    gross,
+    absence_deductions: absenceDeductions,
+    adjustments: added,
+    deductions: deducted,
+    net: gross - absenceDeductions + added - deducted,
+  };
+}
+
+/**
+ * One summary per coach that has lines or adjustments in the period
+ */
+export function summarizePayroll(lines: PayrollLine[], adjustments: PayrollAdjustment[]) {
+  const coachIds = Array.from(new Set([
+    ...lines.map((line) => line.coach_id),
+    ...adjustments.map((adjustment) => adjustment.coach_id),
+  ]));
+  return coachIds.map((coachId) => summarizeCoachPayroll(coachId, lines, adjustments));
+}
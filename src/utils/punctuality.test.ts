@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { formatMinutes, groupPunctuality, summarizePunctuality, type CoachSessionPunctuality } from './punctuality';
+
+const row = (overrides: Partial<CoachSessionPunctuality>): CoachSessionPunctuality => ({
+  session_id: 'session',
+  session_date: '2026-10-01',
+  start_time: '09:00:00',
+  end_time: '10:00:00',
+  coach_id: 'coach-1',
+  coach_name: 'Coach Ana',
+  branch_id: 'branch-1',
+  branch_name: 'Makati',
+  time_in: null,
+  time_out: null,
+  arrival_status: null,
+  departure_status: null,
+  minutes_late: null,
+  minutes_early_leave: null,
+  attendance_status: null,
+  late_grace_minutes: 5,
+  early_leave_grace_minutes: 5,
+  ...overrides,
+});
+
+describe('summarizePunctuality', () => {
+  it('averages lateness over late arrivals and rates on-time over timed-in sessions', () => {
+    const summary = summarizePunctuality('coach-1', 'Coach Ana', [
+      row({ arrival_status: 'on_time' }),
+      row({ arrival_status: 'late', minutes_late: 10 }),
+      row({ arrival_status: 'late', minutes_late: 25, departure_status: 'early_leave', minutes_early_leave: 15 }),
+      // Never timed in: counts as a session but not towards the on-time rate
+      row({ attendance_status: 'absent' }),
+    ]);
+
+    expect(summary).toEqual({
+      key: 'coach-1',
+      label: 'Coach Ana',
+      sessions: 4,
+      timedIn: 3,
+      onTime: 1,
+      late: 2,
+      lateMinutes: 35,
+      averageMinutesLate: 18,
+      earlyLeaves: 1,
+      earlyLeaveMinutes: 15,
+      absences: 1,
+      onTimeRate: 33,
+    });
+  });
+
+  it('reports zero rates when nobody timed in', () => {
+    expect(summarizePunctuality('coach-1', 'Coach Ana', [row({})])).toMatchObject({
+      averageMinutesLate: 0,
+      onTimeRate: 0,
+    });
+  });
+});
+
+describe('groupPunctuality', () => {
+  const rows = [
+    row({ coach_id: 'coach-1', coach_name: 'Coach Ana', branch_id: 'branch-1', arrival_status: 'late', minutes_late: 5 }),
+    row({ coach_id: 'coach-2', coach_name: 'Coach Ben', branch_id: 'branch-1', arrival_status: 'late', minutes_late: 20 }),
+    row({ coach_id: 'coach-2', coach_name: 'Coach Ben', branch_id: 'branch-2', branch_name: 'Pasig', arrival_status: 'on_time' }),
+    row({ coach_id: null, coach_name: null, branch_id: null, branch_name: null, arrival_status: 'on_time' }),
+  ];
+
+  it('puts the coach with the most late minutes first when late counts tie', () => {
+    expect(groupPunctuality(rows, 'coach').map((summary) => [summary.key, summary.label, summary.late])).toEqual([
+      ['coach-2', 'Coach Ben', 1],
+      ['coach-1', 'Coach Ana', 1],
+      ['unknown', 'Unknown', 0],
+    ]);
+  });
+
+  it('groups by branch', () => {
+    expect(groupPunctuality(rows, 'branch').map((summary) => [summary.label, summary.sessions])).toEqual([
+      ['Makati', 2],
+      ['Pasig', 1],
+      ['Unknown', 1],
+    ]);
+  });
+});
+
+describe('formatMinutes', () => {
+  it('switches to hours from an hour on', () => {
+    expect(formatMinutes(45)).toBe('45 min');
+    expect(formatMinutes(60)).toBe('1h');
+    expect(formatMinutes(95)).toBe('1h 35m');
+  });
+});
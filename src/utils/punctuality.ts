@@ -0,0 +1,69 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CoachSessionPunctuality = Tables<'coach_session_punctuality'>;
+
+export interface PunctualitySummary {
+  key: string;
+  label: string;
+  sessions: number;
+  timedIn: number;
+  onTime: number;
+  late: number;
+  lateMinutes: number;
+  averageMinutesLate: number;
+  earlyLeaves: number;
+  earlyLeaveMinutes: number;
+  absences: number;
+  onTimeRate: number;
+}
+
+export function formatMinutes(minutes: number) {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+/**
+ * Totals of a set of coach sessions. Averages cover late arrivals only,
+ * the on-time rate covers sessions the coach timed in for.
+ */
+export function summarizePunctuality(key: string, label: string, rows: CoachSessionPunctuality[]): PunctualitySummary {
+  const timedIn = rows.filter((row) => row.arrival_status !== null);
+  const late = timedIn.filter((row) => row.arrival_status === 'late');
+  const earlyLeaves = rows.filter((row) => row.departure_status === 'early_leave');
+  const lateMinutes = late.reduce((sum, row) => sum + (row.minutes_late || 0), 0);
+
+  return {
+    key,
+    label,
+    sessions: rows.length,
+    timedIn: timedIn.length,
+    onTime: timedIn.length - late.length,
+    late: late.length,
+    lateMinutes,
+    averageMinutesLate: late.length > 0 ? Math.round(lateMinutes / late.length) : 0,
+    earlyLeaves: earlyLeaves.length,
+    earlyLeaveMinutes: earlyLeaves.reduce((sum, row) => sum + (row.minutes_early_leave || 0), 0),
+    absences: rows.filter((row) => row.attendance_status === 'absent').length,
+    onTimeRate: timedIn.length > 0 ? Math.round(((timedIn.length - late.length) / timedIn.length) * 100) : 0,
+  };
+}
+
+/**
+ * One summary per coach or per branch, most late arrivals first
+ */
+export function groupPunctuality(rows: CoachSessionPunctuality[], by: 'coach' | 'branch') {
+  const groups = new Map<string, { label: string; rows: CoachSessionPunctuality[] }>();
+  rows.forEach((row) => {
+    const key = (by === 'coach' ? row.coach_id : row.branch_id) || 'unknown';
+    const label = (by === 'coach' ? row.coach_name : row.branch_name) || 'Unknown';
+    const group = groups.get(key) || { label, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => summarizePunctuality(key, group.label, group.rows))
+    .sort((a, b) => b.late - a.late || b.lateMinutes - a.lateMinutes || a.label.localeCompare(b.label));
+}
@@ -0,0 +1,91 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export function isPushSupported() {
+  return typeof window !== 'undefined'
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+}
+
+// VAPID keys are base64url, PushManager wants the raw bytes
+function urlBase64ToUint8Array(base64String: string) {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = window.atob(base64);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+}
+
+async function getVapidPublicKey() {
+  const { data, error } = await supabase.functions.invoke('send-push-notification', {
+    body: { type: 'public_key' },
+  });
+  if (error) throw error;
+  if (!data?.publicKey) throw new Error(data?.error || 'Push notifications are not set up on the server');
+  return data.publicKey as string;
+}
+
+export async function getCurrentPushSubscription() {
+  if (!isPushSupported()) return null;
+  const registration = await navigator.serviceWorker.ready;
+  return registration.pushManager.getSubscription();
+}
+
+/**
+ * Asks for permission, subscribes this device and stores the subscription for the user
+ */
+export async function subscribeToPush(userId: string) {
+  if (!isPushSupported()) throw new Error('This browser does not support push notifications');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked, allow them in your browser settings');
+  }
+
+  const registration = await navigator.serviceWorker.ready;
+  let subscription = await registration.pushManager.getSubscription();
+  if (!subscription) {
+    subscription = await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(await getVapidPublicKey()),
+    });
+  }
+
+  const json = subscription.toJSON();
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert({
+      user_id: userId,
+      endpoint: subscription.endpoint,
+      p256dh: json.keys?.p256dh ?? '',
+      auth: json.keys?.auth ?? '',
+      user_agent: navigator.userAgent,
+    }, { onConflict: 'endpoint' });
+  if (error) throw error;
+
+  return subscription;
+}
+
+/**
+ * Stops notifications on this device only, other devices of the user keep theirs
+ */
+export async function unsubscribeFromPush() {
+  const subscription = await getCurrentPushSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', subscription.endpoint);
+  if (error) throw error;
+
+  await subscription.unsubscribe();
+}
+
+export async function sendTestPush() {
+  const { data, error } = await supabase.functions.invoke('send-push-notification', {
+    body: { type: 'test' },
+  });
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Failed to send test notification');
+  return data as { sent: number; failed: number };
+}
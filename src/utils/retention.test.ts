@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest';
+import {
+  attendanceTrend,
+  buildAttendanceFacts,
+  buildPackageCycles,
+  groupAttendance,
+  groupRetention,
+  summarizeAttendance,
+  type AnalyticsSession,
+  type AnalyticsStudent,
+  type PackageHistoryCycle,
+} from './retention';
+
+const today = new Date('2026-10-19T00:00:00');
+
+const sessions: AnalyticsSession[] = [
+  {
+    id: 'session-1',
+    date: '2026-10-13',
+    branch_id: 'branch-1',
+    package_type: 'Group',
+    session_coaches: [{ coach_id: 'coach-1' }, { coach_id: 'coach-2' }],
+    session_participants: [{ student_id: 'student-1' }, { student_id: 'student-2' }, { student_id: 'student-3' }],
+    attendance_records: [
+      { student_id: 'student-1', status: 'present' },
+      { student_id: 'student-2', status: 'late' },
+      // Marked, then taken off the roster
+      { student_id: 'student-4', status: 'absent' },
+    ],
+  },
+  {
+    id: 'session-2',
+    date: '2026-10-20',
+    branch_id: 'branch-2',
+    package_type: null,
+    session_coaches: [],
+    session_participants: [{ student_id: 'student-1' }],
+    attendance_records: [{ student_id: 'student-1', status: 'excused' }],
+  },
+];
+
+const student = (overrides: Partial<AnalyticsStudent>): AnalyticsStudent => ({
+  id: 'student',
+  name: 'Student',
+  branch_id: 'branch-1',
+  package_type: 'Group',
+  sessions: 10,
+  remaining_sessions: 5,
+  enrollment_date: '2026-08-01',
+  expiration_date: '2026-12-31',
+  ...overrides,
+});
+
+describe('buildAttendanceFacts', () => {
+  it('keeps unmarked participants and marked students who left the roster', () => {
+    const facts = buildAttendanceFacts(sessions);
+
+    expect(facts.map((fact) => [fact.sessionId, fact.studentId, fact.status, fact.packageType])).toEqual([
+      ['session-1', 'student-1', 'present', 'Group'],
+      ['session-1', 'student-2', 'late', 'Group'],
+      ['session-1', 'student-3', 'unmarked', 'Group'],
+      ['session-1', 'student-4', 'absent', 'Group'],
+      ['session-2', 'student-1', 'excused', 'none'],
+    ]);
+  });
+});
+
+describe('summarizeAttendance', () => {
+  it('counts late as attended and leaves unmarked rows out of the rates', () => {
+    expect(summarizeAttendance(buildAttendanceFacts(sessions))).toEqual({
+      expected: 5,
+      marked: 4,
+      attended: 2,
+      absent: 1,
+      excused: 1,
+      attendanceRate: 50,
+      noShowRate: 25,
+    });
+  });
+});
+
+describe('groupAttendance', () => {
+  const facts = buildAttendanceFacts(sessions);
+  const names = new Map([['coach-1', 'Coach Ana'], ['coach-2', 'Coach Ben']]);
+
+  it('counts a session toward each of its coaches, lowest attendance first', () => {
+    expect(groupAttendance(facts, 'coach', names).map((group) => [group.label, group.expected, group.attendanceRate])).toEqual([
+      ['No coach', 1, 0],
+      ['Coach Ana', 4, 67],
+      ['Coach Ben', 4, 67],
+    ]);
+  });
+
+  it('labels sessions without a package', () => {
+    expect(groupAttendance(facts, 'package', names).map((group) => group.label)).toEqual(['No package', 'Group']);
+  });
+});
+
+describe('attendanceTrend', () => {
+  const facts = buildAttendanceFacts(sessions);
+
+  it('buckets weeks from Monday', () => {
+    expect(attendanceTrend(facts, 'week').map((period) => [period.key, period.label, period.expected])).toEqual([
+      ['2026-10-12', 'Oct 12', 4],
+      ['2026-10-19', 'Oct 19', 1],
+    ]);
+  });
+
+  it('buckets months', () => {
+    expect(attendanceTrend(facts, 'month').map((period) => [period.label, period.expected])).toEqual([['Oct 2026', 5]]);
+  });
+});
+
+describe('buildPackageCycles', () => {
+  const history: PackageHistoryCycle[] = [
+    {
+      id: 'history-1',
+      student_id: 'student-1',
+      package_type: 'Group',
+      sessions: 10,
+      remaining_sessions: 2,
+      enrollment_date: '2026-05-01',
+      expiration_date: null,
+      captured_at: '2026-08-01T10:00:00Z',
+    },
+    // The student was deleted since
+    {
+      id: 'history-2',
+      student_id: null,
+      package_type: 'Group',
+      sessions: 10,
+      remaining_sessions: 0,
+      enrollment_date: '2026-05-01',
+      expiration_date: null,
+      captured_at: '2026-08-01T10:00:00Z',
+    },
+  ];
+  const students = [
+    // Expired with sessions left, past the grace period
+    student({ id: 'student-1', remaining_sessions: 3, expiration_date: '2026-09-30' }),
+    // Used up ten days ago, still within the grace period
+    student({ id: 'student-2', sessions: 8, remaining_sessions: 0 }),
+    // Still active
+    student({ id: 'student-3' }),
+    // Expired before the last session was logged, the earlier date ends the cycle
+    student({ id: 'student-4', branch_id: 'branch-2', package_type: null, sessions: 8, remaining_sessions: 0, expiration_date: '2026-09-01' }),
+  ];
+  const lastSessionDates = new Map([['student-2', '2026-10-09'], ['student-4', '2026-09-20']]);
+
+  it('marks archived cycles renewed and ended ones pending or churned by the grace period', () => {
+    const cycles = buildPackageCycles(history, students, lastSessionDates, today);
+
+    expect(cycles.map((cycle) => [cycle.key, cycle.consumed, cycle.endDate, cycle.outcome])).toEqual([
+      ['history-history-1', 8, '2026-08-01', 'renewed'],
+      ['current-student-1', 7, '2026-09-30', 'churned'],
+      ['current-student-2', 8, '2026-10-09', 'pending'],
+      ['current-student-4', 8, '2026-09-01', 'churned'],
+    ]);
+  });
+
+  it('ends a used-up package today when its last session is unknown', () => {
+    const [cycle] = buildPackageCycles([], [student({ id: 'student-2', sessions: 8, remaining_sessions: 0 })], new Map(), today);
+
+    expect(cycle).toMatchObject({ endDate: '2026-10-19', outcome: 'pending' });
+  });
+});
+
+describe('groupRetention', () => {
+  it('leaves pending cycles out of the rates, highest churn first', () => {
+    const cycles = buildPackageCycles(
+      [{
+        id: 'history-1',
+        student_id: 'student-1',
+        package_type: 'Group',
+        sessions: 10,
+        remaining_sessions: 2,
+        enrollment_date: '2026-05-01',
+        expiration_date: '2026-08-01',
+        captured_at: '2026-08-01T10:00:00Z',
+      }],
+      [
+        student({ id: 'student-1', remaining_sessions: 3, expiration_date: '2026-09-30' }),
+        student({ id: 'student-2', sessions: 8, remaining_sessions: 0 }),
+        student({ id: 'student-4', branch_id: 'branch-2', sessions: 8, remaining_sessions: 0, expiration_date: '2026-09-01' }),
+      ],
+      new Map([['student-2', '2026-10-09']]),
+      today
+    );
+    const names = new Map([['branch-1', 'Makati']]);
+
+    expect(groupRetention(cycles, 'branch', names).map((group) => ({
+      label: group.label,
+      renewed: group.renewed,
+      churned: group.churned,
+      pending: group.pending,
+      renewalRate: group.renewalRate,
+      churnRate: group.churnRate,
+      averageConsumed: group.averageConsumed,
+      averageSessions: group.averageSessions,
+    }))).toEqual([
+      { label: 'No branch', renewed: 0, churned: 1, pending: 0, renewalRate: 0, churnRate: 100, averageConsumed: 8, averageSessions: 8 },
+      { label: 'Makati', renewed: 1, churned: 1, pending: 1, renewalRate: 50, churnRate: 50, averageConsumed: 7.7, averageSessions: 9.3 },
+    ]);
+  });
+});
@@ -0,0 +1,276 @@
+import { differenceInCalendarDays, format, parseISO, startOfMonth, startOfWeek } from 'date-fns';
+
+// Days after expiration, or after the last session of a used-up package, before a student
+// who hasn't renewed counts as churned
+export const CHURN_GRACE_DAYS = 14;
+
+export interface AnalyticsSession {
+  id: string;
+  date: string;
+  branch_id: string;
+  package_type: string | null;
+  session_coaches: Array<{ coach_id: string }>;
+  session_participants: Array<{ student_id: string }>;
+  attendance_records: Array<{ student_id: string; status: string }>;
+}
+
+export interface AnalyticsStudent {
+  id: string;
+  name: string;
+  branch_id: string | null;
+  package_type: string | null;
+  sessions: number | null;
+  remaining_sessions: number;
+  enrollment_date: string | null;
+  expiration_date: string | null;
+}
+
+export interface PackageHistoryCycle {
+  id: string;
+  student_id: string | null;
+  package_type: string | null;
+  sessions: number | null;
+  remaining_sessions: number | null;
+  enrollment_date: string | null;
+  expiration_date: string | null;
+  captured_at: string;
+}
+
+export type AttendanceDimension = 'branch' | 'coach' | 'package';
+
+/** One expected attendance: a participant of a session that has already taken place */
+export interface AttendanceFact {
+  sessionId: string;
+  date: string;
+  branchId: string;
+  coachIds: string[];
+  packageType: string;
+  studentId: string;
+  status: string;
+}
+
+export interface AttendanceSummary {
+  expected: number;
+  marked: number;
+  attended: number;
+  absent: number;
+  excused: number;
+  attendanceRate: number;
+  noShowRate: number;
+}
+
+export interface AttendanceGroup extends AttendanceSummary {
+  key: string;
+  label: string;
+  facts: AttendanceFact[];
+}
+
+export type CycleOutcome = 'renewed' | 'churned' | 'pending';
+
+export interface PackageCycle {
+  key: string;
+  studentId: string;
+  packageType: string;
+  branchId: string | null;
+  sessions: number;
+  consumed: number;
+  endDate: string;
+  outcome: CycleOutcome;
+}
+
+export interface RetentionGroup {
+  key: string;
+  label: string;
+  renewed: number;
+  churned: number;
+  pending: number;
+  renewalRate: number;
+  churnRate: number;
+  averageConsumed: number;
+  averageSessions: number;
+  cycles: PackageCycle[];
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 100) : 0);
+
+/**
+ * Flattens sessions into one row per participant. Participants without an attendance record
+ * are kept as 'unmarked' so the expected count matches the roster.
+ */
+export function buildAttendanceFacts(sessions: AnalyticsSession[]) {
+  const facts: AttendanceFact[] = [];
+  sessions.forEach((session) => {
+    const statuses = new Map(session.attendance_records.map((record) => [record.student_id, record.status]));
+    const studentIds = new Set([
+      ...session.session_participants.map((participant) => participant.student_id),
+      ...statuses.keys(),
+    ]);
+    studentIds.forEach((studentId) => {
+      facts.push({
+        sessionId: session.id,
+        date: session.date,
+        branchId: session.branch_id,
+        coachIds: session.session_coaches.map((sessionCoach) => sessionCoach.coach_id),
+        packageType: session.package_type || 'none',
+        studentId,
+        status: statuses.get(studentId) || 'unmarked',
+      });
+    });
+  });
+  return facts;
+}
+
+/**
+ * Late arrivals count as attended. Rates only cover marked attendance, so pending
+ * and unmarked rows don't drag them down.
+ */
+export function summarizeAttendance(facts: AttendanceFact[]): AttendanceSummary {
+  const attended = facts.filter((fact) => fact.status === 'present' || fact.status === 'late').length;
+  const absent = facts.filter((fact) => fact.status === 'absent').length;
+  const excused = facts.filter((fact) => fact.status === 'excused').length;
+  const marked = attended + absent + excused;
+  return {
+    expected: facts.length,
+    marked,
+    attended,
+    absent,
+    excused,
+    attendanceRate: percent(attended, marked),
+    noShowRate: percent(absent, marked),
+  };
+}
+
+/**
+ * Attendance per branch, coach or session package, lowest attendance rate first.
+ * A session with two coaches counts toward both.
+ */
+export function groupAttendance(facts: AttendanceFact[], by: AttendanceDimension, names: Map<string, string>) {
+  const groups = new Map<string, AttendanceFact[]>();
+  facts.forEach((fact) => {
+    const keys = by === 'branch' ? [fact.branchId] : by === 'coach' ? (fact.coachIds.length ? fact.coachIds : ['unassigned']) : [fact.packageType];
+    keys.forEach((key) => {
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(fact);
+    });
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, groupFacts]): AttendanceGroup => ({
+      key,
+      label: by === 'package' ? (key === 'none' ? 'No package' : key) : names.get(key) || (by === 'coach' ? 'No coach' : 'Unknown'),
+      facts: groupFacts,
+      ...summarizeAttendance(groupFacts),
+    }))
+    .sort((a, b) => a.attendanceRate - b.attendanceRate);
+}
+
+/**
+ * Attendance and no-show rates per week or month, in date order
+ */
+export function attendanceTrend(facts: AttendanceFact[], interval: 'week' | 'month') {
+  const periods = new Map<string, AttendanceFact[]>();
+  facts.forEach((fact) => {
+    const date = parseISO(fact.date);
+    const start = interval === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : startOfMonth(date);
+    const key = format(start, 'yyyy-MM-dd');
+    if (!periods.has(key)) periods.set(key, []);
+    periods.get(key)!.push(fact);
+  });
+
+  return Array.from(periods.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, periodFacts]): AttendanceGroup => ({
+      key,
+      label: format(parseISO(key), interval === 'week' ? 'MMM dd' : 'MMM yyyy'),
+      facts: periodFacts,
+      ...summarizeAttendance(periodFacts),
+    }));
+}
+
+/**
+ * Every package cycle that has ended. Archived cycles were renewed, since history is only
+ * written on renewal. A current cycle that expired or ran out of sessions is pending until
+ * the grace period is over and churned after that. A used-up package ends on the last session
+ * it paid for, from lastSessionDates (student id to date), or today when that isn't known.
+ */
+export function buildPackageCycles(
+  history: PackageHistoryCycle[],
+  students: AnalyticsStudent[],
+  lastSessionDates: Map<string, string> = new Map(),
+  today: Date = new Date()
+) {
+  const studentsById = new Map(students.map((student) => [student.id, student]));
+  const cycles: PackageCycle[] = [];
+
+  history.forEach((cycle) => {
+    if (!cycle.student_id) return;
+    const sessions = Number(cycle.sessions) || 0;
+    cycles.push({
+      key: `history-${cycle.id}`,
+      studentId: cycle.student_id,
+      packageType: cycle.package_type || 'none',
+      branchId: studentsById.get(cycle.student_id)?.branch_id || null,
+      sessions,
+      consumed: Math.max(0, sessions - (Number(cycle.remaining_sessions) || 0)),
+      endDate: cycle.expiration_date || cycle.captured_at.slice(0, 10),
+      outcome: 'renewed',
+    });
+  });
+
+  students.forEach((student) => {
+    const expired = !!student.expiration_date && parseISO(student.expiration_date) < today;
+    const usedUp = (student.sessions || 0) > 0 && student.remaining_sessions <= 0;
+    if (!expired && !usedUp) return;
+
+    const usedUpDate = usedUp ? lastSessionDates.get(student.id) ?? format(today, 'yyyy-MM-dd') : null;
+    const endDate = expired && (!usedUpDate || student.expiration_date! < usedUpDate)
+      ? student.expiration_date!
+      : usedUpDate!;
+    const sessions = Number(student.sessions) || 0;
+    cycles.push({
+      key: `current-${student.id}`,
+      studentId: student.id,
+      packageType: student.package_type || 'none',
+      branchId: student.branch_id,
+      sessions,
+      consumed: Math.max(0, sessions - student.remaining_sessions),
+      endDate,
+      outcome: differenceInCalendarDays(today, parseISO(endDate)) > CHURN_GRACE_DAYS ? 'churned' : 'pending',
+    });
+  });
+
+  return cycles;
+}
+
+/**
+ * Renewal and churn per branch or package, highest churn first. Pending cycles are shown
+ * but left out of the rates.
+ */
+export function groupRetention(cycles: PackageCycle[], by: 'branch' | 'package', names: Map<string, string>) {
+  const groups = new Map<string, PackageCycle[]>();
+  cycles.forEach((cycle) => {
+    const key = by === 'branch' ? cycle.branchId || 'unassigned' : cycle.packageType;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(cycle);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, groupCycles]): RetentionGroup => {
+      const renewed = groupCycles.filter((cycle) => cycle.outcome === 'renewed').length;
+      const churned = groupCycles.filter((cycle) => cycle.outcome === 'churned').length;
+      const sized = groupCycles.filter((cycle) => cycle.sessions > 0);
+      return {
+        key,
+        label: by === 'branch' ? names.get(key) || 'No branch' : key === 'none' ? 'No package' : key,
+        renewed,
+        churned,
+        pending: groupCycles.length - renewed - churned,
+        renewalRate: percent(renewed, renewed + churned),
+        churnRate: percent(churned, renewed + churned),
+        averageConsumed: sized.length ? Math.round((sized.reduce((sum, cycle) => sum + cycle.consumed, 0) / sized.length) * 10) / 10 : 0,
+        averageSessions: sized.length ? Math.round((sized.reduce((sum, cycle) => sum + cycle.sessions, 0) / sized.length) * 10) / 10 : 0,
+        cycles: groupCycles,
+      };
+    })
+    .sort((a, b) => b.churnRate - a.churnRate);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildBranchHeatmap,
+  countWeeks,
+  findDoubleBookings,
+  formatHour,
+  minutesToTime,
+  timeToMinutes,
+  type UtilizationSession,
+} from './utilization';
+
+const session = (overrides: Partial<UtilizationSession>): UtilizationSession => ({
+  id: 'session',
+  // A Monday
+  date: '2026-10-19',
+  start_time: '09:00:00',
+  end_time: '10:00:00',
+  branch_id: 'branch-1',
+  max_participants: 10,
+  session_participants: [{ count: 0 }],
+  ...overrides,
+});
+
+describe('time helpers', () => {
+  it('converts between times and minutes', () => {
+    expect(timeToMinutes('09:30:00')).toBe(570);
+    expect(minutesToTime(570)).toBe('9:30 AM');
+    expect(minutesToTime(0)).toBe('12:00 AM');
+    expect(formatHour(13)).toBe('1:00 PM');
+  });
+
+  it('counts the calendar weeks a range touches', () => {
+    expect(countWeeks('2026-10-12', '2026-10-25')).toBe(2);
+    // Sunday to Monday crosses into a new week
+    expect(countWeeks('2026-10-18', '2026-10-19')).toBe(2);
+  });
+});
+
+describe('findDoubleBookings', () => {
+  it('reports overlapping sessions at the same branch but not back-to-back ones', () => {
+    const bookings = findDoubleBookings([
+      session({ id: 'a', start_time: '09:00:00', end_time: '10:30:00' }),
+      session({ id: 'c', start_time: '11:00:00', end_time: '12:00:00' }),
+      session({ id: 'b', start_time: '10:00:00', end_time: '11:00:00' }),
+      session({ id: 'other-branch', branch_id: 'branch-2', start_time: '09:00:00', end_time: '10:00:00' }),
+      session({ id: 'other-day', date: '2026-10-20', start_time: '09:30:00', end_time: '10:00:00' }),
+    ]);
+
+    expect(bookings.map((booking) => [booking.key, booking.overlapStart, booking.overlapEnd])).toEqual([['a-b', 600, 630]]);
+  });
+
+  it('pairs a long session with every session inside it', () => {
+    const bookings = findDoubleBookings([
+      session({ id: 'long', start_time: '09:00:00', end_time: '12:00:00' }),
+      session({ id: 'early', start_time: '09:30:00', end_time: '10:00:00' }),
+      session({ id: 'late', start_time: '11:00:00', end_time: '11:30:00' }),
+    ]);
+
+    expect(bookings.map((booking) => booking.key)).toEqual(['long-early', 'long-late']);
+  });
+});
+
+describe('buildBranchHeatmap', () => {
+  it('counts a session in every hour it touches and marks the double-booked hour', () => {
+    const sessions = [
+      session({ id: 'a', start_time: '09:00:00', end_time: '10:30:00', max_participants: 10, session_participants: [{ count: 4 }] }),
+      session({ id: 'b', start_time: '10:00:00', end_time: '11:00:00', max_participants: 8, session_participants: [{ count: 2 }] }),
+      session({ id: 'elsewhere', branch_id: 'branch-2', start_time: '07:00:00', end_time: '08:00:00' }),
+    ];
+    const heatmap = buildBranchHeatmap('branch-1', sessions, findDoubleBookings(sessions));
+
+    expect(heatmap.hours).toEqual([9, 10]);
+    expect(heatmap.rows[0][0]).toEqual({ day: 0, hour: 9, sessions: 1, headcount: 4, capacity: 10, doubleBooked: 0 });
+    expect(heatmap.rows[1][0]).toEqual({ day: 0, hour: 10, sessions: 2, headcount: 6, capacity: 18, doubleBooked: 1 });
+    expect(heatmap).toMatchObject({ totalSessions: 2, totalHeadcount: 6, maxSessions: 2, maxHeadcount: 6 });
+    expect(heatmap.doubleBookings).toHaveLength(1);
+  });
+
+  it('falls back to 8 AM to 8 PM for a branch without sessions', () => {
+    const heatmap = buildBranchHeatmap('branch-1', [], []);
+
+    expect(heatmap.hours[0]).toBe(8);
+    expect(heatmap.hours).toHaveLength(12);
+    expect(heatmap).toMatchObject({ totalSessions: 0, maxSessions: 0, maxHeadcount: 0 });
+  });
+});
@@ -0,0 +1,155 @@
+import { differenceInCalendarWeeks, getDay, parseISO } from 'date-fns';
+
+export const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export interface UtilizationSession {
+  id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  branch_id: string;
+  max_participants: number | null;
+  session_participants: Array<{ count: number }>;
+}
+
+export interface DoubleBooking {
+  key: string;
+  branchId: string;
+  date: string;
+  first: UtilizationSession;
+  second: UtilizationSession;
+  overlapStart: number;
+  overlapEnd: number;
+}
+
+export interface HeatmapCell {
+  day: number;
+  hour: number;
+  sessions: number;
+  headcount: number;
+  capacity: number;
+  doubleBooked: number;
+}
+
+export interface BranchHeatmap {
+  branchId: string;
+  hours: number[];
+  rows: HeatmapCell[][];
+  totalSessions: number;
+  totalHeadcount: number;
+  maxSessions: number;
+  maxHeadcount: number;
+  doubleBookings: DoubleBooking[];
+}
+
+export function timeToMinutes(time: string) {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+export function minutesToTime(minutes: number) {
+  const hours = Math.floor(minutes / 60);
+  const period = hours >= 12 ? 'PM' : 'AM';
+  const displayHour = hours % 12 || 12;
+  return `${displayHour}:${String(minutes % 60).padStart(2, '0')} ${period}`;
+}
+
+export const formatHour = (hour: number) => minutesToTime(hour * 60);
+
+// Monday-first index of the session's weekday
+const weekdayIndex = (date: string) => (getDay(parseISO(date)) + 6) % 7;
+
+const headcountOf = (session: UtilizationSession) => session.session_participants?.[0]?.count || 0;
+
+export function countWeeks(from: string, to: string) {
+  return differenceInCalendarWeeks(parseISO(to), parseISO(from), { weekStartsOn: 1 }) + 1;
+}
+
+/**
+ * Sessions at the same branch whose times overlap on the same day. Branches have a single
+ * court, so any overlap is double-booked court time.
+ */
+export function findDoubleBookings(sessions: UtilizationSession[]) {
+  const byBranchDay = new Map<string, UtilizationSession[]>();
+  sessions.forEach((session) => {
+    const key = `${session.branch_id}|${session.date}`;
+    if (!byBranchDay.has(key)) byBranchDay.set(key, []);
+    byBranchDay.get(key)!.push(session);
+  });
+
+  const bookings: DoubleBooking[] = [];
+  byBranchDay.forEach((daySessions) => {
+    const sorted = [...daySessions].sort((a, b) => timeToMinutes(a.start_time) - timeToMinutes(b.start_time));
+    sorted.forEach((first, index) => {
+      const firstEnd = timeToMinutes(first.end_time);
+      for (const second of sorted.slice(index + 1)) {
+        const secondStart = timeToMinutes(second.start_time);
+        if (secondStart >= firstEnd) break;
+        bookings.push({
+          key: `${first.id}-${second.id}`,
+          branchId: first.branch_id,
+          date: first.date,
+          first,
+          second,
+          overlapStart: secondStart,
+          overlapEnd: Math.min(firstEnd, timeToMinutes(second.end_time)),
+        });
+      }
+    });
+  });
+
+  return bookings.sort((a, b) => a.date.localeCompare(b.date) || a.overlapStart - b.overlapStart);
+}
+
+/**
+ * Weekday by hour grid for one branch, totalled over the whole range. A session counts in
+ * every hour slot it touches, and hours run from the earliest start to the latest end.
+ */
+export function buildBranchHeatmap(branchId: string, sessions: UtilizationSession[], doubleBookings: DoubleBooking[]): BranchHeatmap {
+  const branchSessions = sessions.filter((session) => session.branch_id === branchId);
+  const branchBookings = doubleBookings.filter((booking) => booking.branchId === branchId);
+
+  const starts = branchSessions.map((session) => Math.floor(timeToMinutes(session.start_time) / 60));
+  const ends = branchSessions.map((session) => Math.ceil(timeToMinutes(session.end_time) / 60));
+  const firstHour = starts.length ? Math.min(...starts) : 8;
+  const lastHour = ends.length ? Math.max(...ends) : 20;
+  const hours = Array.from({ length: Math.max(1, lastHour - firstHour) }, (_, index) => firstHour + index);
+
+  const rows = hours.map((hour) =>
+    WEEKDAYS.map((_, day): HeatmapCell => ({ day, hour, sessions: 0, headcount: 0, capacity: 0, doubleBooked: 0 }))
+  );
+  const cellAt = (day: number, hour: number) => rows[hour - firstHour]?.[day];
+
+  branchSessions.forEach((session) => {
+    const day = weekdayIndex(session.date);
+    const start = timeToMinutes(session.start_time);
+    const end = timeToMinutes(session.end_time);
+    for (let hour = Math.floor(start / 60); hour * 60 < end; hour++) {
+      const cell = cellAt(day, hour);
+      if (!cell) continue;
+      cell.sessions++;
+      cell.headcount += headcountOf(session);
+      cell.capacity += session.max_participants || 0;
+    }
+  });
+
+  branchBookings.forEach((booking) => {
+    const day = weekdayIndex(booking.date);
+    for (let hour = Math.floor(booking.overlapStart / 60); hour * 60 < booking.overlapEnd; hour++) {
+      const cell = cellAt(day, hour);
+      if (cell) cell.doubleBooked++;
+    }
+  });
+
+  const cells = rows.flat();
+  return {
+    branchId,
+    hours,
+    rows,
+    totalSessions: branchSessions.length,
+    totalHeadcount: branchSessions.reduce((sum, session) => sum + headcountOf(session), 0),
+    maxSessions: Math.max(0, ...cells.map((cell) => cell.sessions)),
+    maxHeadcount: Math.max(0, ...cells.map((cell) => cell.headcount)),
+    doubleBookings: branchBookings,
+  };
+}
@@ -0,0 +1,463 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { encode as encodeBase64 } from "https://deno.land/std@0.190.0/encoding/base64.ts";
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+
+export type NotificationChannel = "email" | "sms";
+
+export interface MessageAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
+export interface OutgoingMessage {
+  to: string;
+  subject: string;
+  body: string;
+  attachments?: MessageAttachment[];
+}
+
+/**
+ * A file in Supabase Storage sent with a message. Deliveries keep the reference instead of the
+ * content, and the file is downloaded again whenever the message is sent.
+ */
+export interface StoredAttachment {
+  filename: string;
+  content_type: string;
+  bucket: string;
+  path: string;
+}
+
+/**
+ * A way of delivering messages on one channel. Providers throw when a message can't be sent,
+ * the caller takes care of retries and of recording the outcome.
+ */
+export interface NotificationProvider {
+  name: string;
+  channel: NotificationChannel;
+  isConfigured: () => boolean;
+  send: (message: OutgoingMessage) => Promise<void>;
+}
+
+export interface NotificationRecipient {
+  name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+}
+
+export interface NotifyOptions {
+  eventType: string;
+  recipient: NotificationRecipient;
+  variables: Record<string, string | number | null | undefined>;
+  sessionId?: string | null;
+  /** Attached to email only, SMS providers can't carry files */
+  attachments?: StoredAttachment[];
+  /**
+   * Variables that already hold HTML and go into an email as they are. Every other variable is
+   * escaped, so build these with escapeHtml() around anything that comes from the database.
+   */
+  trustedHtmlVariables?: string[];
+}
+
+export interface DeliveryResult {
+  id: string | null;
+  channel: NotificationChannel;
+  recipient: string;
+  success: boolean;
+  error?: string;
+}
+
+interface NotificationTemplate {
+  id: string;
+  event_type: string;
+  channel: NotificationChannel;
+  subject: string;
+  heading: string | null;
+  body: string;
+}
+
+interface DeliveryRow {
+  id: string;
+  channel: NotificationChannel;
+  recipient: string;
+  subject: string | null;
+  body: string;
+  attempts: number;
+  attachments: StoredAttachment[] | null;
+}
+
+const DELIVERY_COLUMNS = "id, channel, recipient, subject, body, attempts, attachments";
+
+const MAX_ATTEMPTS = 3;
+
+const htmlToText = (html: string) =>
+  html.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]*>/g, '').replace(/\n\s*\n/g, '\n').trim();
+
+// Gmail or any other SMTP server
+const smtpProvider: NotificationProvider = {
+  name: "smtp",
+  channel: "email",
+  isConfigured: () => !!(Deno.env.get("SMTP_USER") && Deno.env.get("SMTP_PASS")),
+  send: async ({ to, subject, body, attachments }) => {
+    const smtpUser = Deno.env.get("SMTP_USER") ?? "";
+    const port = parseInt(Deno.env.get("SMTP_PORT") || "587");
+    const client = new SMTPClient({
+      connection: {
+        hostname: Deno.env.get("SMTP_HOST") || "smtp.gmail.com",
+        port,
+        tls: port === 465,
+        auth: {
+          username: smtpUser,
+          password: Deno.env.get("SMTP_PASS") ?? "",
+        },
+      },
+    });
+    try {
+      await client.send({
+        from: Deno.env.get("SMTP_FROM") || smtpUser,
+        to,
+        subject,
+        content: htmlToText(body),
+        html: body,
+        attachments: (attachments || []).map((attachment) => ({
+          filename: attachment.filename,
+          contentType: attachment.contentType,
+          content: attachment.content,
+          encoding: "binary" as const,
+        })),
+      });
+    } finally {
+      await client.close();
+    }
+  },
+};
+
+const emailJsProvider: NotificationProvider = {
+  name: "emailjs",
+  channel: "email",
+  isConfigured: () => !!(
+    Deno.env.get("EMAILJS_SERVICE_ID") &&
+    Deno.env.get("EMAILJS_TEMPLATE_ID") &&
+    Deno.env.get("EMAILJS_PUBLIC_KEY")
+  ),
+  send: async ({ to, subject, body, attachments }) => {
+    // EmailJS takes one file, through a variable attachment bound to the "attachment" parameter
+    const attachment = attachments?.[0];
+    const response = await fetch("https://api.emailjs.com/api/v1.0/email/send", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        service_id: Deno.env.get("EMAILJS_SERVICE_ID"),
+        template_id: Deno.env.get("EMAILJS_TEMPLATE_ID"),
+        user_id: Deno.env.get("EMAILJS_PUBLIC_KEY"),
+        template_params: {
+          to_email: to,
+          subject,
+          message_html: body,
+          message_text: htmlToText(body),
+          ...(attachment ? {
+            attachment: `data:${attachment.contentType};base64,${encodeBase64(attachment.content)}`,
+            attachment_name: attachment.filename,
+          } : {}),
+        },
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`EmailJS API error: ${await response.text()}`);
+    }
+  },
+};
+
+// Any HTTP SMS gateway that accepts a JSON POST of { to, from, message }
+const smsGatewayProvider: NotificationProvider = {
+  name: "sms_gateway",
+  channel: "sms",
+  isConfigured: () => !!Deno.env.get("SMS_GATEWAY_URL"),
+  send: async ({ to, body }) => {
+    const apiKey = Deno.env.get("SMS_GATEWAY_API_KEY");
+    const response = await fetch(Deno.env.get("SMS_GATEWAY_URL") ?? "", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        to,
+        from: Deno.env.get("SMS_GATEWAY_SENDER") || "Takeover",
+        message: body,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`SMS gateway error: ${await response.text()}`);
+    }
+  },
+};
+
+// Writes messages to the function logs instead of sending them, for development and testing
+const logProvider = (channel: NotificationChannel): NotificationProvider => ({
+  name: "log",
+  channel,
+  isConfigured: () => true,
+  send: async ({ to, subject, body, attachments }) => {
+    console.log("=".repeat(50));
+    console.log(`${channel.toUpperCase()} NOTIFICATION (Log Sink)`);
+    console.log("=".repeat(50));
+    console.log("To:", to);
+    if (subject) console.log("Subject:", subject);
+    console.log("Body:", body);
+    if (attachments?.length) console.log("Attachments:", attachments.map((attachment) => attachment.filename).join(", "));
+    console.log("=".repeat(50));
+  },
+});
+
+const providers: NotificationProvider[] = [
+  emailJsProvider,
+  smtpProvider,
+  logProvider("email"),
+  smsGatewayProvider,
+  logProvider("sms"),
+];
+
+/**
+ * Providers to try for a channel, in order. NOTIFICATION_EMAIL_PROVIDER / NOTIFICATION_SMS_PROVIDER
+ * pick a single one by name, otherwise every configured provider is tried in turn. The log sink is
+ * only used when picked by name, so a project without a provider records its messages as failed
+ * instead of as sent.
+ */
+export const getProviders = (channel: NotificationChannel) => {
+  const forced = Deno.env.get(channel === "email" ? "NOTIFICATION_EMAIL_PROVIDER" : "NOTIFICATION_SMS_PROVIDER");
+  const candidates = providers.filter((provider) => provider.channel === channel);
+  if (forced) {
+    const provider = candidates.find((candidate) => candidate.name === forced);
+    if (!provider) throw new Error(`Unknown ${channel} provider: ${forced}`);
+    return [provider];
+  }
+  const configured = candidates.filter((provider) => provider.name !== "log" && provider.isConfigured());
+  if (configured.length === 0) throw new Error(`No ${channel} provider configured`);
+  return configured;
+};
+
+/**
+ * Replaces {{name}} placeholders, unknown or empty variables become an empty string
+ */
+export const renderTemplate = (text: string, variables: NotifyOptions["variables"]) =>
+  text.replace(/\{\{\s*([a-z0-9_]+)\s*\}\}/gi, (_, name: string) => {
+    const value = variables[name];
+    return value === null || value === undefined ? "" : String(value);
+  });
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const wrapEmailLayout = (heading: string, content: string) => `
+  <!DOCTYPE html>
+  <html>
+  <head>
+    <style>
+      body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+      .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+      .header { background: #242833; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+      .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 8px 8px; }
+      .info-box { background: white; padding: 15px; margin: 15px 0; border-radius: 5px; border-left: 4px solid #79e58f; }
+      .note-box { background: #fff3cd; padding: 15px; margin: 15px 0; border-radius: 5px; border-left: 4px solid #ffc107; }
+      .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
+    </style>
+  </head>
+  <body>
+    <div class="container">
+      <div class="header">
+        <h1>${heading}</h1>
+      </div>
+      <div class="content">
+        ${content}
+        <div class="footer">
+          <p>This is an automated notification from Takeover Hoops Scheduler.</p>
+        </div>
+      </div>
+    </div>
+  </body>
+  </html>
+`;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const loadAttachments = async (supabaseAdmin: SupabaseAdmin, attachments: StoredAttachment[]) => {
+  const files: MessageAttachment[] = [];
+  for (const attachment of attachments) {
+    const { data, error } = await supabaseAdmin.storage.from(attachment.bucket).download(attachment.path);
+    if (error || !data) {
+      throw new Error(`Attachment ${attachment.filename} could not be loaded: ${error?.message ?? "not found"}`);
+    }
+    files.push({
+      filename: attachment.filename,
+      contentType: attachment.content_type,
+      content: new Uint8Array(await data.arrayBuffer()),
+    });
+  }
+  return files;
+};
+
+// Send a recorded delivery, retrying each provider with a short backoff before failing over to
+// the next one, and store the outcome on the row
+const attemptDelivery = async (supabaseAdmin: SupabaseAdmin, delivery: DeliveryRow) => {
+  let attempts = delivery.attempts;
+  let lastError: string | null = null;
+  let attachments: MessageAttachment[] | null = null;
+  let providerList: NotificationProvider[] = [];
+
+  // Without a provider, or with a missing attachment, the delivery fails without sending anything
+  try {
+    providerList = getProviders(delivery.channel);
+    attachments = delivery.channel === "email" ? await loadAttachments(supabaseAdmin, delivery.attachments || []) : [];
+  } catch (error) {
+    lastError = (error as Error).message || String(error);
+    console.error(`Delivery ${delivery.id} failed:`, error);
+  }
+
+  let provider = providerList[0];
+
+  let sent = false;
+  for (const candidate of attachments ? providerList : []) {
+    provider = candidate;
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      attempts++;
+      try {
+        await provider.send({ to: delivery.recipient, subject: delivery.subject ?? "", body: delivery.body, attachments: attachments ?? [] });
+        lastError = null;
+        sent = true;
+        break;
+      } catch (error) {
+        lastError = (error as Error).message || String(error);
+        console.error(`Delivery ${delivery.id} via ${provider.name} failed (attempt ${attempt + 1}):`, error);
+        if (attempt < MAX_ATTEMPTS - 1) {
+          await sleep(500 * 2 ** attempt);
+        }
+      }
+    }
+    if (sent) break;
+  }
+
+  const { error: updateError } = await supabaseAdmin
+    .from("notification_deliveries")
+    .update({
+      provider: provider?.name ?? "none",
+      status: lastError ? "failed" : "sent",
+      attempts,
+      last_error: lastError,
+      sent_at: lastError ? null : new Date().toISOString(),
+    })
+    .eq("id", delivery.id);
+  if (updateError) {
+    console.error(`Error recording delivery ${delivery.id}:`, updateError);
+  }
+
+  return lastError;
+};
+
+/**
+ * Creates a notifier for one function call. Templates are loaded once per event type.
+ */
+export const createNotifier = (supabaseAdmin: SupabaseAdmin) => {
+  const templateCache = new Map<string, NotificationTemplate[]>();
+
+  const getTemplates = async (eventType: string) => {
+    if (!templateCache.has(eventType)) {
+      const { data, error } = await supabaseAdmin
+        .from("notification_templates")
+        .select("id, event_type, channel, subject, heading, body")
+        .eq("event_type", eventType)
+        .eq("is_active", true);
+      if (error) throw error;
+      templateCache.set(eventType, (data || []) as NotificationTemplate[]);
+    }
+    return templateCache.get(eventType) ?? [];
+  };
+
+  /**
+   * Renders every active template of the event for the recipient, records each message in
+   * notification_deliveries and sends it. Channels the recipient has no address for are skipped.
+   */
+  const notify = async ({ eventType, recipient, variables, sessionId, attachments, trustedHtmlVariables }: NotifyOptions) => {
+    const results: DeliveryResult[] = [];
+    const templates = await getTemplates(eventType);
+    const allVariables = { recipient_name: recipient.name || "there", ...variables };
+    const htmlVariables = Object.fromEntries(
+      Object.entries(allVariables).map(([name, value]) => [
+        name,
+        value === null || value === undefined || trustedHtmlVariables?.includes(name) ? value : escapeHtml(String(value)),
+      ])
+    );
+
+    for (const template of templates) {
+      const address = template.channel === "email" ? recipient.email : recipient.phone;
+      if (!address) continue;
+
+      const subject = renderTemplate(template.subject, allVariables);
+      const content = renderTemplate(template.body, template.channel === "email" ? htmlVariables : allVariables);
+      const body = template.channel === "email"
+        ? wrapEmailLayout(renderTemplate(template.heading || template.subject, htmlVariables), content)
+        : content;
+
+      const { data: delivery, error: insertError } = await supabaseAdmin
+        .from("notification_deliveries")
+        .insert({
+          template_id: template.id,
+          event_type: eventType,
+          channel: template.channel,
+          provider: "none",
+          recipient: address,
+          recipient_name: recipient.name ?? null,
+          subject: template.channel === "email" ? subject : null,
+          body,
+          variables: allVariables,
+          session_id: sessionId ?? null,
+          attachments: template.channel === "email" ? attachments ?? [] : [],
+        })
+        .select(DELIVERY_COLUMNS)
+        .single();
+      if (insertError) {
+        console.error(`Error recording ${eventType} delivery to ${address}:`, insertError);
+        results.push({ id: null, channel: template.channel, recipient: address, success: false, error: insertError.message });
+        continue;
+      }
+
+      const error = await attemptDelivery(supabaseAdmin, delivery as DeliveryRow);
+      results.push({ id: delivery.id, channel: template.channel, recipient: address, success: !error, error: error ?? undefined });
+    }
+
+    return results;
+  };
+
+  return { notify };
+};
+
+/**
+ * Sends stored deliveries again exactly as they were rendered, with the channel's current providers
+ */
+export const resendDeliveries = async (supabaseAdmin: SupabaseAdmin, deliveryIds: string[]) => {
+  const { data: deliveries, error } = await supabaseAdmin
+    .from("notification_deliveries")
+    .select(DELIVERY_COLUMNS)
+    .in("id", deliveryIds);
+  if (error) throw error;
+
+  const results: DeliveryResult[] = [];
+  for (const delivery of (deliveries || []) as DeliveryRow[]) {
+    const deliveryError = await attemptDelivery(supabaseAdmin, delivery);
+    results.push({
+      id: delivery.id,
+      channel: delivery.channel,
+      recipient: delivery.recipient,
+      success: !deliveryError,
+      error: deliveryError ?? undefined,
+    });
+  }
+  return results;
+};
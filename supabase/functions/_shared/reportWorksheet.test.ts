@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildReportLines,
+  buildReportWorksheet,
+  formatReportValue,
+  type ExcelCell,
+  type ReportSheet,
+} from "./reportWorksheet.ts";
+
+interface Payment {
+  branch: string;
+  student: string;
+  amount: number;
+  sessions: number;
+  receipt: string;
+  voided?: boolean;
+}
+
+const payments: Payment[] = [
+  { branch: "Makati", student: "Ana", amount: 1000, sessions: 8, receipt: "OR-1" },
+  { branch: "Makati", student: "Ben", amount: 500.5, sessions: 0, receipt: "OR-2", voided: true },
+  { branch: "Pasig", student: "Cara", amount: 250, sessions: 10, receipt: "OR-3" },
+];
+
+const paymentReport: ReportSheet<Payment> = {
+  title: "Payments",
+  columns: [
+    { header: "Student", value: (row) => row.student, bold: true },
+    {
+      header: "Amount",
+      value: (row) => row.amount,
+      type: "currency",
+      total: "sum",
+      highlight: (row) => (row.amount >= 1000 ? "success" : null),
+    },
+    { header: "Sessions", value: (row) => row.sessions, type: "number", total: "average", shade: (row) => row.sessions / 10 },
+    { header: "Receipt", value: (row) => row.receipt, total: "count" },
+  ],
+  rows: payments,
+  rowHighlight: (row) => (row.voided ? "muted" : null),
+  groupBy: (row) => row.branch,
+  subtotals: true,
+  grandTotal: true,
+  excludeFromTotals: (row) => !!row.voided,
+};
+
+// Stand-in for XLSX.utils that keeps the cells it was given
+const utils = { aoa_to_sheet: (data: ExcelCell[][]) => ({ data }) as { data: ExcelCell[][] } & Record<string, unknown> };
+
+describe("formatReportValue", () => {
+  it("formats each column type", () => {
+    expect(formatReportValue(-1234.5, "currency")).toBe("-₱1,234.50");
+    expect(formatReportValue(33.333, "percent")).toBe("33.3%");
+    expect(formatReportValue(1234.567, "number")).toBe("1,234.57");
+    expect(formatReportValue("2026-10-19", "date")).toBe("Oct 19, 2026");
+    expect(formatReportValue("2026-10-19T13:05:00", "datetime")).toBe("Oct 19, 2026 1:05 PM");
+  });
+
+  it("leaves empty and unparseable values as they are", () => {
+    expect(formatReportValue(null, "currency")).toBe("");
+    expect(formatReportValue("", "date")).toBe("");
+    expect(formatReportValue("n/a", "number")).toBe("n/a");
+    expect(formatReportValue("soon", "date")).toBe("soon");
+  });
+});
+
+describe("buildReportLines", () => {
+  const lines = buildReportLines(paymentReport);
+  const texts = (kind: string) => lines.filter((line) => line.kind === kind).map((line) => line.cells.map((cell) => cell.text));
+
+  it("groups rows in order of first appearance with a subtotal after each group", () => {
+    expect(lines.map((line) => line.label ?? line.kind)).toEqual([
+      "Makati",
+      "row",
+      "row",
+      "Makati Subtotal",
+      "Pasig",
+      "row",
+      "Pasig Subtotal",
+      "Total",
+    ]);
+  });
+
+  it("leaves excluded rows out of sums, averages and counts", () => {
+    expect(texts("subtotal")).toEqual([
+      ["Makati Subtotal", "₱1,000.00", "8", "1"],
+      ["Pasig Subtotal", "₱250.00", "10", "1"],
+    ]);
+    expect(texts("total")).toEqual([["Total", "₱1,250.00", "9", "2"]]);
+  });
+
+  it("prefers the cell highlight over the row highlight and shades by intensity", () => {
+    const rows = lines.filter((line) => line.kind === "row");
+
+    expect(rows.map((line) => line.cells[1].highlight)).toEqual(["success", "muted", null]);
+    expect(rows.map((line) => line.cells[2].shade)).toEqual(["94EAA5", "FFFFFF", "79E58F"]);
+  });
+
+  it("skips the total when there are no rows", () => {
+    expect(buildReportLines({ ...paymentReport, rows: [] })).toEqual([]);
+  });
+});
+
+describe("buildReportWorksheet", () => {
+  const report: ReportSheet<Payment> = {
+    title: "Payments",
+    subtitle: "October 2026",
+    columns: [
+      { header: "Student", value: (row) => row.student },
+      { header: "Amount", value: (row) => row.amount, type: "currency" },
+      { header: "Attendance", value: (row) => row.sessions * 10, type: "percent" },
+    ],
+    rows: [payments[0]],
+    summary: [["Collected", "₱1,000.00"]],
+  };
+
+  it("writes the title block, the header and numbers stored as numbers", () => {
+    const { data } = buildReportWorksheet(report, "Oct 19, 2026 8:00 AM", utils);
+
+    expect(data.slice(0, 3).map((row) => row[0].v)).toEqual([
+      "TAKEOVER BASKETBALL - PAYMENTS",
+      "October 2026",
+      "Generated: Oct 19, 2026 8:00 AM",
+    ]);
+    expect(data[4].map((cell) => cell.v)).toEqual(["Student", "Amount", "Attendance"]);
+    expect(data[5][0]).toMatchObject({ v: "Ana", t: "s" });
+    expect(data[5][1]).toMatchObject({ v: 1000, t: "n", z: '"₱"#,##0.00;-"₱"#,##0.00' });
+    expect(data[5][2]).toMatchObject({ v: 0.8, t: "n", z: "0.0%" });
+    expect(data[7].map((cell) => cell.v)).toEqual(["Collected", "", "₱1,000.00"]);
+  });
+
+  it("merges the title rows and sizes the columns", () => {
+    const worksheet = buildReportWorksheet(report, "Oct 19, 2026 8:00 AM", utils);
+
+    expect(worksheet["!merges"]).toEqual([
+      { s: { r: 0, c: 0 }, e: { r: 0, c: 2 } },
+      { s: { r: 1, c: 0 }, e: { r: 1, c: 2 } },
+      { s: { r: 2, c: 0 }, e: { r: 2, c: 2 } },
+      { s: { r: 7, c: 0 }, e: { r: 7, c: 1 } },
+    ]);
+    expect(worksheet["!cols"]).toEqual([{ wch: 14 }, { wch: 14 }, { wch: 14 }]);
+  });
+
+  it("shows the empty message in place of the rows", () => {
+    const { data } = buildReportWorksheet({ ...report, rows: [], summary: undefined, emptyMessage: "No payments" }, "Oct 19, 2026 8:00 AM", utils);
+
+    expect(data[5][0].v).toBe("No payments");
+  });
+});
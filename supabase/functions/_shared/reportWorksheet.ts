@@ -0,0 +1,353 @@
+// Report worksheet shared by the exports in the app (src/utils/exportUtils.ts) and the emailed
+// reports (send-admin-reports), so both look the same. It has no imports: the caller passes in the
+// xlsx utils of its runtime and the generated time, formatted in its own timezone.
+
+export type ReportColumnType = "text" | "number" | "currency" | "percent" | "date" | "datetime";
+export type ReportHighlight = "danger" | "success" | "warning" | "info" | "muted";
+export type ReportValue = string | number | null | undefined;
+
+export interface ReportColumn<T> {
+  header: string;
+  value: (row: T) => ReportValue;
+  /** How the value is formatted and stored, text when left out. Percentages are 0 to 100. */
+  type?: ReportColumnType;
+  /** Custom display text, the stored value keeps its type */
+  format?: (value: ReportValue, row: T) => string;
+  /** Width in characters, sized to the content when left out */
+  width?: number;
+  bold?: boolean;
+  align?: "left" | "center" | "right";
+  /** Cell highlight, wins over the row highlight */
+  highlight?: (row: T) => ReportHighlight | null | undefined;
+  /** Shades the cell from white to the accent green by intensity, 0 to 1. Highlights win over it. */
+  shade?: (row: T) => number | null | undefined;
+  /** Aggregate shown on subtotal and total rows */
+  total?: "sum" | "count" | "average";
+}
+
+export interface ReportSheet<T> {
+  title: string;
+  subtitle?: string;
+  sheetName?: string;
+  columns: ReportColumn<T>[];
+  rows: T[];
+  headerStyle?: "accent" | "dark";
+  rowHighlight?: (row: T) => ReportHighlight | null | undefined;
+  /** Splits rows into sections under a heading, in order of first appearance */
+  groupBy?: (row: T) => string;
+  /** Subtotal row after each group, for columns with a total */
+  subtotals?: boolean;
+  /** Total row after all rows, for columns with a total */
+  grandTotal?: boolean;
+  /** Rows left out of subtotals and totals, such as voided entries */
+  excludeFromTotals?: (row: T) => boolean;
+  /** Label and value lines below the table */
+  summary?: Array<[string, string]>;
+  /** Line shown in place of the rows when there are none */
+  emptyMessage?: string;
+}
+
+export interface RenderedCell {
+  text: string;
+  value: ReportValue;
+  type: ReportColumnType;
+  align: "left" | "center" | "right";
+  bold: boolean;
+  highlight: ReportHighlight | null;
+  /** Fill from the column shade, without the leading # */
+  shade: string | null;
+}
+
+export interface RenderedLine {
+  kind: "row" | "group" | "subtotal" | "total";
+  label?: string;
+  cells: RenderedCell[];
+}
+
+export interface ExcelCell {
+  v?: ReportValue;
+  t?: string;
+  z?: string;
+  s?: Record<string, unknown>;
+}
+
+// The part of the xlsx utils the worksheet needs, XLSX.utils in either runtime
+export interface WorksheetUtils<W> {
+  aoa_to_sheet: (data: ExcelCell[][]) => W;
+}
+
+export const HIGHLIGHT_COLORS: Record<ReportHighlight, { fill: string; font: string }> = {
+  danger: { fill: "FFCCCB", font: "991B1B" },
+  success: { fill: "D1FAE5", font: "166534" },
+  warning: { fill: "FEF3C7", font: "92400E" },
+  info: { fill: "DBEAFE", font: "1E40AF" },
+  muted: { fill: "F3F4F6", font: "9CA3AF" },
+};
+
+export const NUMERIC_TYPES: ReportColumnType[] = ["number", "currency", "percent"];
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+const thinBorder = (rgb: string) => ({
+  top: { style: "thin", color: { rgb } },
+  bottom: { style: "thin", color: { rgb } },
+  left: { style: "thin", color: { rgb } },
+  right: { style: "thin", color: { rgb } },
+});
+
+// Blends from white to the accent green by intensity (0 to 1)
+const shadeFill = (intensity: number) => {
+  const mix = (channel: number) => Math.round(255 - (255 - channel) * Math.min(1, Math.max(0, intensity)))
+    .toString(16).padStart(2, "0").toUpperCase();
+  return `${mix(0x79)}${mix(0xE5)}${mix(0x8F)}`;
+};
+
+/**
+ * Whether a cell holds a number that is stored as one, rather than as its display text
+ */
+export const isNumericCell = (cell: Pick<RenderedCell, "type" | "value">) =>
+  NUMERIC_TYPES.includes(cell.type) && cell.value !== "" && cell.value !== null && cell.value !== undefined &&
+  Number.isFinite(Number(cell.value));
+
+export const formatPeso = (amount: number) =>
+  `${amount < 0 ? "-" : ""}₱${Math.abs(amount).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Plain dates (yyyy-MM-dd) are read as local midnight, like date-fns parseISO
+const toDate = (value: string | number) =>
+  typeof value === "string" && value.length === 10 ? new Date(`${value}T00:00:00`) : new Date(value);
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+/**
+ * Display text of a value for its column type
+ */
+export const formatReportValue = (value: ReportValue, type: ReportColumnType = "text") => {
+  if (value === null || value === undefined || value === "") return "";
+  if (NUMERIC_TYPES.includes(type)) {
+    const amount = Number(value);
+    if (!Number.isFinite(amount)) return String(value);
+    if (type === "currency") return formatPeso(amount);
+    if (type === "percent") return `${Math.round(amount * 10) / 10}%`;
+    return amount.toLocaleString("en-US", { maximumFractionDigits: 2 });
+  }
+  if (type === "date" || type === "datetime") {
+    const date = toDate(value);
+    if (Number.isNaN(date.getTime())) return String(value);
+    const day = `${MONTHS[date.getMonth()]} ${pad(date.getDate())}, ${date.getFullYear()}`;
+    if (type === "date") return day;
+    const hours = date.getHours();
+    return `${day} ${hours % 12 || 12}:${pad(date.getMinutes())} ${hours < 12 ? "AM" : "PM"}`;
+  }
+  return String(value);
+};
+
+/**
+ * Flattens a report into the lines every format renders: group headings, rows, subtotals and the total
+ */
+export const buildReportLines = <T>(report: ReportSheet<T>) => {
+  const lines: RenderedLine[] = [];
+  const counts = (row: T) => !report.excludeFromTotals?.(row);
+  const hasTotals = report.columns.some((column) => column.total);
+
+  const rowCells = (row: T): RenderedCell[] => {
+    const rowHighlight = report.rowHighlight?.(row) ?? null;
+    return report.columns.map((column) => {
+      const value = column.value(row);
+      const type = column.type ?? "text";
+      const intensity = column.shade?.(row);
+      return {
+        text: column.format ? column.format(value, row) : formatReportValue(value, type),
+        value,
+        type,
+        align: column.align ?? "center",
+        bold: !!column.bold,
+        highlight: column.highlight?.(row) ?? rowHighlight,
+        shade: intensity === null || intensity === undefined ? null : shadeFill(intensity),
+      };
+    });
+  };
+
+  const totalCells = (label: string, rows: T[]): RenderedCell[] => {
+    const included = rows.filter(counts);
+    return report.columns.map((column, index) => {
+      let value: ReportValue = index === 0 && !column.total ? label : "";
+      let type: ReportColumnType = "text";
+      if (column.total) {
+        const numbers = included.map((row) => Number(column.value(row))).filter((amount) => Number.isFinite(amount));
+        const sum = numbers.reduce((total, amount) => total + amount, 0);
+        type = column.total === "count" ? "number" : column.type ?? "number";
+        value = column.total === "count"
+          ? included.length
+          : column.total === "average"
+            ? (numbers.length ? Math.round((sum / numbers.length) * 100) / 100 : 0)
+            : Math.round(sum * 100) / 100;
+      }
+      return {
+        text: formatReportValue(value, type),
+        value,
+        type,
+        align: index === 0 && !column.total ? "left" : column.align ?? "center",
+        bold: true,
+        highlight: null,
+        shade: null,
+      };
+    });
+  };
+
+  if (report.groupBy) {
+    const groups = new Map<string, T[]>();
+    report.rows.forEach((row) => {
+      const key = report.groupBy!(row);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(row);
+    });
+    groups.forEach((rows, label) => {
+      lines.push({ kind: "group", label, cells: [] });
+      rows.forEach((row) => lines.push({ kind: "row", cells: rowCells(row) }));
+      if (report.subtotals && hasTotals) {
+        lines.push({ kind: "subtotal", label: `${label} Subtotal`, cells: totalCells(`${label} Subtotal`, rows) });
+      }
+    });
+  } else {
+    report.rows.forEach((row) => lines.push({ kind: "row", cells: rowCells(row) }));
+  }
+
+  if (report.grandTotal && hasTotals && report.rows.length > 0) {
+    lines.push({ kind: "total", label: "Total", cells: totalCells("Total", report.rows) });
+  }
+
+  return lines;
+};
+
+// Excel cell for a rendered value: numbers stay numbers with a display format, everything else is text
+const toExcelCell = (cell: RenderedCell, style: Record<string, unknown>): ExcelCell => {
+  if (!isNumericCell(cell)) return { v: cell.text, t: "s", s: style };
+  const amount = Number(cell.value);
+  if (cell.type === "currency") return { v: amount, t: "n", z: '"₱"#,##0.00;-"₱"#,##0.00', s: style };
+  if (cell.type === "percent") return { v: amount / 100, t: "n", z: "0.0%", s: style };
+  return { v: amount, t: "n", s: style };
+};
+
+/**
+ * Worksheet for a report: title block, header row, rows with alternating or highlighted fills,
+ * group headings, subtotals, totals and the summary lines
+ */
+export const buildReportWorksheet = <T, W>(report: ReportSheet<T>, generatedAt: string, utils: WorksheetUtils<W>) => {
+  const lines = buildReportLines(report);
+  const columnCount = report.columns.length;
+  const worksheetData: ExcelCell[][] = [];
+  const merges: Array<{ s: { r: number; c: number }; e: { r: number; c: number } }> = [];
+  const mergeRow = (row: number, fromColumn = 0, toColumn = columnCount - 1) => {
+    if (toColumn > fromColumn) merges.push({ s: { r: row, c: fromColumn }, e: { r: row, c: toColumn } });
+  };
+
+  worksheetData.push([{
+    v: `TAKEOVER BASKETBALL - ${report.title.toUpperCase()}`,
+    t: "s",
+    s: {
+      font: { bold: true, sz: 16, color: { rgb: "FFFFFF" } },
+      fill: { fgColor: { rgb: "242833" } },
+      alignment: { horizontal: "center", vertical: "center" },
+    },
+  }]);
+  mergeRow(0);
+
+  if (report.subtitle) {
+    worksheetData.push([{
+      v: report.subtitle,
+      t: "s",
+      s: { font: { bold: true, sz: 12, color: { rgb: "242833" } }, alignment: { horizontal: "center" } },
+    }]);
+    mergeRow(worksheetData.length - 1);
+  }
+
+  worksheetData.push([{
+    v: `Generated: ${generatedAt}`,
+    t: "s",
+    s: { font: { italic: true, sz: 10, color: { rgb: "666666" } }, alignment: { horizontal: "center" } },
+  }]);
+  mergeRow(worksheetData.length - 1);
+  worksheetData.push([]);
+
+  const headerFill = report.headerStyle === "dark" ? "242833" : "79E58F";
+  worksheetData.push(report.columns.map((column) => ({
+    v: column.header,
+    t: "s",
+    s: {
+      font: { bold: true, sz: 11, color: { rgb: "FFFFFF" } },
+      fill: { fgColor: { rgb: headerFill } },
+      alignment: { horizontal: "center", vertical: "center", wrapText: true },
+      border: thinBorder("242833"),
+    },
+  })));
+  const headerRowIndex = worksheetData.length - 1;
+
+  let dataRowIndex = 0;
+  lines.forEach((line) => {
+    if (line.kind === "group") {
+      const style = {
+        font: { bold: true, sz: 11, color: { rgb: "242833" } },
+        fill: { fgColor: { rgb: "E8E8E8" } },
+        alignment: { horizontal: "left" },
+        border: thinBorder("242833"),
+      };
+      worksheetData.push(report.columns.map((_, index) => ({ v: index === 0 ? line.label : "", t: "s", s: style })));
+      mergeRow(worksheetData.length - 1);
+      dataRowIndex = 0;
+      return;
+    }
+
+    const isTotal = line.kind !== "row";
+    const stripe = dataRowIndex++ % 2 === 0 ? "F8F9FA" : "FFFFFF";
+    worksheetData.push(line.cells.map((cell) => {
+      const colors = cell.highlight ? HIGHLIGHT_COLORS[cell.highlight] : null;
+      return toExcelCell(cell, {
+        font: { sz: isTotal ? 11 : 10, bold: cell.bold || isTotal, color: { rgb: colors?.font ?? (isTotal ? "242833" : "333333") } },
+        fill: { fgColor: { rgb: colors?.fill ?? cell.shade ?? (line.kind === "total" ? "D1FAE5" : isTotal ? "E8E8E8" : stripe) } },
+        alignment: { horizontal: cell.align, vertical: "center" },
+        border: isTotal ? thinBorder("242833") : thinBorder("E0E0E0"),
+      });
+    }));
+  });
+
+  if (report.rows.length === 0 && report.emptyMessage) {
+    const style = { font: { italic: true, sz: 10, color: { rgb: "666666" } }, alignment: { horizontal: "center" } };
+    worksheetData.push(report.columns.map((_, index) => ({ v: index === 0 ? report.emptyMessage : "", t: "s", s: style })));
+    mergeRow(worksheetData.length - 1);
+  }
+
+  if (report.summary?.length) {
+    worksheetData.push([]);
+    report.summary.forEach(([label, value], index) => {
+      const isLast = index === report.summary!.length - 1;
+      const style = {
+        font: { bold: true, sz: 11, color: { rgb: "242833" } },
+        fill: { fgColor: { rgb: isLast ? "D1FAE5" : "E8E8E8" } },
+        alignment: { horizontal: "left" },
+        border: thinBorder("242833"),
+      };
+      const row: ExcelCell[] = report.columns.map((_, column) => ({ v: column === 0 ? label : "", t: "s", s: style }));
+      if (columnCount > 1) {
+        row[columnCount - 1] = { v: value, t: "s", s: { ...style, alignment: { horizontal: "right" } } };
+        mergeRow(worksheetData.length, 0, columnCount - 2);
+      } else {
+        row[0] = { v: `${label}: ${value}`, t: "s", s: style };
+      }
+      worksheetData.push(row);
+    });
+  }
+
+  const worksheet = utils.aoa_to_sheet(worksheetData);
+  const sheet = worksheet as unknown as Record<string, unknown>;
+  sheet["!cols"] = report.columns.map((column, index) => {
+    if (column.width) return { wch: column.width };
+    const longest = Math.max(
+      column.header.length,
+      ...lines.filter((line) => line.kind === "row").map((line) => line.cells[index].text.length),
+    );
+    return { wch: Math.min(Math.max(longest + 4, 14), 45) };
+  });
+  sheet["!merges"] = merges;
+  sheet["!rows"] = worksheetData.map((_, index) => ({ hpt: index === 0 ? 30 : index === headerRowIndex ? 25 : index < headerRowIndex ? 18 : 22 }));
+  return worksheet;
+};
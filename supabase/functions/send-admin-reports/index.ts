@@ -0,0 +1,622 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import XLSX from "https://esm.sh/xlsx-js-style@1.2.0";
+import { createNotifier, escapeHtml, type DeliveryResult } from "../_shared/notifications.ts";
+import { buildReportWorksheet, formatPeso, type ReportSheet } from "../_shared/reportWorksheet.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type SupabaseAdmin = ReturnType<typeof createClient>;
+type Notifier = ReturnType<typeof createNotifier>;
+type Worksheet = ReturnType<typeof XLSX.utils.aoa_to_sheet>;
+
+type ReportKey = "sessions" | "attendance" | "enrollments" | "collections" | "overdue_balances" | "expiring_packages";
+
+interface AdminReportsRequest {
+  // "weekly": Monday morning run of the scheduled job, for every active subscription
+  // "send_now": an admin sends last week's reports to one subscription right away
+  type: "weekly" | "send_now";
+  subscriptionId?: string;
+}
+
+interface Period {
+  start: string;
+  end: string;
+  today: string;
+}
+
+interface Subscription {
+  id: string;
+  coach_id: string;
+  reports: ReportKey[];
+  branch_id: string | null;
+  coaches: { name: string | null; email: string | null; role: string | null } | null;
+}
+
+interface SessionRow {
+  id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  status: string;
+  branch_id: string;
+  package_type: string | null;
+  session_coaches: { coaches: { name: string } | null }[];
+  session_participants: { count: number }[];
+}
+
+interface AttendanceRow {
+  session_id: string;
+  status: string;
+}
+
+interface StudentRow {
+  id: string;
+  name: string;
+  branch_id: string | null;
+  package_type: string | null;
+  enrollment_date: string | null;
+  expiration_date: string | null;
+  created_at: string;
+  total_training_fee: number | null;
+  downpayment: number | null;
+  remaining_balance: number | null;
+  remaining_sessions: number;
+}
+
+interface PaymentRow {
+  id: string;
+  payment_amount: number;
+  payment_date: string;
+  payment_for: string | null;
+  transaction_type: string;
+  students: { name: string; branch_id: string | null } | null;
+}
+
+interface InstallmentRow {
+  student_id: string;
+  amount: number;
+  paid_amount: number;
+  due_date: string;
+}
+
+interface ReportData {
+  branches: Map<string, string>;
+  sessions: SessionRow[];
+  attendance: AttendanceRow[];
+  enrollments: StudentRow[];
+  payments: PaymentRow[];
+  balances: StudentRow[];
+  overdueInstallments: InstallmentRow[];
+  expiring: StudentRow[];
+}
+
+interface OverdueRow {
+  student: StudentRow;
+  overdueAmount: number;
+  oldestDueDate: string | null;
+  daysOutstanding: number;
+}
+
+interface SessionAttendance {
+  session: SessionRow;
+  attended: number;
+  absent: number;
+  excused: number;
+  unmarked: number;
+}
+
+// Built sheet and the headline figure shown in the email for one report
+interface RenderedReport {
+  worksheet: [string, Worksheet];
+  label: string;
+  value: string;
+}
+
+const REPORT_ORDER: ReportKey[] = ["sessions", "attendance", "enrollments", "collections", "overdue_balances", "expiring_packages"];
+const REPORTS_BUCKET = "reports";
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+const EXPIRING_WITHIN_DAYS = 14;
+const LOW_SESSIONS = 2;
+const OVERDUE_AFTER_DAYS = 30;
+const MANILA_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STUDENT_COLUMNS = "id, name, branch_id, package_type, enrollment_date, expiration_date, created_at, total_training_fee, downpayment, remaining_balance, remaining_sessions";
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...corsHeaders,
+    },
+  });
+
+const toDateString = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (dateString: string, days: number) =>
+  toDateString(new Date(new Date(`${dateString}T00:00:00Z`).getTime() + days * DAY_MS));
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS);
+
+// Monday to Sunday of the week before today, in Manila time
+const getLastWeek = (): Period => {
+  const today = toDateString(new Date(Date.now() + MANILA_OFFSET_MS));
+  const daysSinceMonday = (new Date(`${today}T00:00:00Z`).getUTCDay() + 6) % 7;
+  const end = addDays(today, -daysSinceMonday - 1);
+  return { start: addDays(end, -6), end, today };
+};
+
+const formatDate = (dateString: string) =>
+  new Date(`${dateString}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const formatTime = (timeString: string) => {
+  const [hours, minutes] = timeString.split(":");
+  const hour = parseInt(hours);
+  return `${hour % 12 || 12}:${minutes} ${hour >= 12 ? "PM" : "AM"}`;
+};
+
+const percent = (part: number, total: number) => total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+
+const loadReportData = async (supabaseAdmin: SupabaseAdmin, period: Period): Promise<ReportData> => {
+  const [branchesRes, sessionsRes, enrollmentsRes, paymentsRes, balancesRes, installmentsRes, expiringRes] = await Promise.all([
+    supabaseAdmin.from("branches").select("id, name"),
+    supabaseAdmin
+      .from("training_sessions")
+      .select("id, date, start_time, end_time, status, branch_id, package_type, session_coaches (coaches (name)), session_participants (count)")
+      .gte("date", period.start)
+      .lte("date", period.end)
+      .order("date")
+      .order("start_time"),
+    supabaseAdmin
+      .from("students")
+      .select(STUDENT_COLUMNS)
+      .gte("enrollment_date", period.start)
+      .lte("enrollment_date", period.end)
+      .order("enrollment_date"),
+    supabaseAdmin
+      .from("student_payments")
+      .select("id, payment_amount, payment_date, payment_for, transaction_type, students (name, branch_id)")
+      .is("voided_at", null)
+      .gte("payment_date", `${period.start}T00:00:00+08:00`)
+      .lte("payment_date", `${period.end}T23:59:59.999+08:00`)
+      .order("payment_date"),
+    supabaseAdmin
+      .from("students")
+      .select(STUDENT_COLUMNS)
+      .gt("remaining_balance", 0),
+    supabaseAdmin
+      .from("student_installments")
+      .select("student_id, amount, paid_amount, due_date")
+      .lt("due_date", period.today),
+    supabaseAdmin
+      .from("students")
+      .select(STUDENT_COLUMNS)
+      .gte("expiration_date", period.today)
+      .or(`expiration_date.lte.${addDays(period.today, EXPIRING_WITHIN_DAYS)},remaining_sessions.lte.${LOW_SESSIONS}`)
+      .order("expiration_date"),
+  ]);
+  const failed = [branchesRes, sessionsRes, enrollmentsRes, paymentsRes, balancesRes, installmentsRes, expiringRes]
+    .find((result) => result.error);
+  if (failed?.error) throw failed.error;
+
+  const sessions = (sessionsRes.data || []) as SessionRow[];
+  let attendance: AttendanceRow[] = [];
+  if (sessions.length > 0) {
+    const { data, error } = await supabaseAdmin
+      .from("attendance_records")
+      .select("session_id, status")
+      .in("session_id", sessions.map((session) => session.id));
+    if (error) throw error;
+    attendance = (data || []) as AttendanceRow[];
+  }
+
+  return {
+    branches: new Map(((branchesRes.data || []) as { id: string; name: string }[]).map((branch) => [branch.id, branch.name])),
+    sessions,
+    attendance,
+    enrollments: (enrollmentsRes.data || []) as StudentRow[],
+    payments: (paymentsRes.data || []) as PaymentRow[],
+    balances: (balancesRes.data || []) as StudentRow[],
+    overdueInstallments: ((installmentsRes.data || []) as InstallmentRow[])
+      .filter((installment) => Number(installment.paid_amount) < Number(installment.amount)),
+    expiring: (expiringRes.data || []) as StudentRow[],
+  };
+};
+
+/**
+ * Sheets for the reports a subscription picked, limited to its branch, with the figures for the email
+ */
+const renderReports = (data: ReportData, subscription: Subscription, period: Period, generatedAt: string) => {
+  const branchId = subscription.branch_id;
+  const inBranch = (id: string | null | undefined) => !branchId || id === branchId;
+  const branchName = (id: string | null | undefined) => (id && data.branches.get(id)) || "—";
+  const subtitle = `${formatDate(period.start)} - ${formatDate(period.end)}${branchId ? ` · ${branchName(branchId)}` : ""}`;
+  const build = <T>(sheet: ReportSheet<T>): RenderedReport["worksheet"] => [
+    sheet.sheetName ?? sheet.title,
+    buildReportWorksheet({ emptyMessage: "Nothing to report for this period", ...sheet }, generatedAt, XLSX.utils),
+  ];
+
+  const sessions = data.sessions.filter((session) => inBranch(session.branch_id));
+  const reports: Record<ReportKey, () => RenderedReport> = {
+    sessions: () => {
+      const held = sessions.filter((session) => session.status === "completed").length;
+      const cancelled = sessions.filter((session) => session.status === "cancelled").length;
+      return {
+        label: "Sessions held",
+        value: `${held} of ${sessions.length}${cancelled ? ` (${cancelled} cancelled)` : ""}`,
+        worksheet: build<SessionRow>({
+          title: "Weekly Sessions",
+          subtitle,
+          sheetName: "Sessions",
+          rows: sessions,
+          rowHighlight: (session) => session.status === "cancelled" ? "muted" : session.status === "scheduled" ? "warning" : null,
+          columns: [
+            { header: "Date", value: (session) => session.date, type: "date", bold: true },
+            { header: "Time", value: (session) => `${formatTime(session.start_time)} - ${formatTime(session.end_time)}` },
+            { header: "Branch", value: (session) => branchName(session.branch_id) },
+            { header: "Package Type", value: (session) => session.package_type },
+            { header: "Coaches", value: (session) => session.session_coaches.map((sessionCoach) => sessionCoach.coaches?.name).filter(Boolean).join(", ") },
+            { header: "Status", value: (session) => session.status.charAt(0).toUpperCase() + session.status.slice(1) },
+            { header: "Players", value: (session) => session.session_participants?.[0]?.count || 0, type: "number", total: "sum" },
+          ],
+          grandTotal: true,
+          summary: [
+            ["Sessions Held", String(held)],
+            ["Cancelled", String(cancelled)],
+            ["Not Closed Out", String(sessions.length - held - cancelled)],
+          ],
+        }),
+      };
+    },
+    attendance: () => {
+      const bySession = new Map<string, SessionAttendance>(
+        sessions
+          .filter((session) => session.status !== "cancelled")
+          .map((session) => [session.id, { session, attended: 0, absent: 0, excused: 0, unmarked: 0 }])
+      );
+      data.attendance.forEach((record) => {
+        const row = bySession.get(record.session_id);
+        if (!row) return;
+        if (record.status === "present" || record.status === "late") row.attended++;
+        else if (record.status === "absent") row.absent++;
+        else if (record.status === "excused") row.excused++;
+        else row.unmarked++;
+      });
+      const rows = [...bySession.values()];
+      const attended = rows.reduce((sum, row) => sum + row.attended, 0);
+      const marked = rows.reduce((sum, row) => sum + row.attended + row.absent + row.excused, 0);
+      const rate = percent(attended, marked);
+      const rowRate = (row: SessionAttendance) => percent(row.attended, row.attended + row.absent + row.excused);
+      return {
+        label: "Attendance rate",
+        value: `${rate}% (${attended} of ${marked} marked)`,
+        worksheet: build<SessionAttendance>({
+          title: "Weekly Attendance",
+          subtitle,
+          sheetName: "Attendance",
+          rows,
+          columns: [
+            { header: "Date", value: (row) => row.session.date, type: "date", bold: true },
+            { header: "Time", value: (row) => `${formatTime(row.session.start_time)} - ${formatTime(row.session.end_time)}` },
+            { header: "Branch", value: (row) => branchName(row.session.branch_id) },
+            { header: "Attended", value: (row) => row.attended, type: "number", total: "sum" },
+            { header: "Absent", value: (row) => row.absent, type: "number", total: "sum" },
+            { header: "Excused", value: (row) => row.excused, type: "number", total: "sum" },
+            { header: "Not Marked", value: (row) => row.unmarked, type: "number", total: "sum" },
+            {
+              header: "Attendance Rate",
+              value: (row) => rowRate(row),
+              type: "percent",
+              highlight: (row) => row.attended + row.absent + row.excused > 0 && rowRate(row) < 70 ? "danger" : null,
+            },
+          ],
+          grandTotal: true,
+          summary: [["Attendance Rate", `${rate}%`]],
+        }),
+      };
+    },
+    enrollments: () => {
+      const rows = data.enrollments.filter((student) => inBranch(student.branch_id));
+      return {
+        label: "New enrollments",
+        value: String(rows.length),
+        worksheet: build<StudentRow>({
+          title: "New Enrollments",
+          subtitle,
+          sheetName: "Enrollments",
+          rows,
+          columns: [
+            { header: "Player", value: (student) => student.name, bold: true },
+            { header: "Branch", value: (student) => branchName(student.branch_id) },
+            { header: "Package Type", value: (student) => student.package_type },
+            { header: "Enrollment Date", value: (student) => student.enrollment_date, type: "date" },
+            { header: "Training Fee", value: (student) => Number(student.total_training_fee || 0), type: "currency", total: "sum" },
+            { header: "Downpayment", value: (student) => Number(student.downpayment || 0), type: "currency", total: "sum" },
+          ],
+          grandTotal: true,
+          summary: [["New Players", String(rows.length)]],
+        }),
+      };
+    },
+    collections: () => {
+      const rows = data.payments.filter((payment) => inBranch(payment.students?.branch_id));
+      const collected = rows.reduce((sum, payment) => sum + Number(payment.payment_amount), 0);
+      const refunded = rows.filter((payment) => payment.payment_amount < 0).reduce((sum, payment) => sum + Number(payment.payment_amount), 0);
+      return {
+        label: "Collections",
+        value: `${formatPeso(collected)} from ${rows.length} payment${rows.length !== 1 ? "s" : ""}`,
+        worksheet: build<PaymentRow>({
+          title: "Weekly Collections",
+          subtitle,
+          sheetName: "Collections",
+          rows,
+          rowHighlight: (payment) => payment.payment_amount < 0 ? "danger" : null,
+          columns: [
+            { header: "Date", value: (payment) => toDateString(new Date(new Date(payment.payment_date).getTime() + MANILA_OFFSET_MS)), type: "date" },
+            { header: "Player", value: (payment) => payment.students?.name, bold: true },
+            { header: "Branch", value: (payment) => branchName(payment.students?.branch_id) },
+            {
+              header: "Type",
+              value: (payment) => payment.transaction_type === "refund"
+                ? "Refund"
+                : payment.payment_for === "extra_charge" ? "Extra Charge" : "Training Balance",
+            },
+            { header: "Amount", value: (payment) => Number(payment.payment_amount), type: "currency", bold: true, total: "sum" },
+          ],
+          grandTotal: true,
+          summary: [
+            ["Refunds", formatPeso(refunded)],
+            ["Net Collections", formatPeso(collected)],
+          ],
+        }),
+      };
+    },
+    overdue_balances: () => {
+      const installmentsByStudent = new Map<string, InstallmentRow[]>();
+      data.overdueInstallments.forEach((installment) => {
+        if (!installmentsByStudent.has(installment.student_id)) installmentsByStudent.set(installment.student_id, []);
+        installmentsByStudent.get(installment.student_id)!.push(installment);
+      });
+      const rows = data.balances
+        .filter((student) => inBranch(student.branch_id))
+        .map((student): OverdueRow => {
+          const installments = installmentsByStudent.get(student.id) || [];
+          const oldestDueDate = installments.map((installment) => installment.due_date).sort()[0] ?? null;
+          return {
+            student,
+            overdueAmount: installments.reduce((sum, installment) => sum + Number(installment.amount) - Number(installment.paid_amount), 0),
+            oldestDueDate,
+            daysOutstanding: daysBetween(oldestDueDate ?? student.enrollment_date ?? student.created_at.slice(0, 10), period.today),
+          };
+        })
+        .filter((row) => row.overdueAmount > 0 || row.daysOutstanding > OVERDUE_AFTER_DAYS)
+        .sort((a, b) => b.daysOutstanding - a.daysOutstanding);
+      const outstanding = rows.reduce((sum, row) => sum + Number(row.student.remaining_balance || 0), 0);
+      return {
+        label: "Overdue balances",
+        value: `${formatPeso(outstanding)} across ${rows.length} player${rows.length !== 1 ? "s" : ""}`,
+        worksheet: build<OverdueRow>({
+          title: "Overdue Balances",
+          subtitle: `As of ${formatDate(period.today)}${branchId ? ` · ${branchName(branchId)}` : ""}`,
+          sheetName: "Overdue Balances",
+          rows,
+          rowHighlight: (row) => row.daysOutstanding > 60 ? "danger" : "warning",
+          columns: [
+            { header: "Player", value: (row) => row.student.name, bold: true },
+            { header: "Branch", value: (row) => branchName(row.student.branch_id) },
+            { header: "Package Type", value: (row) => row.student.package_type },
+            { header: "Remaining Balance", value: (row) => Number(row.student.remaining_balance || 0), type: "currency", bold: true, total: "sum" },
+            { header: "Overdue Installments", value: (row) => row.overdueAmount, type: "currency", total: "sum" },
+            { header: "Oldest Due Date", value: (row) => row.oldestDueDate, type: "date" },
+            { header: "Days Outstanding", value: (row) => row.daysOutstanding, type: "number" },
+          ],
+          grandTotal: true,
+          summary: [["Total Overdue", formatPeso(outstanding)]],
+        }),
+      };
+    },
+    expiring_packages: () => {
+      const rows = data.expiring.filter((student) => inBranch(student.branch_id));
+      const until = addDays(period.today, EXPIRING_WITHIN_DAYS);
+      return {
+        label: "Expiring packages",
+        value: String(rows.length),
+        worksheet: build<StudentRow>({
+          title: "Expiring Packages",
+          subtitle: `Expiring by ${formatDate(until)} or ${LOW_SESSIONS} sessions or fewer left${branchId ? ` · ${branchName(branchId)}` : ""}`,
+          sheetName: "Expiring Packages",
+          rows,
+          columns: [
+            { header: "Player", value: (student) => student.name, bold: true },
+            { header: "Branch", value: (student) => branchName(student.branch_id) },
+            { header: "Package Type", value: (student) => student.package_type },
+            {
+              header: "Expiration Date",
+              value: (student) => student.expiration_date,
+              type: "date",
+              highlight: (student) => student.expiration_date && student.expiration_date <= until ? "warning" : null,
+            },
+            {
+              header: "Sessions Left",
+              value: (student) => student.remaining_sessions,
+              type: "number",
+              highlight: (student) => student.remaining_sessions <= 0 ? "danger" : student.remaining_sessions <= LOW_SESSIONS ? "warning" : null,
+            },
+            { header: "Remaining Balance", value: (student) => Number(student.remaining_balance || 0), type: "currency" },
+          ],
+          summary: [["Packages to Renew", String(rows.length)]],
+        }),
+      };
+    },
+  };
+
+  return REPORT_ORDER.filter((key) => subscription.reports.includes(key)).map((key) => reports[key]());
+};
+
+// One workbook from the sheets of each report, as the bytes of an .xlsx file
+const buildReportWorkbook = (worksheets: Array<[string, Worksheet]>) => {
+  const workbook = XLSX.utils.book_new();
+  worksheets.forEach(([sheetName, worksheet]) => {
+    XLSX.utils.book_append_sheet(workbook, worksheet, sheetName.slice(0, 31));
+  });
+  return new Uint8Array(XLSX.write(workbook, { bookType: "xlsx", type: "array" }));
+};
+
+// Render, store and email the reports of one subscription, and record the send in sent_reports
+const sendSubscriptionReport = async (
+  supabaseAdmin: SupabaseAdmin,
+  notifier: Notifier,
+  subscription: Subscription,
+  data: ReportData,
+  period: Period,
+  trigger: "schedule" | "manual"
+) => {
+  const recipient = subscription.coaches?.email ?? "";
+  const generatedAt = new Date(Date.now() + MANILA_OFFSET_MS).toISOString().slice(0, 16).replace("T", " ");
+  const rendered = renderReports(data, subscription, period, generatedAt);
+  const summary = Object.fromEntries(rendered.map((report) => [report.label, report.value]));
+  const filename = `takeover_weekly_report_${period.start}_to_${period.end}.xlsx`;
+  const filePath = `${period.start}_${period.end}/${subscription.id}_${Date.now()}.xlsx`;
+  let results: DeliveryResult[] = [];
+  let uploaded = false;
+  let error: string | null = null;
+
+  try {
+    if (!recipient) throw new Error("The subscribed admin has no email address");
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from(REPORTS_BUCKET)
+      .upload(filePath, buildReportWorkbook(rendered.map((report) => report.worksheet)), { contentType: XLSX_CONTENT_TYPE });
+    if (uploadError) throw uploadError;
+    uploaded = true;
+
+    results = await notifier.notify({
+      eventType: "weekly_admin_report",
+      recipient: { name: subscription.coaches?.name, email: recipient },
+      variables: {
+        period: `${formatDate(period.start)} - ${formatDate(period.end)}`,
+        branch_note: subscription.branch_id ? ` at ${data.branches.get(subscription.branch_id) ?? "your branch"}` : "",
+        summary: rendered
+          .map((report) => `<strong>${escapeHtml(report.label)}:</strong> ${escapeHtml(report.value)}`)
+          .join("<br>"),
+        attachment_name: filename,
+      },
+      trustedHtmlVariables: ["summary"],
+      attachments: [{ filename, content_type: XLSX_CONTENT_TYPE, bucket: REPORTS_BUCKET, path: filePath }],
+    });
+    const emailResult = results.find((result) => result.channel === "email");
+    if (!emailResult) throw new Error("The weekly_admin_report email template is switched off");
+    if (!emailResult.success) throw new Error(emailResult.error || "Email could not be sent");
+  } catch (sendError) {
+    error = (sendError as Error).message || String(sendError);
+    console.error(`Weekly report for subscription ${subscription.id} failed:`, sendError);
+  }
+
+  const { error: historyError } = await supabaseAdmin.from("sent_reports").insert({
+    subscription_id: subscription.id,
+    coach_id: subscription.coach_id,
+    recipient: recipient || "—",
+    period_start: period.start,
+    period_end: period.end,
+    reports: REPORT_ORDER.filter((key) => subscription.reports.includes(key)),
+    summary,
+    file_path: uploaded ? filePath : null,
+    delivery_id: results.find((result) => result.channel === "email")?.id ?? null,
+    trigger,
+    status: error ? "failed" : "sent",
+    error,
+  });
+  if (historyError) {
+    console.error(`Error recording weekly report for subscription ${subscription.id}:`, historyError);
+  }
+
+  return { subscriptionId: subscription.id, recipient, success: !error, error: error ?? undefined };
+};
+
+// Only admins may send reports on demand, the function itself runs with the service role
+const assertAdmin = async (supabaseAdmin: SupabaseAdmin, token: string) => {
+  const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+  if (userError || !user) throw new Error("Not signed in");
+  const { data: coach } = await supabaseAdmin
+    .from("coaches")
+    .select("role")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+  if (coach?.role !== "admin") throw new Error("Only admins can send reports");
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        }
+      }
+    );
+    const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    const { type, subscriptionId }: AdminReportsRequest = await req.json();
+
+    if (type !== "weekly" && type !== "send_now") {
+      throw new Error(`Unknown report type: ${type}`);
+    }
+    if (type === "weekly" && token !== serviceRoleKey) {
+      return jsonResponse({ success: false, error: "Not allowed" }, 403);
+    }
+    if (type === "send_now") {
+      await assertAdmin(supabaseAdmin, token);
+      if (!subscriptionId) throw new Error("subscriptionId is required");
+    }
+
+    let query = supabaseAdmin
+      .from("report_subscriptions")
+      .select("id, coach_id, reports, branch_id, coaches (name, email, role)")
+      .eq("is_active", true);
+    if (type === "send_now") query = query.eq("id", subscriptionId);
+    const { data: subscriptionRows, error: subscriptionsError } = await query;
+    if (subscriptionsError) throw subscriptionsError;
+
+    // Subscriptions of coaches who are no longer admins are kept but not sent
+    const subscriptions = ((subscriptionRows || []) as Subscription[])
+      .filter((subscription) => subscription.coaches?.role === "admin");
+    if (subscriptions.length === 0) {
+      return jsonResponse({ success: true, results: [], message: "No active report subscriptions" });
+    }
+
+    const period = getLastWeek();
+    const data = await loadReportData(supabaseAdmin, period);
+    const notifier = createNotifier(supabaseAdmin);
+    const results = [];
+    for (const subscription of subscriptions) {
+      results.push(await sendSubscriptionReport(supabaseAdmin, notifier, subscription, data, period, type === "weekly" ? "schedule" : "manual"));
+    }
+
+    const sent = results.filter((result) => result.success).length;
+    return jsonResponse({
+      success: true,
+      results,
+      message: `Weekly report sent to ${sent} of ${results.length} admin${results.length !== 1 ? "s" : ""}`,
+    });
+  } catch (error) {
+    console.error("Error in send-admin-reports function:", error);
+    return jsonResponse({
+      success: false,
+      error: (error as Error).message || "Failed to send reports",
+    }, 500);
+  }
+};
+
+serve(handler);
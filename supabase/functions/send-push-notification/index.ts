@@ -0,0 +1,275 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type",
+};
+
+type PreferenceKey = "session_assigned" | "session_changed" | "time_in_reminder" | "absence_warning";
+
+interface PushNotificationRequest {
+  // "public_key": the VAPID key browsers need to subscribe, open to any signed in user
+  // "test": a test notification to the devices of the signed in user
+  // "session_assigned" / "session_changed": sent by database triggers
+  // "reminders": sent every 5 minutes by the scheduled job
+  type: "public_key" | "test" | "session_assigned" | "session_changed" | "reminders";
+  sessionId?: string;
+  coachId?: string;
+  change?: "updated" | "cancelled";
+}
+
+interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+interface PushSubscriptionRow {
+  id: string;
+  user_id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...corsHeaders,
+    },
+  });
+
+const formatDate = (dateString: string) => {
+  try {
+    const date = new Date(dateString + 'T00:00:00');
+    return date.toLocaleDateString('en-US', {
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric'
+    });
+  } catch {
+    return dateString;
+  }
+};
+
+const formatTime = (timeString: string) => {
+  try {
+    const [hours, minutes] = timeString.split(':');
+    const hour = parseInt(hours);
+    const ampm = hour >= 12 ? 'PM' : 'AM';
+    const displayHour = hour % 12 || 12;
+    return `${displayHour}:${minutes} ${ampm}`;
+  } catch {
+    return timeString;
+  }
+};
+
+// Push to every device of the given users that hasn't switched this kind of notification off.
+// Subscriptions the push service reports as gone are deleted.
+const sendToUsers = async (
+  supabaseAdmin: ReturnType<typeof createClient>,
+  userIds: string[],
+  preference: PreferenceKey | null,
+  payload: PushPayload
+) => {
+  const uniqueUserIds = [...new Set(userIds.filter(Boolean))];
+  if (uniqueUserIds.length === 0) return { sent: 0, failed: 0 };
+
+  let recipients = uniqueUserIds;
+  if (preference) {
+    const { data: preferences, error: preferencesError } = await supabaseAdmin
+      .from("notification_preferences")
+      .select(`user_id, ${preference}`)
+      .in("user_id", uniqueUserIds);
+    if (preferencesError) throw preferencesError;
+    const optedOut = new Set(
+      (preferences || [])
+        .filter((row: Record<string, unknown>) => row[preference] === false)
+        .map((row: Record<string, unknown>) => row.user_id as string)
+    );
+    recipients = uniqueUserIds.filter((userId) => !optedOut.has(userId));
+  }
+  if (recipients.length === 0) return { sent: 0, failed: 0 };
+
+  const { data: subscriptions, error: subscriptionsError } = await supabaseAdmin
+    .from("push_subscriptions")
+    .select("id, user_id, endpoint, p256dh, auth")
+    .in("user_id", recipients);
+  if (subscriptionsError) throw subscriptionsError;
+
+  let sent = 0;
+  let failed = 0;
+  for (const subscription of (subscriptions || []) as PushSubscriptionRow[]) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        JSON.stringify(payload)
+      );
+      sent++;
+      await supabaseAdmin
+        .from("push_subscriptions")
+        .update({ last_used_at: new Date().toISOString() })
+        .eq("id", subscription.id);
+    } catch (error) {
+      failed++;
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) {
+        await supabaseAdmin.from("push_subscriptions").delete().eq("id", subscription.id);
+      } else {
+        console.error(`Error sending push to ${subscription.endpoint}:`, error);
+      }
+    }
+  }
+
+  return { sent, failed };
+};
+
+const loadSession = async (supabaseAdmin: ReturnType<typeof createClient>, sessionId: string) => {
+  const { data: session, error } = await supabaseAdmin
+    .from("training_sessions")
+    .select(`
+      id,
+      date,
+      start_time,
+      end_time,
+      status,
+      branches (name),
+      session_coaches (coach_id, coaches (auth_id)),
+      session_participants (students (auth_id))
+    `)
+    .eq("id", sessionId)
+    .single();
+  if (error) throw error;
+  return session;
+};
+
+const handler = async (req: Request): Promise<Response> => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      {
+        auth: {
+          autoRefreshToken: false,
+          persistSession: false,
+        }
+      }
+    );
+
+    const vapidPublicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+    const vapidPrivateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+    if (!vapidPublicKey || !vapidPrivateKey) {
+      throw new Error("VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY secrets are not set");
+    }
+    webpush.setVapidDetails(
+      Deno.env.get("VAPID_SUBJECT") || "mailto:admin@takeoverbasketball.com",
+      vapidPublicKey,
+      vapidPrivateKey
+    );
+
+    const { type, sessionId, coachId, change }: PushNotificationRequest = await req.json();
+    const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+
+    if (type === "public_key") {
+      return jsonResponse({ success: true, publicKey: vapidPublicKey });
+    }
+
+    if (type === "test") {
+      const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(token);
+      if (userError || !user) {
+        return jsonResponse({ success: false, error: "Not signed in" }, 401);
+      }
+      const result = await sendToUsers(supabaseAdmin, [user.id], null, {
+        title: "Notifications are on",
+        body: "You will get session updates and reminders on this device.",
+        url: "/dashboard",
+        tag: "test",
+      });
+      return jsonResponse({ success: true, ...result });
+    }
+
+    // Everything else is only sent by the database
+    if (token !== serviceRoleKey) {
+      return jsonResponse({ success: false, error: "Not allowed" }, 403);
+    }
+
+    if (type === "session_assigned" || type === "session_changed") {
+      if (!sessionId) {
+        throw new Error("sessionId is required");
+      }
+      const session = await loadSession(supabaseAdmin, sessionId);
+      const when = `${formatDate(session.date)}, ${formatTime(session.start_time)} - ${formatTime(session.end_time)}`;
+      const branch = session.branches?.name || "your branch";
+
+      if (type === "session_assigned") {
+        const coach = (session.session_coaches || []).find(
+          (sessionCoach: { coach_id: string }) => sessionCoach.coach_id === coachId
+        );
+        const result = await sendToUsers(supabaseAdmin, [coach?.coaches?.auth_id], "session_assigned", {
+          title: "New session assigned",
+          body: `${when} at ${branch}`,
+          url: "/dashboard",
+          tag: `session-${sessionId}`,
+        });
+        return jsonResponse({ success: true, ...result });
+      }
+
+      const userIds = [
+        ...(session.session_coaches || []).map((sessionCoach: { coaches: { auth_id: string | null } | null }) => sessionCoach.coaches?.auth_id),
+        ...(session.session_participants || []).map((participant: { students: { auth_id: string | null } | null }) => participant.students?.auth_id),
+      ];
+      const result = await sendToUsers(supabaseAdmin, userIds, "session_changed", {
+        title: change === "cancelled" ? "Session cancelled" : "Session updated",
+        body: change === "cancelled"
+          ? `The session on ${when} at ${branch} was cancelled`
+          : `Now on ${when} at ${branch}`,
+        url: "/dashboard",
+        tag: `session-${sessionId}`,
+      });
+      return jsonResponse({ success: true, ...result });
+    }
+
+    if (type === "reminders") {
+      const { data: reminders, error: remindersError } = await supabaseAdmin.rpc("claim_due_push_reminders");
+      if (remindersError) throw remindersError;
+
+      let sent = 0;
+      let failed = 0;
+      for (const reminder of reminders || []) {
+        const isReminder = reminder.kind === "time_in_reminder";
+        const result = await sendToUsers(supabaseAdmin, [reminder.user_id], reminder.kind, {
+          title: isReminder ? "Session starts soon" : "You haven't timed in",
+          body: isReminder
+            ? `Your session at ${reminder.branch_name || "your branch"} starts at ${formatTime(reminder.start_time)}. Remember to time in.`
+            : `Time in within 15 minutes or you will be marked absent for the ${formatTime(reminder.start_time)} session.`,
+          url: "/dashboard",
+          tag: `${reminder.kind}-${reminder.session_id}`,
+        });
+        sent += result.sent;
+        failed += result.failed;
+      }
+      return jsonResponse({ success: true, reminders: (reminders || []).length, sent, failed });
+    }
+
+    throw new Error(`Unknown notification type: ${type}`);
+  } catch (error) {
+    console.error("Error in send-push-notification function:", error);
+    return jsonResponse({
+      success: false,
+      error: (error as Error).message || "Failed to send push notifications",
+    }, 500);
+  }
+};
+
+serve(handler);
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createNotifier, escapeHtml, resendDeliveries, type DeliveryResult } from "../_shared/notifications.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,13 +8,31 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type",
 };
 
+type SupabaseAdmin = ReturnType<typeof createClient>;
+type Notifier = ReturnType<typeof createNotifier>;
+
 interface StudentInfo {
   email: string;
   name: string;
   remaining_sessions: number;
 }
 
+interface Contact {
+  name: string | null;
+  email: string | null;
+  phone: string | null;
+}
+
 interface SessionNotificationRequest {
+  // "waitlist_promotion": the database moved studentIds off the waitlist into the session
+  // "package_alerts": scheduled run that records and sends package expiry/low-sessions alerts
+  // "substitute_request": a coach asked for a substitute, offered coaches and admins are notified
+  // "substitute_filled": a substitute accepted, everyone on the session and admins are notified
+  // "resend_deliveries": an admin resends logged deliveries, usually failed ones
+  notificationType?: "new_session" | "waitlist_promotion" | "package_alerts" | "substitute_request" | "substitute_filled" | "resend_deliveries";
+  substituteRequestId?: string;
+  deliveryIds?: string[];
+  studentIds?: string[];
   sessionId: string;
   date: string;
   startTime: string;
@@ -28,11 +47,11 @@ interface SessionNotificationRequest {
 const formatDate = (dateString: string) => {
   try {
     const date = new Date(dateString + 'T00:00:00');
-    return date.toLocaleDateString('en-US', { 
-      weekday: 'long', 
-      year: 'numeric', 
-      month: 'long', 
-      day: 'numeric' 
+    return date.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
     });
   } catch {
     return dateString;
@@ -51,136 +70,287 @@ const formatTime = (timeString: string) => {
   }
 };
 
-// SMTP email sending function using Gmail SMTP
-const sendEmailViaSMTP = async (
-  to: string,
-  subject: string,
-  htmlBody: string,
-  smtpHost: string,
-  smtpPort: number,
-  smtpUser: string,
-  smtpPass: string,
-  smtpFrom: string
-) => {
-  // Convert HTML to plain text for email
-  const textBody = htmlBody.replace(/<[^>]*>/g, '').replace(/\n\s*\n/g, '\n').trim();
-  
-  try {
-    // Create SMTP client
-    const client = new SmtpClient();
-    
-    // Connect to SMTP server
-    await client.connect({
-      hostname: smtpHost,
-      port: smtpPort,
-      username: smtpUser,
-      password: smtpPass,
-    });
-    
-    // Send email
-    await client.send({
-      from: smtpFrom,
-      to: [to],
-      subject: subject,
-      content: htmlBody,
-      html: htmlBody,
-      text: textBody,
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      ...corsHeaders,
+    },
+  });
+
+const countDelivered = (results: DeliveryResult[]) => results.filter((result) => result.success).length;
+
+const remainingSessionsNote = (remainingSessions: number) =>
+  remainingSessions <= 3 ? '⚠️ You are running low on sessions. Please consider renewing your package soon.' : '';
+
+// Phone numbers aren't part of the request from the app, look them up to reach SMS templates
+const lookupContacts = async (supabaseAdmin: SupabaseAdmin, table: "coaches" | "students", emails: string[]) => {
+  const contacts = new Map<string, Contact>();
+  if (emails.length === 0) return contacts;
+  const { data, error } = await supabaseAdmin
+    .from(table)
+    .select("name, email, phone")
+    .in("email", emails);
+  if (error) {
+    console.error(`Error looking up ${table} contacts:`, error);
+    return contacts;
+  }
+  for (const contact of (data || []) as Contact[]) {
+    if (contact.email) contacts.set(contact.email, contact);
+  }
+  return contacts;
+};
+
+const getAdmins = async (supabaseAdmin: SupabaseAdmin) => {
+  const { data: admins } = await supabaseAdmin
+    .from("coaches")
+    .select("name, email, phone")
+    .eq("role", "admin");
+  return (admins || []) as Contact[];
+};
+
+// Record new package alerts, then notify each student and send admins one digest
+const sendPackageAlerts = async (supabaseAdmin: SupabaseAdmin, notifier: Notifier) => {
+  const { error: generateError } = await supabaseAdmin.rpc("generate_package_alerts");
+  if (generateError) throw generateError;
+
+  const { data: alerts, error: alertsError } = await supabaseAdmin
+    .from("package_alerts")
+    .select("id, alert_type, message, students (name, email, phone)")
+    .is("emailed_at", null)
+    .order("created_at");
+  if (alertsError) throw alertsError;
+
+  const results = {
+    students: [] as DeliveryResult[],
+    admins: [] as DeliveryResult[],
+  };
+
+  if (!alerts || alerts.length === 0) {
+    return results;
+  }
+
+  // Alerts that reached nobody stay unsent and are tried again on the next run
+  const deliveredAlertIds = new Set<string>();
+
+  for (const alert of alerts) {
+    if (!alert.students) continue;
+    const studentResults = await notifier.notify({
+      eventType: "package_alert_student",
+      recipient: alert.students,
+      variables: {
+        alert_title: alert.alert_type === "expiring" ? "Package Expiring Soon" : "Running Low on Sessions",
+        message: alert.message,
+      },
     });
-    
-    // Close connection
-    await client.close();
-    
-    console.log(`Email sent via SMTP to ${to}`);
-    return { success: true, method: 'smtp' };
-  } catch (error: any) {
-    console.error('SMTP error:', error);
-    throw error;
+    results.students.push(...studentResults);
+    if (countDelivered(studentResults) > 0) deliveredAlertIds.add(alert.id);
+  }
+
+  for (const admin of await getAdmins(supabaseAdmin)) {
+    results.admins.push(...await notifier.notify({
+      eventType: "package_alert_admin",
+      recipient: admin,
+      variables: {
+        alert_count: `${alerts.length} player${alerts.length !== 1 ? 's' : ''}`,
+        alert_list: alerts.map((alert: { message: string }) => escapeHtml(alert.message)).join('<br>'),
+      },
+      trustedHtmlVariables: ["alert_list"],
+    }));
+  }
+
+  // The admin digest lists every alert, so one delivered digest covers them all
+  const sentAlertIds = countDelivered(results.admins) > 0
+    ? alerts.map((alert: { id: string }) => alert.id)
+    : [...deliveredAlertIds];
+
+  if (sentAlertIds.length > 0) {
+    const { error: markError } = await supabaseAdmin
+      .from("package_alerts")
+      .update({ emailed_at: new Date().toISOString() })
+      .in("id", sentAlertIds);
+    if (markError) throw markError;
   }
+
+  return results;
 };
 
-const sendEmail = async (
-  to: string,
-  subject: string,
-  htmlBody: string,
-  supabaseAdmin: any
+// Tell the coaches of a session and the promoted students that waitlisted students got a spot
+const sendWaitlistPromotion = async (
+  supabaseAdmin: SupabaseAdmin,
+  notifier: Notifier,
+  sessionId: string,
+  studentIds: string[]
 ) => {
-  // Option 1: Use EmailJS with Gmail (Recommended - easiest and most reliable)
-  const EMAILJS_SERVICE_ID = Deno.env.get("EMAILJS_SERVICE_ID");
-  const EMAILJS_TEMPLATE_ID = Deno.env.get("EMAILJS_TEMPLATE_ID");
-  const EMAILJS_PUBLIC_KEY = Deno.env.get("EMAILJS_PUBLIC_KEY");
-  
-  if (EMAILJS_SERVICE_ID && EMAILJS_TEMPLATE_ID && EMAILJS_PUBLIC_KEY) {
-    try {
-      // Convert HTML to plain text for email
-      const textBody = htmlBody.replace(/<[^>]*>/g, '').replace(/\n\s*\n/g, '\n').trim();
-      
-      const emailjsResponse = await fetch(`https://api.emailjs.com/api/v1.0/email/send`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          service_id: EMAILJS_SERVICE_ID,
-          template_id: EMAILJS_TEMPLATE_ID,
-          user_id: EMAILJS_PUBLIC_KEY,
-          template_params: {
-            to_email: to,
-            subject: subject,
-            message_html: htmlBody,
-            message_text: textBody,
-          },
-        }),
-      });
+  const { data: session, error: sessionError } = await supabaseAdmin
+    .from("training_sessions")
+    .select("date, start_time, end_time, package_type, branches (name), session_coaches (coaches (name, email, phone))")
+    .eq("id", sessionId)
+    .single();
+  if (sessionError) throw sessionError;
 
-      if (!emailjsResponse.ok) {
-        const errorText = await emailjsResponse.text();
-        throw new Error(`EmailJS API error: ${errorText}`);
-      }
+  const { data: students, error: studentsError } = await supabaseAdmin
+    .from("students")
+    .select("name, email, phone, remaining_sessions")
+    .in("id", studentIds);
+  if (studentsError) throw studentsError;
 
-      console.log(`Email sent via EmailJS (Gmail) to ${to}`);
-      return { success: true, method: 'emailjs' };
-    } catch (error: any) {
-      console.error('Error sending email via EmailJS:', error);
-      // Fallback to direct SMTP
-    }
+  const coaches = (session.session_coaches || [])
+    .map((sessionCoach: { coaches: Contact | null }) => sessionCoach.coaches)
+    .filter((coach: Contact | null): coach is Contact => !!coach?.email);
+  const promoted = (students || []) as Array<Contact & { remaining_sessions: number | null }>;
+  const variables = {
+    date: formatDate(session.date),
+    time: `${formatTime(session.start_time)} - ${formatTime(session.end_time)}`,
+    branch: session.branches?.name || 'Unknown Branch',
+    package_type: session.package_type || 'Not specified',
+    coaches: coaches.map((coach) => coach.name || 'Coach').join(', '),
+    student_names: promoted.map((student) => student.name || 'Student').join(', '),
+    participant_count: `${promoted.length} student${promoted.length !== 1 ? 's' : ''}`,
+  };
+
+  const results = {
+    coaches: [] as DeliveryResult[],
+    students: [] as DeliveryResult[],
+  };
+
+  for (const coach of coaches) {
+    results.coaches.push(...await notifier.notify({
+      eventType: "waitlist_promotion_coach",
+      recipient: coach,
+      variables,
+      sessionId,
+    }));
+  }
+
+  for (const student of promoted) {
+    if (!student.email) continue;
+    const remainingSessions = student.remaining_sessions || 0;
+    results.students.push(...await notifier.notify({
+      eventType: "waitlist_promotion_student",
+      recipient: student,
+      variables: {
+        ...variables,
+        remaining_sessions: remainingSessions,
+        remaining_sessions_note: remainingSessionsNote(remainingSessions),
+      },
+      sessionId,
+    }));
   }
 
-  // Option 2: Fallback to direct Gmail SMTP (if EmailJS not configured)
-  const SMTP_HOST = Deno.env.get("SMTP_HOST") || "smtp.gmail.com";
-  const SMTP_PORT = parseInt(Deno.env.get("SMTP_PORT") || "587");
-  const SMTP_USER = Deno.env.get("SMTP_USER");
-  const SMTP_PASS = Deno.env.get("SMTP_PASS");
-  const SMTP_FROM = Deno.env.get("SMTP_FROM") || SMTP_USER;
-
-  if (SMTP_HOST && SMTP_PORT && SMTP_USER && SMTP_PASS) {
-    try {
-      const result = await sendEmailViaSMTP(
-        to,
-        subject,
-        htmlBody,
-        SMTP_HOST,
-        SMTP_PORT,
-        SMTP_USER,
-        SMTP_PASS,
-        SMTP_FROM || SMTP_USER
-      );
-      return result;
-    } catch (error: any) {
-      console.error('Error sending email via SMTP:', error);
-      // Fallback to logging
+  return results;
+};
+
+// Notify the coaches a substitute request was offered to, or everyone affected once it is filled
+const sendSubstituteNotifications = async (
+  supabaseAdmin: SupabaseAdmin,
+  notifier: Notifier,
+  notificationType: "substitute_request" | "substitute_filled",
+  substituteRequestId: string,
+  caller: { id: string; role: string } | null
+) => {
+  const { data: request, error: requestError } = await supabaseAdmin
+    .from("substitute_requests")
+    .select(`
+      id,
+      session_id,
+      coach_id,
+      accepted_by,
+      reason,
+      requester:coaches!substitute_requests_coach_id_fkey (name, email, phone),
+      substitute:coaches!substitute_requests_accepted_by_fkey (name, email, phone),
+      substitute_offers (coaches (name, email, phone)),
+      training_sessions (
+        date,
+        start_time,
+        end_time,
+        package_type,
+        branches (name),
+        session_participants (students (name, email, phone))
+      )
+    `)
+    .eq("id", substituteRequestId)
+    .single();
+  if (requestError) throw requestError;
+
+  // Only the coach who asked, the coach who accepted or an admin can announce a request
+  if (caller?.role !== "admin" && (!caller || (caller.id !== request.coach_id && caller.id !== request.accepted_by))) {
+    throw new Error("Only the coaches on this substitute request or an admin can send its notifications");
+  }
+
+  const session = request.training_sessions;
+  const offeredCoaches = (request.substitute_offers || [])
+    .map((offer: { coaches: Contact | null }) => offer.coaches)
+    .filter((coach: Contact | null): coach is Contact => !!coach);
+  const variables = {
+    date: formatDate(session.date),
+    time: `${formatTime(session.start_time)} - ${formatTime(session.end_time)}`,
+    branch: session.branches?.name || 'Not specified',
+    package_type: session.package_type || 'Not specified',
+    requester_name: request.requester?.name || 'A coach',
+    substitute_name: request.substitute?.name || 'A substitute',
+    reason: request.reason,
+    offered_count: `${offeredCoaches.length} coach${offeredCoaches.length !== 1 ? 'es' : ''}`,
+    admin_note: notificationType === "substitute_request" && offeredCoaches.length === 0
+      ? "No coach is free at that time, please arrange cover manually."
+      : "No action is needed.",
+  };
+
+  const sends: Array<{ eventType: string; recipient: Contact }> = [];
+  if (notificationType === "substitute_request") {
+    for (const coach of offeredCoaches) {
+      sends.push({ eventType: "substitute_request_coach", recipient: coach });
+    }
+  } else {
+    if (request.requester) {
+      sends.push({ eventType: "substitute_filled_requester", recipient: request.requester });
+    }
+    if (request.substitute) {
+      sends.push({ eventType: "substitute_filled_substitute", recipient: request.substitute });
+    }
+    for (const coach of offeredCoaches) {
+      if (coach.email && coach.email === request.substitute?.email) continue;
+      sends.push({ eventType: "substitute_filled_coach", recipient: coach });
+    }
+    for (const participant of session.session_participants || []) {
+      if (!participant.students) continue;
+      sends.push({ eventType: "substitute_filled_student", recipient: participant.students });
     }
   }
-  
-  // Fallback: Log for development/testing
-  console.log('='.repeat(50));
-  console.log('EMAIL NOTIFICATION (Development Mode)');
-  console.log('='.repeat(50));
-  console.log('To:', to);
-  console.log('Subject:', subject);
-  console.log('HTML Body:', htmlBody);
-  console.log('='.repeat(50));
-  
-  return { success: true, method: 'logged' };
+
+  for (const admin of await getAdmins(supabaseAdmin)) {
+    sends.push({
+      eventType: notificationType === "substitute_request" ? "substitute_request_admin" : "substitute_filled_admin",
+      recipient: admin,
+    });
+  }
+
+  const results: DeliveryResult[] = [];
+  for (const send of sends) {
+    results.push(...await notifier.notify({ ...send, variables, sessionId: request.session_id }));
+  }
+  return results;
+};
+
+const getBearerToken = (req: Request) => (req.headers.get("Authorization") || "").replace("Bearer ", "");
+
+// The signed-in coach calling the function, which itself runs with the service role
+const getCallingCoach = async (supabaseAdmin: SupabaseAdmin, req: Request) => {
+  const { data: { user }, error: userError } = await supabaseAdmin.auth.getUser(getBearerToken(req));
+  if (userError || !user) throw new Error("Not signed in");
+  const { data: coach } = await supabaseAdmin
+    .from("coaches")
+    .select("id, role")
+    .eq("auth_id", user.id)
+    .maybeSingle();
+  return coach as { id: string; role: string } | null;
+};
+
+// Only admins may resend or send package alerts by hand
+const assertAdmin = async (supabaseAdmin: SupabaseAdmin, req: Request, action: string) => {
+  const coach = await getCallingCoach(supabaseAdmin, req);
+  if (coach?.role !== "admin") throw new Error(`Only admins can ${action}`);
 };
 
 const handler = async (req: Request): Promise<Response> => {
@@ -189,9 +359,10 @@ const handler = async (req: Request): Promise<Response> => {
   }
 
   try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
     const supabaseAdmin = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      serviceRoleKey,
       {
         auth: {
           autoRefreshToken: false,
@@ -199,8 +370,10 @@ const handler = async (req: Request): Promise<Response> => {
         }
       }
     );
+    const notifier = createNotifier(supabaseAdmin);
 
     const {
+      notificationType = "new_session",
       sessionId,
       date,
       startTime,
@@ -210,171 +383,120 @@ const handler = async (req: Request): Promise<Response> => {
       coachEmails,
       coachNames,
       students,
+      substituteRequestId,
+      deliveryIds,
+      studentIds,
     }: SessionNotificationRequest = await req.json();
 
-    const formattedDate = formatDate(date);
-    const formattedStartTime = formatTime(startTime);
-    const formattedEndTime = formatTime(endTime);
-
-    // Email template for coaches
-    const coachEmailHtml = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #242833; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 8px 8px; }
-          .info-box { background: white; padding: 15px; margin: 15px 0; border-radius: 5px; border-left: 4px solid #79e58f; }
-          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>New Training Session Scheduled</h1>
-          </div>
-          <div class="content">
-            <p>Hello,</p>
-            <p>You have been assigned to a new training session. Here are the details:</p>
-            
-            <div class="info-box">
-              <strong>Date:</strong> ${formattedDate}<br>
-              <strong>Time:</strong> ${formattedStartTime} - ${formattedEndTime}<br>
-              <strong>Branch:</strong> ${branchName}<br>
-              <strong>Package Type:</strong> ${packageType || 'Not specified'}<br>
-              <strong>Participants:</strong> ${studentNames.length} student${studentNames.length !== 1 ? 's' : ''}
-            </div>
-
-            <p>Please make sure to arrive on time and be prepared for the session.</p>
-            
-            <div class="footer">
-              <p>This is an automated notification from Takeover Hoops Scheduler.</p>
-            </div>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    // Function to generate personalized student email
-    const generateStudentEmailHtml = (studentName: string, remainingSessions: number) => `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background: #242833; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
-          .content { background: #f8f9fa; padding: 30px; border-radius: 0 0 8px 8px; }
-          .info-box { background: white; padding: 15px; margin: 15px 0; border-radius: 5px; border-left: 4px solid #79e58f; }
-          .sessions-box { background: #fff3cd; padding: 15px; margin: 15px 0; border-radius: 5px; border-left: 4px solid #ffc107; }
-          .sessions-low { background: #f8d7da; border-left: 4px solid #dc3545; }
-          .footer { text-align: center; margin-top: 20px; color: #666; font-size: 12px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h1>Training Session Scheduled</h1>
-          </div>
-          <div class="content">
-            <p>Hello ${studentName},</p>
-            <p>You have been scheduled for a training session. Here are the details:</p>
-            
-            <div class="info-box">
-              <strong>Date:</strong> ${formattedDate}<br>
-              <strong>Time:</strong> ${formattedStartTime} - ${formattedEndTime}<br>
-              <strong>Branch:</strong> ${branchName}<br>
-              <strong>Package Type:</strong> ${packageType || 'Not specified'}<br>
-              <strong>Coaches:</strong> ${coachNames.join(', ')}
-            </div>
-
-            <div class="sessions-box${remainingSessions <= 3 ? ' sessions-low' : ''}">
-              <strong>Your Remaining Sessions:</strong> ${remainingSessions}
-              ${remainingSessions <= 3 ? '<br><em>⚠️ You are running low on sessions. Please consider renewing your package soon.</em>' : ''}
-            </div>
-
-            <p>We look forward to seeing you at the session!</p>
-            
-            <div class="footer">
-              <p>This is an automated notification from Takeover Hoops Scheduler.</p>
-            </div>
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
-
-    const results = {
-      coaches: [] as Array<{ email: string; success: boolean; error?: string }>,
-      students: [] as Array<{ email: string; success: boolean; error?: string }>,
-    };
+    if (notificationType === "resend_deliveries") {
+      await assertAdmin(supabaseAdmin, req, "resend notifications");
+      if (!deliveryIds || deliveryIds.length === 0) {
+        throw new Error("deliveryIds is required");
+      }
+      const results = await resendDeliveries(supabaseAdmin, deliveryIds);
+      return jsonResponse({
+        success: true,
+        results,
+        message: `Resent ${countDelivered(results)} of ${results.length} notification${results.length !== 1 ? 's' : ''}`,
+      });
+    }
 
-    // Send emails to coaches
-    for (const email of coachEmails) {
-      try {
-        await sendEmail(
-          email,
-          `New Training Session - ${formattedDate}`,
-          coachEmailHtml,
-          supabaseAdmin
-        );
-        results.coaches.push({ email, success: true });
-      } catch (error: any) {
-        console.error(`Error sending email to coach ${email}:`, error);
-        results.coaches.push({ email, success: false, error: error.message });
+    if (notificationType === "package_alerts") {
+      // The daily schedule calls with the service role key, admins can also run it from the alert inbox
+      if (getBearerToken(req) !== serviceRoleKey) {
+        await assertAdmin(supabaseAdmin, req, "send package alerts");
       }
+      const results = await sendPackageAlerts(supabaseAdmin, notifier);
+      return jsonResponse({
+        success: true,
+        results,
+        message: `Package alerts sent to ${countDelivered(results.students)} students and ${countDelivered(results.admins)} admins`,
+      });
     }
 
-    // Send personalized emails to students
-    for (const student of students || []) {
-      try {
-        const studentEmailHtml = generateStudentEmailHtml(student.name, student.remaining_sessions);
-        await sendEmail(
-          student.email,
-          `Training Session Scheduled - ${formattedDate}`,
-          studentEmailHtml,
-          supabaseAdmin
-        );
-        results.students.push({ email: student.email, success: true });
-      } catch (error: any) {
-        console.error(`Error sending email to student ${student.email}:`, error);
-        results.students.push({ email: student.email, success: false, error: error.message });
+    if (notificationType === "substitute_request" || notificationType === "substitute_filled") {
+      if (!substituteRequestId) {
+        throw new Error("substituteRequestId is required");
       }
+      const caller = await getCallingCoach(supabaseAdmin, req);
+      const results = await sendSubstituteNotifications(supabaseAdmin, notifier, notificationType, substituteRequestId, caller);
+      return jsonResponse({
+        success: true,
+        results,
+        message: `Substitute notifications sent to ${countDelivered(results)} recipients`,
+      });
     }
 
-    return new Response(
-      JSON.stringify({
+    if (notificationType === "waitlist_promotion") {
+      // Sent by set_session_participants() once the roster change is saved
+      if (getBearerToken(req) !== serviceRoleKey) {
+        throw new Error("Waitlist promotions are only sent by the database");
+      }
+      if (!studentIds || studentIds.length === 0) {
+        throw new Error("studentIds is required");
+      }
+      const results = await sendWaitlistPromotion(supabaseAdmin, notifier, sessionId, studentIds);
+      return jsonResponse({
         success: true,
         results,
-        message: `Emails sent to ${results.coaches.filter(r => r.success).length} coaches and ${results.students.filter(r => r.success).length} students`,
-      }),
-      {
-        status: 200,
-        headers: {
-          "Content-Type": "application/json",
-          ...corsHeaders,
+        message: `Notifications sent to ${countDelivered(results.coaches)} coaches and ${countDelivered(results.students)} students`,
+      });
+    }
+
+    const studentNames = (students || []).map((student) => student.name);
+    const sessionVariables = {
+      date: formatDate(date),
+      time: `${formatTime(startTime)} - ${formatTime(endTime)}`,
+      branch: branchName,
+      package_type: packageType || 'Not specified',
+      coaches: coachNames.join(', '),
+      student_names: studentNames.join(', '),
+      participant_count: `${studentNames.length} student${studentNames.length !== 1 ? 's' : ''}`,
+    };
+
+    const coachContacts = await lookupContacts(supabaseAdmin, "coaches", coachEmails);
+    const studentContacts = await lookupContacts(supabaseAdmin, "students", (students || []).map((student) => student.email));
+
+    const results = {
+      coaches: [] as DeliveryResult[],
+      students: [] as DeliveryResult[],
+    };
+
+    for (const email of coachEmails) {
+      const contact = coachContacts.get(email);
+      results.coaches.push(...await notifier.notify({
+        eventType: "new_session_coach",
+        recipient: { name: contact?.name, email, phone: contact?.phone },
+        variables: sessionVariables,
+        sessionId,
+      }));
+    }
+
+    for (const student of students || []) {
+      results.students.push(...await notifier.notify({
+        eventType: "new_session_student",
+        recipient: { name: student.name, email: student.email, phone: studentContacts.get(student.email)?.phone },
+        variables: {
+          ...sessionVariables,
+          remaining_sessions: student.remaining_sessions,
+          remaining_sessions_note: remainingSessionsNote(student.remaining_sessions),
         },
-      }
-    );
+        sessionId,
+      }));
+    }
 
-  } catch (error: any) {
+    return jsonResponse({
+      success: true,
+      results,
+      message: `Notifications sent to ${countDelivered(results.coaches)} coaches and ${countDelivered(results.students)} students`,
+    });
+
+  } catch (error) {
     console.error("Error in send-session-notification function:", error);
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message || "Failed to send session notifications",
-      }),
-      {
-        status: 500,
-        headers: {
-          "Content-Type": "application/json",
-          ...corsHeaders,
-        },
-      }
-    );
+    return jsonResponse({
+      success: false,
+      error: (error as Error).message || "Failed to send session notifications",
+    }, 500);
   }
 };
 
@@ -0,0 +1,57 @@
+-- Recurring weekly session series
+-- Each occurrence is still a regular training_sessions row; the series only
+-- records the rule that generated it so "this and all future" edits can find its siblings
+CREATE TABLE IF NOT EXISTS public.session_series (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  branch_id UUID NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  package_type TEXT,
+  days_of_week day_of_week[] NOT NULL,
+  start_time TIME NOT NULL,
+  end_time TIME NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  skip_dates DATE[] NOT NULL DEFAULT '{}',
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+-- Link generated sessions back to their series
+ALTER TABLE public.training_sessions
+ADD COLUMN IF NOT EXISTS series_id UUID NULL REFERENCES public.session_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_training_sessions_series_id ON public.training_sessions(series_id);
+CREATE INDEX IF NOT EXISTS idx_session_series_branch_id ON public.session_series(branch_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.session_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches can view session series"
+ON public.session_series
+FOR SELECT
+USING (is_user_coach_or_admin());
+
+CREATE POLICY "Admins can insert session series"
+ON public.session_series
+FOR INSERT
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Admins can update session series"
+ON public.session_series
+FOR UPDATE
+USING (is_user_admin());
+
+CREATE POLICY "Admins can delete session series"
+ON public.session_series
+FOR DELETE
+USING (is_user_admin());
+
+CREATE TRIGGER update_session_series_updated_at
+BEFORE UPDATE ON public.session_series
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.session_series IS 'Weekly recurrence rule used to generate a batch of training_sessions';
+COMMENT ON COLUMN public.session_series.skip_dates IS 'Dates inside the range that were intentionally left out of the series (holidays, court closures)';
+COMMENT ON COLUMN public.training_sessions.series_id IS 'Series this session was generated from, NULL for one-off sessions';
@@ -0,0 +1,198 @@
+-- Student self-service portal
+-- Players/parents log in with the email on their students row and get a read-only view of their own data
+
+-- Link a student row to its auth user
+ALTER TABLE public.students
+ADD COLUMN IF NOT EXISTS auth_id UUID NULL UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN public.students.auth_id IS 'Auth user of the player/parent portal login for this student';
+
+-- Resolve the student row of the current auth user
+-- SECURITY DEFINER so it can be used inside the students policies without recursion
+CREATE OR REPLACE FUNCTION public.get_current_student_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.students WHERE auth_id = auth.uid() LIMIT 1;
+$$;
+
+-- Link the current auth user to the student row with the same (confirmed) email
+-- Returns the student id, or NULL when there is nothing to claim
+CREATE OR REPLACE FUNCTION public.claim_student_account()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+  v_student_id UUID;
+BEGIN
+  SELECT id INTO v_student_id FROM public.students WHERE auth_id = auth.uid();
+  IF v_student_id IS NOT NULL THEN
+    RETURN v_student_id;
+  END IF;
+
+  -- Only confirmed emails can claim a student row
+  SELECT email INTO v_email
+  FROM auth.users
+  WHERE id = auth.uid()
+    AND email_confirmed_at IS NOT NULL;
+
+  IF v_email IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Staff accounts never double as student logins
+  IF EXISTS (
+    SELECT 1 FROM public.coaches
+    WHERE auth_id = auth.uid() OR lower(email) = lower(v_email)
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.students
+  SET auth_id = auth.uid(),
+      updated_at = now()
+  WHERE lower(email) = lower(v_email)
+    AND auth_id IS NULL
+  RETURNING id INTO v_student_id;
+
+  RETURN v_student_id;
+END;
+$$;
+
+-- Do not create a coach profile for portal sign-ups
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.raw_user_meta_data->>'account_type' = 'student' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.coaches (
+    id,
+    name,
+    email,
+    role,
+    auth_id,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    COALESCE(NEW.raw_user_meta_data->>'name', NEW.raw_user_meta_data->>'display_name', 'New Coach'),
+    NEW.email,
+    'coach',
+    NEW.id,
+    NOW(),
+    NOW()
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- Replace the permissive policies on student-owned tables:
+-- coaches/admins keep full access, a student can only read their own rows
+
+-- students
+DROP POLICY IF EXISTS "Allow all operations on students" ON public.students;
+
+CREATE POLICY "Coaches and admins can manage students"
+ON public.students
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view their own record"
+ON public.students
+FOR SELECT
+USING (id = get_current_student_id());
+
+-- session_participants
+DROP POLICY IF EXISTS "Allow all operations on session_participants" ON public.session_participants;
+
+CREATE POLICY "Coaches and admins can manage session participants"
+ON public.session_participants
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view their own session participation"
+ON public.session_participants
+FOR SELECT
+USING (student_id = get_current_student_id());
+
+-- attendance_records
+DROP POLICY IF EXISTS "Allow all operations on attendance_records" ON public.attendance_records;
+
+CREATE POLICY "Coaches and admins can manage attendance records"
+ON public.attendance_records
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view their own attendance records"
+ON public.attendance_records
+FOR SELECT
+USING (student_id = get_current_student_id());
+
+-- student_payments
+DROP POLICY IF EXISTS "Allow all operations on student_payments" ON public.student_payments;
+
+CREATE POLICY "Coaches and admins can manage student payments"
+ON public.student_payments
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view their own payments"
+ON public.student_payments
+FOR SELECT
+USING (student_id = get_current_student_id());
+
+-- student_charges (coach/admin policies already exist)
+CREATE POLICY "Students can view their own charges"
+ON public.student_charges
+FOR SELECT
+USING (student_id = get_current_student_id());
+
+-- student_package_history
+ALTER TABLE public.student_package_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches and admins can manage student package history"
+ON public.student_package_history
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view their own package history"
+ON public.student_package_history
+FOR SELECT
+USING (student_id = get_current_student_id());
+
+-- training_sessions: students only see sessions they are enrolled in
+DROP POLICY IF EXISTS "Allow all operations on training_sessions" ON public.training_sessions;
+
+CREATE POLICY "Coaches and admins can manage training sessions"
+ON public.training_sessions
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view their own training sessions"
+ON public.training_sessions
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.session_participants sp
+    WHERE sp.session_id = training_sessions.id
+      AND sp.student_id = get_current_student_id()
+  )
+);
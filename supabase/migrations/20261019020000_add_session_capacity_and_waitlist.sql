@@ -0,0 +1,159 @@
+-- Session capacity limits and waitlist
+-- NULL max_participants means the session has no limit
+
+ALTER TABLE public.packages
+ADD COLUMN IF NOT EXISTS default_max_participants INTEGER NULL CHECK (default_max_participants > 0);
+
+ALTER TABLE public.training_sessions
+ADD COLUMN IF NOT EXISTS max_participants INTEGER NULL CHECK (max_participants > 0);
+
+COMMENT ON COLUMN public.packages.default_max_participants IS 'Capacity pre-filled on new sessions of this package, NULL for no limit';
+COMMENT ON COLUMN public.training_sessions.max_participants IS 'Maximum number of session_participants, NULL for no limit';
+
+-- Students waiting for a spot in a full session, served first come first served
+CREATE TABLE IF NOT EXISTS public.session_waitlist (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.training_sessions(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'promoted')),
+  promoted_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(session_id, student_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_waitlist_session_id ON public.session_waitlist(session_id, status, created_at);
+
+-- Enable Row Level Security
+ALTER TABLE public.session_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches and admins can manage session waitlist"
+ON public.session_waitlist
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view their own waitlist entries"
+ON public.session_waitlist
+FOR SELECT
+USING (student_id = get_current_student_id());
+
+CREATE TRIGGER update_session_waitlist_updated_at
+BEFORE UPDATE ON public.session_waitlist
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.session_waitlist IS 'Students queued for a full training session, promoted in created_at order when a spot opens';
+
+-- Reject participants beyond the session capacity
+CREATE OR REPLACE FUNCTION public.enforce_session_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_max INTEGER;
+  v_taken INTEGER;
+BEGIN
+  SELECT max_participants INTO v_max
+  FROM public.training_sessions
+  WHERE id = NEW.session_id;
+
+  IF v_max IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_taken
+  FROM public.session_participants
+  WHERE session_id = NEW.session_id;
+
+  IF v_taken >= v_max THEN
+    RAISE EXCEPTION 'Session is full (% of % spots taken). Add the player to the waitlist instead.', v_taken, v_max
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_session_capacity_on_participant_insert
+BEFORE INSERT ON public.session_participants
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_session_capacity();
+
+-- Move waitlisted students into free spots of an upcoming scheduled session
+-- Called after participants are saved (rather than from a delete trigger) so that
+-- players the coach picked in the same edit are seated before the waitlist is served
+CREATE OR REPLACE FUNCTION public.promote_waitlisted_students(p_session_id UUID)
+RETURNS TABLE(student_id UUID)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_max INTEGER;
+  v_status session_status;
+  v_date DATE;
+  v_taken INTEGER;
+  v_entry RECORD;
+BEGIN
+  SELECT ts.max_participants, ts.status, ts.date INTO v_max, v_status, v_date
+  FROM public.training_sessions ts
+  WHERE ts.id = p_session_id;
+
+  IF NOT FOUND OR v_status <> 'scheduled' OR v_date < CURRENT_DATE THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_taken
+  FROM public.session_participants sp
+  WHERE sp.session_id = p_session_id;
+
+  FOR v_entry IN
+    SELECT w.id, w.student_id
+    FROM public.session_waitlist w
+    WHERE w.session_id = p_session_id
+      AND w.status = 'waiting'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.session_participants sp
+        WHERE sp.session_id = p_session_id AND sp.student_id = w.student_id
+      )
+    ORDER BY w.created_at, w.id
+  LOOP
+    EXIT WHEN v_max IS NOT NULL AND v_taken >= v_max;
+
+    UPDATE public.session_waitlist
+    SET status = 'promoted',
+        promoted_at = now()
+    WHERE id = v_entry.id;
+
+    INSERT INTO public.session_participants (session_id, student_id)
+    VALUES (p_session_id, v_entry.student_id);
+
+    INSERT INTO public.attendance_records (session_id, student_id, status)
+    VALUES (p_session_id, v_entry.student_id, 'pending')
+    ON CONFLICT (session_id, student_id) DO NOTHING;
+
+    v_taken := v_taken + 1;
+    student_id := v_entry.student_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- A student added directly no longer needs their waitlist spot
+CREATE OR REPLACE FUNCTION public.clear_waitlist_on_participant_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  DELETE FROM public.session_waitlist
+  WHERE session_id = NEW.session_id
+    AND student_id = NEW.student_id
+    AND status = 'waiting';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_waitlist_on_participant_insert
+AFTER INSERT ON public.session_participants
+FOR EACH ROW
+EXECUTE FUNCTION public.clear_waitlist_on_participant_insert();
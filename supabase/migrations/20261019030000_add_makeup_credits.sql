@@ -0,0 +1,131 @@
+-- Make-up session credits
+-- A credit is owed to every enrolled student when a session is cancelled and is
+-- redeemed by the session the student is later scheduled into as a make-up
+CREATE TABLE IF NOT EXISTS public.makeup_credits (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  package_cycle INTEGER NOT NULL,
+  source_session_id UUID REFERENCES public.training_sessions(id) ON DELETE SET NULL,
+  redeemed_session_id UUID REFERENCES public.training_sessions(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(student_id, source_session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_makeup_credits_student_id ON public.makeup_credits(student_id, package_cycle);
+CREATE INDEX IF NOT EXISTS idx_makeup_credits_redeemed_session_id ON public.makeup_credits(redeemed_session_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.makeup_credits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches and admins can manage makeup credits"
+ON public.makeup_credits
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view their own makeup credits"
+ON public.makeup_credits
+FOR SELECT
+USING (student_id = get_current_student_id());
+
+CREATE TRIGGER update_makeup_credits_updated_at
+BEFORE UPDATE ON public.makeup_credits
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.makeup_credits IS 'Classes owed to students because a session they were enrolled in was cancelled';
+COMMENT ON COLUMN public.makeup_credits.package_cycle IS 'Package cycle of the student when the session was cancelled (package history count + 1)';
+COMMENT ON COLUMN public.makeup_credits.redeemed_session_id IS 'Session the make-up was scheduled in, NULL while the credit is outstanding';
+
+-- Issue credits when a session is cancelled, void unused ones when it is restored
+CREATE OR REPLACE FUNCTION public.sync_makeup_credits_on_session_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    INSERT INTO public.makeup_credits (student_id, package_cycle, source_session_id)
+    SELECT
+      sp.student_id,
+      (SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = sp.student_id),
+      NEW.id
+    FROM public.session_participants sp
+    WHERE sp.session_id = NEW.id
+      -- Students already marked present used the session and are not owed anything
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance_records ar
+        WHERE ar.session_id = NEW.id
+          AND ar.student_id = sp.student_id
+          AND ar.status = 'present'
+      )
+    ON CONFLICT (student_id, source_session_id) DO NOTHING;
+  ELSIF OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+    DELETE FROM public.makeup_credits
+    WHERE source_session_id = NEW.id
+      AND redeemed_session_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_makeup_credits_on_session_status
+AFTER UPDATE OF status ON public.training_sessions
+FOR EACH ROW
+WHEN (NEW.status IS DISTINCT FROM OLD.status)
+EXECUTE FUNCTION public.sync_makeup_credits_on_session_status();
+
+-- A credit becomes outstanding again when the student leaves the session that redeemed it
+CREATE OR REPLACE FUNCTION public.release_makeup_credit_on_participant_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.makeup_credits
+  SET redeemed_session_id = NULL
+  WHERE redeemed_session_id = OLD.session_id
+    AND student_id = OLD.student_id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER release_makeup_credit_on_participant_delete
+AFTER DELETE ON public.session_participants
+FOR EACH ROW
+EXECUTE FUNCTION public.release_makeup_credit_on_participant_delete();
+
+-- Redeem the oldest outstanding current-cycle credit of each student against a session
+-- Returns the number of credits redeemed
+CREATE OR REPLACE FUNCTION public.redeem_makeup_credits(p_session_id UUID, p_student_ids UUID[])
+RETURNS INTEGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_student_id UUID;
+  v_credit_id UUID;
+  v_redeemed INTEGER := 0;
+BEGIN
+  FOREACH v_student_id IN ARRAY p_student_ids LOOP
+    SELECT mc.id INTO v_credit_id
+    FROM public.makeup_credits mc
+    WHERE mc.student_id = v_student_id
+      AND mc.redeemed_session_id IS NULL
+      AND mc.package_cycle = (
+        SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = v_student_id
+      )
+    ORDER BY mc.created_at
+    LIMIT 1;
+
+    IF v_credit_id IS NOT NULL THEN
+      UPDATE public.makeup_credits
+      SET redeemed_session_id = p_session_id
+      WHERE id = v_credit_id;
+      v_redeemed := v_redeemed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_redeemed;
+END;
+$$;
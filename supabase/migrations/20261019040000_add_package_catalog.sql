@@ -0,0 +1,67 @@
+-- Package catalog
+-- Packages carry the commercial terms used to pre-fill enrollments and renewals
+
+ALTER TABLE public.packages
+ADD COLUMN IF NOT EXISTS price NUMERIC(10,2) NULL CHECK (price >= 0),
+ADD COLUMN IF NOT EXISTS sessions NUMERIC NULL CHECK (sessions > 0),
+ADD COLUMN IF NOT EXISTS validity_days INTEGER NULL CHECK (validity_days > 0),
+ADD COLUMN IF NOT EXISTS allowed_branch_ids UUID[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS is_duration_based BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.packages.price IS 'Training fee charged per enrollment or renewal';
+COMMENT ON COLUMN public.packages.sessions IS 'Number of sessions included in the package';
+COMMENT ON COLUMN public.packages.validity_days IS 'Days from enrollment until the package expires';
+COMMENT ON COLUMN public.packages.allowed_branch_ids IS 'Branches that can sell the package, empty for all branches';
+COMMENT ON COLUMN public.packages.is_duration_based IS 'Attendance is billed by session duration in hours (Personal Training)';
+COMMENT ON COLUMN public.packages.version IS 'Incremented whenever the commercial terms change';
+
+-- Personal Training packages were detected by name until now
+UPDATE public.packages
+SET is_duration_based = true
+WHERE name ILIKE '%personal%';
+
+-- Bump the catalog version when the terms change so enrollments can tell which terms they were sold under
+CREATE OR REPLACE FUNCTION public.bump_package_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.price IS DISTINCT FROM OLD.price
+    OR NEW.sessions IS DISTINCT FROM OLD.sessions
+    OR NEW.validity_days IS DISTINCT FROM OLD.validity_days
+    OR NEW.allowed_branch_ids IS DISTINCT FROM OLD.allowed_branch_ids
+    OR NEW.is_duration_based IS DISTINCT FROM OLD.is_duration_based THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER bump_package_version
+BEFORE UPDATE ON public.packages
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_package_version();
+
+-- Catalog entry and terms a student's current package was sold under
+ALTER TABLE public.students
+ADD COLUMN IF NOT EXISTS package_id UUID NULL REFERENCES public.packages(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS package_snapshot JSONB NULL;
+
+COMMENT ON COLUMN public.students.package_id IS 'Catalog package of the current enrollment';
+COMMENT ON COLUMN public.students.package_snapshot IS 'Catalog terms (including version) at the time of the current enrollment';
+
+-- Archived packages keep the terms they were sold under
+ALTER TABLE public.student_package_history
+ADD COLUMN IF NOT EXISTS package_id UUID NULL REFERENCES public.packages(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS package_snapshot JSONB NULL;
+
+COMMENT ON COLUMN public.student_package_history.package_snapshot IS 'Catalog terms (including version) the archived package was sold under';
+
+-- Backfill the catalog link for existing students by package name
+UPDATE public.students s
+SET package_id = p.id
+FROM public.packages p
+WHERE s.package_id IS NULL
+  AND s.package_type IS NOT NULL
+  AND lower(trim(s.package_type)) = lower(trim(p.name));
@@ -0,0 +1,164 @@
+-- Package renewal in a single transaction
+-- Archives the current cycle into student_package_history, links its payments/charges,
+-- resolves the unpaid balance and starts the next cycle on the student row
+
+ALTER TABLE public.student_package_history
+ADD COLUMN IF NOT EXISTS balance_resolution TEXT NULL CHECK (balance_resolution IN ('carried_forward', 'written_off'));
+
+COMMENT ON COLUMN public.student_package_history.balance_resolution IS 'What happened to the unpaid remaining_balance at renewal, NULL when nothing was owed';
+
+CREATE OR REPLACE FUNCTION public.renew_student_package(
+  p_student_id UUID,
+  p_package_id UUID,
+  p_package_type TEXT,
+  p_sessions NUMERIC,
+  p_enrollment_date DATE,
+  p_expiration_date DATE,
+  p_total_training_fee NUMERIC,
+  p_downpayment NUMERIC,
+  p_balance_action TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_student public.students%ROWTYPE;
+  v_reason TEXT;
+  v_unpaid NUMERIC;
+  v_history_id UUID;
+  v_new_cycle INTEGER;
+  v_snapshot JSONB;
+BEGIN
+  IF p_balance_action IS NOT NULL AND p_balance_action NOT IN ('carry_forward', 'write_off') THEN
+    RAISE EXCEPTION 'Unknown balance action: %', p_balance_action;
+  END IF;
+
+  SELECT * INTO v_student
+  FROM public.students
+  WHERE id = p_student_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student % not found', p_student_id;
+  END IF;
+
+  v_unpaid := GREATEST(COALESCE(v_student.remaining_balance, 0), 0);
+
+  IF v_unpaid > 0 AND p_balance_action IS NULL THEN
+    RAISE EXCEPTION 'The current package has an unpaid balance of %. Choose to carry it forward or write it off.', v_unpaid;
+  END IF;
+
+  -- Same end reasons as the manual renewal: expired wins over completed
+  IF v_student.expiration_date IS NOT NULL AND v_student.expiration_date < CURRENT_DATE THEN
+    v_reason := 'renewal - expired';
+  ELSIF COALESCE(v_student.remaining_sessions, 0) <= 0 THEN
+    v_reason := 'renewal - completed';
+  ELSE
+    v_reason := 'renewal - early';
+  END IF;
+
+  INSERT INTO public.student_package_history (
+    student_id,
+    package_type,
+    package_id,
+    package_snapshot,
+    sessions,
+    remaining_sessions,
+    enrollment_date,
+    expiration_date,
+    reason,
+    total_training_fee,
+    downpayment,
+    remaining_balance,
+    balance_resolution
+  )
+  VALUES (
+    p_student_id,
+    v_student.package_type,
+    v_student.package_id,
+    v_student.package_snapshot,
+    v_student.sessions,
+    v_student.remaining_sessions,
+    v_student.enrollment_date,
+    v_student.expiration_date,
+    v_reason,
+    COALESCE(v_student.total_training_fee, 0),
+    COALESCE(v_student.downpayment, 0),
+    v_unpaid,
+    CASE
+      WHEN v_unpaid = 0 THEN NULL
+      WHEN p_balance_action = 'carry_forward' THEN 'carried_forward'
+      ELSE 'written_off'
+    END
+  )
+  RETURNING id INTO v_history_id;
+
+  -- Everything not yet archived belongs to the cycle being closed
+  UPDATE public.student_payments
+  SET package_history_id = v_history_id
+  WHERE student_id = p_student_id
+    AND package_history_id IS NULL;
+
+  UPDATE public.student_charges
+  SET package_history_id = v_history_id
+  WHERE student_id = p_student_id
+    AND package_history_id IS NULL;
+
+  SELECT COUNT(*) + 1 INTO v_new_cycle
+  FROM public.student_package_history
+  WHERE student_id = p_student_id;
+
+  IF p_package_id IS NOT NULL THEN
+    SELECT jsonb_build_object(
+      'package_id', p.id,
+      'version', p.version,
+      'name', p.name,
+      'price', p.price,
+      'sessions', p.sessions,
+      'validity_days', p.validity_days,
+      'allowed_branch_ids', p.allowed_branch_ids,
+      'is_duration_based', p.is_duration_based
+    ) INTO v_snapshot
+    FROM public.packages p
+    WHERE p.id = p_package_id;
+  END IF;
+
+  UPDATE public.students
+  SET package_type = p_package_type,
+      package_id = p_package_id,
+      package_snapshot = v_snapshot,
+      sessions = p_sessions,
+      remaining_sessions = p_sessions,
+      enrollment_date = p_enrollment_date,
+      expiration_date = p_expiration_date,
+      total_training_fee = COALESCE(p_total_training_fee, 0),
+      downpayment = COALESCE(p_downpayment, 0),
+      remaining_balance = GREATEST(0, COALESCE(p_total_training_fee, 0) - COALESCE(p_downpayment, 0)),
+      updated_at = now()
+  WHERE id = p_student_id;
+
+  -- The charge trigger adds the carried balance to the new cycle's remaining_balance
+  IF v_unpaid > 0 AND p_balance_action = 'carry_forward' THEN
+    INSERT INTO public.student_charges (student_id, amount, charge_type, charge_date, description)
+    VALUES (
+      p_student_id,
+      v_unpaid,
+      'balance_carry_forward',
+      p_enrollment_date,
+      'Unpaid balance carried forward from package #' || (v_new_cycle - 1)
+    );
+  END IF;
+
+  -- Upcoming sessions the student is already booked into count against the new cycle
+  UPDATE public.attendance_records ar
+  SET package_cycle = v_new_cycle
+  FROM public.training_sessions ts
+  WHERE ar.session_id = ts.id
+    AND ar.student_id = p_student_id
+    AND ar.status = 'pending'
+    AND ts.date >= p_enrollment_date;
+
+  RETURN v_new_cycle;
+END;
+$$;
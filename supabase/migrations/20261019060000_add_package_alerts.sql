@@ -0,0 +1,139 @@
+-- Package expiry and low-sessions alerts
+-- Generated daily by generate_package_alerts(), emailed by the send-session-notification
+-- function (notificationType "package_alerts") and listed in the admin alert inbox
+
+CREATE TABLE IF NOT EXISTS public.package_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  alert_type TEXT NOT NULL CHECK (alert_type IN ('expiring', 'low_sessions')),
+  package_cycle INTEGER NOT NULL,
+  expiration_date DATE,
+  remaining_sessions NUMERIC,
+  message TEXT NOT NULL,
+  emailed_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- One alert of each kind per package cycle
+  UNIQUE(student_id, alert_type, package_cycle)
+);
+
+CREATE INDEX IF NOT EXISTS idx_package_alerts_read_at ON public.package_alerts(read_at, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_package_alerts_emailed_at ON public.package_alerts(emailed_at) WHERE emailed_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.package_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage package alerts"
+ON public.package_alerts
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE TRIGGER update_package_alerts_updated_at
+BEFORE UPDATE ON public.package_alerts
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.package_alerts IS 'Expiring package and low remaining sessions alerts, one per kind per student package cycle';
+
+-- Create a function that can be called periodically (via cron job or scheduled task)
+-- to record alerts for packages expiring within p_days_ahead days or with few sessions left
+CREATE OR REPLACE FUNCTION public.generate_package_alerts(
+  p_days_ahead INTEGER DEFAULT 7,
+  p_low_sessions NUMERIC DEFAULT 2
+)
+RETURNS TABLE(
+  expiring_count INTEGER,
+  low_sessions_count INTEGER
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_expiring INTEGER := 0;
+  v_low INTEGER := 0;
+BEGIN
+  WITH active_students AS (
+    SELECT
+      s.id,
+      s.name,
+      s.expiration_date,
+      s.remaining_sessions,
+      (SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = s.id) AS package_cycle
+    FROM public.students s
+    WHERE s.package_type IS NOT NULL
+      AND (s.expiration_date IS NULL OR s.expiration_date >= CURRENT_DATE)
+  ),
+  inserted AS (
+    INSERT INTO public.package_alerts (student_id, alert_type, package_cycle, expiration_date, remaining_sessions, message)
+    SELECT
+      a.id,
+      'expiring',
+      a.package_cycle,
+      a.expiration_date,
+      a.remaining_sessions,
+      a.name || '''s package expires on ' || to_char(a.expiration_date, 'Mon DD, YYYY')
+    FROM active_students a
+    WHERE a.expiration_date <= CURRENT_DATE + p_days_ahead
+    ON CONFLICT (student_id, alert_type, package_cycle) DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_expiring FROM inserted;
+
+  WITH active_students AS (
+    SELECT
+      s.id,
+      s.name,
+      s.expiration_date,
+      s.remaining_sessions,
+      (SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = s.id) AS package_cycle
+    FROM public.students s
+    WHERE s.package_type IS NOT NULL
+      AND (s.expiration_date IS NULL OR s.expiration_date >= CURRENT_DATE)
+  ),
+  inserted AS (
+    INSERT INTO public.package_alerts (student_id, alert_type, package_cycle, expiration_date, remaining_sessions, message)
+    SELECT
+      a.id,
+      'low_sessions',
+      a.package_cycle,
+      a.expiration_date,
+      a.remaining_sessions,
+      a.name || ' has ' || trim_scale(a.remaining_sessions) || ' session' ||
+        CASE WHEN a.remaining_sessions = 1 THEN '' ELSE 's' END || ' left'
+    FROM active_students a
+    WHERE a.remaining_sessions IS NOT NULL
+      AND a.remaining_sessions <= p_low_sessions
+    ON CONFLICT (student_id, alert_type, package_cycle) DO NOTHING
+    RETURNING 1
+  )
+  SELECT COUNT(*) INTO v_low FROM inserted;
+
+  RETURN QUERY SELECT v_expiring, v_low;
+END;
+$$;
+
+-- Run daily at 07:00 UTC when pg_cron and pg_net are available
+-- Requires the "project_url" and "service_role_key" secrets in Vault
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'send-package-alerts',
+      '0 7 * * *',
+      $cron$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-session-notification',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{"notificationType": "package_alerts"}'::jsonb
+      );
+      $cron$
+    );
+  END IF;
+END;
+$$;
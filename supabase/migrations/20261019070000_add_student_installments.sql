@@ -0,0 +1,204 @@
+-- Installment payment plans
+-- Splits the training fee balance (total_training_fee - downpayment) of a package into
+-- installments with due dates. Balance payments are allocated to installments in due date order.
+
+CREATE TABLE IF NOT EXISTS public.student_installments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  student_id UUID NOT NULL REFERENCES public.students(id) ON DELETE CASCADE,
+  -- NULL while the installment belongs to the current package, like payments and charges
+  package_history_id UUID NULL REFERENCES public.student_package_history(id) ON DELETE SET NULL,
+  installment_number INTEGER NOT NULL CHECK (installment_number > 0),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  due_date DATE NOT NULL,
+  paid_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  paid_at TIMESTAMP WITH TIME ZONE NULL,
+  late_fee_charge_id UUID NULL REFERENCES public.student_charges(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_student_installments_student_id ON public.student_installments(student_id, due_date);
+CREATE INDEX IF NOT EXISTS idx_student_installments_due_date ON public.student_installments(due_date) WHERE package_history_id IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.student_installments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches and admins can manage student installments"
+ON public.student_installments
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view their own installments"
+ON public.student_installments
+FOR SELECT
+USING (student_id = get_current_student_id());
+
+CREATE TRIGGER update_student_installments_updated_at
+BEFORE UPDATE ON public.student_installments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.student_installments IS 'Scheduled installments of a package training fee balance';
+COMMENT ON COLUMN public.student_installments.paid_amount IS 'Portion covered by balance payments, maintained by allocate_student_installments()';
+COMMENT ON COLUMN public.student_installments.late_fee_charge_id IS 'Late fee charged for this installment (charge_type late_fee)';
+
+-- Spread the current package's balance payments over its installments, earliest due first.
+-- paid_at is the date of the payment that completed the installment.
+CREATE OR REPLACE FUNCTION public.allocate_student_installments(p_student_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_enrollment_date DATE;
+BEGIN
+  SELECT enrollment_date INTO v_enrollment_date
+  FROM public.students
+  WHERE id = p_student_id;
+
+  WITH payments AS (
+    SELECT
+      sp.payment_date,
+      SUM(sp.payment_amount) OVER (ORDER BY sp.payment_date, sp.created_at, sp.id) AS running_paid
+    FROM public.student_payments sp
+    WHERE sp.student_id = p_student_id
+      AND sp.package_history_id IS NULL
+      AND sp.payment_for = 'balance'
+      AND sp.payment_date::date >= COALESCE(v_enrollment_date, '1900-01-01'::date)
+  ),
+  total_paid AS (
+    SELECT COALESCE(MAX(running_paid), 0) AS amount FROM payments
+  ),
+  installments AS (
+    SELECT
+      si.id,
+      si.amount,
+      SUM(si.amount) OVER (ORDER BY si.due_date, si.installment_number, si.id) AS running_due
+    FROM public.student_installments si
+    WHERE si.student_id = p_student_id
+      AND si.package_history_id IS NULL
+  ),
+  allocation AS (
+    SELECT
+      i.id,
+      GREATEST(0, LEAST(i.amount, t.amount - (i.running_due - i.amount))) AS paid_amount,
+      CASE
+        WHEN t.amount >= i.running_due THEN (
+          SELECT MIN(p.payment_date) FROM payments p WHERE p.running_paid >= i.running_due
+        )
+      END AS paid_at
+    FROM installments i
+    CROSS JOIN total_paid t
+  )
+  UPDATE public.student_installments si
+  SET paid_amount = a.paid_amount,
+      paid_at = a.paid_at
+  FROM allocation a
+  WHERE si.id = a.id
+    AND (si.paid_amount IS DISTINCT FROM a.paid_amount OR si.paid_at IS DISTINCT FROM a.paid_at);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.allocate_student_installments_on_payment_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.allocate_student_installments(OLD.student_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM public.allocate_student_installments(NEW.student_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER allocate_student_installments_on_payment_change
+AFTER INSERT OR UPDATE OR DELETE ON public.student_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.allocate_student_installments_on_payment_change();
+
+-- Archiving a package (renewal) closes its installment plan along with its payments and charges
+CREATE OR REPLACE FUNCTION public.archive_student_installments_on_package_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.student_installments
+  SET package_history_id = NEW.id
+  WHERE student_id = NEW.student_id
+    AND package_history_id IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER archive_student_installments_on_package_history
+AFTER INSERT ON public.student_package_history
+FOR EACH ROW
+EXECUTE FUNCTION public.archive_student_installments_on_package_history();
+
+-- Replace the current package's unpaid plan in one go. Installments that already received
+-- payments are kept so the allocation history stays intact.
+CREATE OR REPLACE FUNCTION public.set_student_installment_plan(
+  p_student_id UUID,
+  p_amounts NUMERIC[],
+  p_due_dates DATE[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_student public.students%ROWTYPE;
+  v_balance NUMERIC;
+  v_planned NUMERIC;
+  v_kept NUMERIC;
+  v_next_number INTEGER;
+BEGIN
+  IF COALESCE(array_length(p_amounts, 1), 0) <> COALESCE(array_length(p_due_dates, 1), 0) THEN
+    RAISE EXCEPTION 'Each installment needs an amount and a due date';
+  END IF;
+
+  SELECT * INTO v_student
+  FROM public.students
+  WHERE id = p_student_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student % not found', p_student_id;
+  END IF;
+
+  DELETE FROM public.student_installments
+  WHERE student_id = p_student_id
+    AND package_history_id IS NULL
+    AND paid_amount = 0;
+
+  SELECT COALESCE(SUM(amount), 0), COALESCE(MAX(installment_number), 0) + 1
+  INTO v_kept, v_next_number
+  FROM public.student_installments
+  WHERE student_id = p_student_id
+    AND package_history_id IS NULL;
+
+  SELECT COALESCE(SUM(a), 0) INTO v_planned FROM unnest(p_amounts) AS a;
+
+  v_balance := GREATEST(0, COALESCE(v_student.total_training_fee, 0) - COALESCE(v_student.downpayment, 0));
+
+  IF v_kept + v_planned > v_balance THEN
+    RAISE EXCEPTION 'Installments total % but the training fee balance is %', v_kept + v_planned, v_balance;
+  END IF;
+
+  INSERT INTO public.student_installments (student_id, installment_number, amount, due_date)
+  SELECT p_student_id, v_next_number + plan.ordinality - 1, plan.amount, plan.due_date
+  FROM unnest(p_amounts, p_due_dates) WITH ORDINALITY AS plan(amount, due_date, ordinality);
+
+  PERFORM public.allocate_student_installments(p_student_id);
+
+  RETURN COALESCE(array_length(p_amounts, 1), 0);
+END;
+$$;
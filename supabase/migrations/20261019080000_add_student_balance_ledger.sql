@@ -0,0 +1,264 @@
+-- Server-side balance ledger
+-- One row per student package cycle (archived packages plus the current one) with the balance
+-- derived from payments and charges. The remaining_balance columns on students and
+-- student_package_history become a cache refreshed from this view, and
+-- student_balance_discrepancies lists the rows where that cache has drifted.
+
+CREATE OR REPLACE VIEW public.student_balance_ledger
+WITH (security_invoker = true)
+AS
+WITH charge_payments AS (
+  SELECT sp.charge_id, SUM(sp.payment_amount) AS paid
+  FROM public.student_payments sp
+  WHERE sp.payment_for = 'extra_charge'
+    AND sp.charge_id IS NOT NULL
+  GROUP BY sp.charge_id
+),
+charges AS (
+  -- Charges are paid by payments that reference them, capped at the charge amount
+  SELECT
+    sc.student_id,
+    sc.package_history_id,
+    sc.created_at,
+    sc.amount,
+    LEAST(sc.amount, COALESCE(cp.paid, 0)) AS paid
+  FROM public.student_charges sc
+  LEFT JOIN charge_payments cp ON cp.charge_id = sc.id
+),
+cycles AS (
+  SELECT
+    h.student_id,
+    h.id AS package_history_id,
+    (ROW_NUMBER() OVER (PARTITION BY h.student_id ORDER BY h.captured_at, h.id))::INTEGER AS package_cycle,
+    false AS is_current,
+    h.package_type,
+    h.enrollment_date,
+    h.expiration_date,
+    COALESCE(h.total_training_fee, 0) AS total_training_fee,
+    COALESCE(h.downpayment, 0) AS downpayment,
+    h.remaining_balance AS stored_remaining_balance,
+    h.balance_resolution
+  FROM public.student_package_history h
+  WHERE h.student_id IS NOT NULL
+
+  UNION ALL
+
+  SELECT
+    s.id,
+    NULL::UUID,
+    (SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = s.id)::INTEGER,
+    true,
+    s.package_type,
+    s.enrollment_date,
+    s.expiration_date,
+    COALESCE(s.total_training_fee, 0),
+    COALESCE(s.downpayment, 0),
+    s.remaining_balance,
+    NULL::TEXT
+  FROM public.students s
+)
+SELECT
+  c.student_id,
+  c.package_history_id,
+  c.package_cycle,
+  c.is_current,
+  c.package_type,
+  c.enrollment_date,
+  c.expiration_date,
+  c.total_training_fee,
+  c.downpayment,
+  p.balance_payments,
+  ch.charges_total,
+  ch.charges_paid,
+  ch.charges_owed,
+  GREATEST(0, c.total_training_fee - c.downpayment - p.balance_payments + ch.charges_owed) AS remaining_balance,
+  c.stored_remaining_balance,
+  c.balance_resolution
+FROM cycles c
+CROSS JOIN LATERAL (
+  -- Current package: unarchived payments made since enrollment, same as the balance triggers always used
+  SELECT COALESCE(SUM(sp.payment_amount), 0) AS balance_payments
+  FROM public.student_payments sp
+  WHERE sp.student_id = c.student_id
+    AND sp.payment_for = 'balance'
+    AND CASE
+      WHEN c.is_current THEN sp.package_history_id IS NULL
+        AND sp.payment_date::date >= COALESCE(c.enrollment_date, '1900-01-01'::date)
+      ELSE sp.package_history_id = c.package_history_id
+    END
+) p
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(SUM(x.amount), 0) AS charges_total,
+    COALESCE(SUM(x.paid), 0) AS charges_paid,
+    COALESCE(SUM(x.amount - x.paid), 0) AS charges_owed
+  FROM charges x
+  WHERE x.student_id = c.student_id
+    AND CASE
+      WHEN c.is_current THEN x.package_history_id IS NULL
+        AND x.created_at::date >= COALESCE(c.enrollment_date, '1900-01-01'::date)
+      ELSE x.package_history_id = c.package_history_id
+    END
+) ch;
+
+COMMENT ON VIEW public.student_balance_ledger IS 'Balance, charges owed and charges paid per student package cycle, derived from payments and charges';
+
+-- Balances resolved at renewal keep the amount that was carried forward or written off
+CREATE OR REPLACE VIEW public.student_balance_discrepancies
+WITH (security_invoker = true)
+AS
+SELECT
+  l.student_id,
+  s.name AS student_name,
+  l.package_history_id,
+  l.package_cycle,
+  l.is_current,
+  l.package_type,
+  l.stored_remaining_balance,
+  l.remaining_balance AS ledger_remaining_balance,
+  COALESCE(l.stored_remaining_balance, 0) - l.remaining_balance AS difference
+FROM public.student_balance_ledger l
+JOIN public.students s ON s.id = l.student_id
+WHERE l.balance_resolution IS NULL
+  AND ROUND(COALESCE(l.stored_remaining_balance, 0), 2) <> ROUND(l.remaining_balance, 2);
+
+COMMENT ON VIEW public.student_balance_discrepancies IS 'Package cycles whose stored remaining_balance disagrees with student_balance_ledger';
+
+-- Write the ledger balance back to the stored remaining_balance columns of one student
+CREATE OR REPLACE FUNCTION public.refresh_student_balances(p_student_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.students s
+  SET remaining_balance = l.remaining_balance,
+      updated_at = now()
+  FROM public.student_balance_ledger l
+  WHERE l.student_id = p_student_id
+    AND l.is_current
+    AND s.id = p_student_id
+    AND s.remaining_balance IS DISTINCT FROM l.remaining_balance;
+
+  UPDATE public.student_package_history h
+  SET remaining_balance = l.remaining_balance
+  FROM public.student_balance_ledger l
+  WHERE l.student_id = p_student_id
+    AND l.package_history_id = h.id
+    AND h.balance_resolution IS NULL
+    AND h.remaining_balance IS DISTINCT FROM l.remaining_balance;
+END;
+$$;
+
+-- Fix every drifted balance listed in student_balance_discrepancies
+CREATE OR REPLACE FUNCTION public.sync_student_balances()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_student_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can reconcile balances';
+  END IF;
+
+  FOR v_student_id IN
+    SELECT DISTINCT student_id FROM public.student_balance_discrepancies
+  LOOP
+    PERFORM public.refresh_student_balances(v_student_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+-- The balance triggers now all defer to the ledger instead of repeating the calculation
+CREATE OR REPLACE FUNCTION public.update_student_remaining_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM public.refresh_student_balances(NEW.student_id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.update_student_remaining_balance_on_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM public.refresh_student_balances(OLD.student_id);
+  RETURN OLD;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.update_student_balance_on_charge()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM public.refresh_student_balances(NEW.student_id);
+  RETURN NEW;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.update_student_balance_on_charge_delete()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM public.refresh_student_balances(OLD.student_id);
+  RETURN OLD;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.update_student_remaining_balance_on_update()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  PERFORM public.refresh_student_balances(NEW.id);
+  RETURN NEW;
+END;
+$function$;
+
+-- Re-linking payments to an archived package and editing archived fees also move balances
+CREATE OR REPLACE FUNCTION public.update_package_history_remaining_balance()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $function$
+BEGIN
+  IF NEW.student_id IS NOT NULL THEN
+    PERFORM public.refresh_student_balances(NEW.student_id);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS trigger_update_remaining_balance_on_payment_update ON public.student_payments;
+CREATE TRIGGER trigger_update_remaining_balance_on_payment_update
+AFTER UPDATE OF payment_amount, payment_for, payment_date, package_history_id, charge_id ON public.student_payments
+FOR EACH ROW
+EXECUTE FUNCTION update_student_remaining_balance();
+
+DROP TRIGGER IF EXISTS trigger_update_remaining_balance_on_student_update ON public.students;
+CREATE TRIGGER trigger_update_remaining_balance_on_student_update
+AFTER UPDATE OF total_training_fee, downpayment, enrollment_date ON public.students
+FOR EACH ROW
+EXECUTE FUNCTION update_student_remaining_balance_on_update();
+
+DROP TRIGGER IF EXISTS trigger_update_remaining_balance_on_package_history_update ON public.student_package_history;
+CREATE TRIGGER trigger_update_remaining_balance_on_package_history_update
+AFTER UPDATE OF total_training_fee, downpayment ON public.student_package_history
+FOR EACH ROW
+EXECUTE FUNCTION update_package_history_remaining_balance();
@@ -0,0 +1,362 @@
+-- Refunds, voids and payment corrections
+-- Payments are no longer edited or deleted to fix mistakes. A void keeps the row but takes it
+-- out of every balance, a refund is a new negative row pointing at the payment it returns.
+-- Both record the reason and the admin who made the correction.
+
+ALTER TABLE public.student_payments
+ADD COLUMN IF NOT EXISTS transaction_type TEXT NOT NULL DEFAULT 'payment'
+  CHECK (transaction_type IN ('payment', 'refund')),
+ADD COLUMN IF NOT EXISTS refunded_payment_id UUID NULL REFERENCES public.student_payments(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS reason TEXT,
+ADD COLUMN IF NOT EXISTS recorded_by UUID NULL REFERENCES public.coaches(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS voided_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS voided_by UUID NULL REFERENCES public.coaches(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS void_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_student_payments_refunded_payment_id ON public.student_payments(refunded_payment_id);
+
+COMMENT ON COLUMN public.student_payments.transaction_type IS 'payment, or refund (negative payment_amount) of refunded_payment_id';
+COMMENT ON COLUMN public.student_payments.refunded_payment_id IS 'Original payment a refund returns money from';
+COMMENT ON COLUMN public.student_payments.reason IS 'Why the refund was issued';
+COMMENT ON COLUMN public.student_payments.recorded_by IS 'Admin who recorded the refund';
+COMMENT ON COLUMN public.student_payments.voided_at IS 'When the entry was voided, voided entries no longer count towards any balance';
+COMMENT ON COLUMN public.student_payments.voided_by IS 'Admin who voided the entry';
+COMMENT ON COLUMN public.student_payments.void_reason IS 'Why the entry was voided';
+
+-- A voided entry is final, only its package link may still move when the package is archived
+CREATE OR REPLACE FUNCTION public.protect_voided_student_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.voided_at IS NOT NULL AND (
+    NEW.voided_at IS DISTINCT FROM OLD.voided_at
+    OR NEW.payment_amount IS DISTINCT FROM OLD.payment_amount
+    OR NEW.payment_for IS DISTINCT FROM OLD.payment_for
+    OR NEW.charge_id IS DISTINCT FROM OLD.charge_id
+  ) THEN
+    RAISE EXCEPTION 'Payment % has been voided and can no longer be changed', OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_voided_student_payments ON public.student_payments;
+CREATE TRIGGER protect_voided_student_payments
+BEFORE UPDATE ON public.student_payments
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_voided_student_payments();
+
+-- Move a charge's paid_amount by p_delta and keep is_paid/paid_at in step
+CREATE OR REPLACE FUNCTION public.adjust_student_charge_paid_amount(p_charge_id UUID, p_delta NUMERIC)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.student_charges
+  SET paid_amount = GREATEST(0, COALESCE(paid_amount, 0) + p_delta),
+      is_paid = GREATEST(0, COALESCE(paid_amount, 0) + p_delta) >= amount,
+      paid_at = CASE WHEN GREATEST(0, COALESCE(paid_amount, 0) + p_delta) >= amount THEN paid_at END
+  WHERE id = p_charge_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.void_student_payment(p_payment_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.student_payments%ROWTYPE;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can void payments';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to void a payment';
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.student_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  IF v_payment.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Payment has already been voided';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.student_payments
+    WHERE refunded_payment_id = p_payment_id
+      AND voided_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Void the refunds of this payment first';
+  END IF;
+
+  UPDATE public.student_payments
+  SET voided_at = now(),
+      voided_by = get_current_coach_id(),
+      void_reason = btrim(p_reason)
+  WHERE id = p_payment_id;
+
+  IF v_payment.payment_for = 'extra_charge' AND v_payment.charge_id IS NOT NULL THEN
+    PERFORM public.adjust_student_charge_paid_amount(v_payment.charge_id, -v_payment.payment_amount);
+  END IF;
+END;
+$$;
+
+-- Returns the id of the refund entry
+CREATE OR REPLACE FUNCTION public.refund_student_payment(p_payment_id UUID, p_amount NUMERIC, p_reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_payment public.student_payments%ROWTYPE;
+  v_refunded NUMERIC;
+  v_refund_id UUID;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can refund payments';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required to refund a payment';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_payment
+  FROM public.student_payments
+  WHERE id = p_payment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment % not found', p_payment_id;
+  END IF;
+
+  IF v_payment.transaction_type <> 'payment' THEN
+    RAISE EXCEPTION 'Only payments can be refunded';
+  END IF;
+
+  IF v_payment.voided_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Payment has been voided';
+  END IF;
+
+  SELECT COALESCE(-SUM(payment_amount), 0) INTO v_refunded
+  FROM public.student_payments
+  WHERE refunded_payment_id = p_payment_id
+    AND voided_at IS NULL;
+
+  IF p_amount > v_payment.payment_amount - v_refunded THEN
+    RAISE EXCEPTION 'Refund of % exceeds the refundable amount of %', p_amount, v_payment.payment_amount - v_refunded;
+  END IF;
+
+  -- Refunds land in the same package and charge as the payment they return
+  INSERT INTO public.student_payments (
+    student_id,
+    payment_amount,
+    payment_date,
+    payment_for,
+    charge_id,
+    package_history_id,
+    transaction_type,
+    refunded_payment_id,
+    reason,
+    recorded_by
+  )
+  VALUES (
+    v_payment.student_id,
+    -p_amount,
+    now(),
+    v_payment.payment_for,
+    v_payment.charge_id,
+    v_payment.package_history_id,
+    'refund',
+    p_payment_id,
+    btrim(p_reason),
+    get_current_coach_id()
+  )
+  RETURNING id INTO v_refund_id;
+
+  IF v_payment.payment_for = 'extra_charge' AND v_payment.charge_id IS NOT NULL THEN
+    PERFORM public.adjust_student_charge_paid_amount(v_payment.charge_id, -p_amount);
+  END IF;
+
+  RETURN v_refund_id;
+END;
+$$;
+
+-- Same ledger as before, without voided entries. Refunds are negative so they simply add back.
+CREATE OR REPLACE VIEW public.student_balance_ledger
+WITH (security_invoker = true)
+AS
+WITH charge_payments AS (
+  SELECT sp.charge_id, SUM(sp.payment_amount) AS paid
+  FROM public.student_payments sp
+  WHERE sp.payment_for = 'extra_charge'
+    AND sp.charge_id IS NOT NULL
+    AND sp.voided_at IS NULL
+  GROUP BY sp.charge_id
+),
+charges AS (
+  -- Charges are paid by payments that reference them, capped at the charge amount
+  SELECT
+    sc.student_id,
+    sc.package_history_id,
+    sc.created_at,
+    sc.amount,
+    GREATEST(0, LEAST(sc.amount, COALESCE(cp.paid, 0))) AS paid
+  FROM public.student_charges sc
+  LEFT JOIN charge_payments cp ON cp.charge_id = sc.id
+),
+cycles AS (
+  SELECT
+    h.student_id,
+    h.id AS package_history_id,
+    (ROW_NUMBER() OVER (PARTITION BY h.student_id ORDER BY h.captured_at, h.id))::INTEGER AS package_cycle,
+    false AS is_current,
+    h.package_type,
+    h.enrollment_date,
+    h.expiration_date,
+    COALESCE(h.total_training_fee, 0) AS total_training_fee,
+    COALESCE(h.downpayment, 0) AS downpayment,
+    h.remaining_balance AS stored_remaining_balance,
+    h.balance_resolution
+  FROM public.student_package_history h
+  WHERE h.student_id IS NOT NULL
+
+  UNION ALL
+
+  SELECT
+    s.id,
+    NULL::UUID,
+    (SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = s.id)::INTEGER,
+    true,
+    s.package_type,
+    s.enrollment_date,
+    s.expiration_date,
+    COALESCE(s.total_training_fee, 0),
+    COALESCE(s.downpayment, 0),
+    s.remaining_balance,
+    NULL::TEXT
+  FROM public.students s
+)
+SELECT
+  c.student_id,
+  c.package_history_id,
+  c.package_cycle,
+  c.is_current,
+  c.package_type,
+  c.enrollment_date,
+  c.expiration_date,
+  c.total_training_fee,
+  c.downpayment,
+  p.balance_payments,
+  ch.charges_total,
+  ch.charges_paid,
+  ch.charges_owed,
+  GREATEST(0, c.total_training_fee - c.downpayment - p.balance_payments + ch.charges_owed) AS remaining_balance,
+  c.stored_remaining_balance,
+  c.balance_resolution
+FROM cycles c
+CROSS JOIN LATERAL (
+  -- Current package: unarchived payments made since enrollment, same as the balance triggers always used
+  SELECT COALESCE(SUM(sp.payment_amount), 0) AS balance_payments
+  FROM public.student_payments sp
+  WHERE sp.student_id = c.student_id
+    AND sp.payment_for = 'balance'
+    AND sp.voided_at IS NULL
+    AND CASE
+      WHEN c.is_current THEN sp.package_history_id IS NULL
+        AND sp.payment_date::date >= COALESCE(c.enrollment_date, '1900-01-01'::date)
+      ELSE sp.package_history_id = c.package_history_id
+    END
+) p
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(SUM(x.amount), 0) AS charges_total,
+    COALESCE(SUM(x.paid), 0) AS charges_paid,
+    COALESCE(SUM(x.amount - x.paid), 0) AS charges_owed
+  FROM charges x
+  WHERE x.student_id = c.student_id
+    AND CASE
+      WHEN c.is_current THEN x.package_history_id IS NULL
+        AND x.created_at::date >= COALESCE(c.enrollment_date, '1900-01-01'::date)
+      ELSE x.package_history_id = c.package_history_id
+    END
+) ch;
+
+-- Installments follow the same rule: voided payments are skipped and refunds take money back
+CREATE OR REPLACE FUNCTION public.allocate_student_installments(p_student_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_enrollment_date DATE;
+BEGIN
+  SELECT enrollment_date INTO v_enrollment_date
+  FROM public.students
+  WHERE id = p_student_id;
+
+  WITH payments AS (
+    SELECT
+      sp.payment_date,
+      sp.payment_amount,
+      SUM(sp.payment_amount) OVER (ORDER BY sp.payment_date, sp.created_at, sp.id) AS running_paid
+    FROM public.student_payments sp
+    WHERE sp.student_id = p_student_id
+      AND sp.package_history_id IS NULL
+      AND sp.payment_for = 'balance'
+      AND sp.voided_at IS NULL
+      AND sp.payment_date::date >= COALESCE(v_enrollment_date, '1900-01-01'::date)
+  ),
+  total_paid AS (
+    SELECT GREATEST(0, COALESCE(SUM(payment_amount), 0)) AS amount FROM payments
+  ),
+  installments AS (
+    SELECT
+      si.id,
+      si.amount,
+      SUM(si.amount) OVER (ORDER BY si.due_date, si.installment_number, si.id) AS running_due
+    FROM public.student_installments si
+    WHERE si.student_id = p_student_id
+      AND si.package_history_id IS NULL
+  ),
+  allocation AS (
+    SELECT
+      i.id,
+      GREATEST(0, LEAST(i.amount, t.amount - (i.running_due - i.amount))) AS paid_amount,
+      CASE
+        WHEN t.amount >= i.running_due THEN (
+          SELECT MIN(p.payment_date) FROM payments p WHERE p.running_paid >= i.running_due
+        )
+      END AS paid_at
+    FROM installments i
+    CROSS JOIN total_paid t
+  )
+  UPDATE public.student_installments si
+  SET paid_amount = a.paid_amount,
+      paid_at = a.paid_at
+  FROM allocation a
+  WHERE si.id = a.id
+    AND (si.paid_amount IS DISTINCT FROM a.paid_amount OR si.paid_at IS DISTINCT FROM a.paid_at);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_update_remaining_balance_on_payment_update ON public.student_payments;
+CREATE TRIGGER trigger_update_remaining_balance_on_payment_update
+AFTER UPDATE OF payment_amount, payment_for, payment_date, package_history_id, charge_id, voided_at ON public.student_payments
+FOR EACH ROW
+EXECUTE FUNCTION update_student_remaining_balance();
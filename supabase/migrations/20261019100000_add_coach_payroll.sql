@@ -0,0 +1,296 @@
+-- Coach payroll
+-- Each coach has a rate card: a default rate plus optional rates for specific package types,
+-- paid per session or per hour. A payroll period turns the coach's logged session times and
+-- attendance in its date range into pay lines, admins add adjustments and deductions, and
+-- approving the period locks all of it.
+
+CREATE TABLE IF NOT EXISTS public.coach_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  coach_id UUID NOT NULL REFERENCES public.coaches(id) ON DELETE CASCADE,
+  -- NULL is the coach's default rate for sessions of any package type
+  package_type TEXT NULL,
+  rate_type TEXT NOT NULL DEFAULT 'per_session' CHECK (rate_type IN ('per_session', 'hourly')),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount >= 0),
+  absence_deduction NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (absence_deduction >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_coach_rates_coach_package
+ON public.coach_rates(coach_id, COALESCE(package_type, ''));
+
+CREATE TABLE IF NOT EXISTS public.payroll_periods (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved')),
+  calculated_at TIMESTAMP WITH TIME ZONE NULL,
+  approved_at TIMESTAMP WITH TIME ZONE NULL,
+  approved_by UUID NULL REFERENCES public.coaches(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+-- One line per coach per session in the period, priced with the rate in force when calculated
+CREATE TABLE IF NOT EXISTS public.payroll_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_id UUID NOT NULL REFERENCES public.payroll_periods(id) ON DELETE CASCADE,
+  coach_id UUID NOT NULL REFERENCES public.coaches(id) ON DELETE CASCADE,
+  session_id UUID NULL REFERENCES public.training_sessions(id) ON DELETE SET NULL,
+  session_date DATE NOT NULL,
+  package_type TEXT NULL,
+  status TEXT NOT NULL CHECK (status IN ('present', 'absent', 'pending')),
+  time_in TIMESTAMP WITH TIME ZONE NULL,
+  time_out TIMESTAMP WITH TIME ZONE NULL,
+  hours NUMERIC(8,2) NOT NULL DEFAULT 0,
+  rate_type TEXT NULL,
+  rate NUMERIC(12,2) NOT NULL DEFAULT 0,
+  amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_lines_period_coach ON public.payroll_lines(period_id, coach_id);
+
+CREATE TABLE IF NOT EXISTS public.payroll_adjustments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  period_id UUID NOT NULL REFERENCES public.payroll_periods(id) ON DELETE CASCADE,
+  coach_id UUID NOT NULL REFERENCES public.coaches(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('adjustment', 'deduction')),
+  amount NUMERIC(12,2) NOT NULL CHECK (amount > 0),
+  description TEXT NOT NULL,
+  created_by UUID NULL REFERENCES public.coaches(id) ON DELETE SET NULL DEFAULT get_current_coach_id(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_adjustments_period_coach ON public.payroll_adjustments(period_id, coach_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.coach_rates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_periods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage coach rates"
+ON public.coach_rates
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Admins can manage payroll periods"
+ON public.payroll_periods
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Admins can manage payroll lines"
+ON public.payroll_lines
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Admins can manage payroll adjustments"
+ON public.payroll_adjustments
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE TRIGGER update_coach_rates_updated_at
+BEFORE UPDATE ON public.coach_rates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_payroll_periods_updated_at
+BEFORE UPDATE ON public.payroll_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.coach_rates IS 'Coach rate card, the row matching a session package type wins over the default (NULL) row';
+COMMENT ON COLUMN public.coach_rates.absence_deduction IS 'Deducted for each session in the period the coach was marked absent from';
+COMMENT ON TABLE public.payroll_periods IS 'Pay periods, locked once approved';
+COMMENT ON TABLE public.payroll_lines IS 'Pay per coach per session of a payroll period, rebuilt by calculate_payroll_period()';
+COMMENT ON TABLE public.payroll_adjustments IS 'Manual additions and deductions on a coach''s pay for a period';
+
+-- Approved periods are read-only, including their lines and adjustments
+CREATE OR REPLACE FUNCTION public.prevent_approved_payroll_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_period_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'payroll_periods' THEN
+    IF OLD.status = 'approved' THEN
+      RAISE EXCEPTION 'Payroll period % is approved and locked', OLD.id;
+    END IF;
+  ELSE
+    v_period_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.period_id ELSE NEW.period_id END;
+    IF EXISTS (
+      SELECT 1 FROM public.payroll_periods
+      WHERE id = v_period_id
+        AND status = 'approved'
+    ) THEN
+      RAISE EXCEPTION 'Payroll period % is approved and locked', v_period_id;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_approved_payroll_period_changes
+BEFORE UPDATE OR DELETE ON public.payroll_periods
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_approved_payroll_changes();
+
+CREATE TRIGGER prevent_approved_payroll_line_changes
+BEFORE INSERT OR UPDATE OR DELETE ON public.payroll_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_approved_payroll_changes();
+
+CREATE TRIGGER prevent_approved_payroll_adjustment_changes
+BEFORE INSERT OR UPDATE OR DELETE ON public.payroll_adjustments
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_approved_payroll_changes();
+
+-- Rebuild the pay lines of a draft period from session_coaches, coach_session_times and
+-- coach_attendance_records. Absent (marked absent) sessions carry the absence deduction,
+-- sessions without both time in and time out are listed as pending and pay nothing yet.
+CREATE OR REPLACE FUNCTION public.calculate_payroll_period(p_period_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_period public.payroll_periods%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can calculate payroll';
+  END IF;
+
+  SELECT * INTO v_period
+  FROM public.payroll_periods
+  WHERE id = p_period_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll period % not found', p_period_id;
+  END IF;
+
+  IF v_period.status = 'approved' THEN
+    RAISE EXCEPTION 'Payroll period is approved and locked';
+  END IF;
+
+  DELETE FROM public.payroll_lines WHERE period_id = p_period_id;
+
+  INSERT INTO public.payroll_lines (
+    period_id, coach_id, session_id, session_date, package_type, status,
+    time_in, time_out, hours, rate_type, rate, amount
+  )
+  SELECT
+    p_period_id,
+    l.coach_id,
+    l.session_id,
+    l.session_date,
+    l.package_type,
+    l.status,
+    l.time_in,
+    l.time_out,
+    l.hours,
+    l.rate_type,
+    COALESCE(l.rate, 0),
+    CASE
+      WHEN l.status = 'absent' THEN -COALESCE(l.absence_deduction, 0)
+      WHEN l.status = 'present' AND l.rate_type = 'hourly' THEN ROUND(COALESCE(l.rate, 0) * l.hours, 2)
+      WHEN l.status = 'present' THEN COALESCE(l.rate, 0)
+      ELSE 0
+    END
+  FROM (
+    SELECT
+      sc.coach_id,
+      ts.id AS session_id,
+      ts.date AS session_date,
+      ts.package_type,
+      CASE
+        WHEN ca.status = 'absent' THEN 'absent'
+        WHEN cst.time_in IS NOT NULL AND cst.time_out IS NOT NULL THEN 'present'
+        ELSE 'pending'
+      END AS status,
+      cst.time_in,
+      cst.time_out,
+      CASE
+        WHEN ca.status IS DISTINCT FROM 'absent' AND cst.time_in IS NOT NULL AND cst.time_out > cst.time_in
+          THEN ROUND((EXTRACT(EPOCH FROM (cst.time_out - cst.time_in)) / 3600)::NUMERIC, 2)
+        ELSE 0
+      END AS hours,
+      r.rate_type,
+      r.amount AS rate,
+      r.absence_deduction
+    FROM public.session_coaches sc
+    JOIN public.training_sessions ts ON ts.id = sc.session_id
+    LEFT JOIN public.coach_session_times cst ON cst.session_id = ts.id AND cst.coach_id = sc.coach_id
+    LEFT JOIN public.coach_attendance_records ca ON ca.session_id = ts.id AND ca.coach_id = sc.coach_id
+    LEFT JOIN LATERAL (
+      SELECT cr.rate_type, cr.amount, cr.absence_deduction
+      FROM public.coach_rates cr
+      WHERE cr.coach_id = sc.coach_id
+        AND (cr.package_type IS NULL OR cr.package_type = ts.package_type)
+      ORDER BY cr.package_type NULLS LAST
+      LIMIT 1
+    ) r ON true
+    WHERE ts.date BETWEEN v_period.start_date AND v_period.end_date
+      AND ts.status <> 'cancelled'
+  ) l;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.payroll_periods
+  SET calculated_at = now()
+  WHERE id = p_period_id;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_payroll_period(p_period_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_period public.payroll_periods%ROWTYPE;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve payroll';
+  END IF;
+
+  SELECT * INTO v_period
+  FROM public.payroll_periods
+  WHERE id = p_period_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll period % not found', p_period_id;
+  END IF;
+
+  IF v_period.status = 'approved' THEN
+    RAISE EXCEPTION 'Payroll period is already approved';
+  END IF;
+
+  IF v_period.calculated_at IS NULL THEN
+    RAISE EXCEPTION 'Calculate the payroll period before approving it';
+  END IF;
+
+  UPDATE public.payroll_periods
+  SET status = 'approved',
+      approved_at = now(),
+      approved_by = get_current_coach_id()
+  WHERE id = p_period_id;
+END;
+$$;
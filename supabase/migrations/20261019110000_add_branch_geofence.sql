@@ -0,0 +1,299 @@
+-- Geofenced coach time in and time out
+-- Branches carry their coordinates and an allowed radius. Every punch stores where the coach
+-- reported being, the distance to the session's branch is worked out here so a client can't
+-- mark itself in range. Punches outside the radius, or without a location, wait for an admin.
+-- Punches recorded or corrected by an admin are trusted and never flagged.
+
+ALTER TABLE public.branches
+ADD COLUMN IF NOT EXISTS latitude DOUBLE PRECISION NULL CHECK (latitude BETWEEN -90 AND 90),
+ADD COLUMN IF NOT EXISTS longitude DOUBLE PRECISION NULL CHECK (longitude BETWEEN -180 AND 180),
+ADD COLUMN IF NOT EXISTS geofence_radius_meters INTEGER NOT NULL DEFAULT 200 CHECK (geofence_radius_meters > 0);
+
+COMMENT ON COLUMN public.branches.latitude IS 'Branch location, punches are not checked while latitude or longitude is empty';
+COMMENT ON COLUMN public.branches.longitude IS 'Branch location, punches are not checked while latitude or longitude is empty';
+COMMENT ON COLUMN public.branches.geofence_radius_meters IS 'How far from the branch a coach may time in or out';
+
+ALTER TABLE public.coach_session_times
+ADD COLUMN IF NOT EXISTS time_in_latitude DOUBLE PRECISION NULL,
+ADD COLUMN IF NOT EXISTS time_in_longitude DOUBLE PRECISION NULL,
+ADD COLUMN IF NOT EXISTS time_in_accuracy_meters DOUBLE PRECISION NULL,
+ADD COLUMN IF NOT EXISTS time_in_distance_meters DOUBLE PRECISION NULL,
+ADD COLUMN IF NOT EXISTS time_in_location_flag TEXT NULL
+  CHECK (time_in_location_flag IN ('out_of_range', 'no_location')),
+ADD COLUMN IF NOT EXISTS time_out_latitude DOUBLE PRECISION NULL,
+ADD COLUMN IF NOT EXISTS time_out_longitude DOUBLE PRECISION NULL,
+ADD COLUMN IF NOT EXISTS time_out_accuracy_meters DOUBLE PRECISION NULL,
+ADD COLUMN IF NOT EXISTS time_out_distance_meters DOUBLE PRECISION NULL,
+ADD COLUMN IF NOT EXISTS time_out_location_flag TEXT NULL
+  CHECK (time_out_location_flag IN ('out_of_range', 'no_location')),
+ADD COLUMN IF NOT EXISTS location_review_status TEXT NULL
+  CHECK (location_review_status IN ('pending', 'approved', 'rejected')),
+ADD COLUMN IF NOT EXISTS location_reviewed_at TIMESTAMP WITH TIME ZONE NULL,
+ADD COLUMN IF NOT EXISTS location_reviewed_by UUID NULL REFERENCES public.coaches(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS location_review_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_coach_session_times_location_review
+ON public.coach_session_times(location_review_status)
+WHERE location_review_status = 'pending';
+
+COMMENT ON COLUMN public.coach_session_times.time_in_distance_meters IS 'Distance from the session''s branch when timing in, set by check_coach_punch_location()';
+COMMENT ON COLUMN public.coach_session_times.time_in_location_flag IS 'out_of_range or no_location when the time in was outside the branch geofence';
+COMMENT ON COLUMN public.coach_session_times.time_out_distance_meters IS 'Distance from the session''s branch when timing out, set by check_coach_punch_location()';
+COMMENT ON COLUMN public.coach_session_times.time_out_location_flag IS 'out_of_range or no_location when the time out was outside the branch geofence';
+COMMENT ON COLUMN public.coach_session_times.location_review_status IS 'pending while a flagged punch waits for an admin, then approved or rejected';
+
+-- Great-circle distance in meters between two coordinates
+CREATE OR REPLACE FUNCTION public.distance_meters(
+  p_latitude1 DOUBLE PRECISION,
+  p_longitude1 DOUBLE PRECISION,
+  p_latitude2 DOUBLE PRECISION,
+  p_longitude2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(p_latitude2 - p_latitude1) / 2), 2)
+    + cos(radians(p_latitude1)) * cos(radians(p_latitude2))
+      * power(sin(radians(p_longitude2 - p_longitude1) / 2), 2)
+  ));
+$$;
+
+-- Work out distance and flag of a new time in or time out against the session's branch.
+-- Location columns of an unchanged punch and the review columns can't be edited by coaches.
+CREATE OR REPLACE FUNCTION public.check_coach_punch_location()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_branch public.branches%ROWTYPE;
+  v_is_admin BOOLEAN := is_user_admin();
+  v_time_in_changed BOOLEAN;
+  v_time_out_changed BOOLEAN;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NOT v_is_admin AND (
+    NEW.location_review_status IS DISTINCT FROM OLD.location_review_status
+    OR NEW.location_reviewed_at IS DISTINCT FROM OLD.location_reviewed_at
+    OR NEW.location_reviewed_by IS DISTINCT FROM OLD.location_reviewed_by
+    OR NEW.location_review_note IS DISTINCT FROM OLD.location_review_note
+  ) THEN
+    RAISE EXCEPTION 'Only admins can review punch locations';
+  END IF;
+
+  v_time_in_changed := CASE WHEN TG_OP = 'INSERT' THEN NEW.time_in IS NOT NULL ELSE NEW.time_in IS DISTINCT FROM OLD.time_in END;
+  v_time_out_changed := CASE WHEN TG_OP = 'INSERT' THEN NEW.time_out IS NOT NULL ELSE NEW.time_out IS DISTINCT FROM OLD.time_out END;
+
+  IF TG_OP = 'UPDATE' THEN
+    IF NOT v_time_in_changed THEN
+      NEW.time_in_latitude := OLD.time_in_latitude;
+      NEW.time_in_longitude := OLD.time_in_longitude;
+      NEW.time_in_accuracy_meters := OLD.time_in_accuracy_meters;
+      NEW.time_in_distance_meters := OLD.time_in_distance_meters;
+      NEW.time_in_location_flag := OLD.time_in_location_flag;
+    END IF;
+    IF NOT v_time_out_changed THEN
+      NEW.time_out_latitude := OLD.time_out_latitude;
+      NEW.time_out_longitude := OLD.time_out_longitude;
+      NEW.time_out_accuracy_meters := OLD.time_out_accuracy_meters;
+      NEW.time_out_distance_meters := OLD.time_out_distance_meters;
+      NEW.time_out_location_flag := OLD.time_out_location_flag;
+    END IF;
+  END IF;
+
+  IF NOT v_time_in_changed AND NOT v_time_out_changed THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT b.* INTO v_branch
+  FROM public.training_sessions ts
+  JOIN public.branches b ON b.id = ts.branch_id
+  WHERE ts.id = NEW.session_id;
+
+  IF v_time_in_changed THEN
+    NEW.time_in_distance_meters := NULL;
+    NEW.time_in_location_flag := NULL;
+    IF NEW.time_in IS NOT NULL AND v_branch.latitude IS NOT NULL AND v_branch.longitude IS NOT NULL THEN
+      IF NEW.time_in_latitude IS NULL OR NEW.time_in_longitude IS NULL THEN
+        IF NOT v_is_admin THEN
+          NEW.time_in_location_flag := 'no_location';
+        END IF;
+      ELSE
+        NEW.time_in_distance_meters := ROUND(distance_meters(
+          v_branch.latitude, v_branch.longitude, NEW.time_in_latitude, NEW.time_in_longitude
+        )::NUMERIC, 1);
+        IF NEW.time_in_distance_meters > v_branch.geofence_radius_meters AND NOT v_is_admin THEN
+          NEW.time_in_location_flag := 'out_of_range';
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_time_out_changed THEN
+    NEW.time_out_distance_meters := NULL;
+    NEW.time_out_location_flag := NULL;
+    IF NEW.time_out IS NOT NULL AND v_branch.latitude IS NOT NULL AND v_branch.longitude IS NOT NULL THEN
+      IF NEW.time_out_latitude IS NULL OR NEW.time_out_longitude IS NULL THEN
+        IF NOT v_is_admin THEN
+          NEW.time_out_location_flag := 'no_location';
+        END IF;
+      ELSE
+        NEW.time_out_distance_meters := ROUND(distance_meters(
+          v_branch.latitude, v_branch.longitude, NEW.time_out_latitude, NEW.time_out_longitude
+        )::NUMERIC, 1);
+        IF NEW.time_out_distance_meters > v_branch.geofence_radius_meters AND NOT v_is_admin THEN
+          NEW.time_out_location_flag := 'out_of_range';
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  -- A newly flagged punch reopens the review, a clean record needs none
+  IF (v_time_in_changed AND NEW.time_in_location_flag IS NOT NULL)
+    OR (v_time_out_changed AND NEW.time_out_location_flag IS NOT NULL) THEN
+    NEW.location_review_status := 'pending';
+    NEW.location_reviewed_at := NULL;
+    NEW.location_reviewed_by := NULL;
+    NEW.location_review_note := NULL;
+  ELSIF NEW.time_in_location_flag IS NULL AND NEW.time_out_location_flag IS NULL THEN
+    NEW.location_review_status := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_coach_punch_location ON public.coach_session_times;
+CREATE TRIGGER check_coach_punch_location
+BEFORE INSERT OR UPDATE ON public.coach_session_times
+FOR EACH ROW
+EXECUTE FUNCTION public.check_coach_punch_location();
+
+CREATE OR REPLACE FUNCTION public.review_coach_punch_location(
+  p_session_time_id UUID,
+  p_approved BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can review punch locations';
+  END IF;
+
+  UPDATE public.coach_session_times
+  SET location_review_status = CASE WHEN p_approved THEN 'approved' ELSE 'rejected' END,
+      location_reviewed_at = now(),
+      location_reviewed_by = get_current_coach_id(),
+      location_review_note = NULLIF(btrim(p_note), '')
+  WHERE id = p_session_time_id
+    AND location_review_status IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No flagged punch found for %', p_session_time_id;
+  END IF;
+END;
+$$;
+
+-- Punches still waiting for review, or rejected, are not paid
+CREATE OR REPLACE FUNCTION public.calculate_payroll_period(p_period_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_period public.payroll_periods%ROWTYPE;
+  v_count INTEGER;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can calculate payroll';
+  END IF;
+
+  SELECT * INTO v_period
+  FROM public.payroll_periods
+  WHERE id = p_period_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll period % not found', p_period_id;
+  END IF;
+
+  IF v_period.status = 'approved' THEN
+    RAISE EXCEPTION 'Payroll period is approved and locked';
+  END IF;
+
+  DELETE FROM public.payroll_lines WHERE period_id = p_period_id;
+
+  INSERT INTO public.payroll_lines (
+    period_id, coach_id, session_id, session_date, package_type, status,
+    time_in, time_out, hours, rate_type, rate, amount
+  )
+  SELECT
+    p_period_id,
+    l.coach_id,
+    l.session_id,
+    l.session_date,
+    l.package_type,
+    l.status,
+    l.time_in,
+    l.time_out,
+    l.hours,
+    l.rate_type,
+    COALESCE(l.rate, 0),
+    CASE
+      WHEN l.status = 'absent' THEN -COALESCE(l.absence_deduction, 0)
+      WHEN l.status = 'present' AND l.rate_type = 'hourly' THEN ROUND(COALESCE(l.rate, 0) * l.hours, 2)
+      WHEN l.status = 'present' THEN COALESCE(l.rate, 0)
+      ELSE 0
+    END
+  FROM (
+    SELECT
+      sc.coach_id,
+      ts.id AS session_id,
+      ts.date AS session_date,
+      ts.package_type,
+      CASE
+        WHEN ca.status = 'absent' THEN 'absent'
+        WHEN cst.location_review_status IN ('pending', 'rejected') THEN 'pending'
+        WHEN cst.time_in IS NOT NULL AND cst.time_out IS NOT NULL THEN 'present'
+        ELSE 'pending'
+      END AS status,
+      cst.time_in,
+      cst.time_out,
+      CASE
+        WHEN ca.status IS DISTINCT FROM 'absent' AND cst.time_in IS NOT NULL AND cst.time_out > cst.time_in
+          THEN ROUND((EXTRACT(EPOCH FROM (cst.time_out - cst.time_in)) / 3600)::NUMERIC, 2)
+        ELSE 0
+      END AS hours,
+      r.rate_type,
+      r.amount AS rate,
+      r.absence_deduction
+    FROM public.session_coaches sc
+    JOIN public.training_sessions ts ON ts.id = sc.session_id
+    LEFT JOIN public.coach_session_times cst ON cst.session_id = ts.id AND cst.coach_id = sc.coach_id
+    LEFT JOIN public.coach_attendance_records ca ON ca.session_id = ts.id AND ca.coach_id = sc.coach_id
+    LEFT JOIN LATERAL (
+      SELECT cr.rate_type, cr.amount, cr.absence_deduction
+      FROM public.coach_rates cr
+      WHERE cr.coach_id = sc.coach_id
+        AND (cr.package_type IS NULL OR cr.package_type = ts.package_type)
+      ORDER BY cr.package_type NULLS LAST
+      LIMIT 1
+    ) r ON true
+    WHERE ts.date BETWEEN v_period.start_date AND v_period.end_date
+      AND ts.status <> 'cancelled'
+  ) l;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE public.payroll_periods
+  SET calculated_at = now()
+  WHERE id = p_period_id;
+
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,60 @@
+-- Coach punctuality
+-- Compares each coach's time in and time out with the session's start_time and end_time.
+-- Like the absence grace period of check_coach_attendance_grace_period(), a coach gets a few
+-- minutes of grace, set per branch, before a punch counts as late or as an early leave.
+
+ALTER TABLE public.branches
+ADD COLUMN IF NOT EXISTS late_grace_minutes INTEGER NOT NULL DEFAULT 5 CHECK (late_grace_minutes >= 0),
+ADD COLUMN IF NOT EXISTS early_leave_grace_minutes INTEGER NOT NULL DEFAULT 5 CHECK (early_leave_grace_minutes >= 0);
+
+COMMENT ON COLUMN public.branches.late_grace_minutes IS 'Minutes after start_time a coach may time in and still be on time';
+COMMENT ON COLUMN public.branches.early_leave_grace_minutes IS 'Minutes before end_time a coach may time out without leaving early';
+
+-- One row per coach per session. arrival_status is on_time or late once timed in,
+-- departure_status is on_time or early_leave once timed out, both stay NULL until then.
+CREATE OR REPLACE VIEW public.coach_session_punctuality
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  CASE
+    WHEN p.time_in IS NULL THEN NULL
+    WHEN p.minutes_late > p.late_grace_minutes THEN 'late'
+    ELSE 'on_time'
+  END AS arrival_status,
+  CASE
+    WHEN p.time_out IS NULL THEN NULL
+    WHEN p.minutes_early_leave > p.early_leave_grace_minutes THEN 'early_leave'
+    ELSE 'on_time'
+  END AS departure_status
+FROM (
+  SELECT
+    sc.session_id,
+    sc.coach_id,
+    c.name AS coach_name,
+    ts.branch_id,
+    b.name AS branch_name,
+    ts.date AS session_date,
+    ts.start_time,
+    ts.end_time,
+    cst.time_in,
+    cst.time_out,
+    COALESCE(ca.status::TEXT, 'pending') AS attendance_status,
+    b.late_grace_minutes,
+    b.early_leave_grace_minutes,
+    CASE WHEN cst.time_in IS NOT NULL
+      THEN GREATEST(0, CEIL(EXTRACT(EPOCH FROM (cst.time_in - (ts.date + ts.start_time))) / 60))::INTEGER
+    END AS minutes_late,
+    CASE WHEN cst.time_out IS NOT NULL
+      THEN GREATEST(0, CEIL(EXTRACT(EPOCH FROM ((ts.date + ts.end_time) - cst.time_out)) / 60))::INTEGER
+    END AS minutes_early_leave
+  FROM public.session_coaches sc
+  JOIN public.coaches c ON c.id = sc.coach_id
+  JOIN public.training_sessions ts ON ts.id = sc.session_id
+  JOIN public.branches b ON b.id = ts.branch_id
+  LEFT JOIN public.coach_session_times cst ON cst.session_id = sc.session_id AND cst.coach_id = sc.coach_id
+  LEFT JOIN public.coach_attendance_records ca ON ca.session_id = sc.session_id AND ca.coach_id = sc.coach_id
+  WHERE ts.status <> 'cancelled'
+) p;
+
+COMMENT ON VIEW public.coach_session_punctuality IS 'Time in and time out of every coach session classified as on time, late or early leave';
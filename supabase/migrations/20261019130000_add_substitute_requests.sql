@@ -0,0 +1,426 @@
+-- Substitute coach requests
+-- A coach who can't make a session asks for a substitute with a reason. Every other coach who
+-- is free at that time (per check_scheduling_conflicts) is offered the session, and the first to
+-- accept takes the original coach's place in session_coaches. The original coach is marked
+-- excused rather than absent for that session.
+
+ALTER TYPE public.attendance_status ADD VALUE IF NOT EXISTS 'excused';
+
+CREATE TABLE IF NOT EXISTS public.substitute_requests (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.training_sessions(id) ON DELETE CASCADE,
+  -- The coach asking to be replaced
+  coach_id UUID NOT NULL REFERENCES public.coaches(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'cancelled')),
+  accepted_by UUID NULL REFERENCES public.coaches(id) ON DELETE SET NULL,
+  filled_at TIMESTAMP WITH TIME ZONE NULL,
+  cancelled_at TIMESTAMP WITH TIME ZONE NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_substitute_requests_open
+ON public.substitute_requests(session_id, coach_id)
+WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_substitute_requests_status ON public.substitute_requests(status, created_at);
+
+-- Coaches a request was offered to, fixed when the request is made
+CREATE TABLE IF NOT EXISTS public.substitute_offers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  request_id UUID NOT NULL REFERENCES public.substitute_requests(id) ON DELETE CASCADE,
+  coach_id UUID NOT NULL REFERENCES public.coaches(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(request_id, coach_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_substitute_offers_coach_id ON public.substitute_offers(coach_id);
+
+-- Enable Row Level Security
+ALTER TABLE public.substitute_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.substitute_offers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage substitute requests"
+ON public.substitute_requests
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Coaches can view substitute requests they made or were offered"
+ON public.substitute_requests
+FOR SELECT
+USING (
+  coach_id = get_current_coach_id()
+  OR accepted_by = get_current_coach_id()
+  OR EXISTS (
+    SELECT 1 FROM public.substitute_offers o
+    WHERE o.request_id = substitute_requests.id
+      AND o.coach_id = get_current_coach_id()
+  )
+);
+
+CREATE POLICY "Admins can manage substitute offers"
+ON public.substitute_offers
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Coaches can view their own substitute offers"
+ON public.substitute_offers
+FOR SELECT
+USING (coach_id = get_current_coach_id());
+
+CREATE TRIGGER update_substitute_requests_updated_at
+BEFORE UPDATE ON public.substitute_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.substitute_requests IS 'Coach requests to be replaced for a session, filled by the first offered coach to accept';
+COMMENT ON TABLE public.substitute_offers IS 'Coaches free at the session time who were offered a substitute request';
+
+-- Opens a request for the calling coach and offers it to every coach free at that time.
+-- SECURITY DEFINER so the conflict check sees every coach's sessions.
+CREATE OR REPLACE FUNCTION public.request_substitute(p_session_id UUID, p_reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_coach_id UUID := get_current_coach_id();
+  v_session public.training_sessions%ROWTYPE;
+  v_request_id UUID;
+BEGIN
+  IF v_coach_id IS NULL THEN
+    RAISE EXCEPTION 'Only coaches can request a substitute';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO v_session FROM public.training_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session.status <> 'scheduled' OR (v_session.date + v_session.start_time) <= now() THEN
+    RAISE EXCEPTION 'Substitutes can only be requested for upcoming scheduled sessions';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_coaches sc
+    WHERE sc.session_id = p_session_id AND sc.coach_id = v_coach_id
+  ) THEN
+    RAISE EXCEPTION 'You are not assigned to this session';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.substitute_requests sr
+    WHERE sr.session_id = p_session_id AND sr.coach_id = v_coach_id AND sr.status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You already have an open substitute request for this session';
+  END IF;
+
+  INSERT INTO public.substitute_requests (session_id, coach_id, reason)
+  VALUES (p_session_id, v_coach_id, btrim(p_reason))
+  RETURNING id INTO v_request_id;
+
+  INSERT INTO public.substitute_offers (request_id, coach_id)
+  SELECT v_request_id, c.id
+  FROM public.coaches c
+  WHERE c.role = 'coach'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.session_coaches sc
+      WHERE sc.session_id = p_session_id AND sc.coach_id = c.id
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.check_scheduling_conflicts(
+        p_coach_ids => ARRAY[c.id],
+        p_date => v_session.date,
+        p_start_time => v_session.start_time,
+        p_end_time => v_session.end_time,
+        p_session_id => p_session_id,
+        p_student_ids => ARRAY[]::UUID[]
+      ) conflict
+      WHERE conflict.conflict_type = 'coach'
+    );
+
+  RETURN v_request_id;
+END;
+$$;
+
+-- The first offered coach to accept replaces the requesting coach on the session
+CREATE OR REPLACE FUNCTION public.accept_substitute_request(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_coach_id UUID := get_current_coach_id();
+  v_request public.substitute_requests%ROWTYPE;
+  v_session public.training_sessions%ROWTYPE;
+BEGIN
+  IF v_coach_id IS NULL THEN
+    RAISE EXCEPTION 'Only coaches can accept a substitute request';
+  END IF;
+
+  -- Locks the request so two coaches accepting at once can't both be swapped in
+  SELECT * INTO v_request
+  FROM public.substitute_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Substitute request not found';
+  END IF;
+
+  IF v_request.status = 'filled' THEN
+    RAISE EXCEPTION 'Another coach has already taken this session';
+  ELSIF v_request.status <> 'open' THEN
+    RAISE EXCEPTION 'This substitute request was cancelled';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.substitute_offers o
+    WHERE o.request_id = p_request_id AND o.coach_id = v_coach_id
+  ) THEN
+    RAISE EXCEPTION 'This session was not offered to you';
+  END IF;
+
+  SELECT * INTO v_session FROM public.training_sessions WHERE id = v_request.session_id;
+  IF v_session.status <> 'scheduled' OR (v_session.date + v_session.start_time) <= now() THEN
+    RAISE EXCEPTION 'This session has already started or is no longer scheduled';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.session_coaches sc
+    WHERE sc.session_id = v_request.session_id AND sc.coach_id = v_coach_id
+  ) THEN
+    RAISE EXCEPTION 'You are already assigned to this session';
+  END IF;
+
+  -- Re-checked because the coach may have been scheduled elsewhere since the offer
+  IF EXISTS (
+    SELECT 1
+    FROM public.check_scheduling_conflicts(
+      p_coach_ids => ARRAY[v_coach_id],
+      p_date => v_session.date,
+      p_start_time => v_session.start_time,
+      p_end_time => v_session.end_time,
+      p_session_id => v_session.id,
+      p_student_ids => ARRAY[]::UUID[]
+    ) conflict
+    WHERE conflict.conflict_type = 'coach'
+  ) THEN
+    RAISE EXCEPTION 'You are already scheduled at this time';
+  END IF;
+
+  DELETE FROM public.session_coaches
+  WHERE session_id = v_request.session_id AND coach_id = v_request.coach_id;
+
+  -- create_coach_attendance_on_assignment() adds the substitute's pending attendance record
+  INSERT INTO public.session_coaches (session_id, coach_id)
+  VALUES (v_request.session_id, v_coach_id);
+
+  INSERT INTO public.coach_attendance_records (session_id, coach_id, status, marked_at, updated_at)
+  VALUES (v_request.session_id, v_request.coach_id, 'excused', now(), now())
+  ON CONFLICT (session_id, coach_id)
+  DO UPDATE SET
+    status = 'excused',
+    marked_at = now(),
+    updated_at = now();
+
+  UPDATE public.substitute_requests
+  SET status = 'filled',
+      accepted_by = v_coach_id,
+      filled_at = now()
+  WHERE id = p_request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_substitute_request(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.substitute_requests
+  SET status = 'cancelled',
+      cancelled_at = now()
+  WHERE id = p_request_id
+    AND status = 'open'
+    AND (coach_id = get_current_coach_id() OR is_user_admin());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No open substitute request of yours found for %', p_request_id;
+  END IF;
+END;
+$$;
+
+-- Coaches with an open substitute request are left pending for an admin to resolve
+-- instead of being marked absent once the grace period ends
+CREATE OR REPLACE FUNCTION public.check_coach_attendance_grace_period()
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  session_record RECORD;
+  session_start_datetime TIMESTAMP WITH TIME ZONE;
+  grace_period_end TIMESTAMP WITH TIME ZONE;
+  v_current_time TIMESTAMP WITH TIME ZONE;
+BEGIN
+  v_current_time := NOW();
+
+  -- Loop through all sessions that have coaches assigned but haven't been marked as present/absent
+  FOR session_record IN
+    SELECT
+      ts.id as session_id,
+      ts.date,
+      ts.start_time,
+      sc.coach_id
+    FROM public.training_sessions ts
+    INNER JOIN public.session_coaches sc ON ts.id = sc.session_id
+    LEFT JOIN public.coach_attendance_records car
+      ON ts.id = car.session_id
+      AND sc.coach_id = car.coach_id
+    WHERE
+      -- Only check sessions that are scheduled or completed (not cancelled)
+      ts.status IN ('scheduled', 'completed')
+      -- Only check sessions where attendance is still pending or doesn't exist
+      AND (car.status IS NULL OR car.status = 'pending')
+      -- Only check sessions that have started (date + start_time has passed)
+      AND (ts.date + ts.start_time) <= v_current_time
+      -- Skip coaches still waiting on a substitute
+      AND NOT EXISTS (
+        SELECT 1 FROM public.substitute_requests sr
+        WHERE sr.session_id = ts.id
+          AND sr.coach_id = sc.coach_id
+          AND sr.status = 'open'
+      )
+  LOOP
+    -- Calculate session start datetime
+    session_start_datetime := (session_record.date + session_record.start_time);
+
+    -- Calculate grace period end (1 hour after session start)
+    grace_period_end := session_start_datetime + INTERVAL '1 hour';
+
+    -- If grace period has passed and attendance is still pending, mark as absent
+    IF v_current_time > grace_period_end THEN
+      -- Insert or update coach attendance record as absent
+      INSERT INTO public.coach_attendance_records (
+        session_id,
+        coach_id,
+        status,
+        marked_at,
+        updated_at
+      )
+      VALUES (
+        session_record.session_id,
+        session_record.coach_id,
+        'absent',
+        v_current_time,
+        v_current_time
+      )
+      ON CONFLICT (session_id, coach_id)
+      DO UPDATE SET
+        status = 'absent',
+        marked_at = v_current_time,
+        updated_at = v_current_time
+      WHERE coach_attendance_records.status = 'pending';
+    END IF;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.auto_mark_coach_absent_after_grace_period()
+RETURNS TABLE(
+  marked_absent_count INTEGER,
+  sessions_checked INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  marked_count INTEGER := 0;
+  checked_count INTEGER := 0;
+  session_record RECORD;
+  session_start_datetime TIMESTAMP WITH TIME ZONE;
+  grace_period_end TIMESTAMP WITH TIME ZONE;
+  v_current_time TIMESTAMP WITH TIME ZONE;
+BEGIN
+  v_current_time := NOW();
+  checked_count := 0;
+  marked_count := 0;
+
+  -- Loop through all sessions that need checking
+  FOR session_record IN
+    SELECT
+      ts.id as session_id,
+      ts.date,
+      ts.start_time,
+      sc.coach_id,
+      car.id as attendance_id,
+      car.status as current_status
+    FROM public.training_sessions ts
+    INNER JOIN public.session_coaches sc ON ts.id = sc.session_id
+    LEFT JOIN public.coach_attendance_records car
+      ON ts.id = car.session_id
+      AND sc.coach_id = car.coach_id
+    WHERE
+      -- Only check sessions that are scheduled or completed (not cancelled)
+      ts.status IN ('scheduled', 'completed')
+      -- Only check sessions where attendance is still pending or doesn't exist
+      AND (car.status IS NULL OR car.status = 'pending')
+      -- Only check sessions that have started (date + start_time has passed)
+      AND (ts.date + ts.start_time) <= v_current_time
+      -- Skip coaches still waiting on a substitute
+      AND NOT EXISTS (
+        SELECT 1 FROM public.substitute_requests sr
+        WHERE sr.session_id = ts.id
+          AND sr.coach_id = sc.coach_id
+          AND sr.status = 'open'
+      )
+  LOOP
+    checked_count := checked_count + 1;
+
+    -- Calculate session start datetime
+    session_start_datetime := (session_record.date + session_record.start_time);
+
+    -- Calculate grace period end (1 hour after session start)
+    grace_period_end := session_start_datetime + INTERVAL '1 hour';
+
+    -- If grace period has passed and attendance is still pending, mark as absent
+    IF v_current_time > grace_period_end THEN
+      -- Insert or update coach attendance record as absent
+      INSERT INTO public.coach_attendance_records (
+        session_id,
+        coach_id,
+        status,
+        marked_at,
+        updated_at
+      )
+      VALUES (
+        session_record.session_id,
+        session_record.coach_id,
+        'absent',
+        v_current_time,
+        v_current_time
+      )
+      ON CONFLICT (session_id, coach_id)
+      DO UPDATE SET
+        status = 'absent',
+        marked_at = v_current_time,
+        updated_at = v_current_time
+      WHERE coach_attendance_records.status = 'pending';
+
+      -- Count how many were marked
+      IF FOUND THEN
+        marked_count := marked_count + 1;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN QUERY SELECT marked_count, checked_count;
+END;
+$$;
@@ -0,0 +1,242 @@
+-- Coach availability and time off
+-- Coaches keep a weekly availability window per day and request dated time off, which an admin
+-- approves or rejects. check_scheduling_conflicts() reports a coach outside their window or on
+-- approved time off as a coach conflict, next to the existing double-booking check.
+-- A coach who hasn't set any availability yet is treated as available at any time.
+
+-- The original coach_availability table only recorded the day, each day now gets a time window
+CREATE TABLE IF NOT EXISTS public.coach_availability (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  coach_id UUID REFERENCES public.coaches(id) ON DELETE CASCADE NOT NULL,
+  day_of_week day_of_week NOT NULL,
+  UNIQUE(coach_id, day_of_week)
+);
+
+ALTER TABLE public.coach_availability
+ADD COLUMN IF NOT EXISTS start_time TIME NOT NULL DEFAULT '00:00',
+ADD COLUMN IF NOT EXISTS end_time TIME NOT NULL DEFAULT '23:59:59',
+ADD COLUMN IF NOT EXISTS created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.coach_availability
+DROP CONSTRAINT IF EXISTS coach_availability_time_window_check;
+
+ALTER TABLE public.coach_availability
+ADD CONSTRAINT coach_availability_time_window_check CHECK (end_time > start_time);
+
+COMMENT ON TABLE public.coach_availability IS 'Weekly window each coach can be scheduled in, one per day. Coaches without rows are available any time';
+
+CREATE TABLE IF NOT EXISTS public.coach_time_off (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  coach_id UUID NOT NULL REFERENCES public.coaches(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_at TIMESTAMP WITH TIME ZONE NULL,
+  reviewed_by UUID NULL REFERENCES public.coaches(id) ON DELETE SET NULL,
+  review_note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coach_time_off_coach_dates ON public.coach_time_off(coach_id, start_date, end_date);
+CREATE INDEX IF NOT EXISTS idx_coach_time_off_status ON public.coach_time_off(status);
+
+COMMENT ON TABLE public.coach_time_off IS 'Dated time off requested by coaches, only approved rows block scheduling';
+
+-- Enable Row Level Security
+ALTER TABLE public.coach_availability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coach_time_off ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on coach_availability" ON public.coach_availability;
+
+-- Coaches see everyone's availability and time off so the session coach picker can use it
+CREATE POLICY "Coaches and admins can view coach availability"
+ON public.coach_availability
+FOR SELECT
+USING (is_user_coach_or_admin());
+
+CREATE POLICY "Coaches can manage their own availability"
+ON public.coach_availability
+FOR ALL
+USING (coach_id = get_current_coach_id() OR is_user_admin())
+WITH CHECK (coach_id = get_current_coach_id() OR is_user_admin());
+
+CREATE POLICY "Coaches and admins can view coach time off"
+ON public.coach_time_off
+FOR SELECT
+USING (is_user_coach_or_admin());
+
+CREATE POLICY "Coaches can request their own time off"
+ON public.coach_time_off
+FOR INSERT
+WITH CHECK (coach_id = get_current_coach_id() AND status = 'pending' AND reviewed_by IS NULL);
+
+CREATE POLICY "Coaches can withdraw their own pending time off"
+ON public.coach_time_off
+FOR DELETE
+USING (coach_id = get_current_coach_id() AND status = 'pending');
+
+CREATE POLICY "Admins can manage coach time off"
+ON public.coach_time_off
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE TRIGGER update_coach_availability_updated_at
+BEFORE UPDATE ON public.coach_availability
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_coach_time_off_updated_at
+BEFORE UPDATE ON public.coach_time_off
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.review_coach_time_off(
+  p_time_off_id UUID,
+  p_approved BOOLEAN,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can review time off';
+  END IF;
+
+  UPDATE public.coach_time_off
+  SET status = CASE WHEN p_approved THEN 'approved' ELSE 'rejected' END,
+      reviewed_at = now(),
+      reviewed_by = get_current_coach_id(),
+      review_note = NULLIF(btrim(p_note), '')
+  WHERE id = p_time_off_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Time off request % not found', p_time_off_id;
+  END IF;
+END;
+$$;
+
+-- One row per coach who can't take a session at this date and time, with the reason
+CREATE OR REPLACE FUNCTION public.get_coach_availability_conflicts(
+  p_coach_ids UUID[],
+  p_date DATE,
+  p_start_time TIME,
+  p_end_time TIME
+)
+RETURNS TABLE(coach_id UUID, conflict_details TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_day day_of_week := lower(to_char(p_date, 'FMDay'))::day_of_week;
+BEGIN
+  RETURN QUERY
+  SELECT
+    c.id,
+    CASE
+      WHEN EXISTS (
+        SELECT 1 FROM public.coach_time_off t
+        WHERE t.coach_id = c.id
+          AND t.status = 'approved'
+          AND p_date BETWEEN t.start_date AND t.end_date
+      ) THEN 'Coach ' || c.name || ' is on approved time off'
+      WHEN day_window.id IS NULL THEN
+        'Coach ' || c.name || ' is not available on ' || initcap(v_day::TEXT) || 's'
+      ELSE
+        'Coach ' || c.name || ' is only available from ' || to_char(day_window.start_time, 'FMHH12:MI AM')
+          || ' to ' || to_char(day_window.end_time, 'FMHH12:MI AM') || ' on ' || initcap(v_day::TEXT) || 's'
+    END
+  FROM public.coaches c
+  LEFT JOIN public.coach_availability day_window
+    ON day_window.coach_id = c.id AND day_window.day_of_week = v_day
+  WHERE c.id = ANY(COALESCE(p_coach_ids, ARRAY[]::UUID[]))
+    AND (
+      EXISTS (
+        SELECT 1 FROM public.coach_time_off t
+        WHERE t.coach_id = c.id
+          AND t.status = 'approved'
+          AND p_date BETWEEN t.start_date AND t.end_date
+      )
+      OR (
+        EXISTS (SELECT 1 FROM public.coach_availability a WHERE a.coach_id = c.id)
+        AND (
+          day_window.id IS NULL
+          OR p_start_time < day_window.start_time
+          OR p_end_time > day_window.end_time
+        )
+      )
+    );
+END;
+$$;
+
+-- Double-booked coaches and students, plus coaches outside their availability or on time off.
+-- Rebuilt on session_coaches, and safe to call with an empty student list.
+CREATE OR REPLACE FUNCTION public.check_scheduling_conflicts(
+  p_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_coach_ids UUID[],
+  p_student_ids UUID[],
+  p_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE(conflict_type TEXT, conflict_details TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT DISTINCT 'coach'::TEXT, ('Coach ' || c.name || ' is already scheduled at this time')::TEXT
+  FROM public.session_coaches sc
+  JOIN public.training_sessions ts ON ts.id = sc.session_id
+  JOIN public.coaches c ON c.id = sc.coach_id
+  WHERE sc.coach_id = ANY(COALESCE(p_coach_ids, ARRAY[]::UUID[]))
+    AND ts.date = p_date
+    AND ts.status <> 'cancelled'
+    AND (p_session_id IS NULL OR ts.id <> p_session_id)
+    AND p_start_time < ts.end_time
+    AND p_end_time > ts.start_time;
+
+  RETURN QUERY
+  SELECT 'coach'::TEXT, a.conflict_details
+  FROM public.get_coach_availability_conflicts(p_coach_ids, p_date, p_start_time, p_end_time) a;
+
+  RETURN QUERY
+  SELECT DISTINCT 'student'::TEXT, ('Student ' || s.name || ' is already scheduled at this time')::TEXT
+  FROM public.session_participants sp
+  JOIN public.training_sessions ts ON ts.id = sp.session_id
+  JOIN public.students s ON s.id = sp.student_id
+  WHERE sp.student_id = ANY(COALESCE(p_student_ids, ARRAY[]::UUID[]))
+    AND ts.date = p_date
+    AND ts.status <> 'cancelled'
+    AND (p_session_id IS NULL OR ts.id <> p_session_id)
+    AND p_start_time < ts.end_time
+    AND p_end_time > ts.start_time;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.check_scheduling_conflicts(
+  p_date DATE,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_coach_id UUID,
+  p_student_ids UUID[],
+  p_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE(conflict_type TEXT, conflict_details TEXT)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT * FROM public.check_scheduling_conflicts(
+    p_date, p_start_time, p_end_time, ARRAY[p_coach_id], p_student_ids, p_session_id
+  );
+END;
+$$;
@@ -0,0 +1,134 @@
+-- Excused and late attendance with per-package consumption rules
+-- Players can now be marked excused (e.g. sick) or late, both of which need a reason. Each package
+-- decides whether an absent, excused or late mark uses up a session; present always does.
+-- The outcome is stored on the attendance record as consumes_session, and update_student_sessions()
+-- deducts or refunds remaining_sessions from that flag instead of checking for 'present'.
+
+ALTER TYPE public.attendance_status ADD VALUE IF NOT EXISTS 'excused';
+ALTER TYPE public.attendance_status ADD VALUE IF NOT EXISTS 'late';
+
+ALTER TABLE public.packages
+ADD COLUMN IF NOT EXISTS absent_consumes_session BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS excused_consumes_session BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS late_consumes_session BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.packages.absent_consumes_session IS 'Whether a no-show uses up one of the package sessions';
+COMMENT ON COLUMN public.packages.excused_consumes_session IS 'Whether an excused absence uses up one of the package sessions';
+COMMENT ON COLUMN public.packages.late_consumes_session IS 'Whether a late arrival uses up one of the package sessions';
+
+ALTER TABLE public.attendance_records
+ADD COLUMN IF NOT EXISTS reason TEXT,
+ADD COLUMN IF NOT EXISTS consumes_session BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.attendance_records.reason IS 'Why the player was excused or late, required for those statuses';
+COMMENT ON COLUMN public.attendance_records.consumes_session IS 'Whether this mark was deducted from remaining_sessions, set from the package rules';
+
+-- Existing records were charged only when present
+UPDATE public.attendance_records
+SET consumes_session = true
+WHERE status = 'present';
+
+-- Resolve the package rule for the new status and require a reason for excused and late marks
+CREATE OR REPLACE FUNCTION public.apply_attendance_consumption_rule()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_package public.packages%ROWTYPE;
+BEGIN
+  IF NEW.status::TEXT IN ('excused', 'late') AND COALESCE(btrim(NEW.reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required when marking a player %', NEW.status;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status = OLD.status THEN
+    NEW.consumes_session := OLD.consumes_session;
+    RETURN NEW;
+  END IF;
+
+  SELECT p.* INTO v_package
+  FROM public.students s
+  JOIN public.packages p ON p.id = s.package_id OR (s.package_id IS NULL AND p.name = s.package_type)
+  WHERE s.id = NEW.student_id
+  LIMIT 1;
+
+  NEW.consumes_session := CASE NEW.status::TEXT
+    WHEN 'present' THEN true
+    WHEN 'absent' THEN COALESCE(v_package.absent_consumes_session, false)
+    WHEN 'excused' THEN COALESCE(v_package.excused_consumes_session, false)
+    WHEN 'late' THEN COALESCE(v_package.late_consumes_session, true)
+    ELSE false
+  END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_attendance_consumption_rule ON public.attendance_records;
+CREATE TRIGGER apply_attendance_consumption_rule
+BEFORE INSERT OR UPDATE ON public.attendance_records
+FOR EACH ROW
+EXECUTE FUNCTION public.apply_attendance_consumption_rule();
+
+-- Deduct and refund sessions based on consumes_session rather than the present status
+CREATE OR REPLACE FUNCTION public.update_student_sessions()
+RETURNS TRIGGER AS $$
+DECLARE
+  session_deduction numeric(4, 2);
+  old_consumes boolean := TG_OP = 'UPDATE' AND OLD.consumes_session;
+BEGIN
+  -- If the record starts using a session
+  IF NEW.consumes_session AND NOT old_consumes THEN
+    session_deduction := COALESCE(NEW.session_duration, 1.0);
+
+    UPDATE public.students
+    SET remaining_sessions = GREATEST(0, remaining_sessions - session_deduction)
+    WHERE id = NEW.student_id AND remaining_sessions >= 0;
+  END IF;
+
+  -- If the record no longer uses a session, give back what was deducted
+  IF old_consumes AND NOT NEW.consumes_session THEN
+    session_deduction := COALESCE(OLD.session_duration, 1.0);
+
+    UPDATE public.students
+    SET remaining_sessions = remaining_sessions + session_deduction
+    WHERE id = NEW.student_id;
+  END IF;
+
+  -- If the record keeps using a session but the duration changed
+  IF old_consumes AND NEW.consumes_session AND
+     (OLD.session_duration IS DISTINCT FROM NEW.session_duration) THEN
+    session_deduction := COALESCE(OLD.session_duration, 1.0);
+    UPDATE public.students
+    SET remaining_sessions = remaining_sessions + session_deduction
+    WHERE id = NEW.student_id;
+
+    session_deduction := COALESCE(NEW.session_duration, 1.0);
+    UPDATE public.students
+    SET remaining_sessions = GREATEST(0, remaining_sessions - session_deduction)
+    WHERE id = NEW.student_id AND remaining_sessions >= 0;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Consumption rules are part of the terms a package is sold under
+CREATE OR REPLACE FUNCTION public.bump_package_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.price IS DISTINCT FROM OLD.price
+    OR NEW.sessions IS DISTINCT FROM OLD.sessions
+    OR NEW.validity_days IS DISTINCT FROM OLD.validity_days
+    OR NEW.allowed_branch_ids IS DISTINCT FROM OLD.allowed_branch_ids
+    OR NEW.is_duration_based IS DISTINCT FROM OLD.is_duration_based
+    OR NEW.absent_consumes_session IS DISTINCT FROM OLD.absent_consumes_session
+    OR NEW.excused_consumes_session IS DISTINCT FROM OLD.excused_consumes_session
+    OR NEW.late_consumes_session IS DISTINCT FROM OLD.late_consumes_session THEN
+    NEW.version := OLD.version + 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
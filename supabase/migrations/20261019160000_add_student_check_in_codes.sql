@@ -0,0 +1,151 @@
+-- Student QR check-in
+-- Every student gets a check-in token which is encoded in the QR code on their card and in the
+-- student portal. The token is random rather than the student id so a lost card can be replaced
+-- by generating a new one. check_in_student() is called by the coach's scanner and marks the
+-- student present for the session after the same checks the coach would do by hand.
+
+ALTER TABLE public.students
+ADD COLUMN IF NOT EXISTS check_in_token UUID NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_students_check_in_token ON public.students(check_in_token);
+
+COMMENT ON COLUMN public.students.check_in_token IS 'Secret encoded in the student''s check-in QR code';
+
+-- Invalidate a student's current QR code, e.g. after a lost card
+CREATE OR REPLACE FUNCTION public.regenerate_student_check_in_token(p_student_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_token UUID := gen_random_uuid();
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can replace check-in codes';
+  END IF;
+
+  UPDATE public.students
+  SET check_in_token = v_token
+  WHERE id = p_student_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Student % not found', p_student_id;
+  END IF;
+
+  RETURN v_token;
+END;
+$$;
+
+-- Mark the student behind a scanned code present for a session. Only admins and coaches assigned
+-- to the session can check players in, and only participants with a usable package are accepted.
+CREATE OR REPLACE FUNCTION public.check_in_student(
+  p_session_id UUID,
+  p_token UUID
+)
+RETURNS TABLE(
+  attendance_id UUID,
+  student_id UUID,
+  student_name TEXT,
+  already_checked_in BOOLEAN,
+  remaining_sessions NUMERIC
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_session public.training_sessions%ROWTYPE;
+  v_student public.students%ROWTYPE;
+  v_record public.attendance_records%ROWTYPE;
+  v_duration NUMERIC(4, 2) := 1.0;
+  v_is_duration_based BOOLEAN;
+BEGIN
+  SELECT * INTO v_session
+  FROM public.training_sessions
+  WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF NOT is_user_admin() AND NOT EXISTS (
+    SELECT 1 FROM public.session_coaches sc
+    WHERE sc.session_id = p_session_id
+      AND sc.coach_id = get_current_coach_id()
+  ) THEN
+    RAISE EXCEPTION 'Only coaches assigned to this session can check players in';
+  END IF;
+
+  IF v_session.status = 'cancelled' THEN
+    RAISE EXCEPTION 'This session was cancelled';
+  END IF;
+
+  SELECT * INTO v_student
+  FROM public.students s
+  WHERE s.check_in_token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This QR code does not belong to any player';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_participants sp
+    WHERE sp.session_id = p_session_id
+      AND sp.student_id = v_student.id
+  ) THEN
+    RAISE EXCEPTION '% is not a participant of this session', v_student.name;
+  END IF;
+
+  SELECT * INTO v_record
+  FROM public.attendance_records ar
+  WHERE ar.session_id = p_session_id
+    AND ar.student_id = v_student.id;
+
+  IF FOUND AND v_record.status = 'present' THEN
+    RETURN QUERY SELECT v_record.id, v_student.id, v_student.name, true, v_student.remaining_sessions;
+    RETURN;
+  END IF;
+
+  IF v_student.expiration_date IS NOT NULL AND v_student.expiration_date < v_session.date THEN
+    RAISE EXCEPTION '%''s package expired on %', v_student.name, to_char(v_student.expiration_date, 'Mon DD, YYYY');
+  END IF;
+
+  IF v_student.remaining_sessions IS NOT NULL AND v_student.remaining_sessions <= 0 THEN
+    RAISE EXCEPTION '% has no sessions left', v_student.name;
+  END IF;
+
+  -- Duration-based packages are charged for the scheduled length of the session
+  SELECT p.is_duration_based INTO v_is_duration_based
+  FROM public.packages p
+  WHERE p.id = v_student.package_id
+     OR (v_student.package_id IS NULL AND p.name = v_student.package_type)
+  LIMIT 1;
+
+  IF COALESCE(v_is_duration_based, v_student.package_type ILIKE '%personal%') THEN
+    v_duration := GREATEST(0.5, round(EXTRACT(EPOCH FROM (v_session.end_time - v_session.start_time)) / 1800) / 2);
+  END IF;
+
+  INSERT INTO public.attendance_records (session_id, student_id, status, marked_at, session_duration, package_cycle)
+  VALUES (
+    p_session_id,
+    v_student.id,
+    'present',
+    now(),
+    v_duration,
+    (SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = v_student.id)
+  )
+  ON CONFLICT (session_id, student_id) DO UPDATE
+  SET status = 'present',
+      marked_at = now(),
+      reason = NULL,
+      session_duration = EXCLUDED.session_duration,
+      package_cycle = COALESCE(public.attendance_records.package_cycle, EXCLUDED.package_cycle)
+  RETURNING * INTO v_record;
+
+  RETURN QUERY
+  SELECT v_record.id, v_student.id, v_student.name, false, s.remaining_sessions
+  FROM public.students s
+  WHERE s.id = v_student.id;
+END;
+$$;
@@ -0,0 +1,231 @@
+-- Web push notifications
+-- Every device a user enables notifications on stores its push subscription here. The
+-- send-push-notification function delivers to all of a user's devices, skipping the kinds of
+-- notification the user switched off in notification_preferences (no row means everything is on).
+-- Sessions assigned, changed or cancelled are pushed straight from triggers. Time-in reminders and
+-- the warning before the auto-absent grace period runs out are picked up by a job every 5 minutes.
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+
+COMMENT ON TABLE public.push_subscriptions IS 'Browser push subscriptions, one per device a user enabled notifications on';
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  session_assigned BOOLEAN NOT NULL DEFAULT true,
+  session_changed BOOLEAN NOT NULL DEFAULT true,
+  time_in_reminder BOOLEAN NOT NULL DEFAULT true,
+  absence_warning BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.notification_preferences IS 'Which push notifications a user wants. Users without a row get all of them';
+
+-- Reminders already pushed, so the 5 minute job sends each one only once
+CREATE TABLE IF NOT EXISTS public.push_notification_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES public.training_sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('time_in_reminder', 'absence_warning')),
+  sent_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(session_id, user_id, kind)
+);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.push_notification_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own push subscriptions"
+ON public.push_subscriptions
+FOR ALL
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can manage their own notification preferences"
+ON public.notification_preferences
+FOR ALL
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hand a notification to the send-push-notification function. Does nothing when pg_net or the
+-- "project_url" and "service_role_key" Vault secrets aren't set up, so saving a session never fails
+-- because of a notification.
+CREATE OR REPLACE FUNCTION public.send_push_notification(p_body JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_url TEXT;
+  v_service_role_key TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO v_project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF v_project_url IS NULL OR v_service_role_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_project_url || '/functions/v1/send-push-notification',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_role_key
+    ),
+    body := p_body
+  );
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'send_push_notification failed: %', SQLERRM;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.notify_session_coach_assigned()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM send_push_notification(jsonb_build_object(
+    'type', 'session_assigned',
+    'sessionId', NEW.session_id,
+    'coachId', NEW.coach_id
+  ));
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_session_coach_assigned_trigger ON public.session_coaches;
+CREATE TRIGGER notify_session_coach_assigned_trigger
+  AFTER INSERT ON public.session_coaches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_session_coach_assigned();
+
+-- Completing a session isn't news to anyone, only schedule changes and cancellations are pushed
+CREATE OR REPLACE FUNCTION public.notify_training_session_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled' THEN
+    PERFORM send_push_notification(jsonb_build_object(
+      'type', 'session_changed',
+      'sessionId', NEW.id,
+      'change', 'cancelled'
+    ));
+  ELSIF NEW.status = 'scheduled' AND (
+    NEW.date IS DISTINCT FROM OLD.date
+    OR NEW.start_time IS DISTINCT FROM OLD.start_time
+    OR NEW.end_time IS DISTINCT FROM OLD.end_time
+    OR NEW.branch_id IS DISTINCT FROM OLD.branch_id
+  ) THEN
+    PERFORM send_push_notification(jsonb_build_object(
+      'type', 'session_changed',
+      'sessionId', NEW.id,
+      'change', 'updated'
+    ));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS notify_training_session_changed_trigger ON public.training_sessions;
+CREATE TRIGGER notify_training_session_changed_trigger
+  AFTER UPDATE ON public.training_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_training_session_changed();
+
+-- Reminders that are due and haven't been sent yet, recorded as sent in the same step.
+-- Coaches who haven't timed in get a reminder 15 minutes before start_time, and a warning
+-- 15 minutes before auto_mark_coach_absent_after_grace_period() would mark them absent.
+-- Only the service role can write push_notification_log, so only it can claim reminders.
+CREATE OR REPLACE FUNCTION public.claim_due_push_reminders()
+RETURNS TABLE(
+  user_id UUID,
+  session_id UUID,
+  kind TEXT,
+  session_date DATE,
+  start_time TIME,
+  branch_name TEXT
+)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+#variable_conflict use_column
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT
+      c.auth_id AS user_id,
+      ts.id AS session_id,
+      CASE
+        WHEN (ts.date + ts.start_time) > NOW() THEN 'time_in_reminder'
+        ELSE 'absence_warning'
+      END AS kind,
+      ts.date AS session_date,
+      ts.start_time,
+      b.name AS branch_name
+    FROM public.training_sessions ts
+    JOIN public.session_coaches sc ON sc.session_id = ts.id
+    JOIN public.coaches c ON c.id = sc.coach_id
+    LEFT JOIN public.branches b ON b.id = ts.branch_id
+    LEFT JOIN public.coach_session_times cst ON cst.session_id = ts.id AND cst.coach_id = sc.coach_id
+    WHERE ts.status = 'scheduled'
+      AND c.auth_id IS NOT NULL
+      AND cst.time_in IS NULL
+      AND (
+        (ts.date + ts.start_time) BETWEEN NOW() AND NOW() + INTERVAL '15 minutes'
+        OR (ts.date + ts.start_time + INTERVAL '45 minutes') BETWEEN NOW() - INTERVAL '15 minutes' AND NOW()
+      )
+  ),
+  claimed AS (
+    INSERT INTO public.push_notification_log (session_id, user_id, kind)
+    SELECT due.session_id, due.user_id, due.kind FROM due
+    ON CONFLICT (session_id, user_id, kind) DO NOTHING
+    RETURNING push_notification_log.session_id, push_notification_log.user_id, push_notification_log.kind
+  )
+  SELECT due.user_id, due.session_id, due.kind, due.session_date, due.start_time, due.branch_name
+  FROM due
+  JOIN claimed ON claimed.session_id = due.session_id
+    AND claimed.user_id = due.user_id
+    AND claimed.kind = due.kind;
+END;
+$$;
+
+-- Check for due reminders every 5 minutes when pg_cron and pg_net are available
+-- Requires the "project_url" and "service_role_key" secrets in Vault
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'send-push-reminders',
+      '*/5 * * * *',
+      $cron$
+      SELECT public.send_push_notification('{"type": "reminders"}'::jsonb);
+      $cron$
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,293 @@
+-- Notification templates and delivery log
+-- send-session-notification renders every message from notification_templates instead of inline
+-- HTML. There is one template per event type and channel, with {{variable}} placeholders filled
+-- in per recipient, so admins can reword messages and switch channels on or off without a deploy.
+-- Every message sent is recorded in notification_deliveries with the provider used, the number of
+-- attempts and the last error, and failed deliveries can be resent from the admin screen.
+
+CREATE TABLE IF NOT EXISTS public.notification_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_type TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  description TEXT,
+  subject TEXT NOT NULL DEFAULT '',
+  heading TEXT,
+  body TEXT NOT NULL,
+  variables TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(event_type, channel)
+);
+
+COMMENT ON TABLE public.notification_templates IS 'Editable message per notification event and channel. {{name}} placeholders are replaced with the listed variables';
+COMMENT ON COLUMN public.notification_templates.heading IS 'Title shown in the banner of the email layout, unused for SMS';
+
+CREATE TABLE IF NOT EXISTS public.notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id UUID REFERENCES public.notification_templates(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  provider TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  recipient_name TEXT,
+  subject TEXT,
+  body TEXT NOT NULL,
+  variables JSONB NOT NULL DEFAULT '{}',
+  session_id UUID REFERENCES public.training_sessions(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_status ON public.notification_deliveries(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_created ON public.notification_deliveries(created_at DESC);
+
+COMMENT ON TABLE public.notification_deliveries IS 'Every notification sent, written by the send-session-notification function';
+
+ALTER TABLE public.notification_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage notification templates"
+ON public.notification_templates
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Admins can view notification deliveries"
+ON public.notification_deliveries
+FOR SELECT
+USING (is_user_admin());
+
+CREATE TRIGGER update_notification_templates_updated_at
+  BEFORE UPDATE ON public.notification_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON public.notification_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Default templates, matching the emails the function used to build inline
+INSERT INTO public.notification_templates (event_type, channel, description, subject, heading, body, variables, is_active)
+VALUES
+(
+  'new_session_coach', 'email', 'Coach assigned to a newly booked session',
+  'New Training Session - {{date}}', 'New Training Session Scheduled',
+  $tpl$<p>Hello {{recipient_name}},</p>
+<p>You have been assigned to a new training session. Here are the details:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}<br>
+  <strong>Participants:</strong> {{participant_count}}
+</div>
+<p>Please make sure to arrive on time and be prepared for the session.</p>$tpl$,
+  ARRAY['recipient_name', 'date', 'time', 'branch', 'package_type', 'participant_count'], true
+),
+(
+  'new_session_student', 'email', 'Player booked into a new session',
+  'Training Session Scheduled - {{date}}', 'Training Session Scheduled',
+  $tpl$<p>Hello {{recipient_name}},</p>
+<p>You have been scheduled for a training session. Here are the details:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}<br>
+  <strong>Coaches:</strong> {{coaches}}
+</div>
+<div class="note-box">
+  <strong>Your Remaining Sessions:</strong> {{remaining_sessions}}<br>
+  <em>{{remaining_sessions_note}}</em>
+</div>
+<p>We look forward to seeing you at the session!</p>$tpl$,
+  ARRAY['recipient_name', 'date', 'time', 'branch', 'package_type', 'coaches', 'remaining_sessions', 'remaining_sessions_note'], true
+),
+(
+  'new_session_student', 'sms', 'Player booked into a new session',
+  '', NULL,
+  'Takeover: Hi {{recipient_name}}, you are booked for training on {{date}}, {{time}} at {{branch}}. Sessions left: {{remaining_sessions}}.',
+  ARRAY['recipient_name', 'date', 'time', 'branch', 'remaining_sessions'], false
+),
+(
+  'waitlist_promotion_coach', 'email', 'Waitlisted players moved into a coach''s session',
+  'Waitlist Update - {{date}}', 'Waitlisted Player Added to Your Session',
+  $tpl$<p>Hello {{recipient_name}},</p>
+<p>A spot opened up in one of your sessions and the next player on the waitlist has been added:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}<br>
+  <strong>Added from waitlist:</strong> {{student_names}}
+</div>
+<p>Please make sure to arrive on time and be prepared for the session.</p>$tpl$,
+  ARRAY['recipient_name', 'date', 'time', 'branch', 'package_type', 'student_names'], true
+),
+(
+  'waitlist_promotion_student', 'email', 'Player moved off the waitlist into a session',
+  'You''re In - Training Session {{date}}', 'You Got a Spot!',
+  $tpl$<p>Hello {{recipient_name}},</p>
+<p>A spot opened up and you have been moved from the waitlist into this training session:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}<br>
+  <strong>Coaches:</strong> {{coaches}}
+</div>
+<div class="note-box">
+  <strong>Your Remaining Sessions:</strong> {{remaining_sessions}}<br>
+  <em>{{remaining_sessions_note}}</em>
+</div>
+<p>We look forward to seeing you at the session!</p>$tpl$,
+  ARRAY['recipient_name', 'date', 'time', 'branch', 'package_type', 'coaches', 'remaining_sessions', 'remaining_sessions_note'], true
+),
+(
+  'waitlist_promotion_student', 'sms', 'Player moved off the waitlist into a session',
+  '', NULL,
+  'Takeover: Good news {{recipient_name}}, a spot opened up. You are now booked for {{date}}, {{time}} at {{branch}}.',
+  ARRAY['recipient_name', 'date', 'time', 'branch'], false
+),
+(
+  'package_alert_student', 'email', 'Player''s package is expiring or running low on sessions',
+  '{{alert_title}}', '{{alert_title}}',
+  $tpl$<p>Hello {{recipient_name}},</p>
+<div class="note-box">
+  {{message}}
+</div>
+<p>Please renew the package to keep training without interruption.</p>$tpl$,
+  ARRAY['recipient_name', 'alert_title', 'message'], true
+),
+(
+  'package_alert_student', 'sms', 'Player''s package is expiring or running low on sessions',
+  '', NULL,
+  'Takeover: {{message}} Please renew to keep training without interruption.',
+  ARRAY['recipient_name', 'alert_title', 'message'], false
+),
+(
+  'package_alert_admin', 'email', 'Daily digest of package alerts for admins',
+  'Package Alerts - {{alert_count}} need attention', 'Package Alerts',
+  $tpl$<p>The following players have packages expiring soon or are running low on sessions:</p>
+<div class="note-box">
+  {{alert_list}}
+</div>
+<p>Please follow up with them about renewing.</p>$tpl$,
+  ARRAY['recipient_name', 'alert_count', 'alert_list'], true
+),
+(
+  'substitute_request_coach', 'email', 'Coach offered a session that needs a substitute',
+  'Substitute Needed - {{date}}', 'Substitute Coach Needed',
+  $tpl$<p>Hello {{recipient_name}}, {{requester_name}} can't make this session and you are free at that time:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}<br>
+  <strong>Coach:</strong> {{requester_name}}<br>
+  <strong>Reason:</strong> {{reason}}
+</div>
+<p>Open your calendar in Takeover Hoops Scheduler to take the session. The first coach to accept gets it.</p>$tpl$,
+  ARRAY['recipient_name', 'requester_name', 'date', 'time', 'branch', 'package_type', 'reason'], true
+),
+(
+  'substitute_request_coach', 'sms', 'Coach offered a session that needs a substitute',
+  '', NULL,
+  'Takeover: {{requester_name}} needs a substitute on {{date}}, {{time}} at {{branch}}. Open your calendar to take it.',
+  ARRAY['recipient_name', 'requester_name', 'date', 'time', 'branch'], false
+),
+(
+  'substitute_request_admin', 'email', 'Admin copy of a substitute request',
+  'Substitute Requested - {{date}}', 'Substitute Requested',
+  $tpl$<p>{{requester_name}} asked for a substitute. The session was offered to {{offered_count}}:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}<br>
+  <strong>Coach:</strong> {{requester_name}}<br>
+  <strong>Reason:</strong> {{reason}}
+</div>
+<p>{{admin_note}}</p>$tpl$,
+  ARRAY['recipient_name', 'requester_name', 'offered_count', 'date', 'time', 'branch', 'package_type', 'reason', 'admin_note'], true
+),
+(
+  'substitute_filled_requester', 'email', 'Requesting coach told their session is covered',
+  'Your Session Is Covered - {{date}}', 'Your Session Is Covered',
+  $tpl$<p>Hello {{recipient_name}}, {{substitute_name}} will take your session and you have been excused:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}<br>
+  <strong>Substitute:</strong> {{substitute_name}}
+</div>
+<p>No further action is needed.</p>$tpl$,
+  ARRAY['recipient_name', 'substitute_name', 'date', 'time', 'branch', 'package_type'], true
+),
+(
+  'substitute_filled_substitute', 'email', 'Substitute confirmed for the session they accepted',
+  'You''re Subbing In - {{date}}', 'You''re Subbing In',
+  $tpl$<p>Hello {{recipient_name}}, you are now assigned to this session:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}<br>
+  <strong>Covering for:</strong> {{requester_name}}
+</div>
+<p>Please make sure to arrive on time and be prepared for the session.</p>$tpl$,
+  ARRAY['recipient_name', 'requester_name', 'date', 'time', 'branch', 'package_type'], true
+),
+(
+  'substitute_filled_coach', 'email', 'Other offered coaches told the session was taken',
+  'Substitute Found - {{date}}', 'Substitute Found',
+  $tpl$<p>Hello {{recipient_name}}, the session you were offered has been taken by {{substitute_name}}:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}
+</div>
+<p>Thank you, no action is needed.</p>$tpl$,
+  ARRAY['recipient_name', 'substitute_name', 'date', 'time', 'branch'], true
+),
+(
+  'substitute_filled_student', 'email', 'Players told about the coach change',
+  'Coach Change - Training Session {{date}}', 'Coach Change',
+  $tpl$<p>Hello {{recipient_name}}, {{substitute_name}} will be coaching your session:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}
+</div>
+<p>We look forward to seeing you at the session!</p>$tpl$,
+  ARRAY['recipient_name', 'substitute_name', 'date', 'time', 'branch', 'package_type'], true
+),
+(
+  'substitute_filled_student', 'sms', 'Players told about the coach change',
+  '', NULL,
+  'Takeover: {{substitute_name}} will coach your session on {{date}}, {{time}} at {{branch}}.',
+  ARRAY['recipient_name', 'substitute_name', 'date', 'time', 'branch'], false
+),
+(
+  'substitute_filled_admin', 'email', 'Admin copy of a filled substitute request',
+  'Substitute Found - {{date}}', 'Substitute Found',
+  $tpl$<p>{{substitute_name}} took over this session from {{requester_name}}:</p>
+<div class="info-box">
+  <strong>Date:</strong> {{date}}<br>
+  <strong>Time:</strong> {{time}}<br>
+  <strong>Branch:</strong> {{branch}}<br>
+  <strong>Package Type:</strong> {{package_type}}<br>
+  <strong>Reason:</strong> {{reason}}
+</div>
+<p>No action is needed.</p>$tpl$,
+  ARRAY['recipient_name', 'substitute_name', 'requester_name', 'date', 'time', 'branch', 'package_type', 'reason'], true
+)
+ON CONFLICT (event_type, channel) DO NOTHING;
@@ -0,0 +1,117 @@
+-- Weekly admin reports by email
+-- Admins subscribe to a Monday morning summary of the previous week: sessions held, attendance
+-- rate, new enrollments, collections, overdue balances and expiring packages. The send-admin-reports
+-- function renders the reports they picked into one Excel workbook, stores it in the "reports"
+-- bucket and emails it through the notification providers, so the message shows up in
+-- notification_deliveries like any other. Every report sent is kept in sent_reports.
+
+CREATE TABLE IF NOT EXISTS public.report_subscriptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  coach_id UUID NOT NULL REFERENCES public.coaches(id) ON DELETE CASCADE,
+  reports TEXT[] NOT NULL DEFAULT ARRAY['sessions', 'attendance', 'enrollments', 'collections', 'overdue_balances', 'expiring_packages'],
+  branch_id UUID REFERENCES public.branches(id) ON DELETE SET NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(coach_id),
+  CHECK (reports <@ ARRAY['sessions', 'attendance', 'enrollments', 'collections', 'overdue_balances', 'expiring_packages'])
+);
+
+COMMENT ON TABLE public.report_subscriptions IS 'Admins receiving the weekly report email, with the reports they picked';
+COMMENT ON COLUMN public.report_subscriptions.branch_id IS 'Limit the reports to one branch, all branches when NULL';
+
+CREATE TABLE IF NOT EXISTS public.sent_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id UUID REFERENCES public.report_subscriptions(id) ON DELETE SET NULL,
+  coach_id UUID REFERENCES public.coaches(id) ON DELETE SET NULL,
+  recipient TEXT NOT NULL,
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  reports TEXT[] NOT NULL,
+  summary JSONB NOT NULL DEFAULT '{}',
+  file_path TEXT,
+  delivery_id UUID REFERENCES public.notification_deliveries(id) ON DELETE SET NULL,
+  trigger TEXT NOT NULL DEFAULT 'schedule' CHECK (trigger IN ('schedule', 'manual')),
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sent_reports_created ON public.sent_reports(created_at DESC);
+
+COMMENT ON TABLE public.sent_reports IS 'Every weekly report email sent, with the figures it showed and the stored workbook';
+COMMENT ON COLUMN public.sent_reports.file_path IS 'Path of the Excel workbook in the "reports" storage bucket';
+
+-- Messages with files attached keep them in storage, so a resend can attach them again
+ALTER TABLE public.notification_deliveries
+  ADD COLUMN IF NOT EXISTS attachments JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN public.notification_deliveries.attachments IS 'Files sent with the message: [{ filename, content_type, bucket, path }]';
+
+ALTER TABLE public.report_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sent_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage report subscriptions"
+ON public.report_subscriptions
+FOR ALL
+USING (is_user_admin())
+WITH CHECK (is_user_admin());
+
+CREATE POLICY "Admins can view sent reports"
+ON public.sent_reports
+FOR SELECT
+USING (is_user_admin());
+
+CREATE TRIGGER update_report_subscriptions_updated_at
+  BEFORE UPDATE ON public.report_subscriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Private bucket for the workbooks, written by the function and downloadable by admins
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reports', 'reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Admins can download reports"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'reports' AND is_user_admin());
+
+INSERT INTO public.notification_templates (event_type, channel, description, subject, heading, body, variables, is_active)
+VALUES
+(
+  'weekly_admin_report', 'email', 'Weekly summary for admins subscribed to reports',
+  'Weekly Report - {{period}}', 'Weekly Report',
+  $tpl$<p>Hello {{recipient_name}},</p>
+<p>Here is the summary for {{period}}{{branch_note}}:</p>
+<div class="info-box">
+  {{summary}}
+</div>
+<p>The full reports are attached as an Excel workbook ({{attachment_name}}).</p>$tpl$,
+  ARRAY['recipient_name', 'period', 'branch_note', 'summary', 'attachment_name'], true
+)
+ON CONFLICT (event_type, channel) DO NOTHING;
+
+-- Send on Mondays at 07:00 Manila time (23:00 UTC on Sunday) when pg_cron and pg_net are available
+-- Requires the "project_url" and "service_role_key" secrets in Vault
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    PERFORM cron.schedule(
+      'send-weekly-reports',
+      '0 23 * * 0',
+      $cron$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-admin-reports',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{"type": "weekly"}'::jsonb
+      );
+      $cron$
+    );
+  END IF;
+END;
+$$;
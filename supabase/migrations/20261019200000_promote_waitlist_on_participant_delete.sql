@@ -0,0 +1,131 @@
+-- Serve the waitlist from the database
+-- Waitlisted players used to be promoted only when a session was saved in the sessions screen,
+-- so spots freed anywhere else (participant removed from another screen, capacity raised) stayed
+-- empty. Removing a participant or raising max_participants now promotes the waitlist right away,
+-- which means waitlisted players get a freed spot before anyone added later in the same edit.
+-- Capacity checks lock the session row so two inserts can't both take the last spot.
+
+CREATE OR REPLACE FUNCTION public.enforce_session_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_max INTEGER;
+  v_taken INTEGER;
+BEGIN
+  SELECT max_participants INTO v_max
+  FROM public.training_sessions
+  WHERE id = NEW.session_id
+  FOR UPDATE;
+
+  IF v_max IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COUNT(*) INTO v_taken
+  FROM public.session_participants
+  WHERE session_id = NEW.session_id;
+
+  IF v_taken >= v_max THEN
+    RAISE EXCEPTION 'Session is full (% of % spots taken). Add the player to the waitlist instead.', v_taken, v_max
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.promote_waitlisted_students(p_session_id UUID)
+RETURNS TABLE(student_id UUID)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_max INTEGER;
+  v_status session_status;
+  v_date DATE;
+  v_taken INTEGER;
+  v_entry RECORD;
+BEGIN
+  SELECT ts.max_participants, ts.status, ts.date INTO v_max, v_status, v_date
+  FROM public.training_sessions ts
+  WHERE ts.id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_status <> 'scheduled' OR v_date < CURRENT_DATE THEN
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_taken
+  FROM public.session_participants sp
+  WHERE sp.session_id = p_session_id;
+
+  FOR v_entry IN
+    SELECT w.id, w.student_id
+    FROM public.session_waitlist w
+    WHERE w.session_id = p_session_id
+      AND w.status = 'waiting'
+      AND NOT EXISTS (
+        SELECT 1 FROM public.session_participants sp
+        WHERE sp.session_id = p_session_id AND sp.student_id = w.student_id
+      )
+    ORDER BY w.created_at, w.id
+  LOOP
+    EXIT WHEN v_max IS NOT NULL AND v_taken >= v_max;
+
+    UPDATE public.session_waitlist
+    SET status = 'promoted',
+        promoted_at = now()
+    WHERE id = v_entry.id;
+
+    INSERT INTO public.session_participants (session_id, student_id)
+    VALUES (p_session_id, v_entry.student_id);
+
+    INSERT INTO public.attendance_records (session_id, student_id, status)
+    VALUES (p_session_id, v_entry.student_id, 'pending')
+    ON CONFLICT (session_id, student_id) DO NOTHING;
+
+    v_taken := v_taken + 1;
+    student_id := v_entry.student_id;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+-- Runs as owner so a spot freed by someone who can't add participants still goes to the waitlist
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_participant_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.promote_waitlisted_students(OLD.session_id);
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS promote_waitlist_on_participant_delete ON public.session_participants;
+CREATE TRIGGER promote_waitlist_on_participant_delete
+AFTER DELETE ON public.session_participants
+FOR EACH ROW
+EXECUTE FUNCTION public.promote_waitlist_on_participant_delete();
+
+CREATE OR REPLACE FUNCTION public.promote_waitlist_on_capacity_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.promote_waitlisted_students(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS promote_waitlist_on_capacity_change ON public.training_sessions;
+CREATE TRIGGER promote_waitlist_on_capacity_change
+AFTER UPDATE OF max_participants ON public.training_sessions
+FOR EACH ROW
+WHEN (NEW.max_participants IS DISTINCT FROM OLD.max_participants)
+EXECUTE FUNCTION public.promote_waitlist_on_capacity_change();
@@ -0,0 +1,120 @@
+-- Count current-cycle charges by their charge date
+-- The ledger matched unarchived charges to the current package by created_at, so the balance
+-- renew_student_package carries forward was lost when the new package starts later than the
+-- day it was renewed: the charge is dated on the new enrollment date but created before it.
+-- Charges now follow charge_date, the same way payments follow payment_date.
+
+CREATE OR REPLACE VIEW public.student_balance_ledger
+WITH (security_invoker = true)
+AS
+WITH charge_payments AS (
+  SELECT sp.charge_id, SUM(sp.payment_amount) AS paid
+  FROM public.student_payments sp
+  WHERE sp.payment_for = 'extra_charge'
+    AND sp.charge_id IS NOT NULL
+    AND sp.voided_at IS NULL
+  GROUP BY sp.charge_id
+),
+charges AS (
+  -- Charges are paid by payments that reference them, capped at the charge amount
+  SELECT
+    sc.student_id,
+    sc.package_history_id,
+    sc.charge_date,
+    sc.amount,
+    GREATEST(0, LEAST(sc.amount, COALESCE(cp.paid, 0))) AS paid
+  FROM public.student_charges sc
+  LEFT JOIN charge_payments cp ON cp.charge_id = sc.id
+),
+cycles AS (
+  SELECT
+    h.student_id,
+    h.id AS package_history_id,
+    (ROW_NUMBER() OVER (PARTITION BY h.student_id ORDER BY h.captured_at, h.id))::INTEGER AS package_cycle,
+    false AS is_current,
+    h.package_type,
+    h.enrollment_date,
+    h.expiration_date,
+    COALESCE(h.total_training_fee, 0) AS total_training_fee,
+    COALESCE(h.downpayment, 0) AS downpayment,
+    h.remaining_balance AS stored_remaining_balance,
+    h.balance_resolution
+  FROM public.student_package_history h
+  WHERE h.student_id IS NOT NULL
+
+  UNION ALL
+
+  SELECT
+    s.id,
+    NULL::UUID,
+    (SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = s.id)::INTEGER,
+    true,
+    s.package_type,
+    s.enrollment_date,
+    s.expiration_date,
+    COALESCE(s.total_training_fee, 0),
+    COALESCE(s.downpayment, 0),
+    s.remaining_balance,
+    NULL::TEXT
+  FROM public.students s
+)
+SELECT
+  c.student_id,
+  c.package_history_id,
+  c.package_cycle,
+  c.is_current,
+  c.package_type,
+  c.enrollment_date,
+  c.expiration_date,
+  c.total_training_fee,
+  c.downpayment,
+  p.balance_payments,
+  ch.charges_total,
+  ch.charges_paid,
+  ch.charges_owed,
+  GREATEST(0, c.total_training_fee - c.downpayment - p.balance_payments + ch.charges_owed) AS remaining_balance,
+  c.stored_remaining_balance,
+  c.balance_resolution
+FROM cycles c
+CROSS JOIN LATERAL (
+  -- Current package: unarchived payments made since enrollment, same as the balance triggers always used
+  SELECT COALESCE(SUM(sp.payment_amount), 0) AS balance_payments
+  FROM public.student_payments sp
+  WHERE sp.student_id = c.student_id
+    AND sp.payment_for = 'balance'
+    AND sp.voided_at IS NULL
+    AND CASE
+      WHEN c.is_current THEN sp.package_history_id IS NULL
+        AND sp.payment_date::date >= COALESCE(c.enrollment_date, '1900-01-01'::date)
+      ELSE sp.package_history_id = c.package_history_id
+    END
+) p
+CROSS JOIN LATERAL (
+  SELECT
+    COALESCE(SUM(x.amount), 0) AS charges_total,
+    COALESCE(SUM(x.paid), 0) AS charges_paid,
+    COALESCE(SUM(x.amount - x.paid), 0) AS charges_owed
+  FROM charges x
+  WHERE x.student_id = c.student_id
+    AND CASE
+      WHEN c.is_current THEN x.package_history_id IS NULL
+        AND x.charge_date::date >= COALESCE(c.enrollment_date, '1900-01-01'::date)
+      ELSE x.package_history_id = c.package_history_id
+    END
+) ch;
+
+-- Bring the stored balances of renewed students back in line with the ledger
+DO $$
+DECLARE
+  v_student_id UUID;
+BEGIN
+  FOR v_student_id IN
+    SELECT DISTINCT student_id
+    FROM public.student_charges
+    WHERE charge_type = 'balance_carry_forward'
+      AND package_history_id IS NULL
+  LOOP
+    PERFORM public.refresh_student_balances(v_student_id);
+  END LOOP;
+END;
+$$;
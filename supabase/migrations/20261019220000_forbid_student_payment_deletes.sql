@@ -0,0 +1,23 @@
+-- Payments can no longer be deleted
+-- The coach/admin policy on student_payments covered every command, so a payment could still be
+-- deleted through the API and vanish from the audit trail. Mistakes are corrected with
+-- void_student_payment() and refund_student_payment() instead. Deleting a student still removes
+-- their payments through the foreign key.
+
+DROP POLICY IF EXISTS "Coaches and admins can manage student payments" ON public.student_payments;
+
+CREATE POLICY "Coaches and admins can view student payments"
+ON public.student_payments
+FOR SELECT
+USING (is_user_coach_or_admin());
+
+CREATE POLICY "Coaches and admins can record student payments"
+ON public.student_payments
+FOR INSERT
+WITH CHECK (is_user_coach_or_admin());
+
+CREATE POLICY "Coaches and admins can update student payments"
+ON public.student_payments
+FOR UPDATE
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
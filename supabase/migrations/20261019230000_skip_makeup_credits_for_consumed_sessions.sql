@@ -0,0 +1,34 @@
+-- Cancelling a session no longer owes a make-up to students whose mark already used up a session
+-- Since consumption rules were added a late, absent or excused mark can also count against the
+-- package, so the credit check follows attendance_records.consumes_session instead of 'present'.
+
+CREATE OR REPLACE FUNCTION public.sync_makeup_credits_on_session_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    INSERT INTO public.makeup_credits (student_id, package_cycle, source_session_id)
+    SELECT
+      sp.student_id,
+      (SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = sp.student_id),
+      NEW.id
+    FROM public.session_participants sp
+    WHERE sp.session_id = NEW.id
+      -- Students charged a session for this one already used it and are not owed anything
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance_records ar
+        WHERE ar.session_id = NEW.id
+          AND ar.student_id = sp.student_id
+          AND ar.consumes_session
+      )
+    ON CONFLICT (student_id, source_session_id) DO NOTHING;
+  ELSIF OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+    DELETE FROM public.makeup_credits
+    WHERE source_session_id = NEW.id
+      AND redeemed_session_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
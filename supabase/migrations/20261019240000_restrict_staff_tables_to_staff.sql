@@ -0,0 +1,113 @@
+-- Close the remaining open policies now that students can sign in
+-- coaches, branches and coach_attendance_records still allowed every operation to any signed-in user,
+-- so a portal login could write itself a coaches row with role 'admin'. Staff keep their access,
+-- students only read branches (the portal shows branch names), and coach profiles are linked to
+-- their login through claim_coach_account() instead of a client-side update.
+
+-- coaches: admins already have insert/update/delete policies
+DROP POLICY IF EXISTS "Allow all operations on coaches" ON public.coaches;
+
+CREATE POLICY "Coaches and admins can view coaches"
+ON public.coaches
+FOR SELECT
+USING (is_user_coach_or_admin());
+
+-- Needed before the profile is linked, when the login is only matched by email
+CREATE POLICY "Staff can view their own profile"
+ON public.coaches
+FOR SELECT
+USING (auth_id = auth.uid() OR lower(email) = lower(auth.jwt() ->> 'email'));
+
+-- branches: admins already have insert/update/delete policies
+DROP POLICY IF EXISTS "Allow all operations on branches" ON public.branches;
+
+CREATE POLICY "Coaches and admins can view branches"
+ON public.branches
+FOR SELECT
+USING (is_user_coach_or_admin());
+
+CREATE POLICY "Students can view branches"
+ON public.branches
+FOR SELECT
+USING (get_current_student_id() IS NOT NULL);
+
+-- coach_attendance_records
+DROP POLICY IF EXISTS "Allow all operations on coach_attendance_records" ON public.coach_attendance_records;
+
+CREATE POLICY "Coaches and admins can manage coach attendance records"
+ON public.coach_attendance_records
+FOR ALL
+USING (is_user_coach_or_admin())
+WITH CHECK (is_user_coach_or_admin());
+
+-- Link the current auth user to the unlinked coach row with the same (confirmed) email
+-- Returns the coach id, or NULL when there is nothing to claim
+CREATE OR REPLACE FUNCTION public.claim_coach_account()
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_email TEXT;
+  v_coach_id UUID;
+BEGIN
+  SELECT id INTO v_coach_id FROM public.coaches WHERE auth_id = auth.uid();
+  IF v_coach_id IS NOT NULL THEN
+    RETURN v_coach_id;
+  END IF;
+
+  SELECT email INTO v_email
+  FROM auth.users
+  WHERE id = auth.uid()
+    AND email_confirmed_at IS NOT NULL;
+
+  IF v_email IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.coaches
+  SET auth_id = auth.uid(),
+      updated_at = now()
+  WHERE lower(email) = lower(v_email)
+    AND auth_id IS NULL
+  RETURNING id INTO v_coach_id;
+
+  RETURN v_coach_id;
+END;
+$$;
+
+-- Coach sign-ups can no longer insert their own profile, so the trigger also keeps the phone number
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NEW.raw_user_meta_data->>'account_type' = 'student' THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.coaches (
+    id,
+    name,
+    email,
+    phone,
+    role,
+    auth_id,
+    created_at,
+    updated_at
+  )
+  VALUES (
+    gen_random_uuid(),
+    COALESCE(NEW.raw_user_meta_data->>'name', NEW.raw_user_meta_data->>'display_name', 'New Coach'),
+    NEW.email,
+    NULLIF(NEW.raw_user_meta_data->>'phone', ''),
+    'coach',
+    NEW.id,
+    NOW(),
+    NOW()
+  );
+  RETURN NEW;
+END;
+$$;
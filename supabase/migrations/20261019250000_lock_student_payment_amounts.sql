@@ -0,0 +1,38 @@
+-- Payments can no longer be rewritten
+-- Blocking deletes wasn't enough: the update policy still let a coach change the amount or
+-- allocation of any payment that hadn't been voided. Every payment now keeps what it recorded,
+-- corrections go through void_student_payment() and refund_student_payment(). Only the package
+-- link may still move (when the package is archived), and a void is set once and never undone.
+-- The trigger keeps its old name, it now guards every payment and not only voided ones.
+
+CREATE OR REPLACE FUNCTION public.protect_voided_student_payments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.student_id IS DISTINCT FROM OLD.student_id
+    OR NEW.payment_amount IS DISTINCT FROM OLD.payment_amount
+    OR NEW.payment_date IS DISTINCT FROM OLD.payment_date
+    OR NEW.payment_for IS DISTINCT FROM OLD.payment_for
+    -- The charge link only clears when the charge itself is deleted (ON DELETE SET NULL)
+    OR (NEW.charge_id IS DISTINCT FROM OLD.charge_id AND NOT (
+      NEW.charge_id IS NULL
+      AND NOT EXISTS (SELECT 1 FROM public.student_charges WHERE id = OLD.charge_id)
+    ))
+    OR NEW.transaction_type IS DISTINCT FROM OLD.transaction_type
+    OR NEW.refunded_payment_id IS DISTINCT FROM OLD.refunded_payment_id
+  THEN
+    RAISE EXCEPTION 'Payment % can no longer be changed, void or refund it instead', OLD.id;
+  END IF;
+
+  IF OLD.voided_at IS NOT NULL AND (
+    NEW.voided_at IS DISTINCT FROM OLD.voided_at
+    OR NEW.void_reason IS DISTINCT FROM OLD.void_reason
+  ) THEN
+    RAISE EXCEPTION 'Payment % has been voided and can no longer be changed', OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,117 @@
+-- Change a session's roster in one call
+-- The triggers from 20261019200000 promoted waitlisted players while an edit was still removing and
+-- re-adding participants, so a swap on a full session could fail halfway with "Session is full"
+-- and leave the roster half-changed. Deleting a session removed its participants first and
+-- promoted players into a session about to disappear, and nobody was told about players the
+-- triggers promoted. Roster changes now go through set_session_participants(), which removes,
+-- adds and then fills freed spots from the waitlist in one transaction, and emails the promotion
+-- itself. Cancelled, completed and past sessions are never promoted into, and deleting a session
+-- no longer touches its waitlist.
+
+DROP TRIGGER IF EXISTS promote_waitlist_on_participant_delete ON public.session_participants;
+DROP FUNCTION IF EXISTS public.promote_waitlist_on_participant_delete();
+
+DROP TRIGGER IF EXISTS promote_waitlist_on_capacity_change ON public.training_sessions;
+DROP FUNCTION IF EXISTS public.promote_waitlist_on_capacity_change();
+
+-- Hand a notification to the send-session-notification function, the same way as
+-- send_push_notification(). Does nothing when pg_net or the Vault secrets aren't set up.
+CREATE OR REPLACE FUNCTION public.send_session_notification(p_body JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_url TEXT;
+  v_service_role_key TEXT;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net') THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO v_project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO v_service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF v_project_url IS NULL OR v_service_role_key IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_project_url || '/functions/v1/send-session-notification',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || v_service_role_key
+    ),
+    body := p_body
+  );
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'send_session_notification failed: %', SQLERRM;
+END;
+$$;
+
+-- Make p_student_ids the participants of the session. Removed students lose their attendance
+-- record, added ones get a pending record and use up a make-up credit if they have one.
+-- Returns the waitlisted students moved into the spots left over.
+CREATE OR REPLACE FUNCTION public.set_session_participants(p_session_id UUID, p_student_ids UUID[])
+RETURNS TABLE(student_id UUID)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_student_ids UUID[] := COALESCE(p_student_ids, '{}');
+  v_added UUID[];
+  v_promoted UUID[];
+BEGIN
+  PERFORM 1 FROM public.training_sessions WHERE id = p_session_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+
+  DELETE FROM public.attendance_records ar
+  WHERE ar.session_id = p_session_id
+    AND ar.student_id IN (
+      SELECT sp.student_id FROM public.session_participants sp
+      WHERE sp.session_id = p_session_id
+        AND NOT (sp.student_id = ANY(v_student_ids))
+    );
+
+  DELETE FROM public.session_participants sp
+  WHERE sp.session_id = p_session_id
+    AND NOT (sp.student_id = ANY(v_student_ids));
+
+  -- enforce_session_capacity() checks each insert, a full session rolls the whole change back
+  WITH added AS (
+    INSERT INTO public.session_participants (session_id, student_id)
+    SELECT p_session_id, s.id
+    FROM unnest(v_student_ids) AS s(id)
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.session_participants sp
+      WHERE sp.session_id = p_session_id AND sp.student_id = s.id
+    )
+    RETURNING student_id
+  )
+  SELECT array_agg(added.student_id) INTO v_added FROM added;
+
+  IF v_added IS NOT NULL THEN
+    INSERT INTO public.attendance_records (session_id, student_id, status)
+    SELECT p_session_id, a.id, 'pending'
+    FROM unnest(v_added) AS a(id)
+    ON CONFLICT (session_id, student_id) DO NOTHING;
+
+    PERFORM public.redeem_makeup_credits(p_session_id, v_added);
+  END IF;
+
+  SELECT array_agg(p.student_id) INTO v_promoted
+  FROM public.promote_waitlisted_students(p_session_id) p;
+
+  IF v_promoted IS NOT NULL THEN
+    PERFORM public.send_session_notification(jsonb_build_object(
+      'notificationType', 'waitlist_promotion',
+      'sessionId', p_session_id,
+      'studentIds', to_jsonb(v_promoted)
+    ));
+  END IF;
+
+  RETURN QUERY SELECT unnest(COALESCE(v_promoted, '{}'::UUID[]));
+END;
+$$;
@@ -0,0 +1,275 @@
+-- Create series and edit "this and all future" sessions in one transaction
+-- The app wrote the series, its sessions, coaches and participants with separate requests, so a
+-- failure halfway left orphan sessions behind, and edits carried over to later sessions added
+-- players without checking them against those dates. Both now run in the database and check every
+-- occurrence first: double bookings and coach availability (dates the admin chose to keep despite
+-- the conflict report are let through) and whether each added player's package still covers the
+-- date. Nothing is written unless every occurrence passes.
+
+-- One row per student whose package can't cover a session on this date: expired by then, or no
+-- sessions left in the current package cycle (counted the way the session form counts them)
+CREATE OR REPLACE FUNCTION public.get_student_package_conflicts(p_student_ids UUID[], p_date DATE)
+RETURNS TABLE(student_id UUID, conflict_details TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    CASE
+      WHEN s.expiration_date < p_date THEN
+        'Student ' || s.name || '''s package expires on ' || to_char(s.expiration_date, 'Mon DD, YYYY')
+      ELSE 'Student ' || s.name || ' has no remaining sessions'
+    END
+  FROM public.students s
+  CROSS JOIN LATERAL (
+    SELECT COUNT(*) + 1 AS cycle
+    FROM public.student_package_history h
+    WHERE h.student_id = s.id
+  ) c
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(SUM(COALESCE(ar.session_duration, 1)), 0) AS used
+    FROM public.attendance_records ar
+    LEFT JOIN public.training_sessions ts ON ts.id = ar.session_id
+    WHERE ar.student_id = s.id
+      AND ar.consumes_session
+      AND (ar.package_cycle = c.cycle OR ts.package_cycle = c.cycle)
+  ) u
+  WHERE s.id = ANY(COALESCE(p_student_ids, ARRAY[]::UUID[]))
+    AND (s.expiration_date < p_date OR COALESCE(s.sessions, 0) - u.used <= 0);
+$$;
+
+-- Returns the number of sessions created
+CREATE OR REPLACE FUNCTION public.create_session_series(
+  p_branch_id UUID,
+  p_package_type TEXT,
+  p_days_of_week day_of_week[],
+  p_start_time TIME,
+  p_end_time TIME,
+  p_start_date DATE,
+  p_end_date DATE,
+  p_skip_dates DATE[],
+  p_notes TEXT,
+  p_max_participants INTEGER,
+  p_dates DATE[],
+  p_accepted_conflict_dates DATE[],
+  p_coach_ids UUID[],
+  p_student_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_dates DATE[];
+  v_date DATE;
+  v_details TEXT;
+  v_clashes TEXT[] := '{}';
+  v_series_id UUID;
+  v_session_id UUID;
+BEGIN
+  SELECT array_agg(DISTINCT d ORDER BY d) INTO v_dates FROM unnest(p_dates) AS d;
+  IF v_dates IS NULL THEN
+    RAISE EXCEPTION 'No dates selected for this series';
+  END IF;
+
+  FOREACH v_date IN ARRAY v_dates LOOP
+    IF NOT v_date = ANY(COALESCE(p_accepted_conflict_dates, ARRAY[]::DATE[])) THEN
+      SELECT string_agg(c.conflict_details, '; ') INTO v_details
+      FROM public.check_scheduling_conflicts(v_date, p_start_time, p_end_time, p_coach_ids, p_student_ids) c;
+      IF v_details IS NOT NULL THEN
+        v_clashes := v_clashes || (v_date::TEXT || ' (' || v_details || ')');
+      END IF;
+    END IF;
+
+    SELECT string_agg(c.conflict_details, '; ') INTO v_details
+    FROM public.get_student_package_conflicts(p_student_ids, v_date) c;
+    IF v_details IS NOT NULL THEN
+      v_clashes := v_clashes || (v_date::TEXT || ' (' || v_details || ')');
+    END IF;
+  END LOOP;
+
+  IF cardinality(v_clashes) > 0 THEN
+    RAISE EXCEPTION 'Sessions of this series can''t be scheduled: %', array_to_string(v_clashes, ', ');
+  END IF;
+
+  INSERT INTO public.session_series (
+    branch_id, package_type, days_of_week, start_time, end_time, start_date, end_date, skip_dates, notes
+  )
+  VALUES (
+    p_branch_id,
+    NULLIF(p_package_type, ''),
+    p_days_of_week,
+    p_start_time,
+    p_end_time,
+    p_start_date,
+    p_end_date,
+    COALESCE((SELECT array_agg(DISTINCT d ORDER BY d) FROM unnest(p_skip_dates) AS d), '{}'),
+    NULLIF(p_notes, '')
+  )
+  RETURNING id INTO v_series_id;
+
+  -- In date order, so make-ups owed go to the first sessions of the series
+  FOREACH v_date IN ARRAY v_dates LOOP
+    INSERT INTO public.training_sessions (
+      branch_id, date, start_time, end_time, notes, status, package_type, max_participants, series_id
+    )
+    VALUES (
+      p_branch_id, v_date, p_start_time, p_end_time, p_notes, 'scheduled', p_package_type, p_max_participants, v_series_id
+    )
+    RETURNING id INTO v_session_id;
+
+    INSERT INTO public.session_coaches (session_id, coach_id)
+    SELECT v_session_id, c.id
+    FROM unnest(COALESCE(p_coach_ids, ARRAY[]::UUID[])) AS c(id);
+
+    PERFORM * FROM public.set_session_participants(v_session_id, p_student_ids);
+  END LOOP;
+
+  RETURN cardinality(v_dates);
+END;
+$$;
+
+-- Carry an edit of p_session_id over to the later scheduled sessions of its series. Each later
+-- session keeps its own roster, only p_add_student_ids and p_remove_student_ids change it.
+-- Returns the number of sessions updated.
+CREATE OR REPLACE FUNCTION public.apply_session_to_series(
+  p_session_id UUID,
+  p_start_time TIME,
+  p_end_time TIME,
+  p_notes TEXT,
+  p_package_type TEXT,
+  p_max_participants INTEGER,
+  p_coach_ids UUID[],
+  p_add_student_ids UUID[],
+  p_remove_student_ids UUID[]
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.training_sessions%ROWTYPE;
+  v_future_ids UUID[];
+  v_future RECORD;
+  v_time_changed BOOLEAN;
+  v_coach_ids UUID[] := COALESCE(p_coach_ids, ARRAY[]::UUID[]);
+  v_add UUID[] := COALESCE(p_add_student_ids, ARRAY[]::UUID[]);
+  v_remove UUID[] := COALESCE(p_remove_student_ids, ARRAY[]::UUID[]);
+  v_roster UUID[];
+  v_new_coaches UUID[];
+  v_new_students UUID[];
+  v_details TEXT;
+  v_clashes TEXT[] := '{}';
+BEGIN
+  SELECT * INTO v_session FROM public.training_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session % not found', p_session_id;
+  END IF;
+  IF v_session.series_id IS NULL THEN
+    RAISE EXCEPTION 'This session is not part of a series';
+  END IF;
+
+  SELECT COALESCE(array_agg(ts.id ORDER BY ts.date), '{}') INTO v_future_ids
+  FROM public.training_sessions ts
+  WHERE ts.series_id = v_session.series_id
+    AND ts.status = 'scheduled'
+    AND ts.date >= v_session.date
+    AND ts.id <> p_session_id;
+
+  PERFORM 1 FROM public.training_sessions WHERE id = ANY(v_future_ids) FOR UPDATE;
+
+  -- Check every later session before changing any of them. Coaches and players already on a
+  -- session whose time doesn't change stay, like they do when a single session is edited.
+  FOR v_future IN
+    SELECT id, date, start_time, end_time FROM public.training_sessions WHERE id = ANY(v_future_ids) ORDER BY date
+  LOOP
+    v_time_changed := v_future.start_time IS DISTINCT FROM p_start_time
+      OR v_future.end_time IS DISTINCT FROM p_end_time;
+
+    SELECT COALESCE(array_agg(sp.student_id), '{}') INTO v_roster
+    FROM public.session_participants sp
+    WHERE sp.session_id = v_future.id
+      AND NOT (sp.student_id = ANY(v_remove));
+
+    v_new_students := ARRAY(SELECT a FROM unnest(v_add) AS a WHERE NOT a = ANY(v_roster));
+    v_new_coaches := ARRAY(
+      SELECT c FROM unnest(v_coach_ids) AS c
+      WHERE NOT EXISTS (
+        SELECT 1 FROM public.session_coaches sc WHERE sc.session_id = v_future.id AND sc.coach_id = c
+      )
+    );
+
+    SELECT string_agg(c.conflict_details, '; ') INTO v_details
+    FROM public.check_scheduling_conflicts(
+      v_future.date,
+      p_start_time,
+      p_end_time,
+      CASE WHEN v_time_changed THEN v_coach_ids ELSE v_new_coaches END,
+      CASE WHEN v_time_changed THEN v_roster || v_new_students ELSE v_new_students END,
+      v_future.id
+    ) c;
+    IF v_details IS NOT NULL THEN
+      v_clashes := v_clashes || (v_future.date::TEXT || ' (' || v_details || ')');
+    END IF;
+
+    SELECT string_agg(c.conflict_details, '; ') INTO v_details
+    FROM public.get_student_package_conflicts(v_new_students, v_future.date) c;
+    IF v_details IS NOT NULL THEN
+      v_clashes := v_clashes || (v_future.date::TEXT || ' (' || v_details || ')');
+    END IF;
+  END LOOP;
+
+  IF cardinality(v_clashes) > 0 THEN
+    RAISE EXCEPTION 'Later sessions of this series have conflicts: %. Edit those sessions one at a time instead.',
+      array_to_string(v_clashes, ', ');
+  END IF;
+
+  UPDATE public.training_sessions
+  SET start_time = p_start_time,
+      end_time = p_end_time,
+      notes = p_notes,
+      package_type = p_package_type,
+      max_participants = p_max_participants
+  WHERE id = ANY(v_future_ids);
+
+  -- Only coaches that changed are touched, every new row pushes an assignment notification
+  DELETE FROM public.session_coaches sc
+  WHERE sc.session_id = ANY(v_future_ids)
+    AND NOT (sc.coach_id = ANY(v_coach_ids));
+
+  INSERT INTO public.session_coaches (session_id, coach_id)
+  SELECT f.id, c.id
+  FROM unnest(v_future_ids) AS f(id)
+  CROSS JOIN unnest(v_coach_ids) AS c(id)
+  WHERE NOT EXISTS (
+    SELECT 1 FROM public.session_coaches sc WHERE sc.session_id = f.id AND sc.coach_id = c.id
+  );
+
+  -- In date order, so make-ups owed go to the earliest sessions a player joins
+  IF cardinality(v_add) > 0 OR cardinality(v_remove) > 0 THEN
+    FOR v_future IN
+      SELECT id FROM public.training_sessions WHERE id = ANY(v_future_ids) ORDER BY date
+    LOOP
+      SELECT COALESCE(array_agg(sp.student_id), '{}') INTO v_roster
+      FROM public.session_participants sp
+      WHERE sp.session_id = v_future.id
+        AND NOT (sp.student_id = ANY(v_remove));
+
+      PERFORM * FROM public.set_session_participants(
+        v_future.id,
+        ARRAY(SELECT DISTINCT s FROM unnest(v_roster || v_add) AS s)
+      );
+    END LOOP;
+  END IF;
+
+  UPDATE public.session_series
+  SET start_time = p_start_time,
+      end_time = p_end_time,
+      notes = NULLIF(p_notes, ''),
+      package_type = NULLIF(p_package_type, '')
+  WHERE id = v_session.series_id;
+
+  RETURN cardinality(v_future_ids);
+END;
+$$;
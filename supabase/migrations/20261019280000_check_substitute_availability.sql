@@ -0,0 +1,188 @@
+-- Substitutes respect coach availability and time off
+-- request_substitute() and accept_substitute_request() only looked for double bookings, and caught
+-- availability indirectly through the coach rows check_scheduling_conflicts() gained in
+-- 20261019140000, so a coach outside their hours was told they were "already scheduled". Both now
+-- check get_coach_availability_conflicts() themselves: coaches on time off or outside their weekly
+-- hours aren't offered the session, and can't take it if their availability changed since the offer.
+
+CREATE OR REPLACE FUNCTION public.request_substitute(p_session_id UUID, p_reason TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_coach_id UUID := get_current_coach_id();
+  v_session public.training_sessions%ROWTYPE;
+  v_request_id UUID;
+BEGIN
+  IF v_coach_id IS NULL THEN
+    RAISE EXCEPTION 'Only coaches can request a substitute';
+  END IF;
+
+  IF NULLIF(btrim(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'A reason is required';
+  END IF;
+
+  SELECT * INTO v_session FROM public.training_sessions WHERE id = p_session_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session.status <> 'scheduled' OR (v_session.date + v_session.start_time) <= now() THEN
+    RAISE EXCEPTION 'Substitutes can only be requested for upcoming scheduled sessions';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.session_coaches sc
+    WHERE sc.session_id = p_session_id AND sc.coach_id = v_coach_id
+  ) THEN
+    RAISE EXCEPTION 'You are not assigned to this session';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.substitute_requests sr
+    WHERE sr.session_id = p_session_id AND sr.coach_id = v_coach_id AND sr.status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'You already have an open substitute request for this session';
+  END IF;
+
+  INSERT INTO public.substitute_requests (session_id, coach_id, reason)
+  VALUES (p_session_id, v_coach_id, btrim(p_reason))
+  RETURNING id INTO v_request_id;
+
+  INSERT INTO public.substitute_offers (request_id, coach_id)
+  SELECT v_request_id, c.id
+  FROM public.coaches c
+  WHERE c.role = 'coach'
+    AND NOT EXISTS (
+      SELECT 1 FROM public.session_coaches sc
+      WHERE sc.session_id = p_session_id AND sc.coach_id = c.id
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.check_scheduling_conflicts(
+        p_coach_ids => ARRAY[c.id],
+        p_date => v_session.date,
+        p_start_time => v_session.start_time,
+        p_end_time => v_session.end_time,
+        p_session_id => p_session_id,
+        p_student_ids => ARRAY[]::UUID[]
+      ) conflict
+      WHERE conflict.conflict_type = 'coach'
+    )
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.get_coach_availability_conflicts(
+        ARRAY[c.id],
+        v_session.date,
+        v_session.start_time,
+        v_session.end_time
+      )
+    );
+
+  RETURN v_request_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.accept_substitute_request(p_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_coach_id UUID := get_current_coach_id();
+  v_request public.substitute_requests%ROWTYPE;
+  v_session public.training_sessions%ROWTYPE;
+  v_unavailable TEXT;
+BEGIN
+  IF v_coach_id IS NULL THEN
+    RAISE EXCEPTION 'Only coaches can accept a substitute request';
+  END IF;
+
+  -- Locks the request so two coaches accepting at once can't both be swapped in
+  SELECT * INTO v_request
+  FROM public.substitute_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Substitute request not found';
+  END IF;
+
+  IF v_request.status = 'filled' THEN
+    RAISE EXCEPTION 'Another coach has already taken this session';
+  ELSIF v_request.status <> 'open' THEN
+    RAISE EXCEPTION 'This substitute request was cancelled';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.substitute_offers o
+    WHERE o.request_id = p_request_id AND o.coach_id = v_coach_id
+  ) THEN
+    RAISE EXCEPTION 'This session was not offered to you';
+  END IF;
+
+  SELECT * INTO v_session FROM public.training_sessions WHERE id = v_request.session_id;
+  IF v_session.status <> 'scheduled' OR (v_session.date + v_session.start_time) <= now() THEN
+    RAISE EXCEPTION 'This session has already started or is no longer scheduled';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.session_coaches sc
+    WHERE sc.session_id = v_request.session_id AND sc.coach_id = v_coach_id
+  ) THEN
+    RAISE EXCEPTION 'You are already assigned to this session';
+  END IF;
+
+  -- Re-checked because time off may have been approved or hours changed since the offer
+  SELECT a.conflict_details INTO v_unavailable
+  FROM public.get_coach_availability_conflicts(
+    ARRAY[v_coach_id],
+    v_session.date,
+    v_session.start_time,
+    v_session.end_time
+  ) a
+  LIMIT 1;
+
+  IF v_unavailable IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_unavailable;
+  END IF;
+
+  -- Re-checked because the coach may have been scheduled elsewhere since the offer
+  IF EXISTS (
+    SELECT 1
+    FROM public.check_scheduling_conflicts(
+      p_coach_ids => ARRAY[v_coach_id],
+      p_date => v_session.date,
+      p_start_time => v_session.start_time,
+      p_end_time => v_session.end_time,
+      p_session_id => v_session.id,
+      p_student_ids => ARRAY[]::UUID[]
+    ) conflict
+    WHERE conflict.conflict_type = 'coach'
+  ) THEN
+    RAISE EXCEPTION 'You are already scheduled at this time';
+  END IF;
+
+  DELETE FROM public.session_coaches
+  WHERE session_id = v_request.session_id AND coach_id = v_request.coach_id;
+
+  -- create_coach_attendance_on_assignment() adds the substitute's pending attendance record
+  INSERT INTO public.session_coaches (session_id, coach_id)
+  VALUES (v_request.session_id, v_coach_id);
+
+  INSERT INTO public.coach_attendance_records (session_id, coach_id, status, marked_at, updated_at)
+  VALUES (v_request.session_id, v_request.coach_id, 'excused', now(), now())
+  ON CONFLICT (session_id, coach_id)
+  DO UPDATE SET
+    status = 'excused',
+    marked_at = now(),
+    updated_at = now();
+
+  UPDATE public.substitute_requests
+  SET status = 'filled',
+      accepted_by = v_coach_id,
+      filled_at = now()
+  WHERE id = p_request_id;
+END;
+$$;
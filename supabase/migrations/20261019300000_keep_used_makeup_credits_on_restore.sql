@@ -0,0 +1,49 @@
+-- Restoring a cancelled session can't take back make-ups already used
+-- Un-cancelling removed the credits nobody had used yet but left the redeemed ones, so a student
+-- who had booked their make-up ended up with the restored session and the make-up for it. A
+-- restore is now refused while any of its credits is redeemed. Taking the student out of the
+-- make-up session releases the credit, and the restore goes through after that.
+
+CREATE OR REPLACE FUNCTION public.sync_makeup_credits_on_session_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_redeemed TEXT;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    INSERT INTO public.makeup_credits (student_id, package_cycle, source_session_id)
+    SELECT
+      sp.student_id,
+      (SELECT COUNT(*) + 1 FROM public.student_package_history h WHERE h.student_id = sp.student_id),
+      NEW.id
+    FROM public.session_participants sp
+    WHERE sp.session_id = NEW.id
+      -- Students charged a session for this one already used it and are not owed anything
+      AND NOT EXISTS (
+        SELECT 1 FROM public.attendance_records ar
+        WHERE ar.session_id = NEW.id
+          AND ar.student_id = sp.student_id
+          AND ar.consumes_session
+      )
+    ON CONFLICT (student_id, source_session_id) DO NOTHING;
+  ELSIF OLD.status = 'cancelled' AND NEW.status <> 'cancelled' THEN
+    SELECT string_agg(s.name || ' (' || to_char(ts.date, 'Mon DD, YYYY') || ')', ', ' ORDER BY ts.date, s.name)
+    INTO v_redeemed
+    FROM public.makeup_credits mc
+    JOIN public.students s ON s.id = mc.student_id
+    JOIN public.training_sessions ts ON ts.id = mc.redeemed_session_id
+    WHERE mc.source_session_id = NEW.id;
+
+    IF v_redeemed IS NOT NULL THEN
+      RAISE EXCEPTION 'This session can''t be restored, make-ups for it were already scheduled: %. Remove those students from their make-up sessions first.', v_redeemed;
+    END IF;
+
+    DELETE FROM public.makeup_credits
+    WHERE source_session_id = NEW.id
+      AND redeemed_session_id IS NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
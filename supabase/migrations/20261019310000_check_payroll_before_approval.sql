@@ -0,0 +1,67 @@
+-- Don't approve payroll figures that are out of date
+-- A period could be approved long after it was calculated, locking pay lines that no longer matched
+-- the logged times, attendance, punch reviews or rates. Approval now recalculates the period and
+-- refuses when the lines come out different from the ones the admin reviewed, so the admin
+-- recalculates and checks the new figures first.
+
+CREATE OR REPLACE FUNCTION public.approve_payroll_period(p_period_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_period public.payroll_periods%ROWTYPE;
+  v_reviewed TEXT;
+  v_current TEXT;
+BEGIN
+  IF NOT is_user_admin() THEN
+    RAISE EXCEPTION 'Only admins can approve payroll';
+  END IF;
+
+  SELECT * INTO v_period
+  FROM public.payroll_periods
+  WHERE id = p_period_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll period % not found', p_period_id;
+  END IF;
+
+  IF v_period.status = 'approved' THEN
+    RAISE EXCEPTION 'Payroll period is already approved';
+  END IF;
+
+  IF v_period.calculated_at IS NULL THEN
+    RAISE EXCEPTION 'Calculate the payroll period before approving it';
+  END IF;
+
+  SELECT string_agg(
+    concat_ws('|', l.coach_id, l.session_id, l.session_date, l.package_type, l.status,
+      l.time_in, l.time_out, l.hours, l.rate_type, l.rate, l.amount),
+    ',' ORDER BY l.coach_id, l.session_date, l.session_id
+  ) INTO v_reviewed
+  FROM public.payroll_lines l
+  WHERE l.period_id = p_period_id;
+
+  PERFORM public.calculate_payroll_period(p_period_id);
+
+  SELECT string_agg(
+    concat_ws('|', l.coach_id, l.session_id, l.session_date, l.package_type, l.status,
+      l.time_in, l.time_out, l.hours, l.rate_type, l.rate, l.amount),
+    ',' ORDER BY l.coach_id, l.session_date, l.session_id
+  ) INTO v_current
+  FROM public.payroll_lines l
+  WHERE l.period_id = p_period_id;
+
+  -- Raising also rolls back the recalculation, the period stays as the admin last saw it
+  IF v_reviewed IS DISTINCT FROM v_current THEN
+    RAISE EXCEPTION 'Sessions, times or rates changed since this payroll was calculated. Recalculate it and review the new figures before approving.';
+  END IF;
+
+  UPDATE public.payroll_periods
+  SET status = 'approved',
+      approved_at = now(),
+      approved_by = get_current_coach_id()
+  WHERE id = p_period_id;
+END;
+$$;